@@ -7,6 +7,15 @@ import Products from './pages/Products';
 import Delivery from './pages/Delivery';
 import Settings from './pages/Settings';
 import Sales from './pages/Sales';
+import Checkout from './pages/Checkout';
+import Purchases from './pages/Purchases';
+import Suppliers from './pages/Suppliers';
+import Customers from './pages/Customers';
+import InventoryCounts from './pages/InventoryCounts';
+import Locations from './pages/Locations';
+import Promotions from './pages/Promotions';
+import LandedCosts from './pages/LandedCosts';
+import Expiry from './pages/Expiry';
 import Layout from './components/Layout';
 import { LoaderIcon } from './components/Icons';
 import LoadingScreen from './components/LoadingScreen';
@@ -52,6 +61,15 @@ const AppRoutes: React.FC = () => {
                         <Route path="/products" element={<Products />} />
                         <Route path="/delivery" element={<Delivery />} />
                         <Route path="/sales" element={<Sales />} />
+                        <Route path="/checkout" element={<Checkout />} />
+                        <Route path="/customers" element={<Customers />} />
+                        <Route path="/purchases" element={<Purchases />} />
+                        <Route path="/suppliers" element={<Suppliers />} />
+                        <Route path="/counts" element={<InventoryCounts />} />
+                        <Route path="/locations" element={<Locations />} />
+                        <Route path="/promotions" element={<Promotions />} />
+                        <Route path="/landed-costs" element={<LandedCosts />} />
+                        <Route path="/expiry" element={<Expiry />} />
                     </Route>
                 </Route>
                 
@@ -6,7 +6,7 @@ import type { AIInsight } from '../types';
 import { LightbulbIcon, LoaderIcon, TrendingUpIcon, TrendingDownIcon, AlertCircleIcon, SparklesIcon } from './Icons';
 
 const AIInsights: React.FC = () => {
-    const { t, products, sales } = useAppContext();
+    const { t, products, sales, currency } = useAppContext();
     const [insights, setInsights] = useState<AIInsight[] | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
@@ -16,7 +16,7 @@ const AIInsights: React.FC = () => {
         setError(null);
         setInsights(null);
         try {
-            const result = await getDashboardInsights(products, sales);
+            const result = await getDashboardInsights(products, sales, currency);
             if (result) {
                 setInsights(result);
             } else {
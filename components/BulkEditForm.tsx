@@ -2,7 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence, Variants } from 'framer-motion';
 import { useAppContext } from '../context/AppContext';
 import { XIcon, LoaderIcon } from './Icons';
-import type { BulkUpdatePayload, BulkUpdateMode } from '../types';
+import type { BulkUpdatePayload, BulkUpdateMode, StockAdjustmentReason } from '../types';
+import { STOCK_ADJUSTMENT_REASONS } from '../services/stockMovements';
 
 interface BulkEditFormProps {
   isOpen: boolean;
@@ -25,7 +26,7 @@ const EditField: React.FC<{ isEnabled: boolean; onToggle: () => void; label: str
 
 
 const BulkEditForm: React.FC<BulkEditFormProps> = ({ isOpen, onClose, onSave, productCount }) => {
-    const { t } = useAppContext();
+    const { t, suppliers } = useAppContext();
     const [isLoading, setIsLoading] = useState(false);
 
     // State for each field
@@ -46,6 +47,7 @@ const BulkEditForm: React.FC<BulkEditFormProps> = ({ isOpen, onClose, onSave, pr
     const [isStockEnabled, setIsStockEnabled] = useState(false);
     const [stockMode, setStockMode] = useState<BulkUpdateMode>('set');
     const [stockValue, setStockValue] = useState(0);
+    const [stockReason, setStockReason] = useState<StockAdjustmentReason>('count_correction');
     
     // Reset form when modal opens/closes
     useEffect(() => {
@@ -55,7 +57,7 @@ const BulkEditForm: React.FC<BulkEditFormProps> = ({ isOpen, onClose, onSave, pr
             setIsSupplierEnabled(false); setSupplier('');
             setIsBuyPriceEnabled(false); setBuyPriceMode('set'); setBuyPriceValue(0);
             setIsSellPriceEnabled(false); setSellPriceMode('set'); setSellPriceValue(0);
-            setIsStockEnabled(false); setStockMode('set'); setStockValue(0);
+            setIsStockEnabled(false); setStockMode('set'); setStockValue(0); setStockReason('count_correction');
         }
     }, [isOpen]);
 
@@ -68,7 +70,7 @@ const BulkEditForm: React.FC<BulkEditFormProps> = ({ isOpen, onClose, onSave, pr
         if (isSupplierEnabled) updates.supplier = supplier;
         if (isBuyPriceEnabled) updates.buyPrice = { mode: buyPriceMode, value: buyPriceValue };
         if (isSellPriceEnabled) updates.sellPrice = { mode: sellPriceMode, value: sellPriceValue };
-        if (isStockEnabled) updates.stock = { mode: stockMode, value: stockValue };
+        if (isStockEnabled) updates.stock = { mode: stockMode, value: stockValue, reason: stockReason };
 
         await onSave(updates);
         setIsLoading(false);
@@ -105,7 +107,8 @@ const BulkEditForm: React.FC<BulkEditFormProps> = ({ isOpen, onClose, onSave, pr
                             </EditField>
                             
                             <EditField isEnabled={isSupplierEnabled} onToggle={() => setIsSupplierEnabled(!isSupplierEnabled)} label={t('bulk_edit_form.supplier')}>
-                                <input type="text" value={supplier} onChange={e => setSupplier(e.target.value)} className="w-full bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-2 text-gray-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500" />
+                                <input type="text" list="bulk-edit-suppliers" value={supplier} onChange={e => setSupplier(e.target.value)} className="w-full bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-2 text-gray-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500" />
+                                <datalist id="bulk-edit-suppliers">{suppliers.map(s => <option key={s.id} value={s.name} />)}</datalist>
                             </EditField>
 
                             <EditField isEnabled={isBuyPriceEnabled} onToggle={() => setIsBuyPriceEnabled(!isBuyPriceEnabled)} label={t('bulk_edit_form.buy_price')}>
@@ -139,6 +142,9 @@ const BulkEditForm: React.FC<BulkEditFormProps> = ({ isOpen, onClose, onSave, pr
                                     </select>
                                     <input type="number" value={stockValue} onChange={e => setStockValue(parseInt(e.target.value) || 0)} min="0" step="1" className="w-28 bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-2 text-gray-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500" />
                                 </div>
+                                <select value={stockReason} onChange={e => setStockReason(e.target.value as StockAdjustmentReason)} aria-label={t('stock_movements.reason_label')} className="w-full bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-2 text-gray-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500">
+                                    {STOCK_ADJUSTMENT_REASONS.map(reason => <option key={reason} value={reason}>{t(`stock_movements.reason.${reason}`)}</option>)}
+                                </select>
                             </EditField>
 
                             <div className="flex justify-end pt-4 space-x-3">
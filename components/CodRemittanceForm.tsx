@@ -0,0 +1,273 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { CodRemittanceFormData, CourierRemittance, Language } from '../types';
+import { motion, AnimatePresence, Variants } from 'framer-motion';
+import { XIcon, LoaderIcon } from './Icons';
+import { useAppContext } from '../context/AppContext';
+import { awaitingRemittance, codTotal } from '../services/deliveries';
+import { courierKey, findCourierAdapter } from '../services/couriers';
+
+interface CodRemittanceFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (remittanceData: CodRemittanceFormData) => Promise<void>;
+}
+
+const localeMap: Record<Language, string> = { fr: 'fr-FR', en: 'en-GB', ar: 'ar-SA-u-nu-latn' };
+
+const inputClassName = "w-full bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-2 text-gray-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+const labelClassName = "block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1";
+
+// The date input works in local days
+const today = () => new Date().toLocaleDateString('en-CA');
+
+// Matches a courier's payout against the delivered orders whose cash it still holds
+const CodRemittanceForm: React.FC<CodRemittanceFormProps> = ({ isOpen, onClose, onSave }) => {
+    const { t, language, formatCurrency, deliveries, sales, customers, codRemittances } = useAppContext();
+    const [courier, setCourier] = useState('');
+    const [reference, setReference] = useState('');
+    const [paidAt, setPaidAt] = useState(today);
+    const [amount, setAmount] = useState('');
+    const [selectedIds, setSelectedIds] = useState<number[]>([]);
+    const [notes, setNotes] = useState('');
+    const [carrierPayouts, setCarrierPayouts] = useState<CourierRemittance[] | null>(null);
+    const [isFetching, setIsFetching] = useState(false);
+    const [notice, setNotice] = useState('');
+    const [error, setError] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const locale = localeMap[language];
+
+    const awaiting = useMemo(() => awaitingRemittance(deliveries, sales), [deliveries, sales]);
+
+    // Each courier once, spelled as on its first delivery
+    const couriers = useMemo(() => {
+        const byKey = new Map<string, string>();
+        awaiting.forEach(d => {
+            const key = courierKey(d.courier);
+            if (key && !byKey.has(key)) byKey.set(key, d.courier!.trim());
+        });
+        return [...byKey.values()].sort();
+    }, [awaiting]);
+
+    const courierDeliveries = awaiting.filter(d => courierKey(d.courier) === courierKey(courier));
+    const selected = courierDeliveries.filter(d => selectedIds.includes(d.id));
+    const collected = codTotal(selected);
+    const received = parseFloat(amount);
+    const adapter = findCourierAdapter(courier);
+
+    const chooseCourier = (name: string) => {
+        setCourier(name);
+        setSelectedIds([]);
+        setCarrierPayouts(null);
+        setNotice('');
+    };
+
+    useEffect(() => {
+        if (isOpen) {
+            chooseCourier(couriers[0] || '');
+            setReference('');
+            setPaidAt(today());
+            setAmount('');
+            setNotes('');
+            setError('');
+            setIsSaving(false);
+        }
+        // Only reset when the form opens, not when a payout elsewhere changes the list
+    }, [isOpen]);
+
+    const toggle = (id: number) => setSelectedIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+
+    const toggleAll = () => setSelectedIds(selected.length === courierDeliveries.length ? [] : courierDeliveries.map(d => d.id));
+
+    // Payouts already entered are recognised by the carrier's reference
+    const handleFetch = async () => {
+        if (!adapter) return;
+        setIsFetching(true);
+        setError('');
+        try {
+            const recorded = new Set(codRemittances.filter(r => courierKey(r.courier) === courierKey(courier)).map(r => r.reference));
+            const fresh = (await adapter.fetchRemittances()).filter(r => !recorded.has(r.id));
+            setCarrierPayouts(fresh);
+            setNotice(fresh.length === 0 ? t('deliveries.remittance.fetch_none', { courier: adapter.name }) : '');
+        } catch (fetchError) {
+            console.error(`Error fetching ${adapter.name} payouts:`, fetchError);
+            setError(t('deliveries.remittance.error.fetch_failed', { courier: adapter.name, message: (fetchError as Error).message }));
+        } finally {
+            setIsFetching(false);
+        }
+    };
+
+    // Only parcels still awaiting their cash here are settled, and only their share of the payout is counted
+    const applyCarrierPayout = (payout: CourierRemittance) => {
+        const matched = payout.lines.filter(line => courierDeliveries.some(d => d.trackingNumber === line.trackingNumber));
+        setSelectedIds(courierDeliveries.filter(d => matched.some(line => line.trackingNumber === d.trackingNumber)).map(d => d.id));
+        setAmount(String(matched.reduce((sum, line) => sum + line.codAmount - line.fee, 0)));
+        setReference(payout.id);
+        setPaidAt(new Date(payout.paidAt).toLocaleDateString('en-CA'));
+        setCarrierPayouts(null);
+        setNotice(matched.length < payout.lines.length ? t('deliveries.remittance.unmatched', { count: payout.lines.length - matched.length }) : '');
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!courier) {
+            setError(t('deliveries.remittance.error.no_courier'));
+            return;
+        }
+        if (selected.length === 0) {
+            setError(t('deliveries.remittance.error.no_orders'));
+            return;
+        }
+        if (isNaN(received) || received < 0) {
+            setError(t('deliveries.remittance.error.invalid_amount'));
+            return;
+        }
+        if (received > collected) {
+            setError(t('deliveries.remittance.error.amount_too_high', { amount: formatCurrency(collected) }));
+            return;
+        }
+        setIsSaving(true);
+        await onSave({
+            courier,
+            reference: reference.trim() || undefined,
+            amount: received,
+            paidAt: new Date(`${paidAt || today()}T00:00`).toISOString(),
+            notes: notes.trim() || undefined,
+            deliveryIds: selected.map(d => d.id),
+        });
+        setIsSaving(false);
+    };
+
+    const backdropVariants: Variants = { visible: { opacity: 1 }, hidden: { opacity: 0 }};
+    const modalVariants: Variants = {
+        hidden: { y: "-50px", opacity: 0 },
+        visible: { y: "0", opacity: 1, transition: { type: 'spring', stiffness: 150 } },
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4"
+                    initial="hidden" animate="visible" exit="hidden" variants={backdropVariants}
+                    onClick={onClose}
+                >
+                    <motion.div
+                        className="bg-white dark:bg-slate-900/80 backdrop-blur-2xl border border-gray-200 dark:border-white/10 rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto relative p-8"
+                        variants={modalVariants}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 dark:text-slate-400 hover:text-gray-800 dark:hover:text-white"><XIcon /></button>
+                        <h2 className="text-2xl font-bold mb-6 text-gray-900 dark:text-white">{t('deliveries.remittance.title')}</h2>
+
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <div>
+                                    <label htmlFor="remittance-courier" className={labelClassName}>{t('deliveries.form.courier_label')}</label>
+                                    <select id="remittance-courier" value={courier} onChange={e => chooseCourier(e.target.value)} className={inputClassName}>
+                                        {couriers.map(c => <option key={c} value={c}>{c}</option>)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label htmlFor="remittance-reference" className={labelClassName}>{t('deliveries.remittance.reference_label')}</label>
+                                    <input type="text" id="remittance-reference" value={reference} onChange={e => setReference(e.target.value)} className={inputClassName} />
+                                </div>
+                                <div>
+                                    <label htmlFor="remittance-paid-at" className={labelClassName}>{t('deliveries.remittance.paid_at_label')}</label>
+                                    <input type="date" id="remittance-paid-at" value={paidAt} onChange={e => setPaidAt(e.target.value)} className={inputClassName} />
+                                </div>
+                                <div>
+                                    <label htmlFor="remittance-amount" className={labelClassName}>{t('deliveries.remittance.amount_label')}</label>
+                                    <input
+                                        type="number" id="remittance-amount" min={0} step="0.01" value={amount} onChange={e => setAmount(e.target.value)}
+                                        placeholder={formatCurrency(collected)}
+                                        className={inputClassName}
+                                    />
+                                </div>
+                            </div>
+
+                            {adapter && (
+                                <div>
+                                    <motion.button
+                                        type="button" onClick={handleFetch} disabled={isFetching}
+                                        className="flex items-center text-sm font-semibold text-cyan-600 dark:text-cyan-400 disabled:opacity-60"
+                                        whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }}
+                                    >
+                                        {isFetching && <LoaderIcon className="w-4 h-4 me-2 animate-spin" />}
+                                        {t('deliveries.remittance.fetch_button', { courier: adapter.name })}
+                                    </motion.button>
+                                    {carrierPayouts && carrierPayouts.length > 0 && (
+                                        <div className="mt-2 space-y-1">
+                                            {carrierPayouts.map(payout => (
+                                                <button
+                                                    key={payout.id} type="button" onClick={() => applyCarrierPayout(payout)}
+                                                    className="w-full text-start text-sm rounded-lg px-3 py-2 bg-slate-100 dark:bg-white/5 hover:bg-slate-200 dark:hover:bg-white/10 text-gray-800 dark:text-slate-200"
+                                                >
+                                                    {t('deliveries.remittance.carrier_payout', {
+                                                        reference: payout.id,
+                                                        date: new Date(payout.paidAt).toLocaleDateString(locale),
+                                                        count: payout.lines.length,
+                                                        amount: formatCurrency(payout.lines.reduce((sum, line) => sum + line.codAmount - line.fee, 0)),
+                                                    })}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                            {notice && <p className="text-sm text-amber-600 dark:text-amber-400">{notice}</p>}
+
+                            <div>
+                                <div className="flex items-center justify-between mb-1">
+                                    <span className={labelClassName}>{t('deliveries.remittance.orders_label')}</span>
+                                    {courierDeliveries.length > 0 && (
+                                        <button type="button" onClick={toggleAll} className="text-xs font-semibold text-cyan-600 dark:text-cyan-400">
+                                            {selected.length === courierDeliveries.length ? t('deliveries.remittance.select_none') : t('deliveries.remittance.select_all')}
+                                        </button>
+                                    )}
+                                </div>
+                                {courierDeliveries.length === 0 ? (
+                                    <p className="text-sm text-gray-500 dark:text-slate-400 italic">{t('deliveries.remittance.no_orders')}</p>
+                                ) : (
+                                    <div className="max-h-60 overflow-y-auto border border-gray-200 dark:border-white/10 rounded-lg divide-y divide-gray-200 dark:divide-white/10">
+                                        {courierDeliveries.map(d => (
+                                            <label key={d.id} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-slate-50 dark:hover:bg-white/5">
+                                                <input type="checkbox" checked={selectedIds.includes(d.id)} onChange={() => toggle(d.id)} className="rounded text-cyan-500 focus:ring-cyan-500" />
+                                                <span className="flex-1 min-w-0 text-gray-800 dark:text-slate-200">
+                                                    {d.productName}{d.variantName && ` (${d.variantName})`} × {d.quantity}
+                                                    <span className="block text-xs text-gray-500 dark:text-slate-400">
+                                                        {[customers.find(c => c.id === d.customerId)?.name, d.trackingNumber, d.deliveredAt && new Date(d.deliveredAt).toLocaleDateString(locale)].filter(Boolean).join(' · ')}
+                                                    </span>
+                                                </span>
+                                                <span className="font-semibold text-gray-900 dark:text-white whitespace-nowrap">{formatCurrency(d.codAmount)}</span>
+                                            </label>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-2 text-sm bg-slate-50 dark:bg-white/5 rounded-lg p-3">
+                                <span className="text-gray-600 dark:text-slate-300">{t('deliveries.remittance.collected', { count: selected.length })}</span>
+                                <span className="text-end font-semibold text-gray-900 dark:text-white">{formatCurrency(collected)}</span>
+                                <span className="text-gray-600 dark:text-slate-300">{t('deliveries.remittance.fees')}</span>
+                                <span className="text-end font-semibold text-gray-900 dark:text-white">{isNaN(received) ? '—' : formatCurrency(collected - received)}</span>
+                            </div>
+
+                            <div>
+                                <label htmlFor="remittance-notes" className={labelClassName}>{t('deliveries.form.notes_label')}</label>
+                                <input type="text" id="remittance-notes" value={notes} onChange={e => setNotes(e.target.value)} className={inputClassName} />
+                            </div>
+                            {error && <p className="text-red-500 text-sm">{error}</p>}
+
+                            <div className="flex justify-end pt-2 space-x-3">
+                                <motion.button type="button" onClick={onClose} className="bg-gray-200 dark:bg-white/10 text-gray-800 dark:text-white rounded-lg px-4 py-2 font-semibold" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{t('cancel')}</motion.button>
+                                <motion.button type="submit" disabled={isSaving} className="text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg px-4 py-2 disabled:opacity-50" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{t('deliveries.remittance.record_button')}</motion.button>
+                            </div>
+                        </form>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default CodRemittanceForm;
@@ -11,9 +11,11 @@ interface ConfirmationModalProps {
   message: string;
   confirmText?: string;
   cancelText?: string;
+  // Extra fields shown under the message, e.g. a choice the action depends on
+  children?: React.ReactNode;
 }
 
-const ConfirmationModal: React.FC<ConfirmationModalProps> = ({ isOpen, onClose, onConfirm, title, message, confirmText, cancelText }) => {
+const ConfirmationModal: React.FC<ConfirmationModalProps> = ({ isOpen, onClose, onConfirm, title, message, confirmText, cancelText, children }) => {
     const { t } = useAppContext();
     const [isLoading, setIsLoading] = useState(false);
 
@@ -61,6 +63,7 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({ isOpen, onClose,
                                 <p className="text-sm text-gray-600 dark:text-slate-300 mt-2">{message}</p>
                             </div>
                         </div>
+                        {children && <div className="mt-4">{children}</div>}
                         
                         <div className="mt-6 flex flex-col-reverse sm:flex-row sm:justify-end sm:space-x-3 space-y-2 space-y-reverse sm:space-y-0">
                             <motion.button type="button" onClick={onClose} disabled={isLoading} className="w-full sm:w-auto bg-gray-200 dark:bg-white/10 text-gray-800 dark:text-white rounded-lg px-4 py-2 font-semibold disabled:opacity-50" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{cancelText || t('cancel')}</motion.button>
@@ -5,6 +5,8 @@ import { XIcon, BotIcon, LoaderIcon } from './Icons';
 import { useAppContext } from '../context/AppContext';
 import type { ChatMessage } from '../types';
 import { getAssistantResponse, startNewChat } from '../services/gemini';
+import { variantLabel } from '../services/variants';
+import { sameSupplierName } from '../services/suppliers';
 import { GenerateContentResponse } from '@google/genai';
 
 interface ConversationalAssistantProps {
@@ -67,7 +69,11 @@ const ConversationalAssistant: React.FC<ConversationalAssistantProps> = ({ isOpe
             // --- TOOL EXECUTION LOGIC ---
             if (name === 'addSale') {
                 const foundProducts = findProductByName(args.productName);
-                if (foundProducts.length === 1) {
+                if (foundProducts.length === 1 && foundProducts[0].variants?.length) {
+                    // The tool has no way to name a variant, so the user is asked to pick one
+                    const product = foundProducts[0];
+                    result = { status: 'AMBIGUOUS', message: t('ai_assistant.products_ambiguous', { productNames: product.variants!.map(v => `${product.name} (${variantLabel(v)})`).join(', ') }) };
+                } else if (foundProducts.length === 1) {
                     await addSale(foundProducts[0].id, args.quantity);
                     result = { status: 'OK', message: t('ai_assistant.action_success') };
                 } else if (foundProducts.length > 1) {
@@ -91,7 +97,7 @@ const ConversationalAssistant: React.FC<ConversationalAssistantProps> = ({ isOpe
                  let results = products;
                  if (args.productName) results = findProductByName(args.productName);
                  if (args.category) results = results.filter(p => p.category.toLowerCase() === args.category.toLowerCase());
-                 if (args.supplier) results = results.filter(p => p.supplier.toLowerCase() === args.supplier.toLowerCase());
+                 if (args.supplier) results = results.filter(p => sameSupplierName(p.supplier, String(args.supplier)));
                  if (args.stockLevel === 'low') results = results.filter(p => p.stock > 0 && p.stock <= 5);
                  if (args.stockLevel === 'out_of_stock') results = results.filter(p => p.stock === 0);
                  result = { status: 'OK', data: results.map(p => ({name: p.name, stock: p.stock, price: p.sellPrice})) };
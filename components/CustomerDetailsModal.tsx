@@ -0,0 +1,143 @@
+import React, { useMemo } from 'react';
+import { motion, AnimatePresence, Variants } from 'framer-motion';
+import { XIcon, CustomersIcon } from './Icons';
+import type { Customer, Language } from '../types';
+import { useAppContext } from '../context/AppContext';
+import { customerStats } from '../services/customers';
+
+interface CustomerDetailsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  customer: Customer | null;
+}
+
+const localeMap: Record<Language, string> = {
+    fr: 'fr-FR',
+    en: 'en-GB',
+    ar: 'ar-SA-u-nu-latn',
+};
+
+const DetailItem: React.FC<{ label: string; value: string | number | React.ReactNode }> = ({ label, value }) => (
+    <div>
+        <p className="text-xs text-gray-500 dark:text-slate-400">{label}</p>
+        <p className="font-semibold text-gray-900 dark:text-white">{value}</p>
+    </div>
+);
+
+const CustomerDetailsModal: React.FC<CustomerDetailsModalProps> = ({ isOpen, onClose, customer }) => {
+    const { t, language, formatCurrency, sales, deliveries } = useAppContext();
+    const locale = localeMap[language];
+
+    const stats = useMemo(() => customer ? customerStats(customer.id, sales, deliveries) : null, [customer, sales, deliveries]);
+
+    const backdropVariants: Variants = {
+        visible: { opacity: 1 },
+        hidden: { opacity: 0 },
+    };
+
+    const modalVariants: Variants = {
+        hidden: { y: "50px", opacity: 0, scale: 0.95 },
+        visible: { y: "0", opacity: 1, scale: 1, transition: { type: 'spring', stiffness: 150, damping: 20 } },
+    };
+
+    if (!customer || !stats) return null;
+
+    const formatDate = (isoString: string) => new Date(isoString).toLocaleDateString(locale, { dateStyle: 'medium' });
+    const outstandingValue = stats.outstandingDeliveries.reduce((sum, d) => sum + d.codAmount, 0);
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4"
+                    initial="hidden"
+                    animate="visible"
+                    exit="hidden"
+                    variants={backdropVariants}
+                    onClick={onClose}
+                >
+                    <motion.div
+                        className="bg-white dark:bg-slate-900/80 backdrop-blur-2xl border border-gray-200 dark:border-white/10 rounded-2xl shadow-xl w-full max-w-2xl relative p-6 max-h-[90vh] overflow-y-auto"
+                        variants={modalVariants}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-800 dark:text-slate-400 dark:hover:text-white">
+                            <XIcon />
+                        </button>
+                        <div className="flex items-start space-x-4">
+                            <div className="w-14 h-14 bg-gray-200 dark:bg-slate-700/50 rounded-full flex items-center justify-center flex-shrink-0">
+                                <CustomersIcon className="w-7 h-7 text-gray-400" />
+                            </div>
+                            <div className="flex-1">
+                                <h2 className="text-2xl font-bold text-gray-900 dark:text-white">{customer.name}</h2>
+                                <p className="text-sm text-gray-600 dark:text-slate-400">
+                                    {customer.phone && <a href={`tel:${customer.phone}`} className="hover:underline">{customer.phone}</a>}
+                                    {customer.phone && (customer.address || customer.wilaya) && ' · '}
+                                    {[customer.address, customer.wilaya].filter(Boolean).join(', ')}
+                                </p>
+                            </div>
+                        </div>
+
+                        {customer.notes && <p className="mt-4 text-sm text-gray-700 dark:text-slate-300 whitespace-pre-wrap">{customer.notes}</p>}
+
+                        <div className="mt-6 grid grid-cols-2 sm:grid-cols-4 gap-x-4 gap-y-5">
+                            <DetailItem label={t('customers.details.lifetime_value')} value={formatCurrency(stats.lifetimeValue)} />
+                            <DetailItem label={t('customers.details.purchase_count')} value={stats.purchases.length} />
+                            <DetailItem label={t('customers.details.last_purchase')} value={stats.lastPurchaseAt ? formatDate(stats.lastPurchaseAt) : '—'} />
+                            <DetailItem label={t('customers.details.outstanding_value')} value={formatCurrency(outstandingValue)} />
+                        </div>
+
+                        <h3 className="mt-6 text-sm font-bold text-gray-500 dark:text-slate-400 mb-2">{t('customers.details.outstanding_deliveries')}</h3>
+                        {stats.outstandingDeliveries.length === 0 ? (
+                            <p className="text-sm text-gray-500 dark:text-slate-400">{t('customers.details.no_outstanding')}</p>
+                        ) : (
+                            <ul className="divide-y divide-gray-200 dark:divide-white/10 text-sm">
+                                {stats.outstandingDeliveries.map(d => (
+                                    <li key={d.id} className="flex justify-between py-2">
+                                        <span className="text-gray-900 dark:text-white">
+                                            {d.productName}{d.quantity > 1 && ` × ${d.quantity}`}
+                                            {d.variantName && <span className="ms-2 text-xs text-gray-500 dark:text-slate-400">{d.variantName}</span>}
+                                            <span className="block text-xs text-gray-500 dark:text-slate-400">{t('delivery.table.delivered_at')}: {formatDate(d.createdAt)}</span>
+                                        </span>
+                                        <span className="font-semibold text-gray-900 dark:text-white">{formatCurrency(d.codAmount)}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+
+                        <h3 className="mt-6 text-sm font-bold text-gray-500 dark:text-slate-400 mb-2">{t('customers.details.purchase_history')}</h3>
+                        {stats.purchases.length === 0 ? (
+                            <p className="text-sm text-gray-500 dark:text-slate-400">{t('customers.details.no_purchases')}</p>
+                        ) : (
+                            <table className="w-full text-sm text-left rtl:text-right text-gray-600 dark:text-slate-400">
+                                <thead className="text-xs text-gray-700 uppercase dark:text-slate-300">
+                                    <tr>
+                                        <th className="py-2 pe-2">{t('sales.table.date')}</th>
+                                        <th className="py-2 pe-2">{t('sales.table.product')}</th>
+                                        <th className="py-2 pe-2">{t('sales.table.quantity')}</th>
+                                        <th className="py-2">{t('sales.table.total_price')}</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {stats.purchases.map(sale => (
+                                        <tr key={sale.id} className="border-t border-gray-200 dark:border-white/10">
+                                            <td className="py-2 pe-2 whitespace-nowrap">{formatDate(sale.createdAt)}</td>
+                                            <td className="py-2 pe-2 text-gray-900 dark:text-white">
+                                                {sale.productName}
+                                                {sale.variantName && <span className="ms-2 text-xs text-gray-500 dark:text-slate-400">{sale.variantName}</span>}
+                                            </td>
+                                            <td className="py-2 pe-2">{sale.quantity}</td>
+                                            <td className="py-2 font-semibold">{formatCurrency(sale.totalPrice)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default CustomerDetailsModal;
@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import type { Customer, CustomerFormData } from '../types';
+import { motion, AnimatePresence, Variants } from 'framer-motion';
+import { XIcon } from './Icons';
+import { useAppContext } from '../context/AppContext';
+import { WILAYAS } from '../services/customers';
+
+interface CustomerFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (customerData: CustomerFormData) => Promise<void>;
+  customer: Customer | null;
+}
+
+// Like the supplier form, an emptied field is saved as '' so the backend clears it
+type FieldState = Record<'name' | 'phone' | 'wilaya' | 'address' | 'notes', string>;
+
+const inputClassName = "w-full bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-2 text-gray-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+
+const toFields = (customer: Customer | null): FieldState => ({
+    name: customer?.name || '',
+    phone: customer?.phone || '',
+    wilaya: customer?.wilaya || '',
+    address: customer?.address || '',
+    notes: customer?.notes || '',
+});
+
+const CustomerForm: React.FC<CustomerFormProps> = ({ isOpen, onClose, onSave, customer }) => {
+    const { t } = useAppContext();
+    const [fields, setFields] = useState<FieldState>(toFields(null));
+    const [error, setError] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setFields(toFields(customer));
+            setError('');
+            setIsSaving(false);
+        }
+    }, [isOpen, customer]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+        setFields(prev => ({ ...prev, [e.target.name]: e.target.value }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!fields.name.trim()) {
+            setError(t('customers.form.error.name_required'));
+            return;
+        }
+
+        setIsSaving(true);
+        await onSave({
+            name: fields.name.trim(),
+            phone: fields.phone.trim(),
+            wilaya: fields.wilaya.trim(),
+            address: fields.address.trim(),
+            notes: fields.notes.trim(),
+        });
+        setIsSaving(false);
+    };
+
+    const field = (name: keyof FieldState, type = 'text', list?: string) => (
+        <div>
+            <label htmlFor={`customer-${name}`} className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t(`customers.form.${name}_label`)}</label>
+            <input type={type} id={`customer-${name}`} name={name} value={fields[name]} onChange={handleChange} className={inputClassName} list={list} />
+        </div>
+    );
+
+    const backdropVariants: Variants = { visible: { opacity: 1 }, hidden: { opacity: 0 }};
+    const modalVariants: Variants = {
+        hidden: { y: "-50px", opacity: 0 },
+        visible: { y: "0", opacity: 1, transition: { type: 'spring', stiffness: 150 } },
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4"
+                    initial="hidden" animate="visible" exit="hidden" variants={backdropVariants}
+                    onClick={onClose}
+                >
+                    <motion.div
+                        className="bg-white dark:bg-slate-900/80 backdrop-blur-2xl border border-gray-200 dark:border-white/10 rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto relative p-8"
+                        variants={modalVariants}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 dark:text-slate-400 hover:text-gray-800 dark:hover:text-white"><XIcon /></button>
+                        <h2 className="text-2xl font-bold mb-6 text-gray-900 dark:text-white">{customer ? t('customers.form.title_edit') : t('customers.form.title_new')}</h2>
+
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                {field('name')}
+                                {field('phone', 'tel')}
+                            </div>
+                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                                {field('wilaya', 'text', 'customer-form-wilayas')}
+                                <datalist id="customer-form-wilayas">{WILAYAS.map(w => <option key={w} value={w} />)}</datalist>
+                                <div className="sm:col-span-2">{field('address')}</div>
+                            </div>
+                            <div>
+                                <label htmlFor="customer-notes" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('customers.form.notes_label')}</label>
+                                <textarea id="customer-notes" name="notes" value={fields.notes} onChange={handleChange} rows={3} className={inputClassName} />
+                            </div>
+                            {error && <p className="text-red-500 text-sm">{error}</p>}
+
+                            <div className="flex justify-end pt-2 space-x-3">
+                                <motion.button type="button" onClick={onClose} className="bg-gray-200 dark:bg-white/10 text-gray-800 dark:text-white rounded-lg px-4 py-2 font-semibold" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{t('cancel')}</motion.button>
+                                <motion.button type="submit" disabled={isSaving} className="text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg px-4 py-2 disabled:opacity-50" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{t('save')}</motion.button>
+                            </div>
+                        </form>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default CustomerForm;
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { AddIcon, XIcon } from './Icons';
+import { searchCustomers, WILAYAS } from '../services/customers';
+
+interface CustomerPickerProps {
+  value?: number;
+  onChange: (customerId?: number) => void;
+}
+
+const inputClassName = "w-full bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-2 text-gray-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+
+const MAX_RESULTS = 5;
+
+// Finds a customer by name or phone, or creates one on the spot. Attaching a customer is optional.
+const CustomerPicker: React.FC<CustomerPickerProps> = ({ value, onChange }) => {
+    const { t, customers, addCustomer } = useAppContext();
+    const [query, setQuery] = useState('');
+    const [isCreating, setIsCreating] = useState(false);
+    const [newCustomer, setNewCustomer] = useState({ name: '', phone: '', wilaya: '' });
+    const [isSaving, setIsSaving] = useState(false);
+
+    const select = (customerId: number) => {
+        setQuery('');
+        setIsCreating(false);
+        onChange(customerId);
+    };
+
+    const selected = customers.find(c => c.id === value);
+
+    if (selected) {
+        return (
+            <div>
+                <span className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('customers.picker.label')}</span>
+                <div className="flex items-center justify-between bg-cyan-500/10 border border-cyan-500/30 rounded-lg px-3 py-2">
+                    <div>
+                        <span className="font-semibold text-gray-900 dark:text-white">{selected.name}</span>
+                        {(selected.phone || selected.wilaya) && (
+                            <span className="block text-xs text-gray-500 dark:text-slate-400">{[selected.phone, selected.wilaya].filter(Boolean).join(' · ')}</span>
+                        )}
+                    </div>
+                    <button type="button" onClick={() => onChange(undefined)} className="text-gray-400 hover:text-gray-800 dark:hover:text-white" title={t('customers.picker.clear')}>
+                        <XIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    const results = query.trim() ? searchCustomers(customers, query).slice(0, MAX_RESULTS) : [];
+
+    const handleStartCreating = () => {
+        // A typed phone number goes in the phone field rather than the name
+        const isPhone = /^[\d\s+().-]+$/.test(query.trim());
+        setNewCustomer({ name: isPhone ? '' : query.trim(), phone: isPhone ? query.trim() : '', wilaya: '' });
+        setIsCreating(true);
+    };
+
+    const handleCreate = async () => {
+        if (!newCustomer.name.trim()) return;
+        setIsSaving(true);
+        const created = await addCustomer({
+            name: newCustomer.name.trim(),
+            phone: newCustomer.phone.trim() || undefined,
+            wilaya: newCustomer.wilaya.trim() || undefined,
+        });
+        setIsSaving(false);
+        if (created) select(created.id);
+    };
+
+    return (
+        <div>
+            <label htmlFor="customer-picker-search" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('customers.picker.label')}</label>
+            {isCreating ? (
+                <div className="space-y-2 border border-gray-200 dark:border-white/10 rounded-lg p-3">
+                    <input type="text" value={newCustomer.name} onChange={e => setNewCustomer(prev => ({ ...prev, name: e.target.value }))} placeholder={t('customers.form.name_label')} className={inputClassName} autoFocus />
+                    <div className="grid grid-cols-2 gap-2">
+                        <input type="tel" value={newCustomer.phone} onChange={e => setNewCustomer(prev => ({ ...prev, phone: e.target.value }))} placeholder={t('customers.form.phone_label')} className={inputClassName} />
+                        <input type="text" list="customer-picker-wilayas" value={newCustomer.wilaya} onChange={e => setNewCustomer(prev => ({ ...prev, wilaya: e.target.value }))} placeholder={t('customers.form.wilaya_label')} className={inputClassName} />
+                        <datalist id="customer-picker-wilayas">{WILAYAS.map(w => <option key={w} value={w} />)}</datalist>
+                    </div>
+                    <div className="flex justify-end space-x-2">
+                        <button type="button" onClick={() => setIsCreating(false)} className="text-sm px-3 py-1.5 rounded-lg bg-gray-200 dark:bg-white/10 text-gray-800 dark:text-white font-semibold">{t('cancel')}</button>
+                        <button type="button" onClick={handleCreate} disabled={isSaving || !newCustomer.name.trim()} className="text-sm px-3 py-1.5 rounded-lg text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold disabled:opacity-50">{t('customers.picker.create_button')}</button>
+                    </div>
+                </div>
+            ) : (
+                <>
+                    <input type="search" id="customer-picker-search" value={query} onChange={e => setQuery(e.target.value)} placeholder={t('customers.picker.placeholder')} className={inputClassName} autoComplete="off" />
+                    {query.trim() && (
+                        <ul className="mt-1 border border-gray-200 dark:border-white/10 rounded-lg divide-y divide-gray-200 dark:divide-white/10 overflow-hidden">
+                            {results.map(c => (
+                                <li key={c.id}>
+                                    <button type="button" onClick={() => select(c.id)} className="w-full text-start px-3 py-2 hover:bg-gray-100 dark:hover:bg-white/5">
+                                        <span className="font-medium text-gray-900 dark:text-white">{c.name}</span>
+                                        {(c.phone || c.wilaya) && <span className="ms-2 text-xs text-gray-500 dark:text-slate-400">{[c.phone, c.wilaya].filter(Boolean).join(' · ')}</span>}
+                                    </button>
+                                </li>
+                            ))}
+                            <li>
+                                <button type="button" onClick={handleStartCreating} className="w-full flex items-center text-start px-3 py-2 text-sm font-semibold text-cyan-600 dark:text-cyan-400 hover:bg-gray-100 dark:hover:bg-white/5">
+                                    <AddIcon className="w-4 h-4 me-2" />{t('customers.picker.new', { query: query.trim() })}
+                                </button>
+                            </li>
+                        </ul>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default CustomerPicker;
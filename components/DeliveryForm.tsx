@@ -0,0 +1,233 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { Delivery, DeliveryFormData, Product } from '../types';
+import { motion, AnimatePresence, Variants } from 'framer-motion';
+import { XIcon } from './Icons';
+import { useAppContext } from '../context/AppContext';
+import CustomerPicker from './CustomerPicker';
+import { availableAt } from '../services/stockLocations';
+import { variantLabel } from '../services/variants';
+import { WILAYAS } from '../services/customers';
+import { courierAdapters } from '../services/couriers';
+import { productTax } from '../services/taxes';
+
+interface DeliveryFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (deliveryData: DeliveryFormData) => Promise<void>;
+  // Sends units of the product out, or edits `delivery` when it is given
+  product: Product | null;
+  variantId?: number;
+  delivery?: Delivery | null;
+}
+
+const inputClassName = "w-full bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-2 text-gray-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+const labelClassName = "block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1";
+
+// Locations are picked by id; '' stands for the main shop
+const toLocationId = (value: string) => value === '' ? undefined : Number(value);
+
+const DeliveryForm: React.FC<DeliveryFormProps> = ({ isOpen, onClose, onSave, product, variantId: presetVariantId, delivery }) => {
+    const { t, formatCurrency, customers, deliveries, stockLocations, stockLevels, stockTransfers, taxRates } = useAppContext();
+    const [variantId, setVariantId] = useState('');
+    const [from, setFrom] = useState('');
+    const [quantity, setQuantity] = useState('1');
+    const [customerId, setCustomerId] = useState<number | undefined>(undefined);
+    const [address, setAddress] = useState('');
+    const [wilaya, setWilaya] = useState('');
+    const [courier, setCourier] = useState('');
+    const [trackingNumber, setTrackingNumber] = useState('');
+    const [codAmount, setCodAmount] = useState('');
+    const [notes, setNotes] = useState('');
+    const [error, setError] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            const firstInStock = product?.variants?.find(v => v.stock > 0) || product?.variants?.[0];
+            setVariantId(String(presetVariantId ?? firstInStock?.id ?? ''));
+            setFrom('');
+            setQuantity(String(delivery?.quantity ?? 1));
+            setCustomerId(delivery?.customerId);
+            setAddress(delivery?.address || '');
+            setWilaya(delivery?.wilaya || '');
+            setCourier(delivery?.courier || '');
+            setTrackingNumber(delivery?.trackingNumber || '');
+            setCodAmount(delivery ? String(delivery.codAmount) : '');
+            setNotes(delivery?.notes || '');
+            setError('');
+            setIsSaving(false);
+        }
+    }, [isOpen, product, presetVariantId, delivery]);
+
+    // Couriers used before are offered again, so the same one is always spelled the same way,
+    // along with those that have an adapter and can be booked from the app
+    const knownCouriers = useMemo(() => [...new Set([
+        ...courierAdapters.map(a => a.name),
+        ...deliveries.map(d => d.courier).filter((c): c is string => !!c),
+    ])].sort(), [deliveries]);
+
+    const hasVariants = !delivery && !!product?.variants?.length;
+    const variant = hasVariants ? product!.variants!.find(v => v.id === Number(variantId)) : undefined;
+    const units = parseInt(quantity, 10);
+    const unitPrice = delivery?.unitPrice ?? variant?.sellPrice ?? product?.sellPrice ?? 0;
+    // The customer pays the TVA on top of prices entered without it
+    const amount = unitPrice * (isNaN(units) ? 0 : units);
+    const defaultCod = product ? productTax(product, taxRates, amount).gross : amount;
+    const available = product && !delivery && (!hasVariants || variant)
+        ? availableAt(product, variant?.id, toLocationId(from), stockLevels, stockTransfers)
+        : undefined;
+
+    const handleCustomerChange = (id?: number) => {
+        setCustomerId(id);
+        // The customer's address is where the parcel usually goes
+        const customer = customers.find(c => c.id === id);
+        if (customer) {
+            setAddress(prev => prev || customer.address || '');
+            setWilaya(prev => prev || customer.wilaya || '');
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!product && !delivery) return;
+        if (hasVariants && !variant) {
+            setError(t('deliveries.form.error.variant_required'));
+            return;
+        }
+        if (isNaN(units) || units < 1) {
+            setError(t('deliveries.form.error.invalid_quantity'));
+            return;
+        }
+        if (available !== undefined && units > available) {
+            setError(t('deliveries.form.error.not_enough', { count: available }));
+            return;
+        }
+        const cod = codAmount.trim() === '' ? undefined : parseFloat(codAmount);
+        if (cod !== undefined && (isNaN(cod) || cod < 0)) {
+            setError(t('deliveries.form.error.invalid_cod'));
+            return;
+        }
+        setIsSaving(true);
+        await onSave({
+            productId: delivery ? delivery.productId ?? 0 : product!.id,
+            variantId: delivery ? delivery.variantId : variant?.id,
+            quantity: units,
+            locationId: delivery ? delivery.locationId : toLocationId(from),
+            customerId,
+            address: address.trim() || undefined,
+            wilaya: wilaya.trim() || undefined,
+            courier: courier.trim() || undefined,
+            trackingNumber: trackingNumber.trim() || undefined,
+            codAmount: cod,
+            notes: notes.trim() || undefined,
+        });
+        setIsSaving(false);
+    };
+
+    const backdropVariants: Variants = { visible: { opacity: 1 }, hidden: { opacity: 0 }};
+    const modalVariants: Variants = {
+        hidden: { y: "-50px", opacity: 0 },
+        visible: { y: "0", opacity: 1, transition: { type: 'spring', stiffness: 150 } },
+    };
+
+    const productName = delivery?.productName ?? product?.name ?? '';
+    const variantName = delivery?.variantName;
+
+    return (
+        <AnimatePresence>
+            {isOpen && (product || delivery) && (
+                <motion.div
+                    className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4"
+                    initial="hidden" animate="visible" exit="hidden" variants={backdropVariants}
+                    onClick={onClose}
+                >
+                    <motion.div
+                        className="bg-white dark:bg-slate-900/80 backdrop-blur-2xl border border-gray-200 dark:border-white/10 rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto relative p-8"
+                        variants={modalVariants}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 dark:text-slate-400 hover:text-gray-800 dark:hover:text-white"><XIcon /></button>
+                        <h2 className="text-2xl font-bold mb-1 text-gray-900 dark:text-white">{delivery ? t('deliveries.form.title_edit') : t('deliveries.form.title_new')}</h2>
+                        <p className="mb-6 text-sm text-gray-500 dark:text-slate-400">
+                            {productName}{variantName && ` (${variantName})`}{delivery && ` × ${delivery.quantity}`}
+                        </p>
+
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            {!delivery && (
+                                <>
+                                    {hasVariants && (
+                                        <div>
+                                            <label htmlFor="delivery-variant" className={labelClassName}>{t('sale_modal.variant_label')}</label>
+                                            <select id="delivery-variant" value={variantId} onChange={e => setVariantId(e.target.value)} className={inputClassName}>
+                                                {product!.variants!.map(v => <option key={v.id} value={v.id} disabled={v.stock === 0}>{variantLabel(v)} ({v.stock})</option>)}
+                                            </select>
+                                        </div>
+                                    )}
+                                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                        {stockLocations.length > 0 && (
+                                            <div>
+                                                <label htmlFor="delivery-from" className={labelClassName}>{t('deliveries.form.from_label')}</label>
+                                                <select id="delivery-from" value={from} onChange={e => setFrom(e.target.value)} className={inputClassName}>
+                                                    <option value="">{t('locations.main_shop')}</option>
+                                                    {stockLocations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                                                </select>
+                                            </div>
+                                        )}
+                                        <div>
+                                            <label htmlFor="delivery-quantity" className={labelClassName}>{t('deliveries.form.quantity_label')}</label>
+                                            <input type="number" id="delivery-quantity" min={1} value={quantity} onChange={e => setQuantity(e.target.value)} className={inputClassName} />
+                                            {available !== undefined && <p className="mt-1 text-xs text-gray-500 dark:text-slate-400">{t('locations.transfer.available', { count: available })}</p>}
+                                        </div>
+                                    </div>
+                                </>
+                            )}
+                            <CustomerPicker value={customerId} onChange={handleCustomerChange} />
+                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                                <div className="sm:col-span-2">
+                                    <label htmlFor="delivery-address" className={labelClassName}>{t('deliveries.form.address_label')}</label>
+                                    <input type="text" id="delivery-address" value={address} onChange={e => setAddress(e.target.value)} className={inputClassName} />
+                                </div>
+                                <div>
+                                    <label htmlFor="delivery-wilaya" className={labelClassName}>{t('customers.form.wilaya_label')}</label>
+                                    <input type="text" id="delivery-wilaya" list="delivery-wilayas" value={wilaya} onChange={e => setWilaya(e.target.value)} className={inputClassName} />
+                                    <datalist id="delivery-wilayas">{WILAYAS.map(w => <option key={w} value={w} />)}</datalist>
+                                </div>
+                            </div>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <div>
+                                    <label htmlFor="delivery-courier" className={labelClassName}>{t('deliveries.form.courier_label')}</label>
+                                    <input type="text" id="delivery-courier" list="delivery-couriers" value={courier} onChange={e => setCourier(e.target.value)} className={inputClassName} />
+                                    <datalist id="delivery-couriers">{knownCouriers.map(c => <option key={c} value={c} />)}</datalist>
+                                </div>
+                                <div>
+                                    <label htmlFor="delivery-tracking" className={labelClassName}>{t('deliveries.form.tracking_label')}</label>
+                                    <input type="text" id="delivery-tracking" value={trackingNumber} onChange={e => setTrackingNumber(e.target.value)} className={inputClassName} />
+                                </div>
+                            </div>
+                            <div>
+                                <label htmlFor="delivery-cod" className={labelClassName}>{t('deliveries.form.cod_label')}</label>
+                                <input
+                                    type="number" id="delivery-cod" min={0} step="0.01" value={codAmount} onChange={e => setCodAmount(e.target.value)}
+                                    placeholder={formatCurrency(defaultCod)}
+                                    className={inputClassName}
+                                />
+                            </div>
+                            <div>
+                                <label htmlFor="delivery-notes" className={labelClassName}>{t('deliveries.form.notes_label')}</label>
+                                <input type="text" id="delivery-notes" value={notes} onChange={e => setNotes(e.target.value)} className={inputClassName} />
+                            </div>
+                            {error && <p className="text-red-500 text-sm">{error}</p>}
+
+                            <div className="flex justify-end pt-2 space-x-3">
+                                <motion.button type="button" onClick={onClose} className="bg-gray-200 dark:bg-white/10 text-gray-800 dark:text-white rounded-lg px-4 py-2 font-semibold" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{t('cancel')}</motion.button>
+                                <motion.button type="submit" disabled={isSaving} className="text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg px-4 py-2 disabled:opacity-50" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{delivery ? t('save') : t('deliveries.form.send_button')}</motion.button>
+                            </div>
+                        </form>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default DeliveryForm;
@@ -28,7 +28,7 @@ const HighlightedText: React.FC<{ text?: string, highlight: string }> = ({ text,
 
 
 const GlobalSearch: React.FC<{ isOpen: boolean, onClose: () => void }> = ({ isOpen, onClose }) => {
-    const { products, sales, activityLog, t } = useAppContext();
+    const { products, sales, activityLog, t, formatCurrency } = useAppContext();
     const [query, setQuery] = useState('');
     const inputRef = useRef<HTMLInputElement>(null);
 
@@ -158,7 +158,7 @@ const GlobalSearch: React.FC<{ isOpen: boolean, onClose: () => void }> = ({ isOp
                                                     )}
                                                      <div>
                                                         <p className="font-semibold text-gray-900 dark:text-white"><HighlightedText text={s.productName} highlight={query} /></p>
-                                                        <p className="text-sm text-gray-600 dark:text-slate-400">{t('search.sale_details', { quantity: s.quantity, price: s.totalPrice.toFixed(2) })}</p>
+                                                        <p className="text-sm text-gray-600 dark:text-slate-400">{t('search.sale_details', { quantity: s.quantity, price: formatCurrency(s.totalPrice) })}</p>
                                                     </div>
                                                 </Link></li>
                                                 );
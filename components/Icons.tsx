@@ -53,6 +53,21 @@ import {
   PlayCircle,
   User,
   Code,
+  CloudUpload,
+  ScanBarcode,
+  ClipboardList,
+  PackagePlus,
+  Factory,
+  Users,
+  Receipt,
+  RotateCcw,
+  ClipboardCheck,
+  Warehouse,
+  ArrowLeftRight,
+  Tag,
+  Ship,
+  Layers,
+  CalendarClock,
 } from 'lucide-react';
 
 export const ChezHugoLogo: React.FC<{ className?: string }> = ({ className }) => {
@@ -123,4 +138,19 @@ export {
   PlayCircle as RunIcon,
   User as UserIcon,
   Code as CodeIcon,
+  CloudUpload as PendingSyncIcon,
+  ScanBarcode as ScanBarcodeIcon,
+  ClipboardList as PurchasesIcon,
+  PackagePlus as ReceiveIcon,
+  Factory as SuppliersIcon,
+  Users as CustomersIcon,
+  Receipt as OrderIcon,
+  RotateCcw as ReturnIcon,
+  ClipboardCheck as InventoryCountIcon,
+  Warehouse as LocationsIcon,
+  ArrowLeftRight as TransferIcon,
+  Tag as PromotionIcon,
+  Ship as LandedCostIcon,
+  Layers as CostLayersIcon,
+  CalendarClock as ExpiryIcon,
 };
\ No newline at end of file
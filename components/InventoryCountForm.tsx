@@ -0,0 +1,97 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { InventoryCountScope } from '../types';
+import { motion, AnimatePresence, Variants } from 'framer-motion';
+import { XIcon } from './Icons';
+import { useAppContext } from '../context/AppContext';
+import { countableProducts } from '../services/inventoryCounts';
+
+interface InventoryCountFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onStart: (scope: InventoryCountScope) => Promise<void>;
+}
+
+const inputClassName = "w-full bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-2 text-gray-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+
+// Picks what a new count covers, showing how many lines that makes before it is opened
+const InventoryCountForm: React.FC<InventoryCountFormProps> = ({ isOpen, onClose, onStart }) => {
+    const { t, products, suppliers } = useAppContext();
+    const [category, setCategory] = useState('');
+    const [supplierId, setSupplierId] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setCategory('');
+            setSupplierId('');
+            setIsSaving(false);
+        }
+    }, [isOpen]);
+
+    const categories = useMemo(() => [...new Set(products.map(p => p.category).filter(Boolean))].sort(), [products]);
+    const scope: InventoryCountScope = { category: category || undefined, supplierId: supplierId ? Number(supplierId) : undefined };
+    // Products with variants are counted variant by variant
+    const lineCount = countableProducts(products, scope).reduce((sum, p) => sum + (p.variants?.length || 1), 0);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (lineCount === 0) return;
+        setIsSaving(true);
+        await onStart(scope);
+        setIsSaving(false);
+    };
+
+    const backdropVariants: Variants = { visible: { opacity: 1 }, hidden: { opacity: 0 }};
+    const modalVariants: Variants = {
+        hidden: { y: "-50px", opacity: 0 },
+        visible: { y: "0", opacity: 1, transition: { type: 'spring', stiffness: 150 } },
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4"
+                    initial="hidden" animate="visible" exit="hidden" variants={backdropVariants}
+                    onClick={onClose}
+                >
+                    <motion.div
+                        className="bg-white dark:bg-slate-900/80 backdrop-blur-2xl border border-gray-200 dark:border-white/10 rounded-2xl shadow-xl w-full max-w-md relative p-8"
+                        variants={modalVariants}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 dark:text-slate-400 hover:text-gray-800 dark:hover:text-white"><XIcon /></button>
+                        <h2 className="text-2xl font-bold mb-6 text-gray-900 dark:text-white">{t('inventory_counts.form.title')}</h2>
+
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <div>
+                                <label htmlFor="count-category" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('inventory_counts.form.category_label')}</label>
+                                <select id="count-category" value={category} onChange={e => setCategory(e.target.value)} className={inputClassName}>
+                                    <option value="">{t('inventory_counts.form.all_categories')}</option>
+                                    {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="count-supplier" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('inventory_counts.form.supplier_label')}</label>
+                                <select id="count-supplier" value={supplierId} onChange={e => setSupplierId(e.target.value)} className={inputClassName}>
+                                    <option value="">{t('inventory_counts.form.all_suppliers')}</option>
+                                    {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                                </select>
+                            </div>
+                            <p className={`text-sm ${lineCount === 0 ? 'text-red-500' : 'text-gray-600 dark:text-slate-400'}`}>
+                                {lineCount === 0 ? t('inventory_counts.form.nothing_to_count') : t('inventory_counts.form.line_count', { count: lineCount })}
+                            </p>
+
+                            <div className="flex justify-end pt-2 space-x-3">
+                                <motion.button type="button" onClick={onClose} className="bg-gray-200 dark:bg-white/10 text-gray-800 dark:text-white rounded-lg px-4 py-2 font-semibold" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{t('cancel')}</motion.button>
+                                <motion.button type="submit" disabled={isSaving || lineCount === 0} className="text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg px-4 py-2 disabled:opacity-50" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{t('inventory_counts.form.start_button')}</motion.button>
+                            </div>
+                        </form>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default InventoryCountForm;
@@ -0,0 +1,275 @@
+import React, { useState, useEffect } from 'react';
+import type { PurchaseOrder, Product, LandedCostBasis, LandedCostFormData } from '../types';
+import { motion, AnimatePresence, Variants } from 'framer-motion';
+import { XIcon, AddIcon, DeleteIcon } from './Icons';
+import { useAppContext } from '../context/AppContext';
+import { variantLabel } from '../services/variants';
+import { landedCost } from '../services/money';
+import { allocateLandedCost, chargesTotal, landedCostError } from '../services/landedCosts';
+
+interface LandedCostModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onApply: (data: LandedCostFormData) => Promise<void>;
+  order: PurchaseOrder | null;
+}
+
+interface ChargeState {
+  key: number;
+  label: string;
+  amount: number;
+}
+
+interface LineState {
+  key: number;
+  productId: number | '';
+  variantId?: number;
+  quantity: number;
+  unitCost: number;
+  weight?: number;
+}
+
+const BASES: LandedCostBasis[] = ['value', 'quantity', 'weight'];
+
+const inputClassName = "w-full bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-2 text-gray-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+
+const currentCost = (product: Product | undefined, variantId?: number) =>
+  product?.variants?.find(v => v.id === variantId)?.buyPrice ?? product?.buyPrice ?? 0;
+
+// What arrived on the order, at what each unit cost in the shop's currency
+const orderLines = (order: PurchaseOrder): LineState[] =>
+  order.lines.flatMap(l => l.productId === null || l.receivedQuantity === 0 ? [] : [{
+    key: l.id, productId: l.productId, variantId: l.variantId, quantity: l.receivedQuantity, unitCost: landedCost(l.unitCost, order.exchangeRate),
+  }]);
+
+const LandedCostModal: React.FC<LandedCostModalProps> = ({ isOpen, onClose, onApply, order }) => {
+    const { t, products, purchaseOrders, formatCurrency } = useAppContext();
+    const [purchaseOrderId, setPurchaseOrderId] = useState<number | ''>('');
+    const [reference, setReference] = useState('');
+    const [basis, setBasis] = useState<LandedCostBasis>('value');
+    const [charges, setCharges] = useState<ChargeState[]>([]);
+    const [lines, setLines] = useState<LineState[]>([]);
+    const [error, setError] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setPurchaseOrderId(order?.id ?? '');
+            setReference(order?.reference || '');
+            setBasis('value');
+            setCharges([{ key: Date.now(), label: '', amount: 0 }]);
+            setLines(order ? orderLines(order) : []);
+            setError('');
+            setIsSaving(false);
+        }
+    }, [isOpen, order]);
+
+    const receivedOrders = purchaseOrders.filter(o => o.status !== 'draft');
+
+    const handleOrderChange = (value: string) => {
+        const selected = receivedOrders.find(o => o.id === Number(value));
+        setPurchaseOrderId(selected ? selected.id : '');
+        if (selected) {
+            setReference(selected.reference || '');
+            setLines(orderLines(selected));
+        }
+    };
+
+    const updateCharge = (key: number, changes: Partial<ChargeState>) => {
+        setCharges(prev => prev.map(c => c.key === key ? { ...c, ...changes } : c));
+    };
+
+    const updateLine = (key: number, changes: Partial<LineState>) => {
+        setLines(prev => prev.map(l => l.key === key ? { ...l, ...changes } : l));
+    };
+
+    const handleProductChange = (key: number, value: string) => {
+        const product = products.find(p => p.id === Number(value));
+        const variantId = product?.variants?.[0]?.id;
+        updateLine(key, { productId: product ? product.id : '', variantId, unitCost: currentCost(product, variantId) });
+    };
+
+    const handleVariantChange = (line: LineState, value: string) => {
+        const variantId = Number(value);
+        updateLine(line.key, { variantId, unitCost: currentCost(products.find(p => p.id === line.productId), variantId) });
+    };
+
+    const formData: LandedCostFormData = {
+        purchaseOrderId: purchaseOrderId === '' ? undefined : purchaseOrderId,
+        reference: reference.trim() || undefined,
+        basis,
+        charges: charges.map(c => ({ label: c.label.trim(), amount: c.amount })),
+        lines: lines.map(l => ({ productId: l.productId as number, variantId: l.variantId, quantity: l.quantity, unitCost: l.unitCost, weight: basis === 'weight' ? l.weight ?? 0 : undefined })),
+    };
+    const formError = landedCostError(formData);
+    const total = chargesTotal(charges.filter(c => c.amount > 0));
+    // The split is shown as soon as the lines allow one, even before every charge is filled in
+    const preview = formError === null || formError === 'no_charges' || formError === 'invalid_charge' ? allocateLandedCost(formData.lines, basis, total) : null;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (lines.some(l => l.productId === '')) {
+            setError(t('landed_costs.form.error.invalid_line'));
+            return;
+        }
+        if (formError) {
+            setError(t(`landed_costs.form.error.${formError}`));
+            return;
+        }
+
+        setIsSaving(true);
+        await onApply(formData);
+        setIsSaving(false);
+    };
+
+    const backdropVariants: Variants = { visible: { opacity: 1 }, hidden: { opacity: 0 }};
+    const modalVariants: Variants = {
+        hidden: { y: "-50px", opacity: 0 },
+        visible: { y: "0", opacity: 1, transition: { type: 'spring', stiffness: 150 } },
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4"
+                    initial="hidden" animate="visible" exit="hidden" variants={backdropVariants}
+                    onClick={onClose}
+                >
+                    <motion.div
+                        className="bg-white dark:bg-slate-900/80 backdrop-blur-2xl border border-gray-200 dark:border-white/10 rounded-2xl shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto relative p-8"
+                        variants={modalVariants}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 dark:text-slate-400 hover:text-gray-800 dark:hover:text-white"><XIcon /></button>
+                        <h2 className="text-2xl font-bold mb-6 text-gray-900 dark:text-white">{t('landed_costs.form.title')}</h2>
+
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                                <div>
+                                    <label htmlFor="landed-cost-order" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('landed_costs.form.order_label')}</label>
+                                    <select id="landed-cost-order" value={purchaseOrderId} onChange={e => handleOrderChange(e.target.value)} className={inputClassName}>
+                                        <option value="">{t('landed_costs.form.order_none')}</option>
+                                        {receivedOrders.map(o => <option key={o.id} value={o.id}>{o.reference ? `${o.supplier} · ${o.reference}` : o.supplier}</option>)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label htmlFor="landed-cost-reference" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('landed_costs.form.reference_label')}</label>
+                                    <input type="text" id="landed-cost-reference" value={reference} onChange={e => setReference(e.target.value)} placeholder={t('landed_costs.form.reference_placeholder')} className={inputClassName} />
+                                </div>
+                                <div>
+                                    <label htmlFor="landed-cost-basis" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('landed_costs.form.basis_label')}</label>
+                                    <select id="landed-cost-basis" value={basis} onChange={e => setBasis(e.target.value as LandedCostBasis)} className={inputClassName}>
+                                        {BASES.map(b => <option key={b} value={b}>{t(`landed_costs.basis.${b}`)}</option>)}
+                                    </select>
+                                </div>
+                            </div>
+
+                            <div>
+                                <h3 className="text-sm font-semibold text-gray-700 dark:text-slate-200 mb-2">{t('landed_costs.form.charges_label')}</h3>
+                                <div className="space-y-2">
+                                    {charges.map(charge => (
+                                        <div key={charge.key} className="grid grid-cols-12 gap-2 items-center">
+                                            <input
+                                                type="text"
+                                                value={charge.label}
+                                                onChange={e => updateCharge(charge.key, { label: e.target.value })}
+                                                placeholder={t('landed_costs.form.charge_placeholder')}
+                                                className={`${inputClassName} col-span-8`}
+                                            />
+                                            <input
+                                                type="number" min="0" step="0.01"
+                                                value={charge.amount || ''}
+                                                onChange={e => updateCharge(charge.key, { amount: parseFloat(e.target.value) || 0 })}
+                                                className={`${inputClassName} col-span-3`}
+                                                aria-label={t('landed_costs.form.charge_amount')}
+                                            />
+                                            <button type="button" onClick={() => setCharges(prev => prev.filter(c => c.key !== charge.key))} className="col-span-1 p-2 rounded-md text-red-500 hover:bg-red-500/10 justify-self-center" title={t('delete')}>
+                                                <DeleteIcon className="w-5 h-5" />
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                                <button type="button" onClick={() => setCharges(prev => [...prev, { key: Date.now(), label: '', amount: 0 }])} className="mt-3 flex items-center text-sm font-semibold text-cyan-600 dark:text-cyan-400 hover:underline">
+                                    <AddIcon className="w-4 h-4 me-1" />{t('landed_costs.form.add_charge')}
+                                </button>
+                            </div>
+
+                            <div>
+                                <h3 className="text-sm font-semibold text-gray-700 dark:text-slate-200 mb-2">{t('landed_costs.form.lines_label')}</h3>
+                                {purchaseOrderId !== '' && <p className="text-xs text-gray-500 dark:text-slate-400 mb-2">{t('landed_costs.form.order_hint')}</p>}
+                                <table className="w-full text-sm text-left rtl:text-right text-slate-600 dark:text-slate-400">
+                                    <thead className="text-xs text-slate-700 uppercase dark:text-slate-300">
+                                        <tr>
+                                            <th className="py-2 pe-2">{t('landed_costs.table.product')}</th>
+                                            <th className="py-2 pe-2">{t('landed_costs.table.quantity')}</th>
+                                            <th className="py-2 pe-2">{t('landed_costs.table.unit_cost')}</th>
+                                            {basis === 'weight' && <th className="py-2 pe-2">{t('landed_costs.table.weight')}</th>}
+                                            <th className="py-2 pe-2">{t('landed_costs.table.allocated')}</th>
+                                            <th className="py-2 pe-2">{t('landed_costs.table.landed_unit_cost')}</th>
+                                            <th className="py-2" />
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {lines.map((line, index) => {
+                                            const product = products.find(p => p.id === line.productId);
+                                            return (
+                                                <tr key={line.key} className="border-t border-slate-200 dark:border-slate-700 align-top">
+                                                    <td className="py-2 pe-2 space-y-1">
+                                                        <select value={line.productId} onChange={e => handleProductChange(line.key, e.target.value)} className={inputClassName} aria-label={t('landed_costs.table.product')}>
+                                                            <option value="">{t('landed_costs.form.product_placeholder')}</option>
+                                                            {products.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                                        </select>
+                                                        {product?.variants && product.variants.length > 0 && (
+                                                            <select value={line.variantId ?? ''} onChange={e => handleVariantChange(line, e.target.value)} className={inputClassName} aria-label={t('sale_modal.variant_label')}>
+                                                                {product.variants.map(v => <option key={v.id} value={v.id}>{variantLabel(v)}</option>)}
+                                                            </select>
+                                                        )}
+                                                    </td>
+                                                    <td className="py-2 pe-2 w-24">
+                                                        <input type="number" min="1" step="1" value={line.quantity} onChange={e => updateLine(line.key, { quantity: parseInt(e.target.value, 10) || 0 })} className={inputClassName} aria-label={t('landed_costs.table.quantity')} />
+                                                    </td>
+                                                    <td className="py-2 pe-2 w-28">
+                                                        <input type="number" min="0" step="0.01" value={line.unitCost} onChange={e => updateLine(line.key, { unitCost: parseFloat(e.target.value) || 0 })} className={inputClassName} aria-label={t('landed_costs.table.unit_cost')} />
+                                                    </td>
+                                                    {basis === 'weight' && (
+                                                        <td className="py-2 pe-2 w-24">
+                                                            <input type="number" min="0" step="any" value={line.weight ?? ''} onChange={e => updateLine(line.key, { weight: parseFloat(e.target.value) || 0 })} className={inputClassName} aria-label={t('landed_costs.table.weight')} />
+                                                        </td>
+                                                    )}
+                                                    <td className="py-2 pe-2 pt-4">{preview ? formatCurrency(preview[index].allocated) : '—'}</td>
+                                                    <td className="py-2 pe-2 pt-4 font-semibold text-slate-900 dark:text-white">{preview ? formatCurrency(preview[index].landedUnitCost) : '—'}</td>
+                                                    <td className="py-2">
+                                                        <button type="button" onClick={() => setLines(prev => prev.filter(l => l.key !== line.key))} className="p-2 rounded-md text-red-500 hover:bg-red-500/10" title={t('delete')}>
+                                                            <DeleteIcon className="w-5 h-5" />
+                                                        </button>
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                                <button type="button" onClick={() => setLines(prev => [...prev, { key: Date.now(), productId: '', quantity: 1, unitCost: 0 }])} className="mt-3 flex items-center text-sm font-semibold text-cyan-600 dark:text-cyan-400 hover:underline">
+                                    <AddIcon className="w-4 h-4 me-1" />{t('landed_costs.form.add_line')}
+                                </button>
+                            </div>
+
+                            <div className="text-end text-gray-700 dark:text-slate-300">
+                                <p>{t('landed_costs.total', { amount: formatCurrency(total) })}</p>
+                                <p className="text-sm text-gray-500 dark:text-slate-400">{t('landed_costs.form.apply_hint')}</p>
+                            </div>
+                            {error && <p className="text-red-500 text-sm">{error}</p>}
+
+                            <div className="flex justify-end pt-2 space-x-3">
+                                <motion.button type="button" onClick={onClose} className="bg-gray-200 dark:bg-white/10 text-gray-800 dark:text-white rounded-lg px-4 py-2 font-semibold" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{t('cancel')}</motion.button>
+                                <motion.button type="submit" disabled={isSaving} className="text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg px-4 py-2 disabled:opacity-50" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{t('landed_costs.form.apply_button')}</motion.button>
+                            </div>
+                        </form>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default LandedCostModal;
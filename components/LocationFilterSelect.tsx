@@ -0,0 +1,31 @@
+import React from 'react';
+import { useAppContext } from '../context/AppContext';
+import type { LocationFilter } from '../services/stockLocations';
+
+interface LocationFilterSelectProps {
+  value: LocationFilter;
+  onChange: (filter: LocationFilter) => void;
+}
+
+const optionClassName = "bg-white dark:bg-slate-800 text-slate-900 dark:text-white";
+
+// Narrows a page down to the stock held at one location; hidden until a location exists besides the main shop
+const LocationFilterSelect: React.FC<LocationFilterSelectProps> = ({ value, onChange }) => {
+    const { t, stockLocations } = useAppContext();
+    if (stockLocations.length === 0) return null;
+
+    return (
+        <select
+            value={String(value)}
+            onChange={e => onChange(e.target.value === 'all' || e.target.value === 'main' ? e.target.value : Number(e.target.value))}
+            aria-label={t('locations.filter.label')}
+            className="w-full md:w-auto bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 dark:text-white focus:ring-2 focus:ring-brand focus:border-brand p-2 text-sm font-medium"
+        >
+            <option className={optionClassName} value="all">{t('locations.filter.all')}</option>
+            <option className={optionClassName} value="main">{t('locations.main_shop')}</option>
+            {stockLocations.map(l => <option key={l.id} className={optionClassName} value={l.id}>{l.name}</option>)}
+        </select>
+    );
+};
+
+export default LocationFilterSelect;
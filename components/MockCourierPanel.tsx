@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import type { ShipmentStatus } from '../types';
+import { useAppContext } from '../context/AppContext';
+import { DeliveryIcon, DollarSignIcon } from './Icons';
+import { mockCourier, mockCourierDesk } from '../services/mockCourier';
+
+const statuses: ShipmentStatus[] = ['pending', 'in_transit', 'delivered', 'returned'];
+
+// Plays the carrier's part for parcels booked with the mock courier: moving them along and paying over their cash
+const MockCourierPanel: React.FC = () => {
+    const { t, formatCurrency } = useAppContext();
+    const [shipments, setShipments] = useState(mockCourierDesk.shipments);
+    const [message, setMessage] = useState('');
+
+    const handleStatusChange = (trackingNumber: string, status: ShipmentStatus) => {
+        mockCourierDesk.setStatus(trackingNumber, status);
+        setShipments(mockCourierDesk.shipments());
+    };
+
+    const handleRemit = () => {
+        const remittance = mockCourierDesk.remit();
+        setShipments(mockCourierDesk.shipments());
+        setMessage(remittance
+            ? t('settings.mock_courier.remitted', {
+                count: remittance.lines.length,
+                amount: formatCurrency(remittance.lines.reduce((acc, l) => acc + l.codAmount - l.fee, 0)),
+            })
+            : t('settings.mock_courier.nothing_to_remit'));
+    };
+
+    const handleClear = () => {
+        mockCourierDesk.clear();
+        setShipments([]);
+        setMessage('');
+    };
+
+    return (
+        <div className="bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 p-4 sm:p-6 rounded-xl">
+            <h3 className="text-lg font-semibold mb-2 border-b pb-2 border-slate-200 dark:border-slate-700 flex items-center"><DeliveryIcon className="w-5 h-5 me-2" /> {t('settings.mock_courier.title')}</h3>
+            <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">{t('settings.mock_courier.description', { courier: mockCourier.name })}</p>
+            {shipments.length === 0 ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400 italic">{t('settings.mock_courier.empty')}</p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left rtl:text-right text-slate-600 dark:text-slate-400">
+                        <tbody>
+                            {shipments.map(s => (
+                                <tr key={s.trackingNumber} className="border-b border-slate-200 dark:border-slate-700">
+                                    <td className="py-2 pe-2 font-mono text-xs">{s.trackingNumber}</td>
+                                    <td className="py-2 pe-2 text-slate-900 dark:text-white">
+                                        {s.description}
+                                        {s.recipientName && <span className="block text-xs text-slate-500 dark:text-slate-400">{[s.recipientName, s.wilaya].filter(Boolean).join(', ')}</span>}
+                                    </td>
+                                    <td className="py-2 pe-2 whitespace-nowrap">
+                                        {formatCurrency(s.codAmount)}
+                                        {s.remittanceId && <span className="block text-xs text-green-600 dark:text-green-400">{t('settings.mock_courier.paid_over')}</span>}
+                                    </td>
+                                    <td className="py-2">
+                                        <select
+                                            value={s.status}
+                                            onChange={e => handleStatusChange(s.trackingNumber, e.target.value as ShipmentStatus)}
+                                            disabled={!!s.remittanceId}
+                                            aria-label={t('deliveries.table.status')}
+                                            className="bg-slate-100 dark:bg-slate-900/50 border border-slate-300 dark:border-slate-700 rounded-lg p-1.5 text-xs text-slate-900 dark:text-white"
+                                        >
+                                            {statuses.map(status => <option key={status} value={status}>{t(`couriers.status.${status}`)}</option>)}
+                                        </select>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            {message && <p className="mt-4 text-sm text-slate-700 dark:text-slate-300">{message}</p>}
+            <div className="mt-4 flex gap-2">
+                <motion.button onClick={handleRemit} disabled={shipments.length === 0} className="flex-1 bg-brand/10 text-brand-dark dark:text-brand-light font-semibold rounded-lg px-4 py-2 flex items-center justify-center transition-colors hover:bg-brand/20 disabled:opacity-50" whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }}>
+                    <DollarSignIcon className="w-4 h-4 me-2" /> {t('settings.mock_courier.remit_button')}
+                </motion.button>
+                <motion.button onClick={handleClear} disabled={shipments.length === 0} className="bg-red-500/10 text-red-500 font-semibold rounded-lg px-4 py-2 transition-colors hover:bg-red-500/20 disabled:opacity-50" whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }}>
+                    {t('settings.mock_courier.clear_button')}
+                </motion.button>
+            </div>
+        </div>
+    );
+};
+
+export default MockCourierPanel;
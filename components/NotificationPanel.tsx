@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence, Variants } from 'framer-motion';
 import { useAppContext } from '../context/AppContext';
-import { XIcon, NotificationIcon, HistoryIcon, AlertCircleIcon, PackageXIcon, AddIcon, EditIcon, DeleteIcon, ShoppingCartIcon, UndoIcon, DeliveryIcon } from './Icons';
+import { XIcon, NotificationIcon, HistoryIcon, AlertCircleIcon, PackageXIcon, AddIcon, EditIcon, DeleteIcon, ShoppingCartIcon, UndoIcon, DeliveryIcon, ReceiveIcon, ReturnIcon, InventoryCountIcon, LandedCostIcon } from './Icons';
 import type { Language, ActivityLog } from '../types';
 
 
@@ -31,6 +31,10 @@ const NotificationPanel: React.FC<{ isOpen: boolean, onClose: () => void }> = ({
             'sale_cancelled': { Icon: UndoIcon, color: 'text-amber-500', title: t('history.action.sale_cancelled', { productName: log.productName }) },
             'delivery_set': { Icon: DeliveryIcon, color: 'text-sky-500', title: t('history.action.delivery_set', { productName: log.productName }) },
             'delivery_cancelled': { Icon: UndoIcon, color: 'text-amber-500', title: t('history.action.delivery_cancelled', { productName: log.productName }) },
+            'received': { Icon: ReceiveIcon, color: 'text-indigo-500', title: t('history.action.received', { productName: log.productName }) },
+            'returned': { Icon: ReturnIcon, color: 'text-orange-500', title: t('history.action.returned', { productName: log.productName }) },
+            'counted': { Icon: InventoryCountIcon, color: 'text-teal-500', title: t('history.action.counted', { productName: log.productName }) },
+            'costed': { Icon: LandedCostIcon, color: 'text-emerald-500', title: t('history.action.costed', { productName: log.productName }) },
         };
         return details[log.action] || { Icon: EditIcon, color: 'text-slate-500', title: t('history.action.unknown') };
     };
@@ -0,0 +1,85 @@
+import React from 'react';
+import type { PaymentMethod, SalePayment } from '../types';
+import { useAppContext } from '../context/AppContext';
+import { AddIcon, XIcon } from './Icons';
+import { PAYMENT_METHODS, paymentsTotal } from '../services/payments';
+
+interface PaymentInputProps {
+  total: number;
+  payments: SalePayment[];
+  onChange: (payments: SalePayment[]) => void;
+}
+
+const selectClassName = "bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-2 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+
+// One method for the whole total, or the total split between several.
+// With a single payment its amount is not asked for: fitPayments gives it the total.
+const PaymentInput: React.FC<PaymentInputProps> = ({ total, payments, onChange }) => {
+    const { t, formatCurrency } = useAppContext();
+    const isSplit = payments.length > 1;
+    const remaining = Math.round((total - paymentsTotal(payments)) * 100) / 100;
+
+    const update = (index: number, changes: Partial<SalePayment>) => onChange(payments.map((p, i) => i === index ? { ...p, ...changes } : p));
+
+    // The new method starts with whatever is not covered yet
+    const addMethod = () => {
+        const unused = PAYMENT_METHODS.find(m => !payments.some(p => p.method === m)) || 'cash';
+        const covered = isSplit ? payments : [{ ...payments[0], amount: total }];
+        onChange([...covered, { method: unused, amount: Math.max(0, Math.round((total - paymentsTotal(covered)) * 100) / 100) }]);
+    };
+
+    const remove = (index: number) => onChange(payments.filter((_, i) => i !== index));
+
+    return (
+        <div>
+            <span className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('payments.label')}</span>
+            {!isSplit ? (
+                <div className="flex flex-wrap gap-2">
+                    {PAYMENT_METHODS.map(method => (
+                        <button
+                            key={method} type="button" onClick={() => onChange([{ method, amount: total }])}
+                            className={`px-3 py-1.5 text-sm font-semibold rounded-lg border transition-colors ${payments[0]?.method === method
+                                ? 'border-cyan-500 bg-cyan-500/10 text-cyan-700 dark:text-cyan-300'
+                                : 'border-gray-300 dark:border-white/10 text-gray-600 dark:text-slate-300 hover:bg-gray-100 dark:hover:bg-white/5'}`}
+                        >
+                            {t(`payments.method.${method}`)}
+                        </button>
+                    ))}
+                </div>
+            ) : (
+                <div className="space-y-2">
+                    {payments.map((payment, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                            <select
+                                value={payment.method}
+                                onChange={e => update(index, { method: e.target.value as PaymentMethod })}
+                                className={`${selectClassName} flex-1`}
+                                aria-label={t('payments.label')}
+                            >
+                                {PAYMENT_METHODS.map(method => <option key={method} value={method}>{t(`payments.method.${method}`)}</option>)}
+                            </select>
+                            <input
+                                type="number" min="0" step="0.01"
+                                value={payment.amount}
+                                onChange={e => update(index, { amount: parseFloat(e.target.value) || 0 })}
+                                className={`${selectClassName} w-32`}
+                                aria-label={t('payments.amount_label')}
+                            />
+                            <button type="button" onClick={() => remove(index)} className="p-1 text-gray-400 hover:text-red-500" title={t('payments.remove')}>
+                                <XIcon className="w-4 h-4" />
+                            </button>
+                        </div>
+                    ))}
+                    <p className={`text-xs ${remaining === 0 ? 'text-gray-500 dark:text-slate-400' : 'text-red-500'}`}>
+                        {t('payments.remaining', { amount: formatCurrency(remaining) })}
+                    </p>
+                </div>
+            )}
+            <button type="button" onClick={addMethod} className="mt-2 inline-flex items-center text-xs font-semibold text-cyan-600 dark:text-cyan-400">
+                <AddIcon className="w-4 h-4 me-1" /> {isSplit ? t('payments.add_method') : t('payments.split')}
+            </button>
+        </div>
+    );
+};
+
+export default PaymentInput;
@@ -0,0 +1,96 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { Product, Language, PriceChange, BulkUpdateMode } from '../types';
+import { useAppContext } from '../context/AppContext';
+import { priceChangesOf, priceTimeline, bulkBatch, isBatchReverted } from '../services/priceHistory';
+import { UndoIcon } from './Icons';
+
+const localeMap: Record<Language, string> = {
+    fr: 'fr-FR',
+    en: 'en-GB',
+    ar: 'ar-SA-u-nu-latn',
+};
+
+const modeSigns: Record<BulkUpdateMode, string> = { set: '= ', increase: '+', decrease: '-' };
+
+// A product's prices over time, and every change that made them, newest first.
+// `onRevert` is asked to revert a bulk edit, so the confirmation can be shown above the modal this sits in.
+const PriceHistory: React.FC<{ product: Product; onRevert: (batchId: string) => void }> = ({ product, onRevert }) => {
+    const { t, language, theme, products, priceChanges, formatCurrency } = useAppContext();
+    const locale = localeMap[language];
+    // The product shown may be a copy taken when the modal was opened
+    const current = products.find(p => p.id === product.id) || product;
+    const history = priceChangesOf(current.id, priceChanges);
+    const timeline = priceTimeline(current, priceChanges);
+    const axisColor = theme === 'dark' ? '#94a3b8' : '#64748b';
+
+    const formatDate = (time: number | string) => new Date(time).toLocaleDateString(locale, { dateStyle: 'short' });
+
+    // What a bulk edit asked for, such as "Sell Price +10"
+    const describeBulk = (change: PriceChange) => (['buyPrice', 'sellPrice'] as const)
+        .filter(field => change.bulkUpdate?.[field])
+        .map(field => `${t(`log.${field}`)} ${modeSigns[change.bulkUpdate![field]!.mode]}${formatCurrency(change.bulkUpdate![field]!.value)}`)
+        .join(', ');
+
+    const PriceCell: React.FC<{ from: number; to: number }> = ({ from, to }) => from === to
+        ? <span>{formatCurrency(to)}</span>
+        : <span><span className="line-through text-gray-400 dark:text-slate-500">{formatCurrency(from)}</span> <span className="font-semibold text-gray-900 dark:text-white">{formatCurrency(to)}</span></span>;
+
+    return (
+        <div className="mt-6">
+            <h3 className="text-sm font-bold text-gray-500 dark:text-slate-400 mb-2">{t('price_history.title')}</h3>
+            <ResponsiveContainer width="100%" height={200}>
+                <LineChart data={timeline} margin={{ top: 5, right: 10, left: -10, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? "rgba(255, 255, 255, 0.1)" : "rgba(0,0,0,0.1)"} />
+                    <XAxis dataKey="time" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={formatDate} tick={{ fill: axisColor }} fontSize={12} />
+                    <YAxis tick={{ fill: axisColor }} fontSize={12} tickFormatter={(value: number) => value.toLocaleString(locale)} />
+                    <Tooltip labelFormatter={formatDate} formatter={(value: number) => formatCurrency(value)} />
+                    <Legend />
+                    <Line type="stepAfter" dataKey="buyPrice" name={t('log.buyPrice')} stroke="#f59e0b" strokeWidth={2} dot={false} />
+                    <Line type="stepAfter" dataKey="sellPrice" name={t('log.sellPrice')} stroke="#06b6d4" strokeWidth={2} dot={false} />
+                </LineChart>
+            </ResponsiveContainer>
+
+            {history.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-slate-400">{t('price_history.empty')}</p>
+            ) : (
+                <table className="w-full text-sm text-left rtl:text-right text-gray-600 dark:text-slate-400 mt-2">
+                    <thead className="text-xs text-gray-700 uppercase dark:text-slate-300">
+                        <tr>
+                            <th className="py-2 pe-2">{t('price_history.table.date')}</th>
+                            <th className="py-2 pe-2">{t('price_history.table.change')}</th>
+                            <th className="py-2 pe-2 text-end">{t('log.buyPrice')}</th>
+                            <th className="py-2 text-end">{t('log.sellPrice')}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {[...history].reverse().map(change => (
+                            <tr key={change.id} className="border-t border-gray-200 dark:border-white/10 align-top">
+                                <td className="py-2 pe-2 whitespace-nowrap">{new Date(change.createdAt).toLocaleString(locale, { dateStyle: 'short', timeStyle: 'short' })}</td>
+                                <td className="py-2 pe-2">
+                                    <span className="text-gray-900 dark:text-white">{t(`price_history.source.${change.source}`)}</span>
+                                    {change.source !== 'edit' && change.batchId && (
+                                        <span className="block text-xs text-gray-500 dark:text-slate-400">
+                                            {[describeBulk(change), t('price_history.batch_size', { count: bulkBatch(change.batchId, priceChanges).length })].filter(Boolean).join(' · ')}
+                                        </span>
+                                    )}
+                                    {change.source === 'bulk_update' && change.batchId && (isBatchReverted(change.batchId, priceChanges) ? (
+                                        <span className="block text-xs text-amber-600 dark:text-amber-400">{t('price_history.reverted')}</span>
+                                    ) : (
+                                        <button onClick={() => onRevert(change.batchId!)} className="mt-1 flex items-center text-xs font-semibold text-blue-500 hover:underline">
+                                            <UndoIcon className="w-3 h-3 me-1" />{t('price_history.revert')}
+                                        </button>
+                                    ))}
+                                </td>
+                                <td className="py-2 pe-2 text-end"><PriceCell from={change.oldBuyPrice} to={change.newBuyPrice} /></td>
+                                <td className="py-2 text-end"><PriceCell from={change.oldSellPrice} to={change.newSellPrice} /></td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default PriceHistory;
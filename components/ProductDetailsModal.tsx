@@ -1,8 +1,13 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { motion, AnimatePresence, Variants } from 'framer-motion';
 import { XIcon, ProductsIcon } from './Icons';
 import { Product } from '../types';
 import { useAppContext } from '../context/AppContext';
+import StockMovementHistory from './StockMovementHistory';
+import PriceHistory from './PriceHistory';
+import StockLots from './StockLots';
+import ConfirmationModal from './ConfirmationModal';
+import { bulkBatch } from '../services/priceHistory';
 
 interface ProductDetailsModalProps {
   isOpen: boolean;
@@ -18,7 +23,8 @@ const DetailItem: React.FC<{ label: string; value: string | number | React.React
 );
 
 const ProductDetailsModal: React.FC<ProductDetailsModalProps> = ({ isOpen, onClose, product }) => {
-    const { t } = useAppContext();
+    const { t, formatCurrency, priceChanges, revertBulkPriceChange } = useAppContext();
+    const [batchToRevert, setBatchToRevert] = useState<string | null>(null);
 
     const backdropVariants: Variants = {
         visible: { opacity: 1 },
@@ -38,6 +44,7 @@ const ProductDetailsModal: React.FC<ProductDetailsModalProps> = ({ isOpen, onClo
                         'bg-sky-100 text-sky-800 dark:bg-sky-500/20 dark:text-sky-300';
 
     return (
+        <>
         <AnimatePresence>
             {isOpen && (
                 <motion.div
@@ -80,14 +87,27 @@ const ProductDetailsModal: React.FC<ProductDetailsModalProps> = ({ isOpen, onClo
                         <div className="mt-6 grid grid-cols-2 gap-x-4 gap-y-5">
                             <DetailItem label={t('product_form.supplier_label')} value={product.supplier} />
                              <DetailItem label={t('products.table.status')} value={<span className={`px-2 py-1 rounded-full text-xs font-semibold ${statusColor}`}>{statusText}</span>} />
-                            <DetailItem label={t('product_form.buy_price_label')} value={`${product.buyPrice.toFixed(2)} DA`} />
-                            <DetailItem label={t('product_form.sell_price_label')} value={`${product.sellPrice.toFixed(2)} DA`} />
+                            <DetailItem label={t('product_form.buy_price_label')} value={formatCurrency(product.buyPrice)} />
+                            <DetailItem label={t('product_form.sell_price_label')} value={formatCurrency(product.sellPrice)} />
                             <DetailItem label={t('product_form.stock_label')} value={`${product.stock} ${t('dashboard.chart.units')}`} />
                         </div>
+
+                        <StockLots product={product} />
+                        <PriceHistory product={product} onRevert={setBatchToRevert} />
+                        <StockMovementHistory product={product} />
                     </motion.div>
                 </motion.div>
             )}
         </AnimatePresence>
+        <ConfirmationModal
+            isOpen={!!batchToRevert}
+            onClose={() => setBatchToRevert(null)}
+            onConfirm={async () => { if (batchToRevert) await revertBulkPriceChange(batchToRevert); }}
+            title={t('price_history.confirm_revert_title')}
+            message={t('price_history.confirm_revert', { count: batchToRevert ? bulkBatch(batchToRevert, priceChanges).length : 0 })}
+            confirmText={t('price_history.revert')}
+        />
+        </>
     );
 };
 
@@ -1,9 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import type { Product, ProductFormData } from '../types';
+import type { Product, ProductFormData, ProductVariantFormData, StockAdjustmentReason } from '../types';
 import { motion, AnimatePresence, Variants } from 'framer-motion';
-import { XIcon, LoaderIcon, SparklesIcon } from './Icons';
+import { XIcon, LoaderIcon, SparklesIcon, AddIcon, DeleteIcon } from './Icons';
 import { useAppContext } from '../context/AppContext';
 import { generateProductInfo } from '../services/gemini';
+import { STOCK_ADJUSTMENT_REASONS } from '../services/stockMovements';
+import { taxRateOf } from '../services/taxes';
 
 
 interface ProductFormProps {
@@ -15,10 +17,15 @@ interface ProductFormProps {
 }
 
 
+const inputClassName = "w-full bg-slate-100 dark:bg-slate-900/50 border border-slate-300 dark:border-slate-700 rounded-lg p-2 text-slate-900 dark:text-white focus:ring-2 focus:ring-brand focus:border-brand";
+
+// "Taille, Couleur" -> ["Taille", "Couleur"]
+const parseOptionNames = (value: string) => value.split(/[,،]/).map(name => name.trim()).filter(Boolean);
+
 const categories = ["Lunettes", "Montres", "Sacoches & Porte feuille", "Casquette", "Bracelet", "Ceintures", "Écharpes"];
 
 const ProductForm: React.FC<ProductFormProps> = ({ isOpen, onClose, onSave, productToEdit, initialData }) => {
-  const { t } = useAppContext();
+  const { t, suppliers, taxRates } = useAppContext();
   const [formData, setFormData] = useState({
     name: '',
     description: '',
@@ -27,7 +34,16 @@ const ProductForm: React.FC<ProductFormProps> = ({ isOpen, onClose, onSave, prod
     buyPrice: 0,
     sellPrice: 0,
     stock: 0,
+    sku: '',
+    barcode: '',
   });
+  // Comma-separated option names shared by every variant, e.g. "Taille, Couleur"
+  const [optionNames, setOptionNames] = useState('');
+  const [variants, setVariants] = useState<ProductVariantFormData[]>([]);
+  const [stockReason, setStockReason] = useState<StockAdjustmentReason>('count_correction');
+  // Empty while the product follows the rate of its category
+  const [taxRate, setTaxRate] = useState('');
+  const [priceIncludesTax, setPriceIncludesTax] = useState(false);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -43,8 +59,14 @@ const ProductForm: React.FC<ProductFormProps> = ({ isOpen, onClose, onSave, prod
         buyPrice: productToEdit.buyPrice,
         sellPrice: productToEdit.sellPrice,
         stock: productToEdit.stock,
+        sku: productToEdit.sku || '',
+        barcode: productToEdit.barcode || '',
       });
+      setTaxRate(productToEdit.taxRate !== undefined ? String(productToEdit.taxRate) : '');
+      setPriceIncludesTax(!!productToEdit.priceIncludesTax);
       setImagePreview(productToEdit.imageUrl || null);
+      setVariants(productToEdit.variants || []);
+      setOptionNames((productToEdit.variants?.[0]?.options || []).map(o => o.name).join(', '));
     } else if (initialData) {
         const { imageBlob, ...formDataFromAI } = initialData;
         // FIX: Ensure the object passed to setFormData matches the state shape and types.
@@ -56,16 +78,27 @@ const ProductForm: React.FC<ProductFormProps> = ({ isOpen, onClose, onSave, prod
             buyPrice: formDataFromAI.buyPrice,
             sellPrice: formDataFromAI.sellPrice,
             stock: formDataFromAI.stock,
+            sku: formDataFromAI.sku || '',
+            barcode: formDataFromAI.barcode || '',
         });
+        setTaxRate('');
+        setPriceIncludesTax(false);
+        setVariants(formDataFromAI.variants || []);
+        setOptionNames((formDataFromAI.variants?.[0]?.options || []).map(o => o.name).join(', '));
         if (imageBlob) {
             const file = new File([imageBlob], "scanned-product.jpg", { type: imageBlob.type });
             setImageFile(file);
             setImagePreview(URL.createObjectURL(imageBlob));
         }
     } else {
-      setFormData({ name: '', description: '', category: '', supplier: '', buyPrice: 0, sellPrice: 0, stock: 0 });
+      setFormData({ name: '', description: '', category: '', supplier: '', buyPrice: 0, sellPrice: 0, stock: 0, sku: '', barcode: '' });
+      setTaxRate('');
+      setPriceIncludesTax(false);
+      setVariants([]);
+      setOptionNames('');
     }
     
+    setStockReason('count_correction');
     if (!initialData) {
         setImageFile(null);
     }
@@ -86,6 +119,39 @@ const ProductForm: React.FC<ProductFormProps> = ({ isOpen, onClose, onSave, prod
   };
   
 
+  const handleOptionNamesChange = (value: string) => {
+    setOptionNames(value);
+    const names = parseOptionNames(value);
+    setVariants(prev => prev.map(v => ({ ...v, options: names.map((name, i) => ({ name, value: v.options[i]?.value || '' })) })));
+  };
+
+  const addVariant = () => {
+    setVariants(prev => [...prev, {
+      options: parseOptionNames(optionNames).map(name => ({ name, value: '' })),
+      buyPrice: formData.buyPrice,
+      sellPrice: formData.sellPrice,
+      stock: 0,
+    }]);
+  };
+
+  const updateVariant = (index: number, changes: Partial<ProductVariantFormData>) => {
+    setVariants(prev => prev.map((v, i) => i === index ? { ...v, ...changes } : v));
+  };
+
+  const updateVariantOption = (index: number, optionIndex: number, value: string) => {
+    setVariants(prev => prev.map((v, i) => i === index ? { ...v, options: v.options.map((o, j) => j === optionIndex ? { ...o, value } : o) } : v));
+  };
+
+  const removeVariant = (index: number) => {
+    setVariants(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // With variants, the product's stock is theirs combined
+  const stock = variants.length > 0 ? variants.reduce((sum, v) => sum + v.stock, 0) : formData.stock;
+  // Stock edited by hand needs a reason for the stock movement ledger
+  const stockEdited = !!productToEdit && (stock !== productToEdit.stock ||
+    variants.some(v => v.stock !== (productToEdit.variants?.find(pv => pv.id === v.id)?.stock ?? 0)));
+
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -119,6 +185,11 @@ const ProductForm: React.FC<ProductFormProps> = ({ isOpen, onClose, onSave, prod
     
     const finalProductData: ProductFormData = { 
         ...formData,
+        stock,
+        taxRate: taxRate.trim() === '' ? undefined : parseFloat(taxRate),
+        priceIncludesTax,
+        variants,
+        stockReason: stockEdited ? stockReason : undefined,
         imageUrl: productToEdit?.imageUrl,
         imageFile: imageFile 
     };
@@ -214,13 +285,22 @@ const ProductForm: React.FC<ProductFormProps> = ({ isOpen, onClose, onSave, prod
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                            <div>
                                 <label htmlFor="supplier" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">{t('product_form.supplier_label')}</label>
-                                <input type="text" id="supplier" name="supplier" value={formData.supplier} onChange={handleChange} className="w-full bg-slate-100 dark:bg-slate-900/50 border border-slate-300 dark:border-slate-700 rounded-lg p-2 text-slate-900 dark:text-white focus:ring-2 focus:ring-brand focus:border-brand" required />
+                                <input type="text" id="supplier" name="supplier" list="product-form-suppliers" value={formData.supplier} onChange={handleChange} className="w-full bg-slate-100 dark:bg-slate-900/50 border border-slate-300 dark:border-slate-700 rounded-lg p-2 text-slate-900 dark:text-white focus:ring-2 focus:ring-brand focus:border-brand" required />
+                                <datalist id="product-form-suppliers">{suppliers.map(s => <option key={s.id} value={s.name} />)}</datalist>
                             </div>
                             <div>
                                 <label htmlFor="stock" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">{t('product_form.stock_label')}</label>
-                                <input type="number" id="stock" name="stock" value={formData.stock} onChange={handleChange} className="w-full bg-slate-100 dark:bg-slate-900/50 border border-slate-300 dark:border-slate-700 rounded-lg p-2 text-slate-900 dark:text-white focus:ring-2 focus:ring-brand focus:border-brand" required min="0" step="1" />
+                                <input type="number" id="stock" name="stock" value={stock} onChange={handleChange} disabled={variants.length > 0} className="w-full bg-slate-100 dark:bg-slate-900/50 border border-slate-300 dark:border-slate-700 rounded-lg p-2 text-slate-900 dark:text-white focus:ring-2 focus:ring-brand focus:border-brand disabled:opacity-60" required min="0" step="1" />
                             </div>
                         </div>
+                        {stockEdited && (
+                            <div>
+                                <label htmlFor="stockReason" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">{t('stock_movements.reason_label')}</label>
+                                <select id="stockReason" value={stockReason} onChange={e => setStockReason(e.target.value as StockAdjustmentReason)} className={inputClassName}>
+                                    {STOCK_ADJUSTMENT_REASONS.map(reason => <option key={reason} value={reason}>{t(`stock_movements.reason.${reason}`)}</option>)}
+                                </select>
+                            </div>
+                        )}
 
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                             <div>
@@ -233,6 +313,69 @@ const ProductForm: React.FC<ProductFormProps> = ({ isOpen, onClose, onSave, prod
                             </div>
                         </div>
 
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                                <label htmlFor="taxRate" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">{t('product_form.tax_rate_label')}</label>
+                                <input
+                                    type="number" id="taxRate" value={taxRate} onChange={e => setTaxRate(e.target.value)}
+                                    placeholder={t('product_form.tax_rate_placeholder', { rate: taxRateOf({ category: formData.category }, taxRates) })}
+                                    className={inputClassName} min="0" max="100" step="0.01"
+                                />
+                            </div>
+                            <label className="flex items-center md:mt-6 text-sm text-slate-700 dark:text-slate-300">
+                                <input type="checkbox" checked={priceIncludesTax} onChange={e => setPriceIncludesTax(e.target.checked)} className="w-4 h-4 text-cyan-500 bg-gray-200 border-gray-300 rounded focus:ring-cyan-500 dark:focus:ring-cyan-600 dark:ring-offset-slate-800 focus:ring-2 dark:bg-slate-700 dark:border-slate-600 me-2" />
+                                {t('product_form.price_includes_tax_label')}
+                            </label>
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                                <label htmlFor="sku" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">{t('product_form.sku_label')}</label>
+                                <input type="text" id="sku" name="sku" value={formData.sku} onChange={handleChange} className={inputClassName} />
+                            </div>
+                            <div>
+                                <label htmlFor="barcode" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">{t('product_form.barcode_label')}</label>
+                                <input type="text" id="barcode" name="barcode" value={formData.barcode} onChange={handleChange} inputMode="numeric" className={inputClassName} />
+                            </div>
+                        </div>
+
+                        <div className="space-y-3 border-t border-slate-200 dark:border-slate-700 pt-4">
+                            <div>
+                                <label htmlFor="optionNames" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">{t('product_form.variants.option_names_label')}</label>
+                                <input type="text" id="optionNames" value={optionNames} onChange={e => handleOptionNamesChange(e.target.value)} placeholder={t('product_form.variants.option_names_placeholder')} className={inputClassName} />
+                            </div>
+                            {variants.map((variant, index) => (
+                                <div key={variant.id ?? `new-${index}`} className="p-3 rounded-lg bg-slate-50 dark:bg-slate-900/30 border border-slate-200 dark:border-slate-700 space-y-2">
+                                    <div className="flex items-center gap-2">
+                                        {variant.options.map((option, optionIndex) => (
+                                            <input key={optionIndex} type="text" value={option.value} onChange={e => updateVariantOption(index, optionIndex, e.target.value)} placeholder={option.name} aria-label={option.name} className={inputClassName} required />
+                                        ))}
+                                        <button type="button" onClick={() => removeVariant(index)} title={t('product_form.variants.remove')} className="p-2 text-slate-400 hover:text-red-500 shrink-0">
+                                            <DeleteIcon className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-2">
+                                        <input type="text" value={variant.sku || ''} onChange={e => updateVariant(index, { sku: e.target.value })} placeholder={t('product_form.sku_label')} aria-label={t('product_form.sku_label')} className={inputClassName} />
+                                        <input type="text" value={variant.barcode || ''} onChange={e => updateVariant(index, { barcode: e.target.value })} placeholder={t('product_form.barcode_label')} aria-label={t('product_form.barcode_label')} className={inputClassName} />
+                                    </div>
+                                    <div className="grid grid-cols-3 gap-2">
+                                        <input type="number" value={variant.buyPrice} onChange={e => updateVariant(index, { buyPrice: parseFloat(e.target.value) || 0 })} title={t('product_form.buy_price_label')} aria-label={t('product_form.buy_price_label')} className={inputClassName} required min="0" step="0.01" />
+                                        <input type="number" value={variant.sellPrice} onChange={e => updateVariant(index, { sellPrice: parseFloat(e.target.value) || 0 })} title={t('product_form.sell_price_label')} aria-label={t('product_form.sell_price_label')} className={inputClassName} required min="0" step="0.01" />
+                                        <input type="number" value={variant.stock} onChange={e => updateVariant(index, { stock: parseInt(e.target.value, 10) || 0 })} title={t('product_form.stock_label')} aria-label={t('product_form.stock_label')} className={inputClassName} required min="0" step="1" />
+                                    </div>
+                                </div>
+                            ))}
+                            <button
+                                type="button"
+                                onClick={addVariant}
+                                disabled={parseOptionNames(optionNames).length === 0}
+                                className="flex items-center text-sm font-semibold text-brand-dark dark:text-brand-light disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                <AddIcon className="w-4 h-4 me-1" />
+                                {t('product_form.variants.add')}
+                            </button>
+                        </div>
+
                         <div className="flex justify-end pt-4 space-x-3">
                             <motion.button
                                 type="button"
@@ -0,0 +1,158 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { DiscountKind, Promotion, PromotionFormData } from '../types';
+import { motion, AnimatePresence, Variants } from 'framer-motion';
+import { XIcon } from './Icons';
+import { useAppContext } from '../context/AppContext';
+import { promotionError } from '../services/promotions';
+
+interface PromotionFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (promotionData: PromotionFormData) => Promise<void>;
+  promotion: Promotion | null;
+}
+
+type PromotionScope = 'all' | 'category' | 'product';
+
+const inputClassName = "w-full bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-2 text-gray-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+
+const today = () => new Date().toLocaleDateString('en-CA');
+
+// A promotion runs from the start of its first day to the end of its last one
+const PromotionForm: React.FC<PromotionFormProps> = ({ isOpen, onClose, onSave, promotion }) => {
+    const { t, currency, products } = useAppContext();
+    const [name, setName] = useState('');
+    const [kind, setKind] = useState<DiscountKind>('percent');
+    const [value, setValue] = useState(0);
+    const [scope, setScope] = useState<PromotionScope>('all');
+    const [category, setCategory] = useState('');
+    const [productId, setProductId] = useState('');
+    const [startDate, setStartDate] = useState(today);
+    const [endDate, setEndDate] = useState(today);
+    const [error, setError] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const categories = useMemo(() => [...new Set(products.map(p => p.category).filter(Boolean))].sort(), [products]);
+    const sortedProducts = useMemo(() => [...products].sort((a, b) => a.name.localeCompare(b.name)), [products]);
+
+    useEffect(() => {
+        if (isOpen) {
+            setName(promotion?.name || '');
+            setKind(promotion?.kind || 'percent');
+            setValue(promotion?.value ?? 0);
+            setScope(promotion?.productId !== undefined ? 'product' : promotion?.category ? 'category' : 'all');
+            setCategory(promotion?.category || '');
+            setProductId(promotion?.productId !== undefined ? String(promotion.productId) : '');
+            setStartDate(promotion ? new Date(promotion.startsAt).toLocaleDateString('en-CA') : today());
+            setEndDate(promotion ? new Date(promotion.endsAt).toLocaleDateString('en-CA') : today());
+            setError('');
+            setIsSaving(false);
+        }
+    }, [isOpen, promotion]);
+
+    // Until one is picked the first of the list is the one shown
+    const chosenCategory = category || categories[0] || '';
+    const chosenProductId = productId || String(sortedProducts[0]?.id ?? '');
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const promotionData: PromotionFormData = {
+            name: name.trim(), kind, value,
+            productId: scope === 'product' && chosenProductId ? Number(chosenProductId) : undefined,
+            category: scope === 'category' ? chosenCategory || undefined : undefined,
+            startsAt: startDate ? new Date(`${startDate}T00:00`).toISOString() : '',
+            endsAt: endDate ? new Date(`${endDate}T23:59:59.999`).toISOString() : '',
+        };
+        const invalid = promotionError(promotionData);
+        if (invalid) {
+            setError(t(`promotions.form.error.${invalid}`));
+            return;
+        }
+        setIsSaving(true);
+        await onSave(promotionData);
+        setIsSaving(false);
+    };
+
+    const backdropVariants: Variants = { visible: { opacity: 1 }, hidden: { opacity: 0 }};
+    const modalVariants: Variants = {
+        hidden: { y: "-50px", opacity: 0 },
+        visible: { y: "0", opacity: 1, transition: { type: 'spring', stiffness: 150 } },
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4"
+                    initial="hidden" animate="visible" exit="hidden" variants={backdropVariants}
+                    onClick={onClose}
+                >
+                    <motion.div
+                        className="bg-white dark:bg-slate-900/80 backdrop-blur-2xl border border-gray-200 dark:border-white/10 rounded-2xl shadow-xl w-full max-w-md relative p-8"
+                        variants={modalVariants}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 dark:text-slate-400 hover:text-gray-800 dark:hover:text-white"><XIcon /></button>
+                        <h2 className="text-2xl font-bold mb-6 text-gray-900 dark:text-white">{promotion ? t('promotions.form.title_edit') : t('promotions.form.title_new')}</h2>
+
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <div>
+                                <label htmlFor="promotion-name" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('promotions.form.name_label')}</label>
+                                <input type="text" id="promotion-name" value={name} onChange={e => setName(e.target.value)} placeholder={t('promotions.form.name_placeholder')} className={inputClassName} />
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label htmlFor="promotion-kind" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('promotions.form.kind_label')}</label>
+                                    <select id="promotion-kind" value={kind} onChange={e => setKind(e.target.value as DiscountKind)} className={inputClassName}>
+                                        <option value="percent">{t('promotions.kind.percent')}</option>
+                                        <option value="fixed">{t('promotions.kind.fixed', { currency })}</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label htmlFor="promotion-value" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('promotions.form.value_label')}</label>
+                                    <input type="number" id="promotion-value" min="0" step="0.01" value={value} onChange={e => setValue(parseFloat(e.target.value) || 0)} className={inputClassName} />
+                                </div>
+                            </div>
+                            <div>
+                                <label htmlFor="promotion-scope" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('promotions.form.scope_label')}</label>
+                                <select id="promotion-scope" value={scope} onChange={e => setScope(e.target.value as PromotionScope)} className={inputClassName}>
+                                    <option value="all">{t('promotions.scope.all')}</option>
+                                    <option value="category" disabled={categories.length === 0}>{t('promotions.scope.category')}</option>
+                                    <option value="product" disabled={products.length === 0}>{t('promotions.scope.product')}</option>
+                                </select>
+                            </div>
+                            {scope === 'category' && (
+                                <select value={chosenCategory} onChange={e => setCategory(e.target.value)} className={inputClassName} aria-label={t('promotions.scope.category')}>
+                                    {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                                </select>
+                            )}
+                            {scope === 'product' && (
+                                <select value={chosenProductId} onChange={e => setProductId(e.target.value)} className={inputClassName} aria-label={t('promotions.scope.product')}>
+                                    {sortedProducts.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                </select>
+                            )}
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label htmlFor="promotion-start" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('promotions.form.start_label')}</label>
+                                    <input type="date" id="promotion-start" value={startDate} onChange={e => setStartDate(e.target.value)} className={inputClassName} />
+                                </div>
+                                <div>
+                                    <label htmlFor="promotion-end" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('promotions.form.end_label')}</label>
+                                    <input type="date" id="promotion-end" value={endDate} onChange={e => setEndDate(e.target.value)} className={inputClassName} />
+                                </div>
+                            </div>
+                            {error && <p className="text-red-500 text-sm">{error}</p>}
+
+                            <div className="flex justify-end pt-2 space-x-3">
+                                <motion.button type="button" onClick={onClose} className="bg-gray-200 dark:bg-white/10 text-gray-800 dark:text-white rounded-lg px-4 py-2 font-semibold" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{t('cancel')}</motion.button>
+                                <motion.button type="submit" disabled={isSaving} className="text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg px-4 py-2 disabled:opacity-50" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{t('save')}</motion.button>
+                            </div>
+                        </form>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default PromotionForm;
@@ -0,0 +1,269 @@
+import React, { useState, useEffect } from 'react';
+import type { PurchaseOrder, PurchaseOrderFormData, Product, Language } from '../types';
+import { motion, AnimatePresence, Variants } from 'framer-motion';
+import { XIcon, AddIcon, DeleteIcon } from './Icons';
+import { useAppContext } from '../context/AppContext';
+import { variantLabel } from '../services/variants';
+import { sameSupplierName } from '../services/suppliers';
+import { landedTotal } from '../services/purchaseOrders';
+import { CURRENCIES, formatMoney, foreignCost, exchangeRateError } from '../services/money';
+
+interface PurchaseOrderFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (orderData: PurchaseOrderFormData) => Promise<void>;
+  order: PurchaseOrder | null;
+}
+
+interface LineState {
+  key: number;
+  productId: number | '';
+  variantId?: number;
+  quantity: number;
+  unitCost: number;
+}
+
+const localeMap: Record<Language, string> = {
+    fr: 'fr-FR',
+    en: 'en-GB',
+    ar: 'ar-SA-u-nu-latn',
+};
+
+const inputClassName = "w-full bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-2 text-gray-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+
+// What we paid last time is the best guess for the next order
+const lastCost = (product: Product | undefined, variantId?: number) =>
+  product?.variants?.find(v => v.id === variantId)?.buyPrice ?? product?.buyPrice ?? 0;
+
+const PurchaseOrderForm: React.FC<PurchaseOrderFormProps> = ({ isOpen, onClose, onSave, order }) => {
+    const { t, products, suppliers, language, currency: shopCurrency, formatCurrency } = useAppContext();
+    const [supplier, setSupplier] = useState('');
+    const [reference, setReference] = useState('');
+    const [notes, setNotes] = useState('');
+    const [orderCurrency, setOrderCurrency] = useState(shopCurrency);
+    const [exchangeRate, setExchangeRate] = useState(0);
+    const [lines, setLines] = useState<LineState[]>([]);
+    const [error, setError] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+
+    useEffect(() => {
+        if (isOpen) {
+            setSupplier(order?.supplier || '');
+            setReference(order?.reference || '');
+            setNotes(order?.notes || '');
+            setOrderCurrency(order?.currency ?? shopCurrency);
+            setExchangeRate(order?.exchangeRate ?? 0);
+            // Lines whose product was deleted since cannot be ordered again
+            setLines((order?.lines || []).flatMap(l => l.productId === null ? [] : [{
+                key: l.id, productId: l.productId, variantId: l.variantId, quantity: l.quantity, unitCost: l.unitCost,
+            }]));
+            setError('');
+            setIsSaving(false);
+        }
+    }, [isOpen, order, shopCurrency]);
+
+    const isForeign = orderCurrency !== shopCurrency;
+
+    // Last time's buy price, back in the supplier's currency when the order is in another one
+    const suggestedCost = (product: Product | undefined, variantId?: number) => {
+        const cost = lastCost(product, variantId);
+        if (!isForeign) return cost;
+        return exchangeRate > 0 ? foreignCost(cost, exchangeRate) : 0;
+    };
+
+    const updateLine = (key: number, changes: Partial<LineState>) => {
+        setLines(prev => prev.map(l => l.key === key ? { ...l, ...changes } : l));
+    };
+
+    const handleProductChange = (key: number, value: string) => {
+        const product = products.find(p => p.id === Number(value));
+        const variantId = product?.variants?.[0]?.id;
+        updateLine(key, { productId: product ? product.id : '', variantId, unitCost: suggestedCost(product, variantId) });
+    };
+
+    const handleVariantChange = (line: LineState, value: string) => {
+        const variantId = Number(value);
+        updateLine(line.key, { variantId, unitCost: suggestedCost(products.find(p => p.id === line.productId), variantId) });
+    };
+
+    const handleAddLine = () => {
+        setLines(prev => [...prev, { key: Date.now(), productId: '', quantity: 1, unitCost: 0 }]);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!supplier.trim()) {
+            setError(t('purchases.form.error.supplier_required'));
+            return;
+        }
+        if (lines.length === 0) {
+            setError(t('purchases.form.error.no_lines'));
+            return;
+        }
+        if (lines.some(l => l.productId === '' || !Number.isInteger(l.quantity) || l.quantity < 1 || l.unitCost < 0)) {
+            setError(t('purchases.form.error.invalid_line'));
+            return;
+        }
+        if (isForeign && exchangeRateError(exchangeRate)) {
+            setError(t('purchases.form.error.invalid_rate'));
+            return;
+        }
+
+        setIsSaving(true);
+        await onSave({
+            supplier: supplier.trim(),
+            reference: reference.trim() || undefined,
+            notes: notes.trim() || undefined,
+            currency: isForeign ? orderCurrency : undefined,
+            exchangeRate: isForeign ? exchangeRate : undefined,
+            lines: lines.map(l => ({ productId: l.productId as number, variantId: l.variantId, quantity: l.quantity, unitCost: l.unitCost })),
+        });
+        setIsSaving(false);
+    };
+
+    const total = lines.reduce((sum, l) => sum + l.quantity * l.unitCost, 0);
+    const knownSupplier = supplier.trim() ? suppliers.find(s => sameSupplierName(s.name, supplier)) : undefined;
+
+    const backdropVariants: Variants = { visible: { opacity: 1 }, hidden: { opacity: 0 }};
+    const modalVariants: Variants = {
+        hidden: { y: "-50px", opacity: 0 },
+        visible: { y: "0", opacity: 1, transition: { type: 'spring', stiffness: 150 } },
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4"
+                    initial="hidden" animate="visible" exit="hidden" variants={backdropVariants}
+                    onClick={onClose}
+                >
+                    <motion.div
+                        className="bg-white dark:bg-slate-900/80 backdrop-blur-2xl border border-gray-200 dark:border-white/10 rounded-2xl shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto relative p-8"
+                        variants={modalVariants}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 dark:text-slate-400 hover:text-gray-800 dark:hover:text-white"><XIcon /></button>
+                        <h2 className="text-2xl font-bold mb-6 text-gray-900 dark:text-white">{order ? t('purchases.form.title_edit') : t('purchases.form.title_new')}</h2>
+
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <div>
+                                    <label htmlFor="supplier" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('purchases.form.supplier_label')}</label>
+                                    <input type="text" id="supplier" list="purchase-order-suppliers" value={supplier} onChange={e => setSupplier(e.target.value)} className={inputClassName} required />
+                                    <datalist id="purchase-order-suppliers">{suppliers.map(s => <option key={s.id} value={s.name} />)}</datalist>
+                                    {(knownSupplier?.leadTimeDays !== undefined || knownSupplier?.paymentTerms) && (
+                                        <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">
+                                            {[
+                                                knownSupplier.leadTimeDays !== undefined && t('suppliers.lead_time_value', { days: knownSupplier.leadTimeDays }),
+                                                knownSupplier.paymentTerms,
+                                            ].filter(Boolean).join(' · ')}
+                                        </p>
+                                    )}
+                                </div>
+                                <div>
+                                    <label htmlFor="reference" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('purchases.form.reference_label')}</label>
+                                    <input type="text" id="reference" value={reference} onChange={e => setReference(e.target.value)} className={inputClassName} />
+                                </div>
+                            </div>
+                            <div>
+                                <label htmlFor="notes" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('purchases.form.notes_label')}</label>
+                                <textarea id="notes" value={notes} onChange={e => setNotes(e.target.value)} rows={2} className={inputClassName} />
+                            </div>
+                            <div>
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                    <div>
+                                        <label htmlFor="order-currency" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('purchases.form.currency_label')}</label>
+                                        <select id="order-currency" value={orderCurrency} onChange={e => setOrderCurrency(e.target.value)} className={inputClassName}>
+                                            {[shopCurrency, ...CURRENCIES.filter(code => code !== shopCurrency)].map(code => <option key={code} value={code}>{code}</option>)}
+                                        </select>
+                                    </div>
+                                    {isForeign && (
+                                        <div>
+                                            <label htmlFor="exchange-rate" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('purchases.form.exchange_rate_label', { currency: orderCurrency, shopCurrency })}</label>
+                                            <input type="number" id="exchange-rate" min="0" step="any" value={exchangeRate || ''} onChange={e => setExchangeRate(parseFloat(e.target.value) || 0)} className={inputClassName} />
+                                        </div>
+                                    )}
+                                </div>
+                                {isForeign && <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">{t('purchases.form.currency_hint')}</p>}
+                            </div>
+
+                            <div>
+                                <h3 className="text-sm font-semibold text-gray-700 dark:text-slate-200 mb-2">{t('purchases.form.lines_label')}</h3>
+                                <div className="space-y-2">
+                                    {lines.map(line => {
+                                        const product = products.find(p => p.id === line.productId);
+                                        return (
+                                            <div key={line.key} className="grid grid-cols-12 gap-2 items-center">
+                                                <select
+                                                    value={line.productId}
+                                                    onChange={e => handleProductChange(line.key, e.target.value)}
+                                                    className={`${inputClassName} ${product?.variants?.length ? 'col-span-4' : 'col-span-7'}`}
+                                                    aria-label={t('purchases.table.product')}
+                                                >
+                                                    <option value="">{t('purchases.form.product_placeholder')}</option>
+                                                    {products.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                                </select>
+                                                {product?.variants && product.variants.length > 0 && (
+                                                    <select
+                                                        value={line.variantId ?? ''}
+                                                        onChange={e => handleVariantChange(line, e.target.value)}
+                                                        className={`${inputClassName} col-span-3`}
+                                                        aria-label={t('sale_modal.variant_label')}
+                                                    >
+                                                        {product.variants.map(v => <option key={v.id} value={v.id}>{variantLabel(v)}</option>)}
+                                                    </select>
+                                                )}
+                                                <input
+                                                    type="number" min="1" step="1"
+                                                    value={line.quantity}
+                                                    onChange={e => updateLine(line.key, { quantity: parseInt(e.target.value, 10) || 0 })}
+                                                    className={`${inputClassName} col-span-2`}
+                                                    aria-label={t('purchases.table.quantity')}
+                                                />
+                                                <input
+                                                    type="number" min="0" step="0.01"
+                                                    value={line.unitCost}
+                                                    onChange={e => updateLine(line.key, { unitCost: parseFloat(e.target.value) || 0 })}
+                                                    className={`${inputClassName} col-span-2`}
+                                                    aria-label={t('purchases.table.unit_cost')}
+                                                />
+                                                <button type="button" onClick={() => setLines(prev => prev.filter(l => l.key !== line.key))} className="col-span-1 p-2 rounded-md text-red-500 hover:bg-red-500/10 justify-self-center" title={t('delete')}>
+                                                    <DeleteIcon className="w-5 h-5" />
+                                                </button>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                                <button type="button" onClick={handleAddLine} className="mt-3 flex items-center text-sm font-semibold text-cyan-600 dark:text-cyan-400 hover:underline">
+                                    <AddIcon className="w-4 h-4 me-1" />{t('purchases.form.add_line')}
+                                </button>
+                            </div>
+
+                            <div className="text-end text-gray-700 dark:text-slate-300">
+                                <p>{t('purchases.total')}: <span className="font-semibold">{formatMoney(total, orderCurrency, localeMap[language])}</span></p>
+                                {isForeign && exchangeRate > 0 && (
+                                    <p className="text-sm text-gray-500 dark:text-slate-400">
+                                        {t('purchases.landed_total', {
+                                            amount: formatCurrency(landedTotal(lines, exchangeRate)),
+                                            currency: orderCurrency, rate: exchangeRate.toLocaleString(localeMap[language]), shopCurrency,
+                                        })}
+                                    </p>
+                                )}
+                            </div>
+                            {error && <p className="text-red-500 text-sm">{error}</p>}
+
+                            <div className="flex justify-end pt-2 space-x-3">
+                                <motion.button type="button" onClick={onClose} className="bg-gray-200 dark:bg-white/10 text-gray-800 dark:text-white rounded-lg px-4 py-2 font-semibold" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{t('cancel')}</motion.button>
+                                <motion.button type="submit" disabled={isSaving} className="text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg px-4 py-2 disabled:opacity-50" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{t('save')}</motion.button>
+                            </div>
+                        </form>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default PurchaseOrderForm;
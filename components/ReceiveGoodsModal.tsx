@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import type { PurchaseOrder, GoodsReceipt } from '../types';
+import { motion, AnimatePresence, Variants } from 'framer-motion';
+import { XIcon } from './Icons';
+import { useAppContext } from '../context/AppContext';
+import { remainingQuantity } from '../services/purchaseOrders';
+import { landedCost } from '../services/money';
+
+interface ReceiveGoodsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (receipts: GoodsReceipt[]) => Promise<void>;
+  order: PurchaseOrder | null;
+}
+
+const inputClassName = "w-full bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-2 text-gray-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+
+const ReceiveGoodsModal: React.FC<ReceiveGoodsModalProps> = ({ isOpen, onClose, onConfirm, order }) => {
+    const { t, formatCurrency } = useAppContext();
+    const [receipts, setReceipts] = useState<GoodsReceipt[]>([]);
+    const [error, setError] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (isOpen && order) {
+            // Everything still expected arrives at the agreed price unless told otherwise
+            setReceipts(order.lines.filter(l => remainingQuantity(l) > 0).map(l => ({ lineId: l.id, quantity: remainingQuantity(l), unitCost: l.unitCost })));
+            setError('');
+            setIsSaving(false);
+        }
+    }, [isOpen, order]);
+
+    if (!order) return null;
+
+    const updateReceipt = (lineId: number, changes: Partial<GoodsReceipt>) => {
+        setReceipts(prev => prev.map(r => r.lineId === lineId ? { ...r, ...changes } : r));
+    };
+
+    const handleSubmit = async () => {
+        for (const receipt of receipts) {
+            const line = order.lines.find(l => l.id === receipt.lineId)!;
+            if (receipt.quantity < 0 || receipt.quantity > remainingQuantity(line)) {
+                setError(t('purchases.receive_modal.error.too_many', { productName: line.productName, remaining: remainingQuantity(line) }));
+                return;
+            }
+        }
+        if (!receipts.some(r => r.quantity > 0)) {
+            setError(t('purchases.receive_modal.error.nothing'));
+            return;
+        }
+        setIsSaving(true);
+        await onConfirm(receipts);
+        setIsSaving(false);
+    };
+
+    const backdropVariants: Variants = { visible: { opacity: 1 }, hidden: { opacity: 0 }};
+    const modalVariants: Variants = {
+        hidden: { y: "-50px", opacity: 0 },
+        visible: { y: "0", opacity: 1, transition: { type: 'spring', stiffness: 150 } },
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4"
+                    initial="hidden" animate="visible" exit="hidden" variants={backdropVariants}
+                    onClick={onClose}
+                >
+                    <motion.div
+                        className="bg-white dark:bg-slate-900/80 backdrop-blur-2xl border border-gray-200 dark:border-white/10 rounded-2xl shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto relative p-8"
+                        variants={modalVariants}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 dark:text-slate-400 hover:text-gray-800 dark:hover:text-white"><XIcon /></button>
+                        <h2 className="text-2xl font-bold mb-1 text-gray-900 dark:text-white">{t('purchases.receive_modal.title')}</h2>
+                        <p className="text-gray-700 dark:text-slate-300 mb-6">{order.supplier}{order.reference && ` · ${order.reference}`}</p>
+
+                        <table className="w-full text-sm text-left rtl:text-right text-slate-600 dark:text-slate-400">
+                            <thead className="text-xs text-slate-700 uppercase dark:text-slate-300">
+                                <tr>
+                                    <th className="py-2 pe-2">{t('purchases.table.product')}</th>
+                                    <th className="py-2 pe-2">{t('purchases.receive_modal.remaining')}</th>
+                                    <th className="py-2 pe-2">{t('purchases.receive_modal.quantity_label')}</th>
+                                    <th className="py-2 pe-2">{t('purchases.table.unit_cost')}{order.currency && ` (${order.currency})`}</th>
+                                    <th className="py-2">{t('purchases.receive_modal.lot')}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {receipts.map(receipt => {
+                                    const line = order.lines.find(l => l.id === receipt.lineId)!;
+                                    return (
+                                        <tr key={line.id} className="border-t border-slate-200 dark:border-slate-700">
+                                            <td className="py-2 pe-2 font-medium text-slate-900 dark:text-white">
+                                                {line.productName}
+                                                {line.variantName && <span className="block text-xs font-normal text-slate-500 dark:text-slate-400">{line.variantName}</span>}
+                                            </td>
+                                            <td className="py-2 pe-2">{remainingQuantity(line)}</td>
+                                            <td className="py-2 pe-2 w-28">
+                                                <input type="number" min="0" max={remainingQuantity(line)} step="1" value={receipt.quantity} onChange={e => updateReceipt(line.id, { quantity: parseInt(e.target.value, 10) || 0 })} className={inputClassName} />
+                                            </td>
+                                            <td className="py-2 pe-2 w-32">
+                                                <input type="number" min="0" step="0.01" value={receipt.unitCost} onChange={e => updateReceipt(line.id, { unitCost: parseFloat(e.target.value) || 0 })} className={inputClassName} />
+                                                {order.currency && (
+                                                    <span className="block text-xs text-slate-500 dark:text-slate-400 mt-1">{t('purchases.receive_modal.buy_price', { amount: formatCurrency(landedCost(receipt.unitCost, order.exchangeRate)) })}</span>
+                                                )}
+                                            </td>
+                                            {/* Units that expire or carry a batch number are received as a lot */}
+                                            <td className="py-2 w-40 space-y-1">
+                                                <input type="text" value={receipt.lotNumber || ''} onChange={e => updateReceipt(line.id, { lotNumber: e.target.value })} placeholder={t('purchases.receive_modal.lot_number')} className={inputClassName} />
+                                                <input type="date" value={receipt.expiresAt || ''} onChange={e => updateReceipt(line.id, { expiresAt: e.target.value || undefined })} title={t('purchases.receive_modal.expires_at')} className={inputClassName} />
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                        {error && <p className="text-red-500 text-sm mt-3">{error}</p>}
+
+                        <div className="flex justify-end pt-6 space-x-3">
+                            <motion.button type="button" onClick={onClose} className="bg-gray-200 dark:bg-white/10 text-gray-800 dark:text-white rounded-lg px-4 py-2 font-semibold" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{t('cancel')}</motion.button>
+                            <motion.button onClick={handleSubmit} disabled={isSaving} className="text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg px-4 py-2 disabled:opacity-50" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{t('purchases.receive_modal.confirm_button')}</motion.button>
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default ReceiveGoodsModal;
@@ -0,0 +1,156 @@
+import React, { useState, useEffect } from 'react';
+import type { Sale, SaleReturn } from '../types';
+import { motion, AnimatePresence, Variants } from 'framer-motion';
+import { XIcon } from './Icons';
+import { useAppContext } from '../context/AppContext';
+import { RETURN_REASONS, returnedQuantity, refundedAmount } from '../services/returns';
+
+interface ReturnModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sale: Sale | null;
+}
+
+const inputClassName = "w-full bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-2 text-gray-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+
+// Damaged goods usually can't be sold again
+const writtenOffByDefault = (reason: SaleReturn['reason']) => reason === 'defective' || reason === 'damaged';
+
+const ReturnModal: React.FC<ReturnModalProps> = ({ isOpen, onClose, sale }) => {
+    const { t, currency, formatCurrency, products, saleReturns, returnSale } = useAppContext();
+    const [quantity, setQuantity] = useState(1);
+    const [reason, setReason] = useState<SaleReturn['reason']>('changed_mind');
+    const [restock, setRestock] = useState(true);
+    const [refundAmount, setRefundAmount] = useState(0);
+    const [notes, setNotes] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const remainingQuantity = sale ? sale.quantity - returnedQuantity(sale.id, saleReturns) : 0;
+    const refundable = sale ? Math.round((sale.totalPrice - refundedAmount(sale.id, saleReturns)) * 100) / 100 : 0;
+    const productExists = !!sale && products.some(p => p.id === sale.productId);
+
+    // By default the customer gets back what they paid for the units, discount included
+    const defaultRefund = (units: number) => sale && sale.quantity > 0
+        ? Math.min(refundable, Math.round(sale.totalPrice / sale.quantity * units * 100) / 100)
+        : 0;
+
+    useEffect(() => {
+        if (isOpen) {
+            setQuantity(1);
+            setReason('changed_mind');
+            setRestock(productExists);
+            setRefundAmount(defaultRefund(1));
+            setNotes('');
+        }
+    }, [isOpen, sale]);
+
+    if (!sale) return null;
+
+    const quantityError = quantity < 1 || quantity > remainingQuantity ? t('returns.error.quantity', { remaining: remainingQuantity }) : '';
+    const refundError = refundAmount < 0 || refundAmount > refundable ? t('returns.error.refund', { amount: formatCurrency(refundable) }) : '';
+
+    const handleQuantityChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const value = Math.max(1, parseInt(e.target.value, 10) || 1);
+        setQuantity(value);
+        setRefundAmount(defaultRefund(value));
+    };
+
+    const handleReasonChange = (value: SaleReturn['reason']) => {
+        setReason(value);
+        setRestock(productExists && !writtenOffByDefault(value));
+    };
+
+    const handleSubmit = async () => {
+        if (quantityError || refundError) return;
+        setIsSaving(true);
+        const saved = await returnSale(sale.id, { quantity, reason, restock, refundAmount, notes: notes.trim() || undefined });
+        setIsSaving(false);
+        if (saved) onClose();
+    };
+
+    const backdropVariants: Variants = { visible: { opacity: 1 }, hidden: { opacity: 0 }};
+    const modalVariants: Variants = {
+        hidden: { y: "-50px", opacity: 0 },
+        visible: { y: "0", opacity: 1, transition: { type: 'spring', stiffness: 150 } },
+    };
+
+    const choiceClassName = (active: boolean) => `flex-1 rounded-lg px-3 py-2 text-sm font-semibold border transition-colors disabled:opacity-50 ${
+        active ? 'border-cyan-500 bg-cyan-500/10 text-cyan-700 dark:text-cyan-300' : 'border-gray-300 dark:border-white/10 text-gray-600 dark:text-slate-300'
+    }`;
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4"
+                    initial="hidden" animate="visible" exit="hidden" variants={backdropVariants}
+                    onClick={onClose}
+                >
+                    <motion.div
+                        className="bg-white dark:bg-slate-900/80 backdrop-blur-2xl border border-gray-200 dark:border-white/10 rounded-2xl shadow-xl w-full max-w-md relative p-8 max-h-[90vh] overflow-y-auto"
+                        variants={modalVariants}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 dark:text-slate-400 hover:text-gray-800 dark:hover:text-white"><XIcon /></button>
+                        <h2 className="text-2xl font-bold mb-4 text-gray-900 dark:text-white">{t('returns.title')}</h2>
+                        <p className="text-gray-700 dark:text-slate-300">
+                            {t('sale_modal.product')}: <span className="font-semibold">{sale.productName}</span>
+                            {sale.variantName && <span className="ms-2 text-sm text-gray-500 dark:text-slate-400">{sale.variantName}</span>}
+                        </p>
+                        <p className="text-gray-700 dark:text-slate-300 mb-6">{t('returns.returnable')}: <span className="font-semibold">{remainingQuantity} / {sale.quantity}</span></p>
+
+                        <div className="space-y-4">
+                            <div>
+                                <label htmlFor="return-quantity" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('sale_modal.quantity_label')}</label>
+                                <input
+                                    type="number" id="return-quantity"
+                                    value={quantity}
+                                    onChange={handleQuantityChange}
+                                    className={inputClassName}
+                                    min="1" max={remainingQuantity} step="1"
+                                />
+                                {quantityError && <p className="text-red-500 text-xs mt-1">{quantityError}</p>}
+                            </div>
+                            <div>
+                                <label htmlFor="return-reason" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('returns.reason_label')}</label>
+                                <select id="return-reason" value={reason} onChange={e => handleReasonChange(e.target.value as SaleReturn['reason'])} className={inputClassName}>
+                                    {RETURN_REASONS.map(r => <option key={r} value={r}>{t(`returns.reason.${r}`)}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <span className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('returns.outcome_label')}</span>
+                                <div className="flex gap-2">
+                                    <button type="button" onClick={() => setRestock(true)} disabled={!productExists} className={choiceClassName(restock)}>{t('returns.restock')}</button>
+                                    <button type="button" onClick={() => setRestock(false)} className={choiceClassName(!restock)}>{t('returns.write_off')}</button>
+                                </div>
+                                {!productExists && <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">{t('returns.product_deleted')}</p>}
+                            </div>
+                            <div>
+                                <label htmlFor="return-refund" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('returns.refund_label', { currency })}</label>
+                                <input
+                                    type="number" id="return-refund"
+                                    value={refundAmount}
+                                    onChange={e => setRefundAmount(parseFloat(e.target.value) || 0)}
+                                    className={inputClassName}
+                                    min="0" max={refundable} step="0.01"
+                                />
+                                {refundError && <p className="text-red-500 text-xs mt-1">{refundError}</p>}
+                            </div>
+                            <div>
+                                <label htmlFor="return-notes" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('returns.notes_label')}</label>
+                                <textarea id="return-notes" value={notes} onChange={e => setNotes(e.target.value)} rows={2} className={inputClassName} />
+                            </div>
+                        </div>
+
+                        <div className="flex justify-end pt-6 space-x-3">
+                            <motion.button type="button" onClick={onClose} className="bg-gray-200 dark:bg-white/10 text-gray-800 dark:text-white rounded-lg px-4 py-2 font-semibold" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{t('cancel')}</motion.button>
+                            <motion.button onClick={handleSubmit} disabled={isSaving || !!quantityError || !!refundError} className="text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg px-4 py-2 disabled:opacity-50" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{t('returns.confirm_button')}</motion.button>
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default ReturnModal;
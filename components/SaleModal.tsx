@@ -1,38 +1,77 @@
 import React, { useState, useEffect } from 'react';
-import type { Product } from '../types';
+import type { Discount, DiscountKind, Language, Product, SalePayment, SalePricing } from '../types';
 import { motion, AnimatePresence, Variants } from 'framer-motion';
 import { XIcon } from './Icons';
 import { useAppContext } from '../context/AppContext';
+import { variantLabel } from '../services/variants';
+import CustomerPicker from './CustomerPicker';
+import PaymentInput from './PaymentInput';
+import { cashPayment, fitPayments, paymentsError } from '../services/payments';
+import { priceSale, pricingError } from '../services/promotions';
+import { productTax } from '../services/taxes';
 
 interface SaleModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: (productId: number, quantity: number) => void;
+  onConfirm: (productId: number, quantity: number, variantId?: number, customerId?: number, payments?: SalePayment[], pricing?: SalePricing) => void;
   product: Product | null;
+  initialVariantId?: number;
 }
 
-const SaleModal: React.FC<SaleModalProps> = ({ isOpen, onClose, onConfirm, product }) => {
-    const { t } = useAppContext();
+const localeMap: Record<Language, string> = { fr: 'fr-FR', en: 'en-GB', ar: 'ar-SA-u-nu-latn' };
+
+const inputClassName = "w-full bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-2 text-gray-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+
+const SaleModal: React.FC<SaleModalProps> = ({ isOpen, onClose, onConfirm, product, initialVariantId }) => {
+    const { t, language, currency, formatCurrency, promotions, taxRates } = useAppContext();
     const [quantity, setQuantity] = useState(1);
     const [error, setError] = useState('');
+    const [variantId, setVariantId] = useState<number | undefined>(undefined);
+    const [customerId, setCustomerId] = useState<number | undefined>(undefined);
+    const [payments, setPayments] = useState<SalePayment[]>(cashPayment(0));
+    const [paymentError, setPaymentError] = useState('');
+    const [unitPrice, setUnitPrice] = useState<number | undefined>(undefined);
+    const [discount, setDiscount] = useState<Discount>({ kind: 'percent', value: 0 });
 
     useEffect(() => {
         if (isOpen) {
             setQuantity(1);
             setError('');
+            setCustomerId(undefined);
+            setPayments(cashPayment(0));
+            setPaymentError('');
+            setUnitPrice(undefined);
+            setDiscount({ kind: 'percent', value: 0 });
+            setVariantId(initialVariantId ?? (product?.variants?.find(v => v.stock > 0) || product?.variants?.[0])?.id);
         }
-    }, [isOpen]);
+    }, [isOpen, product, initialVariantId]);
 
     if (!product) return null;
 
+    // A product with variants is sold one variant at a time
+    const variant = product.variants?.find(v => v.id === variantId);
+    const availableStock = variant ? variant.stock : product.stock;
+    // Typing the list or promotional price back is no negotiated price, so the promotion stays on the sale
+    const automaticPrice = priceSale(product, variant, quantity, promotions).unitPrice;
+    const pricing: SalePricing = {
+        unitPrice: unitPrice !== automaticPrice ? unitPrice : undefined,
+        discount: discount.value !== 0 ? discount : undefined,
+    };
+    const price = priceSale(product, variant, quantity, promotions, pricing);
+    const promotion = promotions.find(p => p.id === price.promotionId);
+    const pricingProblem = pricingError(pricing, price.unitPrice * quantity);
+    // What is paid is the gross, whether the prices carry the TVA or it comes on top of them
+    const tax = productTax(product, taxRates, price.total);
+    const total = tax.gross;
+
     const handleQuantityChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const value = parseInt(e.target.value, 10);
         if (isNaN(value) || value < 1) {
             setQuantity(1);
             setError('');
-        } else if (value > product.stock) {
-            setQuantity(product.stock);
-            setError(t('sale_modal.error.not_enough_stock', { stock: product.stock }));
+        } else if (value > availableStock) {
+            setQuantity(availableStock);
+            setError(t('sale_modal.error.not_enough_stock', { stock: availableStock }));
         } else {
             setQuantity(value);
             setError('');
@@ -40,8 +79,15 @@ const SaleModal: React.FC<SaleModalProps> = ({ isOpen, onClose, onConfirm, produ
     };
     
     const handleSubmit = () => {
-        if (quantity > 0 && quantity <= product.stock) {
-            onConfirm(product.id, quantity);
+        if (quantity > 0 && quantity <= availableStock) {
+            if (pricingProblem) return;
+            const salePayments = fitPayments(payments, total);
+            const invalid = paymentsError(salePayments, total, customerId);
+            if (invalid) {
+                setPaymentError(t(`payments.error.${invalid}`));
+                return;
+            }
+            onConfirm(product.id, quantity, variant?.id, customerId, salePayments, pricing);
             onClose();
         } else {
             setError(t('sale_modal.error.invalid_quantity'));
@@ -70,9 +116,24 @@ const SaleModal: React.FC<SaleModalProps> = ({ isOpen, onClose, onConfirm, produ
                         <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 dark:text-slate-400 hover:text-gray-800 dark:hover:text-white"><XIcon /></button>
                         <h2 className="text-2xl font-bold mb-4 text-gray-900 dark:text-white">{t('sale_modal.title')}</h2>
                         <p className="text-gray-700 dark:text-slate-300">{t('sale_modal.product')}: <span className="font-semibold">{product.name}</span></p>
-                        <p className="text-gray-700 dark:text-slate-300 mb-6">{t('sale_modal.available_stock')}: <span className="font-semibold">{product.stock}</span></p>
+                        <p className="text-gray-700 dark:text-slate-300 mb-6">{t('sale_modal.available_stock')}: <span className="font-semibold">{availableStock}</span></p>
 
                         <div className="space-y-4">
+                            {product.variants && product.variants.length > 0 && (
+                                <div>
+                                    <label htmlFor="variant" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('sale_modal.variant_label')}</label>
+                                    <select
+                                        id="variant" name="variant"
+                                        value={variantId ?? ''}
+                                        onChange={e => { setVariantId(Number(e.target.value)); setQuantity(1); setUnitPrice(undefined); setError(''); }}
+                                        className="w-full bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-2 text-gray-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                                    >
+                                        {product.variants.map(v => (
+                                            <option key={v.id} value={v.id} disabled={v.stock === 0}>{variantLabel(v)} ({v.stock})</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
                              <div>
                                 <label htmlFor="quantity" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('sale_modal.quantity_label')}</label>
                                 <input 
@@ -80,10 +141,61 @@ const SaleModal: React.FC<SaleModalProps> = ({ isOpen, onClose, onConfirm, produ
                                     value={quantity}
                                     onChange={handleQuantityChange}
                                     className="w-full bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-2 text-gray-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500" 
-                                    required min="1" max={product.stock} step="1" 
+                                    required min="1" max={availableStock} step="1" 
                                 />
                                 {error && <p className="text-red-500 text-xs mt-1">{error}</p>}
                             </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label htmlFor="unit-price" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('sale_modal.unit_price_label')}</label>
+                                    <input
+                                        type="number" id="unit-price" min="0" step="0.01"
+                                        value={unitPrice ?? automaticPrice}
+                                        onChange={e => setUnitPrice(e.target.value === '' ? undefined : parseFloat(e.target.value))}
+                                        className={inputClassName}
+                                    />
+                                    {price.unitPrice !== price.listPrice && (
+                                        <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">
+                                            <span className="line-through">{formatCurrency(price.listPrice)}</span>
+                                            {promotion && <span className="ms-1 font-semibold text-emerald-600 dark:text-emerald-400">{promotion.name}</span>}
+                                        </p>
+                                    )}
+                                </div>
+                                <div>
+                                    <label htmlFor="line-discount" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('sale_modal.discount_label')}</label>
+                                    <div className="flex gap-2">
+                                        <input
+                                            type="number" id="line-discount" min="0" step="0.01"
+                                            value={discount.value}
+                                            onChange={e => setDiscount({ ...discount, value: parseFloat(e.target.value) || 0 })}
+                                            className={inputClassName}
+                                        />
+                                        <select
+                                            value={discount.kind}
+                                            onChange={e => setDiscount({ ...discount, kind: e.target.value as DiscountKind })}
+                                            className={`${inputClassName} w-20`}
+                                            aria-label={t('sale_modal.discount_kind_label')}
+                                        >
+                                            <option value="percent">%</option>
+                                            <option value="fixed">{currency}</option>
+                                        </select>
+                                    </div>
+                                </div>
+                            </div>
+                            {pricingProblem && <p className="text-red-500 text-xs">{t(`sale_modal.error.${pricingProblem}`)}</p>}
+                            <p className="flex justify-between text-sm font-semibold text-gray-900 dark:text-white">
+                                <span>{t('sale_modal.total')}</span><span>{formatCurrency(total)}</span>
+                            </p>
+                            {tax.taxRate > 0 && (
+                                <p className="flex justify-between text-xs text-gray-500 dark:text-slate-400 -mt-3">
+                                    <span>{t('taxes.included', { rate: tax.taxRate.toLocaleString(localeMap[language]) })}</span><span>{formatCurrency(tax.tax)}</span>
+                                </p>
+                            )}
+                            <CustomerPicker value={customerId} onChange={setCustomerId} />
+                            <div>
+                                <PaymentInput total={total} payments={payments} onChange={p => { setPayments(p); setPaymentError(''); }} />
+                                {paymentError && <p className="text-red-500 text-xs mt-1">{paymentError}</p>}
+                            </div>
                         </div>
 
                         <div className="flex justify-end pt-6 space-x-3">
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence, Variants } from 'framer-motion';
+import { XIcon, OrderIcon, UndoIcon } from './Icons';
+import type { Language } from '../types';
+import { useAppContext } from '../context/AppContext';
+import { orderLines, orderSummary } from '../services/saleOrders';
+import { returnedQuantity } from '../services/returns';
+import ConfirmationModal from './ConfirmationModal';
+
+interface SaleOrderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  orderId: number | null;
+}
+
+const localeMap: Record<Language, string> = {
+    fr: 'fr-FR',
+    en: 'en-GB',
+    ar: 'ar-SA-u-nu-latn',
+};
+
+// The lines of one order, each of which can be cancelled on its own, or the whole order at once.
+// Like single sales, lines with returns can only be returned further, and so can an order holding any.
+const SaleOrderModal: React.FC<SaleOrderModalProps> = ({ isOpen, onClose, orderId }) => {
+    const { t, language, formatCurrency, sales, saleReturns, customers, cancelSale, cancelSaleOrder } = useAppContext();
+    const [lineToCancel, setLineToCancel] = useState<number | null>(null);
+    const [isCancelOrderOpen, setIsCancelOrderOpen] = useState(false);
+    const locale = localeMap[language];
+
+    const backdropVariants: Variants = {
+        visible: { opacity: 1 },
+        hidden: { opacity: 0 },
+    };
+
+    const modalVariants: Variants = {
+        hidden: { y: "50px", opacity: 0, scale: 0.95 },
+        visible: { y: "0", opacity: 1, scale: 1, transition: { type: 'spring', stiffness: 150, damping: 20 } },
+    };
+
+    const lines = orderId !== null ? orderLines(sales, orderId) : [];
+    const summary = orderSummary(lines);
+    const customer = customers.find(c => c.id === lines[0]?.customerId);
+    const hasReturns = lines.some(line => returnedQuantity(line.id, saleReturns) > 0);
+
+
+    return (
+        <>
+            <AnimatePresence>
+                {isOpen && lines.length > 0 && (
+                    <motion.div
+                        className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4"
+                        initial="hidden"
+                        animate="visible"
+                        exit="hidden"
+                        variants={backdropVariants}
+                        onClick={onClose}
+                    >
+                        <motion.div
+                            className="bg-white dark:bg-slate-900/80 backdrop-blur-2xl border border-gray-200 dark:border-white/10 rounded-2xl shadow-xl w-full max-w-2xl relative p-6 max-h-[90vh] overflow-y-auto"
+                            variants={modalVariants}
+                            onClick={(e) => e.stopPropagation()}
+                        >
+                            <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-800 dark:text-slate-400 dark:hover:text-white">
+                                <XIcon />
+                            </button>
+                            <div className="flex items-start space-x-4">
+                                <div className="w-14 h-14 bg-gray-200 dark:bg-slate-700/50 rounded-full flex items-center justify-center flex-shrink-0">
+                                    <OrderIcon className="w-7 h-7 text-gray-400" />
+                                </div>
+                                <div className="flex-1">
+                                    <h2 className="text-2xl font-bold text-gray-900 dark:text-white">{t('sales.order.title', { id: orderId ?? '' })}</h2>
+                                    <p className="text-sm text-gray-600 dark:text-slate-400">
+                                        {new Date(lines[0].createdAt).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' })}
+                                        {customer && ` · ${customer.name}`}
+                                    </p>
+                                </div>
+                            </div>
+
+                            <table className="mt-6 w-full text-sm text-left rtl:text-right text-gray-600 dark:text-slate-400">
+                                <thead className="text-xs text-gray-700 uppercase dark:text-slate-300">
+                                    <tr>
+                                        <th className="py-2 pe-2">{t('sales.table.product')}</th>
+                                        <th className="py-2 pe-2">{t('sales.table.quantity')}</th>
+                                        <th className="py-2 pe-2">{t('sales.table.unit_price')}</th>
+                                        <th className="py-2 pe-2">{t('sales.order.discount_share')}</th>
+                                        <th className="py-2 pe-2">{t('sales.table.total_price')}</th>
+                                        <th className="py-2"></th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {lines.map(line => (
+                                        <tr key={line.id} className="border-t border-gray-200 dark:border-white/10">
+                                            <td className="py-2 pe-2 text-gray-900 dark:text-white">
+                                                {line.productName}
+                                                {line.variantName && <span className="ms-2 text-xs text-gray-500 dark:text-slate-400">{line.variantName}</span>}
+                                            </td>
+                                            <td className="py-2 pe-2">{line.quantity}</td>
+                                            <td className="py-2 pe-2 whitespace-nowrap">{formatCurrency(line.sellPrice)}</td>
+                                            <td className="py-2 pe-2 whitespace-nowrap">{line.orderDiscount ? `- ${formatCurrency(line.orderDiscount)}` : '—'}</td>
+                                            <td className="py-2 pe-2 whitespace-nowrap font-semibold">{formatCurrency(line.totalPrice)}</td>
+                                            <td className="py-2 text-end">
+                                                {returnedQuantity(line.id, saleReturns) === 0 && (
+                                                    <motion.button
+                                                        onClick={() => setLineToCancel(line.id)}
+                                                        className="p-1.5 rounded-md transition-colors bg-red-500/10 hover:bg-red-500/20 text-red-500"
+                                                        title={t('sales.order.cancel_line')}
+                                                        whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}
+                                                    >
+                                                        <UndoIcon className="w-4 h-4" />
+                                                    </motion.button>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+
+                            <dl className="mt-4 ms-auto max-w-xs space-y-1 text-sm">
+                                <div className="flex justify-between text-gray-600 dark:text-slate-400">
+                                    <dt>{t('checkout.subtotal')}</dt><dd>{formatCurrency(summary.subtotal)}</dd>
+                                </div>
+                                <div className="flex justify-between text-gray-600 dark:text-slate-400">
+                                    <dt>{t('checkout.discount')}</dt><dd>- {formatCurrency(summary.discount)}</dd>
+                                </div>
+                                <div className="flex justify-between text-lg font-bold text-gray-900 dark:text-white">
+                                    <dt>{t('checkout.total')}</dt><dd>{formatCurrency(summary.total)}</dd>
+                                </div>
+                            </dl>
+
+                            <div className="flex justify-end pt-6">
+                                <motion.button
+                                    onClick={() => setIsCancelOrderOpen(true)}
+                                    disabled={hasReturns}
+                                    title={hasReturns ? t('sales.order.has_returns') : undefined}
+                                    className="flex items-center bg-red-500/10 hover:bg-red-500/20 text-red-500 rounded-lg px-4 py-2 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                                    whileHover={{ scale: hasReturns ? 1 : 1.05 }} whileTap={{ scale: hasReturns ? 1 : 0.95 }}
+                                >
+                                    <UndoIcon className="w-5 h-5 me-2" />{t('sales.order.cancel_order')}
+                                </motion.button>
+                            </div>
+                        </motion.div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+            <ConfirmationModal
+                isOpen={lineToCancel !== null}
+                onClose={() => setLineToCancel(null)}
+                onConfirm={async () => { if (lineToCancel !== null) await cancelSale(lineToCancel); }}
+                title={t('sales.confirm_cancel_title')}
+                message={t('sales.order.confirm_cancel_line')}
+            />
+            <ConfirmationModal
+                isOpen={isCancelOrderOpen}
+                onClose={() => setIsCancelOrderOpen(false)}
+                onConfirm={async () => {
+                    if (orderId === null) return;
+                    await cancelSaleOrder(orderId);
+                    onClose();
+                }}
+                title={t('sales.order.cancel_order')}
+                message={t('sales.order.confirm_cancel_order', { count: lines.length })}
+            />
+        </>
+    );
+};
+
+export default SaleOrderModal;
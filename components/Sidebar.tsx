@@ -1,7 +1,10 @@
 import React from 'react';
 import { NavLink, useLocation } from 'react-router-dom';
-import { DashboardIcon, ProductsIcon, SettingsIcon, ShoppingCartIcon, ChezHugoLogo, DeliveryIcon } from './Icons';
+import { DashboardIcon, ProductsIcon, SettingsIcon, ShoppingCartIcon, ChezHugoLogo, DeliveryIcon, PurchasesIcon, SuppliersIcon, CustomersIcon, InventoryCountIcon, LocationsIcon, PromotionIcon, LandedCostIcon, ExpiryIcon } from './Icons';
 import { useAppContext } from '../context/AppContext';
+import { openDeliveries } from '../services/deliveries';
+import { isActivePromotion } from '../services/promotions';
+import { expiryStatus } from '../services/stockLots';
 import { motion } from 'framer-motion';
 
 // Reusable NavItem for both sidebar and bottom nav
@@ -54,14 +57,22 @@ const NavItem: React.FC<{ to: string; icon: React.ElementType; label: string; co
 
 
 const Sidebar: React.FC = () => {
-  const { t, language, products, sales } = useAppContext();
+  const { t, language, products, sales, purchaseOrders, suppliers, customers, inventoryCounts, stockTransfers, deliveries, promotions } = useAppContext();
   const isRtl = language === 'ar';
   
   const navLinks = [
     { to: "/dashboard", icon: DashboardIcon, label: t('sidebar.dashboard') },
-    { to: "/products", icon: ProductsIcon, label: t('sidebar.products'), count: products.filter(p => p.status !== 'en livraison').length },
-    { to: "/delivery", icon: DeliveryIcon, label: t('sidebar.delivery'), count: products.filter(p => p.status === 'en livraison').length },
+    { to: "/products", icon: ProductsIcon, label: t('sidebar.products'), count: products.length },
+    { to: "/delivery", icon: DeliveryIcon, label: t('sidebar.delivery'), count: openDeliveries(deliveries).length },
     { to: "/sales", icon: ShoppingCartIcon, label: t('sidebar.sales'), count: sales.length },
+    { to: "/customers", icon: CustomersIcon, label: t('sidebar.customers'), count: customers.length, desktopOnly: true },
+    { to: "/purchases", icon: PurchasesIcon, label: t('sidebar.purchases'), count: purchaseOrders.filter(o => o.status !== 'received').length, desktopOnly: true },
+    { to: "/suppliers", icon: SuppliersIcon, label: t('sidebar.suppliers'), count: suppliers.length, desktopOnly: true },
+    { to: "/counts", icon: InventoryCountIcon, label: t('sidebar.inventory_counts'), count: inventoryCounts.filter(c => c.status === 'in_progress').length, desktopOnly: true },
+    { to: "/locations", icon: LocationsIcon, label: t('sidebar.locations'), count: stockTransfers.filter(tr => tr.status === 'in_transit').length, desktopOnly: true },
+    { to: "/promotions", icon: PromotionIcon, label: t('sidebar.promotions'), count: promotions.filter(p => isActivePromotion(p)).length, desktopOnly: true },
+    { to: "/landed-costs", icon: LandedCostIcon, label: t('sidebar.landed_costs'), desktopOnly: true },
+    { to: "/expiry", icon: ExpiryIcon, label: t('sidebar.expiry'), count: products.flatMap(p => p.lots || []).filter(l => expiryStatus(l) !== 'ok').length, desktopOnly: true },
     { to: "/settings", icon: SettingsIcon, label: t('sidebar.settings') },
   ];
   
@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react';
+import type { StockLocation, StockLocationFormData, StockLocationKind } from '../types';
+import { motion, AnimatePresence, Variants } from 'framer-motion';
+import { XIcon } from './Icons';
+import { useAppContext } from '../context/AppContext';
+
+interface StockLocationFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (locationData: StockLocationFormData) => Promise<void>;
+  location: StockLocation | null;
+}
+
+const kinds: StockLocationKind[] = ['warehouse', 'shop', 'courier'];
+
+const inputClassName = "w-full bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-2 text-gray-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+
+const StockLocationForm: React.FC<StockLocationFormProps> = ({ isOpen, onClose, onSave, location }) => {
+    const { t } = useAppContext();
+    const [name, setName] = useState('');
+    const [kind, setKind] = useState<StockLocationKind>('warehouse');
+    const [notes, setNotes] = useState('');
+    const [error, setError] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setName(location?.name || '');
+            setKind(location?.kind || 'warehouse');
+            setNotes(location?.notes || '');
+            setError('');
+            setIsSaving(false);
+        }
+    }, [isOpen, location]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) {
+            setError(t('locations.form.error.name_required'));
+            return;
+        }
+        setIsSaving(true);
+        await onSave({ name: name.trim(), kind, notes: notes.trim() });
+        setIsSaving(false);
+    };
+
+    const backdropVariants: Variants = { visible: { opacity: 1 }, hidden: { opacity: 0 }};
+    const modalVariants: Variants = {
+        hidden: { y: "-50px", opacity: 0 },
+        visible: { y: "0", opacity: 1, transition: { type: 'spring', stiffness: 150 } },
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4"
+                    initial="hidden" animate="visible" exit="hidden" variants={backdropVariants}
+                    onClick={onClose}
+                >
+                    <motion.div
+                        className="bg-white dark:bg-slate-900/80 backdrop-blur-2xl border border-gray-200 dark:border-white/10 rounded-2xl shadow-xl w-full max-w-md relative p-8"
+                        variants={modalVariants}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 dark:text-slate-400 hover:text-gray-800 dark:hover:text-white"><XIcon /></button>
+                        <h2 className="text-2xl font-bold mb-6 text-gray-900 dark:text-white">{location ? t('locations.form.title_edit') : t('locations.form.title_new')}</h2>
+
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <div>
+                                <label htmlFor="location-name" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('locations.form.name_label')}</label>
+                                <input type="text" id="location-name" value={name} onChange={e => setName(e.target.value)} className={inputClassName} />
+                            </div>
+                            <div>
+                                <label htmlFor="location-kind" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('locations.form.kind_label')}</label>
+                                <select id="location-kind" value={kind} onChange={e => setKind(e.target.value as StockLocationKind)} className={inputClassName}>
+                                    {kinds.map(k => <option key={k} value={k}>{t(`locations.kind.${k}`)}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="location-notes" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('locations.form.notes_label')}</label>
+                                <textarea id="location-notes" value={notes} onChange={e => setNotes(e.target.value)} rows={3} className={inputClassName} />
+                            </div>
+                            {error && <p className="text-red-500 text-sm">{error}</p>}
+
+                            <div className="flex justify-end pt-2 space-x-3">
+                                <motion.button type="button" onClick={onClose} className="bg-gray-200 dark:bg-white/10 text-gray-800 dark:text-white rounded-lg px-4 py-2 font-semibold" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{t('cancel')}</motion.button>
+                                <motion.button type="submit" disabled={isSaving} className="text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg px-4 py-2 disabled:opacity-50" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{t('save')}</motion.button>
+                            </div>
+                        </form>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default StockLocationForm;
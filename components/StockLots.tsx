@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import type { Product, Language, ExpiryStatus } from '../types';
+import { useAppContext } from '../context/AppContext';
+import { lotsOf, expiryStatus, daysUntilExpiry } from '../services/stockLots';
+import { variantLabel } from '../services/variants';
+import { AddIcon, DeleteIcon } from './Icons';
+
+const localeMap: Record<Language, string> = {
+    fr: 'fr-FR',
+    en: 'en-GB',
+    ar: 'ar-SA-u-nu-latn',
+};
+
+const expiryStyles: Record<ExpiryStatus, string> = {
+    expired: 'bg-red-100 text-red-800 dark:bg-red-500/20 dark:text-red-300',
+    expiring: 'bg-amber-100 text-amber-800 dark:bg-amber-500/20 dark:text-amber-300',
+    ok: 'bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300',
+};
+
+const inputClassName = "w-full bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-2 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+
+// A product's lots in the order they are sold from, and a form to put units already in stock in a new lot.
+const StockLots: React.FC<{ product: Product }> = ({ product }) => {
+    const { t, language, products, addStockLot, removeStockLot } = useAppContext();
+    const locale = localeMap[language];
+    // The product shown may be a copy taken when the modal was opened
+    const current = products.find(p => p.id === product.id) || product;
+    const variants = current.variants || [];
+    const [variantId, setVariantId] = useState<number | undefined>(undefined);
+    const [lotNumber, setLotNumber] = useState('');
+    const [expiresAt, setExpiresAt] = useState('');
+    const [quantity, setQuantity] = useState(1);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const selectedVariantId = variants.length > 0 ? variantId ?? variants[0].id : undefined;
+    const lots = variants.length > 0 ? variants.flatMap(v => lotsOf(current, v.id)) : lotsOf(current);
+    const untracked = current.stock - lots.reduce((sum, l) => sum + l.quantity, 0);
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        const added = await addStockLot({ productId: current.id, variantId: selectedVariantId, lotNumber, expiresAt: expiresAt || undefined, quantity });
+        setIsSaving(false);
+        if (added) {
+            setLotNumber('');
+            setExpiresAt('');
+            setQuantity(1);
+        }
+    };
+
+    return (
+        <div className="mt-6">
+            <h3 className="text-sm font-bold text-gray-500 dark:text-slate-400 mb-2">{t('stock_lots.title')}</h3>
+            {lots.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-slate-400">{t('stock_lots.empty')}</p>
+            ) : (
+                <table className="w-full text-sm text-left rtl:text-right text-gray-600 dark:text-slate-400">
+                    <thead className="text-xs text-gray-700 uppercase dark:text-slate-300">
+                        <tr>
+                            <th className="py-2 pe-2">{t('stock_lots.table.lot')}</th>
+                            <th className="py-2 pe-2">{t('stock_lots.table.expires_at')}</th>
+                            <th className="py-2 pe-2 text-end">{t('stock_lots.table.quantity')}</th>
+                            <th className="py-2"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {lots.map(lot => {
+                            const status = expiryStatus(lot);
+                            const variant = variants.find(v => v.id === lot.variantId);
+                            return (
+                                <tr key={lot.id} className="border-t border-gray-200 dark:border-white/10">
+                                    <td className="py-2 pe-2">
+                                        <span className="text-gray-900 dark:text-white">{lot.lotNumber || '-'}</span>
+                                        {variant && <span className="block text-xs text-gray-500 dark:text-slate-400">{variantLabel(variant)}</span>}
+                                    </td>
+                                    <td className="py-2 pe-2 whitespace-nowrap">
+                                        {lot.expiresAt ? (
+                                            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${expiryStyles[status]}`}>
+                                                {new Date(`${lot.expiresAt}T00:00:00`).toLocaleDateString(locale, { dateStyle: 'medium' })}
+                                                {status !== 'ok' && ` · ${t(`expiry.days.${status}`, { days: Math.abs(daysUntilExpiry(lot)!) })}`}
+                                            </span>
+                                        ) : t('stock_lots.no_expiry')}
+                                    </td>
+                                    <td className="py-2 pe-2 text-end">{lot.quantity}</td>
+                                    <td className="py-2 text-end">
+                                        <button onClick={() => removeStockLot(lot.id)} className="p-1 text-red-500 hover:bg-red-500/10 rounded-md" title={t('stock_lots.remove')}>
+                                            <DeleteIcon className="w-4 h-4" />
+                                        </button>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            )}
+            {untracked > 0 && lots.length > 0 && <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">{t('stock_lots.untracked', { count: untracked })}</p>}
+
+            {current.stock > 0 && (
+                <form onSubmit={handleAdd} className="mt-3 grid grid-cols-2 sm:grid-cols-4 gap-2 items-end">
+                    {variants.length > 0 && (
+                        <select value={selectedVariantId} onChange={e => setVariantId(Number(e.target.value))} className={`${inputClassName} col-span-2 sm:col-span-4`} aria-label={t('stock_lots.variant')}>
+                            {variants.map(v => <option key={v.id} value={v.id}>{variantLabel(v)}</option>)}
+                        </select>
+                    )}
+                    <input type="text" value={lotNumber} onChange={e => setLotNumber(e.target.value)} placeholder={t('stock_lots.lot_number')} className={inputClassName} />
+                    <input type="date" value={expiresAt} onChange={e => setExpiresAt(e.target.value)} title={t('stock_lots.table.expires_at')} className={inputClassName} />
+                    <input type="number" min="1" step="1" value={quantity} onChange={e => setQuantity(parseInt(e.target.value, 10) || 0)} title={t('stock_lots.table.quantity')} className={inputClassName} />
+                    <button type="submit" disabled={isSaving || (!lotNumber.trim() && !expiresAt)} className="flex items-center justify-center text-sm text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg px-3 py-2 disabled:opacity-50">
+                        <AddIcon className="w-4 h-4 me-1" />{t('stock_lots.add')}
+                    </button>
+                </form>
+            )}
+        </div>
+    );
+};
+
+export default StockLots;
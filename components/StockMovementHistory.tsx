@@ -0,0 +1,76 @@
+import React from 'react';
+import type { Product, Language } from '../types';
+import { useAppContext } from '../context/AppContext';
+import { isCancellation, stockLedger } from '../services/stockMovements';
+
+const localeMap: Record<Language, string> = {
+    fr: 'fr-FR',
+    en: 'en-GB',
+    ar: 'ar-SA-u-nu-latn',
+};
+
+const signed = (quantity: number) => quantity > 0 ? `+${quantity}` : `${quantity}`;
+
+// Every movement of a product's stock, newest first, with the stock each one left behind
+const StockMovementHistory: React.FC<{ product: Product }> = ({ product }) => {
+    const { t, language, products, stockMovements } = useAppContext();
+    const locale = localeMap[language];
+    // The product shown may be a copy taken when the modal was opened
+    const current = products.find(p => p.id === product.id) || product;
+    const { entries, unrecorded } = stockLedger(current, stockMovements);
+
+    return (
+        <div className="mt-6">
+            <h3 className="text-sm font-bold text-gray-500 dark:text-slate-400 mb-2">{t('stock_movements.title')}</h3>
+            {entries.length === 0 && unrecorded === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-slate-400">{t('stock_movements.empty')}</p>
+            ) : (
+                <table className="w-full text-sm text-left rtl:text-right text-gray-600 dark:text-slate-400">
+                    <thead className="text-xs text-gray-700 uppercase dark:text-slate-300">
+                        <tr>
+                            <th className="py-2 pe-2">{t('stock_movements.table.date')}</th>
+                            <th className="py-2 pe-2">{t('stock_movements.table.reason')}</th>
+                            <th className="py-2 pe-2 text-end">{t('stock_movements.table.quantity')}</th>
+                            <th className="py-2 text-end">{t('stock_movements.table.balance')}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {[...entries].reverse().map(({ movement, balance }) => (
+                            <tr key={movement.id} className="border-t border-gray-200 dark:border-white/10 align-top">
+                                <td className="py-2 pe-2 whitespace-nowrap">{new Date(movement.createdAt).toLocaleString(locale, { dateStyle: 'short', timeStyle: 'short' })}</td>
+                                <td className="py-2 pe-2">
+                                    <span className="text-gray-900 dark:text-white">{t(`stock_movements.reason.${movement.reason}`)}</span>
+                                    {movement.referenceId !== undefined && <span className="ms-1 text-xs text-gray-500 dark:text-slate-400">#{movement.referenceId}</span>}
+                                    {movement.variantName && <span className="block text-xs text-gray-500 dark:text-slate-400">{movement.variantName}</span>}
+                                    {movement.notes ? (
+                                        <span className="block text-xs text-gray-500 dark:text-slate-400">{movement.notes}</span>
+                                    ) : isCancellation(movement) && (
+                                        <span className="block text-xs text-gray-500 dark:text-slate-400">{t(`stock_movements.note.${movement.reason}_cancelled`)}</span>
+                                    )}
+                                </td>
+                                <td className={`py-2 pe-2 text-end font-semibold ${movement.quantity > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-500'}`}>{signed(movement.quantity)}</td>
+                                <td className="py-2 text-end">{balance}</td>
+                            </tr>
+                        ))}
+                        {unrecorded !== 0 && (
+                            <tr className="border-t border-gray-200 dark:border-white/10">
+                                <td className="py-2 pe-2"></td>
+                                <td className="py-2 pe-2 text-amber-600 dark:text-amber-400">{t('stock_movements.unrecorded')}</td>
+                                <td className="py-2 pe-2 text-end font-semibold">{signed(unrecorded)}</td>
+                                <td className="py-2 text-end">{unrecorded}</td>
+                            </tr>
+                        )}
+                    </tbody>
+                    <tfoot>
+                        <tr className="border-t-2 border-gray-300 dark:border-white/20 font-bold text-gray-900 dark:text-white">
+                            <td className="py-2 pe-2" colSpan={3}>{t('stock_movements.current_stock')}</td>
+                            <td className="py-2 text-end">{current.stock}</td>
+                        </tr>
+                    </tfoot>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default StockMovementHistory;
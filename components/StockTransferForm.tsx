@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import type { Product, StockTransferFormData } from '../types';
+import { motion, AnimatePresence, Variants } from 'framer-motion';
+import { XIcon } from './Icons';
+import { useAppContext } from '../context/AppContext';
+import { availableAt } from '../services/stockLocations';
+import { variantLabel } from '../services/variants';
+
+interface StockTransferFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSend: (transferData: StockTransferFormData) => Promise<void>;
+  // Preselects the product, e.g. from its menu on the Products page
+  product?: Product | null;
+  toLocationId?: number;
+}
+
+const inputClassName = "w-full bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-2 text-gray-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+
+// Locations are picked by id; '' stands for the main shop
+const toLocationId = (value: string) => value === '' ? undefined : Number(value);
+
+// Sends units of a product from one location to another, showing how many the origin can spare
+const StockTransferForm: React.FC<StockTransferFormProps> = ({ isOpen, onClose, onSend, product, toLocationId: presetTo }) => {
+    const { t, products, stockLocations, stockLevels, stockTransfers } = useAppContext();
+    const [productId, setProductId] = useState('');
+    const [variantId, setVariantId] = useState('');
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+    const [quantity, setQuantity] = useState('1');
+    const [notes, setNotes] = useState('');
+    const [error, setError] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setProductId(product ? String(product.id) : '');
+            setVariantId('');
+            setFrom('');
+            setTo(presetTo !== undefined ? String(presetTo) : stockLocations[0] ? String(stockLocations[0].id) : '');
+            setQuantity('1');
+            setNotes('');
+            setError('');
+            setIsSaving(false);
+        }
+    }, [isOpen, product, presetTo, stockLocations]);
+
+    const selected = products.find(p => p.id === Number(productId));
+    const hasVariants = !!selected?.variants?.length;
+    const available = selected && (!hasVariants || variantId)
+        ? availableAt(selected, hasVariants ? Number(variantId) : undefined, toLocationId(from), stockLevels, stockTransfers)
+        : undefined;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const units = parseInt(quantity, 10);
+        if (!selected || (hasVariants && !variantId)) {
+            setError(t('locations.transfer.error.product_required'));
+            return;
+        }
+        if (from === to) {
+            setError(t('locations.transfer.error.same_location'));
+            return;
+        }
+        if (isNaN(units) || units < 1) {
+            setError(t('locations.transfer.error.invalid_quantity'));
+            return;
+        }
+        if (available !== undefined && units > available) {
+            setError(t('locations.transfer.error.not_enough', { count: available }));
+            return;
+        }
+        setIsSaving(true);
+        await onSend({
+            productId: selected.id,
+            variantId: hasVariants ? Number(variantId) : undefined,
+            quantity: units,
+            fromLocationId: toLocationId(from),
+            toLocationId: toLocationId(to),
+            notes: notes.trim() || undefined,
+        });
+        setIsSaving(false);
+    };
+
+    const locationOptions = (
+        <>
+            <option value="">{t('locations.main_shop')}</option>
+            {stockLocations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+        </>
+    );
+
+    const backdropVariants: Variants = { visible: { opacity: 1 }, hidden: { opacity: 0 }};
+    const modalVariants: Variants = {
+        hidden: { y: "-50px", opacity: 0 },
+        visible: { y: "0", opacity: 1, transition: { type: 'spring', stiffness: 150 } },
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4"
+                    initial="hidden" animate="visible" exit="hidden" variants={backdropVariants}
+                    onClick={onClose}
+                >
+                    <motion.div
+                        className="bg-white dark:bg-slate-900/80 backdrop-blur-2xl border border-gray-200 dark:border-white/10 rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto relative p-8"
+                        variants={modalVariants}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 dark:text-slate-400 hover:text-gray-800 dark:hover:text-white"><XIcon /></button>
+                        <h2 className="text-2xl font-bold mb-6 text-gray-900 dark:text-white">{t('locations.transfer.title')}</h2>
+
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <div>
+                                <label htmlFor="transfer-product" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('locations.transfer.product_label')}</label>
+                                <select id="transfer-product" value={productId} onChange={e => { setProductId(e.target.value); setVariantId(''); }} disabled={!!product} className={inputClassName}>
+                                    <option value="">{t('locations.transfer.select_product')}</option>
+                                    {products.filter(p => p.stock > 0 || p.id === product?.id).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                </select>
+                            </div>
+                            {hasVariants && (
+                                <div>
+                                    <label htmlFor="transfer-variant" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('locations.transfer.variant_label')}</label>
+                                    <select id="transfer-variant" value={variantId} onChange={e => setVariantId(e.target.value)} className={inputClassName}>
+                                        <option value="">{t('locations.transfer.select_variant')}</option>
+                                        {selected!.variants!.map(v => <option key={v.id} value={v.id}>{variantLabel(v)}</option>)}
+                                    </select>
+                                </div>
+                            )}
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <div>
+                                    <label htmlFor="transfer-from" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('locations.transfer.from_label')}</label>
+                                    <select id="transfer-from" value={from} onChange={e => setFrom(e.target.value)} className={inputClassName}>{locationOptions}</select>
+                                </div>
+                                <div>
+                                    <label htmlFor="transfer-to" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('locations.transfer.to_label')}</label>
+                                    <select id="transfer-to" value={to} onChange={e => setTo(e.target.value)} className={inputClassName}>{locationOptions}</select>
+                                </div>
+                            </div>
+                            <div>
+                                <label htmlFor="transfer-quantity" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('locations.transfer.quantity_label')}</label>
+                                <input type="number" id="transfer-quantity" min={1} value={quantity} onChange={e => setQuantity(e.target.value)} className={inputClassName} />
+                                {available !== undefined && <p className="mt-1 text-xs text-gray-500 dark:text-slate-400">{t('locations.transfer.available', { count: available })}</p>}
+                            </div>
+                            <div>
+                                <label htmlFor="transfer-notes" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('locations.transfer.notes_label')}</label>
+                                <input type="text" id="transfer-notes" value={notes} onChange={e => setNotes(e.target.value)} className={inputClassName} />
+                            </div>
+                            {error && <p className="text-red-500 text-sm">{error}</p>}
+
+                            <div className="flex justify-end pt-2 space-x-3">
+                                <motion.button type="button" onClick={onClose} className="bg-gray-200 dark:bg-white/10 text-gray-800 dark:text-white rounded-lg px-4 py-2 font-semibold" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{t('cancel')}</motion.button>
+                                <motion.button type="submit" disabled={isSaving} className="text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg px-4 py-2 disabled:opacity-50" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{t('locations.transfer.send_button')}</motion.button>
+                            </div>
+                        </form>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default StockTransferForm;
@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import type { Supplier, SupplierFormData } from '../types';
+import { motion, AnimatePresence, Variants } from 'framer-motion';
+import { XIcon } from './Icons';
+import { useAppContext } from '../context/AppContext';
+
+interface SupplierFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (supplierData: SupplierFormData) => Promise<void>;
+  supplier: Supplier | null;
+}
+
+// Text fields stay strings while editing; an emptied field is saved as '' so the backend clears it
+type FieldState = Record<'name' | 'contactName' | 'phone' | 'email' | 'address' | 'leadTimeDays' | 'paymentTerms' | 'notes', string>;
+
+const inputClassName = "w-full bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-2 text-gray-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+
+const toFields = (supplier: Supplier | null): FieldState => ({
+    name: supplier?.name || '',
+    contactName: supplier?.contactName || '',
+    phone: supplier?.phone || '',
+    email: supplier?.email || '',
+    address: supplier?.address || '',
+    leadTimeDays: supplier?.leadTimeDays !== undefined ? String(supplier.leadTimeDays) : '',
+    paymentTerms: supplier?.paymentTerms || '',
+    notes: supplier?.notes || '',
+});
+
+const SupplierForm: React.FC<SupplierFormProps> = ({ isOpen, onClose, onSave, supplier }) => {
+    const { t } = useAppContext();
+    const [fields, setFields] = useState<FieldState>(toFields(null));
+    const [error, setError] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setFields(toFields(supplier));
+            setError('');
+            setIsSaving(false);
+        }
+    }, [isOpen, supplier]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+        setFields(prev => ({ ...prev, [e.target.name]: e.target.value }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!fields.name.trim()) {
+            setError(t('suppliers.form.error.name_required'));
+            return;
+        }
+        const leadTimeDays = fields.leadTimeDays.trim() === '' ? undefined : parseInt(fields.leadTimeDays, 10);
+        if (leadTimeDays !== undefined && (isNaN(leadTimeDays) || leadTimeDays < 0)) {
+            setError(t('suppliers.form.error.invalid_lead_time'));
+            return;
+        }
+
+        setIsSaving(true);
+        await onSave({
+            name: fields.name.trim(),
+            contactName: fields.contactName.trim(),
+            phone: fields.phone.trim(),
+            email: fields.email.trim(),
+            address: fields.address.trim(),
+            leadTimeDays,
+            paymentTerms: fields.paymentTerms.trim(),
+            notes: fields.notes.trim(),
+        });
+        setIsSaving(false);
+    };
+
+    const field = (name: keyof FieldState, type = 'text') => (
+        <div>
+            <label htmlFor={`supplier-${name}`} className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t(`suppliers.form.${name}_label`)}</label>
+            <input type={type} id={`supplier-${name}`} name={name} value={fields[name]} onChange={handleChange} className={inputClassName} min={type === 'number' ? 0 : undefined} />
+        </div>
+    );
+
+    const backdropVariants: Variants = { visible: { opacity: 1 }, hidden: { opacity: 0 }};
+    const modalVariants: Variants = {
+        hidden: { y: "-50px", opacity: 0 },
+        visible: { y: "0", opacity: 1, transition: { type: 'spring', stiffness: 150 } },
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4"
+                    initial="hidden" animate="visible" exit="hidden" variants={backdropVariants}
+                    onClick={onClose}
+                >
+                    <motion.div
+                        className="bg-white dark:bg-slate-900/80 backdrop-blur-2xl border border-gray-200 dark:border-white/10 rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto relative p-8"
+                        variants={modalVariants}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 dark:text-slate-400 hover:text-gray-800 dark:hover:text-white"><XIcon /></button>
+                        <h2 className="text-2xl font-bold mb-6 text-gray-900 dark:text-white">{supplier ? t('suppliers.form.title_edit') : t('suppliers.form.title_new')}</h2>
+
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                {field('name')}
+                                {field('contactName')}
+                                {field('phone', 'tel')}
+                                {field('email', 'email')}
+                                {field('leadTimeDays', 'number')}
+                                {field('paymentTerms')}
+                            </div>
+                            {field('address')}
+                            <div>
+                                <label htmlFor="supplier-notes" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('suppliers.form.notes_label')}</label>
+                                <textarea id="supplier-notes" name="notes" value={fields.notes} onChange={handleChange} rows={3} className={inputClassName} />
+                            </div>
+                            {supplier && fields.name.trim() !== supplier.name && <p className="text-xs text-gray-500 dark:text-slate-400">{t('suppliers.form.rename_hint')}</p>}
+                            {error && <p className="text-red-500 text-sm">{error}</p>}
+
+                            <div className="flex justify-end pt-2 space-x-3">
+                                <motion.button type="button" onClick={onClose} className="bg-gray-200 dark:bg-white/10 text-gray-800 dark:text-white rounded-lg px-4 py-2 font-semibold" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{t('cancel')}</motion.button>
+                                <motion.button type="submit" disabled={isSaving} className="text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg px-4 py-2 disabled:opacity-50" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>{t('save')}</motion.button>
+                            </div>
+                        </form>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default SupplierForm;
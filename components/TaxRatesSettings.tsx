@@ -0,0 +1,72 @@
+import React, { useState, useMemo } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { taxRateError } from '../services/taxes';
+
+const inputClassName = "w-28 bg-slate-100 dark:bg-slate-900/50 border border-slate-300 dark:border-slate-700 rounded-lg p-2 text-slate-900 dark:text-white focus:ring-brand focus:border-brand";
+
+// The TVA rate of each category, saved when its field is left. Clearing a field takes the category's rate away.
+const TaxRatesSettings: React.FC = () => {
+    const { t, products, taxRates, saveTaxRate, deleteTaxRate } = useAppContext();
+    const [drafts, setDrafts] = useState<Record<string, string>>({});
+    const [errors, setErrors] = useState<Record<string, boolean>>({});
+
+    const categories = useMemo(() => [...new Set([
+        ...products.map(p => p.category),
+        ...taxRates.map(r => r.category),
+    ].filter(Boolean))].sort(), [products, taxRates]);
+
+    const saved = (category: string) => taxRates.find(r => r.category === category);
+    const valueOf = (category: string) => drafts[category] ?? (saved(category) !== undefined ? String(saved(category)!.rate) : '');
+
+    const handleBlur = async (category: string) => {
+        const draft = drafts[category];
+        if (draft === undefined) return;
+        const current = saved(category);
+        const rate = parseFloat(draft);
+        if (draft.trim() === '') {
+            if (current) await deleteTaxRate(current.id);
+        } else if (taxRateError(rate)) {
+            setErrors(prev => ({ ...prev, [category]: true }));
+            return;
+        } else if (rate !== current?.rate) {
+            await saveTaxRate(category, rate);
+        }
+        setErrors(prev => ({ ...prev, [category]: false }));
+        setDrafts(({ [category]: _, ...rest }) => rest);
+    };
+
+    return (
+        <div className="bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 p-4 sm:p-6 rounded-xl">
+            <h3 className="text-lg font-semibold mb-2 border-b pb-2 border-slate-200 dark:border-slate-700">{t('taxes.settings.title')}</h3>
+            <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">{t('taxes.settings.description')}</p>
+            {categories.length === 0 ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400">{t('taxes.settings.no_categories')}</p>
+            ) : (
+                <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+                    {categories.map(category => (
+                        <li key={category} className="flex items-center justify-between py-2 gap-4">
+                            <span className="text-slate-700 dark:text-slate-300">{category}</span>
+                            <div className="text-end">
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        type="number" min="0" max="100" step="0.01"
+                                        value={valueOf(category)}
+                                        onChange={e => setDrafts(prev => ({ ...prev, [category]: e.target.value }))}
+                                        onBlur={() => handleBlur(category)}
+                                        placeholder="0"
+                                        className={inputClassName}
+                                        aria-label={t('taxes.settings.rate_label', { category })}
+                                    />
+                                    <span className="text-slate-500 dark:text-slate-400">%</span>
+                                </div>
+                                {errors[category] && <p className="text-red-500 text-xs mt-1">{t('taxes.error.invalid_rate')}</p>}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default TaxRatesSettings;
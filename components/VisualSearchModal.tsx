@@ -3,21 +3,31 @@ import { motion, AnimatePresence, Variants } from 'framer-motion';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAppContext } from '../context/AppContext';
 import { getDetailedVisualAnalysis } from '../services/gemini';
-import { Product, ProductFormData } from '../types';
-import { XIcon, CameraIcon, LoaderIcon, ProductsIcon, UploadIcon, SparklesIcon } from './Icons';
+import { barcodeScanner, ScannedCode } from '../services/barcode';
+import { variantLabel } from '../services/variants';
+import { findCountLine } from '../services/inventoryCounts';
+import { Product, ProductFormData, ProductVariant } from '../types';
+import { XIcon, CameraIcon, LoaderIcon, ProductsIcon, UploadIcon, SparklesIcon, ScanBarcodeIcon, ShoppingCartIcon, DeliveryIcon, InventoryCountIcon } from './Icons';
 
 interface VisualSearchModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-type ScanState = 'initializing' | 'idle' | 'scanning' | 'analyzing' | 'analysis_complete' | 'error' | 'no-camera';
+type ScanState = 'initializing' | 'idle' | 'scanning' | 'analyzing' | 'analysis_complete' | 'reading_code' | 'code_found' | 'code_unknown' | 'error' | 'no-camera';
 type AnalysisResult = {
     name: string;
     category: string;
     description: string;
     attributes: string[];
 };
+type CodeResult = {
+    code: ScannedCode;
+    match: { product: Product; variant?: ProductVariant } | null;
+};
+
+// Delay between two decoding attempts on the video stream
+const CODE_SCAN_INTERVAL_MS = 250;
 
 
 const blobToBase64 = (blob: Blob): Promise<string> => {
@@ -36,7 +46,7 @@ const blobToBase64 = (blob: Blob): Promise<string> => {
 };
 
 export const VisualSearchModal: React.FC<VisualSearchModalProps> = ({ isOpen, onClose }) => {
-    const { t, products, findProductsByKeywords, setProductDataForForm, setVisualSearchQuery } = useAppContext();
+    const { t, products, findProductsByKeywords, findProductByCode, setProductDataForForm, setVisualSearchQuery, setProductAction, inventoryCounts, recordInventoryCount } = useAppContext();
     const videoRef = useRef<HTMLVideoElement>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const streamRef = useRef<MediaStream | null>(null);
@@ -47,6 +57,8 @@ export const VisualSearchModal: React.FC<VisualSearchModalProps> = ({ isOpen, on
     const [capturedImageBlob, setCapturedImageBlob] = useState<Blob | null>(null);
     const [errorMsg, setErrorMsg] = useState('');
     const [analysisText, setAnalysisText] = useState('');
+    const [codeResult, setCodeResult] = useState<CodeResult | null>(null);
+    const codeScanTimerRef = useRef<number | null>(null);
     const navigate = useNavigate();
 
     const startCamera = useCallback(async () => {
@@ -73,14 +85,23 @@ export const VisualSearchModal: React.FC<VisualSearchModalProps> = ({ isOpen, on
         }
     }, []);
 
+    const stopCodeScan = useCallback(() => {
+        if (codeScanTimerRef.current !== null) {
+            window.clearTimeout(codeScanTimerRef.current);
+            codeScanTimerRef.current = null;
+        }
+    }, []);
+
     const resetState = useCallback(() => {
+        stopCodeScan();
+        setCodeResult(null);
         setFoundProducts([]);
         setAnalysisResult(null);
         setCapturedImageBlob(null);
         setErrorMsg('');
         setAnalysisText('');
         setScanState('idle');
-    }, []);
+    }, [stopCodeScan]);
 
     useEffect(() => {
         if (isOpen) {
@@ -90,8 +111,11 @@ export const VisualSearchModal: React.FC<VisualSearchModalProps> = ({ isOpen, on
             stopCamera();
             resetState();
         }
-        return stopCamera;
-    }, [isOpen, startCamera, stopCamera, resetState]);
+        return () => {
+            stopCodeScan();
+            stopCamera();
+        };
+    }, [isOpen, startCamera, stopCamera, stopCodeScan, resetState]);
 
     const analyzeImageBlob = async (blob: Blob) => {
         try {
@@ -152,6 +176,88 @@ export const VisualSearchModal: React.FC<VisualSearchModalProps> = ({ isOpen, on
         }, 'image/jpeg', 0.9);
     };
 
+    // Reads frames until a code shows up, without sending anything to Gemini
+    const handleCodeScan = async () => {
+        if (!videoRef.current) return;
+
+        const fail = (err: unknown) => {
+            console.error("Barcode scanning failed:", err);
+            codeScanTimerRef.current = null;
+            setErrorMsg(t('visual_search.error.barcode_failed'));
+            setScanState('error');
+        };
+
+        setScanState('reading_code');
+        try {
+            const readCode = await barcodeScanner.create();
+            // Runs from a timer, so a failed decode is caught here rather than left unhandled
+            const readFrame = async () => {
+                const video = videoRef.current;
+                let code: ScannedCode | null;
+                try {
+                    code = video && video.readyState >= 2 ? await readCode(video) : null;
+                } catch (err) {
+                    if (codeScanTimerRef.current !== null) fail(err);
+                    return;
+                }
+                if (codeScanTimerRef.current === null) return; // Cancelled while decoding
+                if (!code) {
+                    codeScanTimerRef.current = window.setTimeout(readFrame, CODE_SCAN_INTERVAL_MS);
+                    return;
+                }
+                codeScanTimerRef.current = null;
+                const match = findProductByCode(code.value);
+                setCodeResult({ code, match });
+                setScanState(match ? 'code_found' : 'code_unknown');
+            };
+            codeScanTimerRef.current = window.setTimeout(readFrame, 0);
+        } catch (err) {
+            fail(err);
+        }
+    };
+
+    // While a count is in progress, a scanned product it covers can be counted straight away
+    const countLine = codeResult?.match
+        ? inventoryCounts
+            .filter(c => c.status === 'in_progress')
+            .map(c => findCountLine(c, codeResult.match!.product.id, codeResult.match!.variant?.id))
+            .find(line => line !== undefined)
+        : undefined;
+
+    // Counts one unit and goes straight back to reading codes for the next one
+    const handleCountOne = async () => {
+        if (!countLine) return;
+        const saved = await recordInventoryCount(countLine.id, (countLine.counted ?? 0) + 1);
+        if (!saved) return;
+        setCodeResult(null);
+        handleCodeScan();
+    };
+
+    const handleCodeAction = (type: 'sell' | 'deliver') => {
+        if (!codeResult?.match) return;
+        setProductAction({ type, productId: codeResult.match.product.id, variantId: codeResult.match.variant?.id });
+        onClose();
+        navigate('/products');
+    };
+
+    const handleAddWithCode = () => {
+        if (!codeResult) return;
+        const { value, isRetailBarcode } = codeResult.code;
+        const newProductData: ProductFormData = {
+            name: '',
+            category: '',
+            supplier: '',
+            buyPrice: 0,
+            sellPrice: 0,
+            stock: 1,
+            ...(isRetailBarcode ? { barcode: value } : { sku: value }),
+            imageFile: null,
+        };
+        setProductDataForForm(newProductData);
+        onClose();
+        navigate('/products');
+    };
+
     const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
         if (file) {
@@ -218,6 +324,15 @@ export const VisualSearchModal: React.FC<VisualSearchModalProps> = ({ isOpen, on
                                     onChange={handleFileSelect}
                                 />
                                 <AnimatePresence>
+                                {scanState === 'reading_code' && (
+                                    <motion.div
+                                        className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none"
+                                        initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+                                    >
+                                        <div className="w-3/4 h-1/3 border-2 border-cyan-400 rounded-lg shadow-[0_0_0_9999px_rgba(0,0,0,0.4)]" />
+                                        <p className="mt-4 font-semibold text-white drop-shadow">{t('visual_search.reading_code')}</p>
+                                    </motion.div>
+                                )}
                                 {(scanState === 'initializing' || scanState === 'scanning' || scanState === 'analyzing') && (
                                     <motion.div 
                                         className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center text-white"
@@ -285,6 +400,31 @@ export const VisualSearchModal: React.FC<VisualSearchModalProps> = ({ isOpen, on
                                 </div>
                             ) : null }
 
+                            {scanState === 'code_found' && codeResult?.match && (
+                                <div className="p-4">
+                                    <h3 className="font-semibold text-slate-800 dark:text-white mb-2">{t('visual_search.code_found', { code: codeResult.code.value })}</h3>
+                                    <div className="flex items-center p-2 rounded-lg bg-slate-100 dark:bg-slate-800">
+                                        {codeResult.match.product.imageUrl ? (
+                                            <img src={codeResult.match.product.imageUrl} alt={codeResult.match.product.name} className="w-12 h-12 object-cover rounded-md me-3" />
+                                        ) : (
+                                            <div className="w-12 h-12 bg-gray-200 dark:bg-slate-700/50 rounded-md flex items-center justify-center me-3">
+                                                <ProductsIcon className="w-6 h-6 text-cyan-500"/>
+                                            </div>
+                                        )}
+                                        <div>
+                                            <p className="font-semibold text-gray-900 dark:text-white">{codeResult.match.product.name}</p>
+                                            {codeResult.match.variant && <p className="text-sm text-gray-600 dark:text-slate-400">{variantLabel(codeResult.match.variant)}</p>}
+                                            <p className="text-sm text-gray-600 dark:text-slate-400">{t('products.table.stock')}: {(codeResult.match.variant || codeResult.match.product).stock}</p>
+                                            {countLine && <p className="text-sm text-cyan-600 dark:text-cyan-400">{t('visual_search.counted_so_far', { count: countLine.counted ?? 0 })}</p>}
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
+
+                            {scanState === 'code_unknown' && codeResult && (
+                                <p className="p-4 text-center text-sm text-slate-600 dark:text-slate-400">{t('visual_search.code_unknown', { code: codeResult.code.value })}</p>
+                            )}
+
                             {scanState === 'no-camera' && (
                                 <div className="p-4 text-center">
                                      <p className="font-semibold text-red-500 mb-2">{t('visual_search.error.no_camera')}</p>
@@ -307,12 +447,60 @@ export const VisualSearchModal: React.FC<VisualSearchModalProps> = ({ isOpen, on
                                     {t('visual_search.add_as_new')}
                                 </motion.button>
                                 </>
+                            ) : scanState === 'reading_code' ? (
+                                <motion.button onClick={resetState} className="flex-1 h-12 flex items-center justify-center bg-slate-100 dark:bg-white/10 text-slate-700 dark:text-white font-semibold rounded-lg">
+                                    {t('cancel')}
+                                </motion.button>
+                            ) : scanState === 'code_found' && codeResult?.match ? (
+                                <>
+                                {countLine && (
+                                    <motion.button
+                                        onClick={handleCountOne}
+                                        className="flex-1 h-12 flex items-center justify-center text-white bg-gradient-to-r from-emerald-400 to-green-500 font-semibold rounded-lg"
+                                    >
+                                        <InventoryCountIcon className="w-5 h-5 me-2" />
+                                        {t('visual_search.count_one')}
+                                    </motion.button>
+                                )}
+                                <motion.button
+                                    onClick={() => handleCodeAction('sell')}
+                                    disabled={(codeResult.match.variant || codeResult.match.product).stock === 0}
+                                    className="flex-1 h-12 flex items-center justify-center text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg disabled:opacity-50"
+                                >
+                                    <ShoppingCartIcon className="w-5 h-5 me-2" />
+                                    {t('sell')}
+                                </motion.button>
+                                <motion.button
+                                    onClick={() => handleCodeAction('deliver')}
+                                    disabled={(codeResult.match.variant || codeResult.match.product).stock === 0}
+                                    className="flex-1 h-12 flex items-center justify-center bg-slate-100 dark:bg-white/10 text-slate-700 dark:text-white font-semibold rounded-lg disabled:opacity-50"
+                                >
+                                    <DeliveryIcon className="w-5 h-5 me-2" />
+                                    {t('products.actions.set_delivery')}
+                                </motion.button>
+                                </>
+                            ) : scanState === 'code_unknown' ? (
+                                <>
+                                <motion.button onClick={resetState} className="flex-1 h-12 flex items-center justify-center bg-slate-100 dark:bg-white/10 text-slate-700 dark:text-white font-semibold rounded-lg">
+                                    {t('visual_search.retry_button')}
+                                </motion.button>
+                                <motion.button
+                                    onClick={handleAddWithCode}
+                                    className="flex-1 h-12 flex items-center justify-center text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg"
+                                >
+                                    {t('visual_search.add_with_code')}
+                                </motion.button>
+                                </>
                             ) : (
                                 <>
                                 <motion.button onClick={handleScan} disabled={scanState !== 'idle'} className="flex-1 h-12 flex items-center justify-center text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg disabled:opacity-50">
                                     <CameraIcon className="w-5 h-5 me-2" />
                                     {t('visual_search.scan_button')}
                                 </motion.button>
+                                <motion.button onClick={handleCodeScan} disabled={scanState !== 'idle'} className="flex-1 h-12 flex items-center justify-center bg-slate-100 dark:bg-white/10 text-slate-700 dark:text-white font-semibold rounded-lg disabled:opacity-50">
+                                    <ScanBarcodeIcon className="w-5 h-5 me-2" />
+                                    {t('visual_search.scan_code_button')}
+                                </motion.button>
                                 <motion.button onClick={() => fileInputRef.current?.click()} disabled={scanState !== 'idle'} className="flex-1 h-12 flex items-center justify-center bg-slate-100 dark:bg-white/10 text-slate-700 dark:text-white font-semibold rounded-lg disabled:opacity-50">
                                     <UploadIcon className="w-5 h-5 me-2" />
                                     {t('visual_search.upload_button')}
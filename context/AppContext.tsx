@@ -1,39 +1,53 @@
-import React, { createContext, useState, useContext, useEffect, useCallback, useMemo } from 'react';
+import React, { createContext, useState, useContext, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Session, User } from '@supabase/supabase-js';
 // FIX: Import AppNotification type and remove the local Notification interface.
-import type { Product, Theme, Language, ActivityLog, Sale, BulkUpdatePayload, BulkUpdateMode, ProductFormData, AppContextType, AppNotification } from '../types';
+import type { Product, Theme, Language, ActivityLog, Sale, SalePayment, SalePricing, Promotion, PromotionFormData, TaxRate, LandedCost, LandedCostFormData, StockLotFormData, CostingMethod, BulkUpdatePayload, BulkUpdateMode, ProductFormData, ProductVariantFormData, ProductVariant, ProductAction, PurchaseOrder, PurchaseOrderFormData, GoodsReceipt, InventoryCount, InventoryCountScope, StockLocation, StockLocationFormData, StockLevel, StockTransfer, StockTransferFormData, Delivery, DeliveryFormData, DeliveryChanges, ShipmentStatusReport, CodRemittance, CodRemittanceFormData, Supplier, SupplierFormData, Customer, CustomerFormData, CheckoutData, SaleReturn, SaleReturnFormData, StockMovement, PriceChange, AppContextType, AppNotification } from '../types';
 import { storage } from '../services/storage';
 import { translations } from '../translations';
-import { MOCK_PRODUCTS } from '../mock/products';
-import { supabaseClient, uploadImage, deleteImage } from '../services/supabase';
-
-const mapSupabaseRecordToProduct = (p: any): Product => ({
-  id: p.id,
-  name: p.name || '',
-  description: p.description,
-  category: p.category || '',
-  supplier: p.supplier || '',
-  buyPrice: p.buyprice ?? 0,
-  sellPrice: p.sellprice ?? 0,
-  stock: p.stock ?? 0,
-  status: p.status || ((p.stock ?? 0) > 0 ? 'actif' : 'rupture'),
-  createdAt: p.created_at,
-  imageUrl: p.imageurl,
-  ownerId: p.owner_id
-});
-
-const mapSupabaseRecordToSale = (s: any): Sale => ({
-  id: s.id,
-  productId: s.product_id,
-  productName: s.productname || '',
-  quantity: s.quantity ?? 0,
-  sellPrice: s.sellprice ?? 0,
-  totalPrice: s.totalprice ?? 0,
-  totalMargin: s.totalmargin ?? 0,
-  createdAt: s.created_at,
-  ownerId: s.owner_id
-});
+import { supabaseClient } from '../services/supabase';
+import { repositories, outbox, ProductInput, PriceChangeInput, RecordChange, StaleRecordError, StockNote } from '../services/repository';
+import type { OutboxEntry } from '../services/offlineStore';
+import { variantLabel, applyVariantChange, keepVariants } from '../services/variants';
+import { applyPurchaseOrderLineChange, keepLines } from '../services/purchaseOrders';
+import { newBatchId, priceChangeOf, bulkBatch, isBatchReverted, repricedSince } from '../services/priceHistory';
+import { applyInventoryCountLineChange, keepCountLines } from '../services/inventoryCounts';
+import { DEFAULT_COSTING_METHOD, applyCostLayerChange, keepCostLayers } from '../services/costLayers';
+import { applyStockLotChange, daysUntilExpiry, expiryStatus, keepStockLots } from '../services/stockLots';
+import { unitsAt } from '../services/stockLocations';
+import { isOpenDelivery } from '../services/deliveries';
+import { findCourierAdapter, isTrackedDelivery, shipmentRequest } from '../services/couriers';
+import type { CourierAdapter } from '../services/couriers';
+import { formatMoney, landedCost } from '../services/money';
+
+// In-memory demo mode runs without authentication, so a local user stands in for the Supabase one.
+const DEMO_USER = { id: 'demo-user', email: 'demo@chezhugo.local' } as unknown as User;
+const DEMO_SESSION = { user: DEMO_USER } as unknown as Session;
+
+// How often carriers are asked about tracked parcels
+const DELIVERY_POLL_INTERVAL_MS = 2 * 60 * 1000;
+
+const localeMap: Record<Language, string> = {
+  fr: 'fr-FR',
+  en: 'en-GB',
+  ar: 'ar-SA-u-nu-latn',
+};
+
+// Inserts may come back both from our own request and from the realtime feed, so records are merged by id.
+const mergeRecords = <T extends { id: number }>(records: T[], incoming: T[]): T[] => {
+  const fresh = incoming.filter(record => !records.some(r => r.id === record.id));
+  return [...fresh, ...records.map(r => incoming.find(record => record.id === r.id) || r)];
+};
 
+const applyChange = <T extends { id: number; updatedAt?: string }>(records: T[], change: RecordChange<T>): T[] => {
+  if (change.type === 'delete') return records.filter(r => r.id !== change.id);
+  const current = records.find(r => r.id === change.record.id);
+  // An echo of an older write can arrive after the response to a newer one
+  if (current?.updatedAt && change.record.updatedAt && new Date(current.updatedAt) > new Date(change.record.updatedAt)) return records;
+  return mergeRecords(records, [change.record]);
+};
+
+const variantsKey = (variants: ProductVariantFormData[]) =>
+  JSON.stringify(variants.map(({ id, options, sku, barcode, buyPrice, sellPrice, stock }) => [id, options, sku || '', barcode || '', buyPrice, sellPrice, stock]));
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
@@ -41,15 +55,37 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [products, setProducts] = useState<Product[]>([]);
   const [sales, setSales] = useState<Sale[]>([]);
   const [activityLog, setActivityLog] = useState<ActivityLog[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [saleReturns, setSaleReturns] = useState<SaleReturn[]>([]);
+  const [stockMovements, setStockMovements] = useState<StockMovement[]>([]);
+  const [priceChanges, setPriceChanges] = useState<PriceChange[]>([]);
+  const [inventoryCounts, setInventoryCounts] = useState<InventoryCount[]>([]);
+  const [stockLocations, setStockLocations] = useState<StockLocation[]>([]);
+  const [stockLevels, setStockLevels] = useState<StockLevel[]>([]);
+  const [stockTransfers, setStockTransfers] = useState<StockTransfer[]>([]);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [deliverySyncErrors, setDeliverySyncErrors] = useState<Record<number, string>>({});
+  const [isRefreshingDeliveryStatuses, setIsRefreshingDeliveryStatuses] = useState(false);
+  const [deliveryStatusesRefreshedAt, setDeliveryStatusesRefreshedAt] = useState<Date | null>(null);
+  const [codRemittances, setCodRemittances] = useState<CodRemittance[]>([]);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [landedCosts, setLandedCosts] = useState<LandedCost[]>([]);
   const [theme, rawSetTheme] = useState<Theme>(storage.getTheme());
   const [language, rawSetLanguage] = useState<Language>(storage.getLanguage());
+  const [currency, rawSetCurrency] = useState<string>(storage.getCurrency());
+  const [costingMethod, rawSetCostingMethod] = useState<CostingMethod>(DEFAULT_COSTING_METHOD);
   const [isLoading, setIsLoading] = useState(true);
   const [session, setSession] = useState<Session | null>(null);
   const [user, setUser] = useState<User | null>(null);
-  const [readNotificationIds, setReadNotificationIds] = useState<number[]>([]);
+  const [readNotificationIds, setReadNotificationIds] = useState<string[]>([]);
   const [isVisualSearchOpen, setIsVisualSearchOpen] = useState(false);
   const [productDataForForm, setProductDataForForm] = useState<(ProductFormData & { imageBlob?: Blob }) | null>(null);
   const [visualSearchQuery, setVisualSearchQuery] = useState<string | null>(null);
+  const [productAction, setProductAction] = useState<ProductAction | null>(null);
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
   const isConfigured = !!supabaseClient;
 
   useEffect(() => {
@@ -66,8 +102,8 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
       return () => subscription.unsubscribe();
     } else {
-      setProducts(MOCK_PRODUCTS);
-      setIsLoading(false);
+      setSession(DEMO_SESSION);
+      setUser(DEMO_USER);
     }
   }, []);
 
@@ -81,6 +117,22 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     rawSetLanguage(newLanguage);
   };
 
+  const setCurrency = (newCurrency: string) => {
+    storage.setCurrency(newCurrency);
+    rawSetCurrency(newCurrency);
+  };
+
+  // Unlike the currency, the costing method is kept by the backend, which prices sales with it
+  const setCostingMethod = async (newCostingMethod: CostingMethod) => {
+    try {
+      const settings = await repositories.settings.save({ costingMethod: newCostingMethod });
+      rawSetCostingMethod(settings.costingMethod);
+    } catch (error) {
+      console.error("Error saving the costing method:", error);
+      alert((error as Error).message);
+    }
+  };
+
   useEffect(() => {
     document.documentElement.lang = language;
     document.documentElement.dir = language === 'ar' ? 'rtl' : 'ltr';
@@ -96,29 +148,54 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
     return translation;
   }, [language]);
+
+  const formatCurrency = useCallback((amount: number, options?: Intl.NumberFormatOptions) =>
+    formatMoney(amount, currency, localeMap[language], options), [currency, language]);
     
   const notifications: AppNotification[] = useMemo(() => {
-    const lowStockAlerts = products
-      .filter(p => p.stock > 0 && p.stock <= 5 && !readNotificationIds.includes(p.id))
-      .map(p => ({
-        id: p.id,
+    // Products with variants are watched per variant, so one size running out is not hidden by the others.
+    const stockItems = products.flatMap(p => p.variants?.length
+      ? p.variants.map(v => ({ id: `variant-${v.id}`, name: `${p.name} (${variantLabel(v)})`, stock: v.stock }))
+      : [{ id: `product-${p.id}`, name: p.name, stock: p.stock }]
+    ).filter(item => !readNotificationIds.includes(item.id));
+
+    const lowStockAlerts = stockItems
+      .filter(item => item.stock > 0 && item.stock <= 5)
+      .map(item => ({
+        id: item.id,
         type: 'warning' as const,
-        message: t('dashboard.notifications.low_stock', { productName: p.name, count: p.stock }),
+        message: t('dashboard.notifications.low_stock', { productName: item.name, count: item.stock }),
       }));
 
-    const outOfStockAlerts = products
-      .filter(p => p.stock === 0 && !readNotificationIds.includes(p.id))
-      .map(p => ({
-        id: p.id,
+    const outOfStockAlerts = stockItems
+      .filter(item => item.stock === 0)
+      .map(item => ({
+        id: item.id,
         type: 'error' as const,
-        message: t('dashboard.notifications.out_of_stock', { productName: p.name }),
+        message: t('dashboard.notifications.out_of_stock', { productName: item.name }),
       }));
     
-    return [...outOfStockAlerts, ...lowStockAlerts];
-  }, [products, readNotificationIds, t]);
-
-  const markNotificationAsRead = (productId: number) => {
-    setReadNotificationIds(prev => [...new Set([...prev, productId])]);
+    // Lots are watched by status, so a lot flagged as expiring is flagged again once it has expired
+    const lotAlerts = products.flatMap(p => (p.lots || []).map(lot => {
+      const variant = p.variants?.find(v => v.id === lot.variantId);
+      return { lot, status: expiryStatus(lot), name: variant ? `${p.name} (${variantLabel(variant)})` : p.name };
+    }))
+      .filter(({ status }) => status !== 'ok')
+      .map(({ lot, status, name }) => ({
+        id: `lot-${lot.id}-${status}`,
+        type: status === 'expired' ? 'error' as const : 'warning' as const,
+        message: t(`dashboard.notifications.lot_${status}`, {
+          productName: name, count: lot.quantity, lot: lot.lotNumber || '-',
+          date: new Date(`${lot.expiresAt}T00:00:00`).toLocaleDateString(localeMap[language], { dateStyle: 'medium' }), days: daysUntilExpiry(lot)!,
+        }),
+      }))
+      .filter(alert => !readNotificationIds.includes(alert.id));
+
+    return [...outOfStockAlerts, ...lotAlerts.filter(a => a.type === 'error'), ...lowStockAlerts, ...lotAlerts.filter(a => a.type === 'warning')];
+  }, [products, readNotificationIds, t, language]);
+
+  const markNotificationAsRead = (notificationId: string) => {
+    setReadNotificationIds(prev => [...new Set([...prev, notificationId])]);
   };
 
   const markAllNotificationsAsRead = () => {
@@ -126,26 +203,52 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setReadNotificationIds(prev => [...new Set([...prev, ...allCurrentIds])]);
   };
 
-  const fetchData = useCallback(async () => {
-    if (!supabaseClient || !session) return;
-    setIsLoading(true);
+  // A background refresh keeps the current page mounted instead of showing the loading screen.
+  const fetchData = useCallback(async (inBackground = false) => {
+    if (!session) return;
+    if (!inBackground) setIsLoading(true);
     try {
-      const [productsRes, salesRes, logRes] = await Promise.all([
-        supabaseClient.from('products').select('*').order('created_at', { ascending: false }),
-        supabaseClient.from('sales').select('*').order('created_at', { ascending: false }),
-        supabaseClient.from('activity_log').select('*').order('created_at', { ascending: false })
+      const [productsData, salesData, logData, purchaseOrdersData, suppliersData, customersData, saleReturnsData, stockMovementsData, priceChangesData, inventoryCountsData, stockLocationsData, stockLevelsData, stockTransfersData, deliveriesData, codRemittancesData, promotionsData, taxRatesData, landedCostsData, settingsData] = await Promise.all([
+        repositories.products.list(),
+        repositories.sales.list(),
+        repositories.activityLog.list(),
+        repositories.purchaseOrders.list(),
+        repositories.suppliers.list(),
+        repositories.customers.list(),
+        repositories.saleReturns.list(),
+        repositories.stockMovements.list(),
+        repositories.priceChanges.list(),
+        repositories.inventoryCounts.list(),
+        repositories.stockLocations.list(),
+        repositories.stockTransfers.levels(),
+        repositories.stockTransfers.list(),
+        repositories.deliveries.list(),
+        repositories.codRemittances.list(),
+        repositories.promotions.list(),
+        repositories.taxRates.list(),
+        repositories.landedCosts.list(),
+        repositories.settings.get()
       ]);
 
-      if (productsRes.error) throw productsRes.error;
-      if (salesRes.error) throw salesRes.error;
-      if (logRes.error) throw logRes.error;
-
-      setProducts(productsRes.data.map(mapSupabaseRecordToProduct));
-      setSales((salesRes.data || []).map(mapSupabaseRecordToSale));
-      setActivityLog((logRes.data || []).map((l: any) => ({
-        id: l.id, productId: l.product_id, productName: l.productname || '', action: l.action,
-        details: l.details, createdAt: l.created_at, ownerId: l.owner_id
-      })));
+      setProducts(productsData);
+      setSales(salesData);
+      setActivityLog(logData);
+      setPurchaseOrders(purchaseOrdersData);
+      setSuppliers(suppliersData);
+      setCustomers(customersData);
+      setSaleReturns(saleReturnsData);
+      setStockMovements(stockMovementsData);
+      setPriceChanges(priceChangesData);
+      setInventoryCounts(inventoryCountsData);
+      setStockLocations(stockLocationsData);
+      setStockLevels(stockLevelsData);
+      setStockTransfers(stockTransfersData);
+      setDeliveries(deliveriesData);
+      setCodRemittances(codRemittancesData);
+      setPromotions(promotionsData);
+      setTaxRates(taxRatesData);
+      setLandedCosts(landedCostsData);
+      rawSetCostingMethod(settingsData.costingMethod);
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         console.error("Error fetching data:", error);
@@ -160,16 +263,92 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   useEffect(() => {
-    if (supabaseClient && session) {
+    if (session) {
       fetchData();
-    } else if (!session) {
+    } else {
         setIsLoading(false);
         setProducts([]);
         setSales([]);
         setActivityLog([]);
+        setPurchaseOrders([]);
+        setSuppliers([]);
+        setCustomers([]);
+        setSaleReturns([]);
+        setStockMovements([]);
+        setPriceChanges([]);
+        setInventoryCounts([]);
+        setStockLocations([]);
+        setStockLevels([]);
+        setStockTransfers([]);
+        setDeliveries([]);
+        setDeliverySyncErrors({});
+        setCodRemittances([]);
+        setPromotions([]);
+        setTaxRates([]);
+        setLandedCosts([]);
+        rawSetCostingMethod(DEFAULT_COSTING_METHOD);
     }
   }, [session, fetchData]);
 
+  useEffect(() => {
+    if (!session) return;
+    return repositories.subscribe({
+      products: change => setProducts(prev => applyChange(prev, keepStockLots(prev, keepCostLayers(prev, keepVariants(prev, change))))),
+      productVariants: change => setProducts(prev => applyVariantChange(prev, change)),
+      costLayers: change => setProducts(prev => applyCostLayerChange(prev, change)),
+      stockLots: change => setProducts(prev => applyStockLotChange(prev, change)),
+      sales: change => setSales(prev => applyChange(prev, change)),
+      activityLog: change => setActivityLog(prev => applyChange(prev, change)),
+      purchaseOrders: change => setPurchaseOrders(prev => applyChange(prev, keepLines(prev, change))),
+      purchaseOrderLines: change => setPurchaseOrders(prev => applyPurchaseOrderLineChange(prev, change)),
+      suppliers: change => setSuppliers(prev => applyChange(prev, change)),
+      customers: change => setCustomers(prev => applyChange(prev, change)),
+      saleReturns: change => setSaleReturns(prev => applyChange(prev, change)),
+      stockMovements: change => setStockMovements(prev => applyChange(prev, change)),
+      priceChanges: change => setPriceChanges(prev => applyChange(prev, change)),
+      inventoryCounts: change => setInventoryCounts(prev => applyChange(prev, keepCountLines(prev, change))),
+      inventoryCountLines: change => setInventoryCounts(prev => applyInventoryCountLineChange(prev, change)),
+      stockLocations: change => setStockLocations(prev => applyChange(prev, change)),
+      stockLevels: change => setStockLevels(prev => applyChange(prev, change)),
+      stockTransfers: change => setStockTransfers(prev => applyChange(prev, change)),
+      deliveries: change => setDeliveries(prev => applyChange(prev, change)),
+      codRemittances: change => setCodRemittances(prev => applyChange(prev, change)),
+      promotions: change => setPromotions(prev => applyChange(prev, change)),
+      taxRates: change => setTaxRates(prev => applyChange(prev, change)),
+      landedCosts: change => setLandedCosts(prev => applyChange(prev, change)),
+      resync: () => fetchData(true),
+    });
+  }, [session, fetchData]);
+
+  useEffect(() => {
+    if (!outbox || !session) return;
+    const unsubscribeEntries = outbox.onChange(setOutboxEntries);
+    const unsubscribeConflicts = outbox.onConflicts(conflicts => {
+      const details = conflicts.map(({ entry, message }) => `- ${t('offline.operation.' + entry.operation)}${entry.productName ? ` (${entry.productName})` : ''}: ${message}`);
+      alert(t('offline.sync_conflicts', { details: details.join('\n') }));
+    });
+    const handleOnline = () => { outbox.sync(); };
+    window.addEventListener('online', handleOnline);
+    outbox.sync();
+    return () => {
+      unsubscribeEntries();
+      unsubscribeConflicts();
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [session, t]);
+
+  // Once the outbox is flushed, reload so records created offline get their real ids.
+  const hadPendingEntries = useRef(false);
+  useEffect(() => {
+    if (hadPendingEntries.current && outboxEntries.length === 0) fetchData(true);
+    hadPendingEntries.current = outboxEntries.length > 0;
+  }, [outboxEntries, fetchData]);
+
+  const pendingSync = useMemo(() => ({
+    productIds: [...new Set(outboxEntries.flatMap(e => e.productIds))],
+    saleIds: [...new Set(outboxEntries.flatMap(e => e.saleIds))],
+  }), [outboxEntries]);
+
   const login = async (email: string, pass: string) => {
     if (!supabaseClient) return { error: new Error("Supabase not configured") };
     const { error } = await supabaseClient.auth.signInWithPassword({ email, password: pass });
@@ -180,20 +359,27 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     if (!supabaseClient) return;
     await supabaseClient.auth.signOut();
   };
-  
+
   const logActivity = useCallback(async (action: ActivityLog['action'], product: { id: number; name: string; }, details?: string) => {
-    if (!supabaseClient || !user) return;
-    const logData = {
-      product_id: product.id, productname: product.name, action: action,
-      details: details || null, owner_id: user.id,
-    };
-    const { data, error } = await supabaseClient.from('activity_log').insert(logData).select().single();
-    if (error) console.error("Error logging activity:", error);
-    else if (data) {
-      setActivityLog(prev => [{
-          id: data.id, productId: data.product_id, productName: data.productname, action: data.action,
-          details: data.details, createdAt: data.created_at, ownerId: data.owner_id
-      }, ...prev]);
+    if (!user) return;
+    try {
+      const entry = await repositories.activityLog.create({
+        productId: product.id, productName: product.name, action, details, ownerId: user.id,
+      });
+      setActivityLog(prev => mergeRecords(prev, [entry]));
+    } catch (error) {
+      console.error("Error logging activity:", error);
+    }
+  }, [user]);
+
+  // Every change to a product's prices goes to its price history
+  const logPriceChanges = useCallback(async (changes: Omit<PriceChangeInput, 'ownerId'>[]) => {
+    if (!user || changes.length === 0) return;
+    try {
+      const created = await repositories.priceChanges.create(changes.map(c => ({ ...c, ownerId: user.id })));
+      setPriceChanges(prev => mergeRecords(prev, created));
+    } catch (error) {
+      console.error("Error recording price changes:", error);
     }
   }, [user]);
 
@@ -208,32 +394,56 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
           alert(t(alertMessage, { error: error.message }));
       }
   };
-  
+
+  // Another device changed the product since it was loaded here: show its current version instead of overwriting it.
+  const handleStaleProduct = (product: Product, current: Product | null) => {
+      setProducts(prev => current ? prev.map(p => p.id === product.id ? current : p) : prev.filter(p => p.id !== product.id));
+      alert(t(current ? 'error.stale_product' : 'error.product_deleted_elsewhere', { productName: product.name }));
+  };
+
+  // Saving under a supplier name that is new to the app creates the supplier on the backend
+  const refreshSuppliersFor = (records: { supplierId?: number }[]) => {
+    if (!records.some(r => r.supplierId !== undefined && !suppliers.some(s => s.id === r.supplierId))) return;
+    repositories.suppliers.list().then(setSuppliers).catch(error => console.error("Error fetching suppliers:", error));
+  };
+
   const addProduct = async (productData: ProductFormData): Promise<Product | null> => {
-    if (!supabaseClient || !user) return null;
+    if (!user) return null;
     try {
       let imageUrl = productData.imageUrl;
       if (productData.imageFile) {
-        imageUrl = await uploadImage(productData.imageFile, user.id);
+        imageUrl = await repositories.images.upload(productData.imageFile, user.id);
       }
 
-      const newProductPayload = {
+      const stockNote: StockNote = { reason: 'receipt', notes: t('stock_movements.note.initial_stock') };
+      const hasVariants = !!productData.variants?.length;
+      const created = await repositories.products.create({
         name: productData.name,
-        description: productData.description || null,
+        description: productData.description,
         category: productData.category,
         supplier: productData.supplier,
-        buyprice: productData.buyPrice,
-        sellprice: productData.sellPrice,
-        stock: productData.stock,
-        imageurl: imageUrl,
+        buyPrice: productData.buyPrice,
+        sellPrice: productData.sellPrice,
+        // The variants bring the stock in themselves
+        stock: hasVariants ? 0 : productData.stock,
+        imageUrl,
+        sku: productData.sku,
+        barcode: productData.barcode,
+        taxRate: productData.taxRate,
+        priceIncludesTax: productData.priceIncludesTax,
         status: productData.stock > 0 ? 'actif' : 'rupture',
-        owner_id: user.id
-      };
-      const { data, error } = await supabaseClient.from('products').insert(newProductPayload).select().single();
-      if (error) throw error;
-      
-      const createdProduct = mapSupabaseRecordToProduct(data);
-      setProducts(prev => [createdProduct, ...prev]);
+        ownerId: user.id
+      }, stockNote);
+      let createdProduct = created.product;
+      const movements = [...created.movements];
+      if (hasVariants) {
+        const saved = await repositories.products.saveVariants(createdProduct.id, productData.variants!, stockNote);
+        createdProduct = saved.product;
+        movements.push(...saved.movements);
+      }
+      setProducts(prev => mergeRecords(prev, [createdProduct]));
+      setStockMovements(prev => mergeRecords(prev, movements));
+      refreshSuppliersFor([createdProduct]);
       await logActivity('created', createdProduct);
       return createdProduct;
     } catch (error) {
@@ -242,31 +452,39 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const addMultipleProducts = async (productsData: Omit<Product, 'id' | 'status' | 'createdAt'>[]) => {
-    if (!supabaseClient || !user) return;
-    try {
-        const newProductsPayload = productsData.map(p => ({
-            name: p.name, 
-            description: p.description || null,
-            category: p.category, 
-            supplier: p.supplier, 
-            buyprice: p.buyPrice,
-            sellprice: p.sellPrice, 
-            stock: p.stock, 
-            imageurl: p.imageUrl,
-            status: p.stock > 0 ? 'actif' : 'rupture', 
-            owner_id: user.id
-        }));
-
-        const { data, error } = await supabaseClient.from('products').insert(newProductsPayload).select();
-        if (error) throw error;
-        
-        if (data) {
-          const createdProducts = data.map(mapSupabaseRecordToProduct);
-          setProducts(prev => [...createdProducts, ...prev]);
-          for (const newProduct of createdProducts) {
-              await logActivity('created', {id: newProduct.id, name: newProduct.name}, t('history.log.imported_from_shopify'));
-          }
+  const addMultipleProducts = async (productsData: Omit<ProductFormData, 'imageFile'>[]) => {
+    if (!user) return;
+    try {
+        const stockNote: StockNote = { reason: 'receipt', notes: t('history.log.imported_from_shopify') };
+        const { products: createdProducts, movements } = await repositories.products.createMany(productsData.map(p => ({
+            name: p.name,
+            description: p.description,
+            category: p.category,
+            supplier: p.supplier,
+            buyPrice: p.buyPrice,
+            sellPrice: p.sellPrice,
+            stock: p.variants?.length ? 0 : p.stock,
+            imageUrl: p.imageUrl,
+            sku: p.sku,
+            barcode: p.barcode,
+            status: p.stock > 0 ? 'actif' : 'rupture',
+            ownerId: user.id
+        })), stockNote);
+
+        // createMany keeps the order of its input, so each created product lines up with its variants
+        for (const [index, { variants }] of productsData.entries()) {
+            if (variants?.length) {
+                const saved = await repositories.products.saveVariants(createdProducts[index].id, variants, stockNote);
+                createdProducts[index] = saved.product;
+                movements.push(...saved.movements);
+            }
+        }
+
+        setProducts(prev => mergeRecords(prev, createdProducts));
+        setStockMovements(prev => mergeRecords(prev, movements));
+        refreshSuppliersFor(createdProducts);
+        for (const newProduct of createdProducts) {
+            await logActivity('created', {id: newProduct.id, name: newProduct.name}, t('history.log.imported_from_shopify'));
         }
     } catch (error) {
         handleSupabaseError(error as Error, 'add');
@@ -274,47 +492,68 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   const updateProduct = async (product: Product, productData: ProductFormData): Promise<Product | null> => {
-    if (!supabaseClient) return null;
+    if (!user) return null;
     try {
       let imageUrl = product.imageUrl;
       if (productData.imageFile) {
-        if (product.imageUrl) await deleteImage(product.imageUrl);
-        imageUrl = await uploadImage(productData.imageFile, product.ownerId!);
+        if (product.imageUrl) await repositories.images.remove(product.imageUrl);
+        imageUrl = await repositories.images.upload(productData.imageFile, product.ownerId || user.id);
       }
 
-      const updatedProductPayload = {
+      const stockNote: StockNote = { reason: productData.stockReason || 'count_correction' };
+      const updated = await repositories.products.update(product.id, {
         name: productData.name,
-        description: productData.description || null,
+        description: productData.description,
         category: productData.category,
         supplier: productData.supplier,
-        buyprice: productData.buyPrice,
-        sellprice: productData.sellPrice,
+        buyPrice: productData.buyPrice,
+        sellPrice: productData.sellPrice,
         stock: productData.stock,
-        imageurl: imageUrl,
+        imageUrl,
+        sku: productData.sku || '',
+        barcode: productData.barcode || '',
+        taxRate: productData.taxRate,
+        priceIncludesTax: productData.priceIncludesTax,
         status: productData.stock > 0 ? 'actif' : 'rupture',
-      };
-      const { data, error } = await supabaseClient.from('products').update(updatedProductPayload).eq('id', product.id).select().single();
-      if (error) throw error;
-      
-      const updatedProduct = mapSupabaseRecordToProduct(data);
-      setProducts(prev => prev.map(p => p.id === product.id ? updatedProduct : p));
+      }, product.updatedAt, stockNote);
+      let updatedProduct = updated.product;
+      const movements = [...updated.movements];
+      const variantsChanged = !!productData.variants && variantsKey(productData.variants) !== variantsKey(product.variants || []);
+      if (variantsChanged) {
+        const saved = await repositories.products.saveVariants(product.id, productData.variants!, stockNote);
+        updatedProduct = saved.product;
+        movements.push(...saved.movements);
+      }
+      const savedProduct = updatedProduct;
+      setProducts(prev => prev.map(p => p.id === product.id ? savedProduct : p));
+      setStockMovements(prev => mergeRecords(prev, movements));
+      refreshSuppliersFor([savedProduct]);
 
       const changes: string[] = [];
-      const keysToCompare: (keyof Omit<Product, 'id'|'createdAt'|'status'|'imageUrl'|'ownerId'|'en livraison'>)[] = ['name', 'description', 'category', 'supplier', 'buyPrice', 'sellPrice', 'stock'];
+      const keysToCompare: (keyof Omit<Product, 'id'|'createdAt'|'status'|'imageUrl'|'ownerId'>)[] = ['name', 'description', 'category', 'supplier', 'buyPrice', 'sellPrice', 'stock', 'sku', 'barcode', 'taxRate'];
       keysToCompare.forEach(key => {
-        if (product[key] !== updatedProduct[key]) {
+        if ((product[key] ?? '') !== (updatedProduct[key] ?? '')) {
           changes.push(`${t('log.' + key)}: "${product[key] || ''}" -> "${updatedProduct[key] || ''}"`);
         }
       });
       if (imageUrl !== product.imageUrl) {
           changes.push(t('history.log.image_updated'));
       }
+      if (variantsChanged) {
+          changes.push(t('history.log.variants_updated'));
+      }
       if (changes.length > 0) {
         await logActivity('updated', updatedProduct, changes.join(', '));
       }
+      const priceChange = priceChangeOf(product, updatedProduct, 'edit');
+      if (priceChange) await logPriceChanges([priceChange]);
       return updatedProduct;
     } catch (error) {
-      handleSupabaseError(error as Error, 'update');
+      if (error instanceof StaleRecordError) {
+        handleStaleProduct(product, error.current);
+      } else {
+        handleSupabaseError(error as Error, 'update');
+      }
       return null;
     }
   };
@@ -329,71 +568,116 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   const updateMultipleProducts = async (productIds: number[], updates: BulkUpdatePayload) => {
-    if (!supabaseClient || !user) return;
+    if (!user) return;
     const productsToUpdate = products.filter(p => productIds.includes(p.id));
     if (productsToUpdate.length === 0) return;
-    
+
+    // The price changes of the whole edit share a batch, so it can be reverted as one
+    const batchId = newBatchId();
+    const bulkPrices = { buyPrice: updates.buyPrice, sellPrice: updates.sellPrice };
     try {
       const updatedProductsLocally: Product[] = [];
       for (const product of productsToUpdate) {
-          const payload: any = {};
+          const payload: Partial<ProductInput> = {};
           const changes: string[] = [];
-          
+
           if (updates.category) { payload.category = updates.category; changes.push(`${t('log.category')}: "${product.category}" -> "${updates.category}"`); }
           if (updates.supplier) { payload.supplier = updates.supplier; changes.push(`${t('log.supplier')}: "${product.supplier}" -> "${updates.supplier}"`); }
-          if (updates.buyPrice) { const newValue = calculateNewValue(product.buyPrice, updates.buyPrice.mode, updates.buyPrice.value); payload.buyprice = newValue; changes.push(`${t('log.buyPrice')}: "${product.buyPrice}" -> "${newValue.toFixed(2)}"`); }
-          if (updates.sellPrice) { const newValue = calculateNewValue(product.sellPrice, updates.sellPrice.mode, updates.sellPrice.value); payload.sellprice = newValue; changes.push(`${t('log.sellPrice')}: "${product.sellPrice}" -> "${newValue.toFixed(2)}"`); }
-          if (updates.stock) {
+          if (updates.buyPrice) { const newValue = calculateNewValue(product.buyPrice, updates.buyPrice.mode, updates.buyPrice.value); payload.buyPrice = newValue; changes.push(`${t('log.buyPrice')}: "${product.buyPrice}" -> "${newValue.toFixed(2)}"`); }
+          if (updates.sellPrice) { const newValue = calculateNewValue(product.sellPrice, updates.sellPrice.mode, updates.sellPrice.value); payload.sellPrice = newValue; changes.push(`${t('log.sellPrice')}: "${product.sellPrice}" -> "${newValue.toFixed(2)}"`); }
+          // The stock of a product with variants is the sum of theirs, so it can only be edited per variant
+          if (updates.stock && !product.variants?.length) {
               const newValue = calculateNewValue(product.stock, updates.stock.mode, updates.stock.value);
               payload.stock = Math.max(0, Math.floor(newValue));
               payload.status = payload.stock > 0 ? 'actif' : 'rupture';
               changes.push(`${t('log.stock')}: "${product.stock}" -> "${payload.stock}"`);
           }
-          
+
           if (Object.keys(payload).length > 0) {
-              const { data, error } = await supabaseClient.from('products').update(payload).eq('id', product.id).select().single();
-              if (error) throw error;
-              updatedProductsLocally.push(mapSupabaseRecordToProduct(data));
+              let updated: Product;
+              try {
+                  const stockNote: StockNote | undefined = updates.stock && { reason: updates.stock.reason, notes: t('history.log.bulk_update') };
+                  const result = await repositories.products.update(product.id, payload, product.updatedAt, stockNote);
+                  updated = result.product;
+                  setStockMovements(prev => mergeRecords(prev, result.movements));
+              } catch (error) {
+                  if (!(error instanceof StaleRecordError)) throw error;
+                  handleStaleProduct(product, error.current);
+                  continue;
+              }
+              updatedProductsLocally.push(updated);
               await logActivity('updated', product, `${t('history.log.bulk_update')}: ${changes.join(', ')}`);
+              const priceChange = priceChangeOf(product, updated, 'bulk_update', batchId, bulkPrices);
+              if (priceChange) await logPriceChanges([priceChange]);
           }
       }
       setProducts(prev => prev.map(p => {
           const updatedVersion = updatedProductsLocally.find(up => up.id === p.id);
           return updatedVersion || p;
       }));
+      refreshSuppliersFor(updatedProductsLocally);
     } catch (error) {
         alert(t('bulk_edit_form.error', { error: (error as Error).message }));
     }
   };
 
+  const revertBulkPriceChange = async (batchId: string): Promise<boolean> => {
+    if (!user) return false;
+    const batch = bulkBatch(batchId, priceChanges);
+    if (batch.length === 0 || isBatchReverted(batchId, priceChanges)) return false;
+    // Products deleted since have no prices left to put back
+    const batchProducts = products.filter(p => batch.some(c => c.productId === p.id));
+    const repriced = repricedSince(batch, batchProducts);
+    if (repriced.length > 0) {
+      alert(t('price_history.revert_repriced', { products: repriced.map(p => p.name).join(', ') }));
+      return false;
+    }
+
+    // The whole edit is reverted at once by the backend, which checks the prices again
+    let result: { products: Product[]; changes: PriceChange[] };
+    try {
+      result = await repositories.priceChanges.revertBatch(batchId);
+    } catch (error) {
+      console.error("Error reverting bulk edit:", error);
+      alert(t('price_history.revert_error', { error: (error as Error).message }));
+      return false;
+    }
+    setProducts(prev => mergeRecords(prev, result.products));
+    setPriceChanges(prev => mergeRecords(prev, result.changes));
+    for (const change of result.changes) {
+      await logActivity('updated', { id: change.productId, name: change.productName }, `${t('history.log.bulk_price_revert')}: ${t('log.buyPrice')}: "${change.oldBuyPrice}" -> "${change.newBuyPrice}", ${t('log.sellPrice')}: "${change.oldSellPrice}" -> "${change.newSellPrice}"`);
+    }
+    return true;
+  };
+
   const deleteProduct = async (productId: number) => {
-    if (!supabaseClient) return;
     const productToDelete = products.find(p => p.id === productId);
     if (!productToDelete) return;
-    
-    const { error } = await supabaseClient.from('products').delete().eq('id', productId);
-    if (error) {
-      alert(error.message);
-    } else {
+
+    try {
+      await repositories.products.remove(productId);
       setProducts(prev => prev.filter(p => p.id !== productId));
-      if (productToDelete.imageUrl) await deleteImage(productToDelete.imageUrl);
+      setPromotions(prev => prev.filter(p => p.productId !== productId));
+      if (productToDelete.imageUrl) await repositories.images.remove(productToDelete.imageUrl);
       await logActivity('deleted', productToDelete);
+    } catch (error) {
+      alert((error as Error).message);
     }
   };
 
   const deleteMultipleProducts = async (productIds: number[]) => {
-      if (!supabaseClient) return;
       const productsToDelete = products.filter(p => productIds.includes(p.id));
 
-      const { error } = await supabaseClient.from('products').delete().in('id', productIds);
-      if (error) {
-          alert(error.message);
-      } else {
+      try {
+          await repositories.products.removeMany(productIds);
           setProducts(prev => prev.filter(p => !productIds.includes(p.id)));
+          setPromotions(prev => prev.filter(p => p.productId === undefined || !productIds.includes(p.productId)));
           for (const product of productsToDelete) {
-              if (product.imageUrl) await deleteImage(product.imageUrl);
+              if (product.imageUrl) await repositories.images.remove(product.imageUrl);
               await logActivity('deleted', product, t('history.log.bulk_delete'));
           }
+      } catch (error) {
+          alert((error as Error).message);
       }
   };
 
@@ -405,228 +689,722 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     const duplicatedProductData = {
       ...newProductData,
       name: `${newProductData.name} (copie)`,
+      // Codes identify a single product, so the copy starts without them
+      sku: undefined,
+      barcode: undefined,
+      variants: newProductData.variants?.map(({ id, productId, sku, barcode, ...variant }) => variant),
       imageFile: null
     };
-    
+
     const result = await addProduct(duplicatedProductData as ProductFormData);
     if (result) {
         await logActivity('created', result, t('history.log.duplicated', { productName: productToDuplicate.name }));
     }
   };
-  
-  const addSale = async (productId: number, quantity: number) => {
-    if (!supabaseClient || !user) return;
-    const product = products.find(p => p.id === productId);
-    if (!product || product.stock < quantity) return;
 
-    const newStock = product.stock - quantity;
-    const { data: updatedProductData, error: stockUpdateError } = await supabaseClient.from('products')
-      .update({ stock: newStock, status: newStock > 0 ? 'actif' : 'rupture' })
-      .eq('id', productId).select().single();
-    
-    if (stockUpdateError) { alert(stockUpdateError.message); return; }
+  // Names the customer in a log entry, when there is one
+  const withCustomer = (details: string | undefined, customerId?: number) => {
+    const customer = customers.find(c => c.id === customerId);
+    if (!customer) return details;
+    const mention = t('history.log.customer', { name: customer.name });
+    return details ? `${details} ${mention}` : mention;
+  };
 
-    const salePayload = {
-        product_id: productId, productname: product.name, quantity: quantity, sellprice: product.sellPrice,
-        totalprice: product.sellPrice * quantity, totalmargin: (product.sellPrice - product.buyPrice) * quantity,
-        owner_id: user.id,
-    };
-    const { data: saleData, error: saleInsertError } = await supabaseClient.from('sales').insert(salePayload).select().single();
+  const addSale = async (productId: number, quantity: number, variantId?: number, customerId?: number, payments?: SalePayment[], pricing?: SalePricing) => {
+    if (!user) return;
+    const product = products.find(p => p.id === productId);
+    const variant = variantId !== undefined ? product?.variants?.find(v => v.id === variantId) : undefined;
+    if (!product || (variant || product).stock < quantity) return;
 
-    if (saleInsertError) {
-        alert(saleInsertError.message);
-        await supabaseClient.from('products').update({ stock: product.stock }).eq('id', productId);
-    } else {
-        const updatedProduct = mapSupabaseRecordToProduct(updatedProductData);
+    try {
+        const { product: updatedProduct, sale, movements } = await repositories.sales.record(productId, quantity, variantId, customerId, payments, pricing);
         setProducts(prev => prev.map(p => p.id === productId ? updatedProduct : p));
-        setSales(prev => [mapSupabaseRecordToSale(saleData), ...prev]);
-        await logActivity('sold', product, t('history.log.units_sold', {quantity}));
+        setSales(prev => mergeRecords(prev, [sale]));
+        setStockMovements(prev => mergeRecords(prev, movements));
+        const details = t('history.log.units_sold', {quantity});
+        await logActivity('sold', product, withCustomer(variant ? `${details} (${variantLabel(variant)})` : details, sale.customerId));
+    } catch (error) {
+        alert((error as Error).message);
     }
   };
-  
-  const setProductToDelivery = async (productId: number) => {
-    if (!supabaseClient || !user) return;
-    const productToUpdate = products.find(p => p.id === productId);
-    if (!productToUpdate || productToUpdate.stock < 1) return;
 
-    if (productToUpdate.stock > 1) {
-        // Split product: create new delivery item, decrement original
-        try {
-            const newProductPayload = {
-                name: productToUpdate.name, 
-                description: productToUpdate.description,
-                category: productToUpdate.category, 
-                supplier: productToUpdate.supplier,
-                buyprice: productToUpdate.buyPrice, 
-                sellprice: productToUpdate.sellPrice, 
-                stock: 1,
-                imageurl: productToUpdate.imageUrl, 
-                status: 'en livraison' as const, 
-                owner_id: user.id
-            };
-            const { data: newProductData, error: insertError } = await supabaseClient.from('products').insert(newProductPayload).select().single();
-            if (insertError) throw insertError;
-
-            const newStock = productToUpdate.stock - 1;
-            const { data: updatedOriginalData, error: updateError } = await supabaseClient.from('products')
-                .update({ stock: newStock })
-                .eq('id', productToUpdate.id).select().single();
-            if (updateError) {
-                // Attempt to roll back the insert
-                await supabaseClient.from('products').delete().eq('id', newProductData.id);
-                throw updateError;
-            }
-            
-            const newProduct = mapSupabaseRecordToProduct(newProductData);
-            const updatedOriginalProduct = mapSupabaseRecordToProduct(updatedOriginalData);
+  // The units leave the stock, and their location, as soon as the delivery is set up
+  const createDelivery = async (deliveryData: DeliveryFormData): Promise<Delivery | null> => {
+    if (!user) return null;
+    try {
+        const { delivery, product, levels, movements } = await repositories.deliveries.create(deliveryData);
+        setDeliveries(prev => mergeRecords(prev, [delivery]));
+        setProducts(prev => prev.map(p => p.id === product.id ? product : p));
+        setStockLevels(prev => mergeRecords(prev, levels));
+        setStockMovements(prev => mergeRecords(prev, movements));
+        await logActivity('delivery_set', product, withCustomer(t('history.log.delivery_created', { quantity: delivery.quantity }), delivery.customerId));
+        return delivery;
+    } catch (error) {
+        console.error("Error creating delivery:", error);
+        alert((error as Error).message);
+        return null;
+    }
+  };
 
-            setProducts(prev => [...prev.map(p => p.id === updatedOriginalProduct.id ? updatedOriginalProduct : p), newProduct]);
+  const updateDelivery = async (delivery: Delivery, changes: DeliveryChanges): Promise<Delivery | null> => {
+    try {
+        const updated = await repositories.deliveries.update(delivery.id, changes);
+        setDeliveries(prev => prev.map(d => d.id === updated.id ? updated : d));
+        return updated;
+    } catch (error) {
+        console.error("Error updating delivery:", error);
+        alert((error as Error).message);
+        return null;
+    }
+  };
 
-            await logActivity('delivery_set', newProduct, t('history.log.delivery_split'));
+  // The stock already left with the delivery, so the sale only records the money
+  const confirmOpenDelivery = async (delivery: Delivery, customerId?: number) => {
+    const { delivery: delivered, sale } = await repositories.deliveries.confirm(delivery.id, customerId);
+    setDeliveries(prev => prev.map(d => d.id === delivery.id ? delivered : d));
+    setSales(prev => mergeRecords(prev, [sale]));
+    await logActivity('sold', { id: sale.productId, name: sale.productName }, withCustomer(t('history.log.units_sold_from_delivery', { quantity: sale.quantity }), sale.customerId));
+  };
 
-        } catch (error) {
-            alert((error as Error).message);
-        }
-    } else {
-        // Stock is 1, just update status
-        const { data, error } = await supabaseClient.from('products').update({ status: 'en livraison' }).eq('id', productId).select().single();
-
-        if (error) {
-            alert(error.message);
-        } else {
-            const updatedProduct = mapSupabaseRecordToProduct(data);
-            setProducts(prev => prev.map(p => (p.id === productId ? updatedProduct : p)));
-            await logActivity('delivery_set', updatedProduct);
-        }
+  const cancelOpenDelivery = async (delivery: Delivery) => {
+    const { delivery: cancelled, product, levels, movements } = await repositories.deliveries.cancel(delivery.id);
+    setDeliveries(prev => prev.map(d => d.id === delivery.id ? cancelled : d));
+    setStockLevels(prev => mergeRecords(prev, levels));
+    setStockMovements(prev => mergeRecords(prev, movements));
+    // Nothing goes back in stock when the product has been deleted since
+    if (product) {
+        setProducts(prev => prev.map(p => p.id === product.id ? product : p));
+        await logActivity('delivery_cancelled', product, t('history.log.delivery_restocked', { quantity: delivery.quantity }));
     }
   };
 
-  const confirmSaleFromDelivery = async (productId: number) => {
-    if (!supabaseClient || !user) return;
-    const product = products.find(p => p.id === productId);
-    if (!product || product.status !== 'en livraison' || product.stock < 1) {
-      console.warn("Attempted to confirm sale for a product not in delivery or out of stock.", productId);
-      return;
+  const confirmSaleFromDelivery = async (deliveryId: number, customerId?: number) => {
+    if (!user) return;
+    const delivery = deliveries.find(d => d.id === deliveryId);
+    if (!delivery || !isOpenDelivery(delivery)) return;
+
+    try {
+        await confirmOpenDelivery(delivery, customerId);
+    } catch (error) {
+        console.error("Error confirming delivery:", error);
+        alert((error as Error).message);
     }
-    
-    const saleQuantity = 1; // Always sell one unit at a time from delivery
-    
-    const newStock = product.stock - 1;
-    const newStatus = newStock > 0 ? 'en livraison' : 'rupture';
+  };
 
-    const { data: updatedProductData, error: stockUpdateError } = await supabaseClient.from('products')
-      .update({ stock: newStock, status: newStatus })
-      .eq('id', productId).select().single();
-    
-    if (stockUpdateError) { 
-      alert(stockUpdateError.message); 
-      return; 
-    }
-
-    const salePayload = {
-        product_id: productId,
-        productname: product.name,
-        quantity: saleQuantity,
-        sellprice: product.sellPrice,
-        totalprice: product.sellPrice * saleQuantity,
-        totalmargin: (product.sellPrice - product.buyPrice) * saleQuantity,
-        owner_id: user.id,
-    };
-    const { data: saleData, error: saleInsertError } = await supabaseClient.from('sales').insert(salePayload).select().single();
+  const cancelDelivery = async (deliveryId: number) => {
+    const delivery = deliveries.find(d => d.id === deliveryId);
+    if (!delivery || !isOpenDelivery(delivery)) return;
 
-    if (saleInsertError) {
-        alert(saleInsertError.message);
-        // Rollback product update
-        await supabaseClient.from('products').update({ stock: product.stock, status: product.status }).eq('id', productId);
-    } else {
-        const updatedProduct = mapSupabaseRecordToProduct(updatedProductData);
-        setProducts(prev => prev.map(p => p.id === productId ? updatedProduct : p));
-        setSales(prev => [mapSupabaseRecordToSale(saleData), ...prev]);
-        await logActivity('sold', product, t('history.log.units_sold_from_delivery', { quantity: saleQuantity }));
+    try {
+        await cancelOpenDelivery(delivery);
+    } catch (error) {
+        console.error("Error cancelling delivery:", error);
+        alert((error as Error).message);
     }
   };
-  
-  const cancelDelivery = async (productId: number) => {
-    if (!supabaseClient) return;
-    const deliveryProduct = products.find(p => p.id === productId);
-    if (!deliveryProduct || deliveryProduct.status !== 'en livraison') return;
-    
-    // Attempt to find an original product to merge back into
-    const originalProduct = products.find(p => 
-        p.id !== deliveryProduct.id &&
-        p.name === deliveryProduct.name &&
-        p.category === deliveryProduct.category &&
-        p.supplier === deliveryProduct.supplier &&
-        p.status !== 'en livraison'
-    );
-
-    if (originalProduct) {
-        // Merge back into original product
-        try {
-            const newStock = originalProduct.stock + deliveryProduct.stock;
-            const { data: updatedOriginalData, error: updateError } = await supabaseClient.from('products')
-                .update({ stock: newStock, status: 'actif' })
-                .eq('id', originalProduct.id).select().single();
-            if (updateError) throw updateError;
-            
-            const { error: deleteError } = await supabaseClient.from('products').delete().eq('id', deliveryProduct.id);
-            if (deleteError) {
-                // Attempt to roll back stock update
-                await supabaseClient.from('products').update({ stock: originalProduct.stock }).eq('id', originalProduct.id);
-                throw deleteError;
-            }
-            
-            const updatedOriginalProduct = mapSupabaseRecordToProduct(updatedOriginalData);
-            setProducts(prev => prev.filter(p => p.id !== deliveryProduct.id).map(p => p.id === originalProduct.id ? updatedOriginalProduct : p));
 
-            await logActivity('delivery_cancelled', deliveryProduct, t('history.log.delivery_merge'));
+  // A courier with an adapter is booked first and gives the tracking number; any other one is simply noted as shipped
+  const shipDelivery = async (delivery: Delivery): Promise<Delivery | null> => {
+    const adapter = findCourierAdapter(delivery.courier);
+    if (!adapter || delivery.trackingNumber) return updateDelivery(delivery, { status: 'shipped' });
+
+    let trackingNumber: string;
+    try {
+        ({ trackingNumber } = await adapter.createShipment(shipmentRequest(delivery, customers.find(c => c.id === delivery.customerId))));
+    } catch (error) {
+        console.error("Error creating shipment:", error);
+        alert(t('deliveries.error.shipment_failed', { courier: adapter.name, message: (error as Error).message }));
+        return null;
+    }
+    return updateDelivery(delivery, { status: 'shipped', trackingNumber });
+  };
+
+  // Asks each carrier where its parcels are: delivered ones become sales, returned ones go back in stock.
+  // Carriers that cannot be reached are skipped until the next refresh. This runs unattended, so a delivery
+  // that cannot be updated is noted in deliverySyncErrors instead of alerting on every poll.
+  const fetchDeliveryStatuses = async () => {
+    if (!user) return;
+    const byAdapter = new Map<CourierAdapter, Delivery[]>();
+    deliveries.filter(isTrackedDelivery).forEach(d => {
+        const adapter = findCourierAdapter(d.courier)!;
+        byAdapter.set(adapter, [...(byAdapter.get(adapter) || []), d]);
+    });
 
+    const checked = new Set<number>();
+    const errors: Record<number, string> = {};
+    for (const [adapter, parcels] of byAdapter) {
+        let reports: ShipmentStatusReport[];
+        try {
+            reports = await adapter.fetchStatuses(parcels.map(d => d.trackingNumber!));
         } catch (error) {
-            alert((error as Error).message);
+            console.error(`Error fetching ${adapter.name} statuses:`, error);
+            continue;
         }
-    } else {
-        // Fallback: convert delivery item back to a normal, active product
-        const { data, error } = await supabaseClient.from('products').update({ status: 'actif' }).eq('id', productId).select().single();
-        if (error) {
-            alert(error.message);
-        } else {
-          const updatedProduct = mapSupabaseRecordToProduct(data);
-          setProducts(prev => prev.map(p => (p.id === productId ? updatedProduct : p)));
-          await logActivity('delivery_cancelled', updatedProduct);
+        parcels.forEach(d => checked.add(d.id));
+        for (const report of reports) {
+            const delivery = parcels.find(d => d.trackingNumber === report.trackingNumber);
+            if (!delivery) continue;
+            try {
+                if (report.status === 'delivered') {
+                    await confirmOpenDelivery(delivery);
+                } else if (report.status === 'returned') {
+                    await cancelOpenDelivery(delivery);
+                } else if (report.status === 'in_transit' && delivery.status === 'pending') {
+                    const updated = await repositories.deliveries.update(delivery.id, { status: 'shipped' });
+                    setDeliveries(prev => prev.map(d => d.id === updated.id ? updated : d));
+                }
+            } catch (error) {
+                console.error(`Error updating delivery ${delivery.id} from ${adapter.name}:`, error);
+                errors[delivery.id] = (error as Error).message;
+            }
         }
     }
+
+    // The errors of carriers skipped this time are kept until they answer again
+    setDeliverySyncErrors(prev => ({
+        ...Object.fromEntries(Object.entries(prev).filter(([id]) => !checked.has(Number(id)))),
+        ...errors,
+    }));
+  };
+
+  // The poll outlives renders, so it goes through a ref to act on the current deliveries.
+  // Only one refresh runs at a time, or a parcel could be confirmed twice.
+  const fetchDeliveryStatusesRef = useRef(fetchDeliveryStatuses);
+  fetchDeliveryStatusesRef.current = fetchDeliveryStatuses;
+  const isRefreshingDeliveryStatusesRef = useRef(false);
+
+  const refreshDeliveryStatuses = async () => {
+    if (isRefreshingDeliveryStatusesRef.current) return;
+    isRefreshingDeliveryStatusesRef.current = true;
+    setIsRefreshingDeliveryStatuses(true);
+    try {
+        await fetchDeliveryStatusesRef.current();
+        setDeliveryStatusesRefreshedAt(new Date());
+    } finally {
+        isRefreshingDeliveryStatusesRef.current = false;
+        setIsRefreshingDeliveryStatuses(false);
+    }
   };
 
+  // Carriers are polled whatever page is open, so parcels are confirmed or put back in stock without visiting the deliveries
+  const hasTrackedDeliveries = deliveries.some(isTrackedDelivery);
+  useEffect(() => {
+    if (!hasTrackedDeliveries) return;
+    const poll = () => {
+        if (navigator.onLine) refreshDeliveryStatuses();
+    };
+    poll();
+    const interval = setInterval(poll, DELIVERY_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasTrackedDeliveries]);
+
+  const recordCodRemittance = async (remittanceData: CodRemittanceFormData): Promise<CodRemittance | null> => {
+    try {
+        const { remittance, sales: paid } = await repositories.codRemittances.record(remittanceData);
+        setCodRemittances(prev => mergeRecords(prev, [remittance]));
+        setSales(prev => mergeRecords(prev, paid));
+        return remittance;
+    } catch (error) {
+        console.error("Error recording COD payout:", error);
+        alert((error as Error).message);
+        return null;
+    }
+  };
+
+  const deleteCodRemittance = async (remittanceId: number) => {
+    try {
+        const { sales: unpaid } = await repositories.codRemittances.remove(remittanceId);
+        setCodRemittances(prev => prev.filter(r => r.id !== remittanceId));
+        setSales(prev => mergeRecords(prev, unpaid));
+    } catch (error) {
+        console.error("Error deleting COD payout:", error);
+        alert((error as Error).message);
+    }
+  };
 
   const cancelSale = async (saleId: number) => {
-    if (!supabaseClient) return;
     const saleToCancel = sales.find(s => s.id === saleId);
     if (!saleToCancel) return;
 
-    const { error: deleteSaleError } = await supabaseClient.from('sales').delete().eq('id', saleId);
-    if (deleteSaleError) { alert(deleteSaleError.message); return; }
+    let restoredProduct: Product | null;
+    try {
+      const { product, movements } = await repositories.sales.cancel(saleId);
+      restoredProduct = product;
+      setStockMovements(prev => mergeRecords(prev, movements));
+    } catch (error) {
+      alert((error as Error).message);
+      return;
+    }
 
     setSales(prev => prev.filter(s => s.id !== saleId));
-    
-    const product = products.find(p => p.id === saleToCancel.productId);
-    if (product) {
-      const newStock = product.stock + saleToCancel.quantity;
-      const newStatus = newStock > 0 ? 'actif' : 'rupture';
-      const { data, error: stockUpdateError } = await supabaseClient.from('products')
-        .update({ stock: newStock, status: newStatus }).eq('id', product.id).select().single();
 
-      if (stockUpdateError) {
-        alert(t('sales.error_restoring_stock'));
-      } else {
-        const updatedProduct = mapSupabaseRecordToProduct(data);
-        setProducts(prev => prev.map(p => p.id === product.id ? updatedProduct : p));
-        await logActivity('sale_cancelled', product, t('history.log.sale_cancelled', { quantity: saleToCancel.quantity }));
-      }
+    if (restoredProduct) {
+      const updatedProduct = restoredProduct;
+      setProducts(prev => prev.map(p => p.id === updatedProduct.id ? updatedProduct : p));
+      await logActivity('sale_cancelled', restoredProduct, t('history.log.sale_cancelled', { quantity: saleToCancel.quantity }));
     } else {
       await logActivity('sale_cancelled', { id: saleToCancel.productId, name: saleToCancel.productName }, t('history.log.sale_cancelled_deleted_product'));
     }
   };
 
+  const checkout = async (data: CheckoutData): Promise<boolean> => {
+    if (!user || data.lines.length === 0) return false;
+
+    let result: { sales: Sale[]; products: Product[]; movements: StockMovement[] };
+    try {
+      result = await repositories.sales.checkout(data);
+    } catch (error) {
+      console.error("Error checking out order:", error);
+      alert((error as Error).message);
+      return false;
+    }
+
+    setProducts(prev => mergeRecords(prev, result.products));
+    setSales(prev => mergeRecords(prev, result.sales));
+    setStockMovements(prev => mergeRecords(prev, result.movements));
+    for (const sale of result.sales) {
+      const details = t('history.log.units_sold', { quantity: sale.quantity });
+      await logActivity('sold', { id: sale.productId, name: sale.productName }, withCustomer(sale.variantName ? `${details} (${sale.variantName})` : details, sale.customerId));
+    }
+    return true;
+  };
+
+  const cancelSaleOrder = async (orderId: number) => {
+    const lines = sales.filter(s => s.orderId === orderId);
+    if (lines.length === 0) return;
+
+    let restoredProducts: Product[];
+    try {
+      const { products: restocked, movements } = await repositories.sales.cancelOrder(orderId);
+      restoredProducts = restocked;
+      setStockMovements(prev => mergeRecords(prev, movements));
+    } catch (error) {
+      alert((error as Error).message);
+      return;
+    }
+
+    setSales(prev => prev.filter(s => s.orderId !== orderId));
+    setProducts(prev => mergeRecords(prev, restoredProducts));
+    for (const line of lines) {
+      const restored = restoredProducts.some(p => p.id === line.productId);
+      await logActivity('sale_cancelled', { id: line.productId, name: line.productName },
+        restored ? t('history.log.sale_cancelled', { quantity: line.quantity }) : t('history.log.sale_cancelled_deleted_product'));
+    }
+  };
+
+  // Part or all of a sale coming back. The sale itself stays, the return is counted against it.
+  const returnSale = async (saleId: number, returnData: SaleReturnFormData): Promise<SaleReturn | null> => {
+    const sale = sales.find(s => s.id === saleId);
+    if (!sale) return null;
+
+    let result: { saleReturn: SaleReturn; product: Product | null; movements: StockMovement[] };
+    try {
+      result = await repositories.saleReturns.create(saleId, returnData);
+    } catch (error) {
+      console.error("Error recording return:", error);
+      alert((error as Error).message);
+      return null;
+    }
+
+    const { saleReturn, product, movements } = result;
+    setSaleReturns(prev => mergeRecords(prev, [saleReturn]));
+    if (product) setProducts(prev => mergeRecords(prev, [product]));
+    setStockMovements(prev => mergeRecords(prev, movements));
+    const details = t(saleReturn.restock ? 'history.log.returned_restocked' : 'history.log.returned_written_off', {
+      quantity: saleReturn.quantity,
+      reason: t(`returns.reason.${saleReturn.reason}`),
+    });
+    await logActivity('returned', { id: sale.productId, name: sale.productName }, sale.variantName ? `${details} (${sale.variantName})` : details);
+    return saleReturn;
+  };
+
+  const savePurchaseOrder = async (orderId: number | null, orderData: PurchaseOrderFormData): Promise<PurchaseOrder | null> => {
+    try {
+      const order = await repositories.purchaseOrders.save(orderId, orderData);
+      setPurchaseOrders(prev => mergeRecords(prev, [order]));
+      refreshSuppliersFor([order]);
+      return order;
+    } catch (error) {
+      console.error("Error saving purchase order:", error);
+      alert((error as Error).message);
+      return null;
+    }
+  };
+
+  const markPurchaseOrderOrdered = async (orderId: number) => {
+    try {
+      const order = await repositories.purchaseOrders.markOrdered(orderId);
+      setPurchaseOrders(prev => mergeRecords(prev, [order]));
+    } catch (error) {
+      console.error("Error updating purchase order:", error);
+      alert((error as Error).message);
+    }
+  };
+
+  const deletePurchaseOrder = async (orderId: number) => {
+    try {
+      await repositories.purchaseOrders.remove(orderId);
+      setPurchaseOrders(prev => prev.filter(o => o.id !== orderId));
+    } catch (error) {
+      console.error("Error deleting purchase order:", error);
+      alert((error as Error).message);
+    }
+  };
+
+  const receivePurchaseOrder = async (orderId: number, receipts: GoodsReceipt[]): Promise<PurchaseOrder | null> => {
+    const receivable = receipts.filter(r => r.quantity > 0);
+    if (receivable.length === 0) return null;
+
+    let result: { order: PurchaseOrder; products: Product[]; movements: StockMovement[] };
+    try {
+      result = await repositories.purchaseOrders.receive(orderId, receivable);
+    } catch (error) {
+      console.error("Error receiving purchase order:", error);
+      alert((error as Error).message);
+      return null;
+    }
+
+    setPurchaseOrders(prev => mergeRecords(prev, [result.order]));
+    setProducts(prev => mergeRecords(prev, result.products));
+    setStockMovements(prev => mergeRecords(prev, result.movements));
+
+    for (const receipt of receivable) {
+      const line = result.order.lines.find(l => l.id === receipt.lineId);
+      if (!line || line.productId === null) continue;
+      const { currency: orderCurrency, exchangeRate } = result.order;
+      // An import is logged at what it was invoiced, then at what it comes to here
+      const cost = orderCurrency
+        ? `${formatMoney(receipt.unitCost, orderCurrency, localeMap[language])} (${formatCurrency(landedCost(receipt.unitCost, exchangeRate))})`
+        : formatCurrency(receipt.unitCost);
+      const details = t('history.log.received', { quantity: receipt.quantity, supplier: result.order.supplier, cost });
+      await logActivity('received', { id: line.productId, name: line.productName }, line.variantName ? `${details} (${line.variantName})` : details);
+    }
+    return result.order;
+  };
+
+  const startInventoryCount = async (scope: InventoryCountScope): Promise<InventoryCount | null> => {
+    try {
+      const count = await repositories.inventoryCounts.start(scope);
+      setInventoryCounts(prev => mergeRecords(prev, [count]));
+      return count;
+    } catch (error) {
+      console.error("Error starting inventory count:", error);
+      alert((error as Error).message);
+      return null;
+    }
+  };
+
+  const recordInventoryCount = async (lineId: number, counted: number | null): Promise<boolean> => {
+    try {
+      const line = await repositories.inventoryCounts.record(lineId, counted);
+      setInventoryCounts(prev => applyInventoryCountLineChange(prev, { type: 'update', record: line }));
+      return true;
+    } catch (error) {
+      console.error("Error recording count:", error);
+      alert((error as Error).message);
+      return false;
+    }
+  };
+
+  const postInventoryCount = async (countId: number): Promise<InventoryCount | null> => {
+    let result: { count: InventoryCount; products: Product[]; movements: StockMovement[] };
+    try {
+      result = await repositories.inventoryCounts.post(countId);
+    } catch (error) {
+      console.error("Error posting inventory count:", error);
+      alert((error as Error).message);
+      return null;
+    }
+
+    setInventoryCounts(prev => mergeRecords(prev, [result.count]));
+    setProducts(prev => mergeRecords(prev, result.products));
+    setStockMovements(prev => mergeRecords(prev, result.movements));
+
+    // One entry per product, covering every variant that was found off
+    for (const product of result.products) {
+      const adjusted = result.count.lines.filter(l => l.productId === product.id && l.expected !== undefined && l.counted !== l.expected);
+      if (adjusted.length === 0) continue;
+      const details = adjusted.map(l => {
+        const detail = t('history.log.counted', { counted: l.counted!, expected: l.expected! });
+        return l.variantName ? `${detail} (${l.variantName})` : detail;
+      });
+      await logActivity('counted', product, details.join(', '));
+    }
+    return result.count;
+  };
+
+  const deleteInventoryCount = async (countId: number) => {
+    try {
+      await repositories.inventoryCounts.remove(countId);
+      setInventoryCounts(prev => prev.filter(c => c.id !== countId));
+    } catch (error) {
+      console.error("Error deleting inventory count:", error);
+      alert((error as Error).message);
+    }
+  };
+
+  const addStockLocation = async (locationData: StockLocationFormData): Promise<StockLocation | null> => {
+    if (!user) return null;
+    try {
+      const location = await repositories.stockLocations.create({ ...locationData, ownerId: user.id });
+      setStockLocations(prev => mergeRecords(prev, [location]).sort((a, b) => a.name.localeCompare(b.name)));
+      return location;
+    } catch (error) {
+      console.error("Error adding location:", error);
+      alert((error as Error).message);
+      return null;
+    }
+  };
+
+  const updateStockLocation = async (location: StockLocation, locationData: StockLocationFormData): Promise<StockLocation | null> => {
+    try {
+      const updated = await repositories.stockLocations.update(location.id, locationData);
+      setStockLocations(prev => prev.map(l => l.id === updated.id ? updated : l).sort((a, b) => a.name.localeCompare(b.name)));
+      return updated;
+    } catch (error) {
+      console.error("Error updating location:", error);
+      alert((error as Error).message);
+      return null;
+    }
+  };
+
+  const deleteStockLocation = async (locationId: number) => {
+    // The backend would delete the levels with the location, and the units would silently end up at the main shop
+    const holdsStock = products.some(p => unitsAt(p, locationId, stockLevels, stockTransfers) > 0);
+    const awaitsStock = stockTransfers.some(tr => tr.status === 'in_transit' && (tr.fromLocationId === locationId || tr.toLocationId === locationId));
+    if (holdsStock || awaitsStock) {
+      alert(t('locations.error.not_empty'));
+      return;
+    }
+    try {
+      await repositories.stockLocations.remove(locationId);
+      setStockLocations(prev => prev.filter(l => l.id !== locationId));
+      setStockLevels(prev => prev.filter(l => l.locationId !== locationId));
+      setStockTransfers(prev => prev.filter(tr => tr.fromLocationId !== locationId && tr.toLocationId !== locationId));
+    } catch (error) {
+      console.error("Error deleting location:", error);
+      alert((error as Error).message);
+    }
+  };
+
+  const byNewestStart = (a: Promotion, b: Promotion) => b.startsAt.localeCompare(a.startsAt);
+
+  const addPromotion = async (promotionData: PromotionFormData): Promise<Promotion | null> => {
+    if (!user) return null;
+    try {
+      const promotion = await repositories.promotions.create({ ...promotionData, ownerId: user.id });
+      setPromotions(prev => mergeRecords(prev, [promotion]).sort(byNewestStart));
+      return promotion;
+    } catch (error) {
+      console.error("Error adding promotion:", error);
+      alert((error as Error).message);
+      return null;
+    }
+  };
+
+  const updatePromotion = async (promotion: Promotion, promotionData: PromotionFormData): Promise<Promotion | null> => {
+    try {
+      const updated = await repositories.promotions.update(promotion.id, promotionData);
+      setPromotions(prev => prev.map(p => p.id === updated.id ? updated : p).sort(byNewestStart));
+      return updated;
+    } catch (error) {
+      console.error("Error updating promotion:", error);
+      alert((error as Error).message);
+      return null;
+    }
+  };
+
+  const deletePromotion = async (promotionId: number) => {
+    try {
+      await repositories.promotions.remove(promotionId);
+      setPromotions(prev => prev.filter(p => p.id !== promotionId));
+      setSales(prev => prev.map(s => s.promotionId === promotionId ? { ...s, promotionId: undefined } : s));
+    } catch (error) {
+      console.error("Error deleting promotion:", error);
+      alert((error as Error).message);
+    }
+  };
+
+  const saveTaxRate = async (category: string, rate: number): Promise<TaxRate | null> => {
+    if (!user) return null;
+    try {
+      const taxRate = await repositories.taxRates.save({ category, rate, ownerId: user.id });
+      setTaxRates(prev => mergeRecords(prev, [taxRate]).sort((a, b) => a.category.localeCompare(b.category)));
+      return taxRate;
+    } catch (error) {
+      console.error("Error saving TVA rate:", error);
+      alert((error as Error).message);
+      return null;
+    }
+  };
+
+  const deleteTaxRate = async (taxRateId: number) => {
+    try {
+      await repositories.taxRates.remove(taxRateId);
+      setTaxRates(prev => prev.filter(r => r.id !== taxRateId));
+    } catch (error) {
+      console.error("Error deleting TVA rate:", error);
+      alert((error as Error).message);
+    }
+  };
+
+  const applyLandedCost = async (data: LandedCostFormData): Promise<LandedCost | null> => {
+    let result: { landedCost: LandedCost; products: Product[] };
+    try {
+      result = await repositories.landedCosts.apply(data);
+    } catch (error) {
+      console.error("Error applying landed cost:", error);
+      alert((error as Error).message);
+      return null;
+    }
+
+    setLandedCosts(prev => mergeRecords(prev, [result.landedCost]));
+    setProducts(prev => mergeRecords(prev, result.products));
+    for (const line of result.landedCost.lines) {
+      const details = t('history.log.costed', {
+        from: formatCurrency(line.unitCost), to: formatCurrency(line.landedUnitCost), amount: formatCurrency(line.allocated), quantity: line.quantity,
+      });
+      await logActivity('costed', { id: line.productId, name: line.productName }, line.variantName ? `${details} (${line.variantName})` : details);
+    }
+    return result.landedCost;
+  };
+
+  const addStockLot = async (lot: StockLotFormData): Promise<boolean> => {
+    try {
+      const product = await repositories.stockLots.create(lot);
+      setProducts(prev => mergeRecords(prev, [product]));
+      return true;
+    } catch (error) {
+      console.error("Error adding lot:", error);
+      alert((error as Error).message);
+      return false;
+    }
+  };
+
+  const removeStockLot = async (lotId: number) => {
+    try {
+      const product = await repositories.stockLots.remove(lotId);
+      setProducts(prev => mergeRecords(prev, [product]));
+    } catch (error) {
+      console.error("Error removing lot:", error);
+      alert((error as Error).message);
+    }
+  };
+
+  const sendStockTransfer = async (transferData: StockTransferFormData): Promise<StockTransfer | null> => {
+    try {
+      const { transfer, levels } = await repositories.stockTransfers.send(transferData);
+      setStockTransfers(prev => mergeRecords(prev, [transfer]));
+      setStockLevels(prev => mergeRecords(prev, levels));
+      return transfer;
+    } catch (error) {
+      console.error("Error sending transfer:", error);
+      alert((error as Error).message);
+      return null;
+    }
+  };
+
+  const receiveStockTransfer = async (transferId: number) => {
+    try {
+      const { transfer, levels } = await repositories.stockTransfers.receive(transferId);
+      setStockTransfers(prev => mergeRecords(prev, [transfer]));
+      setStockLevels(prev => mergeRecords(prev, levels));
+    } catch (error) {
+      console.error("Error receiving transfer:", error);
+      alert((error as Error).message);
+    }
+  };
+
+  const cancelStockTransfer = async (transferId: number) => {
+    try {
+      const { levels } = await repositories.stockTransfers.cancel(transferId);
+      setStockTransfers(prev => prev.filter(tr => tr.id !== transferId));
+      setStockLevels(prev => mergeRecords(prev, levels));
+    } catch (error) {
+      console.error("Error cancelling transfer:", error);
+      alert((error as Error).message);
+    }
+  };
+
+  const addSupplier = async (supplierData: SupplierFormData): Promise<Supplier | null> => {
+    if (!user) return null;
+    try {
+      const supplier = await repositories.suppliers.create({ ...supplierData, ownerId: user.id });
+      setSuppliers(prev => mergeRecords(prev, [supplier]).sort((a, b) => a.name.localeCompare(b.name)));
+      return supplier;
+    } catch (error) {
+      console.error("Error adding supplier:", error);
+      alert((error as Error).message);
+      return null;
+    }
+  };
+
+  const updateSupplier = async (supplier: Supplier, supplierData: SupplierFormData): Promise<Supplier | null> => {
+    try {
+      const updated = await repositories.suppliers.update(supplier.id, supplierData);
+      setSuppliers(prev => prev.map(s => s.id === updated.id ? updated : s).sort((a, b) => a.name.localeCompare(b.name)));
+      // The backend renames the supplier on its products and orders as well
+      if (updated.name !== supplier.name) {
+        setProducts(prev => prev.map(p => p.supplierId === updated.id ? { ...p, supplier: updated.name } : p));
+        setPurchaseOrders(prev => prev.map(o => o.supplierId === updated.id ? { ...o, supplier: updated.name } : o));
+      }
+      return updated;
+    } catch (error) {
+      console.error("Error updating supplier:", error);
+      alert((error as Error).message);
+      return null;
+    }
+  };
+
+  const deleteSupplier = async (supplierId: number) => {
+    try {
+      await repositories.suppliers.remove(supplierId);
+      setSuppliers(prev => prev.filter(s => s.id !== supplierId));
+      setProducts(prev => prev.map(p => p.supplierId === supplierId ? { ...p, supplierId: undefined } : p));
+      setPurchaseOrders(prev => prev.map(o => o.supplierId === supplierId ? { ...o, supplierId: undefined } : o));
+    } catch (error) {
+      console.error("Error deleting supplier:", error);
+      alert((error as Error).message);
+    }
+  };
+
+  const addCustomer = async (customerData: CustomerFormData): Promise<Customer | null> => {
+    if (!user) return null;
+    try {
+      const customer = await repositories.customers.create({ ...customerData, ownerId: user.id });
+      setCustomers(prev => mergeRecords(prev, [customer]).sort((a, b) => a.name.localeCompare(b.name)));
+      return customer;
+    } catch (error) {
+      console.error("Error adding customer:", error);
+      alert((error as Error).message);
+      return null;
+    }
+  };
+
+  const updateCustomer = async (customer: Customer, customerData: CustomerFormData): Promise<Customer | null> => {
+    try {
+      const updated = await repositories.customers.update(customer.id, customerData);
+      setCustomers(prev => prev.map(c => c.id === updated.id ? updated : c).sort((a, b) => a.name.localeCompare(b.name)));
+      return updated;
+    } catch (error) {
+      console.error("Error updating customer:", error);
+      alert((error as Error).message);
+      return null;
+    }
+  };
+
+  const deleteCustomer = async (customerId: number) => {
+    try {
+      await repositories.customers.remove(customerId);
+      setCustomers(prev => prev.filter(c => c.id !== customerId));
+      setSales(prev => prev.map(s => s.customerId === customerId ? { ...s, customerId: undefined } : s));
+      setDeliveries(prev => prev.map(d => d.customerId === customerId ? { ...d, customerId: undefined } : d));
+    } catch (error) {
+      console.error("Error deleting customer:", error);
+      alert((error as Error).message);
+    }
+  };
+
   const saveSupabaseCredentials = (url: string, anonKey: string) => {
     storage.setSupabaseCredentials(url, anonKey);
     alert(t('settings.supabase.saved_message'));
@@ -666,6 +1444,21 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return scoredProducts.filter(p => p.score > 0).sort((a, b) => b.score - a.score);
   };
 
+  // Codes are matched against products and their variants
+  const findProductByCode = (code: string): { product: Product; variant?: ProductVariant } | null => {
+      const value = code.trim().toLowerCase();
+      if (!value) return null;
+      const matches = (item: { sku?: string; barcode?: string }) =>
+          item.sku?.trim().toLowerCase() === value || item.barcode?.trim().toLowerCase() === value;
+
+      for (const product of products) {
+          const variant = product.variants?.find(matches);
+          if (variant) return { product, variant };
+          if (matches(product)) return { product };
+      }
+      return null;
+  };
+
   const testSupabaseConnection = async (): Promise<{ success: boolean; error?: string; dbOk?: boolean; storageOk?: boolean; }> => {
     if (!supabaseClient) return { success: false, error: 'Supabase client not initialized' };
     
@@ -702,12 +1495,16 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const closeVisualSearch = () => setIsVisualSearchOpen(false);
 
   const value = {
-    products, sales, activityLog, theme, language, isLoading,
-    session, user, notifications, isVisualSearchOpen, productDataForForm, visualSearchQuery, setTheme, setLanguage, t, login, logout,
-    addProduct, addMultipleProducts, updateProduct, updateMultipleProducts, deleteProduct, deleteMultipleProducts, 
-    duplicateProduct, setProductToDelivery, confirmSaleFromDelivery, cancelDelivery, addSale, cancelSale, markNotificationAsRead, markAllNotificationsAsRead,
-    isConfigured, saveSupabaseCredentials, saveGeminiApiKey, refetchData, findProductByName, findProductsByKeywords, testSupabaseConnection,
-    openVisualSearch, closeVisualSearch, setProductDataForForm, setVisualSearchQuery
+    products, sales, activityLog, purchaseOrders, suppliers, customers, saleReturns, stockMovements, priceChanges, inventoryCounts, stockLocations, stockLevels, stockTransfers, deliveries, deliverySyncErrors, isRefreshingDeliveryStatuses, deliveryStatusesRefreshedAt, codRemittances, promotions, taxRates, landedCosts, theme, language, currency, costingMethod, isLoading,
+    session, user, notifications, isVisualSearchOpen, productDataForForm, visualSearchQuery, pendingSync, setTheme, setLanguage, setCurrency, setCostingMethod, t, formatCurrency, login, logout,
+    addProduct, addMultipleProducts, updateProduct, updateMultipleProducts, revertBulkPriceChange, deleteProduct, deleteMultipleProducts, 
+    duplicateProduct, createDelivery, updateDelivery, confirmSaleFromDelivery, cancelDelivery, shipDelivery, refreshDeliveryStatuses, recordCodRemittance, deleteCodRemittance, addSale, cancelSale, checkout, cancelSaleOrder, returnSale,
+    savePurchaseOrder, markPurchaseOrderOrdered, deletePurchaseOrder, receivePurchaseOrder,
+    startInventoryCount, recordInventoryCount, postInventoryCount, deleteInventoryCount,
+    addStockLocation, updateStockLocation, deleteStockLocation, addPromotion, updatePromotion, deletePromotion, saveTaxRate, deleteTaxRate, applyLandedCost, addStockLot, removeStockLot, sendStockTransfer, receiveStockTransfer, cancelStockTransfer, addSupplier, updateSupplier, deleteSupplier,
+    addCustomer, updateCustomer, deleteCustomer, markNotificationAsRead, markAllNotificationsAsRead,
+    isConfigured, saveSupabaseCredentials, saveGeminiApiKey, refetchData, findProductByName, findProductsByKeywords, findProductByCode, testSupabaseConnection,
+    openVisualSearch, closeVisualSearch, setProductDataForForm, setVisualSearchQuery, productAction, setProductAction
   };
 
   return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
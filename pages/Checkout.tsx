@@ -0,0 +1,244 @@
+import React, { useState, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAppContext } from '../context/AppContext';
+import { ShoppingCartIcon, SearchIcon, DeleteIcon, ProductsIcon } from '../components/Icons';
+import type { Product, CheckoutLine, SalePayment } from '../types';
+import { motion } from 'framer-motion';
+import CustomerPicker from '../components/CustomerPicker';
+import PaymentInput from '../components/PaymentInput';
+import { cashPayment, fitPayments, paymentsError } from '../services/payments';
+import { priceSale } from '../services/promotions';
+import { netOfTax, productTax } from '../services/taxes';
+import { allocateDiscount } from '../services/saleOrders';
+import { variantLabel } from '../services/variants';
+
+const inputClassName = "w-full bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-2 text-gray-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+
+const MAX_RESULTS = 6;
+
+// A product with variants is sold one variant at a time, like in the sale modal
+const firstAvailableVariant = (product: Product) => (product.variants?.find(v => v.stock > 0) || product.variants?.[0])?.id;
+
+const Checkout: React.FC = () => {
+    const { products, promotions, taxRates, checkout, findProductByCode, t, currency, formatCurrency } = useAppContext();
+    const navigate = useNavigate();
+    const [query, setQuery] = useState('');
+    const [lines, setLines] = useState<CheckoutLine[]>([]);
+    const [customerId, setCustomerId] = useState<number | undefined>(undefined);
+    const [discount, setDiscount] = useState(0);
+    const [payments, setPayments] = useState<SalePayment[]>(cashPayment(0));
+    const [isSaving, setIsSaving] = useState(false);
+
+    const results = useMemo(() => {
+        const text = query.trim().toLowerCase();
+        if (!text) return [];
+        return products.filter(p =>
+            p.name.toLowerCase().includes(text) ||
+            p.sku?.toLowerCase().includes(text) ||
+            p.barcode?.includes(text)
+        ).slice(0, MAX_RESULTS);
+    }, [products, query]);
+
+    const lineDetails = (line: CheckoutLine) => {
+        const product = products.find(p => p.id === line.productId);
+        const variant = line.variantId !== undefined ? product?.variants?.find(v => v.id === line.variantId) : undefined;
+        // Promotions running now apply, as they will when the order is recorded
+        const unitPrice = product ? priceSale(product, variant, line.quantity, promotions).unitPrice : 0;
+        return {
+            product,
+            variant,
+            stock: (variant || product)?.stock ?? 0,
+            unitPrice,
+            tax: product ? productTax(product, taxRates, unitPrice * line.quantity) : { taxRate: 0, net: 0, tax: 0, gross: 0 },
+        };
+    };
+
+    const lineTaxes = lines.map(line => lineDetails(line).tax);
+    const subtotal = lineTaxes.reduce((sum, tax) => sum + tax.gross, 0);
+    const discountError = discount < 0 || discount > subtotal ? t('checkout.error.discount_too_high') : '';
+    const stockError = lines.some(line => line.quantity < 1 || line.quantity > lineDetails(line).stock);
+    const total = Math.max(0, subtotal - discount);
+    // The discount comes off each line's gross, and the TVA in it goes down with it
+    const taxTotal = discountError ? 0 : allocateDiscount(lineTaxes.map(tax => tax.gross), discount)
+        .reduce((sum, share, index) => sum + (lineTaxes[index].gross - share) - netOfTax(lineTaxes[index].gross - share, lineTaxes[index].taxRate), 0);
+    const orderPayments = fitPayments(payments, total);
+    const paymentError = lines.length > 0 ? paymentsError(orderPayments, total, customerId) : null;
+
+    // Adding what is already in the cart sells one more of it
+    const addToCart = (product: Product, variantId?: number) => {
+        const chosenVariantId = variantId ?? firstAvailableVariant(product);
+        setLines(prev => prev.some(l => l.productId === product.id && l.variantId === chosenVariantId)
+            ? prev.map(l => l.productId === product.id && l.variantId === chosenVariantId ? { ...l, quantity: l.quantity + 1 } : l)
+            : [...prev, { productId: product.id, variantId: chosenVariantId, quantity: 1 }]);
+        setQuery('');
+    };
+
+    // Barcode scanners type the code and press Enter
+    const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key !== 'Enter') return;
+        e.preventDefault();
+        const match = findProductByCode(query);
+        if (match) {
+            addToCart(match.product, match.variant?.id);
+        } else if (results.length === 1) {
+            addToCart(results[0]);
+        }
+    };
+
+    const updateLine = (index: number, changes: Partial<CheckoutLine>) => {
+        setLines(prev => prev.map((l, i) => i === index ? { ...l, ...changes } : l));
+    };
+
+    const handleConfirm = async () => {
+        if (lines.length === 0 || discountError || stockError || paymentError) return;
+        setIsSaving(true);
+        const done = await checkout({ lines, discount, customerId, payments: orderPayments });
+        setIsSaving(false);
+        if (done) navigate('/sales');
+    };
+
+    return (
+        <div>
+            <div className="flex flex-col sm:flex-row justify-between items-center gap-4 mb-6">
+                <h2 className="text-2xl font-bold text-slate-900 dark:text-white">{t('checkout.title')}</h2>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="lg:col-span-2 space-y-4">
+                    <div className="relative">
+                        <SearchIcon className="w-5 h-5 absolute top-1/2 -translate-y-1/2 start-3 text-slate-400" />
+                        <input
+                            type="search"
+                            value={query}
+                            onChange={e => setQuery(e.target.value)}
+                            onKeyDown={handleSearchKeyDown}
+                            placeholder={t('checkout.search_placeholder')}
+                            className="w-full bg-white dark:bg-slate-800/50 border border-slate-300 dark:border-slate-700 rounded-lg py-2 ps-10 pe-3 text-slate-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                            autoComplete="off"
+                            autoFocus
+                        />
+                        {query.trim() && (
+                            <ul className="absolute z-10 mt-1 w-full bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg divide-y divide-slate-200 dark:divide-slate-700 shadow-lg overflow-hidden">
+                                {results.length === 0 ? (
+                                    <li className="px-3 py-2 text-sm text-slate-500 dark:text-slate-400">{t('checkout.no_results')}</li>
+                                ) : results.map(product => (
+                                    <li key={product.id}>
+                                        <button type="button" onClick={() => addToCart(product)} disabled={product.stock < 1} className="w-full flex justify-between items-center text-start px-3 py-2 hover:bg-slate-100 dark:hover:bg-slate-700/60 disabled:opacity-50">
+                                            <span className="font-medium text-slate-900 dark:text-white">{product.name}</span>
+                                            <span className="text-xs text-slate-500 dark:text-slate-400">{formatCurrency(product.sellPrice)} · {t('checkout.in_stock', { stock: product.stock })}</span>
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+
+                    <div className="bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 rounded-2xl overflow-hidden">
+                        {lines.length === 0 ? (
+                            <div className="text-center py-10">
+                                <ShoppingCartIcon className="w-12 h-12 mx-auto text-slate-400 dark:text-slate-500 mb-3" />
+                                <p className="text-slate-600 dark:text-slate-400">{t('checkout.empty_cart')}</p>
+                            </div>
+                        ) : (
+                            <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+                                {lines.map((line, index) => {
+                                    const { product, stock, unitPrice } = lineDetails(line);
+                                    if (!product) return null;
+                                    return (
+                                        <li key={`${index}-${line.productId}`} className="p-4 flex flex-wrap items-center gap-4">
+                                            {product.imageUrl ? (
+                                                <img src={product.imageUrl} alt={product.name} className="w-12 h-12 object-cover rounded-md" />
+                                            ) : (
+                                                <div className="w-12 h-12 bg-slate-200 dark:bg-slate-700/50 rounded-md flex items-center justify-center">
+                                                    <ProductsIcon className="w-6 h-6 text-slate-400" />
+                                                </div>
+                                            )}
+                                            <div className="flex-1 min-w-[10rem]">
+                                                <p className="font-semibold text-slate-900 dark:text-white">{product.name}</p>
+                                                <p className="text-xs text-slate-500 dark:text-slate-400">{formatCurrency(unitPrice)}</p>
+                                                {product.variants && product.variants.length > 0 && (
+                                                    <select
+                                                        value={line.variantId ?? ''}
+                                                        onChange={e => updateLine(index, { variantId: Number(e.target.value), quantity: 1 })}
+                                                        className="mt-1 bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-1 text-sm text-gray-900 dark:text-white"
+                                                    >
+                                                        {product.variants.map(v => (
+                                                            <option key={v.id} value={v.id} disabled={v.stock === 0}>{variantLabel(v)} ({v.stock})</option>
+                                                        ))}
+                                                    </select>
+                                                )}
+                                            </div>
+                                            <div className="w-24">
+                                                <input
+                                                    type="number" min="1" max={stock} step="1"
+                                                    value={line.quantity}
+                                                    onChange={e => updateLine(index, { quantity: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                                                    className={inputClassName}
+                                                    aria-label={t('sale_modal.quantity_label')}
+                                                />
+                                                {line.quantity > stock && <p className="text-red-500 text-xs mt-1">{t('sale_modal.error.not_enough_stock', { stock })}</p>}
+                                            </div>
+                                            <p className="w-28 text-end font-semibold text-slate-900 dark:text-white">{formatCurrency(unitPrice * line.quantity)}</p>
+                                            <motion.button
+                                                onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                                                className="p-2 rounded-md transition-colors bg-red-500/10 hover:bg-red-500/20 text-red-500"
+                                                title={t('checkout.remove_line')}
+                                                whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}
+                                            >
+                                                <DeleteIcon className="w-5 h-5" />
+                                            </motion.button>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+
+                <div className="bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 rounded-2xl p-6 space-y-4 h-fit">
+                    <CustomerPicker value={customerId} onChange={setCustomerId} />
+                    <div>
+                        <label htmlFor="checkout-discount" className="block text-sm font-medium text-gray-600 dark:text-slate-300 mb-1">{t('checkout.discount_label', { currency })}</label>
+                        <input
+                            type="number" id="checkout-discount" min="0" step="0.01"
+                            value={discount}
+                            onChange={e => setDiscount(parseFloat(e.target.value) || 0)}
+                            className={inputClassName}
+                        />
+                        {discountError && <p className="text-red-500 text-xs mt-1">{discountError}</p>}
+                    </div>
+                    <div>
+                        <PaymentInput total={total} payments={payments} onChange={setPayments} />
+                        {paymentError && paymentError !== 'mismatch' && <p className="text-red-500 text-xs mt-1">{t(`payments.error.${paymentError}`)}</p>}
+                    </div>
+                    <dl className="space-y-2 text-sm border-t border-slate-200 dark:border-slate-700 pt-4">
+                        <div className="flex justify-between text-slate-600 dark:text-slate-400">
+                            <dt>{t('checkout.subtotal')}</dt><dd>{formatCurrency(subtotal)}</dd>
+                        </div>
+                        <div className="flex justify-between text-slate-600 dark:text-slate-400">
+                            <dt>{t('checkout.discount')}</dt><dd>- {formatCurrency(discount)}</dd>
+                        </div>
+                        <div className="flex justify-between text-lg font-bold text-slate-900 dark:text-white">
+                            <dt>{t('checkout.total')}</dt><dd>{formatCurrency(total)}</dd>
+                        </div>
+                        {taxTotal > 0 && (
+                            <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400">
+                                <dt>{t('taxes.included_total')}</dt><dd>{formatCurrency(taxTotal)}</dd>
+                            </div>
+                        )}
+                    </dl>
+                    <motion.button
+                        onClick={handleConfirm}
+                        disabled={isSaving || lines.length === 0 || !!discountError || stockError || !!paymentError}
+                        className="w-full text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg px-4 py-3 disabled:opacity-50"
+                        whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }}
+                    >
+                        {t('checkout.confirm_button')}
+                    </motion.button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default Checkout;
@@ -0,0 +1,152 @@
+import React, { useState, useMemo } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { CustomersIcon, AddIcon, EditIcon, DeleteIcon, ViewDetailsIcon, SearchIcon } from '../components/Icons';
+import type { Language, Customer, CustomerFormData } from '../types';
+import { motion } from 'framer-motion';
+import ConfirmationModal from '../components/ConfirmationModal';
+import CustomerForm from '../components/CustomerForm';
+import CustomerDetailsModal from '../components/CustomerDetailsModal';
+import { customerStats, searchCustomers } from '../services/customers';
+
+const localeMap: Record<Language, string> = {
+    fr: 'fr-FR',
+    en: 'en-GB',
+    ar: 'ar-SA-u-nu-latn',
+};
+
+const Customers: React.FC = () => {
+    const { customers, sales, deliveries, addCustomer, updateCustomer, deleteCustomer, t, language, formatCurrency } = useAppContext();
+    const [searchTerm, setSearchTerm] = useState('');
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [customerToEdit, setCustomerToEdit] = useState<Customer | null>(null);
+    const [customerToShow, setCustomerToShow] = useState<Customer | null>(null);
+    const [customerToDelete, setCustomerToDelete] = useState<Customer | null>(null);
+    const locale = localeMap[language];
+
+    const stats = useMemo(
+        () => new Map(customers.map(c => [c.id, customerStats(c.id, sales, deliveries)])),
+        [customers, sales, deliveries]
+    );
+    const filteredCustomers = useMemo(() => searchCustomers(customers, searchTerm), [customers, searchTerm]);
+
+    const formatDate = (isoString: string) => new Date(isoString).toLocaleDateString(locale, { dateStyle: 'medium' });
+
+    const handleOpenForm = (customer: Customer | null) => {
+        setCustomerToEdit(customer);
+        setIsFormOpen(true);
+    };
+
+    const handleSave = async (customerData: CustomerFormData) => {
+        const saved = customerToEdit ? await updateCustomer(customerToEdit, customerData) : await addCustomer(customerData);
+        if (saved) setIsFormOpen(false);
+    };
+
+    const newCustomerButton = (
+        <motion.button
+            onClick={() => handleOpenForm(null)}
+            className="flex items-center text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg px-4 py-2"
+            whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}
+        >
+            <AddIcon className="w-5 h-5 me-2" />{t('customers.new_button')}
+        </motion.button>
+    );
+
+    const tableHeaders = ['name', 'phone', 'wilaya', 'purchases', 'lifetime_value', 'last_purchase', 'outstanding', 'actions'];
+
+    return (
+        <div>
+            <div className="flex flex-col sm:flex-row justify-between items-center gap-4 mb-6">
+                <h2 className="text-2xl font-bold text-slate-900 dark:text-white">{t('customers.title')}</h2>
+                {customers.length > 0 && (
+                    <div className="flex items-center gap-4">
+                        <div className="relative">
+                            <SearchIcon className="w-5 h-5 absolute top-1/2 -translate-y-1/2 start-3 text-slate-400" />
+                            <input
+                                type="search"
+                                value={searchTerm}
+                                onChange={e => setSearchTerm(e.target.value)}
+                                placeholder={t('customers.search_placeholder')}
+                                className="bg-white dark:bg-slate-800/50 border border-slate-300 dark:border-slate-700 rounded-lg py-2 ps-10 pe-3 text-slate-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                            />
+                        </div>
+                        {newCustomerButton}
+                    </div>
+                )}
+            </div>
+
+            {customers.length === 0 ? (
+                <div className="text-center py-10">
+                    <CustomersIcon className="w-16 h-16 mx-auto text-slate-400 dark:text-slate-500 mb-4" />
+                    <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-2">{t('customers.empty.title')}</h2>
+                    <p className="text-slate-600 dark:text-slate-400 mb-6">{t('customers.empty.subtitle')}</p>
+                    <div className="flex justify-center">{newCustomerButton}</div>
+                </div>
+            ) : (
+                <div className="bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 rounded-2xl overflow-hidden">
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-left rtl:text-right text-slate-600 dark:text-slate-400">
+                            <thead className="text-xs text-slate-700 uppercase bg-slate-50 dark:bg-slate-900/50 dark:text-slate-300">
+                                <tr>
+                                    {tableHeaders.map(header => (
+                                        <th key={header} scope="col" className="px-4 py-3">{t(`customers.table.${header}`)}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {filteredCustomers.map(customer => {
+                                    const customerStat = stats.get(customer.id)!;
+                                    return (
+                                        <tr key={customer.id} className="border-b border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800/60">
+                                            <td className="px-4 py-3 font-medium text-slate-900 dark:text-white">
+                                                <button onClick={() => setCustomerToShow(customer)} className="hover:underline text-start">{customer.name}</button>
+                                                {customer.address && <span className="block text-xs font-normal text-slate-500 dark:text-slate-400">{customer.address}</span>}
+                                            </td>
+                                            <td className="px-4 py-3 whitespace-nowrap">{customer.phone ? <a href={`tel:${customer.phone}`} className="hover:underline">{customer.phone}</a> : '—'}</td>
+                                            <td className="px-4 py-3">{customer.wilaya || '—'}</td>
+                                            <td className="px-4 py-3">{customerStat.purchases.length}</td>
+                                            <td className="px-4 py-3 whitespace-nowrap font-semibold text-slate-900 dark:text-white">{formatCurrency(customerStat.lifetimeValue)}</td>
+                                            <td className="px-4 py-3 whitespace-nowrap">{customerStat.lastPurchaseAt ? formatDate(customerStat.lastPurchaseAt) : '—'}</td>
+                                            <td className="px-4 py-3">
+                                                {customerStat.outstandingDeliveries.length > 0
+                                                    ? <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-sky-100 text-sky-800 dark:bg-sky-500/20 dark:text-sky-300">{customerStat.outstandingDeliveries.length}</span>
+                                                    : '—'}
+                                            </td>
+                                            <td className="px-4 py-3">
+                                                <div className="flex items-center space-x-2">
+                                                    <motion.button onClick={() => setCustomerToShow(customer)} className="p-2 rounded-md transition-colors bg-slate-500/10 hover:bg-slate-500/20 text-slate-500" title={t('customers.view')} whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}>
+                                                        <ViewDetailsIcon className="w-5 h-5" />
+                                                    </motion.button>
+                                                    <motion.button onClick={() => handleOpenForm(customer)} className="p-2 rounded-md transition-colors bg-blue-500/10 hover:bg-blue-500/20 text-blue-500" title={t('customers.edit')} whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}>
+                                                        <EditIcon className="w-5 h-5" />
+                                                    </motion.button>
+                                                    <motion.button onClick={() => setCustomerToDelete(customer)} className="p-2 rounded-md transition-colors bg-red-500/10 hover:bg-red-500/20 text-red-500" title={t('delete')} whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}>
+                                                        <DeleteIcon className="w-5 h-5" />
+                                                    </motion.button>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                    {filteredCustomers.length === 0 && (
+                        <p className="text-center py-6 text-slate-600 dark:text-slate-400">{t('customers.no_results')}</p>
+                    )}
+                </div>
+            )}
+
+            <CustomerForm isOpen={isFormOpen} onClose={() => setIsFormOpen(false)} onSave={handleSave} customer={customerToEdit} />
+            <CustomerDetailsModal isOpen={!!customerToShow} onClose={() => setCustomerToShow(null)} customer={customerToShow} />
+            <ConfirmationModal
+                isOpen={!!customerToDelete}
+                onClose={() => setCustomerToDelete(null)}
+                onConfirm={async () => { if (customerToDelete) await deleteCustomer(customerToDelete.id); }}
+                title={t('customers.confirm_delete_title')}
+                message={t('customers.confirm_delete', { name: customerToDelete?.name || '' })}
+            />
+        </div>
+    );
+};
+
+export default Customers;
@@ -6,6 +6,10 @@ import type { Language, Sale } from '../types';
 import { ShoppingBagIcon, DollarSignIcon, PackageXIcon, ShoppingCartIcon, ArchiveIcon, CreditCardIcon, PiggyBankIcon, DeliveryIcon, DatabaseIcon, TrendingUpIcon, ServerIcon } from '../components/Icons';
 import AIInsights from '../components/AIInsights';
 import { motion } from 'framer-motion';
+import { salesEntries } from '../services/returns';
+import LocationFilterSelect from '../components/LocationFilterSelect';
+import { stockByLocation, locationName, matchesLocation, type LocationFilter, type LocationStock } from '../services/stockLocations';
+import { openDeliveries } from '../services/deliveries';
 
 const COLORS = ['#06b6d4', '#8884d8', '#82ca9d', '#ffc658', '#ff8042', '#a4de6c', '#d0ed57', '#ffc0cb'];
 
@@ -18,10 +22,11 @@ const localeMap: Record<Language, string> = {
 type TimeRange = '7d' | '30d' | '1y' | 'all';
 
 const Dashboard: React.FC = () => {
-  const { products, sales, t, language, theme } = useAppContext();
+  const { products, sales, saleReturns, stockLocations, stockLevels, stockTransfers, deliveries, t, language, currency, formatCurrency, theme } = useAppContext();
   const locale = localeMap[language];
   const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
   const [timeRange, setTimeRange] = useState<TimeRange>('30d');
+  const [locationFilter, setLocationFilter] = useState<LocationFilter>('all');
 
   useEffect(() => {
     const handleResize = () => setIsMobile(window.innerWidth < 768);
@@ -29,9 +34,12 @@ const Dashboard: React.FC = () => {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
+  // Returns count as negative sales, so every total below is net of them
+  const entries = useMemo(() => salesEntries(sales, saleReturns), [sales, saleReturns]);
+
   const filteredSales = useMemo(() => {
     const now = new Date();
-    const validSales = sales.filter(s => s.createdAt && !isNaN(new Date(s.createdAt).getTime()));
+    const validSales = entries.filter(s => s.createdAt && !isNaN(new Date(s.createdAt).getTime()));
 
     if (timeRange === 'all') return validSales;
 
@@ -43,29 +51,38 @@ const Dashboard: React.FC = () => {
     }
     startDate.setHours(0,0,0,0);
     return validSales.filter(s => new Date(s.createdAt) >= startDate);
-  }, [sales, timeRange]);
+  }, [entries, timeRange]);
+
+  const stockLocationBreakdown = useMemo(
+    () => stockByLocation(products, stockLocations, stockLevels, stockTransfers),
+    [products, stockLocations, stockLevels, stockTransfers]
+  );
 
   const stats = useMemo(() => {
-    // Global stats (not time-filtered)
-    const totalProducts = products.length;
-    const stockValue = products.reduce((acc, p) => acc + p.buyPrice * p.stock, 0);
-    const potentialRevenue = products.reduce((acc, p) => acc + p.sellPrice * p.stock, 0);
+    // Global stats (not time-filtered); the stock figures cover the filtered location only
+    const totalProducts = products.filter(p => matchesLocation(p, locationFilter, stockLevels, stockTransfers)).length;
+    const { rows, inTransit } = stockLocationBreakdown;
+    const stockRows: LocationStock[] = locationFilter === 'all'
+      ? [...rows, inTransit]
+      : rows.filter(row => row.locationId === (locationFilter === 'main' ? undefined : locationFilter));
+    const stockValue = stockRows.reduce((acc, row) => acc + row.value, 0);
+    const potentialRevenue = stockRows.reduce((acc, row) => acc + row.retailValue, 0);
     const potentialStockProfit = potentialRevenue - stockValue;
     const outOfStock = products.filter(p => p.stock === 0).length;
-    const unitsInDelivery = products.filter(p => p.status === 'en livraison').length;
-    const totalCurrentStockAndDelivery = products.reduce((acc, p) => acc + p.stock, 0);
-    const totalUnitsSoldEver = sales.reduce((acc, s) => acc + s.quantity, 0);
+    const unitsInDelivery = openDeliveries(deliveries).reduce((acc, d) => acc + d.quantity, 0);
+    const totalCurrentStockAndDelivery = products.reduce((acc, p) => acc + p.stock, 0) + unitsInDelivery;
+    const totalUnitsSoldEver = entries.reduce((acc, s) => acc + s.quantity, 0);
     const totalUnits = totalCurrentStockAndDelivery + totalUnitsSoldEver;
 
     // Time-filtered sales stats
     const salesRevenue = filteredSales.reduce((acc, s) => acc + s.totalPrice, 0);
     const unitsSold = filteredSales.reduce((acc, s) => acc + s.quantity, 0);
     const salesProfit = filteredSales.reduce((acc, s) => acc + (s.totalMargin || 0), 0);
-    const totalOrders = filteredSales.length;
+    const totalOrders = filteredSales.filter(s => !s.isReturn).length;
     const avgOrderValue = totalOrders > 0 ? salesRevenue / totalOrders : 0;
 
     return { totalProducts, stockValue, potentialStockProfit, outOfStock, unitsInDelivery, salesRevenue, unitsSold, salesProfit, totalOrders, avgOrderValue, totalUnits };
-  }, [products, sales, filteredSales]);
+  }, [products, entries, filteredSales, locationFilter, stockLocationBreakdown, stockLevels, stockTransfers, deliveries]);
 
   const profitOverTimeData = useMemo(() => {
     if (filteredSales.length === 0) return [];
@@ -119,7 +136,7 @@ const Dashboard: React.FC = () => {
       return (
         <div className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm p-2 border border-slate-200 dark:border-slate-700 rounded-md shadow-lg">
           <p className="label text-slate-700 dark:text-white">{`${label}`}</p>
-          <p className="text-brand">{`${payload[0].name}: ${payload[0].value.toLocaleString(locale, { style: 'currency', currency: 'DZD' })}`}</p>
+          <p className="text-brand">{`${payload[0].name}: ${formatCurrency(payload[0].value)}`}</p>
         </div>
       );
     }
@@ -145,32 +162,65 @@ const Dashboard: React.FC = () => {
     <div className="space-y-8 text-slate-900 dark:text-white">
       <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
         <h2 className="text-2xl font-bold text-slate-900 dark:text-white">{t('sidebar.dashboard')}</h2>
-        <div className="flex items-center space-x-1 p-1 bg-slate-100 dark:bg-slate-800/60 rounded-xl">
-            <TimeRangeButton range="7d" label={t('dashboard.range.7d')} />
-            <TimeRangeButton range="30d" label={t('dashboard.range.30d')} />
-            <TimeRangeButton range="1y" label={t('dashboard.range.1y')} />
-            <TimeRangeButton range="all" label={t('dashboard.range.all')} />
+        <div className="flex flex-col sm:flex-row items-center gap-2">
+            <LocationFilterSelect value={locationFilter} onChange={setLocationFilter} />
+            <div className="flex items-center space-x-1 p-1 bg-slate-100 dark:bg-slate-800/60 rounded-xl">
+                <TimeRangeButton range="7d" label={t('dashboard.range.7d')} />
+                <TimeRangeButton range="30d" label={t('dashboard.range.30d')} />
+                <TimeRangeButton range="1y" label={t('dashboard.range.1y')} />
+                <TimeRangeButton range="all" label={t('dashboard.range.all')} />
+            </div>
         </div>
       </div>
 
       <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4 md:gap-6">
-        <StatCard icon={CreditCardIcon} title={t('dashboard.sales_revenue')} value={`${stats.salesRevenue.toLocaleString(locale, { style: 'currency', currency: 'DZD' })}`} />
-        <StatCard icon={PiggyBankIcon} title={t('dashboard.sales_profit')} value={`${stats.salesProfit.toLocaleString(locale, { style: 'currency', currency: 'DZD' })}`} />
+        <StatCard icon={CreditCardIcon} title={t('dashboard.sales_revenue')} value={formatCurrency(stats.salesRevenue)} />
+        <StatCard icon={PiggyBankIcon} title={t('dashboard.sales_profit')} value={formatCurrency(stats.salesProfit)} />
         <StatCard icon={ShoppingCartIcon} title={t('dashboard.units_sold')} value={stats.unitsSold} />
         <StatCard icon={ArchiveIcon} title={t('dashboard.total_orders')} value={stats.totalOrders} />
-        <StatCard icon={TrendingUpIcon} title={t('dashboard.potential_stock_profit')} value={`${stats.potentialStockProfit.toLocaleString(locale, { style: 'currency', currency: 'DZD' })}`} />
-        <StatCard icon={DatabaseIcon} title={t('dashboard.stock_value')} value={`${stats.stockValue.toLocaleString(locale, { style: 'currency', currency: 'DZD' })}`} />
+        <StatCard icon={TrendingUpIcon} title={t('dashboard.potential_stock_profit')} value={formatCurrency(stats.potentialStockProfit)} />
+        <StatCard icon={DatabaseIcon} title={t('dashboard.stock_value')} value={formatCurrency(stats.stockValue)} />
         <StatCard icon={ShoppingBagIcon} title={t('dashboard.total_products')} value={stats.totalProducts} />
         <StatCard icon={PackageXIcon} title={t('dashboard.out_of_stock')} value={stats.outOfStock} />
         <StatCard icon={DeliveryIcon} title={t('dashboard.units_in_delivery')} value={stats.unitsInDelivery} />
         <StatCard icon={ServerIcon} title={t('dashboard.total_units')} value={stats.totalUnits} />
       </div>
 
+      {stockLocations.length > 0 && (
+        <div className="bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 p-6 rounded-2xl">
+          <h3 className="text-lg font-semibold mb-4">{t('dashboard.stock_by_location_title')}</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left rtl:text-right text-slate-600 dark:text-slate-400">
+              <thead className="text-xs text-slate-700 uppercase dark:text-slate-300">
+                <tr>
+                  <th className="py-2 pe-4">{t('dashboard.stock_by_location.location')}</th>
+                  <th className="py-2 pe-4 text-end">{t('dashboard.stock_by_location.units')}</th>
+                  <th className="py-2 pe-4 text-end">{t('dashboard.stock_value')}</th>
+                  <th className="py-2 text-end">{t('dashboard.stock_by_location.retail_value')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...stockLocationBreakdown.rows, { ...stockLocationBreakdown.inTransit, inTransit: true }].map((row, index) => (
+                  <tr key={index} className="border-t border-slate-200 dark:border-slate-700">
+                    <td className="py-2 pe-4 font-medium text-slate-900 dark:text-white">
+                      {'inTransit' in row ? t('locations.in_transit') : locationName(stockLocations, row.locationId, t('locations.main_shop'))}
+                    </td>
+                    <td className="py-2 pe-4 text-end">{row.units}</td>
+                    <td className="py-2 pe-4 text-end whitespace-nowrap">{formatCurrency(row.value)}</td>
+                    <td className="py-2 text-end whitespace-nowrap">{formatCurrency(row.retailValue)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       <AIInsights />
 
       <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
         <div className="lg:col-span-3 bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 p-6 rounded-2xl">
-          <h3 className="text-lg font-semibold mb-4">{t('dashboard.weekly_profit_chart_title')}</h3>
+          <h3 className="text-lg font-semibold mb-4">{t('dashboard.weekly_profit_chart_title', { currency })}</h3>
           <ResponsiveContainer width="100%" height={300}>
             <LineChart data={profitOverTimeData} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
               <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? "rgba(255, 255, 255, 0.1)" : "rgba(0,0,0,0.1)"} />
@@ -190,7 +240,7 @@ const Dashboard: React.FC = () => {
                     <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? "rgba(255, 255, 255, 0.1)" : "rgba(0,0,0,0.1)"} />
                     <XAxis type="number" hide />
                     <YAxis type="category" dataKey="name" tick={{ fill: theme === 'dark' ? '#94a3b8' : '#64748b' }} fontSize={12} width={100} tickFormatter={value => value.length > 15 ? `${value.substring(0, 15)}...` : value} />
-                    <Tooltip cursor={{ fill: 'rgba(136, 132, 216, 0.1)' }} content={<CustomTooltip formatter={(value: number) => value.toLocaleString(locale, { style: 'currency', currency: 'DZD' })} />} />
+                    <Tooltip cursor={{ fill: 'rgba(136, 132, 216, 0.1)' }} content={<CustomTooltip formatter={(value: number) => formatCurrency(value)} />} />
                     <Bar dataKey="revenue" name={t('dashboard.chart.revenue')} fill="#8884d8" barSize={15} />
                 </BarChart>
             </ResponsiveContainer>
@@ -1,11 +1,18 @@
 import React, { useMemo, useState, useEffect } from 'react';
 import { useAppContext } from '../context/AppContext';
-import type { Product, Language } from '../types';
-import { DeliveryIcon, MarkDeliveredIcon, ProductsIcon, UndoIcon, ViewDetailsIcon, DollarSignIcon } from '../components/Icons';
+import type { CodRemittanceFormData, Delivery as DeliveryRecord, DeliveryFormData, Language, Product } from '../types';
+import { DeliveryIcon, MarkDeliveredIcon, ProductsIcon, UndoIcon, ViewDetailsIcon, DollarSignIcon, EditIcon, RefreshCwIcon, LoaderIcon, DeleteIcon } from '../components/Icons';
 import { motion, AnimatePresence } from 'framer-motion';
 import ProductDetailsModal from '../components/ProductDetailsModal';
 import StatCard from '../components/StatCard';
 import ConfirmationModal from '../components/ConfirmationModal';
+import CustomerPicker from '../components/CustomerPicker';
+import LocationFilterSelect from '../components/LocationFilterSelect';
+import DeliveryForm from '../components/DeliveryForm';
+import CodRemittanceForm from '../components/CodRemittanceForm';
+import { locationName, type LocationFilter } from '../services/stockLocations';
+import { awaitingRemittance, codTotal, openDeliveries } from '../services/deliveries';
+import { findCourierAdapter, isTrackedDelivery } from '../services/couriers';
 
 const localeMap: Record<Language, string> = {
     fr: 'fr-FR',
@@ -15,8 +22,36 @@ const localeMap: Record<Language, string> = {
 
 type TimeRange = 'today' | '7d' | '30d' | '1y' | 'all';
 
-const DeliveryCard: React.FC<{ product: Product, onConfirmSale: (product: Product) => void, onCancel: (id: number) => void, onViewDetails: (product: Product) => void }> = ({ product, onConfirmSale, onCancel, onViewDetails }) => {
-    const { t, language } = useAppContext();
+const statusClassName: Record<DeliveryRecord['status'], string> = {
+    pending: 'bg-amber-100 text-amber-800 dark:bg-amber-500/20 dark:text-amber-300',
+    shipped: 'bg-sky-100 text-sky-800 dark:bg-sky-500/20 dark:text-sky-300',
+    delivered: 'bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300',
+    cancelled: 'bg-slate-100 text-slate-600 dark:bg-slate-500/20 dark:text-slate-300',
+};
+
+const StatusBadge: React.FC<{ status: DeliveryRecord['status'] }> = ({ status }) => {
+    const { t } = useAppContext();
+    return <span className={`px-2 py-0.5 text-xs font-semibold rounded-full whitespace-nowrap ${statusClassName[status]}`}>{t(`deliveries.status.${status}`)}</span>;
+};
+
+// Couriers with an adapter are booked when the parcel is shipped
+const shipTitle = (delivery: DeliveryRecord, t: (key: string, params?: Record<string, string | number>) => string) => {
+    const adapter = findCourierAdapter(delivery.courier);
+    return adapter && !delivery.trackingNumber ? t('deliveries.book_with', { courier: adapter.name }) : t('deliveries.mark_shipped');
+};
+
+interface DeliveryActions {
+    onConfirmSale: (delivery: DeliveryRecord) => void;
+    onMarkShipped: (delivery: DeliveryRecord) => void;
+    onEdit: (delivery: DeliveryRecord) => void;
+    onCancel: (delivery: DeliveryRecord) => void;
+    onViewDetails: (product: Product) => void;
+}
+
+const DeliveryCard: React.FC<{ delivery: DeliveryRecord } & DeliveryActions> = ({ delivery, onConfirmSale, onMarkShipped, onEdit, onCancel, onViewDetails }) => {
+    const { t, language, formatCurrency, products, customers, deliverySyncErrors } = useAppContext();
+    const product = products.find(p => p.id === delivery.productId);
+    const customer = customers.find(c => c.id === delivery.customerId);
     const locale = localeMap[language];
 
     const formatTimestamp = (isoDate: string): string => {
@@ -30,26 +65,33 @@ const DeliveryCard: React.FC<{ product: Product, onConfirmSale: (product: Produc
             className="bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 rounded-xl overflow-hidden"
         >
             <div className="flex items-start p-4 space-x-4">
-                {product.imageUrl ? (
-                    <img src={product.imageUrl} alt={product.name} className="w-20 h-20 object-cover rounded-lg" />
+                {product?.imageUrl ? (
+                    <img src={product.imageUrl} alt={delivery.productName} className="w-20 h-20 object-cover rounded-lg" />
                 ) : (
                     <div className="w-20 h-20 bg-slate-200 dark:bg-slate-700/50 rounded-lg flex items-center justify-center">
                         <ProductsIcon className="w-10 h-10 text-slate-400" />
                     </div>
                 )}
                 <div className="flex-1">
-                    <h3 className="font-bold text-slate-900 dark:text-white leading-tight">{product.name}</h3>
-                    <p className="text-sm text-slate-600 dark:text-slate-400">{product.category}</p>
+                    <div className="flex items-start justify-between gap-2">
+                        <h3 className="font-bold text-slate-900 dark:text-white leading-tight">{delivery.productName}</h3>
+                        <StatusBadge status={delivery.status} />
+                    </div>
+                    {delivery.variantName && <p className="text-xs text-slate-500 dark:text-slate-400">{delivery.variantName}</p>}
+                    {customer && <p className="text-sm text-slate-600 dark:text-slate-400">{t('delivery.for_customer', { name: customer.name })}</p>}
+                    {(delivery.address || delivery.wilaya) && <p className="text-xs text-slate-500 dark:text-slate-400">{[delivery.address, delivery.wilaya].filter(Boolean).join(', ')}</p>}
+                    {delivery.courier && <p className="text-xs text-slate-500 dark:text-slate-400">{delivery.courier}{delivery.trackingNumber && ` · ${delivery.trackingNumber}`}</p>}
+                    {deliverySyncErrors[delivery.id] && <p className="text-xs text-red-500">{t('deliveries.sync_error', { message: deliverySyncErrors[delivery.id] })}</p>}
                     <div className="flex items-baseline space-x-4 mt-2">
-                        <p className="font-semibold text-lg text-slate-900 dark:text-white">{product.sellPrice.toLocaleString(locale, { style: 'currency', currency: 'DZD' })}</p>
-                        <p className="text-sm text-slate-500 dark:text-slate-400">{t('products.table.stock')}: <span className="font-semibold">{product.stock}</span></p>
+                        <p className="font-semibold text-lg text-slate-900 dark:text-white">{formatCurrency(delivery.codAmount)}</p>
+                        <p className="text-sm text-slate-500 dark:text-slate-400">{t('deliveries.table.quantity')}: <span className="font-semibold">{delivery.quantity}</span></p>
                     </div>
-                    <p className="text-xs text-slate-500 dark:text-slate-500 mt-1">{t('delivery.table.delivered_at')}: {formatTimestamp(product.createdAt)}</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-500 mt-1">{t('delivery.table.delivered_at')}: {formatTimestamp(delivery.createdAt)}</p>
                 </div>
             </div>
             <div className="px-4 pb-4 flex items-center space-x-2 justify-between">
                 <motion.button
-                    onClick={() => onConfirmSale(product)}
+                    onClick={() => onConfirmSale(delivery)}
                     className="flex-1 flex items-center justify-center text-white bg-gradient-to-r from-green-500 to-emerald-500 font-semibold rounded-lg h-10"
                     whileHover={{ scale: 1.05, y: -2, boxShadow: '0 10px 15px -3px rgba(16, 185, 129, 0.3), 0 4px 6px -2px rgba(16, 185, 129, 0.2)' }}
                     whileTap={{ scale: 0.95 }}
@@ -59,17 +101,39 @@ const DeliveryCard: React.FC<{ product: Product, onConfirmSale: (product: Produc
                     {t('delivery.confirm_sale')}
                 </motion.button>
                 <div className="flex items-center space-x-2">
+                    {delivery.status === 'pending' && (
+                        <motion.button
+                            onClick={() => onMarkShipped(delivery)}
+                            className="w-10 h-10 flex items-center justify-center bg-sky-500/10 text-sky-500 rounded-lg"
+                            whileHover={{ scale: 1.1 }}
+                            whileTap={{ scale: 0.9 }}
+                            title={shipTitle(delivery, t)}
+                        >
+                            <DeliveryIcon className="w-5 h-5" />
+                        </motion.button>
+                    )}
                     <motion.button
-                        onClick={() => onViewDetails(product)}
+                        onClick={() => onEdit(delivery)}
                         className="w-10 h-10 flex items-center justify-center bg-slate-100 dark:bg-white/10 text-slate-500 dark:text-slate-300 rounded-lg"
                         whileHover={{ scale: 1.1 }}
                         whileTap={{ scale: 0.9 }}
-                        title={t('product_details.view_button')}
+                        title={t('deliveries.edit')}
                     >
-                        <ViewDetailsIcon className="w-5 h-5" />
+                        <EditIcon className="w-5 h-5" />
                     </motion.button>
+                    {product && (
+                        <motion.button
+                            onClick={() => onViewDetails(product)}
+                            className="w-10 h-10 flex items-center justify-center bg-slate-100 dark:bg-white/10 text-slate-500 dark:text-slate-300 rounded-lg"
+                            whileHover={{ scale: 1.1 }}
+                            whileTap={{ scale: 0.9 }}
+                            title={t('product_details.view_button')}
+                        >
+                            <ViewDetailsIcon className="w-5 h-5" />
+                        </motion.button>
+                    )}
                     <motion.button
-                        onClick={() => onCancel(product.id)}
+                        onClick={() => onCancel(delivery)}
                         className="w-10 h-10 flex items-center justify-center bg-red-500/10 text-red-500 rounded-lg"
                         whileHover={{ scale: 1.1 }}
                         whileTap={{ scale: 0.9 }}
@@ -85,20 +149,30 @@ const DeliveryCard: React.FC<{ product: Product, onConfirmSale: (product: Produc
 
 
 const Delivery: React.FC = () => {
-    const { products, confirmSaleFromDelivery, cancelDelivery, t, language } = useAppContext();
+    const { products, customers, deliveries, sales, codRemittances, deliverySyncErrors, isRefreshingDeliveryStatuses, deliveryStatusesRefreshedAt, stockLocations, confirmSaleFromDelivery, cancelDelivery, updateDelivery, shipDelivery, refreshDeliveryStatuses, recordCodRemittance, deleteCodRemittance, t, language, formatCurrency } = useAppContext();
+
+    const customerName = (delivery: DeliveryRecord) => customers.find(c => c.id === delivery.customerId)?.name;
+    const productOf = (delivery: DeliveryRecord) => products.find(p => p.id === delivery.productId);
+
     const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
     const [isDetailsModalOpen, setIsDetailsModalOpen] = useState(false);
     const [productToShow, setProductToShow] = useState<Product | null>(null);
     const [isConfirmSaleOpen, setIsConfirmSaleOpen] = useState(false);
-    const [productToConfirmSale, setProductToConfirmSale] = useState<Product | null>(null);
+    const [deliveryToConfirmSale, setDeliveryToConfirmSale] = useState<DeliveryRecord | null>(null);
+    const [saleCustomerId, setSaleCustomerId] = useState<number | undefined>(undefined);
     const [isCancelConfirmOpen, setIsCancelConfirmOpen] = useState(false);
     const [deliveryToCancelId, setDeliveryToCancelId] = useState<number | null>(null);
+    const [deliveryToEdit, setDeliveryToEdit] = useState<DeliveryRecord | null>(null);
     const [hoveredImage, setHoveredImage] = useState<string | null>(null);
     const [timeRange, setTimeRange] = useState<TimeRange>('30d');
+    const [locationFilter, setLocationFilter] = useState<LocationFilter>('all');
+    const [isRemittanceFormOpen, setIsRemittanceFormOpen] = useState(false);
+    const [remittanceToDeleteId, setRemittanceToDeleteId] = useState<number | null>(null);
     const locale = localeMap[language];
+    const hasTrackedDeliveries = deliveries.some(isTrackedDelivery);
 
-    const allDeliveryProducts = useMemo(() => {
-        const filtered = products.filter(p => p.status === 'en livraison');
+    const allOpenDeliveries = useMemo(() => {
+        const filtered = openDeliveries(deliveries);
         return filtered.sort((a, b) => {
             const timeA = new Date(a.createdAt).getTime();
             const timeB = new Date(b.createdAt).getTime();
@@ -109,14 +183,16 @@ const Delivery: React.FC = () => {
             
             return timeB - timeA; // Sort descending
         });
-    }, [products]);
+    }, [deliveries]);
     
-    const filteredDeliveryProducts = useMemo(() => {
+    const filteredDeliveries = useMemo(() => {
         const now = new Date();
-        const validProducts = allDeliveryProducts.filter(p => p.createdAt && !isNaN(new Date(p.createdAt).getTime()));
+        // Deliveries are filtered on the location their units were taken from
+        const fromLocation = (d: DeliveryRecord) => locationFilter === 'all' || d.locationId === (locationFilter === 'main' ? undefined : locationFilter);
+        const validDeliveries = allOpenDeliveries.filter(d => d.createdAt && !isNaN(new Date(d.createdAt).getTime()) && fromLocation(d));
 
         if (timeRange === 'all') {
-            return validProducts;
+            return validDeliveries;
         }
 
         let startDate = new Date();
@@ -139,14 +215,17 @@ const Delivery: React.FC = () => {
                 break;
         }
         
-        return validProducts.filter(p => new Date(p.createdAt) >= startDate);
-    }, [allDeliveryProducts, timeRange]);
+        return validDeliveries.filter(d => new Date(d.createdAt) >= startDate);
+    }, [allOpenDeliveries, timeRange, locationFilter]);
 
     const deliveryStats = useMemo(() => {
-        const totalItems = filteredDeliveryProducts.reduce((acc, p) => acc + p.stock, 0);
-        const totalValue = filteredDeliveryProducts.reduce((acc, p) => acc + (p.stock * p.sellPrice), 0);
-        return { totalItems, totalValue };
-    }, [filteredDeliveryProducts]);
+        const totalItems = filteredDeliveries.reduce((acc, d) => acc + d.quantity, 0);
+        const totalCod = codTotal(filteredDeliveries);
+        return { totalItems, totalCod };
+    }, [filteredDeliveries]);
+
+    // Cash couriers have collected for us, whatever the period shown
+    const owed = useMemo(() => awaitingRemittance(deliveries, sales), [deliveries, sales]);
 
     useEffect(() => {
         const handleResize = () => setIsMobile(window.innerWidth < 768);
@@ -159,8 +238,8 @@ const Delivery: React.FC = () => {
         setIsDetailsModalOpen(true);
     };
 
-    const handleOpenCancelConfirm = (productId: number) => {
-        setDeliveryToCancelId(productId);
+    const handleOpenCancelConfirm = (delivery: DeliveryRecord) => {
+        setDeliveryToCancelId(delivery.id);
         setIsCancelConfirmOpen(true);
     };
     
@@ -170,17 +249,51 @@ const Delivery: React.FC = () => {
         }
     };
     
-    const handleOpenConfirmSale = (product: Product) => {
-        setProductToConfirmSale(product);
+    const handleOpenConfirmSale = (delivery: DeliveryRecord) => {
+        setDeliveryToConfirmSale(delivery);
+        setSaleCustomerId(delivery.customerId);
         setIsConfirmSaleOpen(true);
     };
 
     const handleConfirmSaleAction = async () => {
-        if (productToConfirmSale) {
-            await confirmSaleFromDelivery(productToConfirmSale.id);
+        if (deliveryToConfirmSale) {
+            await confirmSaleFromDelivery(deliveryToConfirmSale.id, saleCustomerId);
+        }
+    };
+
+    const handleMarkShipped = (delivery: DeliveryRecord) => {
+        shipDelivery(delivery);
+    };
+
+    const handleSaveDelivery = async ({ customerId, address, wilaya, courier, trackingNumber, codAmount, notes }: DeliveryFormData) => {
+        if (!deliveryToEdit) return;
+        // Cleared fields are sent empty so they are cleared on the record too
+        const updated = await updateDelivery(deliveryToEdit, {
+            customerId, address: address ?? '', wilaya: wilaya ?? '', courier: courier ?? '', trackingNumber: trackingNumber ?? '', notes: notes ?? '',
+            codAmount: codAmount ?? deliveryToEdit.unitPrice * deliveryToEdit.quantity,
+        });
+        if (updated) setDeliveryToEdit(null);
+    };
+
+    const handleSaveRemittance = async (remittanceData: CodRemittanceFormData) => {
+        const remittance = await recordCodRemittance(remittanceData);
+        if (remittance) setIsRemittanceFormOpen(false);
+    };
+
+    const handleConfirmDeleteRemittance = async () => {
+        if (remittanceToDeleteId !== null) {
+            await deleteCodRemittance(remittanceToDeleteId);
         }
     };
 
+    const actions: DeliveryActions = {
+        onConfirmSale: handleOpenConfirmSale,
+        onMarkShipped: handleMarkShipped,
+        onEdit: setDeliveryToEdit,
+        onCancel: handleOpenCancelConfirm,
+        onViewDetails: handleViewDetails,
+    };
+
     const timeAgo = (isoDate: string): string => {
         if (!isoDate) return '-';
         const seconds = Math.floor((new Date().getTime() - new Date(isoDate).getTime()) / 1000);
@@ -217,7 +330,7 @@ const Delivery: React.FC = () => {
         </motion.button>
     );
 
-    if (allDeliveryProducts.length === 0) {
+    if (allOpenDeliveries.length === 0 && owed.length === 0 && codRemittances.length === 0) {
         return (
             <div className="text-center py-10">
                 <DeliveryIcon className="w-16 h-16 mx-auto text-slate-400 dark:text-slate-500 mb-4" />
@@ -230,30 +343,66 @@ const Delivery: React.FC = () => {
     return (
         <div>
             <div className="flex flex-col sm:flex-row justify-between items-center gap-4 mb-6">
-                 <h2 className="text-2xl font-bold text-slate-900 dark:text-white">{t('delivery.title')} ({allDeliveryProducts.length})</h2>
-                 <div className="flex items-center space-x-1 p-1 bg-slate-100 dark:bg-slate-800/60 rounded-xl">
-                    <TimeRangeButton range="today" label={t('dashboard.range.today')} />
-                    <TimeRangeButton range="7d" label={t('dashboard.range.7d')} />
-                    <TimeRangeButton range="30d" label={t('dashboard.range.30d')} />
-                    <TimeRangeButton range="1y" label={t('dashboard.range.1y')} />
-                    <TimeRangeButton range="all" label={t('dashboard.range.all')} />
+                 <h2 className="text-2xl font-bold text-slate-900 dark:text-white">{t('delivery.title')} ({allOpenDeliveries.length})</h2>
+                 <div className="flex flex-col sm:flex-row items-center gap-2">
+                    {hasTrackedDeliveries && (
+                        <motion.button
+                            onClick={refreshDeliveryStatuses}
+                            disabled={isRefreshingDeliveryStatuses}
+                            className="flex items-center text-sm font-semibold text-slate-600 dark:text-slate-300 bg-white/70 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 disabled:opacity-60"
+                            title={deliveryStatusesRefreshedAt ? t('deliveries.last_refreshed', { time: deliveryStatusesRefreshedAt.toLocaleTimeString(locale, { timeStyle: 'short' }) }) : undefined}
+                            whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}
+                        >
+                            {isRefreshingDeliveryStatuses ? <LoaderIcon className="w-4 h-4 me-2 animate-spin" /> : <RefreshCwIcon className="w-4 h-4 me-2" />}
+                            {t('deliveries.refresh_statuses')}
+                        </motion.button>
+                    )}
+                    {owed.length > 0 && (
+                        <motion.button
+                            onClick={() => setIsRemittanceFormOpen(true)}
+                            className="flex items-center text-sm font-semibold text-white bg-gradient-to-r from-green-500 to-emerald-500 rounded-lg px-3 py-2"
+                            whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}
+                        >
+                            <DollarSignIcon className="w-4 h-4 me-2" />
+                            {t('deliveries.remittance.record_button')}
+                        </motion.button>
+                    )}
+                    <LocationFilterSelect value={locationFilter} onChange={setLocationFilter} />
+                    <div className="flex items-center space-x-1 p-1 bg-slate-100 dark:bg-slate-800/60 rounded-xl">
+                        <TimeRangeButton range="today" label={t('dashboard.range.today')} />
+                        <TimeRangeButton range="7d" label={t('dashboard.range.7d')} />
+                        <TimeRangeButton range="30d" label={t('dashboard.range.30d')} />
+                        <TimeRangeButton range="1y" label={t('dashboard.range.1y')} />
+                        <TimeRangeButton range="all" label={t('dashboard.range.all')} />
+                    </div>
                 </div>
             </div>
             
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
                 <StatCard icon={DeliveryIcon} title={t('delivery.total_items')} value={deliveryStats.totalItems} />
-                <StatCard icon={DollarSignIcon} title={t('delivery.total_value')} value={`${deliveryStats.totalValue.toLocaleString(locale, { style: 'currency', currency: 'DZD' })}`} />
+                <StatCard icon={DollarSignIcon} title={t('delivery.total_cod')} value={formatCurrency(deliveryStats.totalCod)} />
+                <StatCard
+                    icon={MarkDeliveredIcon}
+                    title={t('deliveries.remittance.owed_to_us')}
+                    value={formatCurrency(codTotal(owed))}
+                    description={t('deliveries.remittance.owed_description', { count: owed.length })}
+                />
             </div>
 
-            {filteredDeliveryProducts.length === 0 ? (
+            {allOpenDeliveries.length === 0 ? (
+                <div className="text-center py-10 bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 rounded-2xl">
+                    <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300">{t('delivery.empty.title')}</h3>
+                    <p className="text-slate-600 dark:text-slate-400">{t('delivery.empty.subtitle')}</p>
+                </div>
+            ) : filteredDeliveries.length === 0 ? (
                  <div className="text-center py-10 bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 rounded-2xl">
                     <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300">{t('delivery.no_results_for_period.title')}</h3>
                     <p className="text-slate-600 dark:text-slate-400">{t('delivery.no_results_for_period.subtitle')}</p>
                 </div>
             ) : isMobile ? (
                 <div className="grid grid-cols-1 gap-4">
-                    {filteredDeliveryProducts.map(p => (
-                        <DeliveryCard key={p.id} product={p} onConfirmSale={handleOpenConfirmSale} onCancel={handleOpenCancelConfirm} onViewDetails={handleViewDetails} />
+                    {filteredDeliveries.map(d => (
+                        <DeliveryCard key={d.id} delivery={d} {...actions} />
                     ))}
                 </div>
             ) : (
@@ -264,21 +413,24 @@ const Delivery: React.FC = () => {
                                 <tr>
                                     <th scope="col" className="px-6 py-3">{t('products.table.image')}</th>
                                     <th scope="col" className="px-6 py-3">{t('products.table.name')}</th>
-                                    <th scope="col" className="px-6 py-3">{t('products.table.category')}</th>
-                                    <th scope="col" className="px-6 py-3">{t('products.table.sell_price')}</th>
-                                    <th scope="col" className="px-6 py-3">{t('products.table.stock')}</th>
+                                    <th scope="col" className="px-6 py-3">{t('deliveries.table.courier')}</th>
+                                    <th scope="col" className="px-6 py-3">{t('deliveries.table.quantity')}</th>
+                                    <th scope="col" className="px-6 py-3">{t('deliveries.table.cod')}</th>
+                                    <th scope="col" className="px-6 py-3">{t('deliveries.table.status')}</th>
                                     <th scope="col" className="px-6 py-3">{t('delivery.table.delivered_at')}</th>
                                     <th scope="col" className="px-6 py-3 text-center">{t('actions')}</th>
                                 </tr>
                             </thead>
                             <tbody>
-                                {filteredDeliveryProducts.map(product => (
-                                    <tr key={product.id} className="border-b border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800/60">
+                                {filteredDeliveries.map(delivery => {
+                                    const product = productOf(delivery);
+                                    return (
+                                    <tr key={delivery.id} className="border-b border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800/60">
                                         <td className="px-6 py-4">
-                                            {product.imageUrl ? (
+                                            {product?.imageUrl ? (
                                                 <img 
                                                     src={product.imageUrl} 
-                                                    alt={product.name} 
+                                                    alt={delivery.productName} 
                                                     className="w-12 h-12 object-cover rounded-md cursor-pointer"
                                                     onMouseEnter={() => setHoveredImage(product.imageUrl)}
                                                     onMouseLeave={() => setHoveredImage(null)}
@@ -289,32 +441,69 @@ const Delivery: React.FC = () => {
                                                 </div>
                                             )}
                                         </td>
-                                        <td className="px-6 py-4 font-medium text-slate-900 dark:text-white whitespace-nowrap">{product.name}</td>
-                                        <td className="px-6 py-4">{product.category}</td>
-                                        <td className="px-6 py-4 font-semibold">{product.sellPrice.toLocaleString(localeMap[language], { style: 'currency', currency: 'DZD' })}</td>
-                                        <td className="px-6 py-4 font-semibold">{product.stock}</td>
-                                        <td className="px-6 py-4 text-xs whitespace-nowrap" title={timeAgo(product.createdAt)}>
-                                            {formatDate(product.createdAt)}
+                                        <td className="px-6 py-4 font-medium text-slate-900 dark:text-white whitespace-nowrap">
+                                            {delivery.productName}
+                                            {delivery.variantName && (
+                                                <span className="block text-xs font-normal text-slate-500 dark:text-slate-400">{delivery.variantName}</span>
+                                            )}
+                                            {customerName(delivery) && (
+                                                <span className="block text-xs font-normal text-slate-500 dark:text-slate-400">{t('delivery.for_customer', { name: customerName(delivery)! })}</span>
+                                            )}
+                                            {(delivery.address || delivery.wilaya) && (
+                                                <span className="block text-xs font-normal text-slate-500 dark:text-slate-400">{[delivery.address, delivery.wilaya].filter(Boolean).join(', ')}</span>
+                                            )}
+                                            {stockLocations.length > 0 && (
+                                                <span className="block text-xs font-normal text-slate-500 dark:text-slate-400">{t('deliveries.from_location', { name: locationName(stockLocations, delivery.locationId, t('locations.main_shop')) })}</span>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4">
+                                            {delivery.courier || '—'}
+                                            {delivery.trackingNumber && <span className="block text-xs font-mono">{delivery.trackingNumber}</span>}
+                                            {deliverySyncErrors[delivery.id] && <span className="block text-xs text-red-500">{t('deliveries.sync_error', { message: deliverySyncErrors[delivery.id] })}</span>}
+                                        </td>
+                                        <td className="px-6 py-4 font-semibold">{delivery.quantity}</td>
+                                        <td className="px-6 py-4 font-semibold">{formatCurrency(delivery.codAmount)}</td>
+                                        <td className="px-6 py-4"><StatusBadge status={delivery.status} /></td>
+                                        <td className="px-6 py-4 text-xs whitespace-nowrap" title={timeAgo(delivery.createdAt)}>
+                                            {formatDate(delivery.createdAt)}
                                         </td>
                                         <td className="px-6 py-4">
                                             <div className="flex items-center justify-center space-x-2">
                                                 <motion.button
-                                                    onClick={() => handleOpenConfirmSale(product)}
+                                                    onClick={() => handleOpenConfirmSale(delivery)}
                                                     className="flex items-center text-white bg-gradient-to-r from-green-500 to-emerald-500 font-semibold rounded-lg px-3 py-2 text-sm"
                                                     whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}
                                                 >
                                                     <MarkDeliveredIcon className="w-4 h-4 me-2" />
                                                     {t('delivery.confirm_sale')}
                                                 </motion.button>
-                                                 <motion.button
-                                                    onClick={() => handleViewDetails(product)}
+                                                {delivery.status === 'pending' && (
+                                                    <motion.button
+                                                        onClick={() => handleMarkShipped(delivery)}
+                                                        className="p-2 rounded-md transition-colors bg-sky-500/10 hover:bg-sky-500/20 text-sky-500"
+                                                        title={shipTitle(delivery, t)}
+                                                        whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}>
+                                                        <DeliveryIcon className="w-5 h-5" />
+                                                    </motion.button>
+                                                )}
+                                                <motion.button
+                                                    onClick={() => setDeliveryToEdit(delivery)}
                                                     className="p-2 rounded-md transition-colors bg-slate-500/10 hover:bg-slate-500/20 text-slate-500"
-                                                    title={t('product_details.view_button')}
+                                                    title={t('deliveries.edit')}
                                                     whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}>
-                                                    <ViewDetailsIcon className="w-5 h-5" />
+                                                    <EditIcon className="w-5 h-5" />
                                                 </motion.button>
+                                                {product && (
+                                                    <motion.button
+                                                        onClick={() => handleViewDetails(product)}
+                                                        className="p-2 rounded-md transition-colors bg-slate-500/10 hover:bg-slate-500/20 text-slate-500"
+                                                        title={t('product_details.view_button')}
+                                                        whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}>
+                                                        <ViewDetailsIcon className="w-5 h-5" />
+                                                    </motion.button>
+                                                )}
                                                 <motion.button
-                                                    onClick={() => handleOpenCancelConfirm(product.id)}
+                                                    onClick={() => handleOpenCancelConfirm(delivery)}
                                                     className="p-2 rounded-md transition-colors bg-red-500/10 hover:bg-red-500/20 text-red-500"
                                                     title={t('delivery.cancel_delivery')}
                                                     whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}>
@@ -323,23 +512,87 @@ const Delivery: React.FC = () => {
                                             </div>
                                         </td>
                                     </tr>
-                                ))}
+                                    );
+                                })}
                             </tbody>
                         </table>
                     </div>
                 </div>
             )}
+            {codRemittances.length > 0 && (
+                <div className="mt-8">
+                    <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-3">{t('deliveries.remittance.history_title')}</h3>
+                    <div className="bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 rounded-2xl overflow-hidden">
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm text-left rtl:text-right text-slate-600 dark:text-slate-400">
+                                <thead className="text-xs text-slate-700 uppercase bg-slate-50 dark:bg-slate-900/50 dark:text-slate-300">
+                                    <tr>
+                                        <th scope="col" className="px-6 py-3">{t('deliveries.remittance.paid_at_label')}</th>
+                                        <th scope="col" className="px-6 py-3">{t('deliveries.table.courier')}</th>
+                                        <th scope="col" className="px-6 py-3">{t('deliveries.remittance.orders')}</th>
+                                        <th scope="col" className="px-6 py-3">{t('deliveries.remittance.amount_label')}</th>
+                                        <th scope="col" className="px-6 py-3">{t('deliveries.remittance.fees')}</th>
+                                        <th scope="col" className="px-6 py-3 text-center">{t('actions')}</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {codRemittances.map(remittance => (
+                                        <tr key={remittance.id} className="border-b border-slate-200 dark:border-slate-700">
+                                            <td className="px-6 py-4 whitespace-nowrap">{formatDate(remittance.paidAt)}</td>
+                                            <td className="px-6 py-4 text-slate-900 dark:text-white">
+                                                {remittance.courier}
+                                                {remittance.reference && <span className="block text-xs font-mono text-slate-500 dark:text-slate-400">{remittance.reference}</span>}
+                                            </td>
+                                            <td className="px-6 py-4">{sales.filter(s => s.remittanceId === remittance.id).length}</td>
+                                            <td className="px-6 py-4 font-semibold">{formatCurrency(remittance.amount)}</td>
+                                            <td className="px-6 py-4">{formatCurrency(remittance.codTotal - remittance.amount)}</td>
+                                            <td className="px-6 py-4">
+                                                <div className="flex items-center justify-center">
+                                                    <motion.button
+                                                        onClick={() => setRemittanceToDeleteId(remittance.id)}
+                                                        className="p-2 rounded-md transition-colors bg-red-500/10 hover:bg-red-500/20 text-red-500"
+                                                        title={t('deliveries.remittance.delete')}
+                                                        whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}>
+                                                        <DeleteIcon className="w-5 h-5" />
+                                                    </motion.button>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                </div>
+            )}
             <ProductDetailsModal isOpen={isDetailsModalOpen} onClose={() => setIsDetailsModalOpen(false)} product={productToShow} />
+            <DeliveryForm
+                isOpen={deliveryToEdit !== null}
+                onClose={() => setDeliveryToEdit(null)}
+                onSave={handleSaveDelivery}
+                product={deliveryToEdit ? productOf(deliveryToEdit) ?? null : null}
+                delivery={deliveryToEdit}
+            />
             <ConfirmationModal 
                 isOpen={isConfirmSaleOpen}
                 onClose={() => {
                     setIsConfirmSaleOpen(false);
-                    setProductToConfirmSale(null);
+                    setDeliveryToConfirmSale(null);
                 }}
                 onConfirm={handleConfirmSaleAction}
                 title={t('delivery.confirm_sale_title')}
-                message={productToConfirmSale ? t('delivery.confirm_sale_message', { productName: productToConfirmSale.name }) : ''}
+                message={deliveryToConfirmSale ? t('delivery.confirm_sale_message', { productName: deliveryToConfirmSale.productName }) : ''}
                 confirmText={t('delivery.confirm_sale')}
+            >
+                <CustomerPicker value={saleCustomerId} onChange={setSaleCustomerId} />
+            </ConfirmationModal>
+            <CodRemittanceForm isOpen={isRemittanceFormOpen} onClose={() => setIsRemittanceFormOpen(false)} onSave={handleSaveRemittance} />
+            <ConfirmationModal
+                isOpen={remittanceToDeleteId !== null}
+                onClose={() => setRemittanceToDeleteId(null)}
+                onConfirm={handleConfirmDeleteRemittance}
+                title={t('deliveries.remittance.delete')}
+                message={t('deliveries.remittance.delete_confirm')}
             />
             <ConfirmationModal 
                 isOpen={isCancelConfirmOpen}
@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { ExpiryIcon } from '../components/Icons';
+import StatCard from '../components/StatCard';
+import type { Language, ExpiryStatus } from '../types';
+import { motion } from 'framer-motion';
+import { daysUntilExpiry, expiryStatus, EXPIRY_WARNING_DAYS } from '../services/stockLots';
+import { variantLabel } from '../services/variants';
+
+const localeMap: Record<Language, string> = {
+    fr: 'fr-FR',
+    en: 'en-GB',
+    ar: 'ar-SA-u-nu-latn',
+};
+
+const statusStyles: Record<ExpiryStatus, string> = {
+    expired: 'bg-red-100 text-red-800 dark:bg-red-500/20 dark:text-red-300',
+    expiring: 'bg-amber-100 text-amber-800 dark:bg-amber-500/20 dark:text-amber-300',
+    ok: 'bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300',
+};
+
+type ExpiryFilter = 'all' | 'expired' | 'expiring';
+
+// Every lot with an expiry date, soonest first, with what the units in it cost
+const Expiry: React.FC = () => {
+    const { products, t, language, formatCurrency } = useAppContext();
+    const [filter, setFilter] = useState<ExpiryFilter>('all');
+    const locale = localeMap[language];
+
+    const rows = useMemo(() => products
+        .flatMap(product => (product.lots || []).filter(lot => lot.expiresAt).map(lot => {
+            const variant = product.variants?.find(v => v.id === lot.variantId);
+            return {
+                lot, product, variant,
+                status: expiryStatus(lot), days: daysUntilExpiry(lot)!,
+                value: lot.quantity * (variant?.buyPrice ?? product.buyPrice),
+            };
+        }))
+        .sort((a, b) => a.lot.expiresAt!.localeCompare(b.lot.expiresAt!) || a.lot.id - b.lot.id),
+    [products]);
+
+    const totals = (status: ExpiryStatus) => {
+        const matching = rows.filter(r => r.status === status);
+        return { units: matching.reduce((sum, r) => sum + r.lot.quantity, 0), value: matching.reduce((sum, r) => sum + r.value, 0) };
+    };
+    const expired = totals('expired');
+    const expiring = totals('expiring');
+    const shown = filter === 'all' ? rows : rows.filter(r => r.status === filter);
+
+    const FilterButton: React.FC<{ value: ExpiryFilter }> = ({ value }) => (
+        <motion.button
+            onClick={() => setFilter(value)}
+            className={`px-3 py-1.5 text-sm font-semibold rounded-lg transition-colors relative ${
+                filter === value ? 'text-white' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-800/60'
+            }`}
+            whileTap={{ scale: 0.95 }}
+        >
+            {t(`expiry.filter.${value}`)}
+            {filter === value && (
+                <motion.div
+                    layoutId="active-expiry-filter"
+                    className="absolute inset-0 bg-gradient-to-r from-cyan-500 to-blue-500 rounded-lg -z-10"
+                    transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+                />
+            )}
+        </motion.button>
+    );
+
+    return (
+        <div>
+            <div className="flex flex-col sm:flex-row justify-between items-center gap-4 mb-6">
+                <h2 className="text-2xl font-bold text-slate-900 dark:text-white">{t('expiry.title')}</h2>
+                {rows.length > 0 && (
+                    <div className="flex items-center space-x-1 p-1 bg-slate-100 dark:bg-slate-800/60 rounded-xl">
+                        <FilterButton value="all" />
+                        <FilterButton value="expired" />
+                        <FilterButton value="expiring" />
+                    </div>
+                )}
+            </div>
+
+            {rows.length === 0 ? (
+                <div className="text-center py-10">
+                    <ExpiryIcon className="w-16 h-16 mx-auto text-slate-400 dark:text-slate-500 mb-4" />
+                    <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-2">{t('expiry.empty.title')}</h2>
+                    <p className="text-slate-600 dark:text-slate-400">{t('expiry.empty.subtitle')}</p>
+                </div>
+            ) : (
+                <>
+                    <div className="grid grid-cols-2 gap-4 mb-6">
+                        <StatCard icon={ExpiryIcon} title={t('expiry.expired_stock')} value={formatCurrency(expired.value)} description={t('expiry.units', { count: expired.units })} />
+                        <StatCard icon={ExpiryIcon} title={t('expiry.expiring_stock', { days: EXPIRY_WARNING_DAYS })} value={formatCurrency(expiring.value)} description={t('expiry.units', { count: expiring.units })} />
+                    </div>
+
+                    <div className="bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 rounded-2xl overflow-x-auto">
+                        <table className="w-full text-sm text-left rtl:text-right text-slate-600 dark:text-slate-400">
+                            <thead className="text-xs text-slate-700 uppercase bg-slate-50 dark:bg-slate-900/50 dark:text-slate-300">
+                                <tr>
+                                    {['product', 'lot', 'expires_at', 'status', 'quantity', 'value'].map(header => (
+                                        <th key={header} scope="col" className="px-4 py-2">{t(`expiry.table.${header}`)}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {shown.map(({ lot, product, variant, status, days, value }) => (
+                                    <tr key={lot.id} className="border-t border-slate-200 dark:border-slate-700">
+                                        <td className="px-4 py-2 font-medium text-slate-900 dark:text-white">
+                                            {product.name}
+                                            {variant && <span className="ms-2 text-xs font-normal text-slate-500 dark:text-slate-400">{variantLabel(variant)}</span>}
+                                        </td>
+                                        <td className="px-4 py-2">{lot.lotNumber || '-'}</td>
+                                        <td className="px-4 py-2 whitespace-nowrap">{new Date(`${lot.expiresAt}T00:00:00`).toLocaleDateString(locale, { dateStyle: 'medium' })}</td>
+                                        <td className="px-4 py-2 whitespace-nowrap">
+                                            <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${statusStyles[status]}`}>{t(`expiry.days.${status}`, { days: Math.abs(days) })}</span>
+                                        </td>
+                                        <td className="px-4 py-2">{lot.quantity}</td>
+                                        <td className="px-4 py-2 font-semibold">{formatCurrency(value)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {shown.length === 0 && <p className="text-center text-sm text-slate-500 dark:text-slate-400 py-6">{t('expiry.none_matching')}</p>}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default Expiry;
@@ -1,6 +1,6 @@
 import React from 'react';
 import { useAppContext } from '../context/AppContext';
-import { AddIcon, EditIcon, DeleteIcon, ShoppingCartIcon, UndoIcon, DeliveryIcon, LoaderIcon } from '../components/Icons';
+import { AddIcon, EditIcon, DeleteIcon, ShoppingCartIcon, UndoIcon, DeliveryIcon, LoaderIcon, ReceiveIcon, ReturnIcon, InventoryCountIcon, LandedCostIcon } from '../components/Icons';
 import { motion } from 'framer-motion';
 import type { ActivityLog, Language } from '../types';
 
@@ -81,6 +81,30 @@ const History: React.FC = () => {
           color: 'text-amber-500',
           title: t('history.action.delivery_cancelled', { productName: log.productName }),
         };
+      case 'received':
+        return {
+          Icon: ReceiveIcon,
+          color: 'text-indigo-500',
+          title: t('history.action.received', { productName: log.productName }),
+        };
+      case 'returned':
+        return {
+          Icon: ReturnIcon,
+          color: 'text-orange-500',
+          title: t('history.action.returned', { productName: log.productName }),
+        };
+      case 'counted':
+        return {
+          Icon: InventoryCountIcon,
+          color: 'text-teal-500',
+          title: t('history.action.counted', { productName: log.productName }),
+        };
+      case 'costed':
+        return {
+          Icon: LandedCostIcon,
+          color: 'text-emerald-500',
+          title: t('history.action.costed', { productName: log.productName }),
+        };
       default:
         return {
           Icon: EditIcon,
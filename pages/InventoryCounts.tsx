@@ -0,0 +1,311 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { InventoryCountIcon, AddIcon, DeleteIcon, ChevronLeftIcon, ScanBarcodeIcon, SearchIcon } from '../components/Icons';
+import type { Language, InventoryCount, InventoryCountLine, InventoryCountScope, InventoryCountStatus } from '../types';
+import { motion } from 'framer-motion';
+import ConfirmationModal from '../components/ConfirmationModal';
+import InventoryCountForm from '../components/InventoryCountForm';
+import { countSummary, expectedStock, lineVariance } from '../services/inventoryCounts';
+
+const localeMap: Record<Language, string> = {
+    fr: 'fr-FR',
+    en: 'en-GB',
+    ar: 'ar-SA-u-nu-latn',
+};
+
+const statusStyles: Record<InventoryCountStatus, string> = {
+    in_progress: 'bg-amber-100 text-amber-800 dark:bg-amber-500/20 dark:text-amber-300',
+    posted: 'bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300',
+};
+
+type LineFilter = 'all' | 'uncounted' | 'mismatched';
+
+const signed = (quantity: number) => quantity > 0 ? `+${quantity}` : `${quantity}`;
+
+const varianceClassName = (variance: number | undefined) =>
+    variance === undefined || variance === 0 ? 'text-slate-500 dark:text-slate-400' : variance > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-500';
+
+// The quantity found is saved when the field loses focus or on Enter, and an emptied field uncounts the line
+const CountedInput: React.FC<{ line: InventoryCountLine; onRecord: (lineId: number, counted: number | null) => Promise<boolean> }> = ({ line, onRecord }) => {
+    const [value, setValue] = useState(line.counted !== undefined ? String(line.counted) : '');
+
+    // Counts scanned on another device come in through realtime
+    useEffect(() => {
+        setValue(line.counted !== undefined ? String(line.counted) : '');
+    }, [line.counted]);
+
+    const commit = async () => {
+        const counted = value.trim() === '' ? null : parseInt(value, 10);
+        if (counted !== null && (isNaN(counted) || counted < 0)) {
+            setValue(line.counted !== undefined ? String(line.counted) : '');
+            return;
+        }
+        if ((counted ?? undefined) === line.counted) return;
+        const saved = await onRecord(line.id, counted);
+        if (!saved) setValue(line.counted !== undefined ? String(line.counted) : '');
+    };
+
+    return (
+        <input
+            type="number" min="0" step="1" inputMode="numeric"
+            value={value}
+            onChange={e => setValue(e.target.value)}
+            onBlur={commit}
+            onKeyDown={e => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+            className="w-24 bg-gray-50 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-1.5 text-gray-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+        />
+    );
+};
+
+const InventoryCounts: React.FC = () => {
+    const { inventoryCounts, products, suppliers, startInventoryCount, recordInventoryCount, postInventoryCount, deleteInventoryCount, openVisualSearch, t, language, formatCurrency } = useAppContext();
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [openCountId, setOpenCountId] = useState<number | null>(null);
+    const [countToPost, setCountToPost] = useState<InventoryCount | null>(null);
+    const [countToDelete, setCountToDelete] = useState<InventoryCount | null>(null);
+    const [lineFilter, setLineFilter] = useState<LineFilter>('all');
+    const [searchQuery, setSearchQuery] = useState('');
+    const locale = localeMap[language];
+
+    const openCount = inventoryCounts.find(c => c.id === openCountId) || null;
+
+    const formatDate = (isoString: string) => new Date(isoString).toLocaleDateString(locale, { dateStyle: 'medium' });
+
+    const scopeLabel = (count: InventoryCount) => {
+        const supplier = suppliers.find(s => s.id === count.supplierId)?.name;
+        const parts = [count.category, supplier].filter(Boolean);
+        return parts.length > 0 ? parts.join(' · ') : t('inventory_counts.whole_shop');
+    };
+
+    const handleStart = async (scope: InventoryCountScope) => {
+        const count = await startInventoryCount(scope);
+        if (count) {
+            setIsFormOpen(false);
+            setLineFilter('all');
+            setSearchQuery('');
+            setOpenCountId(count.id);
+        }
+    };
+
+    const visibleLines = useMemo(() => {
+        if (!openCount) return [];
+        const query = searchQuery.trim().toLowerCase();
+        return openCount.lines.filter(line => {
+            if (query && !`${line.productName} ${line.variantName || ''}`.toLowerCase().includes(query)) return false;
+            if (lineFilter === 'uncounted') return line.counted === undefined;
+            if (lineFilter === 'mismatched') return (lineVariance(line, products) ?? 0) !== 0;
+            return true;
+        });
+    }, [openCount, products, lineFilter, searchQuery]);
+
+    const newCountButton = (
+        <motion.button
+            onClick={() => setIsFormOpen(true)}
+            className="flex items-center text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg px-4 py-2"
+            whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}
+        >
+            <AddIcon className="w-5 h-5 me-2" />{t('inventory_counts.new_button')}
+        </motion.button>
+    );
+
+    const statusChip = (count: InventoryCount) => (
+        <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${statusStyles[count.status]}`}>{t(`inventory_counts.status.${count.status}`)}</span>
+    );
+
+    const dateLine = (count: InventoryCount) => count.postedAt
+        ? t('inventory_counts.posted_on', { date: formatDate(count.postedAt) })
+        : t('inventory_counts.started_on', { date: formatDate(count.createdAt) });
+
+    const renderCount = (count: InventoryCount) => {
+        const summary = countSummary(count, products);
+        const isPosted = count.status === 'posted';
+        return (
+            <div>
+                <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+                    <div className="flex items-center gap-3">
+                        <button onClick={() => setOpenCountId(null)} className="p-2 rounded-full text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700" title={t('inventory_counts.back')}>
+                            <ChevronLeftIcon className="w-5 h-5 rtl:rotate-180" />
+                        </button>
+                        <div>
+                            <div className="flex items-center gap-2">
+                                <h2 className="text-2xl font-bold text-slate-900 dark:text-white">{scopeLabel(count)}</h2>
+                                {statusChip(count)}
+                            </div>
+                            <p className="text-sm text-slate-600 dark:text-slate-400">{dateLine(count)}</p>
+                        </div>
+                    </div>
+                    {!isPosted && (
+                        <div className="flex items-center gap-2">
+                            <motion.button
+                                onClick={openVisualSearch}
+                                className="flex items-center bg-slate-100 dark:bg-white/10 text-slate-700 dark:text-white font-semibold rounded-lg px-4 py-2"
+                                whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}
+                            >
+                                <ScanBarcodeIcon className="w-5 h-5 me-2" />{t('inventory_counts.scan_button')}
+                            </motion.button>
+                            <motion.button
+                                onClick={() => setCountToPost(count)}
+                                disabled={summary.counted === 0}
+                                className="flex items-center text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg px-4 py-2 disabled:opacity-50"
+                                whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}
+                            >
+                                {t('inventory_counts.post_button')}
+                            </motion.button>
+                        </div>
+                    )}
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                    {[
+                        { label: t('inventory_counts.summary.counted'), value: `${summary.counted} / ${summary.total}` },
+                        { label: t('inventory_counts.summary.mismatched'), value: summary.mismatched },
+                        { label: t('inventory_counts.summary.over_short'), value: `+${summary.over} / -${summary.short}` },
+                        { label: t('inventory_counts.summary.value'), value: formatCurrency(summary.value), className: varianceClassName(Math.sign(summary.value)) },
+                    ].map(item => (
+                        <div key={item.label} className="bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 rounded-xl p-4">
+                            <p className="text-xs text-slate-500 dark:text-slate-400">{item.label}</p>
+                            <p className={`text-lg font-bold ${item.className || 'text-slate-900 dark:text-white'}`}>{item.value}</p>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="flex flex-col sm:flex-row gap-3 mb-4">
+                    <div className="relative flex-1">
+                        <SearchIcon className="absolute left-3 rtl:left-auto rtl:right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                        <input
+                            type="text"
+                            value={searchQuery}
+                            onChange={e => setSearchQuery(e.target.value)}
+                            placeholder={t('inventory_counts.search_placeholder')}
+                            className="w-full ps-9 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-lg p-2 text-slate-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                        />
+                    </div>
+                    <select
+                        value={lineFilter}
+                        onChange={e => setLineFilter(e.target.value as LineFilter)}
+                        className="bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-lg p-2 text-slate-900 dark:text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                    >
+                        {(['all', 'uncounted', 'mismatched'] as LineFilter[]).map(filter => (
+                            <option key={filter} value={filter}>{t(`inventory_counts.filter.${filter}`)}</option>
+                        ))}
+                    </select>
+                </div>
+
+                <div className="bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 rounded-2xl overflow-x-auto">
+                    <table className="w-full text-sm text-left rtl:text-right text-slate-600 dark:text-slate-400">
+                        <thead className="text-xs text-slate-700 uppercase bg-slate-50 dark:bg-slate-900/50 dark:text-slate-300">
+                            <tr>
+                                {['product', 'on_record', 'counted', 'variance'].map(header => (
+                                    <th key={header} scope="col" className="px-4 py-2">{t(`inventory_counts.table.${header}`)}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {visibleLines.map(line => {
+                                const variance = lineVariance(line, products);
+                                return (
+                                    <tr key={line.id} className="border-t border-slate-200 dark:border-slate-700">
+                                        <td className="px-4 py-2 font-medium text-slate-900 dark:text-white">
+                                            {line.productName}
+                                            {line.variantName && <span className="ms-2 text-xs font-normal text-slate-500 dark:text-slate-400">{line.variantName}</span>}
+                                        </td>
+                                        <td className="px-4 py-2">{line.productId === null && !isPosted ? '—' : expectedStock(line, products)}</td>
+                                        <td className="px-4 py-2">
+                                            {isPosted || line.productId === null
+                                                ? (line.counted ?? '—')
+                                                : <CountedInput line={line} onRecord={recordInventoryCount} />}
+                                        </td>
+                                        <td className={`px-4 py-2 font-semibold ${varianceClassName(variance)}`}>{variance === undefined ? '—' : signed(variance)}</td>
+                                    </tr>
+                                );
+                            })}
+                            {visibleLines.length === 0 && (
+                                <tr><td colSpan={4} className="px-4 py-6 text-center">{t('inventory_counts.no_lines')}</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div>
+            {openCount ? renderCount(openCount) : (
+                <>
+                    <div className="flex flex-col sm:flex-row justify-between items-center gap-4 mb-6">
+                        <h2 className="text-2xl font-bold text-slate-900 dark:text-white">{t('inventory_counts.title')}</h2>
+                        {inventoryCounts.length > 0 && newCountButton}
+                    </div>
+
+                    {inventoryCounts.length === 0 ? (
+                        <div className="text-center py-10">
+                            <InventoryCountIcon className="w-16 h-16 mx-auto text-slate-400 dark:text-slate-500 mb-4" />
+                            <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-2">{t('inventory_counts.empty.title')}</h2>
+                            <p className="text-slate-600 dark:text-slate-400 mb-6">{t('inventory_counts.empty.subtitle')}</p>
+                            <div className="flex justify-center">{newCountButton}</div>
+                        </div>
+                    ) : (
+                        <div className="space-y-4">
+                            {inventoryCounts.map(count => {
+                                const summary = countSummary(count, products);
+                                return (
+                                    <div
+                                        key={count.id}
+                                        onClick={() => { setLineFilter('all'); setSearchQuery(''); setOpenCountId(count.id); }}
+                                        className="cursor-pointer bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 rounded-2xl p-4 flex flex-wrap justify-between items-center gap-4 hover:border-cyan-500/50"
+                                    >
+                                        <div>
+                                            <div className="flex items-center gap-2">
+                                                <h3 className="font-bold text-slate-900 dark:text-white">{scopeLabel(count)}</h3>
+                                                {statusChip(count)}
+                                            </div>
+                                            <p className="text-sm text-slate-600 dark:text-slate-400">{dateLine(count)}</p>
+                                        </div>
+                                        <div className="flex items-center gap-4 text-sm">
+                                            <span>{t('inventory_counts.progress', { counted: summary.counted, total: summary.total })}</span>
+                                            {summary.mismatched > 0 && (
+                                                <span className={`font-semibold ${varianceClassName(Math.sign(summary.value))}`}>
+                                                    {t('inventory_counts.mismatched_lines', { count: summary.mismatched })} · {formatCurrency(summary.value)}
+                                                </span>
+                                            )}
+                                            {count.status === 'in_progress' && (
+                                                <motion.button
+                                                    onClick={e => { e.stopPropagation(); setCountToDelete(count); }}
+                                                    className="p-2 rounded-md transition-colors bg-red-500/10 hover:bg-red-500/20 text-red-500"
+                                                    title={t('delete')}
+                                                    whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}
+                                                >
+                                                    <DeleteIcon className="w-5 h-5" />
+                                                </motion.button>
+                                            )}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </>
+            )}
+
+            <InventoryCountForm isOpen={isFormOpen} onClose={() => setIsFormOpen(false)} onStart={handleStart} />
+            <ConfirmationModal
+                isOpen={!!countToPost}
+                onClose={() => setCountToPost(null)}
+                onConfirm={async () => { if (countToPost) await postInventoryCount(countToPost.id); }}
+                title={t('inventory_counts.confirm_post_title')}
+                message={countToPost ? t('inventory_counts.confirm_post', { ...countSummary(countToPost, products), value: formatCurrency(countSummary(countToPost, products).value) }) : ''}
+                confirmText={t('inventory_counts.post_button')}
+            />
+            <ConfirmationModal
+                isOpen={!!countToDelete}
+                onClose={() => setCountToDelete(null)}
+                onConfirm={async () => { if (countToDelete) await deleteInventoryCount(countToDelete.id); }}
+                title={t('inventory_counts.confirm_delete_title')}
+                message={t('inventory_counts.confirm_delete')}
+            />
+        </div>
+    );
+};
+
+export default InventoryCounts;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { LandedCostIcon, AddIcon } from '../components/Icons';
+import type { Language, LandedCostFormData } from '../types';
+import { motion } from 'framer-motion';
+import LandedCostModal from '../components/LandedCostModal';
+
+const localeMap: Record<Language, string> = {
+    fr: 'fr-FR',
+    en: 'en-GB',
+    ar: 'ar-SA-u-nu-latn',
+};
+
+const LandedCosts: React.FC = () => {
+    const { landedCosts, purchaseOrders, applyLandedCost, t, language, formatCurrency } = useAppContext();
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const locale = localeMap[language];
+
+    const formatDate = (isoString: string) => new Date(isoString).toLocaleDateString(locale, { dateStyle: 'medium' });
+
+    const handleApply = async (data: LandedCostFormData) => {
+        const applied = await applyLandedCost(data);
+        if (applied) setIsModalOpen(false);
+    };
+
+    const newButton = (
+        <motion.button
+            onClick={() => setIsModalOpen(true)}
+            className="flex items-center text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg px-4 py-2"
+            whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}
+        >
+            <AddIcon className="w-5 h-5 me-2" />{t('landed_costs.new_button')}
+        </motion.button>
+    );
+
+    return (
+        <div>
+            <div className="flex flex-col sm:flex-row justify-between items-center gap-4 mb-6">
+                <h2 className="text-2xl font-bold text-slate-900 dark:text-white">{t('landed_costs.title')}</h2>
+                {landedCosts.length > 0 && newButton}
+            </div>
+
+            {landedCosts.length === 0 ? (
+                <div className="text-center py-10">
+                    <LandedCostIcon className="w-16 h-16 mx-auto text-slate-400 dark:text-slate-500 mb-4" />
+                    <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-2">{t('landed_costs.empty.title')}</h2>
+                    <p className="text-slate-600 dark:text-slate-400 mb-6">{t('landed_costs.empty.subtitle')}</p>
+                    <div className="flex justify-center">{newButton}</div>
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    {landedCosts.map(landedCost => {
+                        const order = purchaseOrders.find(o => o.id === landedCost.purchaseOrderId);
+                        return (
+                            <div key={landedCost.id} className="bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 rounded-2xl overflow-hidden">
+                                <div className="flex flex-wrap justify-between items-start gap-4 p-4 border-b border-slate-200 dark:border-slate-700">
+                                    <div>
+                                        <div className="flex items-center gap-2">
+                                            <h3 className="font-bold text-slate-900 dark:text-white">{landedCost.reference || order?.supplier || t('landed_costs.title')}</h3>
+                                            {order && landedCost.reference && <span className="text-sm text-slate-500 dark:text-slate-400">{order.supplier}</span>}
+                                            <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-emerald-100 text-emerald-800 dark:bg-emerald-500/20 dark:text-emerald-300">{t(`landed_costs.basis.${landedCost.basis}`)}</span>
+                                        </div>
+                                        <p className="text-sm text-slate-600 dark:text-slate-400">{t('landed_costs.applied_on', { date: formatDate(landedCost.createdAt) })}</p>
+                                        <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+                                            {landedCost.charges.map(charge => `${charge.label} ${formatCurrency(charge.amount)}`).join(' · ')}
+                                        </p>
+                                    </div>
+                                    <span className="font-semibold text-slate-900 dark:text-white">{t('landed_costs.total', { amount: formatCurrency(landedCost.total) })}</span>
+                                </div>
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-sm text-left rtl:text-right text-slate-600 dark:text-slate-400">
+                                        <thead className="text-xs text-slate-700 uppercase bg-slate-50 dark:bg-slate-900/50 dark:text-slate-300">
+                                            <tr>
+                                                {['product', 'quantity', 'unit_cost', 'allocated', 'landed_unit_cost'].map(header => (
+                                                    <th key={header} scope="col" className="px-4 py-2">{t(`landed_costs.table.${header}`)}</th>
+                                                ))}
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {landedCost.lines.map((line, index) => (
+                                                <tr key={index} className="border-t border-slate-200 dark:border-slate-700">
+                                                    <td className="px-4 py-2 font-medium text-slate-900 dark:text-white">
+                                                        {line.productName}
+                                                        {line.variantName && <span className="ms-2 text-xs font-normal text-slate-500 dark:text-slate-400">{line.variantName}</span>}
+                                                    </td>
+                                                    <td className="px-4 py-2">{line.quantity}</td>
+                                                    <td className="px-4 py-2">{formatCurrency(line.unitCost)}</td>
+                                                    <td className="px-4 py-2">{formatCurrency(line.allocated)}</td>
+                                                    <td className="px-4 py-2 font-semibold">{formatCurrency(line.landedUnitCost)}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            <LandedCostModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} onApply={handleApply} order={null} />
+        </div>
+    );
+};
+
+export default LandedCosts;
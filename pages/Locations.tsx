@@ -0,0 +1,237 @@
+import React, { useState, useMemo } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { LocationsIcon, AddIcon, EditIcon, DeleteIcon, TransferIcon, MarkDeliveredIcon, UndoIcon } from '../components/Icons';
+import type { Language, StockLocation, StockLocationFormData, StockTransfer, StockTransferFormData } from '../types';
+import { motion } from 'framer-motion';
+import ConfirmationModal from '../components/ConfirmationModal';
+import StockLocationForm from '../components/StockLocationForm';
+import StockTransferForm from '../components/StockTransferForm';
+import { stockByLocation, locationName } from '../services/stockLocations';
+
+const localeMap: Record<Language, string> = {
+    fr: 'fr-FR',
+    en: 'en-GB',
+    ar: 'ar-SA-u-nu-latn',
+};
+
+const Locations: React.FC = () => {
+    const {
+        products, stockLocations, stockLevels, stockTransfers, addStockLocation, updateStockLocation, deleteStockLocation,
+        sendStockTransfer, receiveStockTransfer, cancelStockTransfer, t, language, formatCurrency,
+    } = useAppContext();
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [locationToEdit, setLocationToEdit] = useState<StockLocation | null>(null);
+    const [locationToDelete, setLocationToDelete] = useState<StockLocation | null>(null);
+    const [isTransferOpen, setIsTransferOpen] = useState(false);
+    const [transferToCancel, setTransferToCancel] = useState<StockTransfer | null>(null);
+    const locale = localeMap[language];
+
+    const breakdown = useMemo(
+        () => stockByLocation(products, stockLocations, stockLevels, stockTransfers),
+        [products, stockLocations, stockLevels, stockTransfers]
+    );
+    const inTransit = useMemo(
+        () => stockTransfers.filter(tr => tr.status === 'in_transit').sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+        [stockTransfers]
+    );
+    const received = useMemo(
+        () => stockTransfers.filter(tr => tr.status === 'received').sort((a, b) => (b.receivedAt || b.createdAt).localeCompare(a.receivedAt || a.createdAt)),
+        [stockTransfers]
+    );
+
+    const formatDate = (isoDate: string) => new Date(isoDate).toLocaleString(locale, { dateStyle: 'short', timeStyle: 'short' });
+    const nameOf = (locationId?: number) => locationName(stockLocations, locationId, t('locations.main_shop'));
+
+    const handleOpenForm = (location: StockLocation | null) => {
+        setLocationToEdit(location);
+        setIsFormOpen(true);
+    };
+
+    const handleSave = async (locationData: StockLocationFormData) => {
+        const saved = locationToEdit ? await updateStockLocation(locationToEdit, locationData) : await addStockLocation(locationData);
+        if (saved) setIsFormOpen(false);
+    };
+
+    const handleSendTransfer = async (transferData: StockTransferFormData) => {
+        if (await sendStockTransfer(transferData)) setIsTransferOpen(false);
+    };
+
+    const newLocationButton = (
+        <motion.button
+            onClick={() => handleOpenForm(null)}
+            className="flex items-center text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg px-4 py-2"
+            whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}
+        >
+            <AddIcon className="w-5 h-5 me-2" />{t('locations.new_button')}
+        </motion.button>
+    );
+
+    const transferRow = (transfer: StockTransfer, actions?: React.ReactNode) => (
+        <tr key={transfer.id} className="border-b border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800/60">
+            <td className="px-4 py-3 whitespace-nowrap">{formatDate(transfer.receivedAt || transfer.createdAt)}</td>
+            <td className="px-4 py-3 font-medium text-slate-900 dark:text-white">
+                {transfer.productName}
+                {transfer.variantName && <span className="block text-xs font-normal text-slate-500 dark:text-slate-400">{transfer.variantName}</span>}
+                {transfer.notes && <span className="block text-xs font-normal text-slate-500 dark:text-slate-400">{transfer.notes}</span>}
+            </td>
+            <td className="px-4 py-3 whitespace-nowrap">{nameOf(transfer.fromLocationId)} → {nameOf(transfer.toLocationId)}</td>
+            <td className="px-4 py-3 font-semibold">{transfer.quantity}</td>
+            {actions !== undefined && <td className="px-4 py-3">{actions}</td>}
+        </tr>
+    );
+
+    const transferHeaders = (withActions: boolean) => (
+        <thead className="text-xs text-slate-700 uppercase bg-slate-50 dark:bg-slate-900/50 dark:text-slate-300">
+            <tr>
+                <th scope="col" className="px-4 py-3">{t('locations.transfers.date')}</th>
+                <th scope="col" className="px-4 py-3">{t('locations.transfers.product')}</th>
+                <th scope="col" className="px-4 py-3">{t('locations.transfers.route')}</th>
+                <th scope="col" className="px-4 py-3">{t('locations.transfers.quantity')}</th>
+                {withActions && <th scope="col" className="px-4 py-3">{t('actions')}</th>}
+            </tr>
+        </thead>
+    );
+
+    return (
+        <div className="space-y-8">
+            <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
+                <h2 className="text-2xl font-bold text-slate-900 dark:text-white">{t('locations.title')}</h2>
+                {stockLocations.length > 0 && (
+                    <div className="flex items-center gap-2">
+                        <motion.button
+                            onClick={() => setIsTransferOpen(true)}
+                            className="flex items-center font-semibold rounded-lg px-4 py-2 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 border border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700"
+                            whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}
+                        >
+                            <TransferIcon className="w-5 h-5 me-2" />{t('locations.transfer.new_button')}
+                        </motion.button>
+                        {newLocationButton}
+                    </div>
+                )}
+            </div>
+
+            {stockLocations.length === 0 ? (
+                <div className="text-center py-10">
+                    <LocationsIcon className="w-16 h-16 mx-auto text-slate-400 dark:text-slate-500 mb-4" />
+                    <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-2">{t('locations.empty.title')}</h2>
+                    <p className="text-slate-600 dark:text-slate-400 mb-6">{t('locations.empty.subtitle')}</p>
+                    <div className="flex justify-center">{newLocationButton}</div>
+                </div>
+            ) : (
+                <>
+                    <div className="bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 rounded-2xl overflow-hidden">
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm text-left rtl:text-right text-slate-600 dark:text-slate-400">
+                                <thead className="text-xs text-slate-700 uppercase bg-slate-50 dark:bg-slate-900/50 dark:text-slate-300">
+                                    <tr>
+                                        {['name', 'kind', 'units', 'stock_value', 'retail_value', 'actions'].map(header => (
+                                            <th key={header} scope="col" className="px-4 py-3">{t(`locations.table.${header}`)}</th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {breakdown.rows.map(row => {
+                                        const location = stockLocations.find(l => l.id === row.locationId);
+                                        return (
+                                            <tr key={row.locationId ?? 'main'} className="border-b border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800/60">
+                                                <td className="px-4 py-3 font-medium text-slate-900 dark:text-white">
+                                                    {nameOf(row.locationId)}
+                                                    {location?.notes && <span className="block text-xs font-normal text-slate-500 dark:text-slate-400">{location.notes}</span>}
+                                                </td>
+                                                <td className="px-4 py-3">{t(`locations.kind.${location?.kind || 'shop'}`)}</td>
+                                                <td className="px-4 py-3">{row.units}</td>
+                                                <td className="px-4 py-3 whitespace-nowrap">{formatCurrency(row.value)}</td>
+                                                <td className="px-4 py-3 whitespace-nowrap">{formatCurrency(row.retailValue)}</td>
+                                                <td className="px-4 py-3">
+                                                    {location && (
+                                                        <div className="flex items-center space-x-2">
+                                                            <motion.button onClick={() => handleOpenForm(location)} className="p-2 rounded-md transition-colors bg-blue-500/10 hover:bg-blue-500/20 text-blue-500" title={t('locations.edit')} whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}>
+                                                                <EditIcon className="w-5 h-5" />
+                                                            </motion.button>
+                                                            <motion.button onClick={() => setLocationToDelete(location)} className="p-2 rounded-md transition-colors bg-red-500/10 hover:bg-red-500/20 text-red-500" title={t('delete')} whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}>
+                                                                <DeleteIcon className="w-5 h-5" />
+                                                            </motion.button>
+                                                        </div>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                    {breakdown.inTransit.units > 0 && (
+                                        <tr className="border-b border-slate-200 dark:border-slate-700 italic">
+                                            <td className="px-4 py-3" colSpan={2}>{t('locations.in_transit')}</td>
+                                            <td className="px-4 py-3">{breakdown.inTransit.units}</td>
+                                            <td className="px-4 py-3 whitespace-nowrap">{formatCurrency(breakdown.inTransit.value)}</td>
+                                            <td className="px-4 py-3 whitespace-nowrap">{formatCurrency(breakdown.inTransit.retailValue)}</td>
+                                            <td className="px-4 py-3"></td>
+                                        </tr>
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+
+                    <div>
+                        <h3 className="text-lg font-semibold mb-4 text-slate-900 dark:text-white">{t('locations.transfers.in_transit_title')}</h3>
+                        {inTransit.length === 0 ? (
+                            <p className="text-sm text-slate-500 dark:text-slate-400">{t('locations.transfers.none_in_transit')}</p>
+                        ) : (
+                            <div className="bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 rounded-2xl overflow-hidden">
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-sm text-left rtl:text-right text-slate-600 dark:text-slate-400">
+                                        {transferHeaders(true)}
+                                        <tbody>
+                                            {inTransit.map(transfer => transferRow(transfer, (
+                                                <div className="flex items-center space-x-2">
+                                                    <motion.button onClick={() => receiveStockTransfer(transfer.id)} className="flex items-center text-white bg-gradient-to-r from-green-500 to-emerald-500 font-semibold rounded-lg px-3 py-2 text-sm" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+                                                        <MarkDeliveredIcon className="w-4 h-4 me-2" />{t('locations.transfers.receive')}
+                                                    </motion.button>
+                                                    <motion.button onClick={() => setTransferToCancel(transfer)} className="p-2 rounded-md transition-colors bg-red-500/10 hover:bg-red-500/20 text-red-500" title={t('locations.transfers.cancel')} whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}>
+                                                        <UndoIcon className="w-5 h-5" />
+                                                    </motion.button>
+                                                </div>
+                                            )))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+
+                    {received.length > 0 && (
+                        <div>
+                            <h3 className="text-lg font-semibold mb-4 text-slate-900 dark:text-white">{t('locations.transfers.history_title')}</h3>
+                            <div className="bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 rounded-2xl overflow-hidden">
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-sm text-left rtl:text-right text-slate-600 dark:text-slate-400">
+                                        {transferHeaders(false)}
+                                        <tbody>{received.map(transfer => transferRow(transfer))}</tbody>
+                                    </table>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+                </>
+            )}
+
+            <StockLocationForm isOpen={isFormOpen} onClose={() => setIsFormOpen(false)} onSave={handleSave} location={locationToEdit} />
+            <StockTransferForm isOpen={isTransferOpen} onClose={() => setIsTransferOpen(false)} onSend={handleSendTransfer} />
+            <ConfirmationModal
+                isOpen={!!locationToDelete}
+                onClose={() => setLocationToDelete(null)}
+                onConfirm={async () => { if (locationToDelete) await deleteStockLocation(locationToDelete.id); }}
+                title={t('locations.confirm_delete_title')}
+                message={t('locations.confirm_delete', { name: locationToDelete?.name || '' })}
+            />
+            <ConfirmationModal
+                isOpen={!!transferToCancel}
+                onClose={() => setTransferToCancel(null)}
+                onConfirm={async () => { if (transferToCancel) await cancelStockTransfer(transferToCancel.id); }}
+                title={t('locations.transfers.confirm_cancel_title')}
+                message={t('locations.transfers.confirm_cancel', { quantity: transferToCancel?.quantity ?? 0, name: transferToCancel ? nameOf(transferToCancel.fromLocationId) : '' })}
+            />
+        </div>
+    );
+};
+
+export default Locations;
@@ -2,7 +2,7 @@ import React, { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { useAppContext } from '../context/AppContext';
-import { ProductsIcon, CameraIcon, DashboardIcon, ChevronRightIcon } from '../components/Icons';
+import { ProductsIcon, CameraIcon, DashboardIcon, ChevronRightIcon, InventoryCountIcon } from '../components/Icons';
 
 const MobileHub: React.FC = () => {
     const { t, user, openVisualSearch } = useAppContext();
@@ -79,12 +79,19 @@ const MobileHub: React.FC = () => {
                     onClick={handleSellOrDeliverClick}
                     delay={2}
                 />
+                <ActionButton
+                    icon={InventoryCountIcon}
+                    title={t('mobile_hub.count_stock_title')}
+                    description={t('mobile_hub.count_stock_desc')}
+                    onClick={() => navigate('/counts')}
+                    delay={3}
+                />
                 <ActionButton
                     icon={DashboardIcon}
                     title={t('mobile_hub.enter_platform_title')}
                     description={t('mobile_hub.enter_platform_desc')}
                     onClick={() => navigate('/dashboard')}
-                    delay={3}
+                    delay={4}
                 />
             </div>
         </div>
@@ -1,12 +1,17 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { useAppContext } from '../context/AppContext';
-import type { Product, BulkUpdatePayload, ProductFormData, Language } from '../types';
+import type { Product, ProductVariantFormData, BulkUpdatePayload, ProductFormData, Language, DeliveryFormData, SalePayment, SalePricing } from '../types';
 import ProductForm from '../components/ProductForm';
 import SaleModal from '../components/SaleModal';
+import DeliveryForm from '../components/DeliveryForm';
 import BulkEditForm from '../components/BulkEditForm';
 import ConfirmationModal from '../components/ConfirmationModal';
-import { AddIcon, EditIcon, DeleteIcon, ChevronLeftIcon, ChevronRightIcon, ProductsIcon, ShoppingCartIcon, DuplicateIcon, SearchIcon, MoreVerticalIcon, UploadIcon, LoaderIcon, BulkEditIcon, SortAscIcon, SortDescIcon, DeliveryIcon, AlertCircleIcon } from '../components/Icons';
+import ProductDetailsModal from '../components/ProductDetailsModal';
+import LocationFilterSelect from '../components/LocationFilterSelect';
+import StockTransferForm from '../components/StockTransferForm';
+import { AddIcon, EditIcon, DeleteIcon, ChevronLeftIcon, ChevronRightIcon, ProductsIcon, ShoppingCartIcon, DuplicateIcon, SearchIcon, MoreVerticalIcon, UploadIcon, LoaderIcon, BulkEditIcon, SortAscIcon, SortDescIcon, DeliveryIcon, AlertCircleIcon, PendingSyncIcon, HistoryIcon, TransferIcon } from '../components/Icons';
 import { AnimatePresence, motion } from 'framer-motion';
+import { matchesLocation, unitsAt, type LocationFilter } from '../services/stockLocations';
 
 const localeDateMap: Record<Language, string> = {
     fr: 'fr-FR',
@@ -19,11 +24,12 @@ const calculateMargin = (product: Product) => {
   return (((product.sellPrice - product.buyPrice) / product.sellPrice) * 100).toFixed(1);
 };
 
-const ProductCard: React.FC<{ product: Product, onSelect: (id: number) => void, isSelected: boolean, onEdit: (p: Product) => void, onSell: (p: Product) => void, onDuplicate: (id: number) => void, onDelete: (id: number) => void, onSetDelivery: (p: Product) => void }> = 
-({ product, onSelect, isSelected, onEdit, onSell, onDuplicate, onDelete, onSetDelivery }) => {
-  const { t } = useAppContext();
+const ProductCard: React.FC<{ product: Product, onSelect: (id: number) => void, isSelected: boolean, onEdit: (p: Product) => void, onSell: (p: Product) => void, onDuplicate: (id: number) => void, onDelete: (id: number) => void, onSetDelivery: (p: Product) => void, onShowHistory: (p: Product) => void, locationStock?: number }> = 
+({ product, onSelect, isSelected, onEdit, onSell, onDuplicate, onDelete, onSetDelivery, onShowHistory, locationStock }) => {
+  const { t, formatCurrency, pendingSync } = useAppContext();
   const [menuOpen, setMenuOpen] = useState(false);
   const lowStock = product.stock > 0 && product.stock <= 5;
+  const isPendingSync = pendingSync.productIds.includes(product.id);
 
   const margin = useMemo(() => calculateMargin(product), [product]);
 
@@ -61,7 +67,13 @@ const ProductCard: React.FC<{ product: Product, onSelect: (id: number) => void,
             <p className={`text-xs flex items-center ${lowStock ? 'text-amber-600 dark:text-amber-400 font-semibold' : 'text-slate-500 dark:text-slate-500'}`}>
                 {lowStock && <AlertCircleIcon className="w-4 h-4 me-1" />}
                 Stock: {product.stock}
+                {locationStock !== undefined && <span className="ms-1 font-normal">· {t('locations.units_here', { count: locationStock })}</span>}
             </p>
+            {isPendingSync && (
+              <span className="px-2 py-0.5 rounded-full text-xs font-semibold flex items-center bg-amber-100 text-amber-800 dark:bg-amber-500/20 dark:text-amber-300" title={t('offline.pending_sync')}>
+                <PendingSyncIcon className="w-3.5 h-3.5" />
+              </span>
+            )}
           </div>
         </div>
       </div>
@@ -69,7 +81,7 @@ const ProductCard: React.FC<{ product: Product, onSelect: (id: number) => void,
         <div className="flex items-center justify-between">
            <div className="text-left">
              <div className="text-xs text-slate-600 dark:text-slate-400">{t('products.table.sell_price')}</div>
-             <div className="font-semibold text-lg text-slate-900 dark:text-white">{product.sellPrice.toFixed(2)} DA</div>
+             <div className="font-semibold text-lg text-slate-900 dark:text-white">{formatCurrency(product.sellPrice)}</div>
            </div>
            <div className="text-right">
              <div className="text-xs text-slate-600 dark:text-slate-400">{t('products.table.margin')}</div>
@@ -102,6 +114,7 @@ const ProductCard: React.FC<{ product: Product, onSelect: (id: number) => void,
                   <button onClick={() => { onEdit(product); setMenuOpen(false); }} className="w-full text-left px-3 py-2 text-sm flex items-center text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700/50"><EditIcon className="w-4 h-4 me-2"/> {t('edit')}</button>
                   <button onClick={() => { onSetDelivery(product); setMenuOpen(false); }} className="w-full text-left px-3 py-2 text-sm flex items-center text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700/50"><DeliveryIcon className="w-4 h-4 me-2"/> {t('products.actions.set_delivery')}</button>
                   <button onClick={() => { onDuplicate(product.id); setMenuOpen(false); }} className="w-full text-left px-3 py-2 text-sm flex items-center text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700/50"><DuplicateIcon className="w-4 h-4 me-2"/> {t('duplicate')}</button>
+                  <button onClick={() => { onShowHistory(product); setMenuOpen(false); }} className="w-full text-left px-3 py-2 text-sm flex items-center text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700/50"><HistoryIcon className="w-4 h-4 me-2"/> {t('stock_movements.action')}</button>
                   <div className="h-px bg-slate-200 dark:bg-slate-700 my-1"></div>
                   <button onClick={() => { onDelete(product.id); setMenuOpen(false); }} className="w-full text-left px-3 py-2 text-sm flex items-center text-red-500 hover:bg-red-500/10"><DeleteIcon className="w-4 h-4 me-2"/> {t('delete')}</button>
                 </motion.div>
@@ -117,13 +130,14 @@ const ProductCard: React.FC<{ product: Product, onSelect: (id: number) => void,
 const Products: React.FC = () => {
   type SortKey = 'name' | 'buyPrice' | 'sellPrice' | 'stock' | 'createdAt';
   
-  const { products, addProduct, updateProduct, deleteProduct, deleteMultipleProducts, duplicateProduct, addSale, t, addMultipleProducts, updateMultipleProducts, setProductToDelivery, language, productDataForForm, setProductDataForForm, visualSearchQuery, setVisualSearchQuery } = useAppContext();
+  const { products, stockLocations, stockLevels, stockTransfers, sendStockTransfer, addProduct, updateProduct, deleteProduct, deleteMultipleProducts, duplicateProduct, addSale, t, formatCurrency, addMultipleProducts, updateMultipleProducts, createDelivery, language, productDataForForm, setProductDataForForm, visualSearchQuery, setVisualSearchQuery, productAction, setProductAction } = useAppContext();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [productToEdit, setProductToEdit] = useState<Product | null>(null);
   const [initialFormData, setInitialFormData] = useState<(ProductFormData & { imageBlob?: Blob }) | null>(null);
   const [isSaleModalOpen, setIsSaleModalOpen] = useState(false);
   const [isBulkEditModalOpen, setIsBulkEditModalOpen] = useState(false);
   const [productToSell, setProductToSell] = useState<Product | null>(null);
+  const [saleVariantId, setSaleVariantId] = useState<number | undefined>(undefined);
   const [currentPage, setCurrentPage] = useState(1);
   const [selectedProducts, setSelectedProducts] = useState<number[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
@@ -132,13 +146,16 @@ const Products: React.FC = () => {
   const [sortKey, setSortKey] = useState<SortKey>('createdAt');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [showLowStockOnly, setShowLowStockOnly] = useState(false);
-  const [isDeliveryConfirmOpen, setIsDeliveryConfirmOpen] = useState(false);
   const [productToSetDelivery, setProductToSetDelivery] = useState<Product | null>(null);
+  const [deliveryVariantId, setDeliveryVariantId] = useState<number | undefined>(undefined);
   const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
   const [productToDeleteId, setProductToDeleteId] = useState<number | null>(null);
   const [isBulkDeleteConfirmOpen, setIsBulkDeleteConfirmOpen] = useState(false);
   const [hoveredImage, setHoveredImage] = useState<string | null>(null);
   const [openMenuId, setOpenMenuId] = useState<number | null>(null);
+  const [productToShow, setProductToShow] = useState<Product | null>(null);
+  const [locationFilter, setLocationFilter] = useState<LocationFilter>('all');
+  const [productToTransfer, setProductToTransfer] = useState<Product | null>(null);
   const menuRef = useRef<HTMLDivElement>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -161,6 +178,18 @@ const Products: React.FC = () => {
     }
   }, [productDataForForm, setProductDataForForm]);
 
+  useEffect(() => {
+    if (productAction) {
+        const product = products.find(p => p.id === productAction.productId);
+        if (product && productAction.type === 'sell') {
+            handleOpenSaleModal(product, productAction.variantId);
+        } else if (product && productAction.type === 'deliver') {
+            handleOpenDeliveryForm(product, productAction.variantId);
+        }
+        setProductAction(null);
+    }
+  }, [productAction, setProductAction, products]);
+
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
         if (openMenuId !== null && menuRef.current && !menuRef.current.contains(event.target as Node)) {
@@ -225,10 +254,8 @@ const Products: React.FC = () => {
     return sortable;
   }, [products, sortKey, sortDirection]);
 
-  const availableProducts = useMemo(() => sortedProducts.filter(p => p.status !== 'en livraison'), [sortedProducts]);
-
   const filteredProducts = useMemo(() => {
-    let intermediateResults = availableProducts;
+    let intermediateResults = sortedProducts.filter(product => matchesLocation(product, locationFilter, stockLevels, stockTransfers));
 
     if (showLowStockOnly) {
         intermediateResults = intermediateResults.filter(product => product.stock > 0 && product.stock <= 5);
@@ -241,9 +268,13 @@ const Products: React.FC = () => {
     return intermediateResults.filter(product =>
         product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
         product.category.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        product.supplier.toLowerCase().includes(searchQuery.toLowerCase())
+        product.supplier.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        [product, ...(product.variants || [])].some(item => item.sku?.toLowerCase() === searchQuery.toLowerCase() || item.barcode === searchQuery)
     );
-  }, [availableProducts, searchQuery, showLowStockOnly]);
+  }, [sortedProducts, searchQuery, showLowStockOnly, locationFilter, stockLevels, stockTransfers]);
+
+  // Units of a product at the filtered location, shown next to its total stock
+  const locationStock = (product: Product) => locationFilter === 'all' ? undefined : unitsAt(product, locationFilter === 'main' ? undefined : locationFilter, stockLevels, stockTransfers);
 
   const paginatedProducts = useMemo(() => {
     const startIndex = (currentPage - 1) * productsPerPage;
@@ -252,7 +283,7 @@ const Products: React.FC = () => {
   
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchQuery, sortKey, sortDirection, showLowStockOnly]);
+  }, [searchQuery, sortKey, sortDirection, showLowStockOnly, locationFilter]);
 
   useEffect(() => {
     setSelectedProducts([]);
@@ -304,8 +335,9 @@ const Products: React.FC = () => {
     }
   };
 
-  const handleOpenSaleModal = (product: Product) => {
+  const handleOpenSaleModal = (product: Product, variantId?: number) => {
     setProductToSell(product);
+    setSaleVariantId(variantId);
     setIsSaleModalOpen(true);
   };
 
@@ -314,8 +346,8 @@ const Products: React.FC = () => {
       setProductToSell(null);
   };
 
-  const handleConfirmSale = (productId: number, quantity: number) => {
-      addSale(productId, quantity);
+  const handleConfirmSale = (productId: number, quantity: number, variantId?: number, customerId?: number, payments?: SalePayment[], pricing?: SalePricing) => {
+      addSale(productId, quantity, variantId, customerId, payments, pricing);
       handleCloseSaleModal();
   };
 
@@ -365,6 +397,7 @@ const Products: React.FC = () => {
             const header = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
             
             const requiredColumns = ['Handle', 'Title', 'Product Category', 'Variant Price', 'Variant SKU', 'Image Src'];
+            const optionalColumns = ['Option1 Name', 'Option1 Value', 'Option2 Name', 'Option2 Value', 'Option3 Name', 'Option3 Value', 'Variant Barcode', 'Variant Inventory Qty', 'Cost per item'];
             const missingColumns: string[] = [];
             const colIndices: Record<string, number> = {};
             requiredColumns.forEach(col => {
@@ -377,42 +410,74 @@ const Products: React.FC = () => {
             if (missingColumns.length > 0) {
               throw new Error(`Missing columns: ${missingColumns.join(', ')}`);
             }
+            optionalColumns.forEach(col => { colIndices[col] = header.indexOf(col); });
 
-            const newProducts: Omit<Product, 'id' | 'status' | 'createdAt'>[] = [];
-            const processedHandles = new Set<string>();
+            // Shopify exports one row per variant: the first row of a handle carries the product, the next ones only the variant
+            const productsByHandle = new Map<string, { product: Omit<ProductFormData, 'imageFile'>; optionNames: string[]; variants: ProductVariantFormData[] }>();
             const csvRegex = /,(?=(?:(?:[^"]*"){2})*[^"]*$)/;
 
             for (let i = 1; i < lines.length; i++) {
                 if (!lines[i]) continue;
                 const data = lines[i].split(csvRegex).map(d => d.trim().replace(/^"|"$/g, ''));
+                const cell = (col: string) => colIndices[col] >= 0 ? data[colIndices[col]] || '' : '';
                 
-                const handle = data[colIndices['Handle']];
-                if (handle && !processedHandles.has(handle)) {
-                    processedHandles.add(handle);
-                    
-                    const name = data[colIndices['Title']];
-                    const category = data[colIndices['Product Category']];
-                    const sellPriceStr = data[colIndices['Variant Price']];
-                    const stockStr = data[colIndices['Variant SKU']] || '';
-                    const imageUrl = data[colIndices['Image Src']];
-
-                    const sellPrice = parseFloat(sellPriceStr);
-                    const stock = parseInt(stockStr.replace(/'/g, ''), 10);
-                    
-                    if (name && !isNaN(sellPrice)) {
-                        newProducts.push({
+                const handle = cell('Handle');
+                if (!handle) continue;
+
+                let entry = productsByHandle.get(handle);
+                if (!entry) {
+                    const name = cell('Title');
+                    if (!name) continue;
+                    entry = {
+                        product: {
                             name,
-                            category: category || t('products.uncategorized'),
+                            category: cell('Product Category') || t('products.uncategorized'),
                             supplier: 'Shopify',
                             buyPrice: 0,
-                            sellPrice,
-                            stock: !isNaN(stock) ? stock : 0,
-                            imageUrl: imageUrl || undefined,
-                        });
-                    }
+                            sellPrice: 0,
+                            stock: 0,
+                            imageUrl: cell('Image Src') || undefined,
+                        },
+                        optionNames: [1, 2, 3].map(n => cell(`Option${n} Name`)),
+                        variants: [],
+                    };
+                    productsByHandle.set(handle, entry);
                 }
+
+                // Rows that only add an image have no price
+                const sellPrice = parseFloat(cell('Variant Price'));
+                if (isNaN(sellPrice)) continue;
+                const stock = parseInt(cell('Variant Inventory Qty'), 10);
+                const buyPrice = parseFloat(cell('Cost per item'));
+                entry.variants.push({
+                    options: entry.optionNames
+                        .map((name, index) => ({ name, value: cell(`Option${index + 1} Value`) }))
+                        .filter(option => option.name && option.value),
+                    sku: cell('Variant SKU') || undefined,
+                    barcode: cell('Variant Barcode').replace(/^'/, '') || undefined,
+                    buyPrice: !isNaN(buyPrice) ? buyPrice : 0,
+                    sellPrice,
+                    stock: !isNaN(stock) ? stock : 0,
+                });
             }
 
+            const newProducts: Omit<ProductFormData, 'imageFile'>[] = [];
+            productsByHandle.forEach(({ product, variants }) => {
+                if (variants.length === 0) return;
+                const [first] = variants;
+                // A product without options is exported as a single "Default Title" variant
+                const hasVariants = variants.length > 1 || (first.options.length > 0 && first.options[0].value !== 'Default Title');
+                newProducts.push({
+                    ...product,
+                    buyPrice: first.buyPrice,
+                    sellPrice: first.sellPrice,
+                    stock: variants.reduce((sum, v) => sum + v.stock, 0),
+                    sku: hasVariants ? undefined : first.sku,
+                    barcode: hasVariants ? undefined : first.barcode,
+                    variants: hasVariants ? variants : undefined,
+                });
+            });
+
             if (newProducts.length > 0) {
                 await addMultipleProducts(newProducts);
                 alert(t('products.import.success', { count: newProducts.length }));
@@ -443,15 +508,13 @@ const Products: React.FC = () => {
     }
   };
 
-  const handleOpenDeliveryConfirm = (product: Product) => {
+  const handleOpenDeliveryForm = (product: Product, variantId?: number) => {
     setProductToSetDelivery(product);
-    setIsDeliveryConfirmOpen(true);
+    setDeliveryVariantId(variantId);
   };
 
-  const handleConfirmSetToDelivery = async () => {
-      if (productToSetDelivery) {
-          await setProductToDelivery(productToSetDelivery.id);
-      }
+  const handleCreateDelivery = async (deliveryData: DeliveryFormData) => {
+      if (await createDelivery(deliveryData)) setProductToSetDelivery(null);
   };
 
   const numSelected = selectedProducts.length;
@@ -527,6 +590,7 @@ const Products: React.FC = () => {
             <AlertCircleIcon className="w-5 h-5 me-2" />
             {t('products.filter.low_stock')}
         </motion.button>
+        <LocationFilterSelect value={locationFilter} onChange={setLocationFilter} />
         {isMobile && (
             <select
                 value={`${sortKey}_${sortDirection}`}
@@ -590,7 +654,9 @@ const Products: React.FC = () => {
               onSell={handleOpenSaleModal}
               onDuplicate={duplicateProduct}
               onDelete={handleOpenDeleteConfirm}
-              onSetDelivery={handleOpenDeliveryConfirm}
+              onSetDelivery={handleOpenDeliveryForm}
+              onShowHistory={setProductToShow}
+              locationStock={locationStock(p)}
             />
           ))}
         </div>
@@ -656,13 +722,14 @@ const Products: React.FC = () => {
                     </td>
                     <td className="px-6 py-4 font-medium text-slate-900 dark:text-white whitespace-nowrap">{product.name}</td>
                     <td className="px-6 py-4">{product.category}</td>
-                    <td className="px-6 py-4">{product.buyPrice.toFixed(2)} DA</td>
-                    <td className="px-6 py-4">{product.sellPrice.toFixed(2)} DA</td>
+                    <td className="px-6 py-4">{formatCurrency(product.buyPrice)}</td>
+                    <td className="px-6 py-4">{formatCurrency(product.sellPrice)}</td>
                     <td className="px-6 py-4">
                       <div className={`flex items-center ${product.stock > 0 && product.stock <= 5 ? 'text-amber-600 dark:text-amber-400 font-semibold' : ''}`}>
                           {product.stock > 0 && product.stock <= 5 && <AlertCircleIcon className="w-4 h-4 me-1.5" />}
                           {product.stock}
                       </div>
+                      {locationStock(product) !== undefined && <span className="block text-xs">{t('locations.units_here', { count: locationStock(product)! })}</span>}
                     </td>
                     <td className={`px-6 py-4 font-semibold ${parseFloat(calculateMargin(product)) >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>{calculateMargin(product)}%</td>
                     <td className="px-6 py-4">
@@ -692,8 +759,10 @@ const Products: React.FC = () => {
                           >
                             <button onClick={() => { handleOpenSaleModal(product); setOpenMenuId(null); }} disabled={product.stock === 0} className="w-full text-left px-3 py-2 text-sm flex items-center text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700/50 disabled:opacity-50"><ShoppingCartIcon className="w-4 h-4 me-2"/> {t('sell')}</button>
                             <button onClick={() => { handleOpenModal(product); setOpenMenuId(null); }} className="w-full text-left px-3 py-2 text-sm flex items-center text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700/50"><EditIcon className="w-4 h-4 me-2"/> {t('edit')}</button>
-                            <button onClick={() => { handleOpenDeliveryConfirm(product); setOpenMenuId(null); }} className="w-full text-left px-3 py-2 text-sm flex items-center text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700/50"><DeliveryIcon className="w-4 h-4 me-2"/> {t('products.actions.set_delivery')}</button>
+                            <button onClick={() => { handleOpenDeliveryForm(product); setOpenMenuId(null); }} className="w-full text-left px-3 py-2 text-sm flex items-center text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700/50"><DeliveryIcon className="w-4 h-4 me-2"/> {t('products.actions.set_delivery')}</button>
+                            {stockLocations.length > 0 && <button onClick={() => { setProductToTransfer(product); setOpenMenuId(null); }} disabled={product.stock === 0} className="w-full text-left px-3 py-2 text-sm flex items-center text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700/50 disabled:opacity-50"><TransferIcon className="w-4 h-4 me-2"/> {t('locations.transfer.action')}</button>}
                             <button onClick={() => { duplicateProduct(product.id); setOpenMenuId(null); }} className="w-full text-left px-3 py-2 text-sm flex items-center text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700/50"><DuplicateIcon className="w-4 h-4 me-2"/> {t('duplicate')}</button>
+                            <button onClick={() => { setProductToShow(product); setOpenMenuId(null); }} className="w-full text-left px-3 py-2 text-sm flex items-center text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700/50"><HistoryIcon className="w-4 h-4 me-2"/> {t('stock_movements.action')}</button>
                             <div className="h-px bg-slate-200 dark:bg-slate-700 my-1"></div>
                             <button onClick={() => { handleOpenDeleteConfirm(product.id); setOpenMenuId(null); }} className="w-full text-left px-3 py-2 text-sm flex items-center text-red-500 hover:bg-red-500/10"><DeleteIcon className="w-4 h-4 me-2"/> {t('delete')}</button>
                           </motion.div>
@@ -758,17 +827,21 @@ const Products: React.FC = () => {
       </AnimatePresence>
 
       <ProductForm isOpen={isModalOpen} onClose={handleCloseModal} onSave={handleSaveProduct} productToEdit={productToEdit} initialData={initialFormData} />
-      <SaleModal isOpen={isSaleModalOpen} onClose={handleCloseSaleModal} onConfirm={handleConfirmSale} product={productToSell} />
+      <SaleModal isOpen={isSaleModalOpen} onClose={handleCloseSaleModal} onConfirm={handleConfirmSale} product={productToSell} initialVariantId={saleVariantId} />
       <BulkEditForm isOpen={isBulkEditModalOpen} onClose={() => setIsBulkEditModalOpen(false)} onSave={handleSaveBulkEdit} productCount={selectedProducts.length} />
-      <ConfirmationModal 
-        isOpen={isDeliveryConfirmOpen}
-        onClose={() => {
-            setIsDeliveryConfirmOpen(false);
-            setProductToSetDelivery(null);
-        }}
-        onConfirm={handleConfirmSetToDelivery}
-        title={t('products.actions.set_delivery_confirm_title')}
-        message={productToSetDelivery ? t('products.actions.set_delivery_confirm_message_with_quantity', { productName: productToSetDelivery.name, quantity: 1 }) : ''}
+      <ProductDetailsModal isOpen={productToShow !== null} onClose={() => setProductToShow(null)} product={productToShow} />
+      <StockTransferForm
+        isOpen={productToTransfer !== null}
+        onClose={() => setProductToTransfer(null)}
+        onSend={async data => { if (await sendStockTransfer(data)) setProductToTransfer(null); }}
+        product={productToTransfer}
+      />
+      <DeliveryForm
+        isOpen={productToSetDelivery !== null}
+        onClose={() => setProductToSetDelivery(null)}
+        onSave={handleCreateDelivery}
+        product={productToSetDelivery}
+        variantId={deliveryVariantId}
       />
       <ConfirmationModal 
         isOpen={isDeleteConfirmOpen}
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { PromotionIcon, AddIcon, EditIcon, DeleteIcon } from '../components/Icons';
+import type { Language, Promotion, PromotionFormData } from '../types';
+import { motion } from 'framer-motion';
+import ConfirmationModal from '../components/ConfirmationModal';
+import PromotionForm from '../components/PromotionForm';
+import { isActivePromotion } from '../services/promotions';
+
+const localeMap: Record<Language, string> = {
+    fr: 'fr-FR',
+    en: 'en-GB',
+    ar: 'ar-SA-u-nu-latn',
+};
+
+type PromotionStatus = 'scheduled' | 'running' | 'ended';
+
+const statusStyles: Record<PromotionStatus, string> = {
+    scheduled: 'bg-blue-100 text-blue-800 dark:bg-blue-500/20 dark:text-blue-300',
+    running: 'bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300',
+    ended: 'bg-slate-100 text-slate-600 dark:bg-slate-500/20 dark:text-slate-400',
+};
+
+const promotionStatus = (promotion: Promotion, now: string): PromotionStatus =>
+    isActivePromotion(promotion, now) ? 'running' : promotion.startsAt > now ? 'scheduled' : 'ended';
+
+const Promotions: React.FC = () => {
+    const { promotions, products, sales, addPromotion, updatePromotion, deletePromotion, t, language, formatCurrency } = useAppContext();
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [promotionToEdit, setPromotionToEdit] = useState<Promotion | null>(null);
+    const [promotionToDelete, setPromotionToDelete] = useState<Promotion | null>(null);
+    const locale = localeMap[language];
+    const now = new Date().toISOString();
+
+    const formatDate = (isoDate: string) => new Date(isoDate).toLocaleDateString(locale, { dateStyle: 'medium' });
+    const formatDiscount = (promotion: Promotion) => promotion.kind === 'percent'
+        ? `-${promotion.value.toLocaleString(locale)} %`
+        : t('promotions.per_unit', { amount: `-${formatCurrency(promotion.value)}` });
+    const scopeOf = (promotion: Promotion) => promotion.productId !== undefined
+        ? products.find(p => p.id === promotion.productId)?.name || t('promotions.scope.deleted_product')
+        : promotion.category || t('promotions.scope.all');
+
+    const handleOpenForm = (promotion: Promotion | null) => {
+        setPromotionToEdit(promotion);
+        setIsFormOpen(true);
+    };
+
+    const handleSave = async (promotionData: PromotionFormData) => {
+        const saved = promotionToEdit ? await updatePromotion(promotionToEdit, promotionData) : await addPromotion(promotionData);
+        if (saved) setIsFormOpen(false);
+    };
+
+    const newPromotionButton = (
+        <motion.button
+            onClick={() => handleOpenForm(null)}
+            className="flex items-center text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg px-4 py-2"
+            whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}
+        >
+            <AddIcon className="w-5 h-5 me-2" />{t('promotions.new_button')}
+        </motion.button>
+    );
+
+    return (
+        <div className="space-y-8">
+            <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
+                <h2 className="text-2xl font-bold text-slate-900 dark:text-white">{t('promotions.title')}</h2>
+                {promotions.length > 0 && newPromotionButton}
+            </div>
+
+            {promotions.length === 0 ? (
+                <div className="text-center py-10">
+                    <PromotionIcon className="w-16 h-16 mx-auto text-slate-400 dark:text-slate-500 mb-4" />
+                    <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-2">{t('promotions.empty.title')}</h2>
+                    <p className="text-slate-600 dark:text-slate-400 mb-6">{t('promotions.empty.subtitle')}</p>
+                    <div className="flex justify-center">{newPromotionButton}</div>
+                </div>
+            ) : (
+                <div className="bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 rounded-2xl overflow-hidden">
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-left rtl:text-right text-slate-600 dark:text-slate-400">
+                            <thead className="text-xs text-slate-700 uppercase bg-slate-50 dark:bg-slate-900/50 dark:text-slate-300">
+                                <tr>
+                                    {['name', 'discount', 'applies_to', 'period', 'sales', 'actions'].map(header => (
+                                        <th key={header} scope="col" className="px-4 py-3">{t(`promotions.table.${header}`)}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {promotions.map(promotion => {
+                                    const status = promotionStatus(promotion, now);
+                                    return (
+                                        <tr key={promotion.id} className="border-b border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800/60">
+                                            <td className="px-4 py-3 font-medium text-slate-900 dark:text-white">
+                                                {promotion.name}
+                                                <span className={`ms-2 px-2 py-0.5 text-xs font-semibold rounded-full ${statusStyles[status]}`}>{t(`promotions.status.${status}`)}</span>
+                                            </td>
+                                            <td className="px-4 py-3 whitespace-nowrap font-semibold">{formatDiscount(promotion)}</td>
+                                            <td className="px-4 py-3">{scopeOf(promotion)}</td>
+                                            <td className="px-4 py-3 whitespace-nowrap">{formatDate(promotion.startsAt)} → {formatDate(promotion.endsAt)}</td>
+                                            <td className="px-4 py-3">{sales.filter(s => s.promotionId === promotion.id).length}</td>
+                                            <td className="px-4 py-3">
+                                                <div className="flex items-center space-x-2">
+                                                    <motion.button onClick={() => handleOpenForm(promotion)} className="p-2 rounded-md transition-colors bg-blue-500/10 hover:bg-blue-500/20 text-blue-500" title={t('promotions.edit')} whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}>
+                                                        <EditIcon className="w-5 h-5" />
+                                                    </motion.button>
+                                                    <motion.button onClick={() => setPromotionToDelete(promotion)} className="p-2 rounded-md transition-colors bg-red-500/10 hover:bg-red-500/20 text-red-500" title={t('delete')} whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}>
+                                                        <DeleteIcon className="w-5 h-5" />
+                                                    </motion.button>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            <PromotionForm isOpen={isFormOpen} onClose={() => setIsFormOpen(false)} onSave={handleSave} promotion={promotionToEdit} />
+            <ConfirmationModal
+                isOpen={!!promotionToDelete}
+                onClose={() => setPromotionToDelete(null)}
+                onConfirm={async () => { if (promotionToDelete) await deletePromotion(promotionToDelete.id); }}
+                title={t('promotions.confirm_delete_title')}
+                message={t('promotions.confirm_delete', { name: promotionToDelete?.name || '' })}
+            />
+        </div>
+    );
+};
+
+export default Promotions;
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { PurchasesIcon, AddIcon, EditIcon, DeleteIcon, ReceiveIcon, DeliveryIcon, LandedCostIcon } from '../components/Icons';
+import type { Language, PurchaseOrder, PurchaseOrderFormData, PurchaseOrderStatus, GoodsReceipt, LandedCostFormData } from '../types';
+import { motion } from 'framer-motion';
+import ConfirmationModal from '../components/ConfirmationModal';
+import PurchaseOrderForm from '../components/PurchaseOrderForm';
+import ReceiveGoodsModal from '../components/ReceiveGoodsModal';
+import LandedCostModal from '../components/LandedCostModal';
+import { orderTotal, landedTotal } from '../services/purchaseOrders';
+import { formatMoney } from '../services/money';
+
+const localeMap: Record<Language, string> = {
+    fr: 'fr-FR',
+    en: 'en-GB',
+    ar: 'ar-SA-u-nu-latn',
+};
+
+const statusStyles: Record<PurchaseOrderStatus, string> = {
+    draft: 'bg-slate-100 text-slate-800 dark:bg-slate-500/20 dark:text-slate-300',
+    ordered: 'bg-sky-100 text-sky-800 dark:bg-sky-500/20 dark:text-sky-300',
+    partially_received: 'bg-amber-100 text-amber-800 dark:bg-amber-500/20 dark:text-amber-300',
+    received: 'bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300',
+};
+
+const Purchases: React.FC = () => {
+    const { purchaseOrders, savePurchaseOrder, markPurchaseOrderOrdered, deletePurchaseOrder, receivePurchaseOrder, applyLandedCost, t, language, currency, formatCurrency } = useAppContext();
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [orderToEdit, setOrderToEdit] = useState<PurchaseOrder | null>(null);
+    const [orderToReceive, setOrderToReceive] = useState<PurchaseOrder | null>(null);
+    const [orderToCost, setOrderToCost] = useState<PurchaseOrder | null>(null);
+    const [orderToSend, setOrderToSend] = useState<PurchaseOrder | null>(null);
+    const [orderToDelete, setOrderToDelete] = useState<PurchaseOrder | null>(null);
+    const locale = localeMap[language];
+
+    const formatDate = (isoString: string) => new Date(isoString).toLocaleDateString(locale, { dateStyle: 'medium' });
+    // Costs are kept in the currency the order was placed in
+    const formatOrderAmount = (order: PurchaseOrder, amount: number) => order.currency ? formatMoney(amount, order.currency, locale) : formatCurrency(amount);
+
+    const handleOpenForm = (order: PurchaseOrder | null) => {
+        setOrderToEdit(order);
+        setIsFormOpen(true);
+    };
+
+    const handleSave = async (orderData: PurchaseOrderFormData) => {
+        const saved = await savePurchaseOrder(orderToEdit?.id ?? null, orderData);
+        if (saved) setIsFormOpen(false);
+    };
+
+    const handleReceive = async (receipts: GoodsReceipt[]) => {
+        if (!orderToReceive) return;
+        const received = await receivePurchaseOrder(orderToReceive.id, receipts);
+        if (received) setOrderToReceive(null);
+    };
+
+    const handleApplyLandedCost = async (data: LandedCostFormData) => {
+        const applied = await applyLandedCost(data);
+        if (applied) setOrderToCost(null);
+    };
+
+    const newOrderButton = (
+        <motion.button
+            onClick={() => handleOpenForm(null)}
+            className="flex items-center text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg px-4 py-2"
+            whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}
+        >
+            <AddIcon className="w-5 h-5 me-2" />{t('purchases.new_button')}
+        </motion.button>
+    );
+
+    const ActionButton: React.FC<{ onClick: () => void; title: string; icon: React.ElementType; className: string }> = ({ onClick, title, icon: Icon, className }) => (
+        <motion.button onClick={onClick} className={`p-2 rounded-md transition-colors ${className}`} title={title} whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}>
+            <Icon className="w-5 h-5" />
+        </motion.button>
+    );
+
+    return (
+        <div>
+            <div className="flex flex-col sm:flex-row justify-between items-center gap-4 mb-6">
+                <h2 className="text-2xl font-bold text-slate-900 dark:text-white">{t('purchases.title')}</h2>
+                {purchaseOrders.length > 0 && newOrderButton}
+            </div>
+
+            {purchaseOrders.length === 0 ? (
+                <div className="text-center py-10">
+                    <PurchasesIcon className="w-16 h-16 mx-auto text-slate-400 dark:text-slate-500 mb-4" />
+                    <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-2">{t('purchases.empty.title')}</h2>
+                    <p className="text-slate-600 dark:text-slate-400 mb-6">{t('purchases.empty.subtitle')}</p>
+                    <div className="flex justify-center">{newOrderButton}</div>
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    {purchaseOrders.map(order => (
+                        <div key={order.id} className="bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 rounded-2xl overflow-hidden">
+                            <div className="flex flex-wrap justify-between items-start gap-4 p-4 border-b border-slate-200 dark:border-slate-700">
+                                <div>
+                                    <div className="flex items-center gap-2">
+                                        <h3 className="font-bold text-slate-900 dark:text-white">{order.supplier}</h3>
+                                        {order.reference && <span className="text-sm text-slate-500 dark:text-slate-400">{order.reference}</span>}
+                                        <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${statusStyles[order.status]}`}>{t(`purchases.status.${order.status}`)}</span>
+                                    </div>
+                                    <p className="text-sm text-slate-600 dark:text-slate-400">
+                                        {order.orderedAt ? t('purchases.ordered_on', { date: formatDate(order.orderedAt) }) : t('purchases.created_on', { date: formatDate(order.createdAt) })}
+                                    </p>
+                                    {order.notes && <p className="text-sm text-slate-600 dark:text-slate-400 mt-1 whitespace-pre-line">{order.notes}</p>}
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <div className="text-end me-2">
+                                        <span className="font-semibold text-slate-900 dark:text-white">{formatOrderAmount(order, orderTotal(order))}</span>
+                                        {order.currency && order.exchangeRate && (
+                                            <p className="text-xs text-slate-500 dark:text-slate-400">
+                                                {t('purchases.landed_total', {
+                                                    amount: formatCurrency(landedTotal(order.lines, order.exchangeRate)),
+                                                    currency: order.currency, rate: order.exchangeRate.toLocaleString(locale), shopCurrency: currency,
+                                                })}
+                                            </p>
+                                        )}
+                                    </div>
+                                    {order.status === 'draft' && (
+                                        <>
+                                            <ActionButton onClick={() => handleOpenForm(order)} title={t('purchases.edit')} icon={EditIcon} className="bg-blue-500/10 hover:bg-blue-500/20 text-blue-500" />
+                                            <ActionButton onClick={() => setOrderToSend(order)} title={t('purchases.mark_ordered')} icon={DeliveryIcon} className="bg-sky-500/10 hover:bg-sky-500/20 text-sky-500" />
+                                            <ActionButton onClick={() => setOrderToDelete(order)} title={t('delete')} icon={DeleteIcon} className="bg-red-500/10 hover:bg-red-500/20 text-red-500" />
+                                        </>
+                                    )}
+                                    {(order.status === 'ordered' || order.status === 'partially_received') && (
+                                        <ActionButton onClick={() => setOrderToReceive(order)} title={t('purchases.receive')} icon={ReceiveIcon} className="bg-indigo-500/10 hover:bg-indigo-500/20 text-indigo-500" />
+                                    )}
+                                    {order.lines.some(l => l.receivedQuantity > 0) && (
+                                        <ActionButton onClick={() => setOrderToCost(order)} title={t('purchases.add_landed_cost')} icon={LandedCostIcon} className="bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-500" />
+                                    )}
+                                </div>
+                            </div>
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-sm text-left rtl:text-right text-slate-600 dark:text-slate-400">
+                                    <thead className="text-xs text-slate-700 uppercase bg-slate-50 dark:bg-slate-900/50 dark:text-slate-300">
+                                        <tr>
+                                            {['product', 'quantity', 'received', 'unit_cost', 'total'].map(header => (
+                                                <th key={header} scope="col" className="px-4 py-2">{t(`purchases.table.${header}`)}</th>
+                                            ))}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {order.lines.map(line => (
+                                            <tr key={line.id} className="border-t border-slate-200 dark:border-slate-700">
+                                                <td className="px-4 py-2 font-medium text-slate-900 dark:text-white">
+                                                    {line.productName}
+                                                    {line.variantName && <span className="ms-2 text-xs font-normal text-slate-500 dark:text-slate-400">{line.variantName}</span>}
+                                                </td>
+                                                <td className="px-4 py-2">{line.quantity}</td>
+                                                <td className="px-4 py-2">{line.receivedQuantity}</td>
+                                                <td className="px-4 py-2">{formatOrderAmount(order, line.unitCost)}</td>
+                                                <td className="px-4 py-2 font-semibold">{formatOrderAmount(order, line.quantity * line.unitCost)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <PurchaseOrderForm isOpen={isFormOpen} onClose={() => setIsFormOpen(false)} onSave={handleSave} order={orderToEdit} />
+            <ReceiveGoodsModal isOpen={!!orderToReceive} onClose={() => setOrderToReceive(null)} onConfirm={handleReceive} order={orderToReceive} />
+            <LandedCostModal isOpen={!!orderToCost} onClose={() => setOrderToCost(null)} onApply={handleApplyLandedCost} order={orderToCost} />
+            <ConfirmationModal
+                isOpen={!!orderToSend}
+                onClose={() => setOrderToSend(null)}
+                onConfirm={async () => { if (orderToSend) await markPurchaseOrderOrdered(orderToSend.id); }}
+                title={t('purchases.confirm_order_title')}
+                message={t('purchases.confirm_order')}
+                confirmText={t('purchases.mark_ordered')}
+            />
+            <ConfirmationModal
+                isOpen={!!orderToDelete}
+                onClose={() => setOrderToDelete(null)}
+                onConfirm={async () => { if (orderToDelete) await deletePurchaseOrder(orderToDelete.id); }}
+                title={t('purchases.confirm_delete_title')}
+                message={t('purchases.confirm_delete')}
+            />
+        </div>
+    );
+};
+
+export default Purchases;
@@ -1,11 +1,17 @@
 import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useAppContext } from '../context/AppContext';
-import { ShoppingCartIcon, UndoIcon, DollarSignIcon, ArchiveIcon, TrendingUpIcon, ViewDetailsIcon, PiggyBankIcon } from '../components/Icons';
-import type { Language, Sale, Product } from '../types';
+import { ShoppingCartIcon, UndoIcon, DollarSignIcon, ArchiveIcon, TrendingUpIcon, ViewDetailsIcon, PiggyBankIcon, PendingSyncIcon, AddIcon, OrderIcon, ReturnIcon, DeliveryIcon } from '../components/Icons';
+import type { Language, Sale, Product, PaymentMethod } from '../types';
 import { motion, AnimatePresence } from 'framer-motion';
 import ProductDetailsModal from '../components/ProductDetailsModal';
 import StatCard from '../components/StatCard';
 import ConfirmationModal from '../components/ConfirmationModal';
+import SaleOrderModal from '../components/SaleOrderModal';
+import ReturnModal from '../components/ReturnModal';
+import { returnedQuantity, salesEntries } from '../services/returns';
+import { PAYMENT_METHODS, paidWith } from '../services/payments';
+import { isDeliveredSale } from '../services/deliveries';
 
 const localeMap: Record<Language, string> = {
     fr: 'fr-FR',
@@ -15,8 +21,53 @@ const localeMap: Record<Language, string> = {
 
 type TimeRange = 'today' | '7d' | '30d' | '1y' | 'all';
 
-const SaleCard: React.FC<{ sale: Sale, onCancel: (id: number) => void, formatTimestamp: (iso: string) => string, onViewDetails: (p: Product) => void, product: Product | undefined }> = ({ sale, onCancel, formatTimestamp, onViewDetails, product }) => {
+const optionClassName = "bg-white dark:bg-slate-800 text-slate-900 dark:text-white";
+
+// Marks a sale that was rung up as part of a multi-product order, and opens that order
+const OrderChip: React.FC<{ orderId: number, onOpen: (orderId: number) => void }> = ({ orderId, onOpen }) => {
+    const { t } = useAppContext();
+    return (
+        <button
+            onClick={() => onOpen(orderId)}
+            className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-semibold rounded-full bg-cyan-100 text-cyan-800 dark:bg-cyan-500/20 dark:text-cyan-300 hover:underline"
+            title={t('sales.order.view')}
+        >
+            <OrderIcon className="w-3.5 h-3.5" />{t('sales.order.chip', { id: orderId })}
+        </button>
+    );
+};
+
+// How many units of a sale came back
+const ReturnedChip: React.FC<{ quantity: number }> = ({ quantity }) => {
     const { t } = useAppContext();
+    return (
+        <span className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-semibold rounded-full bg-orange-100 text-orange-800 dark:bg-orange-500/20 dark:text-orange-300">
+            <ReturnIcon className="w-3.5 h-3.5" />{t('returns.chip', { quantity })}
+        </span>
+    );
+};
+
+// How a sale was paid, such as "Cash + Card"
+const PaymentMethods: React.FC<{ sale: Sale }> = ({ sale }) => {
+    const { t } = useAppContext();
+    if (sale.payments.length === 0) return null;
+    return <span className="block text-xs font-normal text-slate-500 dark:text-slate-400">{sale.payments.map(p => t(`payments.method.${p.method}`)).join(' + ')}</span>;
+};
+
+// A delivered sale whose cash the courier has not paid over yet
+const AwaitingCodChip: React.FC = () => {
+    const { t } = useAppContext();
+    return (
+        <span className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-semibold rounded-full bg-amber-100 text-amber-800 dark:bg-amber-500/20 dark:text-amber-300">
+            <DeliveryIcon className="w-3.5 h-3.5" />{t('sales.awaiting_cod')}
+        </span>
+    );
+};
+
+const SaleCard: React.FC<{ sale: Sale, onCancel: (id: number) => void, onReturn: (sale: Sale) => void, formatTimestamp: (iso: string) => string, onViewDetails: (p: Product) => void, onOpenOrder: (orderId: number) => void, product: Product | undefined }> = ({ sale, onCancel, onReturn, formatTimestamp, onViewDetails, onOpenOrder, product }) => {
+    const { t, pendingSync, customers, saleReturns, deliveries } = useAppContext();
+    const customer = customers.find(c => c.id === sale.customerId);
+    const returned = returnedQuantity(sale.id, saleReturns);
     return (
         <div className="bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 rounded-xl overflow-hidden p-4 flex space-x-4 items-start">
             {product?.imageUrl ? (
@@ -30,7 +81,16 @@ const SaleCard: React.FC<{ sale: Sale, onCancel: (id: number) => void, formatTim
                 <div className="flex justify-between items-start">
                     <div className="flex-1 min-w-0">
                         <h3 className="font-bold text-slate-900 dark:text-white leading-tight truncate">{sale.productName}</h3>
-                        <p className="text-sm text-slate-600 dark:text-slate-400">{formatTimestamp(sale.createdAt)}</p>
+                        {sale.variantName && <p className="text-xs text-slate-500 dark:text-slate-400 truncate">{sale.variantName}</p>}
+                        {customer && <p className="text-xs text-slate-500 dark:text-slate-400 truncate">{customer.name}</p>}
+                        <PaymentMethods sale={sale} />
+                        {sale.orderId !== undefined && <OrderChip orderId={sale.orderId} onOpen={onOpenOrder} />}
+                        {returned > 0 && <ReturnedChip quantity={returned} />}
+                        {sale.paymentStatus === 'awaiting_cod' && <AwaitingCodChip />}
+                        <p className="text-sm text-slate-600 dark:text-slate-400 flex items-center gap-1">
+                            {formatTimestamp(sale.createdAt)}
+                            {pendingSync.saleIds.includes(sale.id) && <PendingSyncIcon className="w-4 h-4 text-amber-500" title={t('offline.pending_sync')} />}
+                        </p>
                     </div>
                     <div className="flex items-center space-x-1 flex-shrink-0 -mt-1 -me-2">
                         {product && (
@@ -44,15 +104,28 @@ const SaleCard: React.FC<{ sale: Sale, onCancel: (id: number) => void, formatTim
                                 <ViewDetailsIcon className="w-5 h-5" />
                             </motion.button>
                         )}
-                        <motion.button 
-                            onClick={() => onCancel(sale.id)} 
-                            className="p-2 rounded-full transition-colors bg-red-500/10 hover:bg-red-500/20 text-red-500" 
-                            title={t('sales.cancel_sale')}
-                            whileHover={{ scale: 1.1 }}
-                            whileTap={{ scale: 0.9 }}
-                        >
-                            <UndoIcon className="w-5 h-5" />
-                        </motion.button>
+                        {returned < sale.quantity && (
+                            <motion.button
+                                onClick={() => onReturn(sale)}
+                                className="p-2 rounded-full transition-colors bg-orange-500/10 hover:bg-orange-500/20 text-orange-500"
+                                title={t('returns.return_button')}
+                                whileHover={{ scale: 1.1 }}
+                                whileTap={{ scale: 0.9 }}
+                            >
+                                <ReturnIcon className="w-5 h-5" />
+                            </motion.button>
+                        )}
+                        {returned === 0 && !isDeliveredSale(sale, deliveries) && (
+                            <motion.button 
+                                onClick={() => onCancel(sale.id)} 
+                                className="p-2 rounded-full transition-colors bg-red-500/10 hover:bg-red-500/20 text-red-500" 
+                                title={t('sales.cancel_sale')}
+                                whileHover={{ scale: 1.1 }}
+                                whileTap={{ scale: 0.9 }}
+                            >
+                                <UndoIcon className="w-5 h-5" />
+                            </motion.button>
+                        )}
                     </div>
                 </div>
                 <div className="mt-3 grid grid-cols-3 gap-2 text-center">
@@ -75,7 +148,8 @@ const SaleCard: React.FC<{ sale: Sale, onCancel: (id: number) => void, formatTim
 }
 
 const Sales: React.FC = () => {
-    const { sales, cancelSale, t, language, products } = useAppContext();
+    const { sales, saleReturns, deliveries, cancelSale, t, language, formatCurrency, products, customers, pendingSync } = useAppContext();
+    const customerName = (sale: Sale) => customers.find(c => c.id === sale.customerId)?.name;
     const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
     const [isDetailsModalOpen, setIsDetailsModalOpen] = useState(false);
     const [productToShow, setProductToShow] = useState<Product | null>(null);
@@ -83,14 +157,20 @@ const Sales: React.FC = () => {
     const [saleToCancelId, setSaleToCancelId] = useState<number | null>(null);
     const [hoveredImage, setHoveredImage] = useState<string | null>(null);
     const [timeRange, setTimeRange] = useState<TimeRange>('30d');
+    const [methodFilter, setMethodFilter] = useState<PaymentMethod | 'all'>('all');
+    const [orderToShow, setOrderToShow] = useState<number | null>(null);
+    const [saleToReturn, setSaleToReturn] = useState<Sale | null>(null);
+    const navigate = useNavigate();
     const locale = localeMap[language];
 
-    const filteredSales = useMemo(() => {
+    // Returns are counted on the day they happened, like the sales, and follow their sale's payment method
+    const [filteredSales, filteredReturns] = useMemo(() => {
         const now = new Date();
-        const validSales = sales.filter(s => s.createdAt && !isNaN(new Date(s.createdAt).getTime()));
+        const validSales = sales.filter(s => s.createdAt && !isNaN(new Date(s.createdAt).getTime()) && (methodFilter === 'all' || paidWith(s, methodFilter)));
+        const validReturns = methodFilter === 'all' ? saleReturns : saleReturns.filter(r => validSales.some(s => s.id === r.saleId));
 
         if (timeRange === 'all') {
-            return validSales;
+            return [validSales, validReturns];
         }
 
         let startDate = new Date();
@@ -113,15 +193,19 @@ const Sales: React.FC = () => {
                 break;
         }
         
-        return validSales.filter(s => new Date(s.createdAt) >= startDate);
-    }, [sales, timeRange]);
+        return [
+            validSales.filter(s => new Date(s.createdAt) >= startDate),
+            validReturns.filter(r => new Date(r.createdAt) >= startDate),
+        ];
+    }, [sales, saleReturns, timeRange, methodFilter]);
 
     const salesStats = useMemo(() => {
-        const totalRevenue = filteredSales.reduce((acc, s) => acc + s.totalPrice, 0);
-        const totalProfit = filteredSales.reduce((acc, s) => acc + (s.totalMargin || 0), 0);
-        const unitsSold = filteredSales.reduce((acc, s) => acc + s.quantity, 0);
+        const entries = salesEntries(filteredSales, filteredReturns);
+        const totalRevenue = entries.reduce((acc, s) => acc + s.totalPrice, 0);
+        const totalProfit = entries.reduce((acc, s) => acc + (s.totalMargin || 0), 0);
+        const unitsSold = entries.reduce((acc, s) => acc + s.quantity, 0);
         return { totalRevenue, totalProfit, unitsSold };
-    }, [filteredSales]);
+    }, [filteredSales, filteredReturns]);
 
     useEffect(() => {
         const handleResize = () => setIsMobile(window.innerWidth < 768);
@@ -169,12 +253,23 @@ const Sales: React.FC = () => {
         </motion.button>
     );
 
+    const newOrderButton = (
+        <motion.button
+            onClick={() => navigate('/checkout')}
+            className="flex items-center text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg px-4 py-2"
+            whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}
+        >
+            <AddIcon className="w-5 h-5 me-2" />{t('sales.new_order_button')}
+        </motion.button>
+    );
+
     if (sales.length === 0) {
         return (
             <div className="text-center py-10">
                 <ShoppingCartIcon className="w-16 h-16 mx-auto text-slate-400 dark:text-slate-500 mb-4" />
                 <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-2">{t('sales.empty.title')}</h2>
-                <p className="text-slate-600 dark:text-slate-400">{t('sales.empty.subtitle')}</p>
+                <p className="text-slate-600 dark:text-slate-400 mb-6">{t('sales.empty.subtitle')}</p>
+                <div className="flex justify-center">{newOrderButton}</div>
             </div>
         )
     }
@@ -185,18 +280,30 @@ const Sales: React.FC = () => {
         <div>
             <div className="flex flex-col sm:flex-row justify-between items-center gap-4 mb-6">
                 <h2 className="text-2xl font-bold text-slate-900 dark:text-white">{t('sales.title')}</h2>
-                <div className="flex items-center space-x-1 p-1 bg-slate-100 dark:bg-slate-800/60 rounded-xl">
-                    <TimeRangeButton range="today" label={t('dashboard.range.today')} />
-                    <TimeRangeButton range="7d" label={t('dashboard.range.7d')} />
-                    <TimeRangeButton range="30d" label={t('dashboard.range.30d')} />
-                    <TimeRangeButton range="1y" label={t('dashboard.range.1y')} />
-                    <TimeRangeButton range="all" label={t('dashboard.range.all')} />
+                <div className="flex flex-col sm:flex-row items-center gap-4">
+                    <div className="flex items-center space-x-1 p-1 bg-slate-100 dark:bg-slate-800/60 rounded-xl">
+                        <TimeRangeButton range="today" label={t('dashboard.range.today')} />
+                        <TimeRangeButton range="7d" label={t('dashboard.range.7d')} />
+                        <TimeRangeButton range="30d" label={t('dashboard.range.30d')} />
+                        <TimeRangeButton range="1y" label={t('dashboard.range.1y')} />
+                        <TimeRangeButton range="all" label={t('dashboard.range.all')} />
+                    </div>
+                    <select
+                        value={methodFilter}
+                        onChange={e => setMethodFilter(e.target.value as PaymentMethod | 'all')}
+                        aria-label={t('payments.filter.label')}
+                        className="w-full md:w-auto bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 dark:text-white focus:ring-2 focus:ring-brand focus:border-brand p-2 text-sm font-medium"
+                    >
+                        <option className={optionClassName} value="all">{t('payments.filter.all')}</option>
+                        {PAYMENT_METHODS.map(method => <option key={method} className={optionClassName} value={method}>{t(`payments.method.${method}`)}</option>)}
+                    </select>
+                    {newOrderButton}
                 </div>
             </div>
             
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-                <StatCard icon={DollarSignIcon} title={t('dashboard.sales_revenue')} value={`${salesStats.totalRevenue.toLocaleString(locale, { style: 'currency', currency: 'DZD' })}`} />
-                <StatCard icon={PiggyBankIcon} title={t('dashboard.sales_profit')} value={`${salesStats.totalProfit.toLocaleString(locale, { style: 'currency', currency: 'DZD' })}`} />
+                <StatCard icon={DollarSignIcon} title={t('dashboard.sales_revenue')} value={formatCurrency(salesStats.totalRevenue)} />
+                <StatCard icon={PiggyBankIcon} title={t('dashboard.sales_profit')} value={formatCurrency(salesStats.totalProfit)} />
                 <StatCard icon={ShoppingCartIcon} title={t('dashboard.units_sold')} value={salesStats.unitsSold} />
             </div>
 
@@ -209,7 +316,7 @@ const Sales: React.FC = () => {
                 <div className="grid grid-cols-1 gap-4">
                     {filteredSales.map(sale => {
                         const product = products.find(p => p.id === sale.productId);
-                        return <SaleCard key={sale.id} sale={sale} onCancel={handleOpenCancelConfirm} formatTimestamp={formatTimestamp} onViewDetails={handleViewDetails} product={product} />
+                        return <SaleCard key={sale.id} sale={sale} onCancel={handleOpenCancelConfirm} onReturn={setSaleToReturn} formatTimestamp={formatTimestamp} onViewDetails={handleViewDetails} onOpenOrder={setOrderToShow} product={product} />
                     })}
                 </div>
             ) : (
@@ -226,6 +333,7 @@ const Sales: React.FC = () => {
                             <tbody>
                                 {filteredSales.map(sale => {
                                     const product = products.find(p => p.id === sale.productId);
+                                    const returned = returnedQuantity(sale.id, saleReturns);
                                     return (
                                         <tr key={sale.id} className="border-b border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800/60">
                                             <td className="px-6 py-4">
@@ -243,12 +351,37 @@ const Sales: React.FC = () => {
                                                     </div>
                                                 )}
                                             </td>
-                                            <td className="px-6 py-4 font-medium text-slate-900 dark:text-white whitespace-nowrap">{sale.productName}</td>
+                                            <td className="px-6 py-4 font-medium text-slate-900 dark:text-white whitespace-nowrap">
+                                                <div className="flex items-center gap-2">
+                                                    {sale.productName}
+                                                    {sale.variantName && <span className="text-xs font-normal text-slate-500 dark:text-slate-400">{sale.variantName}</span>}
+                                                    {pendingSync.saleIds.includes(sale.id) && (
+                                                        <span className="p-1 rounded-full bg-amber-100 text-amber-800 dark:bg-amber-500/20 dark:text-amber-300" title={t('offline.pending_sync')}>
+                                                            <PendingSyncIcon className="w-3.5 h-3.5" />
+                                                        </span>
+                                                    )}
+                                                </div>
+                                                {customerName(sale) && <span className="block text-xs font-normal text-slate-500 dark:text-slate-400">{customerName(sale)}</span>}
+                                                <PaymentMethods sale={sale} />
+                                                {sale.orderId !== undefined && <OrderChip orderId={sale.orderId} onOpen={setOrderToShow} />}
+                                                {returned > 0 && <ReturnedChip quantity={returned} />}
+                                                {sale.paymentStatus === 'awaiting_cod' && <AwaitingCodChip />}
+                                            </td>
                                             <td className="px-6 py-4">{sale.quantity}</td>
-                                            <td className="px-6 py-4">{sale.sellPrice.toLocaleString(locale, { style: 'currency', currency: 'DZD' })}</td>
-                                            <td className="px-6 py-4 font-semibold">{sale.totalPrice.toLocaleString(locale, { style: 'currency', currency: 'DZD' })}</td>
+                                            <td className="px-6 py-4">
+                                                {formatCurrency(sale.sellPrice)}
+                                                {sale.listPrice !== sale.sellPrice && <span className="block text-xs line-through text-slate-400">{formatCurrency(sale.listPrice)}</span>}
+                                            </td>
+                                            <td className="px-6 py-4 font-semibold">
+                                                {formatCurrency(sale.totalPrice)}
+                                                {sale.taxAmount > 0 && (
+                                                    <span className="block text-xs font-normal text-slate-500 dark:text-slate-400">
+                                                        {t('taxes.sale_tax', { rate: sale.taxRate.toLocaleString(locale), amount: formatCurrency(sale.taxAmount) })}
+                                                    </span>
+                                                )}
+                                            </td>
                                             <td className="px-6 py-4 text-green-600 dark:text-green-400 font-semibold">
-                                                {(sale.totalMargin ?? 0).toLocaleString(locale, { style: 'currency', currency: 'DZD' })}
+                                                {formatCurrency(sale.totalMargin ?? 0)}
                                             </td>
                                             <td className="px-6 py-4">{formatTimestamp(sale.createdAt)}</td>
                                             <td className="px-6 py-4">
@@ -262,13 +395,25 @@ const Sales: React.FC = () => {
                                                             <ViewDetailsIcon className="w-5 h-5" />
                                                         </motion.button>
                                                     )}
-                                                    <motion.button 
-                                                        onClick={() => handleOpenCancelConfirm(sale.id)} 
-                                                        className="p-2 rounded-md transition-colors bg-red-500/10 hover:bg-red-500/20 text-red-500" 
-                                                        title={t('sales.cancel_sale')}
-                                                        whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}>
-                                                        <UndoIcon className="w-5 h-5" />
-                                                    </motion.button>
+                                                    {returned < sale.quantity && (
+                                                        <motion.button
+                                                            onClick={() => setSaleToReturn(sale)}
+                                                            className="p-2 rounded-md transition-colors bg-orange-500/10 hover:bg-orange-500/20 text-orange-500"
+                                                            title={t('returns.return_button')}
+                                                            whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}>
+                                                            <ReturnIcon className="w-5 h-5" />
+                                                        </motion.button>
+                                                    )}
+                                                    {/* A sale with returns stays in the history */}
+                                                    {returned === 0 && !isDeliveredSale(sale, deliveries) && (
+                                                        <motion.button 
+                                                            onClick={() => handleOpenCancelConfirm(sale.id)} 
+                                                            className="p-2 rounded-md transition-colors bg-red-500/10 hover:bg-red-500/20 text-red-500" 
+                                                            title={t('sales.cancel_sale')}
+                                                            whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}>
+                                                            <UndoIcon className="w-5 h-5" />
+                                                        </motion.button>
+                                                    )}
                                                 </div>
                                             </td>
                                         </tr>
@@ -280,6 +425,8 @@ const Sales: React.FC = () => {
                 </div>
             )}
             <ProductDetailsModal isOpen={isDetailsModalOpen} onClose={() => setIsDetailsModalOpen(false)} product={productToShow} />
+            <SaleOrderModal isOpen={orderToShow !== null} onClose={() => setOrderToShow(null)} orderId={orderToShow} />
+            <ReturnModal isOpen={!!saleToReturn} onClose={() => setSaleToReturn(null)} sale={saleToReturn} />
              <ConfirmationModal 
                 isOpen={isCancelConfirmOpen}
                 onClose={() => setIsCancelConfirmOpen(false)}
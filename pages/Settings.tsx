@@ -1,9 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { useAppContext } from '../context/AppContext';
-import { SunIcon, MoonIcon, LogoutIcon, LanguagesIcon, ServerIcon, AlertCircleIcon, DatabaseIcon, DuplicateIcon, MarkDeliveredIcon, ExternalLinkIcon, RunIcon, LoaderIcon, UserIcon, CodeIcon, SettingsIcon, SparklesIcon } from '../components/Icons';
-import type { Language, Theme } from '../types';
+import { SunIcon, MoonIcon, LogoutIcon, LanguagesIcon, ServerIcon, AlertCircleIcon, DatabaseIcon, DuplicateIcon, MarkDeliveredIcon, ExternalLinkIcon, RunIcon, LoaderIcon, UserIcon, CodeIcon, SettingsIcon, SparklesIcon, DollarSignIcon, CostLayersIcon } from '../components/Icons';
+import type { CostingMethod, Language, Theme } from '../types';
 import { motion, AnimatePresence } from 'framer-motion';
 import { storage } from '../services/storage';
+import MockCourierPanel from '../components/MockCourierPanel';
+import TaxRatesSettings from '../components/TaxRatesSettings';
+import { CURRENCIES } from '../services/money';
+import { COSTING_METHODS } from '../services/costLayers';
 
 const sqlScript = `-- This is a complete, non-destructive setup script for your Supabase project.
 -- You can run this script multiple times without losing data.
@@ -31,6 +35,32 @@ ALTER TABLE public.products ADD COLUMN IF NOT EXISTS sellprice numeric(10, 2) DE
 ALTER TABLE public.products ADD COLUMN IF NOT EXISTS stock integer DEFAULT 0;
 ALTER TABLE public.products ADD COLUMN IF NOT EXISTS status text DEFAULT 'actif'::text;
 ALTER TABLE public.products ADD COLUMN IF NOT EXISTS imageurl text;
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS updated_at timestamp with time zone DEFAULT now() NOT NULL;
+
+-- Create PRODUCT VARIANTS table if it doesn't exist
+CREATE TABLE IF NOT EXISTS public.product_variants (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    product_id bigint REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+    owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add columns to PRODUCT VARIANTS table if they don't exist
+ALTER TABLE public.product_variants ADD COLUMN IF NOT EXISTS options jsonb DEFAULT '[]'::jsonb NOT NULL;
+ALTER TABLE public.product_variants ADD COLUMN IF NOT EXISTS sku text;
+ALTER TABLE public.product_variants ADD COLUMN IF NOT EXISTS barcode text;
+ALTER TABLE public.product_variants ADD COLUMN IF NOT EXISTS buyprice numeric(10, 2) DEFAULT 0;
+ALTER TABLE public.product_variants ADD COLUMN IF NOT EXISTS sellprice numeric(10, 2) DEFAULT 0;
+ALTER TABLE public.product_variants ADD COLUMN IF NOT EXISTS stock integer DEFAULT 0;
+
+-- Kept so rows sent out for delivery before the deliveries table can be migrated
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS variant_id bigint REFERENCES public.product_variants(id) ON DELETE SET NULL;
+
+-- Codes read by the barcode scanner
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS sku text;
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS barcode text;
+CREATE INDEX IF NOT EXISTS products_barcode_idx ON public.products (barcode);
+CREATE INDEX IF NOT EXISTS product_variants_barcode_idx ON public.product_variants (barcode);
 
 -- Create SALES table if it doesn't exist
 CREATE TABLE IF NOT EXISTS public.sales (
@@ -46,6 +76,8 @@ ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS quantity integer;
 ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS sellprice numeric(10, 2);
 ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS totalprice numeric(10, 2);
 ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS totalmargin numeric(10, 2);
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS variant_id bigint REFERENCES public.product_variants(id) ON DELETE SET NULL;
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS variantname text;
 
 -- Create ACTIVITY LOG table if it doesn't exist
 CREATE TABLE IF NOT EXISTS public.activity_log (
@@ -60,30 +92,560 @@ ALTER TABLE public.activity_log ADD COLUMN IF NOT EXISTS productname text;
 ALTER TABLE public.activity_log ADD COLUMN IF NOT EXISTS action text;
 ALTER TABLE public.activity_log ADD COLUMN IF NOT EXISTS details text;
 
+-- Create PURCHASE ORDERS table if it doesn't exist
+CREATE TABLE IF NOT EXISTS public.purchase_orders (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add columns to PURCHASE ORDERS table if they don't exist
+ALTER TABLE public.purchase_orders ADD COLUMN IF NOT EXISTS supplier text;
+ALTER TABLE public.purchase_orders ADD COLUMN IF NOT EXISTS reference text;
+ALTER TABLE public.purchase_orders ADD COLUMN IF NOT EXISTS notes text;
+ALTER TABLE public.purchase_orders ADD COLUMN IF NOT EXISTS status text DEFAULT 'draft'::text NOT NULL;
+ALTER TABLE public.purchase_orders ADD COLUMN IF NOT EXISTS ordered_at timestamp with time zone;
+ALTER TABLE public.purchase_orders ADD COLUMN IF NOT EXISTS updated_at timestamp with time zone DEFAULT now() NOT NULL;
+
+-- Create PURCHASE ORDER LINES table if it doesn't exist
+CREATE TABLE IF NOT EXISTS public.purchase_order_lines (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    purchase_order_id bigint REFERENCES public.purchase_orders(id) ON DELETE CASCADE NOT NULL,
+    owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add columns to PURCHASE ORDER LINES table if they don't exist
+ALTER TABLE public.purchase_order_lines ADD COLUMN IF NOT EXISTS product_id bigint REFERENCES public.products(id) ON DELETE SET NULL;
+ALTER TABLE public.purchase_order_lines ADD COLUMN IF NOT EXISTS productname text;
+ALTER TABLE public.purchase_order_lines ADD COLUMN IF NOT EXISTS variant_id bigint REFERENCES public.product_variants(id) ON DELETE SET NULL;
+ALTER TABLE public.purchase_order_lines ADD COLUMN IF NOT EXISTS variantname text;
+ALTER TABLE public.purchase_order_lines ADD COLUMN IF NOT EXISTS quantity integer DEFAULT 0;
+ALTER TABLE public.purchase_order_lines ADD COLUMN IF NOT EXISTS received_quantity integer DEFAULT 0 NOT NULL;
+ALTER TABLE public.purchase_order_lines ADD COLUMN IF NOT EXISTS unitcost numeric(10, 2) DEFAULT 0;
+
+-- Create SUPPLIERS table if it doesn't exist
+CREATE TABLE IF NOT EXISTS public.suppliers (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add columns to SUPPLIERS table if they don't exist
+ALTER TABLE public.suppliers ADD COLUMN IF NOT EXISTS name text DEFAULT ''::text NOT NULL;
+ALTER TABLE public.suppliers ADD COLUMN IF NOT EXISTS contact_name text;
+ALTER TABLE public.suppliers ADD COLUMN IF NOT EXISTS phone text;
+ALTER TABLE public.suppliers ADD COLUMN IF NOT EXISTS email text;
+ALTER TABLE public.suppliers ADD COLUMN IF NOT EXISTS address text;
+ALTER TABLE public.suppliers ADD COLUMN IF NOT EXISTS lead_time_days integer;
+ALTER TABLE public.suppliers ADD COLUMN IF NOT EXISTS payment_terms text;
+ALTER TABLE public.suppliers ADD COLUMN IF NOT EXISTS notes text;
+ALTER TABLE public.suppliers ADD COLUMN IF NOT EXISTS updated_at timestamp with time zone DEFAULT now() NOT NULL;
+
+-- "SunStyle" and "sunstyle" are the same supplier
+CREATE UNIQUE INDEX IF NOT EXISTS suppliers_owner_name_idx ON public.suppliers (owner_id, lower(name));
+
+-- Products and purchase orders keep the supplier's name and are linked to its record
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS supplier_id bigint REFERENCES public.suppliers(id) ON DELETE SET NULL;
+ALTER TABLE public.purchase_orders ADD COLUMN IF NOT EXISTS supplier_id bigint REFERENCES public.suppliers(id) ON DELETE SET NULL;
+
+-- Create CUSTOMERS table if it doesn't exist
+CREATE TABLE IF NOT EXISTS public.customers (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add columns to CUSTOMERS table if they don't exist
+ALTER TABLE public.customers ADD COLUMN IF NOT EXISTS name text DEFAULT ''::text NOT NULL;
+ALTER TABLE public.customers ADD COLUMN IF NOT EXISTS phone text;
+ALTER TABLE public.customers ADD COLUMN IF NOT EXISTS address text;
+ALTER TABLE public.customers ADD COLUMN IF NOT EXISTS wilaya text;
+ALTER TABLE public.customers ADD COLUMN IF NOT EXISTS notes text;
+ALTER TABLE public.customers ADD COLUMN IF NOT EXISTS updated_at timestamp with time zone DEFAULT now() NOT NULL;
+
+-- Sales are linked to the customer who bought them
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS customer_id bigint REFERENCES public.customers(id) ON DELETE SET NULL;
+-- Kept so rows sent out for delivery before the deliveries table can be migrated
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS customer_id bigint REFERENCES public.customers(id) ON DELETE SET NULL;
+
+-- Create SALE ORDERS table if it doesn't exist. The sales themselves are the order lines.
+CREATE TABLE IF NOT EXISTS public.sale_orders (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Sales rung up together belong to an order, and carry their share of its discount apart from their own
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS order_id bigint REFERENCES public.sale_orders(id) ON DELETE SET NULL;
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS discount numeric(10, 2) DEFAULT 0 NOT NULL;
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS order_discount numeric(10, 2) DEFAULT 0 NOT NULL;
+-- Order lines never had a discount of their own, so what they carried was their share of the order discount
+UPDATE public.sales SET order_discount = discount, discount = 0 WHERE order_id IS NOT NULL AND discount <> 0 AND order_discount = 0;
+
+-- Create SALE RETURNS table if it doesn't exist
+CREATE TABLE IF NOT EXISTS public.sale_returns (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add columns to SALE RETURNS table if they don't exist
+ALTER TABLE public.sale_returns ADD COLUMN IF NOT EXISTS sale_id bigint REFERENCES public.sales(id) ON DELETE CASCADE;
+ALTER TABLE public.sale_returns ADD COLUMN IF NOT EXISTS product_id bigint REFERENCES public.products(id) ON DELETE SET NULL;
+ALTER TABLE public.sale_returns ADD COLUMN IF NOT EXISTS productname text;
+ALTER TABLE public.sale_returns ADD COLUMN IF NOT EXISTS variant_id bigint REFERENCES public.product_variants(id) ON DELETE SET NULL;
+ALTER TABLE public.sale_returns ADD COLUMN IF NOT EXISTS variantname text;
+ALTER TABLE public.sale_returns ADD COLUMN IF NOT EXISTS quantity integer;
+ALTER TABLE public.sale_returns ADD COLUMN IF NOT EXISTS reason text DEFAULT 'other' NOT NULL;
+ALTER TABLE public.sale_returns ADD COLUMN IF NOT EXISTS notes text;
+-- Restocked units go back on sale, the others are written off
+ALTER TABLE public.sale_returns ADD COLUMN IF NOT EXISTS restock boolean DEFAULT true NOT NULL;
+ALTER TABLE public.sale_returns ADD COLUMN IF NOT EXISTS refund_amount numeric(10, 2) DEFAULT 0 NOT NULL;
+-- What each unit cost when it was sold, to work out what the return did to the margin
+ALTER TABLE public.sale_returns ADD COLUMN IF NOT EXISTS unitcost numeric(10, 2) DEFAULT 0 NOT NULL;
+
+-- Create STOCK MOVEMENTS table if it doesn't exist
+CREATE TABLE IF NOT EXISTS public.stock_movements (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add columns to STOCK MOVEMENTS table if they don't exist
+ALTER TABLE public.stock_movements ADD COLUMN IF NOT EXISTS product_id bigint REFERENCES public.products(id) ON DELETE CASCADE;
+ALTER TABLE public.stock_movements ADD COLUMN IF NOT EXISTS productname text;
+ALTER TABLE public.stock_movements ADD COLUMN IF NOT EXISTS variant_id bigint REFERENCES public.product_variants(id) ON DELETE SET NULL;
+ALTER TABLE public.stock_movements ADD COLUMN IF NOT EXISTS variantname text;
+-- Units in are positive, units out negative
+ALTER TABLE public.stock_movements ADD COLUMN IF NOT EXISTS quantity integer NOT NULL;
+-- sale, return, delivery, loss, damage, count_correction or receipt (delivery_split on older rows)
+ALTER TABLE public.stock_movements ADD COLUMN IF NOT EXISTS reason text NOT NULL;
+-- The sale, return, purchase order, delivery or product the movement came from
+ALTER TABLE public.stock_movements ADD COLUMN IF NOT EXISTS reference_id bigint;
+ALTER TABLE public.stock_movements ADD COLUMN IF NOT EXISTS notes text;
+CREATE INDEX IF NOT EXISTS stock_movements_product_idx ON public.stock_movements (product_id, created_at);
+
+-- Create PRICE CHANGES table if it doesn't exist
+CREATE TABLE IF NOT EXISTS public.price_changes (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add columns to PRICE CHANGES table if they don't exist
+ALTER TABLE public.price_changes ADD COLUMN IF NOT EXISTS product_id bigint REFERENCES public.products(id) ON DELETE CASCADE;
+ALTER TABLE public.price_changes ADD COLUMN IF NOT EXISTS productname text;
+ALTER TABLE public.price_changes ADD COLUMN IF NOT EXISTS old_buyprice numeric(10, 2) NOT NULL;
+ALTER TABLE public.price_changes ADD COLUMN IF NOT EXISTS new_buyprice numeric(10, 2) NOT NULL;
+ALTER TABLE public.price_changes ADD COLUMN IF NOT EXISTS old_sellprice numeric(10, 2) NOT NULL;
+ALTER TABLE public.price_changes ADD COLUMN IF NOT EXISTS new_sellprice numeric(10, 2) NOT NULL;
+-- edit, bulk_update or bulk_revert
+ALTER TABLE public.price_changes ADD COLUMN IF NOT EXISTS source text NOT NULL;
+-- Shared by the changes of one bulk edit and by those of its revert
+ALTER TABLE public.price_changes ADD COLUMN IF NOT EXISTS batch_id text;
+-- What the bulk edit asked for: {"buyPrice": {"mode": "increase", "value": 10}, ...}
+ALTER TABLE public.price_changes ADD COLUMN IF NOT EXISTS bulk_update jsonb;
+CREATE INDEX IF NOT EXISTS price_changes_product_idx ON public.price_changes (product_id, created_at);
+CREATE INDEX IF NOT EXISTS price_changes_batch_idx ON public.price_changes (batch_id);
+
+-- Create INVENTORY COUNTS table if it doesn't exist
+CREATE TABLE IF NOT EXISTS public.inventory_counts (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add columns to INVENTORY COUNTS table if they don't exist
+-- The products a count covers: those of a category and/or a supplier
+ALTER TABLE public.inventory_counts ADD COLUMN IF NOT EXISTS category text;
+ALTER TABLE public.inventory_counts ADD COLUMN IF NOT EXISTS supplier_id bigint REFERENCES public.suppliers(id) ON DELETE SET NULL;
+ALTER TABLE public.inventory_counts ADD COLUMN IF NOT EXISTS status text DEFAULT 'in_progress'::text NOT NULL;
+ALTER TABLE public.inventory_counts ADD COLUMN IF NOT EXISTS posted_at timestamp with time zone;
+ALTER TABLE public.inventory_counts ADD COLUMN IF NOT EXISTS updated_at timestamp with time zone DEFAULT now() NOT NULL;
+
+-- Create INVENTORY COUNT LINES table if it doesn't exist
+CREATE TABLE IF NOT EXISTS public.inventory_count_lines (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    inventory_count_id bigint REFERENCES public.inventory_counts(id) ON DELETE CASCADE NOT NULL,
+    owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add columns to INVENTORY COUNT LINES table if they don't exist
+ALTER TABLE public.inventory_count_lines ADD COLUMN IF NOT EXISTS product_id bigint REFERENCES public.products(id) ON DELETE SET NULL;
+ALTER TABLE public.inventory_count_lines ADD COLUMN IF NOT EXISTS productname text;
+ALTER TABLE public.inventory_count_lines ADD COLUMN IF NOT EXISTS variant_id bigint REFERENCES public.product_variants(id) ON DELETE SET NULL;
+ALTER TABLE public.inventory_count_lines ADD COLUMN IF NOT EXISTS variantname text;
+-- NULL until the line has been counted
+ALTER TABLE public.inventory_count_lines ADD COLUMN IF NOT EXISTS counted integer;
+-- Set when the count is posted: the stock on record it replaced, and what a unit cost then
+ALTER TABLE public.inventory_count_lines ADD COLUMN IF NOT EXISTS expected integer;
+ALTER TABLE public.inventory_count_lines ADD COLUMN IF NOT EXISTS unitcost numeric(10, 2);
+
+-- Create STOCK LOCATIONS table if it doesn't exist. The main shop is not a row: it holds whatever is not elsewhere.
+CREATE TABLE IF NOT EXISTS public.stock_locations (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add columns to STOCK LOCATIONS table if they don't exist
+ALTER TABLE public.stock_locations ADD COLUMN IF NOT EXISTS name text NOT NULL;
+-- shop, warehouse or courier
+ALTER TABLE public.stock_locations ADD COLUMN IF NOT EXISTS kind text DEFAULT 'warehouse'::text NOT NULL;
+ALTER TABLE public.stock_locations ADD COLUMN IF NOT EXISTS notes text;
+ALTER TABLE public.stock_locations ADD COLUMN IF NOT EXISTS updated_at timestamp with time zone DEFAULT now() NOT NULL;
+
+-- Create STOCK LEVELS table if it doesn't exist: the units of a product or variant held at a location
+CREATE TABLE IF NOT EXISTS public.stock_levels (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add columns to STOCK LEVELS table if they don't exist
+ALTER TABLE public.stock_levels ADD COLUMN IF NOT EXISTS product_id bigint REFERENCES public.products(id) ON DELETE CASCADE NOT NULL;
+ALTER TABLE public.stock_levels ADD COLUMN IF NOT EXISTS variant_id bigint REFERENCES public.product_variants(id) ON DELETE CASCADE;
+ALTER TABLE public.stock_levels ADD COLUMN IF NOT EXISTS location_id bigint REFERENCES public.stock_locations(id) ON DELETE CASCADE NOT NULL;
+ALTER TABLE public.stock_levels ADD COLUMN IF NOT EXISTS quantity integer DEFAULT 0 NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS stock_levels_unique_idx ON public.stock_levels (product_id, (COALESCE(variant_id, 0)), location_id);
+
+-- Create STOCK TRANSFERS table if it doesn't exist
+CREATE TABLE IF NOT EXISTS public.stock_transfers (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add columns to STOCK TRANSFERS table if they don't exist
+ALTER TABLE public.stock_transfers ADD COLUMN IF NOT EXISTS product_id bigint REFERENCES public.products(id) ON DELETE CASCADE NOT NULL;
+ALTER TABLE public.stock_transfers ADD COLUMN IF NOT EXISTS productname text;
+ALTER TABLE public.stock_transfers ADD COLUMN IF NOT EXISTS variant_id bigint REFERENCES public.product_variants(id) ON DELETE CASCADE;
+ALTER TABLE public.stock_transfers ADD COLUMN IF NOT EXISTS variantname text;
+ALTER TABLE public.stock_transfers ADD COLUMN IF NOT EXISTS quantity integer NOT NULL;
+-- NULL stands for the main shop
+ALTER TABLE public.stock_transfers ADD COLUMN IF NOT EXISTS from_location_id bigint REFERENCES public.stock_locations(id) ON DELETE CASCADE;
+ALTER TABLE public.stock_transfers ADD COLUMN IF NOT EXISTS to_location_id bigint REFERENCES public.stock_locations(id) ON DELETE CASCADE;
+-- in_transit until the destination receives the units
+ALTER TABLE public.stock_transfers ADD COLUMN IF NOT EXISTS status text DEFAULT 'in_transit'::text NOT NULL;
+ALTER TABLE public.stock_transfers ADD COLUMN IF NOT EXISTS notes text;
+ALTER TABLE public.stock_transfers ADD COLUMN IF NOT EXISTS received_at timestamp with time zone;
+
+-- Create DELIVERIES table if it doesn't exist
+CREATE TABLE IF NOT EXISTS public.deliveries (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add columns to DELIVERIES table if they don't exist
+-- The product and variant names are copied, so a delivery still reads right once they are deleted
+ALTER TABLE public.deliveries ADD COLUMN IF NOT EXISTS product_id bigint REFERENCES public.products(id) ON DELETE SET NULL;
+ALTER TABLE public.deliveries ADD COLUMN IF NOT EXISTS productname text;
+ALTER TABLE public.deliveries ADD COLUMN IF NOT EXISTS variant_id bigint REFERENCES public.product_variants(id) ON DELETE SET NULL;
+ALTER TABLE public.deliveries ADD COLUMN IF NOT EXISTS variantname text;
+ALTER TABLE public.deliveries ADD COLUMN IF NOT EXISTS quantity integer NOT NULL;
+-- Prices when the units left, so the sale is recorded at them
+ALTER TABLE public.deliveries ADD COLUMN IF NOT EXISTS unit_price numeric(10, 2) DEFAULT 0;
+ALTER TABLE public.deliveries ADD COLUMN IF NOT EXISTS unit_cost numeric(10, 2) DEFAULT 0;
+-- Where the units were taken from; NULL stands for the main shop
+ALTER TABLE public.deliveries ADD COLUMN IF NOT EXISTS location_id bigint REFERENCES public.stock_locations(id) ON DELETE SET NULL;
+ALTER TABLE public.deliveries ADD COLUMN IF NOT EXISTS customer_id bigint REFERENCES public.customers(id) ON DELETE SET NULL;
+ALTER TABLE public.deliveries ADD COLUMN IF NOT EXISTS address text;
+ALTER TABLE public.deliveries ADD COLUMN IF NOT EXISTS wilaya text;
+ALTER TABLE public.deliveries ADD COLUMN IF NOT EXISTS courier text;
+ALTER TABLE public.deliveries ADD COLUMN IF NOT EXISTS tracking_number text;
+-- Cash the courier collects on delivery
+ALTER TABLE public.deliveries ADD COLUMN IF NOT EXISTS cod_amount numeric(10, 2) DEFAULT 0 NOT NULL;
+-- pending, shipped, delivered or cancelled
+ALTER TABLE public.deliveries ADD COLUMN IF NOT EXISTS status text DEFAULT 'pending'::text NOT NULL;
+ALTER TABLE public.deliveries ADD COLUMN IF NOT EXISTS sale_id bigint REFERENCES public.sales(id) ON DELETE SET NULL;
+ALTER TABLE public.deliveries ADD COLUMN IF NOT EXISTS notes text;
+ALTER TABLE public.deliveries ADD COLUMN IF NOT EXISTS delivered_at timestamp with time zone;
+ALTER TABLE public.deliveries ADD COLUMN IF NOT EXISTS updated_at timestamp with time zone DEFAULT now() NOT NULL;
+CREATE INDEX IF NOT EXISTS deliveries_status_idx ON public.deliveries (status);
+
+-- Create COD REMITTANCES table if it doesn't exist. Each is a courier paying over the cash of some delivered deliveries.
+CREATE TABLE IF NOT EXISTS public.cod_remittances (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add columns to COD REMITTANCES table if they don't exist
+ALTER TABLE public.cod_remittances ADD COLUMN IF NOT EXISTS courier text DEFAULT ''::text NOT NULL;
+-- The courier's reference for the payment
+ALTER TABLE public.cod_remittances ADD COLUMN IF NOT EXISTS reference text;
+-- What we received, and what the settled deliveries collected; the difference went on the courier's fees
+ALTER TABLE public.cod_remittances ADD COLUMN IF NOT EXISTS amount numeric(10, 2) DEFAULT 0 NOT NULL;
+ALTER TABLE public.cod_remittances ADD COLUMN IF NOT EXISTS cod_total numeric(10, 2) DEFAULT 0 NOT NULL;
+ALTER TABLE public.cod_remittances ADD COLUMN IF NOT EXISTS paid_at timestamp with time zone DEFAULT now() NOT NULL;
+ALTER TABLE public.cod_remittances ADD COLUMN IF NOT EXISTS notes text;
+
+-- paid, or awaiting_cod while the courier still holds the cash of a delivered sale
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS payment_status text DEFAULT 'paid'::text NOT NULL;
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS remittance_id bigint REFERENCES public.cod_remittances(id) ON DELETE SET NULL;
+-- How the sale was paid, as [{"method": "cash", "amount": 1200}]; empty on sales made before methods were recorded
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS payments jsonb DEFAULT '[]'::jsonb NOT NULL;
+
+-- Create PROMOTIONS table if it doesn't exist. A promotion lowers the price of a product, a category
+-- or everything, from the start of its first day to the end of its last one.
+CREATE TABLE IF NOT EXISTS public.promotions (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add columns to PROMOTIONS table if they don't exist
+ALTER TABLE public.promotions ADD COLUMN IF NOT EXISTS name text DEFAULT ''::text NOT NULL;
+-- percent takes value % off the price, fixed takes value off each unit
+ALTER TABLE public.promotions ADD COLUMN IF NOT EXISTS kind text DEFAULT 'percent'::text NOT NULL CHECK (kind IN ('percent', 'fixed'));
+ALTER TABLE public.promotions ADD COLUMN IF NOT EXISTS value numeric(10, 2) DEFAULT 0 NOT NULL CHECK (value > 0);
+-- Neither product nor category: the promotion applies to everything
+ALTER TABLE public.promotions ADD COLUMN IF NOT EXISTS product_id bigint REFERENCES public.products(id) ON DELETE CASCADE;
+ALTER TABLE public.promotions ADD COLUMN IF NOT EXISTS category text;
+ALTER TABLE public.promotions ADD COLUMN IF NOT EXISTS starts_at timestamp with time zone DEFAULT now() NOT NULL;
+ALTER TABLE public.promotions ADD COLUMN IF NOT EXISTS ends_at timestamp with time zone DEFAULT now() NOT NULL CHECK (ends_at >= starts_at);
+
+-- The price before any promotion or negotiation; sellprice is what each unit was actually charged
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS list_price numeric(10, 2);
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS promotion_id bigint REFERENCES public.promotions(id) ON DELETE SET NULL;
+
+-- TVA in percent. Without a rate of its own a product takes that of its category, or none.
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS tax_rate numeric(5, 2) CHECK (tax_rate BETWEEN 0 AND 100);
+-- Whether the sell prices, the variants' included, already contain the TVA (TTC) or have it added on sale (HT)
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS price_includes_tax boolean DEFAULT false NOT NULL;
+
+-- Create TAX RATES table if it doesn't exist. One TVA rate per category.
+CREATE TABLE IF NOT EXISTS public.tax_rates (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add columns to TAX RATES table if they don't exist
+ALTER TABLE public.tax_rates ADD COLUMN IF NOT EXISTS category text DEFAULT ''::text NOT NULL;
+ALTER TABLE public.tax_rates ADD COLUMN IF NOT EXISTS rate numeric(5, 2) DEFAULT 0 NOT NULL CHECK (rate BETWEEN 0 AND 100);
+CREATE UNIQUE INDEX IF NOT EXISTS tax_rates_owner_category_idx ON public.tax_rates (owner_id, category);
+
+-- The rate a sale was made at, and its total split into what goes to the shop and the TVA owed.
+-- totalprice is the gross. Sales made before TVA was kept have no net amount: all of their total was net.
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS tax_rate numeric(5, 2) DEFAULT 0 NOT NULL;
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS net_amount numeric(10, 2);
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS tax_amount numeric(10, 2) DEFAULT 0 NOT NULL;
+-- The TVA part of a refund, in proportion to that of the sale
+ALTER TABLE public.sale_returns ADD COLUMN IF NOT EXISTS tax_amount numeric(10, 2) DEFAULT 0 NOT NULL;
+
+-- An order paid in another currency (EUR, USD, CNY...) has its line costs in it, and the rate it was bought at:
+-- what one unit of it costs in the shop's currency. Orders without a currency are in the shop's.
+ALTER TABLE public.purchase_orders ADD COLUMN IF NOT EXISTS currency text;
+ALTER TABLE public.purchase_orders ADD COLUMN IF NOT EXISTS exchange_rate numeric(14, 6) CHECK (exchange_rate > 0);
+
+-- Create LANDED COSTS table if it doesn't exist. Each is the shipping, customs or transit fees of a shipment,
+-- spread over its products to raise their buy price.
+CREATE TABLE IF NOT EXISTS public.landed_costs (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add columns to LANDED COSTS table if they don't exist
+ALTER TABLE public.landed_costs ADD COLUMN IF NOT EXISTS purchase_order_id bigint REFERENCES public.purchase_orders(id) ON DELETE SET NULL;
+ALTER TABLE public.landed_costs ADD COLUMN IF NOT EXISTS reference text;
+-- The charges are shared in proportion to the value, the number or the weight of the units
+ALTER TABLE public.landed_costs ADD COLUMN IF NOT EXISTS basis text DEFAULT 'value'::text NOT NULL CHECK (basis IN ('value', 'quantity', 'weight'));
+-- [{ label, amount }]
+ALTER TABLE public.landed_costs ADD COLUMN IF NOT EXISTS charges jsonb DEFAULT '[]'::jsonb NOT NULL;
+ALTER TABLE public.landed_costs ADD COLUMN IF NOT EXISTS total numeric(10, 2) DEFAULT 0 NOT NULL;
+-- The breakdown: [{ product_id, variant_id, product_name, variant_name, quantity, unit_cost, weight, allocated, landed_unit_cost }]
+ALTER TABLE public.landed_costs ADD COLUMN IF NOT EXISTS lines jsonb DEFAULT '[]'::jsonb NOT NULL;
+
+-- Create COST LAYERS table if it doesn't exist. Each is units of a product, or of one of its variants,
+-- that came into stock together at the same unit cost. A layer is deleted once all its units have left.
+CREATE TABLE IF NOT EXISTS public.cost_layers (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add columns to COST LAYERS table if they don't exist
+ALTER TABLE public.cost_layers ADD COLUMN IF NOT EXISTS product_id bigint REFERENCES public.products(id) ON DELETE CASCADE NOT NULL;
+ALTER TABLE public.cost_layers ADD COLUMN IF NOT EXISTS variant_id bigint REFERENCES public.product_variants(id) ON DELETE CASCADE;
+-- Set when the units were received on a purchase order
+ALTER TABLE public.cost_layers ADD COLUMN IF NOT EXISTS purchase_order_id bigint REFERENCES public.purchase_orders(id) ON DELETE SET NULL;
+-- The units that came in, and those still in stock
+ALTER TABLE public.cost_layers ADD COLUMN IF NOT EXISTS quantity integer NOT NULL CHECK (quantity > 0);
+ALTER TABLE public.cost_layers ADD COLUMN IF NOT EXISTS remaining integer NOT NULL CHECK (remaining >= 0);
+ALTER TABLE public.cost_layers ADD COLUMN IF NOT EXISTS unit_cost numeric(14, 4) DEFAULT 0 NOT NULL;
+CREATE INDEX IF NOT EXISTS cost_layers_product_idx ON public.cost_layers (product_id, variant_id);
+
+-- Create STOCK LOTS table if it doesn't exist. Each is units of a product, or of one of its variants,
+-- that expire together. Stock leaves the lots soonest expiring first, and a lot is deleted once empty.
+CREATE TABLE IF NOT EXISTS public.stock_lots (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add columns to STOCK LOTS table if they don't exist
+ALTER TABLE public.stock_lots ADD COLUMN IF NOT EXISTS product_id bigint REFERENCES public.products(id) ON DELETE CASCADE NOT NULL;
+ALTER TABLE public.stock_lots ADD COLUMN IF NOT EXISTS variant_id bigint REFERENCES public.product_variants(id) ON DELETE CASCADE;
+-- Set when the units were received on a purchase order
+ALTER TABLE public.stock_lots ADD COLUMN IF NOT EXISTS purchase_order_id bigint REFERENCES public.purchase_orders(id) ON DELETE SET NULL;
+-- The supplier's batch number
+ALTER TABLE public.stock_lots ADD COLUMN IF NOT EXISTS lot_number text;
+ALTER TABLE public.stock_lots ADD COLUMN IF NOT EXISTS expires_at date;
+-- The units still in stock
+ALTER TABLE public.stock_lots ADD COLUMN IF NOT EXISTS quantity integer NOT NULL CHECK (quantity > 0);
+CREATE INDEX IF NOT EXISTS stock_lots_product_idx ON public.stock_lots (product_id, variant_id);
+
+-- Create SHOP SETTINGS table if it doesn't exist. One row per shop, created the first time a setting is changed.
+CREATE TABLE IF NOT EXISTS public.shop_settings (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add columns to SHOP SETTINGS table if they don't exist
+-- Sales take the cost of the oldest units in stock (fifo) or the average of all of them (average)
+ALTER TABLE public.shop_settings ADD COLUMN IF NOT EXISTS costing_method text DEFAULT 'fifo'::text NOT NULL CHECK (costing_method IN ('fifo', 'average'));
+CREATE UNIQUE INDEX IF NOT EXISTS shop_settings_owner_idx ON public.shop_settings (owner_id);
+
 -- =============================================
 -- 2. ROW LEVEL SECURITY (RLS)
 -- =============================================
 
 -- Enable RLS on all tables
 ALTER TABLE public.products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.product_variants ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.sales ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.activity_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.customers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sale_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sale_returns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.price_changes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inventory_counts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inventory_count_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_levels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_transfers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cod_remittances ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.promotions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tax_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.landed_costs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cost_layers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_lots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shop_settings ENABLE ROW LEVEL SECURITY;
 
 -- Drop existing policies to avoid conflicts
 DROP POLICY IF EXISTS "Users can manage their own data" ON public.products;
+DROP POLICY IF EXISTS "Users can manage their own data" ON public.product_variants;
 DROP POLICY IF EXISTS "Users can manage their own data" ON public.sales;
 DROP POLICY IF EXISTS "Users can manage their own data" ON public.activity_log;
+DROP POLICY IF EXISTS "Users can manage their own data" ON public.purchase_orders;
+DROP POLICY IF EXISTS "Users can manage their own data" ON public.purchase_order_lines;
+DROP POLICY IF EXISTS "Users can manage their own data" ON public.suppliers;
+DROP POLICY IF EXISTS "Users can manage their own data" ON public.customers;
+DROP POLICY IF EXISTS "Users can manage their own data" ON public.sale_orders;
+DROP POLICY IF EXISTS "Users can manage their own data" ON public.sale_returns;
+DROP POLICY IF EXISTS "Users can manage their own data" ON public.stock_movements;
+DROP POLICY IF EXISTS "Users can manage their own data" ON public.price_changes;
+DROP POLICY IF EXISTS "Users can manage their own data" ON public.inventory_counts;
+DROP POLICY IF EXISTS "Users can manage their own data" ON public.inventory_count_lines;
+DROP POLICY IF EXISTS "Users can manage their own data" ON public.stock_locations;
+DROP POLICY IF EXISTS "Users can manage their own data" ON public.stock_levels;
+DROP POLICY IF EXISTS "Users can manage their own data" ON public.stock_transfers;
+DROP POLICY IF EXISTS "Users can manage their own data" ON public.deliveries;
+DROP POLICY IF EXISTS "Users can manage their own data" ON public.cod_remittances;
+DROP POLICY IF EXISTS "Users can manage their own data" ON public.promotions;
+DROP POLICY IF EXISTS "Users can manage their own data" ON public.tax_rates;
+DROP POLICY IF EXISTS "Users can manage their own data" ON public.landed_costs;
+DROP POLICY IF EXISTS "Users can manage their own data" ON public.cost_layers;
+DROP POLICY IF EXISTS "Users can manage their own data" ON public.stock_lots;
+DROP POLICY IF EXISTS "Users can manage their own data" ON public.shop_settings;
 
 -- Create policies for users to only access their own data
 CREATE POLICY "Users can manage their own data" ON public.products
 FOR ALL USING (auth.uid() = owner_id);
 
+CREATE POLICY "Users can manage their own data" ON public.product_variants
+FOR ALL USING (auth.uid() = owner_id);
+
 CREATE POLICY "Users can manage their own data" ON public.sales
 FOR ALL USING (auth.uid() = owner_id);
 
 CREATE POLICY "Users can manage their own data" ON public.activity_log
 FOR ALL USING (auth.uid() = owner_id);
 
+CREATE POLICY "Users can manage their own data" ON public.purchase_orders
+FOR ALL USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can manage their own data" ON public.purchase_order_lines
+FOR ALL USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can manage their own data" ON public.suppliers
+FOR ALL USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can manage their own data" ON public.customers
+FOR ALL USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can manage their own data" ON public.sale_orders
+FOR ALL USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can manage their own data" ON public.sale_returns
+FOR ALL USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can manage their own data" ON public.stock_movements
+FOR ALL USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can manage their own data" ON public.price_changes
+FOR ALL USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can manage their own data" ON public.inventory_counts
+FOR ALL USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can manage their own data" ON public.inventory_count_lines
+FOR ALL USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can manage their own data" ON public.stock_locations
+FOR ALL USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can manage their own data" ON public.stock_levels
+FOR ALL USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can manage their own data" ON public.stock_transfers
+FOR ALL USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can manage their own data" ON public.deliveries
+FOR ALL USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can manage their own data" ON public.cod_remittances
+FOR ALL USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can manage their own data" ON public.promotions
+FOR ALL USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can manage their own data" ON public.tax_rates
+FOR ALL USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can manage their own data" ON public.landed_costs
+FOR ALL USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can manage their own data" ON public.cost_layers
+FOR ALL USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can manage their own data" ON public.stock_lots
+FOR ALL USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can manage their own data" ON public.shop_settings
+FOR ALL USING (auth.uid() = owner_id);
+
 
 -- =============================================
 -- 3. STORAGE
@@ -117,12 +679,2078 @@ ON storage.objects FOR UPDATE USING (auth.uid() = owner);
 
 CREATE POLICY "Allow users to delete their own images"
 ON storage.objects FOR DELETE USING (auth.uid() = owner);
+
+-- =============================================
+-- 4. FUNCTIONS
+-- Stock-changing operations run in a single transaction with the
+-- product row locked, so two devices can never sell the same unit.
+-- =============================================
+
+-- Stamp every product update, so edits made from a stale copy can be detected
+CREATE OR REPLACE FUNCTION public.touch_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    NEW.updated_at := now();
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS products_touch_updated_at ON public.products;
+CREATE TRIGGER products_touch_updated_at BEFORE UPDATE ON public.products
+FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+DROP TRIGGER IF EXISTS purchase_orders_touch_updated_at ON public.purchase_orders;
+CREATE TRIGGER purchase_orders_touch_updated_at BEFORE UPDATE ON public.purchase_orders
+FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+DROP TRIGGER IF EXISTS suppliers_touch_updated_at ON public.suppliers;
+CREATE TRIGGER suppliers_touch_updated_at BEFORE UPDATE ON public.suppliers
+FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+DROP TRIGGER IF EXISTS customers_touch_updated_at ON public.customers;
+CREATE TRIGGER customers_touch_updated_at BEFORE UPDATE ON public.customers
+FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+DROP TRIGGER IF EXISTS inventory_counts_touch_updated_at ON public.inventory_counts;
+CREATE TRIGGER inventory_counts_touch_updated_at BEFORE UPDATE ON public.inventory_counts
+FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+DROP TRIGGER IF EXISTS stock_locations_touch_updated_at ON public.stock_locations;
+CREATE TRIGGER stock_locations_touch_updated_at BEFORE UPDATE ON public.stock_locations
+FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+DROP TRIGGER IF EXISTS deliveries_touch_updated_at ON public.deliveries;
+CREATE TRIGGER deliveries_touch_updated_at BEFORE UPDATE ON public.deliveries
+FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+-- The supplier with this name, ignoring case and spacing, created if there is none yet
+CREATE OR REPLACE FUNCTION public.find_or_create_supplier(p_name text, p_owner_id uuid)
+RETURNS public.suppliers
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_name text := regexp_replace(trim(p_name), '[[:space:]]+', ' ', 'g');
+    v_supplier public.suppliers;
+BEGIN
+    IF p_owner_id IS NULL THEN
+        RETURN NULL;
+    END IF;
+    INSERT INTO public.suppliers (name, owner_id) VALUES (v_name, p_owner_id)
+    ON CONFLICT (owner_id, (lower(name))) DO NOTHING;
+    SELECT * INTO v_supplier FROM public.suppliers WHERE owner_id = p_owner_id AND lower(name) = lower(v_name);
+    RETURN v_supplier;
+END;
+$$;
+
+-- Products and purchase orders are saved with a supplier name, and linked to the supplier it names
+CREATE OR REPLACE FUNCTION public.link_supplier()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_supplier public.suppliers;
+BEGIN
+    NEW.supplier_id := NULL;
+    IF COALESCE(trim(NEW.supplier), '') <> '' THEN
+        v_supplier := public.find_or_create_supplier(NEW.supplier, NEW.owner_id);
+        -- Rows without an owner cannot be linked
+        IF v_supplier.id IS NOT NULL THEN
+            NEW.supplier_id := v_supplier.id;
+            NEW.supplier := v_supplier.name;
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS products_link_supplier ON public.products;
+CREATE TRIGGER products_link_supplier BEFORE INSERT OR UPDATE OF supplier ON public.products
+FOR EACH ROW EXECUTE FUNCTION public.link_supplier();
+
+DROP TRIGGER IF EXISTS purchase_orders_link_supplier ON public.purchase_orders;
+CREATE TRIGGER purchase_orders_link_supplier BEFORE INSERT OR UPDATE OF supplier ON public.purchase_orders
+FOR EACH ROW EXECUTE FUNCTION public.link_supplier();
+
+-- A renamed supplier is renamed on its products and purchase orders too
+CREATE OR REPLACE FUNCTION public.rename_supplier_references()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE public.products SET supplier = NEW.name WHERE supplier_id = NEW.id;
+    UPDATE public.purchase_orders SET supplier = NEW.name WHERE supplier_id = NEW.id;
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS suppliers_rename_references ON public.suppliers;
+CREATE TRIGGER suppliers_rename_references AFTER UPDATE OF name ON public.suppliers
+FOR EACH ROW WHEN (OLD.name IS DISTINCT FROM NEW.name) EXECUTE FUNCTION public.rename_supplier_references();
+
+-- Migration: link records saved while the supplier was free text. Spellings that differ only
+-- by case or spacing end up on a single supplier, named after the first one found.
+UPDATE public.products SET supplier = supplier WHERE supplier_id IS NULL AND COALESCE(trim(supplier), '') <> '';
+UPDATE public.purchase_orders SET supplier = supplier WHERE supplier_id IS NULL AND COALESCE(trim(supplier), '') <> '';
+
+-- A product as the app reads it, with its variants, cost layers and lots embedded
+CREATE OR REPLACE FUNCTION public.product_json(p_product_id bigint)
+RETURNS json
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT (json_build_object(
+        'product_variants', COALESCE((SELECT json_agg(v ORDER BY v.id) FROM public.product_variants v WHERE v.product_id = p.id), '[]'::json),
+        'cost_layers', COALESCE((SELECT json_agg(l ORDER BY l.created_at, l.id) FROM public.cost_layers l WHERE l.product_id = p.id), '[]'::json),
+        'stock_lots', COALESCE((SELECT json_agg(l ORDER BY l.expires_at, l.created_at, l.id) FROM public.stock_lots l WHERE l.product_id = p.id), '[]'::json)
+    )::jsonb || to_jsonb(p))::json
+    FROM public.products p
+    WHERE p.id = p_product_id;
+$$;
+
+-- Keep a product's stock equal to the sum of its variants' stock
+CREATE OR REPLACE FUNCTION public.sync_variant_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_product_id bigint := COALESCE(NEW.product_id, OLD.product_id);
+    v_stock integer;
+BEGIN
+    SELECT SUM(stock) INTO v_stock FROM public.product_variants WHERE product_id = v_product_id;
+    -- A product whose last variant was removed goes back to managing its own stock
+    IF v_stock IS NOT NULL THEN
+        UPDATE public.products
+        SET stock = v_stock,
+            status = CASE WHEN v_stock > 0 THEN 'actif' ELSE 'rupture' END
+        WHERE id = v_product_id;
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS product_variants_sync_stock ON public.product_variants;
+CREATE TRIGGER product_variants_sync_stock AFTER INSERT OR UPDATE OF stock OR DELETE ON public.product_variants
+FOR EACH ROW EXECUTE FUNCTION public.sync_variant_stock();
+
+-- Put back the prices the products of a bulk edit had before it, all of them or none.
+-- Refused once reverted, or when any product has been repriced since; products deleted since are left out.
+CREATE OR REPLACE FUNCTION public.revert_bulk_price_change(p_batch_id text)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_change public.price_changes;
+    v_product public.products;
+    v_product_ids bigint[] := '{}';
+    v_change_ids bigint[] := '{}';
+    v_id bigint;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.price_changes WHERE batch_id = p_batch_id AND source = 'bulk_update') THEN
+        RAISE EXCEPTION 'Bulk edit % not found', p_batch_id;
+    END IF;
+    IF EXISTS (SELECT 1 FROM public.price_changes WHERE batch_id = p_batch_id AND source = 'bulk_revert') THEN
+        RAISE EXCEPTION 'Bulk edit % has already been reverted', p_batch_id;
+    END IF;
+
+    -- Every product is locked and checked before any price changes back
+    FOR v_change IN SELECT * FROM public.price_changes WHERE batch_id = p_batch_id AND source = 'bulk_update' ORDER BY id LOOP
+        SELECT * INTO v_product FROM public.products WHERE id = v_change.product_id FOR UPDATE;
+        CONTINUE WHEN NOT FOUND;
+        IF v_product.buyprice <> v_change.new_buyprice OR v_product.sellprice <> v_change.new_sellprice THEN
+            RAISE EXCEPTION 'The prices of % were changed since the bulk edit', v_product.name;
+        END IF;
+    END LOOP;
+
+    FOR v_change IN SELECT * FROM public.price_changes WHERE batch_id = p_batch_id AND source = 'bulk_update' ORDER BY id LOOP
+        SELECT * INTO v_product FROM public.products WHERE id = v_change.product_id;
+        CONTINUE WHEN NOT FOUND;
+        UPDATE public.products SET buyprice = v_change.old_buyprice, sellprice = v_change.old_sellprice WHERE id = v_product.id;
+        INSERT INTO public.price_changes (product_id, productname, old_buyprice, new_buyprice, old_sellprice, new_sellprice, source, batch_id, bulk_update, owner_id)
+        VALUES (v_product.id, v_product.name, v_product.buyprice, v_change.old_buyprice, v_product.sellprice, v_change.old_sellprice, 'bulk_revert', p_batch_id, v_change.bulk_update, v_product.owner_id)
+        RETURNING id INTO v_id;
+        v_product_ids := v_product_ids || v_product.id;
+        v_change_ids := v_change_ids || v_id;
+    END LOOP;
+
+    RETURN json_build_object(
+        'products', COALESCE((SELECT json_agg(public.product_json(pid)) FROM unnest(v_product_ids) AS pid), '[]'::json),
+        'price_changes', COALESCE((SELECT json_agg(c ORDER BY c.id) FROM public.price_changes c WHERE c.id = ANY(v_change_ids)), '[]'::json)
+    );
+END;
+$$;
+
+-- Stock edited by hand goes to the ledger in the same transaction as the edit, for the reason given
+-- (a count correction when none is). A product with variants keeps its stock in them, so only theirs is recorded.
+
+-- What a product holds, variant by variant when it has any, under id 0 when it keeps its own stock
+CREATE OR REPLACE FUNCTION public.stock_held(p_product_id bigint)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+    SELECT COALESCE(
+        (SELECT jsonb_agg(jsonb_build_object(
+            'id', v.id,
+            'name', (SELECT string_agg(o->>'value', ' / ' ORDER BY i) FROM jsonb_array_elements(v.options) WITH ORDINALITY AS t(o, i)),
+            'stock', v.stock
+        ) ORDER BY v.id) FROM public.product_variants v WHERE v.product_id = p_product_id),
+        (SELECT jsonb_build_array(jsonb_build_object('id', 0, 'stock', p.stock)) FROM public.products p WHERE p.id = p_product_id),
+        '[]'::jsonb
+    );
+$$;
+
+-- Record what an edit did to a product's stock, given what it held before
+CREATE OR REPLACE FUNCTION public.log_stock_edit(p_product_id bigint, p_before jsonb, p_reason text, p_notes text)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    r record;
+    v_movements jsonb := '[]'::jsonb;
+BEGIN
+    FOR r IN
+        SELECT COALESCE(b.id, a.id) AS id, COALESCE(a.name, b.name) AS name, COALESCE(a.stock, 0) - COALESCE(b.stock, 0) AS quantity
+        FROM jsonb_to_recordset(p_before) AS b(id bigint, name text, stock integer)
+        FULL JOIN jsonb_to_recordset(public.stock_held(p_product_id)) AS a(id bigint, name text, stock integer) ON a.id = b.id
+        ORDER BY b.id IS NULL, COALESCE(b.id, a.id)
+    LOOP
+        v_movements := v_movements || public.log_stock_movement(
+            p_product_id, NULLIF(r.id, 0), r.name, r.quantity, COALESCE(p_reason, 'count_correction'), NULL, p_notes
+        );
+    END LOOP;
+    RETURN v_movements;
+END;
+$$;
+
+-- Create products, recording the stock each starts with
+CREATE OR REPLACE FUNCTION public.create_products(p_products jsonb, p_reason text DEFAULT NULL, p_notes text DEFAULT NULL)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    p jsonb;
+    v_product public.products;
+    v_product_ids bigint[] := '{}';
+    v_movements jsonb := '[]'::jsonb;
+BEGIN
+    FOR p IN SELECT * FROM jsonb_array_elements(p_products) LOOP
+        INSERT INTO public.products (
+            name, description, category, supplier, buyprice, sellprice, stock, status, imageurl, sku, barcode, tax_rate, price_includes_tax, owner_id
+        )
+        VALUES (
+            p->>'name', p->>'description', p->>'category', p->>'supplier',
+            COALESCE((p->>'buyprice')::numeric, 0), COALESCE((p->>'sellprice')::numeric, 0), COALESCE((p->>'stock')::integer, 0),
+            COALESCE(p->>'status', 'actif'), p->>'imageurl', p->>'sku', p->>'barcode', (p->>'tax_rate')::numeric,
+            COALESCE((p->>'price_includes_tax')::boolean, false), COALESCE((p->>'owner_id')::uuid, auth.uid())
+        )
+        RETURNING * INTO v_product;
+        v_product_ids := v_product_ids || v_product.id;
+        v_movements := v_movements || public.log_stock_edit(v_product.id, '[]'::jsonb, p_reason, p_notes);
+    END LOOP;
+
+    RETURN json_build_object(
+        'products', COALESCE((SELECT json_agg(public.product_json(t.id) ORDER BY t.i) FROM unnest(v_product_ids) WITH ORDINALITY AS t(id, i)), '[]'::json),
+        'movements', v_movements
+    );
+END;
+$$;
+
+-- Change the columns of a product given in p_changes, and only those, as a plain update would.
+-- Returns null when the product is gone or was modified since p_expected_updated_at.
+CREATE OR REPLACE FUNCTION public.update_product(
+    p_product_id bigint, p_changes jsonb, p_expected_updated_at timestamp with time zone DEFAULT NULL, p_reason text DEFAULT NULL, p_notes text DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_product public.products;
+    v_before jsonb;
+    v_columns text;
+BEGIN
+    SELECT * INTO v_product FROM public.products WHERE id = p_product_id FOR UPDATE;
+    IF NOT FOUND OR (p_expected_updated_at IS NOT NULL AND v_product.updated_at <> p_expected_updated_at) THEN
+        RETURN NULL;
+    END IF;
+    v_before := public.stock_held(p_product_id);
+
+    SELECT string_agg(format('%I = c.%I', key, key), ', ') INTO v_columns
+    FROM jsonb_object_keys(p_changes) AS key
+    WHERE key IN ('name', 'description', 'category', 'supplier', 'buyprice', 'sellprice', 'stock', 'status', 'imageurl', 'sku', 'barcode', 'tax_rate', 'price_includes_tax');
+    IF v_columns IS NOT NULL THEN
+        EXECUTE format('UPDATE public.products p SET %s FROM jsonb_populate_record(NULL::public.products, $1) AS c WHERE p.id = $2', v_columns)
+        USING p_changes, p_product_id;
+    END IF;
+
+    RETURN json_build_object(
+        'product', public.product_json(p_product_id),
+        'movements', public.log_stock_edit(p_product_id, v_before, p_reason, p_notes)
+    );
+END;
+$$;
+
+-- Replace the variants of a product: rows with an id are updated, rows without one are created, missing ones are deleted
+CREATE OR REPLACE FUNCTION public.save_product_variants(p_product_id bigint, p_variants jsonb, p_reason text DEFAULT NULL, p_notes text DEFAULT NULL)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v jsonb;
+    v_before jsonb;
+BEGIN
+    PERFORM 1 FROM public.products WHERE id = p_product_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Product % not found', p_product_id;
+    END IF;
+    v_before := public.stock_held(p_product_id);
+
+    DELETE FROM public.product_variants
+    WHERE product_id = p_product_id
+      AND id NOT IN (SELECT (x->>'id')::bigint FROM jsonb_array_elements(p_variants) x WHERE x->>'id' IS NOT NULL);
+
+    FOR v IN SELECT * FROM jsonb_array_elements(p_variants) LOOP
+        IF v->>'id' IS NOT NULL THEN
+            UPDATE public.product_variants
+            SET options = v->'options', sku = v->>'sku', barcode = v->>'barcode',
+                buyprice = (v->>'buyprice')::numeric, sellprice = (v->>'sellprice')::numeric, stock = (v->>'stock')::integer
+            WHERE id = (v->>'id')::bigint AND product_id = p_product_id;
+        ELSE
+            INSERT INTO public.product_variants (product_id, options, sku, barcode, buyprice, sellprice, stock, owner_id)
+            VALUES (p_product_id, v->'options', v->>'sku', v->>'barcode', (v->>'buyprice')::numeric, (v->>'sellprice')::numeric, (v->>'stock')::integer, auth.uid());
+        END IF;
+    END LOOP;
+
+    RETURN json_build_object(
+        'product', public.product_json(p_product_id),
+        'movements', public.log_stock_edit(p_product_id, v_before, p_reason, p_notes)
+    );
+END;
+$$;
+
+-- Earlier versions of these functions had other parameters
+DROP FUNCTION IF EXISTS public.record_sale(bigint, integer, boolean);
+DROP FUNCTION IF EXISTS public.record_sale(bigint, integer, boolean, bigint);
+DROP FUNCTION IF EXISTS public.record_sale(bigint, integer, boolean, bigint, bigint);
+DROP FUNCTION IF EXISTS public.record_sale(bigint, integer, bigint, bigint);
+DROP FUNCTION IF EXISTS public.checkout_sale_order(jsonb, numeric, bigint);
+DROP FUNCTION IF EXISTS public.record_sale(bigint, integer, bigint, bigint, jsonb);
+DROP FUNCTION IF EXISTS public.split_to_delivery(bigint);
+DROP FUNCTION IF EXISTS public.split_to_delivery(bigint, bigint);
+DROP FUNCTION IF EXISTS public.split_to_delivery(bigint, bigint, bigint);
+DROP FUNCTION IF EXISTS public.save_purchase_order(bigint, text, text, text, jsonb);
+DROP FUNCTION IF EXISTS public.save_product_variants(bigint, jsonb);
+DROP FUNCTION IF EXISTS public.log_stock_movement(bigint, bigint, text, integer, text, bigint);
+
+-- The product's own TVA rate, else that of its category, else none
+CREATE OR REPLACE FUNCTION public.product_tax_rate(p_product public.products)
+RETURNS numeric
+LANGUAGE sql STABLE
+AS $$
+    SELECT COALESCE(p_product.tax_rate, (SELECT rate FROM public.tax_rates WHERE category = p_product.category), 0);
+$$;
+
+-- What the customer pays for an amount at the product's prices, TVA included
+CREATE OR REPLACE FUNCTION public.gross_amount(p_amount numeric, p_rate numeric, p_includes_tax boolean)
+RETURNS numeric
+LANGUAGE sql IMMUTABLE
+AS $$
+    SELECT CASE WHEN p_includes_tax THEN round(p_amount, 2) ELSE round(p_amount * (100 + p_rate) / 100, 2) END;
+$$;
+
+-- The net is always taken back from the gross, so both kinds of prices round the same way
+CREATE OR REPLACE FUNCTION public.net_of_tax(p_gross numeric, p_rate numeric)
+RETURNS numeric
+LANGUAGE sql IMMUTABLE
+AS $$
+    SELECT round(p_gross * 100 / (100 + p_rate), 2);
+$$;
+
+-- Payments must name a known method and add up to what is being paid.
+-- Store credit belongs to a customer, so a sale without one cannot spend it.
+CREATE OR REPLACE FUNCTION public.check_payments(p_payments jsonb, p_total numeric, p_customer_id bigint DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF jsonb_typeof(p_payments) IS DISTINCT FROM 'array' OR jsonb_array_length(p_payments) = 0 OR EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_payments) AS p
+        WHERE p->>'method' IS NULL OR p->>'method' NOT IN ('cash', 'card', 'transfer', 'cod', 'store_credit')
+            OR p->>'amount' IS NULL OR (p->>'amount')::numeric < 0
+    ) THEN
+        RAISE EXCEPTION 'Payments need a known method and an amount that is not negative';
+    END IF;
+    IF round((SELECT sum((p->>'amount')::numeric) FROM jsonb_array_elements(p_payments) AS p), 2) <> round(p_total, 2) THEN
+        RAISE EXCEPTION 'The payments must add up to the total';
+    END IF;
+    IF p_customer_id IS NULL AND EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_payments) AS p WHERE p->>'method' = 'store_credit' AND (p->>'amount')::numeric > 0
+    ) THEN
+        RAISE EXCEPTION 'Store credit can only be spent by a customer';
+    END IF;
+END;
+$$;
+
+-- The shop's costing method, FIFO until it is changed
+CREATE OR REPLACE FUNCTION public.costing_method()
+RETURNS text
+LANGUAGE sql STABLE
+AS $$
+    SELECT COALESCE((SELECT costing_method FROM public.shop_settings WHERE owner_id = auth.uid()), 'fifo');
+$$;
+
+-- Change the shop's settings, creating its row the first time. A NULL setting is left as it is.
+CREATE OR REPLACE FUNCTION public.save_shop_settings(p_costing_method text)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_settings public.shop_settings;
+BEGIN
+    IF p_costing_method IS NOT NULL AND p_costing_method NOT IN ('fifo', 'average') THEN
+        RAISE EXCEPTION 'Unknown costing method %', p_costing_method;
+    END IF;
+    INSERT INTO public.shop_settings (owner_id, costing_method)
+    VALUES (auth.uid(), COALESCE(p_costing_method, 'fifo'))
+    ON CONFLICT (owner_id) DO UPDATE SET costing_method = COALESCE(p_costing_method, shop_settings.costing_method)
+    RETURNING * INTO v_settings;
+    RETURN row_to_json(v_settings);
+END;
+$$;
+
+-- What each unit of a sale cost, discounts aside (they come off the net amount and the margin alike)
+CREATE OR REPLACE FUNCTION public.sale_unit_cost(p_sale public.sales)
+RETURNS numeric
+LANGUAGE sql IMMUTABLE
+AS $$
+    SELECT CASE WHEN p_sale.quantity > 0 THEN (COALESCE(p_sale.net_amount, p_sale.totalprice) - p_sale.totalmargin) / p_sale.quantity ELSE 0 END;
+$$;
+
+-- Take units out of the cost layers of a product without variants, or of one of its variants, and return what they cost.
+-- FIFO takes the oldest units at their own cost. The average method takes every unit at the average of the units in stock,
+-- which the layers left all carry from then on. Units beyond the layers cost the buy price.
+CREATE OR REPLACE FUNCTION public.consume_cost_layers(p_product_id bigint, p_variant_id bigint, p_quantity integer)
+RETURNS numeric
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_method text := public.costing_method();
+    v_average numeric;
+    v_left integer := p_quantity;
+    v_cost numeric := 0;
+    v_taken integer;
+    v_layer public.cost_layers;
+BEGIN
+    SELECT SUM(remaining * unit_cost) / NULLIF(SUM(remaining), 0) INTO v_average
+    FROM public.cost_layers
+    WHERE product_id = p_product_id AND variant_id IS NOT DISTINCT FROM p_variant_id;
+
+    FOR v_layer IN
+        SELECT * FROM public.cost_layers
+        WHERE product_id = p_product_id AND variant_id IS NOT DISTINCT FROM p_variant_id
+        ORDER BY created_at, id
+        FOR UPDATE
+    LOOP
+        EXIT WHEN v_left <= 0;
+        v_taken := LEAST(v_layer.remaining, v_left);
+        v_left := v_left - v_taken;
+        v_cost := v_cost + v_taken * CASE WHEN v_method = 'fifo' THEN v_layer.unit_cost ELSE v_average END;
+        UPDATE public.cost_layers SET remaining = remaining - v_taken WHERE id = v_layer.id;
+    END LOOP;
+
+    DELETE FROM public.cost_layers
+    WHERE product_id = p_product_id AND variant_id IS NOT DISTINCT FROM p_variant_id AND remaining = 0;
+    IF v_method = 'average' THEN
+        UPDATE public.cost_layers SET unit_cost = round(v_average, 4)
+        WHERE product_id = p_product_id AND variant_id IS NOT DISTINCT FROM p_variant_id;
+    END IF;
+
+    IF v_left > 0 THEN
+        v_cost := v_cost + v_left * COALESCE(
+            (SELECT buyprice FROM public.product_variants WHERE id = p_variant_id),
+            (SELECT buyprice FROM public.products WHERE id = p_product_id),
+            0
+        );
+    END IF;
+    RETURN round(v_cost, 2);
+END;
+$$;
+
+-- Bring units into stock as a layer of their own. Called before the stock goes up,
+-- so the fit_cost_layers trigger finds the layers already matching it.
+CREATE OR REPLACE FUNCTION public.add_cost_layer(p_product_id bigint, p_variant_id bigint, p_quantity integer, p_unit_cost numeric, p_purchase_order_id bigint DEFAULT NULL)
+RETURNS void
+LANGUAGE sql
+AS $$
+    INSERT INTO public.cost_layers (product_id, variant_id, purchase_order_id, quantity, remaining, unit_cost, owner_id)
+    SELECT p.id, p_variant_id, p_purchase_order_id, p_quantity, p_quantity, COALESCE(p_unit_cost, 0), p.owner_id
+    FROM public.products p
+    WHERE p.id = p_product_id AND p_quantity > 0;
+$$;
+
+-- Keep the cost layers in step with stock changed any other way, such as by hand or by a count:
+-- units taken out leave the layers by the costing method, units added come in as a layer at the buy price.
+-- A product with variants keeps its layers on them.
+CREATE OR REPLACE FUNCTION public.fit_cost_layers()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_product_id bigint;
+    v_variant_id bigint;
+    v_layered integer;
+BEGIN
+    IF TG_TABLE_NAME = 'product_variants' THEN
+        v_product_id := NEW.product_id;
+        v_variant_id := NEW.id;
+    ELSE
+        v_product_id := NEW.id;
+        v_variant_id := NULL;
+        IF EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = NEW.id) THEN
+            DELETE FROM public.cost_layers WHERE product_id = NEW.id AND variant_id IS NULL;
+            RETURN NULL;
+        END IF;
+    END IF;
+
+    SELECT COALESCE(SUM(remaining), 0) INTO v_layered
+    FROM public.cost_layers
+    WHERE product_id = v_product_id AND variant_id IS NOT DISTINCT FROM v_variant_id;
+    IF v_layered > NEW.stock THEN
+        PERFORM public.consume_cost_layers(v_product_id, v_variant_id, v_layered - NEW.stock);
+    ELSIF v_layered < NEW.stock THEN
+        INSERT INTO public.cost_layers (product_id, variant_id, quantity, remaining, unit_cost, owner_id)
+        VALUES (v_product_id, v_variant_id, NEW.stock - v_layered, NEW.stock - v_layered, COALESCE(NEW.buyprice, 0), NEW.owner_id);
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS products_fit_cost_layers ON public.products;
+CREATE TRIGGER products_fit_cost_layers AFTER INSERT OR UPDATE OF stock ON public.products
+FOR EACH ROW EXECUTE FUNCTION public.fit_cost_layers();
+
+DROP TRIGGER IF EXISTS product_variants_fit_cost_layers ON public.product_variants;
+CREATE TRIGGER product_variants_fit_cost_layers AFTER INSERT OR UPDATE OF stock ON public.product_variants
+FOR EACH ROW EXECUTE FUNCTION public.fit_cost_layers();
+
+-- Migration: the stock on hand before cost layers came in as one layer at the buy price
+INSERT INTO public.cost_layers (product_id, quantity, remaining, unit_cost, owner_id)
+SELECT p.id, p.stock, p.stock, COALESCE(p.buyprice, 0), p.owner_id
+FROM public.products p
+WHERE p.stock > 0
+    AND NOT EXISTS (SELECT 1 FROM public.product_variants v WHERE v.product_id = p.id)
+    AND NOT EXISTS (SELECT 1 FROM public.cost_layers l WHERE l.product_id = p.id);
+INSERT INTO public.cost_layers (product_id, variant_id, quantity, remaining, unit_cost, owner_id)
+SELECT v.product_id, v.id, v.stock, v.stock, COALESCE(v.buyprice, 0), v.owner_id
+FROM public.product_variants v
+WHERE v.stock > 0
+    AND NOT EXISTS (SELECT 1 FROM public.cost_layers l WHERE l.variant_id = v.id);
+
+-- Take units out of the lots as stock goes down, however it does: the lots with an expiry date go first,
+-- soonest expiring first, then the units in no lot, which never expire, then the lots without an expiry date.
+-- The lots never hold more than the stock, and units put back come back in no lot.
+-- A product with variants keeps its lots on them.
+CREATE OR REPLACE FUNCTION public.fit_stock_lots()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_product_id bigint;
+    v_variant_id bigint;
+    v_left integer := GREATEST(OLD.stock - NEW.stock, 0);
+    v_lot public.stock_lots;
+    v_taken integer;
+BEGIN
+    IF TG_TABLE_NAME = 'product_variants' THEN
+        v_product_id := NEW.product_id;
+        v_variant_id := NEW.id;
+    ELSE
+        v_product_id := NEW.id;
+        v_variant_id := NULL;
+        IF EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = NEW.id) THEN
+            DELETE FROM public.stock_lots WHERE product_id = NEW.id AND variant_id IS NULL;
+            RETURN NULL;
+        END IF;
+    END IF;
+
+    FOR v_lot IN
+        SELECT * FROM public.stock_lots
+        WHERE product_id = v_product_id AND variant_id IS NOT DISTINCT FROM v_variant_id AND expires_at IS NOT NULL
+        ORDER BY expires_at, created_at, id
+        FOR UPDATE
+    LOOP
+        EXIT WHEN v_left <= 0;
+        v_taken := LEAST(v_lot.quantity, v_left);
+        v_left := v_left - v_taken;
+        IF v_taken = v_lot.quantity THEN
+            DELETE FROM public.stock_lots WHERE id = v_lot.id;
+        ELSE
+            UPDATE public.stock_lots SET quantity = quantity - v_taken WHERE id = v_lot.id;
+        END IF;
+    END LOOP;
+
+    -- What the lots left hold beyond the stock comes out of them in the same order
+    SELECT COALESCE(SUM(quantity), 0) - GREATEST(NEW.stock, 0) INTO v_left
+    FROM public.stock_lots
+    WHERE product_id = v_product_id AND variant_id IS NOT DISTINCT FROM v_variant_id;
+    FOR v_lot IN
+        SELECT * FROM public.stock_lots
+        WHERE product_id = v_product_id AND variant_id IS NOT DISTINCT FROM v_variant_id
+        ORDER BY expires_at NULLS LAST, created_at, id
+        FOR UPDATE
+    LOOP
+        EXIT WHEN v_left <= 0;
+        v_taken := LEAST(v_lot.quantity, v_left);
+        v_left := v_left - v_taken;
+        IF v_taken = v_lot.quantity THEN
+            DELETE FROM public.stock_lots WHERE id = v_lot.id;
+        ELSE
+            UPDATE public.stock_lots SET quantity = quantity - v_taken WHERE id = v_lot.id;
+        END IF;
+    END LOOP;
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS products_fit_stock_lots ON public.products;
+CREATE TRIGGER products_fit_stock_lots AFTER UPDATE OF stock ON public.products
+FOR EACH ROW EXECUTE FUNCTION public.fit_stock_lots();
+
+DROP TRIGGER IF EXISTS product_variants_fit_stock_lots ON public.product_variants;
+CREATE TRIGGER product_variants_fit_stock_lots AFTER UPDATE OF stock ON public.product_variants
+FOR EACH ROW EXECUTE FUNCTION public.fit_stock_lots();
+
+-- Put units already in stock in a lot. The lots of a product, or variant, can hold at most its stock.
+CREATE OR REPLACE FUNCTION public.add_stock_lot(p_product_id bigint, p_variant_id bigint, p_lot_number text, p_expires_at date, p_quantity integer)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_product public.products;
+    v_stock integer;
+    v_lotted integer;
+BEGIN
+    SELECT * INTO v_product FROM public.products WHERE id = p_product_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Product % not found', p_product_id;
+    END IF;
+    IF p_variant_id IS NOT NULL THEN
+        SELECT stock INTO v_stock FROM public.product_variants WHERE id = p_variant_id AND product_id = p_product_id;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Variant % not found', p_variant_id;
+        END IF;
+    ELSIF EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = p_product_id) THEN
+        RAISE EXCEPTION 'Choose a variant of %', v_product.name;
+    ELSE
+        v_stock := v_product.stock;
+    END IF;
+    IF p_quantity IS NULL OR p_quantity < 1 THEN
+        RAISE EXCEPTION 'Invalid lot quantity %', p_quantity;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity), 0) INTO v_lotted
+    FROM public.stock_lots
+    WHERE product_id = p_product_id AND variant_id IS NOT DISTINCT FROM p_variant_id;
+    IF v_lotted + p_quantity > v_stock THEN
+        RAISE EXCEPTION 'Only % units of % are not in a lot', v_stock - v_lotted, v_product.name;
+    END IF;
+
+    INSERT INTO public.stock_lots (product_id, variant_id, lot_number, expires_at, quantity, owner_id)
+    VALUES (p_product_id, p_variant_id, NULLIF(trim(p_lot_number), ''), p_expires_at, p_quantity, v_product.owner_id);
+    RETURN public.product_json(p_product_id);
+END;
+$$;
+
+-- Take a lot off, leaving its units in stock in no lot
+CREATE OR REPLACE FUNCTION public.remove_stock_lot(p_lot_id bigint)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_product_id bigint;
+BEGIN
+    DELETE FROM public.stock_lots WHERE id = p_lot_id RETURNING product_id INTO v_product_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Lot % not found', p_lot_id;
+    END IF;
+    RETURN public.product_json(v_product_id);
+END;
+$$;
+
+-- Write a change to the stock to the ledger, in the same transaction as the change itself.
+-- Returns the movement in an array, empty when nothing moved or the product has been deleted since.
+-- A variant deleted since is left out, keeping its name.
+CREATE OR REPLACE FUNCTION public.log_stock_movement(
+    p_product_id bigint, p_variant_id bigint, p_variantname text, p_quantity integer, p_reason text, p_reference_id bigint, p_notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_movement public.stock_movements;
+BEGIN
+    IF p_quantity = 0 THEN
+        RETURN '[]'::jsonb;
+    END IF;
+    INSERT INTO public.stock_movements (product_id, productname, variant_id, variantname, quantity, reason, reference_id, notes, owner_id)
+    SELECT p.id, p.name, v.id, p_variantname, p_quantity, p_reason, p_reference_id, p_notes, auth.uid()
+    FROM public.products p
+    LEFT JOIN public.product_variants v ON v.id = p_variant_id AND v.product_id = p.id
+    WHERE p.id = p_product_id
+    RETURNING * INTO v_movement;
+    IF v_movement.id IS NULL THEN
+        RETURN '[]'::jsonb;
+    END IF;
+    RETURN jsonb_build_array(to_jsonb(v_movement));
+END;
+$$;
+
+-- Sell units of a product, or of one of its variants, and record the sale.
+-- Each unit goes at the list price, less the running promotion that takes the most off it,
+-- unless a unit price was negotiated, which no promotion lowers further. A discount of the
+-- line, in percent or in the shop's currency, then comes off the total and the margin.
+-- TVA is added at the product's rate unless its prices include it; the margin is taken on the net,
+-- less what the units cost in the cost layers. Without payments the whole total is taken as paid in cash.
+CREATE OR REPLACE FUNCTION public.record_sale(
+    p_product_id bigint, p_quantity integer, p_variant_id bigint DEFAULT NULL, p_customer_id bigint DEFAULT NULL, p_payments jsonb DEFAULT NULL,
+    p_unit_price numeric DEFAULT NULL, p_discount_kind text DEFAULT NULL, p_discount_value numeric DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_product public.products;
+    v_variant public.product_variants;
+    v_sale public.sales;
+    v_new_stock integer;
+    v_payments jsonb;
+    v_list_price numeric;
+    v_unit_price numeric;
+    v_promotion public.promotions;
+    v_discount numeric := 0;
+    v_total numeric;
+    v_tax_rate numeric;
+    v_gross numeric;
+    v_net numeric;
+    v_cost numeric;
+    v_movements jsonb;
+BEGIN
+    SELECT * INTO v_product FROM public.products WHERE id = p_product_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Product % not found', p_product_id;
+    END IF;
+
+    IF p_variant_id IS NOT NULL THEN
+        SELECT * INTO v_variant FROM public.product_variants WHERE id = p_variant_id AND product_id = p_product_id FOR UPDATE;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Variant % not found', p_variant_id;
+        END IF;
+        IF p_quantity < 1 OR v_variant.stock < p_quantity THEN
+            RAISE EXCEPTION 'Insufficient stock for %', v_product.name;
+        END IF;
+        -- The units leave the layers before the stock, so the fit_cost_layers trigger has nothing left to do
+        v_cost := public.consume_cost_layers(p_product_id, p_variant_id, p_quantity);
+        -- The product's own stock follows through the variant trigger
+        UPDATE public.product_variants SET stock = stock - p_quantity WHERE id = p_variant_id;
+    ELSE
+        IF EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = p_product_id) THEN
+            RAISE EXCEPTION 'Choose a variant of %', v_product.name;
+        END IF;
+        IF p_quantity < 1 OR v_product.stock < p_quantity THEN
+            RAISE EXCEPTION 'Insufficient stock for %', v_product.name;
+        END IF;
+        v_cost := public.consume_cost_layers(p_product_id, NULL, p_quantity);
+        v_new_stock := v_product.stock - p_quantity;
+        UPDATE public.products
+        SET stock = v_new_stock,
+            status = CASE WHEN v_new_stock = 0 THEN 'rupture' ELSE 'actif' END
+        WHERE id = p_product_id;
+    END IF;
+
+    v_list_price := COALESCE(v_variant.sellprice, v_product.sellprice);
+    IF p_unit_price IS NOT NULL THEN
+        IF p_unit_price < 0 THEN
+            RAISE EXCEPTION 'The unit price cannot be negative';
+        END IF;
+        v_unit_price := p_unit_price;
+    ELSE
+        -- Ties go to the oldest promotion
+        SELECT * INTO v_promotion FROM public.promotions p
+        WHERE now() BETWEEN p.starts_at AND p.ends_at
+            AND (p.product_id IS NULL OR p.product_id = p_product_id)
+            AND (NULLIF(p.category, '') IS NULL OR p.category = v_product.category)
+        ORDER BY greatest(0, round(CASE WHEN p.kind = 'percent' THEN v_list_price * (1 - p.value / 100) ELSE v_list_price - p.value END, 2)), p.id
+        LIMIT 1;
+        v_unit_price := CASE
+            WHEN v_promotion.id IS NULL THEN v_list_price
+            WHEN v_promotion.kind = 'percent' THEN greatest(0, round(v_list_price * (1 - v_promotion.value / 100), 2))
+            ELSE greatest(0, round(v_list_price - v_promotion.value, 2))
+        END;
+    END IF;
+
+    IF p_discount_kind IS NOT NULL AND COALESCE(p_discount_value, 0) <> 0 THEN
+        IF p_discount_kind NOT IN ('percent', 'fixed') OR p_discount_value < 0
+            OR (p_discount_kind = 'percent' AND p_discount_value > 100)
+            OR (p_discount_kind = 'fixed' AND p_discount_value > v_unit_price * p_quantity) THEN
+            RAISE EXCEPTION 'The discount cannot be negative or more than the amount';
+        END IF;
+        v_discount := round(CASE WHEN p_discount_kind = 'percent' THEN v_unit_price * p_quantity * p_discount_value / 100 ELSE p_discount_value END, 2);
+    END IF;
+    v_total := round(v_unit_price * p_quantity - v_discount, 2);
+    v_tax_rate := public.product_tax_rate(v_product);
+    v_gross := public.gross_amount(v_total, v_tax_rate, v_product.price_includes_tax);
+    v_net := public.net_of_tax(v_gross, v_tax_rate);
+
+    v_payments := COALESCE(p_payments, jsonb_build_array(jsonb_build_object('method', 'cash', 'amount', v_gross)));
+    PERFORM public.check_payments(v_payments, v_gross, p_customer_id);
+
+    INSERT INTO public.sales (
+        product_id, productname, variant_id, variantname, customer_id, quantity, list_price, sellprice, promotion_id, discount,
+        totalprice, totalmargin, tax_rate, net_amount, tax_amount, payments, owner_id
+    )
+    VALUES (
+        v_product.id, v_product.name, v_variant.id,
+        (SELECT string_agg(o->>'value', ' / ' ORDER BY i) FROM jsonb_array_elements(v_variant.options) WITH ORDINALITY AS t(o, i)),
+        p_customer_id,
+        p_quantity,
+        v_list_price,
+        v_unit_price,
+        v_promotion.id,
+        v_discount,
+        v_gross,
+        v_net - v_cost,
+        v_tax_rate,
+        v_net,
+        v_gross - v_net,
+        v_payments,
+        auth.uid()
+    )
+    RETURNING * INTO v_sale;
+    v_movements := public.log_stock_movement(p_product_id, v_sale.variant_id, v_sale.variantname, -p_quantity, 'sale', v_sale.id);
+
+    RETURN json_build_object('product', public.product_json(p_product_id), 'sale', row_to_json(v_sale), 'movements', v_movements);
+END;
+$$;
+
+-- Delete a sale and put its units back in stock.
+-- A sale that has had returns is part of the history and can only be returned further.
+CREATE OR REPLACE FUNCTION public.cancel_sale(p_sale_id bigint)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_sale public.sales;
+    v_movements jsonb := '[]'::jsonb;
+BEGIN
+    -- Checked before the delete, which would take the returns with it
+    SELECT * INTO v_sale FROM public.sales WHERE id = p_sale_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Sale % not found', p_sale_id;
+    END IF;
+    IF EXISTS (SELECT 1 FROM public.sale_returns WHERE sale_id = p_sale_id) THEN
+        RAISE EXCEPTION 'Sale of % has returns and cannot be cancelled', v_sale.productname;
+    END IF;
+    -- Cancelling would leave its delivery delivered with no sale, and its payout settling nothing
+    IF v_sale.remittance_id IS NOT NULL OR EXISTS (SELECT 1 FROM public.deliveries WHERE sale_id = p_sale_id) THEN
+        RAISE EXCEPTION 'Sale of % was delivered and can only be returned', v_sale.productname;
+    END IF;
+    DELETE FROM public.sales WHERE id = p_sale_id;
+
+    -- The product may have been deleted since the sale, in which case there is no stock to restore.
+    -- Neither is there when the variant sold was deleted and the product still has others, which hold all of its stock.
+    -- The units come back as a layer at the cost they left at.
+    IF EXISTS (SELECT 1 FROM public.product_variants WHERE id = v_sale.variant_id AND product_id = v_sale.product_id) THEN
+        PERFORM public.add_cost_layer(v_sale.product_id, v_sale.variant_id, v_sale.quantity, public.sale_unit_cost(v_sale));
+        UPDATE public.product_variants SET stock = stock + v_sale.quantity WHERE id = v_sale.variant_id;
+        UPDATE public.products SET status = 'actif' WHERE id = v_sale.product_id;
+        v_movements := public.log_stock_movement(v_sale.product_id, v_sale.variant_id, v_sale.variantname, v_sale.quantity, 'sale', v_sale.id);
+    ELSIF NOT EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = v_sale.product_id) THEN
+        PERFORM public.add_cost_layer(v_sale.product_id, NULL, v_sale.quantity, public.sale_unit_cost(v_sale));
+        UPDATE public.products
+        SET stock = stock + v_sale.quantity, status = 'actif'
+        WHERE id = v_sale.product_id;
+        v_movements := public.log_stock_movement(v_sale.product_id, v_sale.variant_id, v_sale.variantname, v_sale.quantity, 'sale', v_sale.id);
+    END IF;
+
+    -- An order whose last line is cancelled goes with it
+    DELETE FROM public.sale_orders o
+    WHERE o.id = v_sale.order_id AND NOT EXISTS (SELECT 1 FROM public.sales WHERE order_id = o.id);
+
+    RETURN json_build_object('sale', row_to_json(v_sale), 'product', public.product_json(v_sale.product_id), 'movements', v_movements);
+END;
+$$;
+
+-- Take back some or all of the units of a sale. Restocked units go back where they were sold from,
+-- written-off ones are lost. The sale is kept, and the return is counted against it.
+CREATE OR REPLACE FUNCTION public.return_sale(p_sale_id bigint, p_quantity integer, p_reason text, p_notes text, p_restock boolean, p_refund_amount numeric)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_sale public.sales;
+    v_return public.sale_returns;
+    v_returned integer;
+    v_refunded numeric;
+    v_movements jsonb := '[]'::jsonb;
+BEGIN
+    SELECT * INTO v_sale FROM public.sales WHERE id = p_sale_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Sale % not found', p_sale_id;
+    END IF;
+
+    SELECT COALESCE(sum(quantity), 0), COALESCE(sum(refund_amount), 0) INTO v_returned, v_refunded
+    FROM public.sale_returns WHERE sale_id = p_sale_id;
+    IF p_quantity IS NULL OR p_quantity < 1 OR p_quantity > v_sale.quantity - v_returned THEN
+        RAISE EXCEPTION 'Cannot return % more units of %', p_quantity, v_sale.productname;
+    END IF;
+    IF p_refund_amount < 0 OR p_refund_amount > v_sale.totalprice - v_refunded THEN
+        RAISE EXCEPTION 'The refund cannot exceed what was paid';
+    END IF;
+
+    IF p_restock THEN
+        PERFORM 1 FROM public.products WHERE id = v_sale.product_id FOR UPDATE;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION '% no longer exists and cannot be restocked', v_sale.productname;
+        END IF;
+        IF EXISTS (SELECT 1 FROM public.product_variants WHERE id = v_sale.variant_id AND product_id = v_sale.product_id) THEN
+            PERFORM public.add_cost_layer(v_sale.product_id, v_sale.variant_id, p_quantity, public.sale_unit_cost(v_sale));
+            UPDATE public.product_variants SET stock = stock + p_quantity WHERE id = v_sale.variant_id;
+            UPDATE public.products SET status = 'actif' WHERE id = v_sale.product_id;
+        ELSIF EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = v_sale.product_id) THEN
+            -- The variant sold was deleted, and the product's stock is held by the others
+            RAISE EXCEPTION '% (%) no longer exists and cannot be restocked', v_sale.productname, COALESCE(v_sale.variantname, '?');
+        ELSE
+            PERFORM public.add_cost_layer(v_sale.product_id, NULL, p_quantity, public.sale_unit_cost(v_sale));
+            UPDATE public.products
+            SET stock = stock + p_quantity, status = 'actif'
+            WHERE id = v_sale.product_id;
+        END IF;
+    END IF;
+
+    INSERT INTO public.sale_returns (
+        sale_id, product_id, productname, variant_id, variantname, quantity, reason, notes, restock, refund_amount, tax_amount, unitcost, owner_id
+    ) VALUES (
+        p_sale_id, v_sale.product_id, v_sale.productname, v_sale.variant_id, v_sale.variantname, p_quantity, p_reason, p_notes,
+        p_restock, p_refund_amount,
+        CASE WHEN v_sale.totalprice > 0 THEN round(p_refund_amount * v_sale.tax_amount / v_sale.totalprice, 2) ELSE 0 END,
+        public.sale_unit_cost(v_sale),
+        v_sale.owner_id
+    ) RETURNING * INTO v_return;
+    IF p_restock THEN
+        v_movements := public.log_stock_movement(v_sale.product_id, v_sale.variant_id, v_sale.variantname, p_quantity, 'return', v_return.id);
+    END IF;
+
+    RETURN json_build_object(
+        'sale_return', row_to_json(v_return),
+        'product', CASE WHEN p_restock THEN public.product_json(v_sale.product_id) END,
+        'movements', v_movements
+    );
+END;
+$$;
+
+-- Sell several products as one order, or nothing if any line fails.
+-- The order discount is shared between the lines in proportion to their amount and taken off
+-- their total and margin, so everything built on the sales sees what was actually paid.
+-- The TVA in each line goes down with it.
+-- The payments are then shared out the same way the app does it: each line, in order, is paid from
+-- the methods in the order they were given. Without payments the order is taken as paid in cash.
+CREATE OR REPLACE FUNCTION public.checkout_sale_order(p_lines jsonb, p_discount numeric DEFAULT 0, p_customer_id bigint DEFAULT NULL, p_payments jsonb DEFAULT NULL)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_order public.sale_orders;
+    v_sale public.sales;
+    v_recorded json;
+    v_movements jsonb := '[]'::jsonb;
+    l jsonb;
+    v_sale_ids bigint[] := '{}';
+    v_product_ids bigint[] := '{}';
+    v_product_id bigint;
+    v_subtotal numeric;
+    v_remaining numeric;
+    v_share numeric;
+    v_index integer := 0;
+    v_payments jsonb;
+    v_methods text[];
+    v_left numeric[];
+    v_due numeric;
+    v_shares jsonb;
+BEGIN
+    IF jsonb_array_length(p_lines) = 0 THEN
+        RAISE EXCEPTION 'An order needs at least one line';
+    END IF;
+
+    INSERT INTO public.sale_orders (owner_id) VALUES (auth.uid()) RETURNING * INTO v_order;
+
+    FOR l IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+        v_product_id := (l->>'product_id')::bigint;
+        v_recorded := public.record_sale(v_product_id, (l->>'quantity')::integer, (l->>'variant_id')::bigint, p_customer_id);
+        v_sale_ids := v_sale_ids || (v_recorded->'sale'->>'id')::bigint;
+        v_movements := v_movements || (v_recorded->'movements')::jsonb;
+        IF NOT v_product_id = ANY(v_product_ids) THEN
+            v_product_ids := v_product_ids || v_product_id;
+        END IF;
+    END LOOP;
+    UPDATE public.sales SET order_id = v_order.id WHERE id = ANY(v_sale_ids);
+
+    SELECT sum(totalprice) INTO v_subtotal FROM public.sales WHERE order_id = v_order.id;
+    IF p_discount < 0 OR p_discount > v_subtotal THEN
+        RAISE EXCEPTION 'The discount cannot exceed the order total';
+    END IF;
+
+    -- The last line takes what rounding left over, so the shares add up to the discount
+    v_remaining := p_discount;
+    FOR v_sale IN SELECT * FROM public.sales WHERE order_id = v_order.id ORDER BY id LOOP
+        v_index := v_index + 1;
+        v_share := CASE
+            WHEN v_index = array_length(v_sale_ids, 1) THEN v_remaining
+            WHEN v_subtotal = 0 THEN 0
+            ELSE round(p_discount * v_sale.totalprice / v_subtotal, 2)
+        END;
+        UPDATE public.sales
+        SET order_discount = v_share, totalprice = totalprice - v_share,
+            net_amount = public.net_of_tax(totalprice - v_share, tax_rate),
+            tax_amount = totalprice - v_share - public.net_of_tax(totalprice - v_share, tax_rate),
+            totalmargin = totalmargin - (net_amount - public.net_of_tax(totalprice - v_share, tax_rate))
+        WHERE id = v_sale.id;
+        v_remaining := v_remaining - v_share;
+    END LOOP;
+
+    v_payments := COALESCE(p_payments, jsonb_build_array(jsonb_build_object('method', 'cash', 'amount', v_subtotal - p_discount)));
+    PERFORM public.check_payments(v_payments, v_subtotal - p_discount, p_customer_id);
+    SELECT array_agg(p->>'method' ORDER BY i), array_agg(round((p->>'amount')::numeric, 2) ORDER BY i)
+    INTO v_methods, v_left
+    FROM jsonb_array_elements(v_payments) WITH ORDINALITY AS t(p, i);
+
+    FOR v_sale IN SELECT * FROM public.sales WHERE order_id = v_order.id ORDER BY id LOOP
+        v_due := v_sale.totalprice;
+        v_shares := '[]'::jsonb;
+        FOR v_index IN 1..array_length(v_methods, 1) LOOP
+            EXIT WHEN v_due = 0;
+            v_share := least(v_due, v_left[v_index]);
+            CONTINUE WHEN v_share = 0;
+            v_shares := v_shares || jsonb_build_object('method', v_methods[v_index], 'amount', v_share);
+            v_left[v_index] := v_left[v_index] - v_share;
+            v_due := v_due - v_share;
+        END LOOP;
+        UPDATE public.sales SET payments = v_shares WHERE id = v_sale.id;
+    END LOOP;
+
+    RETURN json_build_object(
+        'sales', (SELECT json_agg(s ORDER BY s.id) FROM public.sales s WHERE s.order_id = v_order.id),
+        'products', (SELECT json_agg(public.product_json(pid)) FROM unnest(v_product_ids) AS pid),
+        'movements', v_movements
+    );
+END;
+$$;
+
+-- Cancel every line of an order, putting all of its units back in stock
+CREATE OR REPLACE FUNCTION public.cancel_sale_order(p_order_id bigint)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_sale public.sales;
+    v_product_ids bigint[] := '{}';
+    v_movements jsonb := '[]'::jsonb;
+BEGIN
+    PERFORM 1 FROM public.sale_orders WHERE id = p_order_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order % not found', p_order_id;
+    END IF;
+
+    FOR v_sale IN SELECT * FROM public.sales WHERE order_id = p_order_id ORDER BY id LOOP
+        v_movements := v_movements || (public.cancel_sale(v_sale.id)->'movements')::jsonb;
+        IF v_sale.product_id IS NOT NULL AND NOT v_sale.product_id = ANY(v_product_ids) THEN
+            v_product_ids := v_product_ids || v_sale.product_id;
+        END IF;
+    END LOOP;
+    DELETE FROM public.sale_orders WHERE id = p_order_id;
+
+    -- Products deleted since the sale have nothing to show
+    RETURN json_build_object(
+        'products', COALESCE((SELECT json_agg(public.product_json(p.id)) FROM public.products p WHERE p.id = ANY(v_product_ids)), '[]'::json),
+        'movements', v_movements
+    );
+END;
+$$;
+
+-- A purchase order as the app reads it, with its lines embedded
+CREATE OR REPLACE FUNCTION public.purchase_order_json(p_order_id bigint)
+RETURNS json
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT (json_build_object(
+        'purchase_order_lines', COALESCE((SELECT json_agg(l ORDER BY l.id) FROM public.purchase_order_lines l WHERE l.purchase_order_id = o.id), '[]'::json)
+    )::jsonb || to_jsonb(o))::json
+    FROM public.purchase_orders o
+    WHERE o.id = p_order_id;
+$$;
+
+-- Create a draft purchase order, or replace the details and lines of an existing draft
+CREATE OR REPLACE FUNCTION public.save_purchase_order(p_order_id bigint, p_supplier text, p_reference text, p_notes text, p_currency text, p_exchange_rate numeric, p_lines jsonb)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_order public.purchase_orders;
+    v_product public.products;
+    v_variant public.product_variants;
+    v_exchange_rate numeric := CASE WHEN p_currency IS NULL THEN NULL ELSE p_exchange_rate END;
+    l jsonb;
+BEGIN
+    IF p_currency IS NOT NULL AND (p_exchange_rate IS NULL OR p_exchange_rate <= 0) THEN
+        RAISE EXCEPTION 'An order in % needs an exchange rate above 0', p_currency;
+    END IF;
+
+    IF p_order_id IS NULL THEN
+        INSERT INTO public.purchase_orders (supplier, reference, notes, currency, exchange_rate, owner_id)
+        VALUES (p_supplier, NULLIF(p_reference, ''), NULLIF(p_notes, ''), p_currency, v_exchange_rate, auth.uid())
+        RETURNING * INTO v_order;
+    ELSE
+        SELECT * INTO v_order FROM public.purchase_orders WHERE id = p_order_id FOR UPDATE;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Purchase order % not found', p_order_id;
+        END IF;
+        IF v_order.status <> 'draft' THEN
+            RAISE EXCEPTION 'Purchase order % is no longer a draft', p_order_id;
+        END IF;
+        UPDATE public.purchase_orders
+        SET supplier = p_supplier, reference = NULLIF(p_reference, ''), notes = NULLIF(p_notes, ''),
+            currency = p_currency, exchange_rate = v_exchange_rate
+        WHERE id = p_order_id;
+        DELETE FROM public.purchase_order_lines WHERE purchase_order_id = p_order_id;
+    END IF;
+
+    -- Lines keep the names they were ordered under, even if the product is renamed or deleted later
+    FOR l IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+        SELECT * INTO v_product FROM public.products WHERE id = (l->>'product_id')::bigint;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Product % not found', l->>'product_id';
+        END IF;
+        v_variant := NULL;
+        IF l->>'variant_id' IS NOT NULL THEN
+            SELECT * INTO v_variant FROM public.product_variants WHERE id = (l->>'variant_id')::bigint AND product_id = v_product.id;
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Variant % not found', l->>'variant_id';
+            END IF;
+        END IF;
+        INSERT INTO public.purchase_order_lines (purchase_order_id, product_id, productname, variant_id, variantname, quantity, unitcost, owner_id)
+        VALUES (
+            v_order.id, v_product.id, v_product.name, v_variant.id,
+            (SELECT string_agg(o->>'value', ' / ' ORDER BY i) FROM jsonb_array_elements(v_variant.options) WITH ORDINALITY AS t(o, i)),
+            (l->>'quantity')::integer, (l->>'unitcost')::numeric, auth.uid()
+        );
+    END LOOP;
+
+    RETURN public.purchase_order_json(v_order.id);
+END;
+$$;
+
+-- Receive goods against a purchase order: they go into stock at the cost actually paid,
+-- turned into the shop's currency at the order's rate when it was bought abroad, each receipt as a cost layer,
+-- and as a lot when it comes with a batch number or an expiry date
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(p_order_id bigint, p_receipts jsonb)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_order public.purchase_orders;
+    v_line public.purchase_order_lines;
+    r jsonb;
+    v_quantity integer;
+    v_cost numeric;
+    v_buy_price numeric;
+    v_variant_id bigint;
+    v_product_ids bigint[] := '{}';
+    v_movements jsonb := '[]'::jsonb;
+BEGIN
+    SELECT * INTO v_order FROM public.purchase_orders WHERE id = p_order_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Purchase order % not found', p_order_id;
+    END IF;
+    IF v_order.status NOT IN ('ordered', 'partially_received') THEN
+        RAISE EXCEPTION 'Purchase order % is not awaiting delivery', p_order_id;
+    END IF;
+
+    FOR r IN SELECT * FROM jsonb_array_elements(p_receipts) LOOP
+        v_quantity := (r->>'quantity')::integer;
+        v_cost := (r->>'unitcost')::numeric;
+        v_buy_price := round(v_cost * COALESCE(v_order.exchange_rate, 1), 2);
+        SELECT * INTO v_line FROM public.purchase_order_lines WHERE id = (r->>'line_id')::bigint AND purchase_order_id = p_order_id FOR UPDATE;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Purchase order line % not found', r->>'line_id';
+        END IF;
+        IF v_quantity < 1 OR v_quantity > v_line.quantity - v_line.received_quantity THEN
+            RAISE EXCEPTION 'Cannot receive % more units of %', v_quantity, v_line.productname;
+        END IF;
+
+        UPDATE public.purchase_order_lines
+        SET received_quantity = received_quantity + v_quantity, unitcost = v_cost
+        WHERE id = v_line.id;
+
+        IF EXISTS (SELECT 1 FROM public.product_variants WHERE id = v_line.variant_id AND product_id = v_line.product_id) THEN
+            PERFORM public.add_cost_layer(v_line.product_id, v_line.variant_id, v_quantity, v_buy_price, p_order_id);
+            -- The product's own stock follows through the variant trigger
+            UPDATE public.product_variants SET stock = stock + v_quantity, buyprice = v_buy_price WHERE id = v_line.variant_id;
+            v_variant_id := v_line.variant_id;
+        ELSE
+            PERFORM public.add_cost_layer(v_line.product_id, NULL, v_quantity, v_buy_price, p_order_id);
+            UPDATE public.products
+            SET stock = stock + v_quantity,
+                buyprice = v_buy_price,
+                status = 'actif'
+            WHERE id = v_line.product_id;
+            v_variant_id := NULL;
+        END IF;
+        v_movements := v_movements || public.log_stock_movement(v_line.product_id, v_variant_id, v_line.variantname, v_quantity, 'receipt', p_order_id);
+
+        -- After the stock went up, so the lot fits in it
+        IF NULLIF(trim(r->>'lot_number'), '') IS NOT NULL OR r->>'expires_at' IS NOT NULL THEN
+            INSERT INTO public.stock_lots (product_id, variant_id, purchase_order_id, lot_number, expires_at, quantity, owner_id)
+            SELECT p.id, v_variant_id, p_order_id, NULLIF(trim(r->>'lot_number'), ''), (r->>'expires_at')::date, v_quantity, p.owner_id
+            FROM public.products p
+            WHERE p.id = v_line.product_id
+                AND (v_variant_id IS NOT NULL OR NOT EXISTS (SELECT 1 FROM public.product_variants v WHERE v.product_id = p.id));
+        END IF;
+
+        IF v_line.product_id IS NOT NULL AND NOT v_line.product_id = ANY(v_product_ids) THEN
+            v_product_ids := v_product_ids || v_line.product_id;
+        END IF;
+    END LOOP;
+
+    UPDATE public.purchase_orders
+    SET status = CASE
+        WHEN NOT EXISTS (SELECT 1 FROM public.purchase_order_lines WHERE purchase_order_id = p_order_id AND received_quantity < quantity) THEN 'received'
+        WHEN EXISTS (SELECT 1 FROM public.purchase_order_lines WHERE purchase_order_id = p_order_id AND received_quantity > 0) THEN 'partially_received'
+        ELSE 'ordered'
+    END
+    WHERE id = p_order_id;
+
+    RETURN json_build_object(
+        'order', public.purchase_order_json(p_order_id),
+        'products', COALESCE((SELECT json_agg(public.product_json(pid)) FROM unnest(v_product_ids) AS pid), '[]'::json),
+        'movements', v_movements
+    );
+END;
+$$;
+
+-- What a line weighs when charges are spread: its value, its units or its weight
+CREATE OR REPLACE FUNCTION public.landed_cost_basis(p_line jsonb, p_basis text)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT (p_line->>'quantity')::numeric * CASE p_basis
+        WHEN 'value' THEN (p_line->>'unit_cost')::numeric
+        WHEN 'quantity' THEN 1
+        ELSE COALESCE((p_line->>'weight')::numeric, 0)
+    END;
+$$;
+
+-- Add the extra cost of some units, p_amount for all of them, to the cost layers they are still in:
+-- those received on the purchase order when one is given, otherwise the newest. Units already sold keep
+-- the cost they left at. A layer holding more units than are left to raise takes its share in proportion.
+CREATE OR REPLACE FUNCTION public.raise_cost_layers(p_product_id bigint, p_variant_id bigint, p_quantity integer, p_amount numeric, p_purchase_order_id bigint)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_left integer := p_quantity;
+    v_units integer;
+    v_layer public.cost_layers;
+BEGIN
+    FOR v_layer IN
+        SELECT * FROM public.cost_layers
+        WHERE product_id = p_product_id AND variant_id IS NOT DISTINCT FROM p_variant_id
+            AND (p_purchase_order_id IS NULL OR purchase_order_id = p_purchase_order_id)
+        ORDER BY created_at DESC, id DESC
+        FOR UPDATE
+    LOOP
+        EXIT WHEN v_left <= 0;
+        v_units := LEAST(v_layer.remaining, v_left);
+        v_left := v_left - v_units;
+        UPDATE public.cost_layers
+        SET unit_cost = round(unit_cost + p_amount / p_quantity * v_units / remaining, 4)
+        WHERE id = v_layer.id;
+    END LOOP;
+END;
+$$;
+
+-- Spreads the extra costs of a shipment over its lines and makes each line's landed unit cost
+-- the buy price of its product or variant. The last line takes what rounding left over.
+-- The units of a line still in stock take their share in their cost layers too.
+CREATE OR REPLACE FUNCTION public.apply_landed_cost(p_purchase_order_id bigint, p_reference text, p_basis text, p_charges jsonb, p_lines jsonb)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_order public.purchase_orders;
+    v_product public.products;
+    v_variant public.product_variants;
+    r jsonb;
+    v_total numeric;
+    v_base numeric;
+    v_remaining numeric;
+    v_share numeric;
+    v_landed numeric;
+    v_count integer;
+    v_index integer := 0;
+    v_lines jsonb := '[]'::jsonb;
+    v_landed_cost public.landed_costs;
+    v_product_ids bigint[] := '{}';
+BEGIN
+    IF jsonb_array_length(COALESCE(p_charges, '[]'::jsonb)) = 0 THEN
+        RAISE EXCEPTION 'There are no extra costs to spread';
+    END IF;
+    IF EXISTS (SELECT 1 FROM jsonb_array_elements(p_charges) AS c WHERE btrim(COALESCE(c->>'label', '')) = '' OR COALESCE((c->>'amount')::numeric, 0) <= 0) THEN
+        RAISE EXCEPTION 'Every extra cost needs a label and an amount above 0';
+    END IF;
+    v_count := jsonb_array_length(COALESCE(p_lines, '[]'::jsonb));
+    IF v_count = 0 THEN
+        RAISE EXCEPTION 'There are no units to spread the extra costs over';
+    END IF;
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_lines) AS l
+        WHERE COALESCE((l->>'quantity')::integer, 0) < 1 OR COALESCE((l->>'unit_cost')::numeric, -1) < 0 OR COALESCE((l->>'weight')::numeric, 0) < 0
+    ) THEN
+        RAISE EXCEPTION 'Every line needs a quantity of at least 1, and a cost and weight that are not negative';
+    END IF;
+    IF p_basis NOT IN ('value', 'quantity', 'weight') THEN
+        RAISE EXCEPTION 'Unknown basis %', p_basis;
+    END IF;
+    SELECT sum(public.landed_cost_basis(l, p_basis)) INTO v_base FROM jsonb_array_elements(p_lines) AS l;
+    IF v_base <= 0 THEN
+        RAISE EXCEPTION 'The extra costs cannot be spread on this basis over these units';
+    END IF;
+
+    IF p_purchase_order_id IS NOT NULL THEN
+        SELECT * INTO v_order FROM public.purchase_orders WHERE id = p_purchase_order_id;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Purchase order % not found', p_purchase_order_id;
+        END IF;
+        IF v_order.status = 'draft' THEN
+            RAISE EXCEPTION 'Purchase order % is still a draft', p_purchase_order_id;
+        END IF;
+    END IF;
+
+    SELECT sum(round((c->>'amount')::numeric, 2)) INTO v_total FROM jsonb_array_elements(p_charges) AS c;
+    v_remaining := v_total;
+
+    FOR r IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+        v_index := v_index + 1;
+        SELECT * INTO v_product FROM public.products WHERE id = (r->>'product_id')::bigint FOR UPDATE;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Product % not found', r->>'product_id';
+        END IF;
+
+        v_share := CASE WHEN v_index = v_count THEN v_remaining ELSE round(v_total * public.landed_cost_basis(r, p_basis) / v_base, 2) END;
+        v_remaining := v_remaining - v_share;
+        v_landed := round((r->>'unit_cost')::numeric + v_share / (r->>'quantity')::integer, 2);
+
+        IF r->>'variant_id' IS NOT NULL THEN
+            SELECT * INTO v_variant FROM public.product_variants WHERE id = (r->>'variant_id')::bigint AND product_id = v_product.id FOR UPDATE;
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Variant % not found', r->>'variant_id';
+            END IF;
+            UPDATE public.product_variants SET buyprice = v_landed WHERE id = v_variant.id;
+            PERFORM public.raise_cost_layers(v_product.id, v_variant.id, (r->>'quantity')::integer, v_share, p_purchase_order_id);
+        ELSE
+            UPDATE public.products SET buyprice = v_landed WHERE id = v_product.id;
+            PERFORM public.raise_cost_layers(v_product.id, NULL, (r->>'quantity')::integer, v_share, p_purchase_order_id);
+        END IF;
+
+        v_lines := v_lines || jsonb_build_object(
+            'product_id', v_product.id,
+            'variant_id', CASE WHEN r->>'variant_id' IS NOT NULL THEN v_variant.id END,
+            'product_name', v_product.name,
+            'variant_name', CASE WHEN r->>'variant_id' IS NOT NULL THEN
+                (SELECT string_agg(o->>'value', ' / ' ORDER BY i) FROM jsonb_array_elements(v_variant.options) WITH ORDINALITY AS t(o, i))
+            END,
+            'quantity', (r->>'quantity')::integer,
+            'unit_cost', (r->>'unit_cost')::numeric,
+            'weight', (r->>'weight')::numeric,
+            'allocated', v_share,
+            'landed_unit_cost', v_landed
+        );
+        IF NOT v_product.id = ANY(v_product_ids) THEN
+            v_product_ids := v_product_ids || v_product.id;
+        END IF;
+    END LOOP;
+
+    INSERT INTO public.landed_costs (purchase_order_id, reference, basis, charges, total, lines, owner_id)
+    VALUES (
+        p_purchase_order_id, NULLIF(btrim(p_reference), ''), p_basis,
+        (SELECT jsonb_agg(jsonb_build_object('label', btrim(c->>'label'), 'amount', (c->>'amount')::numeric)) FROM jsonb_array_elements(p_charges) AS c),
+        v_total, v_lines, auth.uid()
+    )
+    RETURNING * INTO v_landed_cost;
+
+    RETURN json_build_object(
+        'landed_cost', row_to_json(v_landed_cost),
+        'products', COALESCE((SELECT json_agg(public.product_json(pid)) FROM unnest(v_product_ids) AS pid), '[]'::json)
+    );
+END;
+$$;
+
+-- An inventory count as the app reads it, with its lines embedded
+CREATE OR REPLACE FUNCTION public.inventory_count_json(p_count_id bigint)
+RETURNS json
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT (json_build_object(
+        'inventory_count_lines', COALESCE((SELECT json_agg(l ORDER BY l.id) FROM public.inventory_count_lines l WHERE l.inventory_count_id = c.id), '[]'::json)
+    )::jsonb || to_jsonb(c))::json
+    FROM public.inventory_counts c
+    WHERE c.id = p_count_id;
+$$;
+
+-- Open a count with a line for every product in scope, or for each of its variants
+CREATE OR REPLACE FUNCTION public.start_inventory_count(p_category text DEFAULT NULL, p_supplier_id bigint DEFAULT NULL)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_count public.inventory_counts;
+BEGIN
+    INSERT INTO public.inventory_counts (category, supplier_id, owner_id)
+    VALUES (NULLIF(p_category, ''), p_supplier_id, auth.uid())
+    RETURNING * INTO v_count;
+
+    INSERT INTO public.inventory_count_lines (inventory_count_id, product_id, productname, variant_id, variantname, owner_id)
+    SELECT v_count.id, p.id, p.name, v.id,
+        (SELECT string_agg(o->>'value', ' / ' ORDER BY i) FROM jsonb_array_elements(v.options) WITH ORDINALITY AS t(o, i)),
+        auth.uid()
+    FROM public.products p
+    LEFT JOIN public.product_variants v ON v.product_id = p.id
+    WHERE (v_count.category IS NULL OR p.category = v_count.category)
+      AND (p_supplier_id IS NULL OR p.supplier_id = p_supplier_id)
+    ORDER BY p.name, v.id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No products to count';
+    END IF;
+
+    RETURN public.inventory_count_json(v_count.id);
+END;
+$$;
+
+-- Set the quantity found on a line of a count in progress, or clear it with NULL
+CREATE OR REPLACE FUNCTION public.record_inventory_count(p_line_id bigint, p_counted integer)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_line public.inventory_count_lines;
+    v_status text;
+BEGIN
+    SELECT * INTO v_line FROM public.inventory_count_lines WHERE id = p_line_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Inventory count line % not found', p_line_id;
+    END IF;
+    -- Locking the count keeps a line from changing while it is being posted
+    SELECT status INTO v_status FROM public.inventory_counts WHERE id = v_line.inventory_count_id FOR UPDATE;
+    IF v_status <> 'in_progress' THEN
+        RAISE EXCEPTION 'Inventory count % has already been posted', v_line.inventory_count_id;
+    END IF;
+    IF p_counted < 0 THEN
+        RAISE EXCEPTION 'Cannot count % units', p_counted;
+    END IF;
+
+    UPDATE public.inventory_count_lines SET counted = p_counted WHERE id = p_line_id RETURNING * INTO v_line;
+    RETURN to_json(v_line);
+END;
+$$;
+
+-- Post a count: the stock of every counted product or variant becomes what was found.
+-- Each line keeps the stock it replaced and the unit cost, so the count stays on as its report.
+CREATE OR REPLACE FUNCTION public.post_inventory_count(p_count_id bigint)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_count public.inventory_counts;
+    v_line public.inventory_count_lines;
+    v_product public.products;
+    v_variant public.product_variants;
+    v_product_ids bigint[] := '{}';
+    v_movements jsonb := '[]'::jsonb;
+BEGIN
+    SELECT * INTO v_count FROM public.inventory_counts WHERE id = p_count_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Inventory count % not found', p_count_id;
+    END IF;
+    IF v_count.status <> 'in_progress' THEN
+        RAISE EXCEPTION 'Inventory count % has already been posted', p_count_id;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM public.inventory_count_lines WHERE inventory_count_id = p_count_id AND counted IS NOT NULL) THEN
+        RAISE EXCEPTION 'Nothing has been counted yet';
+    END IF;
+
+    FOR v_line IN SELECT * FROM public.inventory_count_lines WHERE inventory_count_id = p_count_id AND counted IS NOT NULL ORDER BY id LOOP
+        -- Lines whose product or variant has been deleted since have nothing left to adjust
+        SELECT * INTO v_product FROM public.products WHERE id = v_line.product_id FOR UPDATE;
+        CONTINUE WHEN NOT FOUND;
+
+        IF v_line.variantname IS NOT NULL THEN
+            SELECT * INTO v_variant FROM public.product_variants WHERE id = v_line.variant_id AND product_id = v_product.id;
+            CONTINUE WHEN NOT FOUND;
+            UPDATE public.inventory_count_lines SET expected = v_variant.stock, unitcost = v_variant.buyprice WHERE id = v_line.id;
+            -- The product's own stock follows through the variant trigger
+            UPDATE public.product_variants SET stock = v_line.counted WHERE id = v_variant.id;
+            v_movements := v_movements || public.log_stock_movement(v_product.id, v_variant.id, v_line.variantname, v_line.counted - v_variant.stock, 'count_correction', p_count_id);
+        ELSE
+            -- A product that has been given variants since takes its stock from them
+            CONTINUE WHEN EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = v_product.id);
+            UPDATE public.inventory_count_lines SET expected = v_product.stock, unitcost = v_product.buyprice WHERE id = v_line.id;
+            UPDATE public.products
+            SET stock = v_line.counted,
+                status = CASE WHEN v_line.counted > 0 THEN 'actif' ELSE 'rupture' END
+            WHERE id = v_product.id;
+            v_movements := v_movements || public.log_stock_movement(v_product.id, NULL, NULL, v_line.counted - v_product.stock, 'count_correction', p_count_id);
+        END IF;
+
+        IF NOT v_product.id = ANY(v_product_ids) THEN
+            v_product_ids := v_product_ids || v_product.id;
+        END IF;
+    END LOOP;
+
+    UPDATE public.inventory_counts SET status = 'posted', posted_at = now() WHERE id = p_count_id;
+
+    RETURN json_build_object(
+        'count', public.inventory_count_json(p_count_id),
+        'products', COALESCE((SELECT json_agg(public.product_json(pid)) FROM unnest(v_product_ids) AS pid), '[]'::json),
+        'movements', v_movements
+    );
+END;
+$$;
+
+-- Units held at locations or in transit, for a product or one of its variants
+CREATE OR REPLACE FUNCTION public.placed_stock(p_product_id bigint, p_variant_id bigint)
+RETURNS integer
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT (SELECT COALESCE(SUM(quantity), 0) FROM public.stock_levels
+            WHERE product_id = p_product_id AND variant_id IS NOT DISTINCT FROM p_variant_id)::integer
+         + (SELECT COALESCE(SUM(quantity), 0) FROM public.stock_transfers
+            WHERE product_id = p_product_id AND variant_id IS NOT DISTINCT FROM p_variant_id AND status = 'in_transit')::integer;
+$$;
+
+-- Stock sold or written off leaves the main shop first. Once it holds too little, the levels
+-- are cut down largest first, so they never add up to more than the stock on record.
+CREATE OR REPLACE FUNCTION public.fit_stock_levels()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_product_id bigint;
+    v_variant_id bigint;
+    v_excess integer;
+    v_level public.stock_levels;
+    v_cut integer;
+BEGIN
+    IF TG_TABLE_NAME = 'product_variants' THEN
+        v_product_id := NEW.product_id;
+        v_variant_id := NEW.id;
+    ELSE
+        v_product_id := NEW.id;
+        v_variant_id := NULL;
+    END IF;
+    v_excess := public.placed_stock(v_product_id, v_variant_id) - NEW.stock;
+
+    FOR v_level IN
+        SELECT * FROM public.stock_levels
+        WHERE product_id = v_product_id AND variant_id IS NOT DISTINCT FROM v_variant_id AND quantity > 0
+        ORDER BY quantity DESC, id
+    LOOP
+        EXIT WHEN v_excess <= 0;
+        v_cut := LEAST(v_level.quantity, v_excess);
+        UPDATE public.stock_levels SET quantity = quantity - v_cut WHERE id = v_level.id;
+        v_excess := v_excess - v_cut;
+    END LOOP;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS products_fit_stock_levels ON public.products;
+CREATE TRIGGER products_fit_stock_levels AFTER UPDATE OF stock ON public.products
+FOR EACH ROW WHEN (NEW.stock < OLD.stock) EXECUTE FUNCTION public.fit_stock_levels();
+
+DROP TRIGGER IF EXISTS product_variants_fit_stock_levels ON public.product_variants;
+CREATE TRIGGER product_variants_fit_stock_levels AFTER UPDATE OF stock ON public.product_variants
+FOR EACH ROW WHEN (NEW.stock < OLD.stock) EXECUTE FUNCTION public.fit_stock_levels();
+
+-- Add units to what a location holds, returning its level
+CREATE OR REPLACE FUNCTION public.add_to_stock_level(p_product_id bigint, p_variant_id bigint, p_location_id bigint, p_quantity integer)
+RETURNS public.stock_levels
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_level public.stock_levels;
+BEGIN
+    INSERT INTO public.stock_levels (product_id, variant_id, location_id, quantity, owner_id)
+    VALUES (p_product_id, p_variant_id, p_location_id, p_quantity, auth.uid())
+    ON CONFLICT (product_id, (COALESCE(variant_id, 0)), location_id)
+    DO UPDATE SET quantity = public.stock_levels.quantity + EXCLUDED.quantity
+    RETURNING * INTO v_level;
+    RETURN v_level;
+END;
+$$;
+
+-- Send units of a product, or of one of its variants, towards another location.
+-- They leave the origin at once and reach the destination when the transfer is received.
+CREATE OR REPLACE FUNCTION public.send_stock_transfer(p_product_id bigint, p_variant_id bigint, p_quantity integer, p_from_location_id bigint, p_to_location_id bigint, p_notes text DEFAULT NULL)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_product public.products;
+    v_variant public.product_variants;
+    v_stock integer;
+    v_available integer;
+    v_variantname text;
+    v_transfer public.stock_transfers;
+    v_levels json := '[]'::json;
+BEGIN
+    SELECT * INTO v_product FROM public.products WHERE id = p_product_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Product % not found', p_product_id;
+    END IF;
+    IF p_variant_id IS NOT NULL THEN
+        SELECT * INTO v_variant FROM public.product_variants WHERE id = p_variant_id AND product_id = p_product_id;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Variant % not found', p_variant_id;
+        END IF;
+        v_stock := v_variant.stock;
+        SELECT string_agg(o->>'value', ' / ' ORDER BY i) INTO v_variantname FROM jsonb_array_elements(v_variant.options) WITH ORDINALITY AS t(o, i);
+    ELSIF EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = p_product_id) THEN
+        RAISE EXCEPTION 'Choose a variant of %', v_product.name;
+    ELSE
+        v_stock := v_product.stock;
+    END IF;
+    IF p_from_location_id IS NOT DISTINCT FROM p_to_location_id THEN
+        RAISE EXCEPTION 'A transfer must go to another location';
+    END IF;
+    IF p_quantity IS NULL OR p_quantity < 1 THEN
+        RAISE EXCEPTION 'A transfer needs at least one unit';
+    END IF;
+
+    IF p_from_location_id IS NULL THEN
+        v_available := v_stock - public.placed_stock(p_product_id, p_variant_id);
+    ELSE
+        SELECT COALESCE(SUM(quantity), 0) INTO v_available FROM public.stock_levels
+        WHERE product_id = p_product_id AND variant_id IS NOT DISTINCT FROM p_variant_id AND location_id = p_from_location_id;
+    END IF;
+    IF v_available < p_quantity THEN
+        RAISE EXCEPTION 'Insufficient stock for % at the origin', v_product.name;
+    END IF;
+
+    IF p_from_location_id IS NOT NULL THEN
+        v_levels := json_build_array(to_json(public.add_to_stock_level(p_product_id, p_variant_id, p_from_location_id, -p_quantity)));
+    END IF;
+    INSERT INTO public.stock_transfers (product_id, productname, variant_id, variantname, quantity, from_location_id, to_location_id, notes, owner_id)
+    VALUES (p_product_id, v_product.name, p_variant_id, v_variantname, p_quantity, p_from_location_id, p_to_location_id, NULLIF(p_notes, ''), auth.uid())
+    RETURNING * INTO v_transfer;
+
+    RETURN json_build_object('transfer', to_json(v_transfer), 'levels', v_levels);
+END;
+$$;
+
+-- The destination takes in the units of a transfer
+CREATE OR REPLACE FUNCTION public.receive_stock_transfer(p_transfer_id bigint)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_transfer public.stock_transfers;
+    v_levels json := '[]'::json;
+BEGIN
+    SELECT * INTO v_transfer FROM public.stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Transfer % not found', p_transfer_id;
+    END IF;
+    IF v_transfer.status <> 'in_transit' THEN
+        RAISE EXCEPTION 'Transfer % has already been received', p_transfer_id;
+    END IF;
+
+    UPDATE public.stock_transfers SET status = 'received', received_at = now() WHERE id = p_transfer_id RETURNING * INTO v_transfer;
+    IF v_transfer.to_location_id IS NOT NULL THEN
+        v_levels := json_build_array(to_json(public.add_to_stock_level(v_transfer.product_id, v_transfer.variant_id, v_transfer.to_location_id, v_transfer.quantity)));
+    END IF;
+
+    RETURN json_build_object('transfer', to_json(v_transfer), 'levels', v_levels);
+END;
+$$;
+
+-- Call off a transfer still in transit: its units go back to the origin
+CREATE OR REPLACE FUNCTION public.cancel_stock_transfer(p_transfer_id bigint)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_transfer public.stock_transfers;
+    v_levels json := '[]'::json;
+BEGIN
+    SELECT * INTO v_transfer FROM public.stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Transfer % not found', p_transfer_id;
+    END IF;
+    IF v_transfer.status <> 'in_transit' THEN
+        RAISE EXCEPTION 'Transfer % has already been received', p_transfer_id;
+    END IF;
+
+    DELETE FROM public.stock_transfers WHERE id = p_transfer_id;
+    IF v_transfer.from_location_id IS NOT NULL THEN
+        v_levels := json_build_array(to_json(public.add_to_stock_level(v_transfer.product_id, v_transfer.variant_id, v_transfer.from_location_id, v_transfer.quantity)));
+    END IF;
+
+    RETURN json_build_object('levels', v_levels);
+END;
+$$;
+
+-- Send units of a product, or of one of its variants, out to a customer.
+-- They leave the stock at once, at the price of the day and what they cost in the cost layers,
+-- and are sold when the delivery is confirmed.
+CREATE OR REPLACE FUNCTION public.create_delivery(
+    p_product_id bigint, p_variant_id bigint, p_quantity integer, p_location_id bigint DEFAULT NULL, p_customer_id bigint DEFAULT NULL,
+    p_address text DEFAULT NULL, p_wilaya text DEFAULT NULL, p_courier text DEFAULT NULL, p_tracking_number text DEFAULT NULL,
+    p_cod_amount numeric DEFAULT NULL, p_notes text DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_product public.products;
+    v_variant public.product_variants;
+    v_stock integer;
+    v_available integer;
+    v_variantname text;
+    v_cost numeric;
+    v_delivery public.deliveries;
+    v_levels json := '[]'::json;
+BEGIN
+    SELECT * INTO v_product FROM public.products WHERE id = p_product_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Product % not found', p_product_id;
+    END IF;
+    IF p_variant_id IS NOT NULL THEN
+        SELECT * INTO v_variant FROM public.product_variants WHERE id = p_variant_id AND product_id = p_product_id FOR UPDATE;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Variant % not found', p_variant_id;
+        END IF;
+        v_stock := v_variant.stock;
+        SELECT string_agg(o->>'value', ' / ' ORDER BY i) INTO v_variantname FROM jsonb_array_elements(v_variant.options) WITH ORDINALITY AS t(o, i);
+    ELSIF EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = p_product_id) THEN
+        RAISE EXCEPTION 'Choose a variant of %', v_product.name;
+    ELSE
+        v_stock := v_product.stock;
+    END IF;
+    IF p_quantity IS NULL OR p_quantity < 1 THEN
+        RAISE EXCEPTION 'A delivery needs at least one unit';
+    END IF;
+    IF p_cod_amount < 0 THEN
+        RAISE EXCEPTION 'The amount to collect cannot be negative';
+    END IF;
+
+    IF p_location_id IS NULL THEN
+        v_available := v_stock - public.placed_stock(p_product_id, p_variant_id);
+    ELSE
+        SELECT COALESCE(SUM(quantity), 0) INTO v_available FROM public.stock_levels
+        WHERE product_id = p_product_id AND variant_id IS NOT DISTINCT FROM p_variant_id AND location_id = p_location_id;
+    END IF;
+    IF v_available < p_quantity THEN
+        RAISE EXCEPTION 'Insufficient stock for % at the origin', v_product.name;
+    END IF;
+
+    -- The level goes down first, so the stock trigger finds nothing left to cut
+    IF p_location_id IS NOT NULL THEN
+        v_levels := json_build_array(to_json(public.add_to_stock_level(p_product_id, p_variant_id, p_location_id, -p_quantity)));
+    END IF;
+    v_cost := public.consume_cost_layers(p_product_id, p_variant_id, p_quantity);
+    IF p_variant_id IS NOT NULL THEN
+        -- The product's own stock follows through the variant trigger
+        UPDATE public.product_variants SET stock = stock - p_quantity WHERE id = p_variant_id;
+    ELSE
+        UPDATE public.products
+        SET stock = stock - p_quantity,
+            status = CASE WHEN stock = p_quantity THEN 'rupture' ELSE 'actif' END
+        WHERE id = p_product_id;
+    END IF;
+
+    INSERT INTO public.deliveries (
+        product_id, productname, variant_id, variantname, quantity, unit_price, unit_cost, location_id, customer_id,
+        address, wilaya, courier, tracking_number, cod_amount, notes, owner_id
+    ) VALUES (
+        p_product_id, v_product.name, p_variant_id, v_variantname, p_quantity,
+        COALESCE(v_variant.sellprice, v_product.sellprice), round(v_cost / p_quantity, 2), p_location_id, p_customer_id,
+        NULLIF(p_address, ''), NULLIF(p_wilaya, ''), NULLIF(p_courier, ''), NULLIF(p_tracking_number, ''),
+        COALESCE(p_cod_amount, COALESCE(v_variant.sellprice, v_product.sellprice) * p_quantity), NULLIF(p_notes, ''), auth.uid()
+    )
+    RETURNING * INTO v_delivery;
+
+    RETURN json_build_object(
+        'delivery', to_json(v_delivery), 'product', public.product_json(p_product_id), 'levels', v_levels,
+        'movements', public.log_stock_movement(p_product_id, p_variant_id, v_variantname, -p_quantity, 'delivery', v_delivery.id)
+    );
+END;
+$$;
+
+-- The customer took the parcel: record the sale at the prices the units left with, and the product's TVA.
+-- The stock already went down when they were sent, so it is left alone.
+-- Cash a courier collected is awaited until the courier pays it over.
+CREATE OR REPLACE FUNCTION public.confirm_delivery(p_delivery_id bigint, p_customer_id bigint DEFAULT NULL)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_delivery public.deliveries;
+    v_sale public.sales;
+    v_product public.products;
+    v_tax_rate numeric;
+    v_gross numeric;
+    v_net numeric;
+BEGIN
+    SELECT * INTO v_delivery FROM public.deliveries WHERE id = p_delivery_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Delivery % not found', p_delivery_id;
+    END IF;
+    IF v_delivery.status NOT IN ('pending', 'shipped') THEN
+        RAISE EXCEPTION 'Delivery % is already %', p_delivery_id, v_delivery.status;
+    END IF;
+    SELECT * INTO v_product FROM public.products WHERE id = v_delivery.product_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '% no longer exists and cannot be sold', v_delivery.productname;
+    END IF;
+    v_tax_rate := public.product_tax_rate(v_product);
+    v_gross := public.gross_amount(v_delivery.unit_price * v_delivery.quantity, v_tax_rate, v_product.price_includes_tax);
+    v_net := public.net_of_tax(v_gross, v_tax_rate);
+
+    INSERT INTO public.sales (
+        product_id, productname, variant_id, variantname, customer_id, quantity, list_price, sellprice, totalprice, totalmargin,
+        tax_rate, net_amount, tax_amount, payment_status, payments, owner_id
+    )
+    VALUES (
+        v_delivery.product_id, v_delivery.productname, v_delivery.variant_id, v_delivery.variantname,
+        COALESCE(p_customer_id, v_delivery.customer_id), v_delivery.quantity, v_delivery.unit_price, v_delivery.unit_price,
+        v_gross, v_net - v_delivery.unit_cost * v_delivery.quantity,
+        v_tax_rate, v_net, v_gross - v_net,
+        CASE WHEN v_delivery.cod_amount > 0 AND NULLIF(btrim(v_delivery.courier), '') IS NOT NULL THEN 'awaiting_cod' ELSE 'paid' END,
+        jsonb_build_array(jsonb_build_object(
+            'method', CASE WHEN v_delivery.cod_amount > 0 AND NULLIF(btrim(v_delivery.courier), '') IS NOT NULL THEN 'cod' ELSE 'cash' END,
+            'amount', v_gross
+        )),
+        auth.uid()
+    )
+    RETURNING * INTO v_sale;
+
+    UPDATE public.deliveries SET status = 'delivered', sale_id = v_sale.id, delivered_at = now()
+    WHERE id = p_delivery_id
+    RETURNING * INTO v_delivery;
+
+    RETURN json_build_object('delivery', to_json(v_delivery), 'sale', row_to_json(v_sale));
+END;
+$$;
+
+-- Call off a delivery still on its way: its units go back where they were taken from, at the cost they left at.
+-- A product deleted since has nothing to take them back.
+CREATE OR REPLACE FUNCTION public.cancel_delivery(p_delivery_id bigint)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_delivery public.deliveries;
+    v_levels json := '[]'::json;
+    v_movements jsonb := '[]'::jsonb;
+BEGIN
+    SELECT * INTO v_delivery FROM public.deliveries WHERE id = p_delivery_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Delivery % not found', p_delivery_id;
+    END IF;
+    IF v_delivery.status NOT IN ('pending', 'shipped') THEN
+        RAISE EXCEPTION 'Delivery % is already %', p_delivery_id, v_delivery.status;
+    END IF;
+
+    -- The units go back to their variant, else to the product when it holds its own stock.
+    -- A product still having variants but not the one delivered has nowhere to put them.
+    PERFORM 1 FROM public.products WHERE id = v_delivery.product_id FOR UPDATE;
+    IF EXISTS (SELECT 1 FROM public.product_variants WHERE id = v_delivery.variant_id AND product_id = v_delivery.product_id) THEN
+        PERFORM public.add_cost_layer(v_delivery.product_id, v_delivery.variant_id, v_delivery.quantity, v_delivery.unit_cost);
+        UPDATE public.product_variants SET stock = stock + v_delivery.quantity WHERE id = v_delivery.variant_id;
+        UPDATE public.products SET status = 'actif' WHERE id = v_delivery.product_id;
+        v_movements := public.log_stock_movement(v_delivery.product_id, v_delivery.variant_id, v_delivery.variantname, v_delivery.quantity, 'delivery', p_delivery_id);
+        IF v_delivery.location_id IS NOT NULL THEN
+            v_levels := json_build_array(to_json(public.add_to_stock_level(v_delivery.product_id, v_delivery.variant_id, v_delivery.location_id, v_delivery.quantity)));
+        END IF;
+    ELSIF v_delivery.product_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = v_delivery.product_id) THEN
+        PERFORM public.add_cost_layer(v_delivery.product_id, NULL, v_delivery.quantity, v_delivery.unit_cost);
+        UPDATE public.products
+        SET stock = stock + v_delivery.quantity, status = 'actif'
+        WHERE id = v_delivery.product_id;
+        v_movements := public.log_stock_movement(v_delivery.product_id, NULL, NULL, v_delivery.quantity, 'delivery', p_delivery_id);
+        IF v_delivery.location_id IS NOT NULL THEN
+            v_levels := json_build_array(to_json(public.add_to_stock_level(v_delivery.product_id, NULL, v_delivery.location_id, v_delivery.quantity)));
+        END IF;
+    END IF;
+
+    UPDATE public.deliveries SET status = 'cancelled' WHERE id = p_delivery_id RETURNING * INTO v_delivery;
+
+    RETURN json_build_object(
+        'delivery', to_json(v_delivery),
+        'product', (SELECT public.product_json(p.id) FROM public.products p WHERE p.id = v_delivery.product_id),
+        'levels', v_levels,
+        'movements', v_movements
+    );
+END;
+$$;
+
+-- A courier paid over the cash it collected on some delivered deliveries: their sales are marked paid.
+-- What they collected beyond the amount received went on the courier's fees.
+CREATE OR REPLACE FUNCTION public.record_cod_remittance(
+    p_courier text, p_reference text, p_amount numeric, p_paid_at timestamp with time zone, p_notes text, p_delivery_ids bigint[]
+)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_id bigint;
+    v_delivery public.deliveries;
+    v_cod_total numeric := 0;
+    v_remittance public.cod_remittances;
+    v_sales json;
+BEGIN
+    IF btrim(COALESCE(p_courier, '')) = '' THEN
+        RAISE EXCEPTION 'A payout needs the courier who made it';
+    END IF;
+    IF COALESCE(array_length(p_delivery_ids, 1), 0) = 0 THEN
+        RAISE EXCEPTION 'A payout must settle at least one delivery';
+    END IF;
+    IF p_amount < 0 THEN
+        RAISE EXCEPTION 'The amount received cannot be negative';
+    END IF;
+
+    FOR v_id IN SELECT DISTINCT unnest(p_delivery_ids) ORDER BY 1 LOOP
+        SELECT * INTO v_delivery FROM public.deliveries WHERE id = v_id FOR UPDATE;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Delivery % not found', v_id;
+        END IF;
+        PERFORM 1 FROM public.sales WHERE id = v_delivery.sale_id AND payment_status = 'awaiting_cod' FOR UPDATE;
+        IF NOT FOUND OR v_delivery.status <> 'delivered' THEN
+            RAISE EXCEPTION 'Delivery % has no cash awaiting payment', v_id;
+        END IF;
+        v_cod_total := v_cod_total + v_delivery.cod_amount;
+    END LOOP;
+    IF p_amount > v_cod_total THEN
+        RAISE EXCEPTION 'The amount received cannot exceed what the deliveries collected';
+    END IF;
+
+    INSERT INTO public.cod_remittances (courier, reference, amount, cod_total, paid_at, notes, owner_id)
+    VALUES (btrim(p_courier), NULLIF(btrim(p_reference), ''), p_amount, v_cod_total, COALESCE(p_paid_at, now()), p_notes, auth.uid())
+    RETURNING * INTO v_remittance;
+
+    WITH paid AS (
+        UPDATE public.sales SET payment_status = 'paid', remittance_id = v_remittance.id
+        WHERE id IN (SELECT sale_id FROM public.deliveries WHERE id = ANY(p_delivery_ids))
+        RETURNING *
+    )
+    SELECT COALESCE(json_agg(row_to_json(paid)), '[]'::json) INTO v_sales FROM paid;
+
+    RETURN json_build_object('remittance', row_to_json(v_remittance), 'sales', v_sales);
+END;
+$$;
+
+-- A payout entered by mistake: its sales await the courier again
+CREATE OR REPLACE FUNCTION public.delete_cod_remittance(p_remittance_id bigint)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_sales json;
+BEGIN
+    PERFORM 1 FROM public.cod_remittances WHERE id = p_remittance_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payout % not found', p_remittance_id;
+    END IF;
+
+    WITH unpaid AS (
+        UPDATE public.sales SET payment_status = 'awaiting_cod', remittance_id = NULL
+        WHERE remittance_id = p_remittance_id
+        RETURNING *
+    )
+    SELECT COALESCE(json_agg(row_to_json(unpaid)), '[]'::json) INTO v_sales FROM unpaid;
+    DELETE FROM public.cod_remittances WHERE id = p_remittance_id;
+
+    RETURN json_build_object('sales', v_sales);
+END;
+$$;
+
+-- Units sent out before the deliveries table were rows of their own, with the status 'en livraison'.
+-- Each becomes a pending delivery of the product it was split from, and the row goes, its sales and
+-- movements moving over to that product. A row that was the whole product stays, out of stock.
+DO $$
+DECLARE
+    v_row public.products;
+    v_original_id bigint;
+BEGIN
+    FOR v_row IN SELECT * FROM public.products WHERE status = 'en livraison' ORDER BY id LOOP
+        IF v_row.variant_id IS NOT NULL THEN
+            SELECT product_id INTO v_original_id FROM public.product_variants WHERE id = v_row.variant_id;
+        ELSE
+            SELECT p.id INTO v_original_id FROM public.products p
+            WHERE p.id <> v_row.id AND p.owner_id = v_row.owner_id AND p.status <> 'en livraison'
+              AND p.name = v_row.name AND p.category IS NOT DISTINCT FROM v_row.category AND p.supplier IS NOT DISTINCT FROM v_row.supplier
+              AND NOT EXISTS (SELECT 1 FROM public.product_variants v WHERE v.product_id = p.id)
+            ORDER BY p.id
+            LIMIT 1;
+        END IF;
+
+        INSERT INTO public.deliveries (
+            product_id, productname, variant_id, variantname, quantity, unit_price, unit_cost, customer_id, cod_amount, created_at, owner_id
+        ) VALUES (
+            COALESCE(v_original_id, v_row.id), v_row.name, v_row.variant_id,
+            (SELECT string_agg(o->>'value', ' / ' ORDER BY i) FROM public.product_variants v, jsonb_array_elements(v.options) WITH ORDINALITY AS t(o, i) WHERE v.id = v_row.variant_id),
+            GREATEST(v_row.stock, 1), v_row.sellprice, v_row.buyprice, v_row.customer_id, v_row.sellprice * GREATEST(v_row.stock, 1),
+            v_row.created_at, v_row.owner_id
+        );
+
+        IF v_original_id IS NOT NULL THEN
+            UPDATE public.sales SET product_id = v_original_id WHERE product_id = v_row.id;
+            UPDATE public.sale_returns SET product_id = v_original_id WHERE product_id = v_row.id;
+            UPDATE public.stock_movements SET product_id = v_original_id WHERE product_id = v_row.id;
+            UPDATE public.activity_log SET product_id = v_original_id WHERE product_id = v_row.id;
+            DELETE FROM public.products WHERE id = v_row.id;
+        ELSE
+            UPDATE public.products SET stock = 0, status = 'rupture', variant_id = NULL, customer_id = NULL WHERE id = v_row.id;
+        END IF;
+    END LOOP;
+END;
+$$;
+
+-- =============================================
+-- 5. REALTIME
+-- Broadcasts changes so every open device stays in sync.
+-- =============================================
+
+DO $$
+DECLARE
+    t text;
+BEGIN
+    FOREACH t IN ARRAY ARRAY['products', 'product_variants', 'sales', 'activity_log', 'purchase_orders', 'purchase_order_lines', 'suppliers', 'customers', 'sale_returns', 'stock_movements', 'price_changes', 'inventory_counts', 'inventory_count_lines', 'stock_locations', 'stock_levels', 'stock_transfers', 'deliveries', 'cod_remittances', 'promotions', 'tax_rates', 'landed_costs', 'cost_layers', 'stock_lots'] LOOP
+        IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t) THEN
+            EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+        END IF;
+    END LOOP;
+END;
+$$;
 `;
 
 type Tab = 'general' | 'account' | 'developer';
 
 const Settings: React.FC = () => {
-  const { theme, setTheme, language, setLanguage, t, logout, session, saveSupabaseCredentials, saveGeminiApiKey, testSupabaseConnection } = useAppContext();
+  const { theme, setTheme, language, setLanguage, currency, setCurrency, costingMethod, setCostingMethod, t, logout, session, saveSupabaseCredentials, saveGeminiApiKey, testSupabaseConnection } = useAppContext();
   const [activeTab, setActiveTab] = useState<Tab>('general');
   const [supabaseUrl, setSupabaseUrl] = useState('');
   const [supabaseAnonKey, setSupabaseAnonKey] = useState('');
@@ -142,6 +2770,8 @@ const Settings: React.FC = () => {
 
   const handleThemeChange = (newTheme: Theme) => setTheme(newTheme);
   const handleLanguageChange = (e: React.ChangeEvent<HTMLSelectElement>) => setLanguage(e.target.value as Language);
+  const handleCurrencyChange = (e: React.ChangeEvent<HTMLSelectElement>) => setCurrency(e.target.value);
+  const handleCostingMethodChange = (e: React.ChangeEvent<HTMLSelectElement>) => setCostingMethod(e.target.value as CostingMethod);
 
   const handleSupabaseSave = () => {
     setSupabaseError('');
@@ -243,6 +2873,27 @@ const Settings: React.FC = () => {
                                     </select>
                                 </div>
                             </div>
+                            <div className="bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 p-4 sm:p-6 rounded-xl">
+                                <h3 className="text-lg font-semibold mb-4 border-b pb-2 border-slate-200 dark:border-slate-700 flex items-center"><DollarSignIcon className="w-5 h-5 me-2"/> {t('settings.currency_title')}</h3>
+                                <div className="flex items-center justify-between">
+                                    <p className="text-slate-700 dark:text-slate-300">{t('settings.currency_select')}</p>
+                                    <select value={currency} onChange={handleCurrencyChange} className="bg-slate-100 dark:bg-slate-900/50 border border-slate-300 dark:border-slate-700 rounded-lg p-2 text-slate-900 dark:text-white focus:ring-brand focus:border-brand">
+                                        {CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+                                    </select>
+                                </div>
+                                <p className="text-sm text-slate-500 dark:text-slate-400 mt-2">{t('settings.currency_hint')}</p>
+                            </div>
+                            <div className="bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 p-4 sm:p-6 rounded-xl">
+                                <h3 className="text-lg font-semibold mb-4 border-b pb-2 border-slate-200 dark:border-slate-700 flex items-center"><CostLayersIcon className="w-5 h-5 me-2"/> {t('settings.costing_title')}</h3>
+                                <div className="flex items-center justify-between">
+                                    <p className="text-slate-700 dark:text-slate-300">{t('settings.costing_select')}</p>
+                                    <select value={costingMethod} onChange={handleCostingMethodChange} className="bg-slate-100 dark:bg-slate-900/50 border border-slate-300 dark:border-slate-700 rounded-lg p-2 text-slate-900 dark:text-white focus:ring-brand focus:border-brand">
+                                        {COSTING_METHODS.map(method => <option key={method} value={method}>{t(`settings.costing.${method}`)}</option>)}
+                                    </select>
+                                </div>
+                                <p className="text-sm text-slate-500 dark:text-slate-400 mt-2">{t('settings.costing_hint')}</p>
+                            </div>
+                            <TaxRatesSettings />
                         </div>
                     )}
                     {activeTab === 'account' && (
@@ -312,6 +2963,7 @@ const Settings: React.FC = () => {
                                     {testState === 'error' && testResult && <motion.div className="mt-4 p-3 bg-red-500/10 text-red-700 dark:text-red-300 rounded-lg flex items-start text-sm" initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0 }}><AlertCircleIcon className="w-5 h-5 me-2 flex-shrink-0 mt-0.5" /><div>{!testResult.dbOk && <p>{t('settings.setup.test_error_db')}</p>}{!testResult.storageOk && <p className="mt-1">{t('settings.setup.test_error_storage')}</p>}<p className="mt-2 text-xs italic opacity-70">{testResult.error}</p></div></motion.div>}
                                 </AnimatePresence>
                             </div>
+                            <MockCourierPanel />
                         </div>
                     )}
                 </motion.div>
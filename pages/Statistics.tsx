@@ -5,6 +5,9 @@ import type { Language } from '../types';
 import StatCard from '../components/StatCard';
 import { DollarSignIcon, PiggyBankIcon, ShoppingCartIcon, ArchiveIcon, TrendingUpIcon, LoaderIcon } from '../components/Icons';
 import { motion } from 'framer-motion';
+import { salesEntries } from '../services/returns';
+import { PAYMENT_METHODS, revenueByMethod } from '../services/payments';
+import { taxSummary } from '../services/taxes';
 
 const COLORS = ['#06b6d4', '#8884d8', '#82ca9d', '#ffc658', '#ff8042', '#a4de6c', '#d0ed57', '#ffc0cb'];
 const localeMap: Record<Language, string> = {
@@ -15,8 +18,27 @@ const localeMap: Record<Language, string> = {
 
 type TimeRange = '7d' | '30d' | '1y' | 'all';
 
+const rangeStart = (timeRange: TimeRange): Date | null => {
+    if (timeRange === 'all') return null;
+    const now = new Date();
+    const startDate = new Date();
+    switch (timeRange) {
+        case '7d':
+            startDate.setDate(now.getDate() - 7);
+            break;
+        case '30d':
+            startDate.setDate(now.getDate() - 30);
+            break;
+        case '1y':
+            startDate.setFullYear(now.getFullYear() - 1);
+            break;
+    }
+    startDate.setHours(0,0,0,0);
+    return startDate;
+};
+
 const Statistics: React.FC = () => {
-    const { products, sales, t, language, theme, isLoading } = useAppContext();
+    const { products, sales, saleReturns, t, language, formatCurrency, theme, isLoading } = useAppContext();
     const [timeRange, setTimeRange] = useState<TimeRange>('30d');
     const locale = localeMap[language];
 
@@ -29,41 +51,27 @@ const Statistics: React.FC = () => {
     }
 
     const filteredSales = useMemo(() => {
-        const now = new Date();
-        
-        const validSales = sales.filter(s => {
+        // Returns count as negative sales, so every total below is net of them
+        const validSales = salesEntries(sales, saleReturns).filter(s => {
             if (!s.createdAt) return false;
             const d = new Date(s.createdAt);
             return d instanceof Date && !isNaN(d.getTime());
         });
 
-        if (timeRange === 'all') {
+        const startDate = rangeStart(timeRange);
+        if (!startDate) {
             return validSales;
         }
 
-        let startDate = new Date();
-        switch (timeRange) {
-            case '7d':
-                startDate.setDate(now.getDate() - 7);
-                break;
-            case '30d':
-                startDate.setDate(now.getDate() - 30);
-                break;
-            case '1y':
-                startDate.setFullYear(now.getFullYear() - 1);
-                break;
-        }
-        startDate.setHours(0,0,0,0);
-        
         return validSales.filter(s => new Date(s.createdAt) >= startDate);
 
-    }, [sales, timeRange]);
+    }, [sales, saleReturns, timeRange]);
 
     const stats = useMemo(() => {
         const totalRevenue = filteredSales.reduce((acc, s) => acc + s.totalPrice, 0);
         const totalProfit = filteredSales.reduce((acc, s) => acc + (s.totalMargin || 0), 0);
         const unitsSold = filteredSales.reduce((acc, s) => acc + s.quantity, 0);
-        const totalOrders = filteredSales.length;
+        const totalOrders = filteredSales.filter(s => !s.isReturn).length;
         const avgOrderValue = totalOrders > 0 ? totalRevenue / totalOrders : 0;
 
         return { totalRevenue, totalProfit, unitsSold, totalOrders, avgOrderValue };
@@ -115,6 +123,20 @@ const Statistics: React.FC = () => {
             .slice(0, 5);
     }, [filteredSales]);
 
+    // What each method brought in, refunds taken off like in the revenue; sales made before methods were recorded are left out
+    const revenueByMethodData = useMemo(() => {
+        const totals = revenueByMethod(sales, saleReturns, rangeStart(timeRange));
+        return PAYMENT_METHODS
+            .filter(method => totals[method] > 0)
+            .map(method => ({ name: t(`payments.method.${method}`), value: Math.round(totals[method] * 100) / 100 }));
+    }, [sales, saleReturns, timeRange, t]);
+
+    // For the accountant: the TVA collected at each rate over the period, refunds taken off
+    const taxSummaryRows = useMemo(() => taxSummary(sales, saleReturns, rangeStart(timeRange)), [sales, saleReturns, timeRange]);
+    const taxTotals = taxSummaryRows.reduce((sum, row) => ({
+        net: sum.net + row.net, tax: sum.tax + row.tax, gross: sum.gross + row.gross, sales: sum.sales + row.sales,
+    }), { net: 0, tax: 0, gross: 0, sales: 0 });
+
     const stockByCategoryData = useMemo(() => {
         const stockByCategory = products.reduce<Record<string, number>>((acc, p) => {
             if (!p.category) return acc;
@@ -169,11 +191,11 @@ const Statistics: React.FC = () => {
             </div>
             
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
-                <StatCard icon={DollarSignIcon} title={t('dashboard.sales_revenue')} value={stats.totalRevenue.toLocaleString(locale, { style: 'currency', currency: 'DZD', minimumFractionDigits: 0, maximumFractionDigits: 0 })} />
-                <StatCard icon={PiggyBankIcon} title={t('dashboard.sales_profit')} value={stats.totalProfit.toLocaleString(locale, { style: 'currency', currency: 'DZD', minimumFractionDigits: 0, maximumFractionDigits: 0 })} />
+                <StatCard icon={DollarSignIcon} title={t('dashboard.sales_revenue')} value={formatCurrency(stats.totalRevenue, { minimumFractionDigits: 0, maximumFractionDigits: 0 })} />
+                <StatCard icon={PiggyBankIcon} title={t('dashboard.sales_profit')} value={formatCurrency(stats.totalProfit, { minimumFractionDigits: 0, maximumFractionDigits: 0 })} />
                 <StatCard icon={ShoppingCartIcon} title={t('dashboard.units_sold')} value={stats.unitsSold.toLocaleString(locale)} />
                 <StatCard icon={ArchiveIcon} title={t('statistics.total_orders')} value={stats.totalOrders.toLocaleString(locale)} />
-                <StatCard icon={TrendingUpIcon} title={t('statistics.avg_order_value')} value={stats.avgOrderValue.toLocaleString(locale, { style: 'currency', currency: 'DZD', minimumFractionDigits: 0, maximumFractionDigits: 0 })} />
+                <StatCard icon={TrendingUpIcon} title={t('statistics.avg_order_value')} value={formatCurrency(stats.avgOrderValue, { minimumFractionDigits: 0, maximumFractionDigits: 0 })} />
             </div>
 
             <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
@@ -186,7 +208,7 @@ const Statistics: React.FC = () => {
                             <YAxis tick={{ fill: theme === 'dark' ? '#94a3b8' : '#64748b' }} tickFormatter={(value: number) => `${value.toLocaleString(locale)}`} />
                             <Tooltip
                                 cursor={{ fill: 'rgba(34,211,238,0.1)' }}
-                                content={<CustomTooltip formatter={(value: number) => value.toLocaleString(locale, { style: 'currency', currency: 'DZD' })} />}
+                                content={<CustomTooltip formatter={(value: number) => formatCurrency(value)} />}
                             />
                             <Bar dataKey="revenue" name={t('statistics.chart.revenue')} fill="#06b6d4" barSize={20} />
                         </BarChart>
@@ -201,7 +223,7 @@ const Statistics: React.FC = () => {
                             <YAxis type="category" dataKey="name" tick={{ fill: theme === 'dark' ? '#94a3b8' : '#64748b' }} fontSize={12} width={100} tickFormatter={value => value.length > 15 ? `${value.substring(0, 15)}...` : value} />
                             <Tooltip
                                 cursor={{ fill: 'rgba(136, 132, 216, 0.1)' }}
-                                content={<CustomTooltip formatter={(value: number) => value.toLocaleString(locale, { style: 'currency', currency: 'DZD' })} />}
+                                content={<CustomTooltip formatter={(value: number) => formatCurrency(value)} />}
                             />
                             <Bar dataKey="revenue" name={t('statistics.chart.revenue')} fill="#8884d8" barSize={15} />
                         </BarChart>
@@ -209,19 +231,79 @@ const Statistics: React.FC = () => {
                 </div>
             </div>
 
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 p-6 rounded-2xl">
+                    <h3 className="text-lg font-semibold mb-4">{t('statistics.revenue_by_payment_method')}</h3>
+                    {revenueByMethodData.length === 0 ? (
+                        <p className="h-[300px] flex items-center justify-center text-sm text-slate-500 dark:text-slate-400">{t('statistics.no_payment_methods')}</p>
+                    ) : (
+                        <ResponsiveContainer width="100%" height={300}>
+                            <PieChart>
+                                <Pie data={revenueByMethodData} dataKey="value" nameKey="name" cx="50%" cy="50%" outerRadius={100} fill="#06b6d4">
+                                    {revenueByMethodData.map((entry, index) => (
+                                        <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                                    ))}
+                                </Pie>
+                                <Tooltip formatter={(value: number) => formatCurrency(value)} contentStyle={{ backgroundColor: theme === 'dark' ? 'rgba(30, 41, 59, 0.8)' : 'rgba(255,255,255,0.8)', border: `1px solid ${theme === 'dark' ? '#cbd5e1' : '#e2e8f0'}`}}/>
+                                <Legend />
+                            </PieChart>
+                        </ResponsiveContainer>
+                    )}
+                </div>
+                <div className="bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 p-6 rounded-2xl">
+                    <h3 className="text-lg font-semibold mb-4">{t('dashboard.stock_by_category_chart_title')}</h3>
+                    <ResponsiveContainer width="100%" height={300}>
+                        <PieChart>
+                            <Pie data={stockByCategoryData} dataKey="value" nameKey="name" cx="50%" cy="50%" outerRadius={100} fill="#8884d8">
+                                {stockByCategoryData.map((entry, index) => (
+                                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                                ))}
+                            </Pie>
+                            <Tooltip formatter={(value: number) => `${value.toLocaleString(locale)} ${t('dashboard.chart.units')}`} contentStyle={{ backgroundColor: theme === 'dark' ? 'rgba(30, 41, 59, 0.8)' : 'rgba(255,255,255,0.8)', border: `1px solid ${theme === 'dark' ? '#cbd5e1' : '#e2e8f0'}`}}/>
+                            <Legend />
+                        </PieChart>
+                    </ResponsiveContainer>
+                </div>
+            </div>
+
             <div className="bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 p-6 rounded-2xl">
-                <h3 className="text-lg font-semibold mb-4">{t('dashboard.stock_by_category_chart_title')}</h3>
-                <ResponsiveContainer width="100%" height={300}>
-                    <PieChart>
-                        <Pie data={stockByCategoryData} dataKey="value" nameKey="name" cx="50%" cy="50%" outerRadius={100} fill="#8884d8">
-                            {stockByCategoryData.map((entry, index) => (
-                                <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                            ))}
-                        </Pie>
-                        <Tooltip formatter={(value: number) => `${value.toLocaleString(locale)} ${t('dashboard.chart.units')}`} contentStyle={{ backgroundColor: theme === 'dark' ? 'rgba(30, 41, 59, 0.8)' : 'rgba(255,255,255,0.8)', border: `1px solid ${theme === 'dark' ? '#cbd5e1' : '#e2e8f0'}`}}/>
-                        <Legend />
-                    </PieChart>
-                </ResponsiveContainer>
+                <h3 className="text-lg font-semibold mb-1">{t('taxes.summary.title')}</h3>
+                <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">{t('taxes.summary.subtitle')}</p>
+                {taxSummaryRows.length === 0 ? (
+                    <p className="py-6 text-center text-sm text-slate-500 dark:text-slate-400">{t('taxes.summary.empty')}</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-left rtl:text-right text-slate-600 dark:text-slate-400">
+                            <thead className="text-xs text-slate-700 uppercase bg-slate-50 dark:bg-slate-900/50 dark:text-slate-300">
+                                <tr>
+                                    {['rate', 'sales', 'net', 'tax', 'gross'].map(header => (
+                                        <th key={header} scope="col" className="px-4 py-3">{t(`taxes.summary.${header}`)}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {taxSummaryRows.map(row => (
+                                    <tr key={row.taxRate} className="border-b border-slate-200 dark:border-slate-700">
+                                        <td className="px-4 py-3 font-medium text-slate-900 dark:text-white">{row.taxRate.toLocaleString(locale)} %</td>
+                                        <td className="px-4 py-3">{row.sales}</td>
+                                        <td className="px-4 py-3">{formatCurrency(row.net)}</td>
+                                        <td className="px-4 py-3">{formatCurrency(row.tax)}</td>
+                                        <td className="px-4 py-3">{formatCurrency(row.gross)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                            <tfoot>
+                                <tr className="font-semibold text-slate-900 dark:text-white">
+                                    <td className="px-4 py-3">{t('taxes.summary.total')}</td>
+                                    <td className="px-4 py-3">{taxTotals.sales}</td>
+                                    <td className="px-4 py-3">{formatCurrency(taxTotals.net)}</td>
+                                    <td className="px-4 py-3">{formatCurrency(taxTotals.tax)}</td>
+                                    <td className="px-4 py-3">{formatCurrency(taxTotals.gross)}</td>
+                                </tr>
+                            </tfoot>
+                        </table>
+                    </div>
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,119 @@
+import React, { useState, useMemo } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { SuppliersIcon, AddIcon, EditIcon, DeleteIcon } from '../components/Icons';
+import type { Supplier, SupplierFormData } from '../types';
+import { motion } from 'framer-motion';
+import ConfirmationModal from '../components/ConfirmationModal';
+import SupplierForm from '../components/SupplierForm';
+import { supplierStats } from '../services/suppliers';
+
+const Suppliers: React.FC = () => {
+    const { suppliers, products, sales, purchaseOrders, addSupplier, updateSupplier, deleteSupplier, t, formatCurrency } = useAppContext();
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [supplierToEdit, setSupplierToEdit] = useState<Supplier | null>(null);
+    const [supplierToDelete, setSupplierToDelete] = useState<Supplier | null>(null);
+
+    const stats = useMemo(
+        () => new Map(suppliers.map(s => [s.id, supplierStats(s.id, products, sales, purchaseOrders)])),
+        [suppliers, products, sales, purchaseOrders]
+    );
+
+    const handleOpenForm = (supplier: Supplier | null) => {
+        setSupplierToEdit(supplier);
+        setIsFormOpen(true);
+    };
+
+    const handleSave = async (supplierData: SupplierFormData) => {
+        const saved = supplierToEdit ? await updateSupplier(supplierToEdit, supplierData) : await addSupplier(supplierData);
+        if (saved) setIsFormOpen(false);
+    };
+
+    const newSupplierButton = (
+        <motion.button
+            onClick={() => handleOpenForm(null)}
+            className="flex items-center text-white bg-gradient-to-r from-cyan-400 to-blue-500 font-semibold rounded-lg px-4 py-2"
+            whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}
+        >
+            <AddIcon className="w-5 h-5 me-2" />{t('suppliers.new_button')}
+        </motion.button>
+    );
+
+    const tableHeaders = ['name', 'contact', 'lead_time', 'products', 'stock_value', 'spend', 'revenue', 'margin', 'actions'];
+
+    return (
+        <div>
+            <div className="flex flex-col sm:flex-row justify-between items-center gap-4 mb-6">
+                <h2 className="text-2xl font-bold text-slate-900 dark:text-white">{t('suppliers.title')}</h2>
+                {suppliers.length > 0 && newSupplierButton}
+            </div>
+
+            {suppliers.length === 0 ? (
+                <div className="text-center py-10">
+                    <SuppliersIcon className="w-16 h-16 mx-auto text-slate-400 dark:text-slate-500 mb-4" />
+                    <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-2">{t('suppliers.empty.title')}</h2>
+                    <p className="text-slate-600 dark:text-slate-400 mb-6">{t('suppliers.empty.subtitle')}</p>
+                    <div className="flex justify-center">{newSupplierButton}</div>
+                </div>
+            ) : (
+                <div className="bg-white/70 dark:bg-slate-800/50 backdrop-blur-lg border border-slate-200 dark:border-slate-700 rounded-2xl overflow-hidden">
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-left rtl:text-right text-slate-600 dark:text-slate-400">
+                            <thead className="text-xs text-slate-700 uppercase bg-slate-50 dark:bg-slate-900/50 dark:text-slate-300">
+                                <tr>
+                                    {tableHeaders.map(header => (
+                                        <th key={header} scope="col" className="px-4 py-3">{t(`suppliers.table.${header}`)}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {suppliers.map(supplier => {
+                                    const supplierStat = stats.get(supplier.id)!;
+                                    return (
+                                        <tr key={supplier.id} className="border-b border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800/60">
+                                            <td className="px-4 py-3 font-medium text-slate-900 dark:text-white">
+                                                {supplier.name}
+                                                {supplier.paymentTerms && <span className="block text-xs font-normal text-slate-500 dark:text-slate-400">{supplier.paymentTerms}</span>}
+                                            </td>
+                                            <td className="px-4 py-3">
+                                                {supplier.contactName && <span className="block text-slate-900 dark:text-white">{supplier.contactName}</span>}
+                                                {supplier.phone && <a href={`tel:${supplier.phone}`} className="block hover:underline">{supplier.phone}</a>}
+                                                {supplier.email && <a href={`mailto:${supplier.email}`} className="block hover:underline">{supplier.email}</a>}
+                                            </td>
+                                            <td className="px-4 py-3 whitespace-nowrap">{supplier.leadTimeDays !== undefined ? t('suppliers.lead_time_value', { days: supplier.leadTimeDays }) : '—'}</td>
+                                            <td className="px-4 py-3">{supplierStat.productCount}</td>
+                                            <td className="px-4 py-3 whitespace-nowrap">{formatCurrency(supplierStat.stockValue)}</td>
+                                            <td className="px-4 py-3 whitespace-nowrap">{formatCurrency(supplierStat.spend)}</td>
+                                            <td className="px-4 py-3 whitespace-nowrap">{formatCurrency(supplierStat.revenue)}</td>
+                                            <td className="px-4 py-3 whitespace-nowrap text-green-600 dark:text-green-400 font-semibold">{formatCurrency(supplierStat.margin)}</td>
+                                            <td className="px-4 py-3">
+                                                <div className="flex items-center space-x-2">
+                                                    <motion.button onClick={() => handleOpenForm(supplier)} className="p-2 rounded-md transition-colors bg-blue-500/10 hover:bg-blue-500/20 text-blue-500" title={t('suppliers.edit')} whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}>
+                                                        <EditIcon className="w-5 h-5" />
+                                                    </motion.button>
+                                                    <motion.button onClick={() => setSupplierToDelete(supplier)} className="p-2 rounded-md transition-colors bg-red-500/10 hover:bg-red-500/20 text-red-500" title={t('delete')} whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}>
+                                                        <DeleteIcon className="w-5 h-5" />
+                                                    </motion.button>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            <SupplierForm isOpen={isFormOpen} onClose={() => setIsFormOpen(false)} onSave={handleSave} supplier={supplierToEdit} />
+            <ConfirmationModal
+                isOpen={!!supplierToDelete}
+                onClose={() => setSupplierToDelete(null)}
+                onConfirm={async () => { if (supplierToDelete) await deleteSupplier(supplierToDelete.id); }}
+                title={t('suppliers.confirm_delete_title')}
+                message={t('suppliers.confirm_delete', { name: supplierToDelete?.name || '' })}
+            />
+        </div>
+    );
+};
+
+export default Suppliers;
@@ -0,0 +1,48 @@
+import type { BarcodeFormat } from 'barcode-detector/ponyfill';
+
+// Decodes barcodes on the device with the browser's Shape Detection API, so no frame leaves the phone.
+// Browsers without it (Safari on iPhone, Firefox) get the same API from a WebAssembly build of ZXing,
+// loaded on first use. TypeScript's DOM library does not declare the native one yet.
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement | HTMLCanvasElement | ImageBitmap) => Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: BarcodeFormat[] }): BarcodeDetectorInstance;
+  getSupportedFormats: () => Promise<readonly string[]>;
+}
+
+const FORMATS: BarcodeFormat[] = ['ean_13', 'ean_8', 'upc_a', 'upc_e', 'code_128', 'qr_code'];
+
+// Retail codes printed on packaging, as opposed to internal labels (Code 128, QR) that usually carry a SKU
+const RETAIL_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e'];
+
+const getNativeDetectorClass = (): BarcodeDetectorConstructor | undefined =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+const getDetectorClass = async (): Promise<BarcodeDetectorConstructor> =>
+  getNativeDetectorClass() ?? (await import('barcode-detector/ponyfill')).BarcodeDetector;
+
+export interface ScannedCode {
+  value: string;
+  isRetailBarcode: boolean;
+}
+
+export const barcodeScanner = {
+  /** Returns a function that reads the first code visible in a video frame, or null when there is none. */
+  create: async (): Promise<(video: HTMLVideoElement) => Promise<ScannedCode | null>> => {
+    const Detector = await getDetectorClass();
+    const supported = await Detector.getSupportedFormats();
+    const detector = new Detector({ formats: FORMATS.filter(format => supported.includes(format)) });
+
+    return async video => {
+      const [code] = await detector.detect(video);
+      return code ? { value: code.rawValue.trim(), isRetailBarcode: RETAIL_FORMATS.includes(code.format) } : null;
+    };
+  },
+};
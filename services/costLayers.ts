@@ -0,0 +1,94 @@
+import type { CostLayer, CostingMethod, Product } from '../types';
+import type { RecordChange } from './repository';
+
+export const COSTING_METHODS: CostingMethod[] = ['fifo', 'average'];
+
+export const DEFAULT_COSTING_METHOD: CostingMethod = 'fifo';
+
+const round = (amount: number, decimals: number) => Math.round(amount * 10 ** decimals) / 10 ** decimals;
+
+const oldestFirst = (a: CostLayer, b: CostLayer) =>
+  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() || a.id - b.id;
+
+/** The layers of a product without variants, or of one of its variants, oldest first. */
+export const layersOf = (product: Product, variantId?: number): CostLayer[] =>
+  (product.costLayers || []).filter(l => l.variantId === variantId).sort(oldestFirst);
+
+/**
+ * What `quantity` units taken out of the layers cost, and the layers left, as the consume_cost_layers SQL function does.
+ * FIFO takes the oldest units at their own cost; the average method takes every unit at the average of the units in stock,
+ * which the layers left all carry from then on. Units beyond the layers cost `fallbackCost`.
+ */
+export const consumeCostLayers = (layers: CostLayer[], quantity: number, method: CostingMethod, fallbackCost: number) => {
+  const sorted = [...layers].sort(oldestFirst);
+  const layered = sorted.reduce((sum, l) => sum + l.remaining, 0);
+  const average = layered > 0 ? sorted.reduce((sum, l) => sum + l.remaining * l.unitCost, 0) / layered : 0;
+  let left = quantity;
+  let cost = 0;
+  const remaining: CostLayer[] = [];
+  for (const layer of sorted) {
+    const taken = Math.min(layer.remaining, left);
+    left -= taken;
+    cost += taken * (method === 'fifo' ? layer.unitCost : average);
+    if (layer.remaining > taken) {
+      remaining.push({ ...layer, remaining: layer.remaining - taken, unitCost: method === 'fifo' ? layer.unitCost : round(average, 4) });
+    }
+  }
+  cost += left * fallbackCost;
+  return { cost: round(cost, 2), layers: remaining };
+};
+
+/** What the units in stock cost: the newest `stock` units of the layers, and any units beyond them at `fallbackCost`. */
+export const stockCost = (layers: CostLayer[], stock: number, fallbackCost: number) => {
+  const sorted = [...layers].sort(oldestFirst);
+  let excess = sorted.reduce((sum, l) => sum + l.remaining, 0) - stock;
+  let cost = 0;
+  for (const layer of sorted) {
+    const cut = Math.min(layer.remaining, Math.max(0, excess));
+    excess -= cut;
+    cost += (layer.remaining - cut) * layer.unitCost;
+  }
+  return round(cost + Math.max(0, -excess) * fallbackCost, 2);
+};
+
+/**
+ * Adds the extra cost of `quantity` units, `amount` for all of them, to the layers those units are still in:
+ * the ones received on the purchase order when given, otherwise the newest. Units already sold keep the cost they left at.
+ * A layer holding more units than are left to raise takes a share of the extra cost in proportion.
+ */
+export const raiseCostLayers = (layers: CostLayer[], quantity: number, amount: number, purchaseOrderId?: number): CostLayer[] => {
+  const perUnit = quantity > 0 ? amount / quantity : 0;
+  let left = quantity;
+  const raised = new Map<number, number>();
+  for (const layer of [...layers].sort(oldestFirst).reverse()) {
+    if (left <= 0) break;
+    if (purchaseOrderId !== undefined && layer.purchaseOrderId !== purchaseOrderId) continue;
+    const units = Math.min(layer.remaining, left);
+    left -= units;
+    raised.set(layer.id, round(layer.unitCost + perUnit * units / layer.remaining, 4));
+  }
+  return layers.map(l => raised.has(l.id) ? { ...l, unitCost: raised.get(l.id)! } : l);
+};
+
+// Product rows streamed by realtime come without their cost layers, so the ones already known are kept.
+export const keepCostLayers = (products: Product[], change: RecordChange<Product>): RecordChange<Product> => {
+  if (change.type === 'delete' || change.record.costLayers) return change;
+  const costLayers = products.find(p => p.id === change.record.id)?.costLayers;
+  return costLayers ? { ...change, record: { ...change.record, costLayers } } : change;
+};
+
+// Like variants, layers stream in separately from their products and are merged into the product they belong to.
+export const applyCostLayerChange = (products: Product[], change: RecordChange<CostLayer>): Product[] => {
+  if (change.type === 'delete') {
+    return products.map(p => p.costLayers?.some(l => l.id === change.id) ? { ...p, costLayers: p.costLayers.filter(l => l.id !== change.id) } : p);
+  }
+  const { record } = change;
+  return products.map(p => {
+    if (p.id !== record.productId) return p;
+    const costLayers = p.costLayers || [];
+    return {
+      ...p,
+      costLayers: costLayers.some(l => l.id === record.id) ? costLayers.map(l => l.id === record.id ? record : l) : [...costLayers, record],
+    };
+  });
+};
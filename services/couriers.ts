@@ -0,0 +1,48 @@
+import type { CourierRemittance, Customer, Delivery, ShipmentStatusReport } from '../types';
+import { isOpenDelivery } from './deliveries';
+import { mockCourier } from './mockCourier';
+
+// What the carrier needs to pick up a parcel and collect its cash
+export interface ShipmentRequest {
+  reference: string; // Our delivery id, printed on the label
+  description: string;
+  recipientName?: string;
+  phone?: string;
+  address?: string;
+  wilaya?: string;
+  codAmount: number;
+}
+
+// A carrier the shop hands parcels to, such as Yalidine or ZR Express
+export interface CourierAdapter {
+  name: string;
+  createShipment: (shipment: ShipmentRequest) => Promise<{ trackingNumber: string }>;
+  // Only parcels the carrier knows are reported
+  fetchStatuses: (trackingNumbers: string[]) => Promise<ShipmentStatusReport[]>;
+  // Payments made since the given date, or all of them
+  fetchRemittances: (since?: string) => Promise<CourierRemittance[]>;
+}
+
+export const courierAdapters: CourierAdapter[] = [mockCourier];
+
+// Deliveries name their courier as free text, so "  zr express" and "ZR Express" are the same courier
+export const courierKey = (courier?: string) => courier?.trim().replace(/\s+/g, ' ').toLowerCase() || '';
+
+export const findCourierAdapter = (courier?: string): CourierAdapter | undefined => {
+  const name = courierKey(courier);
+  return name ? courierAdapters.find(a => a.name.toLowerCase() === name) : undefined;
+};
+
+// Open deliveries whose carrier can be asked where they are
+export const isTrackedDelivery = (delivery: Delivery) =>
+  isOpenDelivery(delivery) && !!delivery.trackingNumber && !!findCourierAdapter(delivery.courier);
+
+export const shipmentRequest = (delivery: Delivery, customer?: Customer): ShipmentRequest => ({
+  reference: String(delivery.id),
+  description: delivery.variantName ? `${delivery.productName} (${delivery.variantName}) × ${delivery.quantity}` : `${delivery.productName} × ${delivery.quantity}`,
+  recipientName: customer?.name,
+  phone: customer?.phone,
+  address: delivery.address || customer?.address,
+  wilaya: delivery.wilaya || customer?.wilaya,
+  codAmount: delivery.codAmount,
+});
@@ -0,0 +1,44 @@
+import type { Customer, Delivery, Sale } from '../types';
+import { isOpenDelivery } from './deliveries';
+
+// The 58 wilayas, in the order of their official codes (Adrar is 01)
+export const WILAYAS = [
+  'Adrar', 'Chlef', 'Laghouat', 'Oum El Bouaghi', 'Batna', 'Béjaïa', 'Biskra', 'Béchar', 'Blida', 'Bouira',
+  'Tamanrasset', 'Tébessa', 'Tlemcen', 'Tiaret', 'Tizi Ouzou', 'Alger', 'Djelfa', 'Jijel', 'Sétif', 'Saïda',
+  'Skikda', 'Sidi Bel Abbès', 'Annaba', 'Guelma', 'Constantine', 'Médéa', 'Mostaganem', "M'Sila", 'Mascara', 'Ouargla',
+  'Oran', 'El Bayadh', 'Illizi', 'Bordj Bou Arréridj', 'Boumerdès', 'El Tarf', 'Tindouf', 'Tissemsilt', 'El Oued', 'Khenchela',
+  'Souk Ahras', 'Tipaza', 'Mila', 'Aïn Defla', 'Naâma', 'Aïn Témouchent', 'Ghardaïa', 'Relizane', 'Timimoun', 'Bordj Badji Mokhtar',
+  'Ouled Djellal', 'Béni Abbès', 'In Salah', 'In Guezzam', 'Touggourt', 'Djanet', "El M'Ghair", 'El Meniaa',
+];
+
+const digits = (value: string) => value.replace(/\D/g, '');
+
+// Matches on the name, or on the phone number whatever way it was typed ("0555 12 34 56" or "0555123456")
+export const searchCustomers = (customers: Customer[], query: string): Customer[] => {
+  const text = query.trim().toLowerCase();
+  if (!text) return customers;
+  const queryDigits = digits(text);
+  return customers.filter(c =>
+    c.name.toLowerCase().includes(text) ||
+    (queryDigits.length >= 3 && !!c.phone && digits(c.phone).includes(queryDigits))
+  );
+};
+
+export interface CustomerStats {
+  purchases: Sale[];
+  lifetimeValue: number;
+  lastPurchaseAt?: string;
+  outstandingDeliveries: Delivery[]; // On their way to the customer, not paid for yet
+}
+
+export const customerStats = (customerId: number, sales: Sale[], deliveries: Delivery[]): CustomerStats => {
+  const purchases = sales
+    .filter(s => s.customerId === customerId)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  return {
+    purchases,
+    lifetimeValue: purchases.reduce((sum, s) => sum + s.totalPrice, 0),
+    lastPurchaseAt: purchases[0]?.createdAt,
+    outstandingDeliveries: deliveries.filter(d => d.customerId === customerId && isOpenDelivery(d)),
+  };
+};
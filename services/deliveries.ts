@@ -0,0 +1,18 @@
+import type { Delivery, Sale } from '../types';
+
+// Pending and shipped deliveries still have their units out and their cash to collect
+export const isOpenDelivery = (delivery: Delivery) => delivery.status === 'pending' || delivery.status === 'shipped';
+
+export const openDeliveries = (deliveries: Delivery[]) => deliveries.filter(isOpenDelivery);
+
+// Delivered deliveries whose cash the courier collected but has not paid over yet
+export const awaitingRemittance = (deliveries: Delivery[], sales: Sale[]) => {
+  const awaiting = new Set(sales.filter(s => s.paymentStatus === 'awaiting_cod').map(s => s.id));
+  return deliveries.filter(d => d.status === 'delivered' && d.saleId !== undefined && awaiting.has(d.saleId));
+};
+
+// A sale made by confirming a delivery, or settled by a courier payout, is undone with a return rather than cancelled
+export const isDeliveredSale = (sale: Sale, deliveries: Delivery[]) =>
+  sale.remittanceId !== undefined || deliveries.some(d => d.saleId === sale.id);
+
+export const codTotal = (deliveries: Delivery[]) => deliveries.reduce((sum, d) => sum + d.codAmount, 0);
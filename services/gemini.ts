@@ -53,7 +53,7 @@ Réponds avec un objet JSON au format : {"name": "Nouveau Nom Marketing", "descr
     }
 };
 
-export const getDashboardInsights = async (products: Product[], sales: Sale[]): Promise<AIInsight[] | null> => {
+export const getDashboardInsights = async (products: Product[], sales: Sale[], currency: string): Promise<AIInsight[] | null> => {
     if (!ai) return null;
 
     // Summarize data to send to the model
@@ -79,8 +79,8 @@ export const getDashboardInsights = async (products: Product[], sales: Sale[]):
     const outOfStock = products.filter(p => p.stock === 0).map(p => p.name);
 
     const dataSummary = `
-- Total Revenue: ${totalRevenue.toFixed(2)} DZD
-- Total Profit: ${totalProfit.toFixed(2)} DZD
+- Total Revenue: ${totalRevenue.toFixed(2)} ${currency}
+- Total Profit: ${totalProfit.toFixed(2)} ${currency}
 - Total Units Sold: ${unitsSold}
 - Top 5 Best-Selling Products: ${topSellers.join(', ') || 'None'}
 - Potentially Slow-Moving Products (in stock but no recent sales): ${slowMovers.join(', ') || 'None'}
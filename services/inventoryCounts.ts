@@ -0,0 +1,65 @@
+import type { InventoryCount, InventoryCountLine, InventoryCountScope, Product } from '../types';
+import type { RecordChange } from './repository';
+
+export const countableProducts = (products: Product[], scope: InventoryCountScope) => products.filter(p =>
+  (!scope.category || p.category === scope.category)
+  && (scope.supplierId === undefined || p.supplierId === scope.supplierId));
+
+const lineRecord = (line: InventoryCountLine, products: Product[]) => {
+  const product = products.find(p => p.id === line.productId);
+  const variant = line.variantId !== undefined ? product?.variants?.find(v => v.id === line.variantId) : undefined;
+  return { product, variant };
+};
+
+// The stock on record for a line: the one it was compared to once posted, the live one before that
+export const expectedStock = (line: InventoryCountLine, products: Product[]) => {
+  if (line.expected !== undefined) return line.expected;
+  const { product, variant } = lineRecord(line, products);
+  return (line.variantId !== undefined ? variant?.stock : product?.stock) ?? 0;
+};
+
+export const lineVariance = (line: InventoryCountLine, products: Product[]) =>
+  line.counted === undefined ? undefined : line.counted - expectedStock(line, products);
+
+/** What a count found: lines counted so far, units over and short of the stock on record, and the net value of the difference at cost. */
+export const countSummary = (count: InventoryCount, products: Product[]) => {
+  const counted = count.lines.filter(l => l.counted !== undefined);
+  const variances = counted.map(line => {
+    const { product, variant } = lineRecord(line, products);
+    return { variance: lineVariance(line, products)!, unitCost: line.unitCost ?? variant?.buyPrice ?? product?.buyPrice ?? 0 };
+  });
+  return {
+    counted: counted.length,
+    total: count.lines.length,
+    mismatched: variances.filter(v => v.variance !== 0).length,
+    over: variances.reduce((sum, v) => sum + Math.max(0, v.variance), 0),
+    short: variances.reduce((sum, v) => sum + Math.max(0, -v.variance), 0),
+    value: variances.reduce((sum, v) => sum + v.variance * v.unitCost, 0),
+  };
+};
+
+// The line a scanned product or variant falls on in a count, if the count covers it
+export const findCountLine = (count: InventoryCount, productId: number, variantId?: number) =>
+  count.lines.find(l => l.productId === productId && l.variantId === variantId);
+
+// Count rows streamed by realtime come without their lines, so the ones already known are kept.
+export const keepCountLines = (counts: InventoryCount[], change: RecordChange<InventoryCount>): RecordChange<InventoryCount> => {
+  if (change.type === 'delete' || change.record.lines.length > 0) return change;
+  const lines = counts.find(c => c.id === change.record.id)?.lines;
+  return lines ? { ...change, record: { ...change.record, lines } } : change;
+};
+
+// Lines stream in separately from their counts, so they are merged into the count that owns them.
+export const applyInventoryCountLineChange = (counts: InventoryCount[], change: RecordChange<InventoryCountLine>): InventoryCount[] => {
+  if (change.type === 'delete') {
+    return counts.map(c => c.lines.some(l => l.id === change.id) ? { ...c, lines: c.lines.filter(l => l.id !== change.id) } : c);
+  }
+  const { record } = change;
+  return counts.map(c => {
+    if (c.id !== record.inventoryCountId) return c;
+    return {
+      ...c,
+      lines: c.lines.some(l => l.id === record.id) ? c.lines.map(l => l.id === record.id ? record : l) : [...c.lines, record],
+    };
+  });
+};
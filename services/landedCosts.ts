@@ -0,0 +1,53 @@
+import type { LandedCostBasis, LandedCostCharge, LandedCostFormData, LandedCostLine } from '../types';
+import { allocateDiscount } from './saleOrders';
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+type AllocatedLine = Pick<LandedCostLine, 'quantity' | 'unitCost' | 'weight' | 'allocated' | 'landedUnitCost'>;
+
+export const chargesTotal = (charges: LandedCostCharge[]) =>
+  charges.reduce((sum, charge) => sum + toCents(charge.amount), 0) / 100;
+
+// What a line weighs in the split
+const basisOf = (line: Pick<LandedCostLine, 'quantity' | 'unitCost' | 'weight'>, basis: LandedCostBasis) => {
+  if (basis === 'value') return line.quantity * line.unitCost;
+  if (basis === 'quantity') return line.quantity;
+  return line.quantity * (line.weight ?? 0);
+};
+
+// Shares the charges between the lines on the chosen basis, to the cent, and works out each one's new unit cost.
+// Mirrors the apply_landed_cost SQL function.
+export const allocateLandedCost = <T extends Pick<LandedCostLine, 'quantity' | 'unitCost' | 'weight'>>(lines: T[], basis: LandedCostBasis, total: number): (T & AllocatedLine)[] => {
+  const shares = allocateDiscount(lines.map(line => basisOf(line, basis)), total);
+  return lines.map((line, index) => ({
+    ...line,
+    allocated: shares[index],
+    landedUnitCost: toCents(line.unitCost + shares[index] / line.quantity) / 100,
+  }));
+};
+
+export type LandedCostError = 'no_charges' | 'invalid_charge' | 'no_lines' | 'invalid_line' | 'no_basis';
+
+export const landedCostError = (data: LandedCostFormData): LandedCostError | null => {
+  if (data.charges.length === 0) return 'no_charges';
+  if (data.charges.some(c => !c.label.trim() || !(c.amount > 0))) return 'invalid_charge';
+  if (data.lines.length === 0) return 'no_lines';
+  if (data.lines.some(l => !Number.isInteger(l.quantity) || l.quantity < 1 || !(l.unitCost >= 0) || (l.weight !== undefined && !(l.weight >= 0)))) return 'invalid_line';
+  // Nothing to split on, such as no weights given
+  if (data.lines.reduce((sum, line) => sum + basisOf(line, data.basis), 0) <= 0) return 'no_basis';
+  return null;
+};
+
+// The same messages as the SQL function raises
+const errorMessages: Record<LandedCostError, string> = {
+  no_charges: 'There are no extra costs to spread',
+  invalid_charge: 'Every extra cost needs a label and an amount above 0',
+  no_lines: 'There are no units to spread the extra costs over',
+  invalid_line: 'Every line needs a quantity of at least 1, and a cost and weight that are not negative',
+  no_basis: 'The extra costs cannot be spread on this basis over these units',
+};
+
+export const assertLandedCost = (data: LandedCostFormData) => {
+  const error = landedCostError(data);
+  if (error) throw new Error(errorMessages[error]);
+};
@@ -0,0 +1,1054 @@
+import type { Product, ProductVariant, Sale, SalePayment, ActivityLog, PurchaseOrder, PurchaseOrderLine, Supplier, Customer, SaleReturn, StockMovement, StockMovementReason, PriceChange, InventoryCount, InventoryCountLine, StockLocation, StockLevel, StockTransfer, Delivery, CodRemittance, SalePricing, Promotion, TaxRate, LandedCost, CostLayer, StockLot, ShopSettings } from '../types';
+import { StaleRecordError } from './repository';
+import type { Repositories, StockNote } from './repository';
+import { MOCK_PRODUCTS } from '../mock/products';
+import { variantLabel } from './variants';
+import { remainingQuantity, receivingStatus } from './purchaseOrders';
+import { assertExchangeRate, landedCost } from './money';
+import { normalizeSupplierName, sameSupplierName } from './suppliers';
+import { allocateDiscount } from './saleOrders';
+import { returnedQuantity, refundedAmount, saleUnitCost } from './returns';
+import { countableProducts } from './inventoryCounts';
+import { availableAt, fitStockLevels } from './stockLocations';
+import { allocatePayments, assertPayments, cashPayment } from './payments';
+import { assertPricing, assertPromotion, priceSale } from './promotions';
+import { assertTaxRate, netOfTax, productTax, refundTax } from './taxes';
+import { allocateLandedCost, assertLandedCost, chargesTotal } from './landedCosts';
+import { COSTING_METHODS, DEFAULT_COSTING_METHOD, consumeCostLayers, layersOf, raiseCostLayers } from './costLayers';
+import { consumeLots, lotsOf } from './stockLots';
+import { isDeliveredSale } from './deliveries';
+import { stockChanges } from './stockMovements';
+
+// Records are copied on the way in and out so callers can never mutate the store directly.
+const clone = <T>(record: T): T => ({ ...record });
+
+type IdGenerator = (records: { id: number }[]) => number;
+
+const nextId: IdGenerator = records => records.reduce((max, r) => Math.max(max, r.id), 0) + 1;
+
+export interface MemorySeed {
+  products: Product[];
+  sales?: Sale[];
+  activityLog?: ActivityLog[];
+  purchaseOrders?: PurchaseOrder[];
+  // Without it, suppliers are derived from the names on the products
+  suppliers?: Supplier[];
+  customers?: Customer[];
+  saleReturns?: SaleReturn[];
+  stockMovements?: StockMovement[];
+  priceChanges?: PriceChange[];
+  inventoryCounts?: InventoryCount[];
+  stockLocations?: StockLocation[];
+  stockLevels?: StockLevel[];
+  stockTransfers?: StockTransfer[];
+  deliveries?: Delivery[];
+  codRemittances?: CodRemittance[];
+  promotions?: Promotion[];
+  taxRates?: TaxRate[];
+  landedCosts?: LandedCost[];
+  settings?: ShopSettings;
+}
+
+const byNewestFirst = (a: { createdAt: string }, b: { createdAt: string }) =>
+  new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+
+/**
+ * A fully functional in-memory backend, used as the demo mode when Supabase is not configured.
+ * Data lives for the lifetime of the page.
+ * The offline layer also runs it over its local replica, with `newId` handing out temporary ids.
+ */
+export const createMemoryRepositories = (seed: MemorySeed = { products: MOCK_PRODUCTS }, newId: IdGenerator = nextId): Repositories => {
+  let products: Product[] = seed.products.map(clone);
+  let sales: Sale[] = (seed.sales || []).map(clone);
+  let activityLog: ActivityLog[] = (seed.activityLog || []).map(clone);
+  let purchaseOrders: PurchaseOrder[] = (seed.purchaseOrders || []).map(clone);
+  let suppliers: Supplier[] = (seed.suppliers || []).map(clone);
+  let customers: Customer[] = (seed.customers || []).map(clone);
+  let saleReturns: SaleReturn[] = (seed.saleReturns || []).map(clone);
+  let stockMovements: StockMovement[] = (seed.stockMovements || []).map(clone);
+  let priceChanges: PriceChange[] = (seed.priceChanges || []).map(clone);
+  let inventoryCounts: InventoryCount[] = (seed.inventoryCounts || []).map(clone);
+  let stockLocations: StockLocation[] = (seed.stockLocations || []).map(clone);
+  let stockLevels: StockLevel[] = (seed.stockLevels || []).map(clone);
+  let stockTransfers: StockTransfer[] = (seed.stockTransfers || []).map(clone);
+  let deliveries: Delivery[] = (seed.deliveries || []).map(clone);
+  let codRemittances: CodRemittance[] = (seed.codRemittances || []).map(clone);
+  let promotions: Promotion[] = (seed.promotions || []).map(clone);
+  let taxRates: TaxRate[] = (seed.taxRates || []).map(clone);
+  let landedCosts: LandedCost[] = (seed.landedCosts || []).map(clone);
+  let settings: ShopSettings = { costingMethod: DEFAULT_COSTING_METHOD, ...seed.settings };
+
+  const findProduct = (id: number): Product => {
+    const product = products.find(p => p.id === id);
+    if (!product) throw new Error(`Product ${id} not found`);
+    return product;
+  };
+
+  const findOwnVariant = (product: Product, variantId: number): ProductVariant => {
+    const variant = product.variants?.find(v => v.id === variantId);
+    if (!variant) throw new Error(`Variant ${variantId} not found`);
+    return variant;
+  };
+
+  // Mirrors the sync_variant_stock trigger: a product with variants takes its stock from them.
+  const withVariants = (product: Product, variants: ProductVariant[]): Product => {
+    const updatedAt = new Date().toISOString();
+    if (variants.length === 0) return { ...product, variants, updatedAt };
+    const stock = variants.reduce((sum, v) => sum + v.stock, 0);
+    return { ...product, variants, stock, status: stock > 0 ? 'actif' : 'rupture', updatedAt };
+  };
+
+  // Unit costs are kept to 4 decimals, like the unit_cost column
+  const newCostLayer = (productId: number, variantId: number | undefined, quantity: number, unitCost: number, purchaseOrderId?: number, added: CostLayer[] = []): CostLayer => ({
+    id: newId([...products.flatMap(p => p.costLayers || []), ...added]), productId, variantId, purchaseOrderId,
+    quantity, remaining: quantity, unitCost: Math.round(unitCost * 10000) / 10000, createdAt: new Date().toISOString(),
+  });
+
+  // The product with the layers of one of its variants, or its own, replaced
+  const withCostLayers = (product: Product, variantId: number | undefined, layers: CostLayer[]): Product =>
+    ({ ...product, costLayers: [...(product.costLayers || []).filter(l => l.variantId !== variantId), ...layers] });
+
+  // Mirrors the fit_cost_layers trigger: units taken out of stock by hand leave the layers by the costing method,
+  // and units added by hand come in as a layer at the buy price. A product with variants keeps its layers on them.
+  const fitCostLayers = (product: Product): Product => {
+    const items = product.variants?.length
+      ? product.variants.map(v => ({ variantId: v.id as number | undefined, stock: v.stock, buyPrice: v.buyPrice }))
+      : [{ variantId: undefined, stock: product.stock, buyPrice: product.buyPrice }];
+    const fitted: CostLayer[] = [];
+    for (const item of items) {
+      let layers = layersOf(product, item.variantId);
+      const layered = layers.reduce((sum, l) => sum + l.remaining, 0);
+      if (layered > item.stock) layers = consumeCostLayers(layers, layered - item.stock, settings.costingMethod, item.buyPrice).layers;
+      if (layered < item.stock) layers = [...layers, newCostLayer(product.id, item.variantId, item.stock - layered, item.buyPrice, undefined, fitted)];
+      fitted.push(...layers);
+    }
+    return { ...product, costLayers: fitted };
+  };
+
+  const newStockLot = (input: Omit<StockLot, 'id' | 'createdAt'>): StockLot => ({
+    ...input, id: newId(products.flatMap(p => p.lots || [])),
+    lotNumber: input.lotNumber?.trim() || undefined, expiresAt: input.expiresAt || undefined, createdAt: new Date().toISOString(),
+  });
+
+  // Mirrors the fit_stock_lots trigger: units taken out of stock leave the lots soonest expiring first,
+  // and the lots never hold more than the stock. Lots of variants that are gone are dropped, and so are
+  // the product's own once it has variants.
+  const fitStockLots = (product: Product): Product => {
+    if (!product.lots) return product;
+    const previous = products.find(p => p.id === product.id);
+    const items = product.variants?.length
+      ? product.variants.map(v => ({ variantId: v.id as number | undefined, stock: v.stock, before: previous?.variants?.find(pv => pv.id === v.id)?.stock ?? 0 }))
+      : [{ variantId: undefined, stock: product.stock, before: previous?.variants?.length ? 0 : previous?.stock ?? 0 }];
+    const lots = items.flatMap(item => consumeLots(lotsOf(product, item.variantId), Math.max(0, item.before - item.stock), item.stock));
+    return { ...product, lots };
+  };
+
+  const replaceProduct = (product: Product): Product => {
+    const fitted = fitCostLayers(fitStockLots(product));
+    products = products.map(p => p.id === product.id ? fitted : p);
+    return fitted;
+  };
+
+  // Products saved before cost layers came in with their stock as one layer at the buy price, like the SQL migration
+  for (const product of products) if (!product.costLayers) replaceProduct(product);
+
+  const findSupplier = (id: number): Supplier => {
+    const supplier = suppliers.find(s => s.id === id);
+    if (!supplier) throw new Error(`Supplier ${id} not found`);
+    return supplier;
+  };
+
+  const assertUniqueSupplierName = (name: string, id?: number) => {
+    if (!name) throw new Error('A supplier needs a name');
+    if (suppliers.some(s => s.id !== id && sameSupplierName(s.name, name))) throw new Error(`A supplier named ${name} already exists`);
+  };
+
+  // Mirrors the link_supplier trigger: the record follows the supplier with the same name, created if needed.
+  const linkSupplier = <T extends { supplier: string; supplierId?: number; ownerId?: string }>(record: T): T => {
+    const name = normalizeSupplierName(record.supplier);
+    if (!name) return { ...record, supplier: '', supplierId: undefined };
+    let supplier = suppliers.find(s => sameSupplierName(s.name, name));
+    if (!supplier) {
+      const now = new Date().toISOString();
+      supplier = { id: newId(suppliers), name, createdAt: now, updatedAt: now, ownerId: record.ownerId };
+      suppliers = [...suppliers, supplier];
+    }
+    return { ...record, supplier: supplier.name, supplierId: supplier.id };
+  };
+
+  // Products saved before suppliers had their own records only carry a name, like the SQL migration
+  if (!seed.suppliers) products = products.map(linkSupplier);
+
+  const findCustomer = (id: number): Customer => {
+    const customer = customers.find(c => c.id === id);
+    if (!customer) throw new Error(`Customer ${id} not found`);
+    return customer;
+  };
+
+  const findPurchaseOrder = (id: number): PurchaseOrder => {
+    const order = purchaseOrders.find(o => o.id === id);
+    if (!order) throw new Error(`Purchase order ${id} not found`);
+    return order;
+  };
+
+  const findInventoryCount = (id: number): InventoryCount => {
+    const count = inventoryCounts.find(c => c.id === id);
+    if (!count) throw new Error(`Inventory count ${id} not found`);
+    return count;
+  };
+
+  const findStockLocation = (id: number): StockLocation => {
+    const location = stockLocations.find(l => l.id === id);
+    if (!location) throw new Error(`Location ${id} not found`);
+    return location;
+  };
+
+  const findStockTransfer = (id: number): StockTransfer => {
+    const transfer = stockTransfers.find(t => t.id === id);
+    if (!transfer) throw new Error(`Transfer ${id} not found`);
+    return transfer;
+  };
+
+  const findDelivery = (id: number): Delivery => {
+    const delivery = deliveries.find(d => d.id === id);
+    if (!delivery) throw new Error(`Delivery ${id} not found`);
+    return delivery;
+  };
+
+  const assertOpen = (delivery: Delivery) => {
+    if (delivery.status === 'delivered' || delivery.status === 'cancelled') throw new Error(`Delivery ${delivery.id} is already ${delivery.status}`);
+  };
+
+  // Stock changes everywhere, so instead of a trigger on every write, levels are fitted to it before they are used.
+  // Levels and transfers of deleted products and variants go too, like the ON DELETE CASCADE foreign keys.
+  const fitLevels = () => {
+    const exists = (record: { productId: number; variantId?: number }) => {
+      const product = products.find(p => p.id === record.productId);
+      return !!product && (record.variantId === undefined || !!product.variants?.some(v => v.id === record.variantId));
+    };
+    stockTransfers = stockTransfers.filter(exists);
+    stockLevels = fitStockLevels(products, stockLevels.filter(exists), stockTransfers);
+  };
+
+  const addToLevel = (productId: number, variantId: number | undefined, locationId: number, quantity: number): StockLevel => {
+    const current = stockLevels.find(l => l.productId === productId && l.variantId === variantId && l.locationId === locationId)
+      || { id: newId(stockLevels), productId, variantId, locationId, quantity: 0 };
+    const updated = { ...current, quantity: current.quantity + quantity };
+    stockLevels = [...stockLevels.filter(l => l.id !== updated.id), updated];
+    return updated;
+  };
+
+  // Purchase order and count lines, and deliveries, outlive deleted products, like the ON DELETE SET NULL foreign keys
+  const detachLines = (productIds: number[]) => {
+    const detach = <T extends { lines: { productId: number | null }[] }>(record: T): T =>
+      record.lines.some(l => l.productId !== null && productIds.includes(l.productId))
+        ? { ...record, lines: record.lines.map(l => l.productId !== null && productIds.includes(l.productId) ? { ...l, productId: null } : l) }
+        : record;
+    purchaseOrders = purchaseOrders.map(detach);
+    inventoryCounts = inventoryCounts.map(detach);
+    deliveries = deliveries.map(d => d.productId !== null && productIds.includes(d.productId) ? { ...d, productId: null, variantId: undefined } : d);
+    // A promotion of a single product goes with it
+    promotions = promotions.filter(p => p.productId === undefined || !productIds.includes(p.productId));
+  };
+
+  // Mirrors the log_stock_movement SQL function: the movement is written with the change it explains.
+  // Nothing is written for a product deleted since, and a variant deleted since is left out.
+  const logStockMovement = (productId: number | null, variantId: number | undefined, variantName: string | undefined, quantity: number, reason: StockMovementReason, referenceId: number, notes?: string): StockMovement[] => {
+    const product = products.find(p => p.id === productId);
+    if (quantity === 0 || !product) return [];
+    const movement: StockMovement = {
+      id: newId(stockMovements), productId: product.id, productName: product.name,
+      variantId: product.variants?.some(v => v.id === variantId) ? variantId : undefined, variantName,
+      quantity, reason, referenceId, notes, createdAt: new Date().toISOString(), ownerId: product.ownerId,
+    };
+    stockMovements = [movement, ...stockMovements];
+    return [clone(movement)];
+  };
+
+  // Mirrors the log_stock_edit SQL function: what an edit did to the stock, variant by variant when the product has any
+  const logStockEdit = (before: Product | null, after: Product, stockNote?: StockNote): StockMovement[] =>
+    stockChanges(before, after).flatMap(change =>
+      logStockMovement(after.id, change.variantId, change.variantName, change.quantity, stockNote?.reason ?? 'count_correction', undefined, stockNote?.notes));
+
+  // Mirror the record_sale and cancel_sale SQL functions. Nothing is awaited, so each call is atomic.
+  const recordSale = (productId: number, quantity: number, variantId?: number, customerId?: number, payments?: SalePayment[], pricing?: SalePricing) => {
+    const product = findProduct(productId);
+    if (customerId !== undefined) findCustomer(customerId);
+
+    let updated: Product;
+    let variant: ProductVariant | undefined;
+    if (variantId !== undefined) {
+      variant = findOwnVariant(product, variantId);
+      if (quantity < 1 || variant.stock < quantity) throw new Error(`Insufficient stock for ${product.name}`);
+      updated = withVariants(product, product.variants!.map(v => v.id === variantId ? { ...v, stock: v.stock - quantity } : v));
+    } else {
+      if (product.variants?.length) throw new Error(`Choose a variant of ${product.name}`);
+      if (quantity < 1 || product.stock < quantity) throw new Error(`Insufficient stock for ${product.name}`);
+      const newStock = product.stock - quantity;
+      updated = { ...product, stock: newStock, status: newStock === 0 ? 'rupture' : 'actif', updatedAt: new Date().toISOString() };
+    }
+
+    const price = priceSale(product, variant, quantity, promotions, pricing);
+    assertPricing(pricing, price.unitPrice * quantity);
+    const consumed = consumeCostLayers(layersOf(product, variantId), quantity, settings.costingMethod, variant?.buyPrice ?? product.buyPrice);
+    updated = withCostLayers(updated, variantId, consumed.layers);
+    const tax = productTax(product, taxRates, price.total);
+    if (payments) assertPayments(payments, tax.gross, customerId);
+    const sale: Sale = {
+      id: newId(sales), productId, productName: product.name,
+      variantId: variant?.id, variantName: variant ? variantLabel(variant) : undefined,
+      customerId,
+      quantity, listPrice: price.listPrice, sellPrice: price.unitPrice, promotionId: price.promotionId, discount: price.discount || undefined,
+      totalPrice: tax.gross, totalMargin: Math.round((tax.net - consumed.cost) * 100) / 100,
+      taxRate: tax.taxRate, netAmount: tax.net, taxAmount: tax.tax,
+      payments: payments ?? cashPayment(tax.gross), paymentStatus: 'paid',
+      createdAt: new Date().toISOString(), ownerId: product.ownerId,
+    };
+    const stored = replaceProduct(updated);
+    sales = [sale, ...sales];
+    const movements = logStockMovement(productId, sale.variantId, sale.variantName, -quantity, 'sale', sale.id);
+    return { product: clone(stored), sale: clone(sale), movements };
+  };
+
+  // Where sold or delivered units go back to: their variant, else the product when it holds its own stock.
+  // Null when the product has been deleted since, or when the variant was and the product still has others.
+  const restockTarget = (sold: { productId: number | null; variantId?: number }): { product: Product; variantId?: number } | null => {
+    const product = products.find(p => p.id === sold.productId);
+    if (!product) return null;
+    if (product.variants?.some(v => v.id === sold.variantId)) return { product, variantId: sold.variantId };
+    return product.variants?.length ? null : { product };
+  };
+
+  // Puts sold or delivered units back where they came from, as a layer at the cost they left at.
+  // Null when there is nowhere to put them.
+  const restockSold = (sold: { productId: number | null; variantId?: number }, quantity: number, unitCost: number): Product | null => {
+    const target = restockTarget(sold);
+    if (!target) return null;
+    const { product, variantId } = target;
+    const restocked = variantId !== undefined
+      ? withVariants(product, product.variants!.map(v => v.id === variantId ? { ...v, stock: v.stock + quantity } : v))
+      : { ...product, stock: product.stock + quantity, updatedAt: new Date().toISOString() };
+    const layer = newCostLayer(product.id, variantId, quantity, unitCost);
+    const updated: Product = { ...restocked, status: 'actif', costLayers: [...(product.costLayers || []), layer] };
+    return clone(replaceProduct(updated));
+  };
+
+  const cancelSale = (id: number): { product: Product | null; movements: StockMovement[] } => {
+    const sale = sales.find(s => s.id === id);
+    if (!sale) throw new Error(`Sale ${id} not found`);
+    if (saleReturns.some(r => r.saleId === id)) throw new Error(`Sale of ${sale.productName} has returns and cannot be cancelled`);
+    if (isDeliveredSale(sale, deliveries)) throw new Error(`Sale of ${sale.productName} was delivered and can only be returned`);
+    sales = sales.filter(s => s.id !== id);
+    const product = restockSold(sale, sale.quantity, saleUnitCost(sale));
+    return { product, movements: product ? logStockMovement(sale.productId, sale.variantId, sale.variantName, sale.quantity, 'sale', sale.id) : [] };
+  };
+
+  return {
+    products: {
+      list: async () => [...products].sort(byNewestFirst).map(clone),
+      create: async (input, stockNote) => {
+        const now = new Date().toISOString();
+        const product: Product = fitCostLayers(linkSupplier({ ...input, id: newId(products), createdAt: now, updatedAt: now }));
+        products = [product, ...products];
+        return { product: clone(product), movements: logStockEdit(null, product, stockNote) };
+      },
+      createMany: async (inputs, stockNote) => {
+        const created: Product[] = [];
+        for (const input of inputs) {
+          const now = new Date().toISOString();
+          const product: Product = linkSupplier({ ...input, id: newId([...products, ...created]), createdAt: now, updatedAt: now });
+          created.push(product);
+        }
+        products = [...created, ...products];
+        const saved = created.map(product => replaceProduct(product));
+        return { products: saved.map(clone), movements: saved.flatMap(product => logStockEdit(null, product, stockNote)) };
+      },
+      update: async (id, changes, expectedUpdatedAt, stockNote) => {
+        const current = products.find(p => p.id === id);
+        if (expectedUpdatedAt && current?.updatedAt !== expectedUpdatedAt) throw new StaleRecordError(current ? clone(current) : null);
+        const before = findProduct(id);
+        let updated: Product = { ...before, ...changes, updatedAt: new Date().toISOString() };
+        if (changes.supplier !== undefined) updated = linkSupplier(updated);
+        const saved = replaceProduct(updated);
+        return { product: clone(saved), movements: logStockEdit(before, saved, stockNote) };
+      },
+      remove: async (id) => {
+        products = products.filter(p => p.id !== id);
+        detachLines([id]);
+      },
+      removeMany: async (ids) => {
+        products = products.filter(p => !ids.includes(p.id));
+        detachLines(ids);
+      },
+      saveVariants: async (id, variants, stockNote) => {
+        const product = findProduct(id);
+        const allVariants = products.flatMap(p => p.variants || []);
+        const saved: ProductVariant[] = [];
+        for (const variant of variants) {
+          saved.push({ ...variant, id: variant.id ?? newId([...allVariants, ...saved]), productId: id });
+        }
+        const updated = replaceProduct(withVariants(product, saved));
+        deliveries = deliveries.map(d => d.productId === id && d.variantId !== undefined && !saved.some(v => v.id === d.variantId) ? { ...d, variantId: undefined } : d);
+        return { product: clone(updated), movements: logStockEdit(product, updated, stockNote) };
+      },
+    },
+    sales: {
+      list: async () => [...sales].sort(byNewestFirst).map(clone),
+      record: async (productId, quantity, variantId, customerId, payments, pricing) => recordSale(productId, quantity, variantId, customerId, payments, pricing),
+      cancel: async (id) => cancelSale(id),
+      // Mirrors the checkout_sale_order SQL function: a failing line puts back everything sold before it
+      checkout: async (order) => {
+        if (order.lines.length === 0) throw new Error('An order needs at least one line');
+        if (order.customerId !== undefined) findCustomer(order.customerId);
+        const before = { products, sales, stockMovements };
+        try {
+          const orderId = newId(sales.filter(s => s.orderId !== undefined).map(s => ({ id: s.orderId! })));
+          const recorded = order.lines.map(line => recordSale(line.productId, line.quantity, line.variantId, order.customerId));
+          const lines = recorded.map(r => r.sale);
+          const subtotal = lines.reduce((sum, line) => sum + line.totalPrice, 0);
+          if (order.discount < 0 || order.discount > subtotal) throw new Error('The discount cannot exceed the order total');
+          const shares = allocateDiscount(lines.map(line => line.totalPrice), order.discount);
+          const totals = lines.map((line, index) => Math.round((line.totalPrice - shares[index]) * 100) / 100);
+          const payments = order.payments ?? cashPayment(subtotal - order.discount);
+          assertPayments(payments, subtotal - order.discount, order.customerId);
+          const linePayments = allocatePayments(totals, payments);
+          // The share comes off the gross, and the TVA in it goes down in proportion
+          const orderSales = lines.map((line, index): Sale => {
+            const netAmount = netOfTax(totals[index], line.taxRate);
+            return {
+              ...line, orderId, orderDiscount: shares[index] || undefined, payments: linePayments[index],
+              totalPrice: totals[index], totalMargin: Math.round((line.totalMargin - line.netAmount + netAmount) * 100) / 100,
+              netAmount, taxAmount: Math.round((totals[index] - netAmount) * 100) / 100,
+            };
+          });
+          sales = sales.map(s => orderSales.find(line => line.id === s.id) || s);
+          const productIds = new Set(order.lines.map(line => line.productId));
+          return {
+            sales: orderSales.map(clone), products: products.filter(p => productIds.has(p.id)).map(clone),
+            movements: recorded.flatMap(r => r.movements),
+          };
+        } catch (error) {
+          products = before.products;
+          sales = before.sales;
+          stockMovements = before.stockMovements;
+          throw error;
+        }
+      },
+      cancelOrder: async (orderId) => {
+        const lines = sales.filter(s => s.orderId === orderId);
+        if (lines.length === 0) throw new Error(`Order ${orderId} not found`);
+        const returned = lines.find(line => saleReturns.some(r => r.saleId === line.id));
+        if (returned) throw new Error(`Sale of ${returned.productName} has returns and cannot be cancelled`);
+        const restocked = new Map<number, Product>();
+        const movements: StockMovement[] = [];
+        for (const line of lines) {
+          const cancelled = cancelSale(line.id);
+          if (cancelled.product) restocked.set(cancelled.product.id, cancelled.product);
+          movements.push(...cancelled.movements);
+        }
+        return { products: [...restocked.values()], movements };
+      },
+    },
+    purchaseOrders: {
+      list: async () => [...purchaseOrders].sort(byNewestFirst).map(clone),
+      // Mirrors the save_purchase_order and receive_purchase_order SQL functions.
+      save: async (id, input) => {
+        const existing = id === null ? null : findPurchaseOrder(id);
+        if (existing && existing.status !== 'draft') throw new Error(`Purchase order ${id} is no longer a draft`);
+        assertExchangeRate(input.currency, input.exchangeRate);
+        const orderId = existing ? existing.id : newId(purchaseOrders);
+
+        const allLines = purchaseOrders.flatMap(o => o.lines);
+        const lines: PurchaseOrderLine[] = [];
+        for (const line of input.lines) {
+          const product = findProduct(line.productId);
+          const variant = line.variantId !== undefined ? findOwnVariant(product, line.variantId) : undefined;
+          lines.push({
+            id: newId([...allLines, ...lines]), purchaseOrderId: orderId, productId: product.id, variantId: variant?.id,
+            productName: product.name, variantName: variant ? variantLabel(variant) : undefined,
+            quantity: line.quantity, receivedQuantity: 0, unitCost: line.unitCost,
+          });
+        }
+
+        const now = new Date().toISOString();
+        const details = {
+          supplier: input.supplier, reference: input.reference || undefined, notes: input.notes || undefined,
+          currency: input.currency, exchangeRate: input.currency !== undefined ? input.exchangeRate : undefined, lines, updatedAt: now,
+        };
+        const order: PurchaseOrder = linkSupplier(existing ? { ...existing, ...details } : { id: orderId, status: 'draft', createdAt: now, ...details });
+        purchaseOrders = existing ? purchaseOrders.map(o => o.id === orderId ? order : o) : [order, ...purchaseOrders];
+        return clone(order);
+      },
+      markOrdered: async (id) => {
+        const order = findPurchaseOrder(id);
+        if (order.status !== 'draft') throw new Error(`Purchase order ${id} is no longer a draft`);
+        const now = new Date().toISOString();
+        const updated: PurchaseOrder = { ...order, status: 'ordered', orderedAt: now, updatedAt: now };
+        purchaseOrders = purchaseOrders.map(o => o.id === id ? updated : o);
+        return clone(updated);
+      },
+      remove: async (id) => {
+        if (findPurchaseOrder(id).status !== 'draft') throw new Error(`Purchase order ${id} is no longer a draft`);
+        purchaseOrders = purchaseOrders.filter(o => o.id !== id);
+      },
+      receive: async (id, receipts) => {
+        const order = findPurchaseOrder(id);
+        if (order.status !== 'ordered' && order.status !== 'partially_received') throw new Error(`Purchase order ${id} is not awaiting delivery`);
+
+        // Everything is checked before stock moves, so a bad receipt leaves nothing half-applied
+        let lines = order.lines;
+        for (const receipt of receipts) {
+          const line = lines.find(l => l.id === receipt.lineId);
+          if (!line) throw new Error(`Purchase order line ${receipt.lineId} not found`);
+          if (receipt.quantity < 1 || receipt.quantity > remainingQuantity(line)) throw new Error(`Cannot receive ${receipt.quantity} more units of ${line.productName}`);
+          lines = lines.map(l => l.id === line.id ? { ...l, receivedQuantity: l.receivedQuantity + receipt.quantity, unitCost: receipt.unitCost } : l);
+        }
+
+        const restockedIds = new Set<number>();
+        const movements: StockMovement[] = [];
+        for (const receipt of receipts) {
+          const line = lines.find(l => l.id === receipt.lineId)!;
+          const product = products.find(p => p.id === line.productId);
+          if (!product) continue;
+          const buyPrice = landedCost(receipt.unitCost, order.exchangeRate);
+          const variantId = product.variants?.some(v => v.id === line.variantId) ? line.variantId : undefined;
+          const restocked: Product = variantId !== undefined
+            ? withVariants(product, product.variants!.map(v => v.id === variantId ? { ...v, stock: v.stock + receipt.quantity, buyPrice } : v))
+            : {
+              ...product, stock: product.stock + receipt.quantity, buyPrice,
+              status: 'actif', updatedAt: new Date().toISOString(),
+            };
+          const layer = newCostLayer(product.id, variantId, receipt.quantity, buyPrice, order.id);
+          const lots = receipt.lotNumber?.trim() || receipt.expiresAt
+            ? [...(product.lots || []), newStockLot({ productId: product.id, variantId, lotNumber: receipt.lotNumber, expiresAt: receipt.expiresAt, quantity: receipt.quantity, purchaseOrderId: order.id })]
+            : product.lots;
+          replaceProduct({ ...restocked, costLayers: [...(product.costLayers || []), layer], lots });
+          restockedIds.add(product.id);
+          movements.push(...logStockMovement(product.id, variantId, line.variantName, receipt.quantity, 'receipt', order.id));
+        }
+
+        const updatedOrder: PurchaseOrder = { ...order, lines, status: receivingStatus(lines), updatedAt: new Date().toISOString() };
+        purchaseOrders = purchaseOrders.map(o => o.id === id ? updatedOrder : o);
+        return { order: clone(updatedOrder), products: products.filter(p => restockedIds.has(p.id)).map(clone), movements };
+      },
+    },
+    suppliers: {
+      list: async () => [...suppliers].sort((a, b) => a.name.localeCompare(b.name)).map(clone),
+      create: async (input) => {
+        const name = normalizeSupplierName(input.name);
+        assertUniqueSupplierName(name);
+        const now = new Date().toISOString();
+        const supplier: Supplier = { ...input, name, id: newId(suppliers), createdAt: now, updatedAt: now };
+        suppliers = [...suppliers, supplier];
+        return clone(supplier);
+      },
+      update: async (id, changes) => {
+        const current = findSupplier(id);
+        const name = changes.name !== undefined ? normalizeSupplierName(changes.name) : current.name;
+        assertUniqueSupplierName(name, id);
+        const updated: Supplier = { ...current, ...changes, name, updatedAt: new Date().toISOString() };
+        suppliers = suppliers.map(s => s.id === id ? updated : s);
+        // Mirrors the rename_supplier_references trigger
+        if (name !== current.name) {
+          products = products.map(p => p.supplierId === id ? { ...p, supplier: name, updatedAt: updated.updatedAt } : p);
+          purchaseOrders = purchaseOrders.map(o => o.supplierId === id ? { ...o, supplier: name, updatedAt: updated.updatedAt } : o);
+        }
+        return clone(updated);
+      },
+      remove: async (id) => {
+        findSupplier(id);
+        suppliers = suppliers.filter(s => s.id !== id);
+        products = products.map(p => p.supplierId === id ? { ...p, supplierId: undefined } : p);
+        purchaseOrders = purchaseOrders.map(o => o.supplierId === id ? { ...o, supplierId: undefined } : o);
+      },
+    },
+    customers: {
+      list: async () => [...customers].sort((a, b) => a.name.localeCompare(b.name)).map(clone),
+      create: async (input) => {
+        if (!input.name.trim()) throw new Error('A customer needs a name');
+        const now = new Date().toISOString();
+        const customer: Customer = { ...input, name: input.name.trim(), id: newId(customers), createdAt: now, updatedAt: now };
+        customers = [...customers, customer];
+        return clone(customer);
+      },
+      update: async (id, changes) => {
+        const current = findCustomer(id);
+        const name = changes.name !== undefined ? changes.name.trim() : current.name;
+        if (!name) throw new Error('A customer needs a name');
+        const updated: Customer = { ...current, ...changes, name, updatedAt: new Date().toISOString() };
+        customers = customers.map(c => c.id === id ? updated : c);
+        return clone(updated);
+      },
+      // Like the ON DELETE SET NULL foreign keys
+      remove: async (id) => {
+        findCustomer(id);
+        customers = customers.filter(c => c.id !== id);
+        sales = sales.map(s => s.customerId === id ? { ...s, customerId: undefined } : s);
+        deliveries = deliveries.map(d => d.customerId === id ? { ...d, customerId: undefined } : d);
+      },
+    },
+    // Mirrors the return_sale SQL function
+    saleReturns: {
+      list: async () => [...saleReturns].sort(byNewestFirst).map(clone),
+      create: async (saleId, input) => {
+        const sale = sales.find(s => s.id === saleId);
+        if (!sale) throw new Error(`Sale ${saleId} not found`);
+        if (input.quantity < 1 || input.quantity > sale.quantity - returnedQuantity(saleId, saleReturns)) {
+          throw new Error(`Cannot return ${input.quantity} more units of ${sale.productName}`);
+        }
+        if (input.refundAmount < 0 || input.refundAmount > sale.totalPrice - refundedAmount(saleId, saleReturns)) {
+          throw new Error('The refund cannot exceed what was paid');
+        }
+        if (input.restock && !products.some(p => p.id === sale.productId)) {
+          throw new Error(`${sale.productName} no longer exists and cannot be restocked`);
+        }
+        if (input.restock && !restockTarget(sale)) {
+          throw new Error(`${sale.productName} (${sale.variantName ?? '?'}) no longer exists and cannot be restocked`);
+        }
+
+        const saleReturn: SaleReturn = {
+          id: newId(saleReturns), saleId, productId: sale.productId, productName: sale.productName,
+          variantId: sale.variantId, variantName: sale.variantName,
+          quantity: input.quantity, reason: input.reason, notes: input.notes || undefined, restock: input.restock,
+          refundAmount: input.refundAmount, taxAmount: refundTax(sale, input.refundAmount), unitCost: saleUnitCost(sale),
+          createdAt: new Date().toISOString(), ownerId: sale.ownerId,
+        };
+        saleReturns = [saleReturn, ...saleReturns];
+        if (!input.restock) return { saleReturn: clone(saleReturn), product: null, movements: [] };
+        const product = restockSold(sale, input.quantity, saleReturn.unitCost);
+        return { saleReturn: clone(saleReturn), product, movements: logStockMovement(sale.productId, sale.variantId, sale.variantName, input.quantity, 'return', saleReturn.id) };
+      },
+    },
+    activityLog: {
+      list: async () => [...activityLog].sort(byNewestFirst).map(clone),
+      create: async (input) => {
+        const entry: ActivityLog = { ...input, id: newId(activityLog), createdAt: new Date().toISOString() };
+        activityLog = [entry, ...activityLog];
+        return clone(entry);
+      },
+    },
+    stockMovements: {
+      list: async () => [...stockMovements].sort(byNewestFirst).map(clone),
+      create: async (inputs) => {
+        const createdAt = new Date().toISOString();
+        const created = inputs.map(input => {
+          const movement: StockMovement = { ...input, id: newId(stockMovements), createdAt };
+          stockMovements = [movement, ...stockMovements];
+          return movement;
+        });
+        return created.map(clone);
+      },
+    },
+    priceChanges: {
+      list: async () => [...priceChanges].sort(byNewestFirst).map(clone),
+      create: async (inputs) => {
+        const createdAt = new Date().toISOString();
+        const created = inputs.map(input => {
+          const change: PriceChange = { ...input, id: newId(priceChanges), createdAt };
+          priceChanges = [change, ...priceChanges];
+          return change;
+        });
+        return created.map(clone);
+      },
+      // Mirrors the revert_bulk_price_change SQL function
+      revertBatch: async (batchId) => {
+        const batch = priceChanges.filter(c => c.batchId === batchId && c.source === 'bulk_update');
+        if (batch.length === 0) throw new Error(`Bulk edit ${batchId} not found`);
+        if (priceChanges.some(c => c.batchId === batchId && c.source === 'bulk_revert')) throw new Error(`Bulk edit ${batchId} has already been reverted`);
+        // Every product is checked before any price changes back
+        const reverted = batch.flatMap(change => {
+          const product = products.find(p => p.id === change.productId);
+          return product ? [{ change, product }] : [];
+        });
+        const repriced = reverted.filter(({ change, product }) => product.buyPrice !== change.newBuyPrice || product.sellPrice !== change.newSellPrice);
+        if (repriced.length > 0) throw new Error(`The prices of ${repriced.map(r => r.product.name).join(', ')} were changed since the bulk edit`);
+
+        const now = new Date().toISOString();
+        const changes = reverted.map(({ change, product }) => {
+          replaceProduct({ ...product, buyPrice: change.oldBuyPrice, sellPrice: change.oldSellPrice, updatedAt: now });
+          const revert: PriceChange = {
+            id: newId(priceChanges), productId: product.id, productName: product.name,
+            oldBuyPrice: product.buyPrice, newBuyPrice: change.oldBuyPrice, oldSellPrice: product.sellPrice, newSellPrice: change.oldSellPrice,
+            source: 'bulk_revert', batchId, bulkUpdate: change.bulkUpdate, createdAt: now, ownerId: change.ownerId,
+          };
+          priceChanges = [revert, ...priceChanges];
+          return revert;
+        });
+        return { products: products.filter(p => reverted.some(r => r.product.id === p.id)).map(clone), changes: changes.map(clone) };
+      },
+    },
+    inventoryCounts: {
+      list: async () => [...inventoryCounts].sort(byNewestFirst).map(clone),
+      // Mirrors the start_inventory_count, record_inventory_count and post_inventory_count SQL functions.
+      start: async (scope) => {
+        if (scope.supplierId !== undefined) findSupplier(scope.supplierId);
+        const countId = newId(inventoryCounts);
+        const allLines = inventoryCounts.flatMap(c => c.lines);
+        const lines: InventoryCountLine[] = [];
+        const inScope = countableProducts(products, scope).sort((a, b) => a.name.localeCompare(b.name));
+        for (const product of inScope) {
+          const variants = product.variants?.length ? product.variants : [undefined];
+          for (const variant of variants) {
+            lines.push({
+              id: newId([...allLines, ...lines]), inventoryCountId: countId, productId: product.id, variantId: variant?.id,
+              productName: product.name, variantName: variant ? variantLabel(variant) : undefined,
+            });
+          }
+        }
+        if (lines.length === 0) throw new Error('No products to count');
+
+        const now = new Date().toISOString();
+        const count: InventoryCount = {
+          id: countId, category: scope.category || undefined, supplierId: scope.supplierId, status: 'in_progress', lines, createdAt: now, updatedAt: now,
+        };
+        inventoryCounts = [count, ...inventoryCounts];
+        return clone(count);
+      },
+      record: async (lineId, counted) => {
+        const count = inventoryCounts.find(c => c.lines.some(l => l.id === lineId));
+        if (!count) throw new Error(`Inventory count line ${lineId} not found`);
+        if (count.status !== 'in_progress') throw new Error(`Inventory count ${count.id} has already been posted`);
+        if (counted !== null && (!Number.isInteger(counted) || counted < 0)) throw new Error(`Cannot count ${counted} units`);
+        const line: InventoryCountLine = { ...count.lines.find(l => l.id === lineId)!, counted: counted ?? undefined };
+        const updated: InventoryCount = { ...count, lines: count.lines.map(l => l.id === lineId ? line : l) };
+        inventoryCounts = inventoryCounts.map(c => c.id === count.id ? updated : c);
+        return clone(line);
+      },
+      post: async (id) => {
+        const count = findInventoryCount(id);
+        if (count.status !== 'in_progress') throw new Error(`Inventory count ${id} has already been posted`);
+        if (!count.lines.some(l => l.counted !== undefined)) throw new Error('Nothing has been counted yet');
+
+        const adjustedIds = new Set<number>();
+        const movements: StockMovement[] = [];
+        const lines = count.lines.map(line => {
+          const product = products.find(p => p.id === line.productId);
+          if (line.counted === undefined || !product) return line;
+          if (line.variantId !== undefined) {
+            const variant = product.variants?.find(v => v.id === line.variantId);
+            if (!variant) return line;
+            replaceProduct(withVariants(product, product.variants!.map(v => v.id === variant.id ? { ...v, stock: line.counted! } : v)));
+            adjustedIds.add(product.id);
+            movements.push(...logStockMovement(product.id, variant.id, line.variantName, line.counted - variant.stock, 'count_correction', id));
+            return { ...line, expected: variant.stock, unitCost: variant.buyPrice };
+          }
+          // A product that has been given variants since takes its stock from them
+          if (product.variants?.length) return line;
+          replaceProduct({
+            ...product, stock: line.counted,
+            status: line.counted > 0 ? 'actif' : 'rupture', updatedAt: new Date().toISOString(),
+          });
+          adjustedIds.add(product.id);
+          movements.push(...logStockMovement(product.id, undefined, undefined, line.counted - product.stock, 'count_correction', id));
+          return { ...line, expected: product.stock, unitCost: product.buyPrice };
+        });
+
+        const now = new Date().toISOString();
+        const posted: InventoryCount = { ...count, lines, status: 'posted', postedAt: now, updatedAt: now };
+        inventoryCounts = inventoryCounts.map(c => c.id === id ? posted : c);
+        return { count: clone(posted), products: products.filter(p => adjustedIds.has(p.id)).map(clone), movements };
+      },
+      remove: async (id) => {
+        if (findInventoryCount(id).status !== 'in_progress') throw new Error(`Inventory count ${id} has already been posted`);
+        inventoryCounts = inventoryCounts.filter(c => c.id !== id);
+      },
+    },
+    stockLocations: {
+      list: async () => [...stockLocations].sort((a, b) => a.name.localeCompare(b.name)).map(clone),
+      create: async (input) => {
+        const name = input.name.trim();
+        if (!name) throw new Error('A location needs a name');
+        const now = new Date().toISOString();
+        const location: StockLocation = { ...input, name, id: newId(stockLocations), createdAt: now, updatedAt: now };
+        stockLocations = [...stockLocations, location];
+        return clone(location);
+      },
+      update: async (id, changes) => {
+        const current = findStockLocation(id);
+        const name = changes.name !== undefined ? changes.name.trim() : current.name;
+        if (!name) throw new Error('A location needs a name');
+        const updated: StockLocation = { ...current, ...changes, name, updatedAt: new Date().toISOString() };
+        stockLocations = stockLocations.map(l => l.id === id ? updated : l);
+        return clone(updated);
+      },
+      remove: async (id) => {
+        findStockLocation(id);
+        stockLocations = stockLocations.filter(l => l.id !== id);
+        stockLevels = stockLevels.filter(l => l.locationId !== id);
+        stockTransfers = stockTransfers.filter(t => t.fromLocationId !== id && t.toLocationId !== id);
+        deliveries = deliveries.map(d => d.locationId === id ? { ...d, locationId: undefined } : d);
+      },
+    },
+    // Mirror the send, receive and cancel_stock_transfer SQL functions
+    stockTransfers: {
+      list: async () => {
+        fitLevels();
+        return [...stockTransfers].sort(byNewestFirst).map(clone);
+      },
+      levels: async () => {
+        fitLevels();
+        return stockLevels.map(clone);
+      },
+      send: async (input) => {
+        fitLevels();
+        const product = findProduct(input.productId);
+        const variant = input.variantId !== undefined ? findOwnVariant(product, input.variantId) : undefined;
+        if (!variant && product.variants?.length) throw new Error(`Choose a variant of ${product.name}`);
+        if (input.fromLocationId !== undefined) findStockLocation(input.fromLocationId);
+        if (input.toLocationId !== undefined) findStockLocation(input.toLocationId);
+        if (input.fromLocationId === input.toLocationId) throw new Error('A transfer must go to another location');
+        if (!Number.isInteger(input.quantity) || input.quantity < 1) throw new Error('A transfer needs at least one unit');
+        if (availableAt(product, input.variantId, input.fromLocationId, stockLevels, stockTransfers) < input.quantity) {
+          throw new Error(`Insufficient stock for ${product.name} at the origin`);
+        }
+        const levels = input.fromLocationId !== undefined ? [addToLevel(product.id, input.variantId, input.fromLocationId, -input.quantity)] : [];
+        const transfer: StockTransfer = {
+          ...input, id: newId(stockTransfers), productName: product.name, variantName: variant && variantLabel(variant),
+          status: 'in_transit', createdAt: new Date().toISOString(),
+        };
+        stockTransfers = [transfer, ...stockTransfers];
+        return { transfer: clone(transfer), levels: levels.map(clone) };
+      },
+      receive: async (id) => {
+        fitLevels();
+        const transfer = findStockTransfer(id);
+        if (transfer.status !== 'in_transit') throw new Error(`Transfer ${id} has already been received`);
+        const received: StockTransfer = { ...transfer, status: 'received', receivedAt: new Date().toISOString() };
+        stockTransfers = stockTransfers.map(t => t.id === id ? received : t);
+        const levels = transfer.toLocationId !== undefined ? [addToLevel(transfer.productId, transfer.variantId, transfer.toLocationId, transfer.quantity)] : [];
+        return { transfer: clone(received), levels: levels.map(clone) };
+      },
+      cancel: async (id) => {
+        fitLevels();
+        const transfer = findStockTransfer(id);
+        if (transfer.status !== 'in_transit') throw new Error(`Transfer ${id} has already been received`);
+        stockTransfers = stockTransfers.filter(t => t.id !== id);
+        const levels = transfer.fromLocationId !== undefined ? [addToLevel(transfer.productId, transfer.variantId, transfer.fromLocationId, transfer.quantity)] : [];
+        return { levels: levels.map(clone) };
+      },
+    },
+    // Mirror the create, confirm and cancel_delivery SQL functions
+    deliveries: {
+      list: async () => [...deliveries].sort(byNewestFirst).map(clone),
+      create: async (input) => {
+        fitLevels();
+        const product = findProduct(input.productId);
+        const variant = input.variantId !== undefined ? findOwnVariant(product, input.variantId) : undefined;
+        if (!variant && product.variants?.length) throw new Error(`Choose a variant of ${product.name}`);
+        if (input.customerId !== undefined) findCustomer(input.customerId);
+        if (input.locationId !== undefined) findStockLocation(input.locationId);
+        if (!Number.isInteger(input.quantity) || input.quantity < 1) throw new Error('A delivery needs at least one unit');
+        if (availableAt(product, input.variantId, input.locationId, stockLevels, stockTransfers) < input.quantity) {
+          throw new Error(`Insufficient stock for ${product.name} at the origin`);
+        }
+        const levels = input.locationId !== undefined ? [addToLevel(product.id, input.variantId, input.locationId, -input.quantity)] : [];
+        const consumed = consumeCostLayers(layersOf(product, variant?.id), input.quantity, settings.costingMethod, variant?.buyPrice ?? product.buyPrice);
+        const updated = replaceProduct(withCostLayers(variant
+          ? withVariants(product, product.variants!.map(v => v.id === variant.id ? { ...v, stock: v.stock - input.quantity } : v))
+          : { ...product, stock: product.stock - input.quantity, status: product.stock === input.quantity ? 'rupture' as const : 'actif' as const, updatedAt: new Date().toISOString() },
+        variant?.id, consumed.layers));
+        const unitPrice = variant?.sellPrice ?? product.sellPrice;
+        const now = new Date().toISOString();
+        const delivery: Delivery = {
+          ...input, id: newId(deliveries), productName: product.name, variantName: variant && variantLabel(variant),
+          unitPrice, unitCost: Math.round(consumed.cost / input.quantity * 100) / 100, codAmount: input.codAmount ?? unitPrice * input.quantity,
+          status: 'pending', createdAt: now, updatedAt: now, ownerId: product.ownerId,
+        };
+        deliveries = [delivery, ...deliveries];
+        const movements = logStockMovement(product.id, delivery.variantId, delivery.variantName, -input.quantity, 'delivery', delivery.id);
+        return { delivery: clone(delivery), product: clone(updated), levels: levels.map(clone), movements };
+      },
+      update: async (id, changes) => {
+        const current = findDelivery(id);
+        assertOpen(current);
+        if (changes.customerId !== undefined) findCustomer(changes.customerId);
+        if (changes.codAmount !== undefined && changes.codAmount < 0) throw new Error('The amount to collect cannot be negative');
+        const updated: Delivery = { ...current, ...changes, updatedAt: new Date().toISOString() };
+        deliveries = deliveries.map(d => d.id === id ? updated : d);
+        return clone(updated);
+      },
+      confirm: async (id, customerId) => {
+        const delivery = findDelivery(id);
+        assertOpen(delivery);
+        if (delivery.productId === null) throw new Error(`${delivery.productName} no longer exists and cannot be sold`);
+        if (customerId !== undefined) findCustomer(customerId);
+        const now = new Date().toISOString();
+        // Cash a courier collects reaches us with its payout; without one, it was handed over at the door
+        const courierCollects = delivery.codAmount > 0 && !!delivery.courier;
+        const tax = productTax(findProduct(delivery.productId), taxRates, delivery.unitPrice * delivery.quantity);
+        const sale: Sale = {
+          id: newId(sales), productId: delivery.productId, productName: delivery.productName,
+          variantId: delivery.variantId, variantName: delivery.variantName, customerId: customerId ?? delivery.customerId,
+          quantity: delivery.quantity, listPrice: delivery.unitPrice, sellPrice: delivery.unitPrice, totalPrice: tax.gross,
+          totalMargin: Math.round((tax.net - delivery.unitCost * delivery.quantity) * 100) / 100,
+          taxRate: tax.taxRate, netAmount: tax.net, taxAmount: tax.tax,
+          payments: [{ method: courierCollects ? 'cod' : 'cash', amount: tax.gross }],
+          paymentStatus: courierCollects ? 'awaiting_cod' : 'paid', createdAt: now, ownerId: delivery.ownerId,
+        };
+        const delivered: Delivery = { ...delivery, status: 'delivered', saleId: sale.id, deliveredAt: now, updatedAt: now };
+        sales = [sale, ...sales];
+        deliveries = deliveries.map(d => d.id === id ? delivered : d);
+        return { delivery: clone(delivered), sale: clone(sale) };
+      },
+      cancel: async (id) => {
+        fitLevels();
+        const delivery = findDelivery(id);
+        assertOpen(delivery);
+        const product = restockSold(delivery, delivery.quantity, delivery.unitCost);
+        const stillHeld = !!product && (delivery.variantId === undefined || !!product.variants?.some(v => v.id === delivery.variantId));
+        const levels = stillHeld && delivery.locationId !== undefined
+          ? [addToLevel(product!.id, delivery.variantId, delivery.locationId, delivery.quantity)]
+          : [];
+        const cancelled: Delivery = { ...delivery, status: 'cancelled', updatedAt: new Date().toISOString() };
+        deliveries = deliveries.map(d => d.id === id ? cancelled : d);
+        const movements = product ? logStockMovement(delivery.productId, delivery.variantId, delivery.variantName, delivery.quantity, 'delivery', id) : [];
+        return { delivery: clone(cancelled), product, levels: levels.map(clone), movements };
+      },
+    },
+    // Mirror the record and delete_cod_remittance SQL functions
+    codRemittances: {
+      list: async () => [...codRemittances].sort((a, b) => new Date(b.paidAt).getTime() - new Date(a.paidAt).getTime()).map(clone),
+      record: async (input) => {
+        const courier = input.courier.trim();
+        if (!courier) throw new Error('A payout needs the courier who made it');
+        if (input.deliveryIds.length === 0) throw new Error('A payout must settle at least one delivery');
+        if (input.amount < 0) throw new Error('The amount received cannot be negative');
+        const settled = [...new Set(input.deliveryIds)].map(id => {
+          const delivery = findDelivery(id);
+          const sale = sales.find(s => s.id === delivery.saleId);
+          if (delivery.status !== 'delivered' || sale?.paymentStatus !== 'awaiting_cod') throw new Error(`Delivery ${id} has no cash awaiting payment`);
+          return { delivery, sale };
+        });
+        const collected = settled.reduce((sum, { delivery }) => sum + delivery.codAmount, 0);
+        if (input.amount > collected) throw new Error('The amount received cannot exceed what the deliveries collected');
+        const remittance: CodRemittance = {
+          id: newId(codRemittances), courier, reference: input.reference?.trim() || undefined, amount: input.amount,
+          codTotal: collected, paidAt: input.paidAt, notes: input.notes,
+          createdAt: new Date().toISOString(), ownerId: settled[0].sale.ownerId,
+        };
+        const paid = settled.map(({ sale }): Sale => ({ ...sale, paymentStatus: 'paid', remittanceId: remittance.id }));
+        codRemittances = [remittance, ...codRemittances];
+        sales = sales.map(s => paid.find(p => p.id === s.id) || s);
+        return { remittance: clone(remittance), sales: paid.map(clone) };
+      },
+      remove: async (id) => {
+        if (!codRemittances.some(r => r.id === id)) throw new Error(`Payout ${id} not found`);
+        const unpaid = sales.filter(s => s.remittanceId === id).map((s): Sale => ({ ...s, paymentStatus: 'awaiting_cod', remittanceId: undefined }));
+        codRemittances = codRemittances.filter(r => r.id !== id);
+        sales = sales.map(s => unpaid.find(u => u.id === s.id) || s);
+        return { sales: unpaid.map(clone) };
+      },
+    },
+    promotions: {
+      list: async () => [...promotions].sort((a, b) => b.startsAt.localeCompare(a.startsAt)).map(clone),
+      create: async (input) => {
+        assertPromotion(input);
+        const promotion: Promotion = { ...input, name: input.name.trim(), id: newId(promotions), createdAt: new Date().toISOString() };
+        promotions = [...promotions, promotion];
+        return clone(promotion);
+      },
+      update: async (id, changes) => {
+        const current = promotions.find(p => p.id === id);
+        if (!current) throw new Error(`Promotion ${id} not found`);
+        const updated: Promotion = { ...current, ...changes };
+        assertPromotion(updated);
+        updated.name = updated.name.trim();
+        promotions = promotions.map(p => p.id === id ? updated : p);
+        return clone(updated);
+      },
+      remove: async (id) => {
+        promotions = promotions.filter(p => p.id !== id);
+        sales = sales.map(s => s.promotionId === id ? { ...s, promotionId: undefined } : s);
+      },
+    },
+    taxRates: {
+      list: async () => [...taxRates].sort((a, b) => a.category.localeCompare(b.category)).map(clone),
+      save: async (input) => {
+        assertTaxRate(input.rate);
+        const category = input.category.trim();
+        if (!category) throw new Error('A TVA rate needs the category it applies to');
+        const current = taxRates.find(r => r.category === category);
+        const taxRate: TaxRate = current
+          ? { ...current, rate: input.rate }
+          : { ...input, category, id: newId(taxRates), createdAt: new Date().toISOString() };
+        taxRates = current ? taxRates.map(r => r.id === current.id ? taxRate : r) : [...taxRates, taxRate];
+        return clone(taxRate);
+      },
+      remove: async (id) => {
+        taxRates = taxRates.filter(r => r.id !== id);
+      },
+    },
+    landedCosts: {
+      list: async () => [...landedCosts].sort(byNewestFirst).map(clone),
+      // Mirrors the apply_landed_cost SQL function
+      apply: async (input) => {
+        assertLandedCost(input);
+        if (input.purchaseOrderId !== undefined && findPurchaseOrder(input.purchaseOrderId).status === 'draft') {
+          throw new Error(`Purchase order ${input.purchaseOrderId} is still a draft`);
+        }
+        // Every product is found before any buy price changes
+        const named = input.lines.map(line => {
+          const product = findProduct(line.productId);
+          const variant = line.variantId !== undefined ? findOwnVariant(product, line.variantId) : undefined;
+          return { ...line, productName: product.name, variantName: variant ? variantLabel(variant) : undefined };
+        });
+        const total = chargesTotal(input.charges);
+        const lines = allocateLandedCost(named, input.basis, total);
+
+        const now = new Date().toISOString();
+        const costedIds = new Set<number>();
+        for (const line of lines) {
+          const product = findProduct(line.productId);
+          const repriced: Product = line.variantId !== undefined
+            ? withVariants(product, product.variants!.map(v => v.id === line.variantId ? { ...v, buyPrice: line.landedUnitCost } : v))
+            : { ...product, buyPrice: line.landedUnitCost, updatedAt: now };
+          const layers = raiseCostLayers(layersOf(product, line.variantId), line.quantity, line.allocated, input.purchaseOrderId);
+          replaceProduct(withCostLayers(repriced, line.variantId, layers));
+          costedIds.add(product.id);
+        }
+
+        const allocation: LandedCost = {
+          id: newId(landedCosts), purchaseOrderId: input.purchaseOrderId, reference: input.reference?.trim() || undefined, basis: input.basis,
+          charges: input.charges.map(c => ({ label: c.label.trim(), amount: c.amount })), total, lines, createdAt: now,
+        };
+        landedCosts = [allocation, ...landedCosts];
+        return { landedCost: clone(allocation), products: products.filter(p => costedIds.has(p.id)).map(clone) };
+      },
+    },
+    stockLots: {
+      create: async (input) => {
+        const product = findProduct(input.productId);
+        if (input.variantId !== undefined) findOwnVariant(product, input.variantId);
+        else if (product.variants?.length) throw new Error(`Choose a variant of ${product.name}`);
+        if (!Number.isInteger(input.quantity) || input.quantity < 1) throw new Error(`Invalid lot quantity ${input.quantity}`);
+        const stock = input.variantId !== undefined ? findOwnVariant(product, input.variantId).stock : product.stock;
+        const lotted = lotsOf(product, input.variantId).reduce((sum, l) => sum + l.quantity, 0);
+        if (lotted + input.quantity > stock) throw new Error(`Only ${stock - lotted} units of ${product.name} are not in a lot`);
+        const lot = newStockLot({ ...input, purchaseOrderId: undefined });
+        return clone(replaceProduct({ ...product, lots: [...(product.lots || []), lot] }));
+      },
+      remove: async (id) => {
+        const product = products.find(p => p.lots?.some(l => l.id === id));
+        if (!product) throw new Error(`Lot ${id} not found`);
+        return clone(replaceProduct({ ...product, lots: product.lots!.filter(l => l.id !== id) }));
+      },
+    },
+    settings: {
+      get: async () => clone(settings),
+      save: async (changes) => {
+        if (changes.costingMethod !== undefined && !COSTING_METHODS.includes(changes.costingMethod)) throw new Error(`Unknown costing method ${changes.costingMethod}`);
+        settings = { ...settings, ...changes };
+        return clone(settings);
+      },
+    },
+    images: {
+      // Object URLs stay valid until the page is unloaded, which matches the lifetime of the store.
+      upload: async (file) => URL.createObjectURL(file),
+      remove: async (imageUrl) => {
+        if (imageUrl.startsWith('blob:')) URL.revokeObjectURL(imageUrl);
+      },
+    },
+    // A single tab is the only writer, so there are never outside changes to report.
+    subscribe: () => () => {},
+  };
+};
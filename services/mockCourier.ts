@@ -0,0 +1,75 @@
+import type { CourierRemittance, ShipmentStatus } from '../types';
+import type { CourierAdapter, ShipmentRequest } from './couriers';
+
+// A carrier that lives in this browser, to try the courier workflow without an account anywhere.
+// Parcels only move when someone moves them from the Settings page.
+
+const SHIPMENTS_KEY = 'mockCourierShipments';
+const REMITTANCES_KEY = 'mockCourierRemittances';
+
+// What the carrier keeps back on each delivered parcel
+const FEE_PER_PARCEL = 400;
+
+export interface MockShipment extends ShipmentRequest {
+  trackingNumber: string;
+  status: ShipmentStatus;
+  createdAt: string;
+  updatedAt: string;
+  remittanceId?: string; // Set once its cash has been paid over
+}
+
+const read = <T>(key: string): T[] => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const write = <T>(key: string, records: T[]) => localStorage.setItem(key, JSON.stringify(records));
+
+const newTrackingNumber = () => `MCK${Date.now().toString().slice(-6)}${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}`;
+
+export const mockCourier: CourierAdapter = {
+  name: 'Mock Express',
+  createShipment: async (shipment) => {
+    const now = new Date().toISOString();
+    const created: MockShipment = { ...shipment, trackingNumber: newTrackingNumber(), status: 'pending', createdAt: now, updatedAt: now };
+    write(SHIPMENTS_KEY, [created, ...read<MockShipment>(SHIPMENTS_KEY)]);
+    return { trackingNumber: created.trackingNumber };
+  },
+  fetchStatuses: async (trackingNumbers) =>
+    read<MockShipment>(SHIPMENTS_KEY)
+      .filter(s => trackingNumbers.includes(s.trackingNumber))
+      .map(({ trackingNumber, status, updatedAt }) => ({ trackingNumber, status, updatedAt })),
+  fetchRemittances: async (since) =>
+    read<CourierRemittance>(REMITTANCES_KEY).filter(r => !since || r.paidAt >= since),
+};
+
+// The controls standing in for the carrier's own staff
+export const mockCourierDesk = {
+  shipments: (): MockShipment[] => read<MockShipment>(SHIPMENTS_KEY),
+  setStatus: (trackingNumber: string, status: ShipmentStatus) => {
+    const updatedAt = new Date().toISOString();
+    write(SHIPMENTS_KEY, read<MockShipment>(SHIPMENTS_KEY).map(s => s.trackingNumber === trackingNumber ? { ...s, status, updatedAt } : s));
+  },
+  // Pays over the cash of every delivered parcel not paid yet, or returns null when there is none
+  remit: (): CourierRemittance | null => {
+    const shipments = read<MockShipment>(SHIPMENTS_KEY);
+    const due = shipments.filter(s => s.status === 'delivered' && !s.remittanceId);
+    if (due.length === 0) return null;
+    const remittance: CourierRemittance = {
+      id: `RMT${Date.now()}`,
+      courier: mockCourier.name,
+      paidAt: new Date().toISOString(),
+      lines: due.map(s => ({ trackingNumber: s.trackingNumber, codAmount: s.codAmount, fee: FEE_PER_PARCEL })),
+    };
+    write(REMITTANCES_KEY, [remittance, ...read<CourierRemittance>(REMITTANCES_KEY)]);
+    write(SHIPMENTS_KEY, shipments.map(s => due.includes(s) ? { ...s, remittanceId: remittance.id } : s));
+    return remittance;
+  },
+  clear: () => {
+    localStorage.removeItem(SHIPMENTS_KEY);
+    localStorage.removeItem(REMITTANCES_KEY);
+  },
+};
@@ -0,0 +1,27 @@
+import type { PurchaseOrder } from '../types';
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// Offered for the shop and for purchase orders: the local ones, and those goods are usually imported in
+export const CURRENCIES = ['DZD', 'EUR', 'USD', 'CNY', 'GBP', 'TRY', 'AED', 'MAD', 'TND'];
+
+export const DEFAULT_CURRENCY = 'DZD';
+
+export const formatMoney = (amount: number, currency: string, locale: string, options?: Intl.NumberFormatOptions) =>
+  amount.toLocaleString(locale, { style: 'currency', currency, ...options });
+
+// An order in the shop's currency has no rate: its costs are taken as they are
+export const isForeignOrder = (order: Pick<PurchaseOrder, 'currency'>) => order.currency !== undefined;
+
+// What a unit cost in the order's currency comes to in the shop's, to the cent
+export const landedCost = (unitCost: number, exchangeRate = 1) => toCents(unitCost * exchangeRate) / 100;
+
+// The other way round, to suggest a price in the supplier's currency from what was last paid
+export const foreignCost = (buyPrice: number, exchangeRate = 1) => toCents(buyPrice / exchangeRate) / 100;
+
+export const exchangeRateError = (rate: number | undefined): 'invalid_rate' | null =>
+  rate === undefined || isNaN(rate) || rate <= 0 ? 'invalid_rate' : null;
+
+export const assertExchangeRate = (currency: string | undefined, rate: number | undefined) => {
+  if (currency !== undefined && exchangeRateError(rate)) throw new Error(`An order in ${currency} needs an exchange rate above 0`);
+};
@@ -0,0 +1,811 @@
+import type { PurchaseOrder, InventoryCount, StockLocation, StockLevel, StockTransfer, Supplier, Sale, CodRemittance, Promotion, TaxRate, LandedCost, Product } from '../types';
+import type { Repositories, RecordChange, StockMovementInput } from './repository';
+import { createMemoryRepositories } from './memoryRepository';
+import { offlineStore } from './offlineStore';
+import { applyVariantChange, keepVariants, variantLabel } from './variants';
+import { applyPurchaseOrderLineChange, keepLines } from './purchaseOrders';
+import { applyInventoryCountLineChange, keepCountLines } from './inventoryCounts';
+import { DEFAULT_COSTING_METHOD, applyCostLayerChange, keepCostLayers } from './costLayers';
+import { applyStockLotChange, keepStockLots } from './stockLots';
+import type { Replica, OutboxEntry, OutboxOperation, OutboxArgs, OutboxResult } from './offlineStore';
+
+export interface SyncConflict {
+  entry: OutboxEntry;
+  message: string;
+}
+
+export interface Outbox {
+  /** Replays queued mutations in order. Stops at the first network failure and keeps the rest queued. */
+  sync: () => Promise<void>;
+  onChange: (listener: (entries: OutboxEntry[]) => void) => () => void;
+  /**
+   * Called after a sync with the mutations the server rejected, and those queued on records they created.
+   * They are dropped from the outbox, and the records they created offline from the replica.
+   */
+  onConflicts: (listener: (conflicts: SyncConflict[]) => void) => () => void;
+}
+
+// Sale orders have no collection of their own: their ids live on the sales that make them up, as variants live on their products.
+// Settings have no ids.
+type IdMaps = Record<Exclude<keyof Replica, 'settings'> | 'saleOrders' | 'variants', Map<number, number>>;
+
+const emptyIdMaps = (): IdMaps => ({
+  products: new Map(), sales: new Map(), activityLog: new Map(), purchaseOrders: new Map(), suppliers: new Map(), customers: new Map(), saleReturns: new Map(), stockMovements: new Map(), priceChanges: new Map(), inventoryCounts: new Map(), stockLocations: new Map(), stockLevels: new Map(), stockTransfers: new Map(), deliveries: new Map(), codRemittances: new Map(), promotions: new Map(), taxRates: new Map(), landedCosts: new Map(), saleOrders: new Map(), variants: new Map(),
+});
+
+const emptyReplica = (): Replica => ({ products: [], sales: [], activityLog: [], purchaseOrders: [], suppliers: [], customers: [], saleReturns: [], stockMovements: [], priceChanges: [], inventoryCounts: [], stockLocations: [], stockLevels: [], stockTransfers: [], deliveries: [], codRemittances: [], promotions: [], taxRates: [], landedCosts: [], settings: { costingMethod: DEFAULT_COSTING_METHOD } });
+
+const DEPENDS_ON_REJECTED = 'Depends on a change the server rejected';
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error);
+
+// supabase-js wraps fetch failures in its own error objects, so they are recognised by their message.
+export const isNetworkError = (error: unknown) =>
+  !navigator.onLine || /failed to fetch|networkerror|network request failed|load failed/i.test(errorMessage(error));
+
+// Records created offline get negative ids, so they never collide with ids handed out by the server.
+const temporaryId = (records: { id: number }[]) => records.reduce((min, r) => Math.min(min, r.id), 0) - 1;
+
+const putRecords = <T extends { id: number }>(records: T[], incoming: T[]): T[] => [
+  ...incoming.filter(record => !records.some(r => r.id === record.id)),
+  ...records.map(r => incoming.find(record => record.id === r.id) || r),
+];
+
+const dropRecords = <T extends { id: number }>(records: T[], ids: number[]): T[] => records.filter(r => !ids.includes(r.id));
+
+const applyRecordChange = <T extends { id: number }>(records: T[], change: RecordChange<T>): T[] =>
+  change.type === 'delete' ? dropRecords(records, [change.id]) : putRecords(records, [change.record]);
+
+// What an operation was called with and what it returned, typed together so checking the operation narrows both.
+// Code generic over the operation cannot narrow, so it hands its calls over as this union.
+type OperationCall = { [O in OutboxOperation]: { operation: O; args: OutboxArgs<O>; result: OutboxResult<O> } }[OutboxOperation];
+
+// A queued mutation with what the server returned when it was replayed
+type ReplayedEntry = { [O in OutboxOperation]: OutboxEntry<O> & { result: OutboxResult<O> } }[OutboxOperation];
+
+const call = <O extends OutboxOperation>(repositories: Repositories, operation: O, args: OutboxArgs<O>): Promise<OutboxResult<O>> => {
+  const [collection, method] = operation.split('.') as [keyof Repositories, string];
+  return (repositories[collection] as unknown as Record<string, (...args: OutboxArgs<O>) => Promise<OutboxResult<O>>>)[method](...args);
+};
+
+// Keeps the replica in step with what a mutation did on the server.
+const applyResult = (replica: Replica, { operation, args, result }: OperationCall): Replica => {
+  switch (operation) {
+    case 'products.create':
+    case 'products.update':
+    case 'products.saveVariants':
+      return { ...replica, products: putRecords(replica.products, [result.product]), stockMovements: putRecords(replica.stockMovements, result.movements) };
+    case 'products.remove':
+      return { ...replica, products: dropRecords(replica.products, [args[0]]) };
+    case 'products.removeMany':
+      return { ...replica, products: dropRecords(replica.products, args[0]) };
+    case 'sales.record':
+      return {
+        ...replica,
+        products: putRecords(replica.products, [result.product]),
+        sales: putRecords(replica.sales, [result.sale]),
+        stockMovements: putRecords(replica.stockMovements, result.movements),
+      };
+    case 'sales.cancel':
+      return {
+        ...replica,
+        products: result.product ? putRecords(replica.products, [result.product]) : replica.products,
+        sales: dropRecords(replica.sales, [args[0]]),
+        stockMovements: putRecords(replica.stockMovements, result.movements),
+      };
+    case 'sales.checkout':
+      return {
+        ...replica,
+        products: putRecords(replica.products, result.products),
+        sales: putRecords(replica.sales, result.sales),
+        stockMovements: putRecords(replica.stockMovements, result.movements),
+      };
+    case 'sales.cancelOrder':
+      return {
+        ...replica,
+        products: putRecords(replica.products, result.products),
+        sales: replica.sales.filter(s => s.orderId !== args[0]),
+        stockMovements: putRecords(replica.stockMovements, result.movements),
+      };
+    case 'activityLog.create':
+      return { ...replica, activityLog: putRecords(replica.activityLog, [result]) };
+    case 'customers.create':
+    case 'customers.update':
+      return { ...replica, customers: putRecords(replica.customers, [result]) };
+    case 'customers.remove':
+      return {
+        ...replica,
+        customers: dropRecords(replica.customers, [args[0]]),
+        sales: replica.sales.map(s => s.customerId === args[0] ? { ...s, customerId: undefined } : s),
+        deliveries: replica.deliveries.map(d => d.customerId === args[0] ? { ...d, customerId: undefined } : d),
+      };
+    case 'saleReturns.create':
+      return {
+        ...replica,
+        products: result.product ? putRecords(replica.products, [result.product]) : replica.products,
+        saleReturns: putRecords(replica.saleReturns, [result.saleReturn]),
+        stockMovements: putRecords(replica.stockMovements, result.movements),
+      };
+    case 'stockMovements.create':
+      return { ...replica, stockMovements: putRecords(replica.stockMovements, result) };
+    case 'priceChanges.create':
+      return { ...replica, priceChanges: putRecords(replica.priceChanges, result) };
+    case 'deliveries.create':
+    case 'deliveries.cancel':
+      return {
+        ...replica,
+        products: result.product ? putRecords(replica.products, [result.product]) : replica.products,
+        stockLevels: putRecords(replica.stockLevels, result.levels),
+        deliveries: putRecords(replica.deliveries, [result.delivery]),
+        stockMovements: putRecords(replica.stockMovements, result.movements),
+      };
+    case 'deliveries.update':
+      return { ...replica, deliveries: putRecords(replica.deliveries, [result]) };
+    case 'deliveries.confirm':
+      return { ...replica, sales: putRecords(replica.sales, [result.sale]), deliveries: putRecords(replica.deliveries, [result.delivery]) };
+  }
+};
+
+const touchedIds = ({ operation, args, result: localResult }: OperationCall): Pick<OutboxEntry, 'productIds' | 'saleIds'> => {
+  switch (operation) {
+    case 'products.create':
+      return { productIds: [localResult.product.id], saleIds: [] };
+    case 'products.update':
+    case 'products.remove':
+    case 'products.saveVariants':
+      return { productIds: [args[0]], saleIds: [] };
+    case 'products.removeMany':
+      return { productIds: args[0], saleIds: [] };
+    case 'sales.record':
+      return { productIds: [args[0]], saleIds: [localResult.sale.id] };
+    case 'sales.cancel':
+    case 'saleReturns.create':
+      return { productIds: localResult.product ? [localResult.product.id] : [], saleIds: [args[0]] };
+    case 'deliveries.create':
+    case 'deliveries.cancel':
+      return { productIds: localResult.product ? [localResult.product.id] : [], saleIds: [] };
+    case 'deliveries.confirm':
+      return { productIds: [], saleIds: [localResult.sale.id] };
+    case 'sales.checkout':
+      return { productIds: args[0].lines.map(line => line.productId), saleIds: localResult.sales.map(sale => sale.id) };
+    case 'sales.cancelOrder':
+      return { productIds: localResult.products.map(product => product.id), saleIds: [] };
+    case 'activityLog.create':
+    case 'stockMovements.create':
+    case 'priceChanges.create':
+    case 'customers.create':
+    case 'customers.update':
+    case 'customers.remove':
+    case 'deliveries.update':
+      return { productIds: [], saleIds: [] };
+  }
+};
+
+// Names the product of a mutation that touches none in the replica, like a log entry or a delivery
+const namedProduct = ({ operation, args, result }: OperationCall): string | undefined => {
+  switch (operation) {
+    case 'activityLog.create':
+      return args[0].productName;
+    case 'deliveries.create':
+    case 'deliveries.confirm':
+    case 'deliveries.cancel':
+      return result.delivery.productName;
+  }
+  return undefined;
+};
+
+// The version check only makes sense against the server's copy, which a product with queued changes no longer matches.
+const withoutStaleVersion = (queued: OutboxEntry[], entry: OutboxEntry): OutboxEntry => {
+  if (entry.operation !== 'products.update') return entry;
+  const [id, changes, , stockNote] = entry.args;
+  return id < 0 || queued.some(e => e.productIds.includes(id)) ? { ...entry, args: [id, changes, undefined, stockNote] } : entry;
+};
+
+// Pairs the temporary ids a queued mutation created with the ids the server gave them on replay.
+const createdIds = ({ operation, localResult, result }: ReplayedEntry): IdMaps => {
+  const ids = emptyIdMaps();
+  const pair = (map: Map<number, number>, from: number, to: number) => { if (from < 0) map.set(from, to); };
+  if (operation === 'products.create') pair(ids.products, localResult.product.id, result.product.id);
+  if (operation === 'products.saveVariants') {
+    // The options tell a product's variants apart, whatever order they come back in
+    localResult.product.variants?.forEach(variant => {
+      const saved = result.product.variants?.find(v => variantLabel(v) === variantLabel(variant));
+      if (saved) pair(ids.variants, variant.id, saved.id);
+    });
+  }
+  if (operation === 'sales.record') pair(ids.sales, localResult.sale.id, result.sale.id);
+  if (operation === 'sales.checkout') {
+    // Both sides list the order's sales in the order of its lines
+    localResult.sales.forEach((sale, index) => pair(ids.sales, sale.id, result.sales[index].id));
+    pair(ids.saleOrders, localResult.sales[0].orderId, result.sales[0].orderId);
+  }
+  if (operation === 'activityLog.create') pair(ids.activityLog, localResult.id, result.id);
+  if (operation === 'customers.create') pair(ids.customers, localResult.id, result.id);
+  if (operation === 'saleReturns.create') pair(ids.saleReturns, localResult.saleReturn.id, result.saleReturn.id);
+  if (operation === 'deliveries.create') pair(ids.deliveries, localResult.delivery.id, result.delivery.id);
+  if (operation === 'deliveries.confirm') pair(ids.sales, localResult.sale.id, result.sale.id);
+  if (operation === 'stockMovements.create') {
+    localResult.forEach((movement, index) => pair(ids.stockMovements, movement.id, result[index].id));
+  }
+  // The movements a product edit, sale, return or delivery wrote locally give way to the server's, which come in the same order
+  switch (operation) {
+    case 'products.create':
+    case 'products.update':
+    case 'products.saveVariants':
+    case 'sales.record':
+    case 'sales.cancel':
+    case 'sales.checkout':
+    case 'sales.cancelOrder':
+    case 'saleReturns.create':
+    case 'deliveries.create':
+    case 'deliveries.cancel':
+      localResult.movements.forEach((movement, index) => pair(ids.stockMovements, movement.id, result.movements[index]?.id ?? movement.id));
+  }
+  if (operation === 'priceChanges.create') {
+    localResult.forEach((change, index) => pair(ids.priceChanges, change.id, result[index].id));
+  }
+  return ids;
+};
+
+const remapEntry = (entry: OutboxEntry, ids: IdMaps): OutboxEntry => {
+  const product = (id: number) => ids.products.get(id) ?? id;
+  const sale = (id: number) => ids.sales.get(id) ?? id;
+  // A customer created offline can be picked for a sale or a delivery queued after it
+  const customer = (id?: number) => id === undefined ? id : ids.customers.get(id) ?? id;
+  const saleOrder = (id: number) => ids.saleOrders.get(id) ?? id;
+  const delivery = (id: number) => ids.deliveries.get(id) ?? id;
+  const variant = (id?: number) => id === undefined ? id : ids.variants.get(id) ?? id;
+  // What a movement refers to depends on why it happened
+  const reference = ({ reason, referenceId }: StockMovementInput) => {
+    if (referenceId === undefined) return referenceId;
+    if (reason === 'sale') return sale(referenceId);
+    if (reason === 'return') return ids.saleReturns.get(referenceId) ?? referenceId;
+    if (reason === 'delivery') return delivery(referenceId);
+    return referenceId;
+  };
+  const remapped = { ...entry, productIds: entry.productIds.map(product), saleIds: entry.saleIds.map(sale) };
+  switch (remapped.operation) {
+    case 'products.update': {
+      const [id, ...rest] = remapped.args;
+      return { ...remapped, args: [product(id), ...rest] };
+    }
+    case 'products.remove':
+      return { ...remapped, args: [product(remapped.args[0])] };
+    case 'sales.record': {
+      const [productId, quantity, variantId, customerId, payments, pricing] = remapped.args;
+      return { ...remapped, args: [product(productId), quantity, variant(variantId), customer(customerId), payments, pricing] };
+    }
+    case 'products.saveVariants': {
+      const [id, variants, stockNote] = remapped.args;
+      // Variants created offline were replaced by server ones on replay, so they are sent as new again
+      return { ...remapped, args: [product(id), variants.map(({ id, ...variant }) => id !== undefined && id < 0 ? variant : { id, ...variant }), stockNote] };
+    }
+    case 'products.removeMany':
+      return { ...remapped, args: [remapped.args[0].map(product)] };
+    case 'sales.cancel':
+      return { ...remapped, args: [sale(remapped.args[0])] };
+    case 'saleReturns.create': {
+      const [saleId, saleReturn] = remapped.args;
+      return { ...remapped, args: [sale(saleId), saleReturn] };
+    }
+    case 'sales.checkout': {
+      const [order] = remapped.args;
+      return { ...remapped, args: [{ ...order, lines: order.lines.map(line => ({ ...line, productId: product(line.productId), variantId: variant(line.variantId) })), customerId: customer(order.customerId) }] };
+    }
+    case 'sales.cancelOrder':
+      return { ...remapped, args: [saleOrder(remapped.args[0])] };
+    case 'activityLog.create': {
+      const [logEntry] = remapped.args;
+      return { ...remapped, args: [{ ...logEntry, productId: product(logEntry.productId) }] };
+    }
+    case 'stockMovements.create':
+      return { ...remapped, args: [remapped.args[0].map(movement => ({ ...movement, productId: product(movement.productId), variantId: variant(movement.variantId), referenceId: reference(movement) }))] };
+    case 'priceChanges.create':
+      return { ...remapped, args: [remapped.args[0].map(change => ({ ...change, productId: product(change.productId) }))] };
+    case 'customers.update': {
+      const [id, changes] = remapped.args;
+      return { ...remapped, args: [customer(id), changes] };
+    }
+    case 'customers.remove':
+      return { ...remapped, args: [customer(remapped.args[0])] };
+    case 'deliveries.create': {
+      const [input] = remapped.args;
+      return { ...remapped, args: [{ ...input, productId: product(input.productId), variantId: variant(input.variantId), customerId: customer(input.customerId) }] };
+    }
+    case 'deliveries.update': {
+      const [id, changes] = remapped.args;
+      return { ...remapped, args: [delivery(id), { ...changes, ...('customerId' in changes ? { customerId: customer(changes.customerId) } : {}) }] };
+    }
+    case 'deliveries.confirm': {
+      const [id, customerId] = remapped.args;
+      return { ...remapped, args: [delivery(id), customer(customerId)] };
+    }
+    case 'deliveries.cancel':
+      return { ...remapped, args: [delivery(remapped.args[0])] };
+  }
+  return remapped;
+};
+
+// Whether a queued mutation refers to any of the temporary ids, which then cannot be replayed without them
+const refersTo = (entry: OutboxEntry, ids: IdMaps): boolean => {
+  const unresolved = emptyIdMaps();
+  (Object.keys(ids) as (keyof IdMaps)[]).forEach(kind => ids[kind].forEach((_, id) => unresolved[kind].set(id, 0)));
+  return JSON.stringify(remapEntry(entry, unresolved)) !== JSON.stringify(remapEntry(entry, emptyIdMaps()));
+};
+
+const mergeIdMaps = (ids: IdMaps, more: IdMaps): IdMaps => {
+  const merged = emptyIdMaps();
+  (Object.keys(merged) as (keyof IdMaps)[]).forEach(kind => { merged[kind] = new Map([...ids[kind], ...more[kind]]); });
+  return merged;
+};
+
+// The replica without the records created offline under the given temporary ids
+const withoutTemporary = (replica: Replica, ids: IdMaps): Replica => ({
+  ...replica,
+  products: dropRecords(replica.products, [...ids.products.keys()]).map(p =>
+    p.variants?.some(v => ids.variants.has(v.id)) ? { ...p, variants: dropRecords(p.variants, [...ids.variants.keys()]) } : p),
+  sales: dropRecords(replica.sales, [...ids.sales.keys()]),
+  activityLog: dropRecords(replica.activityLog, [...ids.activityLog.keys()]),
+  customers: dropRecords(replica.customers, [...ids.customers.keys()]),
+  saleReturns: dropRecords(replica.saleReturns, [...ids.saleReturns.keys()]),
+  stockMovements: dropRecords(replica.stockMovements, [...ids.stockMovements.keys()]),
+  priceChanges: dropRecords(replica.priceChanges, [...ids.priceChanges.keys()]),
+  deliveries: dropRecords(replica.deliveries, [...ids.deliveries.keys()]),
+});
+
+/**
+ * Wraps the remote repositories so the app keeps working without a connection.
+ * Every read and write is mirrored into an IndexedDB replica. Mutations that fail because the network is down
+ * are applied to the replica with the in-memory backend and queued in a durable outbox, then replayed in order.
+ */
+export const createOfflineRepositories = (remote: Repositories): { repositories: Repositories; outbox: Outbox } => {
+  let replica: Replica = emptyReplica();
+  let entries: OutboxEntry[] = [];
+  let syncing: Promise<void> | null = null;
+  const entryListeners = new Set<(entries: OutboxEntry[]) => void>();
+  const conflictListeners = new Set<(conflicts: SyncConflict[]) => void>();
+
+  const setEntries = (next: OutboxEntry[]) => {
+    entries = next;
+    entryListeners.forEach(listener => listener(entries));
+  };
+
+  const saveReplica = (next: Replica) => {
+    replica = next;
+    offlineStore.setReplica(next).catch(error => console.error("Error saving offline data:", error));
+  };
+
+  const ready = Promise.all([offlineStore.getReplica(), offlineStore.getOutbox()])
+    .then(([storedReplica, storedEntries]) => {
+      // Replicas saved by older versions lack the collections added since, and their sales lack payments, list prices and TVA.
+      // Their order lines kept the share of the order discount as their own discount.
+      if (storedReplica) {
+        replica = { ...emptyReplica(), ...storedReplica };
+        replica.sales = replica.sales.map(s => ({
+          ...s, payments: s.payments ?? [], listPrice: s.listPrice ?? s.sellPrice,
+          taxRate: s.taxRate ?? 0, netAmount: s.netAmount ?? s.totalPrice, taxAmount: s.taxAmount ?? 0,
+          ...(s.orderId !== undefined && s.discount && !s.orderDiscount ? { discount: undefined, orderDiscount: s.discount } : {}),
+        }));
+        replica.saleReturns = replica.saleReturns.map(r => ({ ...r, taxAmount: r.taxAmount ?? 0 }));
+      }
+      // Product writes queued by older versions resolved with the product alone, and recorded their movements apart
+      setEntries(storedEntries.map(entry => (entry.operation === 'products.create' || entry.operation === 'products.update' || entry.operation === 'products.saveVariants')
+        && !('product' in entry.localResult) ? { ...entry, localResult: { product: entry.localResult, movements: [] } } : entry));
+    })
+    .catch(error => console.error("Error loading offline data:", error));
+
+  const fetchRecords = async <K extends keyof Replica>(collection: K, fetchRemote: () => Promise<Replica[K]>): Promise<Replica[K]> => {
+    await ready;
+    // Until the outbox is flushed the server is missing our changes, so the replica is the better source.
+    if (entries.length === 0) {
+      try {
+        const records = await fetchRemote();
+        saveReplica({ ...replica, [collection]: records });
+        return records;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+      }
+    }
+    return replica[collection];
+  };
+
+  const list = <K extends Exclude<keyof Replica, 'settings'> & keyof Repositories>(collection: K) =>
+    fetchRecords(collection, () => remote[collection].list() as Promise<Replica[K]>);
+
+  const enqueue = async <O extends OutboxOperation>(operation: O, args: OutboxArgs<O>): Promise<OutboxResult<O>> => {
+    const local = createMemoryRepositories(replica, temporaryId);
+    const localResult = await call(local, operation, args);
+    const next: Replica = {
+      products: await local.products.list(), sales: await local.sales.list(),
+      activityLog: await local.activityLog.list(), purchaseOrders: await local.purchaseOrders.list(),
+      suppliers: await local.suppliers.list(), customers: await local.customers.list(),
+      saleReturns: await local.saleReturns.list(), stockMovements: await local.stockMovements.list(),
+      priceChanges: await local.priceChanges.list(),
+      inventoryCounts: await local.inventoryCounts.list(),
+      stockLocations: await local.stockLocations.list(), stockLevels: await local.stockTransfers.levels(),
+      stockTransfers: await local.stockTransfers.list(), deliveries: await local.deliveries.list(),
+      codRemittances: await local.codRemittances.list(), promotions: await local.promotions.list(),
+      taxRates: await local.taxRates.list(), landedCosts: await local.landedCosts.list(),
+      settings: await local.settings.get(),
+    };
+    const mutation = { operation, args, result: localResult } as OperationCall;
+    const { productIds, saleIds } = touchedIds(mutation);
+
+    const entry = withoutStaleVersion(entries, {
+      operation, args, localResult, productIds, saleIds,
+      productName: [...replica.products, ...next.products].find(p => productIds.includes(p.id))?.name ?? namedProduct(mutation),
+      createdAt: new Date().toISOString(),
+    } as OutboxEntry);
+    entry.seq = await offlineStore.addToOutbox(entry);
+    saveReplica(next);
+    setEntries([...entries, entry]);
+    if (navigator.onLine) sync();
+    return localResult;
+  };
+
+  const mutate = async <O extends OutboxOperation>(operation: O, args: OutboxArgs<O>): Promise<OutboxResult<O>> => {
+    await ready;
+    // Once something is queued, later mutations queue behind it so they replay in order.
+    if (entries.length === 0) {
+      try {
+        const result = await call(remote, operation, args);
+        saveReplica(applyResult(replica, { operation, args, result } as OperationCall));
+        return result;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+      }
+    }
+    return enqueue(operation, args);
+  };
+
+  const replay = async () => {
+    await ready;
+    const conflicts: SyncConflict[] = [];
+    while (entries.length > 0) {
+      const [entry, ...rest] = entries;
+      let remaining = rest;
+      try {
+        const replayed = { ...entry, result: await call(remote, entry.operation, entry.args) } as ReplayedEntry;
+        const ids = createdIds(replayed);
+        if (ids.products.size + ids.sales.size + ids.customers.size + ids.saleReturns.size + ids.deliveries.size + ids.saleOrders.size + ids.variants.size > 0) {
+          remaining = rest.map(e => remapEntry(e, ids));
+          await Promise.all(remaining.map(offlineStore.updateInOutbox));
+        }
+        saveReplica(applyResult(withoutTemporary(replica, ids), replayed));
+      } catch (error) {
+        if (isNetworkError(error)) break;
+        conflicts.push({ entry, message: errorMessage(error) });
+        // The records the rejected mutation created offline never reach the server, nor does anything queued on top of them
+        let rejected = createdIds({ ...entry, result: entry.localResult } as ReplayedEntry);
+        remaining = [];
+        for (const next of rest) {
+          if (refersTo(next, rejected)) {
+            conflicts.push({ entry: next, message: DEPENDS_ON_REJECTED });
+            rejected = mergeIdMaps(rejected, createdIds({ ...next, result: next.localResult } as ReplayedEntry));
+            await offlineStore.removeFromOutbox(next.seq!);
+          } else {
+            remaining.push(next);
+          }
+        }
+        saveReplica(withoutTemporary(replica, rejected));
+      }
+      await offlineStore.removeFromOutbox(entry.seq!);
+      setEntries(remaining);
+    }
+    if (conflicts.length > 0) conflictListeners.forEach(listener => listener(conflicts));
+  };
+
+  const sync = () => {
+    if (!syncing) syncing = replay().finally(() => { syncing = null; });
+    return syncing;
+  };
+
+  // Back-office work needs the server: purchase orders, suppliers, inventory counts, locations and transfers are read from the replica offline but only written online.
+  const saveSupplier = (supplier: Supplier) => {
+    saveReplica({ ...replica, suppliers: putRecords(replica.suppliers, [supplier]) });
+    return supplier;
+  };
+
+  const savePurchaseOrder = (order: PurchaseOrder) => {
+    saveReplica({ ...replica, purchaseOrders: putRecords(replica.purchaseOrders, [order]) });
+    return order;
+  };
+
+  const saveInventoryCount = (count: InventoryCount) => {
+    saveReplica({ ...replica, inventoryCounts: putRecords(replica.inventoryCounts, [count]) });
+    return count;
+  };
+
+  const saveStockLocation = (location: StockLocation) => {
+    saveReplica({ ...replica, stockLocations: putRecords(replica.stockLocations, [location]) });
+    return location;
+  };
+
+  const saveStockTransfer = (transfer: StockTransfer, levels: StockLevel[]) => {
+    saveReplica({ ...replica, stockTransfers: putRecords(replica.stockTransfers, [transfer]), stockLevels: putRecords(replica.stockLevels, levels) });
+  };
+
+  const savePromotion = (promotion: Promotion) => {
+    saveReplica({ ...replica, promotions: putRecords(replica.promotions, [promotion]) });
+    return promotion;
+  };
+
+  const saveTaxRate = (taxRate: TaxRate) => {
+    saveReplica({ ...replica, taxRates: putRecords(replica.taxRates, [taxRate]) });
+    return taxRate;
+  };
+
+  const saveLandedCost = (landedCost: LandedCost, products: Product[]) => {
+    saveReplica({ ...replica, landedCosts: putRecords(replica.landedCosts, [landedCost]), products: putRecords(replica.products, products) });
+    return { landedCost, products };
+  };
+
+  const saveLotProduct = (product: Product) => {
+    saveReplica({ ...replica, products: putRecords(replica.products, [product]) });
+    return product;
+  };
+
+  const saveCodRemittance = (remittances: CodRemittance[], sales: Sale[]) => {
+    saveReplica({ ...replica, codRemittances: remittances, sales: putRecords(replica.sales, sales) });
+  };
+
+  const repositories: Repositories = {
+    products: {
+      list: () => list('products'),
+      create: (product, stockNote) => mutate('products.create', [product, stockNote]),
+      // Imports need the server: there is nothing useful to show for them until they are saved.
+      createMany: async (products, stockNote) => {
+        const result = await remote.products.createMany(products, stockNote);
+        saveReplica({ ...replica, products: putRecords(replica.products, result.products), stockMovements: putRecords(replica.stockMovements, result.movements) });
+        return result;
+      },
+      update: (id, changes, expectedUpdatedAt, stockNote) => mutate('products.update', [id, changes, expectedUpdatedAt, stockNote]),
+      remove: id => mutate('products.remove', [id]),
+      removeMany: ids => mutate('products.removeMany', [ids]),
+      saveVariants: (id, variants, stockNote) => mutate('products.saveVariants', [id, variants, stockNote]),
+    },
+    sales: {
+      list: () => list('sales'),
+      record: (productId, quantity, variantId, customerId, payments, pricing) => mutate('sales.record', [productId, quantity, variantId, customerId, payments, pricing]),
+      cancel: id => mutate('sales.cancel', [id]),
+      checkout: order => mutate('sales.checkout', [order]),
+      cancelOrder: orderId => mutate('sales.cancelOrder', [orderId]),
+    },
+    activityLog: {
+      list: () => list('activityLog'),
+      create: entry => mutate('activityLog.create', [entry]),
+    },
+    purchaseOrders: {
+      list: () => list('purchaseOrders'),
+      save: async (id, order) => savePurchaseOrder(await remote.purchaseOrders.save(id, order)),
+      markOrdered: async id => savePurchaseOrder(await remote.purchaseOrders.markOrdered(id)),
+      remove: async id => {
+        await remote.purchaseOrders.remove(id);
+        saveReplica({ ...replica, purchaseOrders: dropRecords(replica.purchaseOrders, [id]) });
+      },
+      receive: async (id, receipts) => {
+        const result = await remote.purchaseOrders.receive(id, receipts);
+        saveReplica({
+          ...replica,
+          products: putRecords(replica.products, result.products),
+          purchaseOrders: putRecords(replica.purchaseOrders, [result.order]),
+          stockMovements: putRecords(replica.stockMovements, result.movements),
+        });
+        return result;
+      },
+    },
+    suppliers: {
+      list: () => list('suppliers'),
+      create: async supplier => saveSupplier(await remote.suppliers.create(supplier)),
+      update: async (id, changes) => saveSupplier(await remote.suppliers.update(id, changes)),
+      remove: async id => {
+        await remote.suppliers.remove(id);
+        saveReplica({ ...replica, suppliers: dropRecords(replica.suppliers, [id]) });
+      },
+    },
+    // Customers are often created at the counter, so like sales they are queued when offline
+    customers: {
+      list: () => list('customers'),
+      create: customer => mutate('customers.create', [customer]),
+      update: (id, changes) => mutate('customers.update', [id, changes]),
+      remove: id => mutate('customers.remove', [id]),
+    },
+    // Returns are taken at the counter too
+    saleReturns: {
+      list: () => list('saleReturns'),
+      create: (saleId, saleReturn) => mutate('saleReturns.create', [saleId, saleReturn]),
+    },
+    stockMovements: {
+      list: () => list('stockMovements'),
+      create: movements => mutate('stockMovements.create', [movements]),
+    },
+    // Prices are edited offline like the rest of a product, so their history is kept with them
+    priceChanges: {
+      list: () => list('priceChanges'),
+      create: changes => mutate('priceChanges.create', [changes]),
+      // Reverting needs every change of the edit, so it is only done online
+      revertBatch: async batchId => {
+        const result = await remote.priceChanges.revertBatch(batchId);
+        saveReplica({ ...replica, products: putRecords(replica.products, result.products), priceChanges: putRecords(replica.priceChanges, result.changes) });
+        return result;
+      },
+    },
+    inventoryCounts: {
+      list: () => list('inventoryCounts'),
+      start: async scope => saveInventoryCount(await remote.inventoryCounts.start(scope)),
+      record: async (lineId, counted) => {
+        const line = await remote.inventoryCounts.record(lineId, counted);
+        saveReplica({ ...replica, inventoryCounts: applyInventoryCountLineChange(replica.inventoryCounts, { type: 'update', record: line }) });
+        return line;
+      },
+      post: async id => {
+        const result = await remote.inventoryCounts.post(id);
+        saveReplica({
+          ...replica,
+          products: putRecords(replica.products, result.products),
+          inventoryCounts: putRecords(replica.inventoryCounts, [result.count]),
+          stockMovements: putRecords(replica.stockMovements, result.movements),
+        });
+        return result;
+      },
+      remove: async id => {
+        await remote.inventoryCounts.remove(id);
+        saveReplica({ ...replica, inventoryCounts: dropRecords(replica.inventoryCounts, [id]) });
+      },
+    },
+    stockLocations: {
+      list: () => list('stockLocations'),
+      create: async location => saveStockLocation(await remote.stockLocations.create(location)),
+      update: async (id, changes) => saveStockLocation(await remote.stockLocations.update(id, changes)),
+      remove: async id => {
+        await remote.stockLocations.remove(id);
+        saveReplica({
+          ...replica,
+          stockLocations: dropRecords(replica.stockLocations, [id]),
+          stockLevels: replica.stockLevels.filter(l => l.locationId !== id),
+          stockTransfers: replica.stockTransfers.filter(t => t.fromLocationId !== id && t.toLocationId !== id),
+        });
+      },
+    },
+    stockTransfers: {
+      list: () => list('stockTransfers'),
+      levels: () => fetchRecords('stockLevels', remote.stockTransfers.levels),
+      send: async transfer => {
+        const result = await remote.stockTransfers.send(transfer);
+        saveStockTransfer(result.transfer, result.levels);
+        return result;
+      },
+      receive: async id => {
+        const result = await remote.stockTransfers.receive(id);
+        saveStockTransfer(result.transfer, result.levels);
+        return result;
+      },
+      cancel: async id => {
+        const result = await remote.stockTransfers.cancel(id);
+        saveReplica({ ...replica, stockTransfers: dropRecords(replica.stockTransfers, [id]), stockLevels: putRecords(replica.stockLevels, result.levels) });
+        return result;
+      },
+    },
+    // Deliveries are set up and settled at the counter, so like sales they are queued when offline
+    deliveries: {
+      list: () => list('deliveries'),
+      create: delivery => mutate('deliveries.create', [delivery]),
+      update: (id, changes) => mutate('deliveries.update', [id, changes]),
+      confirm: (id, customerId) => mutate('deliveries.confirm', [id, customerId]),
+      cancel: id => mutate('deliveries.cancel', [id]),
+    },
+    // Payouts are entered from the bank statement, which can wait for a connection
+    codRemittances: {
+      list: () => list('codRemittances'),
+      record: async remittance => {
+        const result = await remote.codRemittances.record(remittance);
+        saveCodRemittance(putRecords(replica.codRemittances, [result.remittance]), result.sales);
+        return result;
+      },
+      remove: async id => {
+        const result = await remote.codRemittances.remove(id);
+        saveCodRemittance(dropRecords(replica.codRemittances, [id]), result.sales);
+        return result;
+      },
+    },
+    // Sales recorded offline still get the promotions in the replica
+    promotions: {
+      list: () => list('promotions'),
+      create: async promotion => savePromotion(await remote.promotions.create(promotion)),
+      update: async (id, changes) => savePromotion(await remote.promotions.update(id, changes)),
+      remove: async id => {
+        await remote.promotions.remove(id);
+        saveReplica({ ...replica, promotions: dropRecords(replica.promotions, [id]) });
+      },
+    },
+    // And the TVA rates
+    taxRates: {
+      list: () => list('taxRates'),
+      save: async taxRate => saveTaxRate(await remote.taxRates.save(taxRate)),
+      remove: async id => {
+        await remote.taxRates.remove(id);
+        saveReplica({ ...replica, taxRates: dropRecords(replica.taxRates, [id]) });
+      },
+    },
+    // And landed costs, which reprice products
+    landedCosts: {
+      list: () => list('landedCosts'),
+      apply: async landedCost => {
+        const result = await remote.landedCosts.apply(landedCost);
+        return saveLandedCost(result.landedCost, result.products);
+      },
+    },
+    // Lots are only labelled online, but sales recorded offline still take their units from the lots in the replica
+    stockLots: {
+      create: async lot => saveLotProduct(await remote.stockLots.create(lot)),
+      remove: async id => saveLotProduct(await remote.stockLots.remove(id)),
+    },
+    // Sales recorded offline take their cost by the method in the replica, but it is only changed online
+    settings: {
+      get: () => fetchRecords('settings', remote.settings.get),
+      save: async changes => {
+        const settings = await remote.settings.save(changes);
+        saveReplica({ ...replica, settings });
+        return settings;
+      },
+    },
+    images: remote.images,
+    subscribe: handlers => remote.subscribe({
+      products: change => {
+        saveReplica({ ...replica, products: applyRecordChange(replica.products, keepStockLots(replica.products, keepCostLayers(replica.products, keepVariants(replica.products, change)))) });
+        handlers.products(change);
+      },
+      productVariants: change => { saveReplica({ ...replica, products: applyVariantChange(replica.products, change) }); handlers.productVariants(change); },
+      costLayers: change => { saveReplica({ ...replica, products: applyCostLayerChange(replica.products, change) }); handlers.costLayers(change); },
+      stockLots: change => { saveReplica({ ...replica, products: applyStockLotChange(replica.products, change) }); handlers.stockLots(change); },
+      sales: change => { saveReplica({ ...replica, sales: applyRecordChange(replica.sales, change) }); handlers.sales(change); },
+      activityLog: change => { saveReplica({ ...replica, activityLog: applyRecordChange(replica.activityLog, change) }); handlers.activityLog(change); },
+      purchaseOrders: change => {
+        saveReplica({ ...replica, purchaseOrders: applyRecordChange(replica.purchaseOrders, keepLines(replica.purchaseOrders, change)) });
+        handlers.purchaseOrders(change);
+      },
+      purchaseOrderLines: change => {
+        saveReplica({ ...replica, purchaseOrders: applyPurchaseOrderLineChange(replica.purchaseOrders, change) });
+        handlers.purchaseOrderLines(change);
+      },
+      suppliers: change => { saveReplica({ ...replica, suppliers: applyRecordChange(replica.suppliers, change) }); handlers.suppliers(change); },
+      customers: change => { saveReplica({ ...replica, customers: applyRecordChange(replica.customers, change) }); handlers.customers(change); },
+      saleReturns: change => { saveReplica({ ...replica, saleReturns: applyRecordChange(replica.saleReturns, change) }); handlers.saleReturns(change); },
+      stockMovements: change => { saveReplica({ ...replica, stockMovements: applyRecordChange(replica.stockMovements, change) }); handlers.stockMovements(change); },
+      priceChanges: change => { saveReplica({ ...replica, priceChanges: applyRecordChange(replica.priceChanges, change) }); handlers.priceChanges(change); },
+      inventoryCounts: change => {
+        saveReplica({ ...replica, inventoryCounts: applyRecordChange(replica.inventoryCounts, keepCountLines(replica.inventoryCounts, change)) });
+        handlers.inventoryCounts(change);
+      },
+      inventoryCountLines: change => {
+        saveReplica({ ...replica, inventoryCounts: applyInventoryCountLineChange(replica.inventoryCounts, change) });
+        handlers.inventoryCountLines(change);
+      },
+      stockLocations: change => { saveReplica({ ...replica, stockLocations: applyRecordChange(replica.stockLocations, change) }); handlers.stockLocations(change); },
+      stockLevels: change => { saveReplica({ ...replica, stockLevels: applyRecordChange(replica.stockLevels, change) }); handlers.stockLevels(change); },
+      stockTransfers: change => { saveReplica({ ...replica, stockTransfers: applyRecordChange(replica.stockTransfers, change) }); handlers.stockTransfers(change); },
+      deliveries: change => { saveReplica({ ...replica, deliveries: applyRecordChange(replica.deliveries, change) }); handlers.deliveries(change); },
+      codRemittances: change => { saveReplica({ ...replica, codRemittances: applyRecordChange(replica.codRemittances, change) }); handlers.codRemittances(change); },
+      promotions: change => { saveReplica({ ...replica, promotions: applyRecordChange(replica.promotions, change) }); handlers.promotions(change); },
+      taxRates: change => { saveReplica({ ...replica, taxRates: applyRecordChange(replica.taxRates, change) }); handlers.taxRates(change); },
+      landedCosts: change => { saveReplica({ ...replica, landedCosts: applyRecordChange(replica.landedCosts, change) }); handlers.landedCosts(change); },
+      resync: handlers.resync,
+    }),
+  };
+
+  const outbox: Outbox = {
+    sync,
+    onChange: listener => {
+      entryListeners.add(listener);
+      listener(entries);
+      return () => { entryListeners.delete(listener); };
+    },
+    onConflicts: listener => {
+      conflictListeners.add(listener);
+      return () => { conflictListeners.delete(listener); };
+    },
+  };
+
+  return { repositories, outbox };
+};
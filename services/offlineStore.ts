@@ -0,0 +1,130 @@
+import type { Product, Sale, ActivityLog, PurchaseOrder, Supplier, Customer, SaleReturn, StockMovement, PriceChange, InventoryCount, StockLocation, StockLevel, StockTransfer, Delivery, CodRemittance, Promotion, TaxRate, LandedCost, ShopSettings } from '../types';
+import type { Repositories } from './repository';
+
+const DB_NAME = 'hugo-manage';
+const DB_VERSION = 1;
+const REPLICA_STORE = 'replica';
+const OUTBOX_STORE = 'outbox';
+const REPLICA_KEY = 'current';
+
+// The last known state of the data, including changes that have not been synced yet.
+export interface Replica {
+  products: Product[];
+  sales: Sale[];
+  activityLog: ActivityLog[];
+  purchaseOrders: PurchaseOrder[];
+  suppliers: Supplier[];
+  customers: Customer[];
+  saleReturns: SaleReturn[];
+  stockMovements: StockMovement[];
+  priceChanges: PriceChange[];
+  inventoryCounts: InventoryCount[];
+  stockLocations: StockLocation[];
+  stockLevels: StockLevel[];
+  stockTransfers: StockTransfer[];
+  deliveries: Delivery[];
+  codRemittances: CodRemittance[];
+  promotions: Promotion[];
+  taxRates: TaxRate[];
+  landedCosts: LandedCost[];
+  settings: ShopSettings;
+}
+
+export type OutboxOperation =
+  | 'products.create'
+  | 'products.update'
+  | 'products.remove'
+  | 'products.removeMany'
+  | 'products.saveVariants'
+  | 'sales.record'
+  | 'sales.cancel'
+  | 'sales.checkout'
+  | 'sales.cancelOrder'
+  | 'activityLog.create'
+  | 'customers.create'
+  | 'customers.update'
+  | 'customers.remove'
+  | 'saleReturns.create'
+  | 'deliveries.create'
+  | 'deliveries.update'
+  | 'deliveries.confirm'
+  | 'deliveries.cancel'
+  | 'stockMovements.create'
+  | 'priceChanges.create';
+
+// The repository method an operation is replayed with
+type OutboxMethod<O extends OutboxOperation> = O extends `${infer C extends keyof Repositories}.${infer M}`
+  ? M extends keyof Repositories[C] ? Extract<Repositories[C][M], (...args: any[]) => Promise<unknown>> : never
+  : never;
+
+// Taken from the method, so a queued call that does not match it does not compile
+export type OutboxArgs<O extends OutboxOperation> = Parameters<OutboxMethod<O>>;
+export type OutboxResult<O extends OutboxOperation> = Awaited<ReturnType<OutboxMethod<O>>>;
+
+interface QueuedMutation<O extends OutboxOperation> {
+  seq?: number; // Assigned by IndexedDB, gives the replay order
+  operation: O;
+  args: OutboxArgs<O>;
+  localResult: OutboxResult<O>;
+  productName?: string;
+  // Records the mutation touches, used to show which ones are waiting to sync
+  productIds: number[];
+  saleIds: number[];
+  createdAt: string;
+}
+
+type QueuedMutations = { [O in OutboxOperation]: QueuedMutation<O> };
+
+// A mutation made while offline, waiting to be replayed against the server.
+// There is one type per operation, so checking the operation narrows its arguments and result.
+export type OutboxEntry<O extends OutboxOperation = OutboxOperation> = QueuedMutations[O];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(REPLICA_STORE);
+        request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'seq', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const offlineStore = {
+  // Replica
+  getReplica: (): Promise<Replica | undefined> => {
+    return run(REPLICA_STORE, 'readonly', store => store.get(REPLICA_KEY));
+  },
+  setReplica: async (replica: Replica): Promise<void> => {
+    await run(REPLICA_STORE, 'readwrite', store => store.put(replica, REPLICA_KEY));
+  },
+
+  // Outbox
+  getOutbox: (): Promise<OutboxEntry[]> => {
+    return run(OUTBOX_STORE, 'readonly', store => store.getAll());
+  },
+  addToOutbox: (entry: OutboxEntry): Promise<number> => {
+    return run(OUTBOX_STORE, 'readwrite', store => store.add(entry));
+  },
+  updateInOutbox: async (entry: OutboxEntry): Promise<void> => {
+    await run(OUTBOX_STORE, 'readwrite', store => store.put(entry));
+  },
+  removeFromOutbox: async (seq: number): Promise<void> => {
+    await run(OUTBOX_STORE, 'readwrite', store => store.delete(seq));
+  },
+};
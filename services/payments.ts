@@ -0,0 +1,69 @@
+import type { PaymentMethod, Sale, SalePayment, SaleReturn } from '../types';
+import { allocateDiscount } from './saleOrders';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'card', 'transfer', 'cod', 'store_credit'];
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+export const cashPayment = (amount: number): SalePayment[] => [{ method: 'cash', amount }];
+
+export const paymentsTotal = (payments: SalePayment[]) => payments.reduce((sum, p) => sum + p.amount, 0);
+
+// Why the payments cannot settle the total, or null when they do. Mirrors check_payments in the SQL script.
+export const paymentsError = (payments: SalePayment[], total: number, customerId?: number): 'invalid_amount' | 'mismatch' | 'store_credit_customer' | null => {
+  if (payments.length === 0 || payments.some(p => !PAYMENT_METHODS.includes(p.method) || isNaN(p.amount) || p.amount < 0)) return 'invalid_amount';
+  if (toCents(paymentsTotal(payments)) !== toCents(total)) return 'mismatch';
+  if (customerId === undefined && payments.some(p => p.method === 'store_credit' && p.amount > 0)) return 'store_credit_customer';
+  return null;
+};
+
+const paymentsErrorMessages = {
+  invalid_amount: 'Payments need a known method and an amount that is not negative',
+  mismatch: 'The payments must add up to the total',
+  store_credit_customer: 'Store credit can only be spent by a customer',
+};
+
+export const assertPayments = (payments: SalePayment[], total: number, customerId?: number) => {
+  const error = paymentsError(payments, total, customerId);
+  if (error) throw new Error(paymentsErrorMessages[error]);
+};
+
+// Splits an order's payments between its lines. Each line is filled from the methods in the order they
+// were given, so it is paid exactly its total and every method is spent exactly once, without rounding.
+export const allocatePayments = (totals: number[], payments: SalePayment[]): SalePayment[][] => {
+  const left = payments.map(p => ({ method: p.method, cents: toCents(p.amount) }));
+  return totals.map(total => {
+    let due = toCents(total);
+    const shares: SalePayment[] = [];
+    for (const payment of left) {
+      if (due === 0) break;
+      const cents = Math.min(due, payment.cents);
+      if (cents === 0) continue;
+      shares.push({ method: payment.method, amount: cents / 100 });
+      payment.cents -= cents;
+      due -= cents;
+    }
+    return shares;
+  });
+};
+
+// Revenue each method brought in since the given date, less what it paid back on returns over the same days.
+// A refund goes back the way its sale was paid, shared between its methods like an order discount between lines.
+// Sales from before methods were recorded are left out, and so are their refunds.
+export const revenueByMethod = (sales: Sale[], returns: SaleReturn[], since: Date | null = null): Record<PaymentMethod, number> => {
+  const totals = Object.fromEntries(PAYMENT_METHODS.map(m => [m, 0])) as Record<PaymentMethod, number>;
+  const counted = (createdAt: string) => !since || new Date(createdAt) >= since;
+  sales.filter(s => counted(s.createdAt)).forEach(s => s.payments.forEach(p => { totals[p.method] += p.amount; }));
+  returns.filter(r => counted(r.createdAt)).forEach(r => {
+    const payments = sales.find(s => s.id === r.saleId)?.payments ?? [];
+    const shares = allocateDiscount(payments.map(p => p.amount), r.refundAmount);
+    payments.forEach((p, index) => { totals[p.method] -= shares[index]; });
+  });
+  return totals;
+};
+
+export const paidWith = (sale: Sale, method: PaymentMethod) => sale.payments.some(p => p.method === method);
+
+// A single payment always covers the whole total, whatever it was when the method was picked
+export const fitPayments = (payments: SalePayment[], total: number): SalePayment[] =>
+  payments.length === 1 ? [{ ...payments[0], amount: total }] : payments;
@@ -0,0 +1,57 @@
+import type { Product, PriceChange, PriceChangeSource, BulkUpdatePayload } from '../types';
+import type { PriceChangeInput } from './repository';
+
+// Ties together the price changes of one bulk edit. Made on the device, so it works offline too.
+export const newBatchId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/** What an edit did to a product's prices, or null when it left them alone. */
+export const priceChangeOf = (
+  before: Product, after: Product, source: PriceChangeSource, batchId?: string, bulkUpdate?: Pick<BulkUpdatePayload, 'buyPrice' | 'sellPrice'>,
+): Omit<PriceChangeInput, 'ownerId'> | null => {
+  if (before.buyPrice === after.buyPrice && before.sellPrice === after.sellPrice) return null;
+  return {
+    productId: after.id, productName: after.name,
+    oldBuyPrice: before.buyPrice, newBuyPrice: after.buyPrice,
+    oldSellPrice: before.sellPrice, newSellPrice: after.sellPrice,
+    source, batchId, bulkUpdate,
+  };
+};
+
+const oldestFirst = (a: PriceChange, b: PriceChange) =>
+  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() || a.id - b.id;
+
+export const priceChangesOf = (productId: number, changes: PriceChange[]) =>
+  changes.filter(c => c.productId === productId).sort(oldestFirst);
+
+export interface PricePoint {
+  time: number;
+  buyPrice: number;
+  sellPrice: number;
+}
+
+/**
+ * The prices of a product over time, from its creation to now: what it was created at, then the prices each change set.
+ * Prices are only known from the first recorded change on, so before it the product is taken to have had that change's old prices.
+ */
+export const priceTimeline = (product: Product, changes: PriceChange[]): PricePoint[] => {
+  const history = priceChangesOf(product.id, changes);
+  const start = history[0]
+    ? { buyPrice: history[0].oldBuyPrice, sellPrice: history[0].oldSellPrice }
+    : { buyPrice: product.buyPrice, sellPrice: product.sellPrice };
+  return [
+    { time: new Date(product.createdAt).getTime(), ...start },
+    ...history.map(c => ({ time: new Date(c.createdAt).getTime(), buyPrice: c.newBuyPrice, sellPrice: c.newSellPrice })),
+    { time: Date.now(), buyPrice: product.buyPrice, sellPrice: product.sellPrice },
+  ];
+};
+
+/** The changes a bulk edit made, one per product. */
+export const bulkBatch = (batchId: string, changes: PriceChange[]) =>
+  changes.filter(c => c.batchId === batchId && c.source === 'bulk_update');
+
+export const isBatchReverted = (batchId: string, changes: PriceChange[]) =>
+  changes.some(c => c.batchId === batchId && c.source === 'bulk_revert');
+
+/** Products of a bulk edit whose prices were changed again since, so reverting would overwrite the newer prices. */
+export const repricedSince = (batch: PriceChange[], products: Product[]) =>
+  products.filter(p => batch.some(c => c.productId === p.id && (p.buyPrice !== c.newBuyPrice || p.sellPrice !== c.newSellPrice)));
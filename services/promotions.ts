@@ -0,0 +1,75 @@
+import type { Discount, Product, ProductVariant, Promotion, PromotionFormData, SalePricing } from '../types';
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+export const isActivePromotion = (promotion: Promotion, at = new Date().toISOString()) =>
+  promotion.startsAt <= at && at <= promotion.endsAt;
+
+export const promotionApplies = (promotion: Promotion, product: Product) =>
+  (promotion.productId === undefined || promotion.productId === product.id) &&
+  (!promotion.category || promotion.category === product.category);
+
+// Never below zero, whatever the discount
+export const promotionalPrice = (price: number, promotion: Pick<Promotion, 'kind' | 'value'>) =>
+  Math.max(0, toCents(promotion.kind === 'percent' ? price * (1 - promotion.value / 100) : price - promotion.value) / 100);
+
+// The promotion giving the lowest price among those running, or undefined when none applies
+export const bestPromotion = (promotions: Promotion[], product: Product, price: number, at?: string): Promotion | undefined =>
+  promotions
+    .filter(p => isActivePromotion(p, at) && promotionApplies(p, product))
+    .sort((a, b) => promotionalPrice(price, a) - promotionalPrice(price, b) || a.id - b.id)[0];
+
+export const discountAmount = (amount: number, discount?: Discount) =>
+  !discount ? 0 : toCents(discount.kind === 'percent' ? amount * discount.value / 100 : discount.value) / 100;
+
+export interface SalePrice {
+  listPrice: number;
+  unitPrice: number;
+  promotionId?: number;
+  discount: number;
+  total: number;
+}
+
+// Mirrors record_sale in the SQL script: a negotiated unit price replaces the promotional one
+export const priceSale = (product: Product, variant: ProductVariant | undefined, quantity: number, promotions: Promotion[], pricing?: SalePricing, at?: string): SalePrice => {
+  const listPrice = variant?.sellPrice ?? product.sellPrice;
+  const promotion = pricing?.unitPrice === undefined ? bestPromotion(promotions, product, listPrice, at) : undefined;
+  const unitPrice = pricing?.unitPrice ?? (promotion ? promotionalPrice(listPrice, promotion) : listPrice);
+  const discount = discountAmount(unitPrice * quantity, pricing?.discount);
+  return { listPrice, unitPrice, promotionId: promotion?.id, discount, total: toCents(unitPrice * quantity - discount) / 100 };
+};
+
+export const pricingError = (pricing: SalePricing | undefined, amount: number): 'invalid_price' | 'invalid_discount' | null => {
+  if (pricing?.unitPrice !== undefined && (isNaN(pricing.unitPrice) || pricing.unitPrice < 0)) return 'invalid_price';
+  const discount = pricing?.discount;
+  if (discount && (isNaN(discount.value) || discount.value < 0 || (discount.kind === 'percent' ? discount.value > 100 : discount.value > amount))) return 'invalid_discount';
+  return null;
+};
+
+const pricingErrorMessages = {
+  invalid_price: 'The unit price cannot be negative',
+  invalid_discount: 'The discount cannot be negative or more than the amount',
+};
+
+export const assertPricing = (pricing: SalePricing | undefined, amount: number) => {
+  const error = pricingError(pricing, amount);
+  if (error) throw new Error(pricingErrorMessages[error]);
+};
+
+export const promotionError = (promotion: PromotionFormData): 'name_required' | 'invalid_value' | 'invalid_dates' | null => {
+  if (!promotion.name.trim()) return 'name_required';
+  if (isNaN(promotion.value) || promotion.value <= 0 || (promotion.kind === 'percent' && promotion.value > 100)) return 'invalid_value';
+  if (!promotion.startsAt || !promotion.endsAt || promotion.endsAt < promotion.startsAt) return 'invalid_dates';
+  return null;
+};
+
+const promotionErrorMessages = {
+  name_required: 'A promotion needs a name',
+  invalid_value: 'A promotion takes off more than nothing, and at most 100%',
+  invalid_dates: 'A promotion cannot end before it starts',
+};
+
+export const assertPromotion = (promotion: PromotionFormData) => {
+  const error = promotionError(promotion);
+  if (error) throw new Error(promotionErrorMessages[error]);
+};
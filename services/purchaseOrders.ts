@@ -0,0 +1,40 @@
+import type { PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus } from '../types';
+import type { RecordChange } from './repository';
+import { landedCost } from './money';
+
+export const remainingQuantity = (line: PurchaseOrderLine) => Math.max(0, line.quantity - line.receivedQuantity);
+
+export const orderTotal = (order: Pick<PurchaseOrder, 'lines'>) =>
+  order.lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0);
+
+// The same in the shop's currency, each unit at the buy price it will be received at
+export const landedTotal = (lines: Pick<PurchaseOrderLine, 'quantity' | 'unitCost'>[], exchangeRate?: number) =>
+  lines.reduce((sum, line) => sum + line.quantity * landedCost(line.unitCost, exchangeRate), 0);
+
+// Status of an order that has been sent, from what has arrived so far
+export const receivingStatus = (lines: PurchaseOrderLine[]): PurchaseOrderStatus => {
+  if (lines.every(line => remainingQuantity(line) === 0)) return 'received';
+  return lines.some(line => line.receivedQuantity > 0) ? 'partially_received' : 'ordered';
+};
+
+// Order rows streamed by realtime come without their lines, so the ones already known are kept.
+export const keepLines = (orders: PurchaseOrder[], change: RecordChange<PurchaseOrder>): RecordChange<PurchaseOrder> => {
+  if (change.type === 'delete' || change.record.lines.length > 0) return change;
+  const lines = orders.find(o => o.id === change.record.id)?.lines;
+  return lines ? { ...change, record: { ...change.record, lines } } : change;
+};
+
+// Lines stream in separately from their orders, so they are merged into the order that owns them.
+export const applyPurchaseOrderLineChange = (orders: PurchaseOrder[], change: RecordChange<PurchaseOrderLine>): PurchaseOrder[] => {
+  if (change.type === 'delete') {
+    return orders.map(o => o.lines.some(l => l.id === change.id) ? { ...o, lines: o.lines.filter(l => l.id !== change.id) } : o);
+  }
+  const { record } = change;
+  return orders.map(o => {
+    if (o.id !== record.purchaseOrderId) return o;
+    return {
+      ...o,
+      lines: o.lines.some(l => l.id === record.id) ? o.lines.map(l => l.id === record.id ? record : l) : [...o.lines, record],
+    };
+  });
+};
@@ -0,0 +1,327 @@
+import type { Product, ProductVariant, ProductVariantFormData, Sale, SalePayment, ActivityLog, PurchaseOrder, PurchaseOrderLine, PurchaseOrderFormData, GoodsReceipt, Supplier, Customer, CheckoutData, SaleReturn, SaleReturnFormData, StockMovement, PriceChange, InventoryCount, InventoryCountLine, InventoryCountScope, StockLocation, StockLevel, StockTransfer, StockTransferFormData, Delivery, DeliveryFormData, DeliveryChanges, CodRemittance, CodRemittanceFormData, SalePricing, Promotion, TaxRate, LandedCost, LandedCostFormData, CostLayer, StockLot, StockLotFormData, ShopSettings } from '../types';
+import { supabaseClient } from './supabase';
+import { createSupabaseRepositories } from './supabaseRepository';
+import { createMemoryRepositories } from './memoryRepository';
+import { createOfflineRepositories } from './offlineRepository';
+import type { Outbox } from './offlineRepository';
+
+// Shapes accepted by the repositories when creating or updating records.
+export type ProductInput = Omit<Product, 'id' | 'createdAt' | 'updatedAt' | 'variants' | 'costLayers' | 'lots'>;
+export type ActivityLogInput = Omit<ActivityLog, 'id' | 'createdAt'>;
+export type SupplierInput = Omit<Supplier, 'id' | 'createdAt' | 'updatedAt'>;
+export type CustomerInput = Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>;
+export type StockMovementInput = Omit<StockMovement, 'id' | 'createdAt'>;
+export type PriceChangeInput = Omit<PriceChange, 'id' | 'createdAt'>;
+export type StockLocationInput = Omit<StockLocation, 'id' | 'createdAt' | 'updatedAt'>;
+export type PromotionInput = Omit<Promotion, 'id' | 'createdAt'>;
+export type TaxRateInput = Omit<TaxRate, 'id' | 'createdAt'>;
+// Why stock edited by hand changed, recorded with the movements of the edit
+export type StockNote = Pick<StockMovement, 'reason' | 'notes'>;
+
+/** Thrown when a write is based on an outdated copy of a record. `current` is the stored version, or null if it was deleted. */
+export class StaleRecordError<T> extends Error {
+  constructor(public current: T | null) {
+    super('The record was modified by someone else');
+    this.name = 'StaleRecordError';
+  }
+}
+
+export type RecordChange<T> = { type: 'insert' | 'update'; record: T } | { type: 'delete'; id: number };
+
+export interface ChangeHandlers {
+  products: (change: RecordChange<Product>) => void;
+  productVariants: (change: RecordChange<ProductVariant>) => void;
+  costLayers: (change: RecordChange<CostLayer>) => void;
+  stockLots: (change: RecordChange<StockLot>) => void;
+  sales: (change: RecordChange<Sale>) => void;
+  activityLog: (change: RecordChange<ActivityLog>) => void;
+  purchaseOrders: (change: RecordChange<PurchaseOrder>) => void;
+  purchaseOrderLines: (change: RecordChange<PurchaseOrderLine>) => void;
+  suppliers: (change: RecordChange<Supplier>) => void;
+  customers: (change: RecordChange<Customer>) => void;
+  saleReturns: (change: RecordChange<SaleReturn>) => void;
+  stockMovements: (change: RecordChange<StockMovement>) => void;
+  priceChanges: (change: RecordChange<PriceChange>) => void;
+  inventoryCounts: (change: RecordChange<InventoryCount>) => void;
+  inventoryCountLines: (change: RecordChange<InventoryCountLine>) => void;
+  stockLocations: (change: RecordChange<StockLocation>) => void;
+  stockLevels: (change: RecordChange<StockLevel>) => void;
+  stockTransfers: (change: RecordChange<StockTransfer>) => void;
+  deliveries: (change: RecordChange<Delivery>) => void;
+  codRemittances: (change: RecordChange<CodRemittance>) => void;
+  promotions: (change: RecordChange<Promotion>) => void;
+  taxRates: (change: RecordChange<TaxRate>) => void;
+  landedCosts: (change: RecordChange<LandedCost>) => void;
+  /** Called when the live connection comes back, since changes made in the meantime were missed. */
+  resync: () => void;
+}
+
+// Products and purchase orders are saved with a supplier name. The backend links them to the supplier
+// with that name, ignoring case and spacing, and creates it when there is none.
+// The stock a product write changes goes to the ledger in the same transaction, for the reason in `stockNote`
+// (a count correction when none is given), and the writes resolve with those `movements`.
+// A product with variants keeps its stock in them, so only changes to their stock are recorded.
+export interface ProductRepository {
+  list: () => Promise<Product[]>;
+  create: (product: ProductInput, stockNote?: StockNote) => Promise<{ product: Product; movements: StockMovement[] }>;
+  createMany: (products: ProductInput[], stockNote?: StockNote) => Promise<{ products: Product[]; movements: StockMovement[] }>;
+  /**
+   * When `expectedUpdatedAt` is given the update only applies if the product has not been modified since,
+   * otherwise it rejects with a StaleRecordError.
+   */
+  update: (id: number, changes: Partial<ProductInput>, expectedUpdatedAt?: string, stockNote?: StockNote) => Promise<{ product: Product; movements: StockMovement[] }>;
+  remove: (id: number) => Promise<void>;
+  removeMany: (ids: number[]) => Promise<void>;
+  /** Replaces the product's variants and resolves with the product, whose stock now follows them. */
+  saveVariants: (id: number, variants: ProductVariantFormData[], stockNote?: StockNote) => Promise<{ product: Product; movements: StockMovement[] }>;
+}
+
+// Recording and cancelling a sale change stock too, so both happen atomically in the backend.
+export interface SaleRepository {
+  list: () => Promise<Sale[]>;
+  /**
+   * Sells at the price of the best promotion running, unless `pricing` gives a unit price, less its discount.
+   * TVA is added at the product's rate unless its prices already include it.
+   * The payments must add up to the sale's total; cash for all of it when they are not given.
+   * The margin is taken against what the units cost in the cost layers, by the shop's costing method.
+   */
+  record: (productId: number, quantity: number, variantId?: number, customerId?: number, payments?: SalePayment[], pricing?: SalePricing) => Promise<{ product: Product; sale: Sale; movements: StockMovement[] }>;
+  /**
+   * Resolves with the restocked product, or null when it has been deleted since the sale.
+   * A sale made from a delivery can only be returned, like one that already has returns.
+   */
+  cancel: (id: number) => Promise<{ product: Product | null; movements: StockMovement[] }>;
+  /**
+   * Sells every line as one order, or nothing if any line fails, each at the price of the best promotion running.
+   * Resolves with the lines' sales in order, each carrying its share of the discount and of the payments,
+   * and the products they were taken from.
+   */
+  checkout: (order: CheckoutData) => Promise<{ sales: Sale[]; products: Product[]; movements: StockMovement[] }>;
+  /** Cancels every line of the order. Resolves with the restocked products that still exist. */
+  cancelOrder: (orderId: number) => Promise<{ products: Product[]; movements: StockMovement[] }>;
+}
+
+// A sale with returns can no longer be cancelled, since part of it has already been undone.
+export interface SaleReturnRepository {
+  list: () => Promise<SaleReturn[]>;
+  /**
+   * Records units of a sale coming back, at most the quantity not returned yet and a refund of at most what is left
+   * of its total. Restocked units go back to the product or variant they were sold from, which resolves as `product`.
+   */
+  create: (saleId: number, saleReturn: SaleReturnFormData) => Promise<{ saleReturn: SaleReturn; product: Product | null; movements: StockMovement[] }>;
+}
+
+export interface PurchaseOrderRepository {
+  list: () => Promise<PurchaseOrder[]>;
+  /** Creates a draft when `id` is null, otherwise replaces the draft's details and lines. Orders already sent cannot be edited. */
+  save: (id: number | null, order: PurchaseOrderFormData) => Promise<PurchaseOrder>;
+  markOrdered: (id: number) => Promise<PurchaseOrder>;
+  /** Only drafts can be deleted. */
+  remove: (id: number) => Promise<void>;
+  /**
+   * Adds the received units to stock at their invoiced cost, each receipt as a new cost layer,
+   * and as a new lot when it has a batch number or an expiry date.
+   * Resolves with the order and the restocked products.
+   */
+  receive: (id: number, receipts: GoodsReceipt[]) => Promise<{ order: PurchaseOrder; products: Product[]; movements: StockMovement[] }>;
+}
+
+// Once posted, a count is kept as the report of what was found and can no longer change.
+export interface InventoryCountRepository {
+  list: () => Promise<InventoryCount[]>;
+  /** Opens a count with a line for every product in scope that is not out for delivery, and for each variant of those that have some. */
+  start: (scope: InventoryCountScope) => Promise<InventoryCount>;
+  /** Sets the quantity found for a line, or clears it with null. */
+  record: (lineId: number, counted: number | null) => Promise<InventoryCountLine>;
+  /**
+   * Sets the stock of every counted line to the quantity found, keeping the stock it replaced and the unit cost on the line.
+   * Lines not counted are left alone, and so are lines whose product or variant is gone or whose product has been given variants since.
+   * Resolves with the count and the adjusted products.
+   */
+  post: (id: number) => Promise<{ count: InventoryCount; products: Product[]; movements: StockMovement[] }>;
+  /** Only counts in progress can be deleted. */
+  remove: (id: number) => Promise<void>;
+}
+
+export interface StockLocationRepository {
+  list: () => Promise<StockLocation[]>;
+  create: (location: StockLocationInput) => Promise<StockLocation>;
+  update: (id: number, changes: Partial<StockLocationInput>) => Promise<StockLocation>;
+  /** The location's levels and transfers are deleted with it. */
+  remove: (id: number) => Promise<void>;
+}
+
+// Transfers only move units around, so a product's stock stays the same and the main shop holds what is not elsewhere.
+export interface StockTransferRepository {
+  list: () => Promise<StockTransfer[]>;
+  /** The units kept at each location other than the main shop. */
+  levels: () => Promise<StockLevel[]>;
+  /**
+   * Takes the units out of their origin, which must hold that many, and puts them in transit.
+   * Resolves with the transfer and the changed levels.
+   */
+  send: (transfer: StockTransferFormData) => Promise<{ transfer: StockTransfer; levels: StockLevel[] }>;
+  /** Adds the units of a transfer in transit to its destination. */
+  receive: (id: number) => Promise<{ transfer: StockTransfer; levels: StockLevel[] }>;
+  /** Deletes a transfer still in transit, putting its units back at the origin. */
+  cancel: (id: number) => Promise<{ levels: StockLevel[] }>;
+}
+
+// A delivery takes its units out of the stock of the product, or variant, it was made from until it is cancelled.
+export interface DeliveryRepository {
+  list: () => Promise<Delivery[]>;
+  /**
+   * Takes the units out of their origin, which must hold that many, and snapshots the product's prices.
+   * Resolves with the delivery, the product and the changed levels.
+   */
+  create: (delivery: DeliveryFormData) => Promise<{ delivery: Delivery; product: Product; levels: StockLevel[]; movements: StockMovement[] }>;
+  update: (id: number, changes: DeliveryChanges) => Promise<Delivery>;
+  /**
+   * Records the sale of a delivered delivery at the prices it was created with, and the product's TVA;
+   * the stock has already left.
+   * The sale goes to the delivery's customer when `customerId` is not given.
+   */
+  confirm: (id: number, customerId?: number) => Promise<{ delivery: Delivery; sale: Sale }>;
+  /** Puts the units back where they were taken from. `product` is null when it has been deleted since. */
+  cancel: (id: number) => Promise<{ delivery: Delivery; product: Product | null; levels: StockLevel[]; movements: StockMovement[] }>;
+}
+
+// A delivered COD delivery's sale awaits the courier's payout until a remittance settles it.
+export interface CodRemittanceRepository {
+  list: () => Promise<CodRemittance[]>;
+  /**
+   * Marks the sales of the given delivered deliveries paid, each of which must still be awaiting its cash.
+   * What they collected beyond `amount` went on the courier's fees. Resolves with the remittance and the settled sales.
+   */
+  record: (remittance: CodRemittanceFormData) => Promise<{ remittance: CodRemittance; sales: Sale[] }>;
+  /** Its sales await the courier again. */
+  remove: (id: number) => Promise<{ sales: Sale[] }>;
+}
+
+// Promotions are read when a sale is recorded, so changing one leaves the sales it already priced alone.
+export interface PromotionRepository {
+  list: () => Promise<Promotion[]>;
+  create: (promotion: PromotionInput) => Promise<Promotion>;
+  update: (id: number, changes: Partial<PromotionInput>) => Promise<Promotion>;
+  remove: (id: number) => Promise<void>;
+}
+
+// Like promotions, rates are read when a sale is recorded: the sale keeps the rate it was made at.
+export interface TaxRateRepository {
+  list: () => Promise<TaxRate[]>;
+  /** A category has one rate, so saving replaces the one it had. */
+  save: (taxRate: TaxRateInput) => Promise<TaxRate>;
+  remove: (id: number) => Promise<void>;
+}
+
+export interface LandedCostRepository {
+  list: () => Promise<LandedCost[]>;
+  /**
+   * Spreads the charges over the lines on the chosen basis and sets each product's, or variant's, buy price
+   * to its unit cost plus its share, which the units still in stock from the order, or the newest ones, take on too.
+   * Resolves with the breakdown and the products whose buy price changed.
+   */
+  apply: (landedCost: LandedCostFormData) => Promise<{ landedCost: LandedCost; products: Product[] }>;
+}
+
+// Lots only label units already in stock: adding or removing one leaves the stock alone.
+// Stock taken out comes from the lots soonest expiring first, and units put back come back untracked.
+export interface StockLotRepository {
+  /** The lots of the product, or variant, can hold at most the units in stock. Resolves with the product. */
+  create: (lot: StockLotFormData) => Promise<Product>;
+  remove: (id: number) => Promise<Product>;
+}
+
+// The shop's settings that the backend needs to know about, unlike the theme or the language
+export interface SettingsRepository {
+  get: () => Promise<ShopSettings>;
+  /**
+   * A new costing method applies to the units sold from then on. Switching to the average method
+   * prices the units in stock at their average on the next sale.
+   */
+  save: (changes: Partial<ShopSettings>) => Promise<ShopSettings>;
+}
+
+export interface SupplierRepository {
+  list: () => Promise<Supplier[]>;
+  /** Names are unique regardless of case and spacing. */
+  create: (supplier: SupplierInput) => Promise<Supplier>;
+  /** A new name is carried over to the supplier's products and purchase orders. */
+  update: (id: number, changes: Partial<SupplierInput>) => Promise<Supplier>;
+  /** Products and purchase orders keep the supplier's name but lose the link. */
+  remove: (id: number) => Promise<void>;
+}
+
+export interface CustomerRepository {
+  list: () => Promise<Customer[]>;
+  create: (customer: CustomerInput) => Promise<Customer>;
+  update: (id: number, changes: Partial<CustomerInput>) => Promise<Customer>;
+  /** Sales and deliveries stay, without the link to the customer. */
+  remove: (id: number) => Promise<void>;
+}
+
+export interface ActivityLogRepository {
+  list: () => Promise<ActivityLog[]>;
+  create: (entry: ActivityLogInput) => Promise<ActivityLog>;
+}
+
+// Every write that changes stock records its movements itself, in the same transaction as the stock,
+// and resolves with them as `movements`. Movements queued offline by earlier versions are still recorded here.
+export interface StockMovementRepository {
+  list: () => Promise<StockMovement[]>;
+  /** Records the movements of one change together, in the order given. */
+  create: (movements: StockMovementInput[]) => Promise<StockMovement[]>;
+}
+
+export interface PriceChangeRepository {
+  list: () => Promise<PriceChange[]>;
+  /** Records the price changes of one edit together, in the order given. */
+  create: (changes: PriceChangeInput[]) => Promise<PriceChange[]>;
+  /**
+   * Puts back the prices the products of a bulk edit had before it, all of them or none: it fails when the edit
+   * was already reverted or any of its products was repriced since. Products deleted since are left out.
+   * Resolves with the reverted products and the 'bulk_revert' changes recorded for them.
+   */
+  revertBatch: (batchId: string) => Promise<{ products: Product[]; changes: PriceChange[] }>;
+}
+
+export interface ImageRepository {
+  upload: (file: File, userId: string) => Promise<string>;
+  remove: (imageUrl: string) => Promise<void>;
+}
+
+export interface Repositories {
+  products: ProductRepository;
+  sales: SaleRepository;
+  activityLog: ActivityLogRepository;
+  purchaseOrders: PurchaseOrderRepository;
+  suppliers: SupplierRepository;
+  customers: CustomerRepository;
+  saleReturns: SaleReturnRepository;
+  stockMovements: StockMovementRepository;
+  priceChanges: PriceChangeRepository;
+  inventoryCounts: InventoryCountRepository;
+  stockLocations: StockLocationRepository;
+  stockTransfers: StockTransferRepository;
+  deliveries: DeliveryRepository;
+  codRemittances: CodRemittanceRepository;
+  promotions: PromotionRepository;
+  taxRates: TaxRateRepository;
+  landedCosts: LandedCostRepository;
+  stockLots: StockLotRepository;
+  settings: SettingsRepository;
+  images: ImageRepository;
+  /** Streams changes made from other devices. Returns an unsubscribe function. */
+  subscribe: (handlers: ChangeHandlers) => () => void;
+}
+
+const offline = supabaseClient ? createOfflineRepositories(createSupabaseRepositories(supabaseClient)) : null;
+
+/**
+ * The data-access backend used by the app.
+ * Supabase (with its offline replica) when it is configured, otherwise an in-memory store seeded with the mock catalogue.
+ */
+export const repositories: Repositories = offline ? offline.repositories : createMemoryRepositories();
+
+/** Mutations waiting to reach Supabase. Null in demo mode, which never touches the network. */
+export const outbox: Outbox | null = offline ? offline.outbox : null;
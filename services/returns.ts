@@ -0,0 +1,33 @@
+import type { Sale, SaleReturn } from '../types';
+
+export const RETURN_REASONS: SaleReturn['reason'][] = ['changed_mind', 'defective', 'damaged', 'wrong_item', 'other'];
+
+export const returnsOf = (saleId: number, returns: SaleReturn[]) => returns.filter(r => r.saleId === saleId);
+
+export const returnedQuantity = (saleId: number, returns: SaleReturn[]) =>
+  returnsOf(saleId, returns).reduce((sum, r) => sum + r.quantity, 0);
+
+export const refundedAmount = (saleId: number, returns: SaleReturn[]) =>
+  returnsOf(saleId, returns).reduce((sum, r) => sum + r.refundAmount, 0);
+
+// What each unit of the sale cost, discounts aside (they come off the net amount and the margin alike)
+export const saleUnitCost = (sale: Sale) => sale.quantity > 0 ? (sale.netAmount - sale.totalMargin) / sale.quantity : 0;
+
+// Restocked units are worth their cost again, written-off ones are lost along with the refund less its TVA
+export const returnMargin = (saleReturn: SaleReturn) =>
+  -(saleReturn.refundAmount - saleReturn.taxAmount) + (saleReturn.restock ? saleReturn.unitCost * saleReturn.quantity : 0);
+
+// What the totals and charts add up: sales, and returns as negative sales on the day they happened
+export type SalesEntry = Pick<Sale, 'productName' | 'quantity' | 'totalPrice' | 'totalMargin' | 'createdAt'> & { isReturn?: boolean };
+
+export const salesEntries = (sales: Sale[], returns: SaleReturn[]): SalesEntry[] => [
+  ...sales,
+  ...returns.map(r => ({
+    productName: r.productName,
+    quantity: -r.quantity,
+    totalPrice: -r.refundAmount,
+    totalMargin: returnMargin(r),
+    createdAt: r.createdAt,
+    isReturn: true,
+  })),
+];
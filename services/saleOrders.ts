@@ -0,0 +1,23 @@
+import type { Sale } from '../types';
+
+// The lines of an order are ordinary sales sharing its id, in the order they were rung up
+export const orderLines = (sales: Sale[], orderId: number): Sale[] =>
+  sales.filter(s => s.orderId === orderId).sort((a, b) => Math.abs(a.id) - Math.abs(b.id));
+
+export const orderSummary = (lines: Sale[]) => {
+  const discount = lines.reduce((sum, line) => sum + (line.orderDiscount || 0), 0);
+  const total = lines.reduce((sum, line) => sum + line.totalPrice, 0);
+  return { subtotal: total + discount, discount, total };
+};
+
+// Shares an order discount between lines in proportion to their amount, in cents.
+// The last line takes what rounding left over, so the shares always add up to the discount.
+export const allocateDiscount = (amounts: number[], discount: number): number[] => {
+  const subtotal = amounts.reduce((sum, amount) => sum + amount, 0);
+  let remaining = discount;
+  return amounts.map((amount, index) => {
+    const share = index === amounts.length - 1 ? remaining : subtotal > 0 ? Math.round(discount * amount / subtotal * 100) / 100 : 0;
+    remaining = Math.round((remaining - share) * 100) / 100;
+    return share;
+  });
+};
@@ -0,0 +1,95 @@
+import type { Product, StockLevel, StockLocation, StockTransfer } from '../types';
+import { layersOf, stockCost } from './costLayers';
+
+// Which locations a page shows the stock of: all of them, the main shop, or one location
+export type LocationFilter = 'all' | 'main' | number;
+
+// Levels and transfers are kept per variant for products that have variants
+const holds = (productId: number, variantId?: number) => (record: { productId: number; variantId?: number }) =>
+  record.productId === productId && record.variantId === variantId;
+
+/**
+ * Where the units of a product, or of one of its variants, are. Levels adding up to more than its stock, because units
+ * were sold or written off since, are cut down largest first as the fit_stock_levels SQL trigger does.
+ * The main shop holds whatever is neither at a location nor in transit.
+ */
+export const stockPlacement = (stock: number, productId: number, variantId: number | undefined, levels: StockLevel[], transfers: StockTransfer[]) => {
+  const own = levels.filter(holds(productId, variantId));
+  const inTransit = transfers.filter(t => t.status === 'in_transit' && holds(productId, variantId)(t)).reduce((sum, t) => sum + t.quantity, 0);
+  let excess = own.reduce((sum, l) => sum + l.quantity, 0) + inTransit - stock;
+  const fitted = [...own].sort((a, b) => b.quantity - a.quantity || a.id - b.id).map(level => {
+    const cut = Math.min(level.quantity, Math.max(0, excess));
+    excess -= cut;
+    return cut > 0 ? { ...level, quantity: level.quantity - cut } : level;
+  });
+  const placed = fitted.reduce((sum, l) => sum + l.quantity, 0) + inTransit;
+  return { levels: fitted, inTransit, mainShop: Math.max(0, stock - placed) };
+};
+
+// What a product's stock is kept as: each of its variants, or the product itself when it has none
+const stockUnits = (product: Product) => product.variants?.length
+  ? product.variants.map(v => ({ variantId: v.id as number | undefined, stock: v.stock, buyPrice: v.buyPrice, sellPrice: v.sellPrice }))
+  : [{ variantId: undefined, stock: product.stock, buyPrice: product.buyPrice, sellPrice: product.sellPrice }];
+
+// What a unit in stock cost on average, from the cost layers it came in with
+const averageUnitCost = (product: Product, unit: ReturnType<typeof stockUnits>[number]) =>
+  unit.stock > 0 ? stockCost(layersOf(product, unit.variantId), unit.stock, unit.buyPrice) / unit.stock : unit.buyPrice;
+
+/** Units of a product, or of one of its variants, that can leave a location. `locationId` is undefined for the main shop. */
+export const availableAt = (product: Product, variantId: number | undefined, locationId: number | undefined, levels: StockLevel[], transfers: StockTransfer[]) => {
+  const stock = variantId !== undefined ? product.variants?.find(v => v.id === variantId)?.stock ?? 0 : product.stock;
+  const placement = stockPlacement(stock, product.id, variantId, levels, transfers);
+  if (locationId === undefined) return placement.mainShop;
+  return placement.levels.find(l => l.locationId === locationId)?.quantity ?? 0;
+};
+
+/** Units of a product at a location, across all its variants. `locationId` is undefined for the main shop. */
+export const unitsAt = (product: Product, locationId: number | undefined, levels: StockLevel[], transfers: StockTransfer[]) =>
+  stockUnits(product).reduce((sum, unit) => sum + availableAt(product, unit.variantId, locationId, levels, transfers), 0);
+
+export const matchesLocation = (product: Product, filter: LocationFilter, levels: StockLevel[], transfers: StockTransfer[]) =>
+  filter === 'all' || unitsAt(product, filter === 'main' ? undefined : filter, levels, transfers) > 0;
+
+export interface LocationStock {
+  locationId?: number; // The main shop when undefined
+  units: number;
+  value: number; // At cost, from the cost layers
+  retailValue: number;
+}
+
+/** The units and value of the stock at the main shop, then at each location, and on its way between them. */
+export const stockByLocation = (products: Product[], locations: StockLocation[], levels: StockLevel[], transfers: StockTransfer[]) => {
+  const mainShop: LocationStock = { units: 0, value: 0, retailValue: 0 };
+  const atLocations: LocationStock[] = locations.map(l => ({ locationId: l.id, units: 0, value: 0, retailValue: 0 }));
+  const inTransit: LocationStock = { units: 0, value: 0, retailValue: 0 };
+  const add = (row: LocationStock | undefined, units: number, unit: { unitCost: number; sellPrice: number }) => {
+    if (!row) return;
+    row.units += units;
+    row.value += units * unit.unitCost;
+    row.retailValue += units * unit.sellPrice;
+  };
+  for (const product of products) {
+    for (const stockUnit of stockUnits(product)) {
+      const unit = { ...stockUnit, unitCost: averageUnitCost(product, stockUnit) };
+      const placement = stockPlacement(unit.stock, product.id, unit.variantId, levels, transfers);
+      add(mainShop, placement.mainShop, unit);
+      add(inTransit, Math.min(placement.inTransit, unit.stock), unit);
+      placement.levels.forEach(level => add(atLocations.find(row => row.locationId === level.locationId), level.quantity, unit));
+    }
+  }
+  return { rows: [mainShop, ...atLocations], inTransit };
+};
+
+/** Cuts every level down to the stock its product or variant still has, like the fit_stock_levels SQL trigger. */
+export const fitStockLevels = (products: Product[], levels: StockLevel[], transfers: StockTransfer[]) => {
+  const fitted = new Map<number, StockLevel>();
+  for (const product of products) {
+    for (const unit of stockUnits(product)) {
+      stockPlacement(unit.stock, product.id, unit.variantId, levels, transfers).levels.forEach(level => fitted.set(level.id, level));
+    }
+  }
+  return levels.map(level => fitted.get(level.id) || level);
+};
+
+export const locationName = (locations: StockLocation[], locationId: number | undefined, mainShopName: string) =>
+  locationId === undefined ? mainShopName : locations.find(l => l.id === locationId)?.name ?? '';
@@ -0,0 +1,72 @@
+import type { ExpiryStatus, Product, StockLot } from '../types';
+import type { RecordChange } from './repository';
+
+// Lots expiring within this many days are flagged before they expire
+export const EXPIRY_WARNING_DAYS = 30;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Soonest expiring first, lots without an expiry date last, then oldest first
+const fefo = (a: StockLot, b: StockLot) =>
+  (a.expiresAt || '9999-12-31').localeCompare(b.expiresAt || '9999-12-31')
+  || new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() || a.id - b.id;
+
+/** The lots of a product without variants, or of one of its variants, in the order they are sold from. */
+export const lotsOf = (product: Product, variantId?: number): StockLot[] =>
+  (product.lots || []).filter(l => l.variantId === variantId).sort(fefo);
+
+/**
+ * The lots left once `quantity` units are taken out, leaving `stockLeft` in stock, as the fit_stock_lots SQL trigger does.
+ * Untracked units are taken as never expiring, so the units come from the lots with an expiry date first, soonest expiring first,
+ * then from the untracked units, then from the lots without an expiry date.
+ */
+export const consumeLots = (lots: StockLot[], quantity: number, stockLeft: number): StockLot[] => {
+  let left = quantity;
+  const remaining: StockLot[] = [];
+  for (const lot of [...lots].sort(fefo)) {
+    const taken = lot.expiresAt ? Math.min(lot.quantity, left) : 0;
+    left -= taken;
+    if (lot.quantity > taken) remaining.push({ ...lot, quantity: lot.quantity - taken });
+  }
+  // The lots left can hold at most the units left
+  let excess = remaining.reduce((sum, l) => sum + l.quantity, 0) - Math.max(0, stockLeft);
+  return remaining.flatMap(lot => {
+    const cut = Math.min(lot.quantity, Math.max(0, excess));
+    excess -= cut;
+    return lot.quantity > cut ? [{ ...lot, quantity: lot.quantity - cut }] : [];
+  });
+};
+
+/** Whole days from today until the lot expires, negative once it has; null when it has no expiry date. */
+export const daysUntilExpiry = (lot: StockLot, now = new Date()): number | null => {
+  if (!lot.expiresAt) return null;
+  const today = Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+  return Math.round((new Date(`${lot.expiresAt}T00:00:00Z`).getTime() - today) / DAY);
+};
+
+/** A lot is expired from its expiry date on. */
+export const expiryStatus = (lot: StockLot, now = new Date()): ExpiryStatus => {
+  const days = daysUntilExpiry(lot, now);
+  if (days === null || days > EXPIRY_WARNING_DAYS) return 'ok';
+  return days <= 0 ? 'expired' : 'expiring';
+};
+
+// Product rows streamed by realtime come without their lots, so the ones already known are kept.
+export const keepStockLots = (products: Product[], change: RecordChange<Product>): RecordChange<Product> => {
+  if (change.type === 'delete' || change.record.lots) return change;
+  const lots = products.find(p => p.id === change.record.id)?.lots;
+  return lots ? { ...change, record: { ...change.record, lots } } : change;
+};
+
+// Like cost layers, lots stream in separately from their products and are merged into the product they belong to.
+export const applyStockLotChange = (products: Product[], change: RecordChange<StockLot>): Product[] => {
+  if (change.type === 'delete') {
+    return products.map(p => p.lots?.some(l => l.id === change.id) ? { ...p, lots: p.lots.filter(l => l.id !== change.id) } : p);
+  }
+  const { record } = change;
+  return products.map(p => {
+    if (p.id !== record.productId) return p;
+    const lots = p.lots || [];
+    return { ...p, lots: lots.some(l => l.id === record.id) ? lots.map(l => l.id === record.id ? record : l) : [...lots, record] };
+  });
+};
@@ -0,0 +1,55 @@
+import type { Product, StockMovement, StockAdjustmentReason } from '../types';
+import { variantLabel } from './variants';
+
+export const STOCK_ADJUSTMENT_REASONS: StockAdjustmentReason[] = ['count_correction', 'receipt', 'loss', 'damage'];
+
+// A change to the stock of a product, or of one of its variants
+export interface StockChange {
+  variantId?: number;
+  variantName?: string;
+  quantity: number;
+}
+
+// A product with variants keeps its stock in them
+const stockLevels = (product: Product | null): (StockChange & { key: string })[] => {
+  if (!product) return [];
+  if (product.variants?.length) {
+    return product.variants.map(v => ({ key: `variant-${v.id}`, variantId: v.id, variantName: variantLabel(v), quantity: v.stock }));
+  }
+  return [{ key: 'product', quantity: product.stock }];
+};
+
+// What an edit did to the stock, variant by variant. Variants added or removed count as units coming in or going out.
+export const stockChanges = (before: Product | null, after: Product | null): StockChange[] => {
+  const previous = stockLevels(before);
+  const next = stockLevels(after);
+  const keys = [...new Set([...previous, ...next].map(level => level.key))];
+  return keys.map(key => {
+    const from = previous.find(level => level.key === key);
+    const to = next.find(level => level.key === key);
+    const { variantId, variantName } = to || from!;
+    return { variantId, variantName, quantity: (to?.quantity ?? 0) - (from?.quantity ?? 0) };
+  }).filter(change => change.quantity !== 0);
+};
+
+/** Units that came back for a sale or a delivery were put back by cancelling it. */
+export const isCancellation = (movement: StockMovement) => movement.quantity > 0 && (movement.reason === 'sale' || movement.reason === 'delivery');
+
+export const movementsOf = (productId: number, movements: StockMovement[]) => movements.filter(m => m.productId === productId);
+
+/**
+ * The movements of a product from oldest to newest, each with the stock it left behind.
+ * `unrecorded` is the part of the current stock the ledger does not explain, such as stock from before it existed.
+ */
+export const stockLedger = (product: Product, movements: StockMovement[]) => {
+  const ordered = movementsOf(product.id, movements)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() || Math.abs(a.id) - Math.abs(b.id));
+  const recorded = ordered.reduce((sum, m) => sum + m.quantity, 0);
+  const unrecorded = product.stock - recorded;
+  let balance = unrecorded;
+  const entries = ordered.map(movement => {
+    balance += movement.quantity;
+    return { movement, balance };
+  });
+  return { entries, unrecorded };
+};
@@ -1,8 +1,10 @@
 import type { Theme, Language } from '../types';
+import { DEFAULT_CURRENCY } from './money';
 
 const TOKEN_KEY = 'authToken';
 const THEME_KEY = 'theme';
 const LANGUAGE_KEY = 'language';
+const CURRENCY_KEY = 'currency';
 const SUPABASE_URL_KEY = 'supabaseUrl';
 const SUPABASE_ANON_KEY = 'supabaseAnonKey';
 const GEMINI_API_KEY_KEY = 'geminiApiKey';
@@ -41,6 +43,14 @@ export const storage = {
     localStorage.setItem(LANGUAGE_KEY, language);
   },
 
+  // Currency the shop sells in
+  getCurrency: (): string => {
+    return localStorage.getItem(CURRENCY_KEY) || DEFAULT_CURRENCY;
+  },
+  setCurrency: (currency: string): void => {
+    localStorage.setItem(CURRENCY_KEY, currency);
+  },
+
   // Supabase Credentials
   getSupabaseCredentials: (): { url: string | null; anonKey: string | null } => {
     return {
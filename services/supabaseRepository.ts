@@ -0,0 +1,1004 @@
+import type { SupabaseClient, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import type { Product, ProductVariant, ProductVariantFormData, Sale, ActivityLog, PurchaseOrder, PurchaseOrderLine, PurchaseOrderFormData, Supplier, Customer, SaleReturn, StockMovement, PriceChange, InventoryCount, InventoryCountLine, StockLocation, StockLevel, StockTransfer, Delivery, DeliveryChanges, CodRemittance, Promotion, TaxRate, LandedCost, LandedCostLine, CostLayer, StockLot, ShopSettings } from '../types';
+import { StaleRecordError } from './repository';
+import type { Repositories, ProductInput, ActivityLogInput, SupplierInput, CustomerInput, StockMovementInput, PriceChangeInput, StockLocationInput, PromotionInput, TaxRateInput, RecordChange } from './repository';
+import { uploadImage, deleteImage } from './supabase';
+import { normalizeSupplierName } from './suppliers';
+import { DEFAULT_COSTING_METHOD } from './costLayers';
+
+// Products and variants are linked by two foreign keys, so embeds have to name the one they follow.
+// Products come with their cost layers too.
+const PRODUCT_WITH_VARIANTS = '*, product_variants!product_variants_product_id_fkey(*), cost_layers(*), stock_lots(*)';
+const PURCHASE_ORDER_WITH_LINES = '*, purchase_order_lines(*)';
+const INVENTORY_COUNT_WITH_LINES = '*, inventory_count_lines(*)';
+
+// The database uses lowercase column names, the app uses camelCase.
+export const mapSupabaseRecordToVariant = (v: any): ProductVariant => ({
+  id: v.id,
+  productId: v.product_id,
+  options: v.options || [],
+  sku: v.sku || undefined,
+  barcode: v.barcode || undefined,
+  buyPrice: v.buyprice ?? 0,
+  sellPrice: v.sellprice ?? 0,
+  stock: v.stock ?? 0,
+});
+
+export const mapSupabaseRecordToCostLayer = (l: any): CostLayer => ({
+  id: l.id,
+  productId: l.product_id,
+  variantId: l.variant_id ?? undefined,
+  purchaseOrderId: l.purchase_order_id ?? undefined,
+  quantity: l.quantity ?? 0,
+  remaining: l.remaining ?? 0,
+  unitCost: l.unit_cost ?? 0,
+  createdAt: l.created_at,
+});
+
+export const mapSupabaseRecordToStockLot = (l: any): StockLot => ({
+  id: l.id,
+  productId: l.product_id,
+  variantId: l.variant_id ?? undefined,
+  lotNumber: l.lot_number || undefined,
+  expiresAt: l.expires_at ?? undefined,
+  quantity: l.quantity ?? 0,
+  purchaseOrderId: l.purchase_order_id ?? undefined,
+  createdAt: l.created_at,
+});
+
+export const mapSupabaseRecordToProduct = (p: any): Product => ({
+  id: p.id,
+  name: p.name || '',
+  description: p.description,
+  category: p.category || '',
+  supplier: p.supplier || '',
+  supplierId: p.supplier_id ?? undefined,
+  buyPrice: p.buyprice ?? 0,
+  sellPrice: p.sellprice ?? 0,
+  stock: p.stock ?? 0,
+  status: p.status || ((p.stock ?? 0) > 0 ? 'actif' : 'rupture'),
+  createdAt: p.created_at,
+  updatedAt: p.updated_at,
+  imageUrl: p.imageurl,
+  ownerId: p.owner_id,
+  sku: p.sku ?? undefined,
+  barcode: p.barcode ?? undefined,
+  taxRate: p.tax_rate ?? undefined,
+  priceIncludesTax: !!p.price_includes_tax,
+  // Realtime payloads carry the bare row, so variants are only set when they were fetched
+  ...(p.product_variants ? { variants: p.product_variants.map(mapSupabaseRecordToVariant) } : {}),
+  ...(p.cost_layers ? { costLayers: p.cost_layers.map(mapSupabaseRecordToCostLayer) } : {}),
+  ...(p.stock_lots ? { lots: p.stock_lots.map(mapSupabaseRecordToStockLot) } : {}),
+});
+
+export const mapSupabaseRecordToSale = (s: any): Sale => ({
+  id: s.id,
+  productId: s.product_id,
+  productName: s.productname || '',
+  variantId: s.variant_id ?? undefined,
+  variantName: s.variantname ?? undefined,
+  customerId: s.customer_id ?? undefined,
+  orderId: s.order_id ?? undefined,
+  quantity: s.quantity ?? 0,
+  // Sales made before list prices were kept were sold at the list price
+  listPrice: s.list_price ?? s.sellprice ?? 0,
+  sellPrice: s.sellprice ?? 0,
+  promotionId: s.promotion_id ?? undefined,
+  discount: s.discount || undefined,
+  orderDiscount: s.order_discount || undefined,
+  totalPrice: s.totalprice ?? 0,
+  totalMargin: s.totalmargin ?? 0,
+  // Sales made before TVA was kept carried none
+  taxRate: s.tax_rate ?? 0,
+  netAmount: s.net_amount ?? s.totalprice ?? 0,
+  taxAmount: s.tax_amount ?? 0,
+  payments: (s.payments || []).map((p: any) => ({ method: p.method, amount: Number(p.amount) || 0 })),
+  paymentStatus: s.payment_status || 'paid',
+  remittanceId: s.remittance_id ?? undefined,
+  createdAt: s.created_at,
+  ownerId: s.owner_id
+});
+
+export const mapSupabaseRecordToSaleReturn = (r: any): SaleReturn => ({
+  id: r.id,
+  saleId: r.sale_id,
+  productId: r.product_id,
+  productName: r.productname || '',
+  variantId: r.variant_id ?? undefined,
+  variantName: r.variantname ?? undefined,
+  quantity: r.quantity ?? 0,
+  reason: r.reason || 'other',
+  notes: r.notes ?? undefined,
+  restock: !!r.restock,
+  refundAmount: r.refund_amount ?? 0,
+  taxAmount: r.tax_amount ?? 0,
+  unitCost: r.unitcost ?? 0,
+  createdAt: r.created_at,
+  ownerId: r.owner_id,
+});
+
+export const mapSupabaseRecordToActivityLog = (l: any): ActivityLog => ({
+  id: l.id,
+  productId: l.product_id,
+  productName: l.productname || '',
+  action: l.action,
+  details: l.details,
+  createdAt: l.created_at,
+  ownerId: l.owner_id
+});
+
+export const mapSupabaseRecordToStockMovement = (m: any): StockMovement => ({
+  id: m.id,
+  productId: m.product_id,
+  productName: m.productname || '',
+  variantId: m.variant_id ?? undefined,
+  variantName: m.variantname ?? undefined,
+  quantity: m.quantity ?? 0,
+  reason: m.reason,
+  referenceId: m.reference_id ?? undefined,
+  notes: m.notes ?? undefined,
+  createdAt: m.created_at,
+  ownerId: m.owner_id,
+});
+
+export const mapSupabaseRecordToPriceChange = (c: any): PriceChange => ({
+  id: c.id,
+  productId: c.product_id,
+  productName: c.productname || '',
+  oldBuyPrice: c.old_buyprice ?? 0,
+  newBuyPrice: c.new_buyprice ?? 0,
+  oldSellPrice: c.old_sellprice ?? 0,
+  newSellPrice: c.new_sellprice ?? 0,
+  source: c.source,
+  batchId: c.batch_id ?? undefined,
+  bulkUpdate: c.bulk_update ?? undefined,
+  createdAt: c.created_at,
+  ownerId: c.owner_id,
+});
+
+const mapProductToRecord = (p: Partial<ProductInput>) => {
+  const record: Record<string, unknown> = {};
+  if (p.name !== undefined) record.name = p.name;
+  if (p.description !== undefined) record.description = p.description || null;
+  if (p.category !== undefined) record.category = p.category;
+  if (p.supplier !== undefined) record.supplier = p.supplier;
+  if (p.buyPrice !== undefined) record.buyprice = p.buyPrice;
+  if (p.sellPrice !== undefined) record.sellprice = p.sellPrice;
+  if (p.stock !== undefined) record.stock = p.stock;
+  if (p.status !== undefined) record.status = p.status;
+  if (p.imageUrl !== undefined) record.imageurl = p.imageUrl;
+  if (p.ownerId !== undefined) record.owner_id = p.ownerId;
+  if (p.sku !== undefined) record.sku = p.sku || null;
+  if (p.barcode !== undefined) record.barcode = p.barcode || null;
+  if ('taxRate' in p) record.tax_rate = p.taxRate ?? null;
+  if (p.priceIncludesTax !== undefined) record.price_includes_tax = p.priceIncludesTax;
+  return record;
+};
+
+const mapVariantToRecord = (v: ProductVariantFormData) => ({
+  id: v.id,
+  options: v.options,
+  sku: v.sku || null,
+  barcode: v.barcode || null,
+  buyprice: v.buyPrice,
+  sellprice: v.sellPrice,
+  stock: v.stock,
+});
+
+export const mapSupabaseRecordToPurchaseOrderLine = (l: any): PurchaseOrderLine => ({
+  id: l.id,
+  purchaseOrderId: l.purchase_order_id,
+  productId: l.product_id,
+  variantId: l.variant_id ?? undefined,
+  productName: l.productname || '',
+  variantName: l.variantname ?? undefined,
+  quantity: l.quantity ?? 0,
+  receivedQuantity: l.received_quantity ?? 0,
+  unitCost: l.unitcost ?? 0,
+});
+
+export const mapSupabaseRecordToPurchaseOrder = (o: any): PurchaseOrder => ({
+  id: o.id,
+  supplier: o.supplier || '',
+  supplierId: o.supplier_id ?? undefined,
+  reference: o.reference ?? undefined,
+  notes: o.notes ?? undefined,
+  status: o.status || 'draft',
+  currency: o.currency ?? undefined,
+  exchangeRate: o.exchange_rate ?? undefined,
+  // Like variants, realtime rows come without their lines
+  lines: (o.purchase_order_lines || []).map(mapSupabaseRecordToPurchaseOrderLine).sort((a: PurchaseOrderLine, b: PurchaseOrderLine) => a.id - b.id),
+  orderedAt: o.ordered_at ?? undefined,
+  createdAt: o.created_at,
+  updatedAt: o.updated_at,
+  ownerId: o.owner_id,
+});
+
+export const mapSupabaseRecordToInventoryCountLine = (l: any): InventoryCountLine => ({
+  id: l.id,
+  inventoryCountId: l.inventory_count_id,
+  productId: l.product_id,
+  variantId: l.variant_id ?? undefined,
+  productName: l.productname || '',
+  variantName: l.variantname ?? undefined,
+  counted: l.counted ?? undefined,
+  expected: l.expected ?? undefined,
+  unitCost: l.unitcost ?? undefined,
+});
+
+export const mapSupabaseRecordToInventoryCount = (c: any): InventoryCount => ({
+  id: c.id,
+  category: c.category ?? undefined,
+  supplierId: c.supplier_id ?? undefined,
+  status: c.status || 'in_progress',
+  // Like purchase orders, realtime rows come without their lines
+  lines: (c.inventory_count_lines || []).map(mapSupabaseRecordToInventoryCountLine).sort((a: InventoryCountLine, b: InventoryCountLine) => a.id - b.id),
+  postedAt: c.posted_at ?? undefined,
+  createdAt: c.created_at,
+  updatedAt: c.updated_at,
+  ownerId: c.owner_id,
+});
+
+export const mapSupabaseRecordToStockLocation = (l: any): StockLocation => ({
+  id: l.id,
+  name: l.name || '',
+  kind: l.kind || 'warehouse',
+  notes: l.notes ?? undefined,
+  createdAt: l.created_at,
+  updatedAt: l.updated_at,
+  ownerId: l.owner_id,
+});
+
+const mapStockLocationToRecord = (l: Partial<StockLocationInput>) => {
+  const record: Record<string, unknown> = {};
+  if (l.name !== undefined) record.name = l.name.trim();
+  if (l.kind !== undefined) record.kind = l.kind;
+  if (l.notes !== undefined) record.notes = l.notes || null;
+  if (l.ownerId !== undefined) record.owner_id = l.ownerId;
+  return record;
+};
+
+export const mapSupabaseRecordToStockLevel = (l: any): StockLevel => ({
+  id: l.id,
+  productId: l.product_id,
+  variantId: l.variant_id ?? undefined,
+  locationId: l.location_id,
+  quantity: l.quantity ?? 0,
+});
+
+export const mapSupabaseRecordToStockTransfer = (t: any): StockTransfer => ({
+  id: t.id,
+  productId: t.product_id,
+  productName: t.productname || '',
+  variantId: t.variant_id ?? undefined,
+  variantName: t.variantname ?? undefined,
+  quantity: t.quantity ?? 0,
+  fromLocationId: t.from_location_id ?? undefined,
+  toLocationId: t.to_location_id ?? undefined,
+  status: t.status || 'in_transit',
+  notes: t.notes ?? undefined,
+  receivedAt: t.received_at ?? undefined,
+  createdAt: t.created_at,
+  ownerId: t.owner_id,
+});
+
+export const mapSupabaseRecordToDelivery = (d: any): Delivery => ({
+  id: d.id,
+  productId: d.product_id ?? null,
+  productName: d.productname || '',
+  variantId: d.variant_id ?? undefined,
+  variantName: d.variantname ?? undefined,
+  quantity: d.quantity ?? 0,
+  unitPrice: d.unit_price ?? 0,
+  unitCost: d.unit_cost ?? 0,
+  locationId: d.location_id ?? undefined,
+  customerId: d.customer_id ?? undefined,
+  address: d.address ?? undefined,
+  wilaya: d.wilaya ?? undefined,
+  courier: d.courier ?? undefined,
+  trackingNumber: d.tracking_number ?? undefined,
+  codAmount: d.cod_amount ?? 0,
+  status: d.status || 'pending',
+  saleId: d.sale_id ?? undefined,
+  notes: d.notes ?? undefined,
+  deliveredAt: d.delivered_at ?? undefined,
+  createdAt: d.created_at,
+  updatedAt: d.updated_at,
+  ownerId: d.owner_id,
+});
+
+export const mapSupabaseRecordToCodRemittance = (r: any): CodRemittance => ({
+  id: r.id,
+  courier: r.courier || '',
+  reference: r.reference ?? undefined,
+  amount: r.amount ?? 0,
+  codTotal: r.cod_total ?? 0,
+  paidAt: r.paid_at,
+  notes: r.notes ?? undefined,
+  createdAt: r.created_at,
+  ownerId: r.owner_id,
+});
+
+export const mapSupabaseRecordToPromotion = (p: any): Promotion => ({
+  id: p.id,
+  name: p.name || '',
+  kind: p.kind || 'percent',
+  value: p.value ?? 0,
+  productId: p.product_id ?? undefined,
+  category: p.category ?? undefined,
+  startsAt: p.starts_at,
+  endsAt: p.ends_at,
+  createdAt: p.created_at,
+  ownerId: p.owner_id,
+});
+
+const mapSupabaseRecordToShopSettings = (s: any): ShopSettings => ({
+  costingMethod: s?.costing_method || DEFAULT_COSTING_METHOD,
+});
+
+export const mapSupabaseRecordToTaxRate = (r: any): TaxRate => ({
+  id: r.id,
+  category: r.category || '',
+  rate: r.rate ?? 0,
+  createdAt: r.created_at,
+  ownerId: r.owner_id,
+});
+
+const mapSupabaseRecordToLandedCostLine = (l: any): LandedCostLine => ({
+  productId: l.product_id,
+  variantId: l.variant_id ?? undefined,
+  productName: l.product_name || '',
+  variantName: l.variant_name ?? undefined,
+  quantity: l.quantity ?? 0,
+  unitCost: l.unit_cost ?? 0,
+  weight: l.weight ?? undefined,
+  allocated: l.allocated ?? 0,
+  landedUnitCost: l.landed_unit_cost ?? 0,
+});
+
+export const mapSupabaseRecordToLandedCost = (c: any): LandedCost => ({
+  id: c.id,
+  purchaseOrderId: c.purchase_order_id ?? undefined,
+  reference: c.reference ?? undefined,
+  basis: c.basis || 'value',
+  charges: (c.charges || []).map((charge: any) => ({ label: charge.label || '', amount: charge.amount ?? 0 })),
+  total: c.total ?? 0,
+  lines: (c.lines || []).map(mapSupabaseRecordToLandedCostLine),
+  createdAt: c.created_at,
+  ownerId: c.owner_id,
+});
+
+const mapPromotionToRecord = (p: Partial<PromotionInput>) => {
+  const record: Record<string, unknown> = {};
+  if (p.name !== undefined) record.name = p.name.trim();
+  if (p.kind !== undefined) record.kind = p.kind;
+  if (p.value !== undefined) record.value = p.value;
+  if ('productId' in p) record.product_id = p.productId ?? null;
+  if ('category' in p) record.category = p.category || null;
+  if (p.startsAt !== undefined) record.starts_at = p.startsAt;
+  if (p.endsAt !== undefined) record.ends_at = p.endsAt;
+  if (p.ownerId !== undefined) record.owner_id = p.ownerId;
+  return record;
+};
+
+const mapDeliveryChangesToRecord = (d: DeliveryChanges) => {
+  const record: Record<string, unknown> = {};
+  if ('customerId' in d) record.customer_id = d.customerId ?? null;
+  if (d.address !== undefined) record.address = d.address || null;
+  if (d.wilaya !== undefined) record.wilaya = d.wilaya || null;
+  if (d.courier !== undefined) record.courier = d.courier || null;
+  if (d.trackingNumber !== undefined) record.tracking_number = d.trackingNumber || null;
+  if (d.codAmount !== undefined) record.cod_amount = d.codAmount;
+  if (d.notes !== undefined) record.notes = d.notes || null;
+  if (d.status !== undefined) record.status = d.status;
+  return record;
+};
+
+export const mapSupabaseRecordToSupplier = (s: any): Supplier => ({
+  id: s.id,
+  name: s.name || '',
+  contactName: s.contact_name ?? undefined,
+  phone: s.phone ?? undefined,
+  email: s.email ?? undefined,
+  address: s.address ?? undefined,
+  leadTimeDays: s.lead_time_days ?? undefined,
+  paymentTerms: s.payment_terms ?? undefined,
+  notes: s.notes ?? undefined,
+  createdAt: s.created_at,
+  updatedAt: s.updated_at,
+  ownerId: s.owner_id,
+});
+
+const mapSupplierToRecord = (s: Partial<SupplierInput>) => {
+  const record: Record<string, unknown> = {};
+  if (s.name !== undefined) record.name = normalizeSupplierName(s.name);
+  if (s.contactName !== undefined) record.contact_name = s.contactName || null;
+  if (s.phone !== undefined) record.phone = s.phone || null;
+  if (s.email !== undefined) record.email = s.email || null;
+  if (s.address !== undefined) record.address = s.address || null;
+  if ('leadTimeDays' in s) record.lead_time_days = s.leadTimeDays ?? null;
+  if (s.paymentTerms !== undefined) record.payment_terms = s.paymentTerms || null;
+  if (s.notes !== undefined) record.notes = s.notes || null;
+  if (s.ownerId !== undefined) record.owner_id = s.ownerId;
+  return record;
+};
+
+export const mapSupabaseRecordToCustomer = (c: any): Customer => ({
+  id: c.id,
+  name: c.name || '',
+  phone: c.phone ?? undefined,
+  address: c.address ?? undefined,
+  wilaya: c.wilaya ?? undefined,
+  notes: c.notes ?? undefined,
+  createdAt: c.created_at,
+  updatedAt: c.updated_at,
+  ownerId: c.owner_id,
+});
+
+const mapCustomerToRecord = (c: Partial<CustomerInput>) => {
+  const record: Record<string, unknown> = {};
+  if (c.name !== undefined) record.name = c.name.trim();
+  if (c.phone !== undefined) record.phone = c.phone || null;
+  if (c.address !== undefined) record.address = c.address || null;
+  if (c.wilaya !== undefined) record.wilaya = c.wilaya || null;
+  if (c.notes !== undefined) record.notes = c.notes || null;
+  if (c.ownerId !== undefined) record.owner_id = c.ownerId;
+  return record;
+};
+
+// The unique index on names surfaces as a constraint violation
+const supplierError = (error: { code?: string }, name?: string) =>
+  error.code === '23505' && name ? new Error(`A supplier named ${normalizeSupplierName(name)} already exists`) : error;
+
+const mapPurchaseOrderLinesToRecord = (order: PurchaseOrderFormData) => order.lines.map(l => ({
+  product_id: l.productId,
+  variant_id: l.variantId ?? null,
+  quantity: l.quantity,
+  unitcost: l.unitCost,
+}));
+
+const mapActivityLogToRecord = (l: ActivityLogInput) => ({
+  product_id: l.productId,
+  productname: l.productName,
+  action: l.action,
+  details: l.details || null,
+  owner_id: l.ownerId,
+});
+
+const mapStockMovementToRecord = (m: StockMovementInput) => ({
+  product_id: m.productId,
+  productname: m.productName,
+  variant_id: m.variantId ?? null,
+  variantname: m.variantName || null,
+  quantity: m.quantity,
+  reason: m.reason,
+  reference_id: m.referenceId ?? null,
+  notes: m.notes || null,
+  owner_id: m.ownerId,
+});
+
+const mapPriceChangeToRecord = (c: PriceChangeInput) => ({
+  product_id: c.productId,
+  productname: c.productName,
+  old_buyprice: c.oldBuyPrice,
+  new_buyprice: c.newBuyPrice,
+  old_sellprice: c.oldSellPrice,
+  new_sellprice: c.newSellPrice,
+  source: c.source,
+  batch_id: c.batchId ?? null,
+  bulk_update: c.bulkUpdate ?? null,
+  owner_id: c.ownerId,
+});
+
+const toRecordChange = <T>(payload: RealtimePostgresChangesPayload<any>, map: (record: any) => T): RecordChange<T> =>
+  payload.eventType === 'DELETE'
+    ? { type: 'delete', id: payload.old.id }
+    : { type: payload.eventType === 'INSERT' ? 'insert' : 'update', record: map(payload.new) };
+
+export const createSupabaseRepositories = (client: SupabaseClient): Repositories => ({
+  products: {
+    list: async () => {
+      const { data, error } = await client.from('products').select(PRODUCT_WITH_VARIANTS).order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(mapSupabaseRecordToProduct);
+    },
+    create: async (product, stockNote) => {
+      const { data, error } = await client.rpc('create_products', {
+        p_products: [mapProductToRecord(product)], p_reason: stockNote?.reason ?? null, p_notes: stockNote?.notes ?? null,
+      });
+      if (error) throw error;
+      return { product: mapSupabaseRecordToProduct(data.products[0]), movements: (data.movements || []).map(mapSupabaseRecordToStockMovement) };
+    },
+    createMany: async (products, stockNote) => {
+      const { data, error } = await client.rpc('create_products', {
+        p_products: products.map(mapProductToRecord), p_reason: stockNote?.reason ?? null, p_notes: stockNote?.notes ?? null,
+      });
+      if (error) throw error;
+      return { products: (data.products || []).map(mapSupabaseRecordToProduct), movements: (data.movements || []).map(mapSupabaseRecordToStockMovement) };
+    },
+    update: async (id, changes, expectedUpdatedAt, stockNote) => {
+      const { data, error } = await client.rpc('update_product', {
+        p_product_id: id, p_changes: mapProductToRecord(changes), p_expected_updated_at: expectedUpdatedAt ?? null,
+        p_reason: stockNote?.reason ?? null, p_notes: stockNote?.notes ?? null,
+      });
+      if (error) throw error;
+      if (!data) {
+        const { data: current, error: fetchError } = await client.from('products').select(PRODUCT_WITH_VARIANTS).eq('id', id).maybeSingle();
+        if (fetchError) throw fetchError;
+        throw new StaleRecordError(current ? mapSupabaseRecordToProduct(current) : null);
+      }
+      return { product: mapSupabaseRecordToProduct(data.product), movements: (data.movements || []).map(mapSupabaseRecordToStockMovement) };
+    },
+    remove: async (id) => {
+      const { error } = await client.from('products').delete().eq('id', id);
+      if (error) throw error;
+    },
+    removeMany: async (ids) => {
+      const { error } = await client.from('products').delete().in('id', ids);
+      if (error) throw error;
+    },
+    saveVariants: async (id, variants, stockNote) => {
+      const { data, error } = await client.rpc('save_product_variants', {
+        p_product_id: id, p_variants: variants.map(mapVariantToRecord), p_reason: stockNote?.reason ?? null, p_notes: stockNote?.notes ?? null,
+      });
+      if (error) throw error;
+      return { product: mapSupabaseRecordToProduct(data.product), movements: (data.movements || []).map(mapSupabaseRecordToStockMovement) };
+    },
+  },
+  sales: {
+    list: async () => {
+      const { data, error } = await client.from('sales').select('*').order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(mapSupabaseRecordToSale);
+    },
+    record: async (productId, quantity, variantId, customerId, payments, pricing) => {
+      const { data, error } = await client.rpc('record_sale', {
+        p_product_id: productId, p_quantity: quantity, p_variant_id: variantId ?? null, p_customer_id: customerId ?? null, p_payments: payments ?? null,
+        p_unit_price: pricing?.unitPrice ?? null, p_discount_kind: pricing?.discount?.kind ?? null, p_discount_value: pricing?.discount?.value ?? null,
+      });
+      if (error) throw error;
+      return {
+        product: mapSupabaseRecordToProduct(data.product),
+        sale: mapSupabaseRecordToSale(data.sale),
+        movements: (data.movements || []).map(mapSupabaseRecordToStockMovement),
+      };
+    },
+    cancel: async (id) => {
+      const { data, error } = await client.rpc('cancel_sale', { p_sale_id: id });
+      if (error) throw error;
+      return { product: data.product ? mapSupabaseRecordToProduct(data.product) : null, movements: (data.movements || []).map(mapSupabaseRecordToStockMovement) };
+    },
+    checkout: async (order) => {
+      const { data, error } = await client.rpc('checkout_sale_order', {
+        p_lines: order.lines.map(l => ({ product_id: l.productId, variant_id: l.variantId ?? null, quantity: l.quantity })),
+        p_discount: order.discount, p_customer_id: order.customerId ?? null, p_payments: order.payments ?? null,
+      });
+      if (error) throw error;
+      return {
+        sales: (data.sales || []).map(mapSupabaseRecordToSale),
+        products: (data.products || []).map(mapSupabaseRecordToProduct),
+        movements: (data.movements || []).map(mapSupabaseRecordToStockMovement),
+      };
+    },
+    cancelOrder: async (orderId) => {
+      const { data, error } = await client.rpc('cancel_sale_order', { p_order_id: orderId });
+      if (error) throw error;
+      return { products: (data.products || []).map(mapSupabaseRecordToProduct), movements: (data.movements || []).map(mapSupabaseRecordToStockMovement) };
+    },
+  },
+  activityLog: {
+    list: async () => {
+      const { data, error } = await client.from('activity_log').select('*').order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(mapSupabaseRecordToActivityLog);
+    },
+    create: async (entry) => {
+      const { data, error } = await client.from('activity_log').insert(mapActivityLogToRecord(entry)).select().single();
+      if (error) throw error;
+      return mapSupabaseRecordToActivityLog(data);
+    },
+  },
+  stockMovements: {
+    list: async () => {
+      const { data, error } = await client.from('stock_movements').select('*').order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(mapSupabaseRecordToStockMovement);
+    },
+    create: async (movements) => {
+      if (movements.length === 0) return [];
+      const { data, error } = await client.from('stock_movements').insert(movements.map(mapStockMovementToRecord)).select().order('id');
+      if (error) throw error;
+      return (data || []).map(mapSupabaseRecordToStockMovement);
+    },
+  },
+  priceChanges: {
+    list: async () => {
+      const { data, error } = await client.from('price_changes').select('*').order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(mapSupabaseRecordToPriceChange);
+    },
+    create: async (changes) => {
+      if (changes.length === 0) return [];
+      const { data, error } = await client.from('price_changes').insert(changes.map(mapPriceChangeToRecord)).select().order('id');
+      if (error) throw error;
+      return (data || []).map(mapSupabaseRecordToPriceChange);
+    },
+    revertBatch: async (batchId) => {
+      const { data, error } = await client.rpc('revert_bulk_price_change', { p_batch_id: batchId });
+      if (error) throw error;
+      return { products: (data.products || []).map(mapSupabaseRecordToProduct), changes: (data.price_changes || []).map(mapSupabaseRecordToPriceChange) };
+    },
+  },
+  purchaseOrders: {
+    list: async () => {
+      const { data, error } = await client.from('purchase_orders').select(PURCHASE_ORDER_WITH_LINES).order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(mapSupabaseRecordToPurchaseOrder);
+    },
+    save: async (id, order) => {
+      const { data, error } = await client.rpc('save_purchase_order', {
+        p_order_id: id, p_supplier: order.supplier, p_reference: order.reference || null, p_notes: order.notes || null,
+        p_currency: order.currency ?? null, p_exchange_rate: order.currency !== undefined ? order.exchangeRate ?? null : null,
+        p_lines: mapPurchaseOrderLinesToRecord(order),
+      });
+      if (error) throw error;
+      return mapSupabaseRecordToPurchaseOrder(data);
+    },
+    markOrdered: async (id) => {
+      const { data, error } = await client.from('purchase_orders')
+        .update({ status: 'ordered', ordered_at: new Date().toISOString() })
+        .eq('id', id).eq('status', 'draft')
+        .select(PURCHASE_ORDER_WITH_LINES).maybeSingle();
+      if (error) throw error;
+      if (!data) throw new Error(`Purchase order ${id} is no longer a draft`);
+      return mapSupabaseRecordToPurchaseOrder(data);
+    },
+    remove: async (id) => {
+      const { data, error } = await client.from('purchase_orders').delete().eq('id', id).eq('status', 'draft').select('id');
+      if (error) throw error;
+      if (!data || data.length === 0) throw new Error(`Purchase order ${id} is no longer a draft`);
+    },
+    receive: async (id, receipts) => {
+      const { data, error } = await client.rpc('receive_purchase_order', {
+        p_order_id: id,
+        p_receipts: receipts.map(r => ({
+          line_id: r.lineId, quantity: r.quantity, unitcost: r.unitCost,
+          lot_number: r.lotNumber?.trim() || null, expires_at: r.expiresAt || null,
+        })),
+      });
+      if (error) throw error;
+      return {
+        order: mapSupabaseRecordToPurchaseOrder(data.order),
+        products: (data.products || []).map(mapSupabaseRecordToProduct),
+        movements: (data.movements || []).map(mapSupabaseRecordToStockMovement),
+      };
+    },
+  },
+  inventoryCounts: {
+    list: async () => {
+      const { data, error } = await client.from('inventory_counts').select(INVENTORY_COUNT_WITH_LINES).order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(mapSupabaseRecordToInventoryCount);
+    },
+    start: async (scope) => {
+      const { data, error } = await client.rpc('start_inventory_count', { p_category: scope.category || null, p_supplier_id: scope.supplierId ?? null });
+      if (error) throw error;
+      return mapSupabaseRecordToInventoryCount(data);
+    },
+    record: async (lineId, counted) => {
+      const { data, error } = await client.rpc('record_inventory_count', { p_line_id: lineId, p_counted: counted });
+      if (error) throw error;
+      return mapSupabaseRecordToInventoryCountLine(data);
+    },
+    post: async (id) => {
+      const { data, error } = await client.rpc('post_inventory_count', { p_count_id: id });
+      if (error) throw error;
+      return {
+        count: mapSupabaseRecordToInventoryCount(data.count),
+        products: (data.products || []).map(mapSupabaseRecordToProduct),
+        movements: (data.movements || []).map(mapSupabaseRecordToStockMovement),
+      };
+    },
+    remove: async (id) => {
+      const { data, error } = await client.from('inventory_counts').delete().eq('id', id).eq('status', 'in_progress').select('id');
+      if (error) throw error;
+      if (!data || data.length === 0) throw new Error(`Inventory count ${id} has already been posted`);
+    },
+  },
+  stockLocations: {
+    list: async () => {
+      const { data, error } = await client.from('stock_locations').select('*').order('name');
+      if (error) throw error;
+      return (data || []).map(mapSupabaseRecordToStockLocation);
+    },
+    create: async (location) => {
+      const { data, error } = await client.from('stock_locations').insert(mapStockLocationToRecord(location)).select().single();
+      if (error) throw error;
+      return mapSupabaseRecordToStockLocation(data);
+    },
+    update: async (id, changes) => {
+      const { data, error } = await client.from('stock_locations').update(mapStockLocationToRecord(changes)).eq('id', id).select().single();
+      if (error) throw error;
+      return mapSupabaseRecordToStockLocation(data);
+    },
+    remove: async (id) => {
+      const { error } = await client.from('stock_locations').delete().eq('id', id);
+      if (error) throw error;
+    },
+  },
+  stockTransfers: {
+    list: async () => {
+      const { data, error } = await client.from('stock_transfers').select('*').order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(mapSupabaseRecordToStockTransfer);
+    },
+    levels: async () => {
+      const { data, error } = await client.from('stock_levels').select('*');
+      if (error) throw error;
+      return (data || []).map(mapSupabaseRecordToStockLevel);
+    },
+    send: async (transfer) => {
+      const { data, error } = await client.rpc('send_stock_transfer', {
+        p_product_id: transfer.productId, p_variant_id: transfer.variantId ?? null, p_quantity: transfer.quantity,
+        p_from_location_id: transfer.fromLocationId ?? null, p_to_location_id: transfer.toLocationId ?? null, p_notes: transfer.notes || null,
+      });
+      if (error) throw error;
+      return { transfer: mapSupabaseRecordToStockTransfer(data.transfer), levels: (data.levels || []).map(mapSupabaseRecordToStockLevel) };
+    },
+    receive: async (id) => {
+      const { data, error } = await client.rpc('receive_stock_transfer', { p_transfer_id: id });
+      if (error) throw error;
+      return { transfer: mapSupabaseRecordToStockTransfer(data.transfer), levels: (data.levels || []).map(mapSupabaseRecordToStockLevel) };
+    },
+    cancel: async (id) => {
+      const { data, error } = await client.rpc('cancel_stock_transfer', { p_transfer_id: id });
+      if (error) throw error;
+      return { levels: (data.levels || []).map(mapSupabaseRecordToStockLevel) };
+    },
+  },
+  deliveries: {
+    list: async () => {
+      const { data, error } = await client.from('deliveries').select('*').order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(mapSupabaseRecordToDelivery);
+    },
+    create: async (delivery) => {
+      const { data, error } = await client.rpc('create_delivery', {
+        p_product_id: delivery.productId, p_variant_id: delivery.variantId ?? null, p_quantity: delivery.quantity,
+        p_location_id: delivery.locationId ?? null, p_customer_id: delivery.customerId ?? null,
+        p_address: delivery.address || null, p_wilaya: delivery.wilaya || null, p_courier: delivery.courier || null,
+        p_tracking_number: delivery.trackingNumber || null, p_cod_amount: delivery.codAmount ?? null, p_notes: delivery.notes || null,
+      });
+      if (error) throw error;
+      return {
+        delivery: mapSupabaseRecordToDelivery(data.delivery),
+        product: mapSupabaseRecordToProduct(data.product),
+        levels: (data.levels || []).map(mapSupabaseRecordToStockLevel),
+        movements: (data.movements || []).map(mapSupabaseRecordToStockMovement),
+      };
+    },
+    // Only open deliveries can be changed
+    update: async (id, changes) => {
+      const { data, error } = await client.from('deliveries').update(mapDeliveryChangesToRecord(changes))
+        .eq('id', id).in('status', ['pending', 'shipped']).select().single();
+      if (error) throw error;
+      return mapSupabaseRecordToDelivery(data);
+    },
+    confirm: async (id, customerId) => {
+      const { data, error } = await client.rpc('confirm_delivery', { p_delivery_id: id, p_customer_id: customerId ?? null });
+      if (error) throw error;
+      return { delivery: mapSupabaseRecordToDelivery(data.delivery), sale: mapSupabaseRecordToSale(data.sale) };
+    },
+    cancel: async (id) => {
+      const { data, error } = await client.rpc('cancel_delivery', { p_delivery_id: id });
+      if (error) throw error;
+      return {
+        delivery: mapSupabaseRecordToDelivery(data.delivery),
+        product: data.product ? mapSupabaseRecordToProduct(data.product) : null,
+        levels: (data.levels || []).map(mapSupabaseRecordToStockLevel),
+        movements: (data.movements || []).map(mapSupabaseRecordToStockMovement),
+      };
+    },
+  },
+  codRemittances: {
+    list: async () => {
+      const { data, error } = await client.from('cod_remittances').select('*').order('paid_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(mapSupabaseRecordToCodRemittance);
+    },
+    record: async (remittance) => {
+      const { data, error } = await client.rpc('record_cod_remittance', {
+        p_courier: remittance.courier, p_reference: remittance.reference || null, p_amount: remittance.amount,
+        p_paid_at: remittance.paidAt, p_notes: remittance.notes || null, p_delivery_ids: remittance.deliveryIds,
+      });
+      if (error) throw error;
+      return { remittance: mapSupabaseRecordToCodRemittance(data.remittance), sales: (data.sales || []).map(mapSupabaseRecordToSale) };
+    },
+    remove: async (id) => {
+      const { data, error } = await client.rpc('delete_cod_remittance', { p_remittance_id: id });
+      if (error) throw error;
+      return { sales: (data.sales || []).map(mapSupabaseRecordToSale) };
+    },
+  },
+  promotions: {
+    list: async () => {
+      const { data, error } = await client.from('promotions').select('*').order('starts_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(mapSupabaseRecordToPromotion);
+    },
+    create: async (promotion) => {
+      const { data, error } = await client.from('promotions').insert(mapPromotionToRecord(promotion)).select().single();
+      if (error) throw error;
+      return mapSupabaseRecordToPromotion(data);
+    },
+    update: async (id, changes) => {
+      const { data, error } = await client.from('promotions').update(mapPromotionToRecord(changes)).eq('id', id).select().single();
+      if (error) throw error;
+      return mapSupabaseRecordToPromotion(data);
+    },
+    remove: async (id) => {
+      const { error } = await client.from('promotions').delete().eq('id', id);
+      if (error) throw error;
+    },
+  },
+  taxRates: {
+    list: async () => {
+      const { data, error } = await client.from('tax_rates').select('*').order('category');
+      if (error) throw error;
+      return (data || []).map(mapSupabaseRecordToTaxRate);
+    },
+    save: async (taxRate: TaxRateInput) => {
+      const { data, error } = await client.from('tax_rates')
+        .upsert({ category: taxRate.category.trim(), rate: taxRate.rate, owner_id: taxRate.ownerId }, { onConflict: 'owner_id,category' })
+        .select().single();
+      if (error) throw error;
+      return mapSupabaseRecordToTaxRate(data);
+    },
+    remove: async (id) => {
+      const { error } = await client.from('tax_rates').delete().eq('id', id);
+      if (error) throw error;
+    },
+  },
+  landedCosts: {
+    list: async () => {
+      const { data, error } = await client.from('landed_costs').select('*').order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(mapSupabaseRecordToLandedCost);
+    },
+    apply: async (landedCost) => {
+      const { data, error } = await client.rpc('apply_landed_cost', {
+        p_purchase_order_id: landedCost.purchaseOrderId ?? null, p_reference: landedCost.reference || null, p_basis: landedCost.basis,
+        p_charges: landedCost.charges.map(c => ({ label: c.label.trim(), amount: c.amount })),
+        p_lines: landedCost.lines.map(l => ({ product_id: l.productId, variant_id: l.variantId ?? null, quantity: l.quantity, unit_cost: l.unitCost, weight: l.weight ?? null })),
+      });
+      if (error) throw error;
+      return { landedCost: mapSupabaseRecordToLandedCost(data.landed_cost), products: (data.products || []).map(mapSupabaseRecordToProduct) };
+    },
+  },
+  stockLots: {
+    create: async (lot) => {
+      const { data, error } = await client.rpc('add_stock_lot', {
+        p_product_id: lot.productId, p_variant_id: lot.variantId ?? null,
+        p_lot_number: lot.lotNumber?.trim() || null, p_expires_at: lot.expiresAt || null, p_quantity: lot.quantity,
+      });
+      if (error) throw error;
+      return mapSupabaseRecordToProduct(data);
+    },
+    remove: async (id) => {
+      const { data, error } = await client.rpc('remove_stock_lot', { p_lot_id: id });
+      if (error) throw error;
+      return mapSupabaseRecordToProduct(data);
+    },
+  },
+  // A shop that never changed its settings has no row yet
+  settings: {
+    get: async () => {
+      const { data, error } = await client.from('shop_settings').select('*').maybeSingle();
+      if (error) throw error;
+      return mapSupabaseRecordToShopSettings(data);
+    },
+    save: async (changes) => {
+      const { data, error } = await client.rpc('save_shop_settings', { p_costing_method: changes.costingMethod ?? null });
+      if (error) throw error;
+      return mapSupabaseRecordToShopSettings(data);
+    },
+  },
+  suppliers: {
+    list: async () => {
+      const { data, error } = await client.from('suppliers').select('*').order('name');
+      if (error) throw error;
+      return (data || []).map(mapSupabaseRecordToSupplier);
+    },
+    create: async (supplier) => {
+      const { data, error } = await client.from('suppliers').insert(mapSupplierToRecord(supplier)).select().single();
+      if (error) throw supplierError(error, supplier.name);
+      return mapSupabaseRecordToSupplier(data);
+    },
+    update: async (id, changes) => {
+      const { data, error } = await client.from('suppliers').update(mapSupplierToRecord(changes)).eq('id', id).select().single();
+      if (error) throw supplierError(error, changes.name);
+      return mapSupabaseRecordToSupplier(data);
+    },
+    remove: async (id) => {
+      const { error } = await client.from('suppliers').delete().eq('id', id);
+      if (error) throw error;
+    },
+  },
+  customers: {
+    list: async () => {
+      const { data, error } = await client.from('customers').select('*').order('name');
+      if (error) throw error;
+      return (data || []).map(mapSupabaseRecordToCustomer);
+    },
+    create: async (customer) => {
+      const { data, error } = await client.from('customers').insert(mapCustomerToRecord(customer)).select().single();
+      if (error) throw error;
+      return mapSupabaseRecordToCustomer(data);
+    },
+    update: async (id, changes) => {
+      const { data, error } = await client.from('customers').update(mapCustomerToRecord(changes)).eq('id', id).select().single();
+      if (error) throw error;
+      return mapSupabaseRecordToCustomer(data);
+    },
+    remove: async (id) => {
+      const { error } = await client.from('customers').delete().eq('id', id);
+      if (error) throw error;
+    },
+  },
+  saleReturns: {
+    list: async () => {
+      const { data, error } = await client.from('sale_returns').select('*').order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(mapSupabaseRecordToSaleReturn);
+    },
+    create: async (saleId, saleReturn) => {
+      const { data, error } = await client.rpc('return_sale', {
+        p_sale_id: saleId, p_quantity: saleReturn.quantity, p_reason: saleReturn.reason, p_notes: saleReturn.notes || null,
+        p_restock: saleReturn.restock, p_refund_amount: saleReturn.refundAmount,
+      });
+      if (error) throw error;
+      return {
+        saleReturn: mapSupabaseRecordToSaleReturn(data.sale_return),
+        product: data.product ? mapSupabaseRecordToProduct(data.product) : null,
+        movements: (data.movements || []).map(mapSupabaseRecordToStockMovement),
+      };
+    },
+  },
+  images: {
+    upload: uploadImage,
+    remove: deleteImage,
+  },
+  subscribe: (handlers) => {
+    let hasSubscribed = false;
+    const channel = client.channel('inventory-changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'products' }, payload => handlers.products(toRecordChange(payload, mapSupabaseRecordToProduct)))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'product_variants' }, payload => handlers.productVariants(toRecordChange(payload, mapSupabaseRecordToVariant)))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'cost_layers' }, payload => handlers.costLayers(toRecordChange(payload, mapSupabaseRecordToCostLayer)))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'stock_lots' }, payload => handlers.stockLots(toRecordChange(payload, mapSupabaseRecordToStockLot)))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'sales' }, payload => handlers.sales(toRecordChange(payload, mapSupabaseRecordToSale)))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'activity_log' }, payload => handlers.activityLog(toRecordChange(payload, mapSupabaseRecordToActivityLog)))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'purchase_orders' }, payload => handlers.purchaseOrders(toRecordChange(payload, mapSupabaseRecordToPurchaseOrder)))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'purchase_order_lines' }, payload => handlers.purchaseOrderLines(toRecordChange(payload, mapSupabaseRecordToPurchaseOrderLine)))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'suppliers' }, payload => handlers.suppliers(toRecordChange(payload, mapSupabaseRecordToSupplier)))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'customers' }, payload => handlers.customers(toRecordChange(payload, mapSupabaseRecordToCustomer)))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'sale_returns' }, payload => handlers.saleReturns(toRecordChange(payload, mapSupabaseRecordToSaleReturn)))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'stock_movements' }, payload => handlers.stockMovements(toRecordChange(payload, mapSupabaseRecordToStockMovement)))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'price_changes' }, payload => handlers.priceChanges(toRecordChange(payload, mapSupabaseRecordToPriceChange)))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'inventory_counts' }, payload => handlers.inventoryCounts(toRecordChange(payload, mapSupabaseRecordToInventoryCount)))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'inventory_count_lines' }, payload => handlers.inventoryCountLines(toRecordChange(payload, mapSupabaseRecordToInventoryCountLine)))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'stock_locations' }, payload => handlers.stockLocations(toRecordChange(payload, mapSupabaseRecordToStockLocation)))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'stock_levels' }, payload => handlers.stockLevels(toRecordChange(payload, mapSupabaseRecordToStockLevel)))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'stock_transfers' }, payload => handlers.stockTransfers(toRecordChange(payload, mapSupabaseRecordToStockTransfer)))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'deliveries' }, payload => handlers.deliveries(toRecordChange(payload, mapSupabaseRecordToDelivery)))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'cod_remittances' }, payload => handlers.codRemittances(toRecordChange(payload, mapSupabaseRecordToCodRemittance)))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'promotions' }, payload => handlers.promotions(toRecordChange(payload, mapSupabaseRecordToPromotion)))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'tax_rates' }, payload => handlers.taxRates(toRecordChange(payload, mapSupabaseRecordToTaxRate)))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'landed_costs' }, payload => handlers.landedCosts(toRecordChange(payload, mapSupabaseRecordToLandedCost)))
+      .subscribe(status => {
+        if (status !== 'SUBSCRIBED') return;
+        if (hasSubscribed) handlers.resync();
+        hasSubscribed = true;
+      });
+    return () => { client.removeChannel(channel); };
+  },
+});
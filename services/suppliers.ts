@@ -0,0 +1,34 @@
+import type { Product, Sale, PurchaseOrder } from '../types';
+import { landedCost } from './money';
+import { layersOf, stockCost } from './costLayers';
+
+// "  Sun   Style " and "Sun Style" are the same supplier
+export const normalizeSupplierName = (name: string) => name.trim().replace(/\s+/g, ' ');
+
+export const sameSupplierName = (a: string, b: string) =>
+  normalizeSupplierName(a).toLowerCase() === normalizeSupplierName(b).toLowerCase();
+
+export interface SupplierStats {
+  productCount: number;
+  stockValue: number; // At cost from the cost layers, including units out for delivery
+  spend: number; // Goods received on purchase orders, in the shop's currency
+  revenue: number;
+  margin: number;
+}
+
+export const supplierStats = (supplierId: number, products: Product[], sales: Sale[], purchaseOrders: PurchaseOrder[]): SupplierStats => {
+  const supplied = products.filter(p => p.supplierId === supplierId);
+  const productIds = new Set(supplied.map(p => p.id));
+  const supplierSales = sales.filter(s => productIds.has(s.productId));
+  return {
+    productCount: supplied.length,
+    stockValue: supplied.reduce((sum, p) => sum + (p.variants?.length
+      ? p.variants.reduce((total, v) => total + stockCost(layersOf(p, v.id), v.stock, v.buyPrice), 0)
+      : stockCost(layersOf(p), p.stock, p.buyPrice)), 0),
+    spend: purchaseOrders
+      .filter(o => o.supplierId === supplierId)
+      .reduce((sum, o) => sum + o.lines.reduce((total, l) => total + l.receivedQuantity * landedCost(l.unitCost, o.exchangeRate), 0), 0),
+    revenue: supplierSales.reduce((sum, s) => sum + s.totalPrice, 0),
+    margin: supplierSales.reduce((sum, s) => sum + (s.totalMargin ?? 0), 0),
+  };
+};
@@ -0,0 +1,68 @@
+import type { Product, Sale, SaleReturn, TaxRate } from '../types';
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// The product's own rate, else that of its category, else none
+export const taxRateOf = (product: Pick<Product, 'category' | 'taxRate'>, taxRates: TaxRate[]) =>
+  product.taxRate ?? taxRates.find(r => r.category === product.category)?.rate ?? 0;
+
+export const netOfTax = (gross: number, rate: number) => toCents(gross * 100 / (100 + rate)) / 100;
+
+export interface TaxSplit {
+  taxRate: number;
+  net: number;
+  tax: number;
+  gross: number;
+}
+
+// Splits an amount at the product's prices into what the customer pays and the TVA in it.
+// The net is always taken back from the gross, so both kinds of prices round the same way.
+// Mirrors the tax part of record_sale in the SQL script.
+export const splitTax = (amount: number, taxRate: number, priceIncludesTax = false): TaxSplit => {
+  const gross = priceIncludesTax ? toCents(amount) / 100 : toCents(amount * (100 + taxRate) / 100) / 100;
+  const net = netOfTax(gross, taxRate);
+  return { taxRate, net, tax: (toCents(gross) - toCents(net)) / 100, gross };
+};
+
+export const productTax = (product: Product, taxRates: TaxRate[], amount: number) =>
+  splitTax(amount, taxRateOf(product, taxRates), product.priceIncludesTax);
+
+// The TVA given back with a refund, in proportion to that of the sale
+export const refundTax = (sale: Pick<Sale, 'totalPrice' | 'taxAmount'>, refundAmount: number) =>
+  sale.totalPrice > 0 ? toCents(refundAmount * sale.taxAmount / sale.totalPrice) / 100 : 0;
+
+export const taxRateError = (rate: number): 'invalid_rate' | null =>
+  isNaN(rate) || rate < 0 || rate > 100 ? 'invalid_rate' : null;
+
+export const assertTaxRate = (rate: number) => {
+  if (taxRateError(rate)) throw new Error('A TVA rate is a percentage between 0 and 100');
+};
+
+export interface TaxSummaryRow extends TaxSplit {
+  sales: number;
+}
+
+// What was collected at each rate between two dates: the sales made, less the refunds given
+export const taxSummary = (sales: Sale[], returns: SaleReturn[], from: Date | null, to = new Date()): TaxSummaryRow[] => {
+  const inPeriod = (createdAt: string) => {
+    const date = new Date(createdAt);
+    return (!from || date >= from) && date <= to;
+  };
+  const rows = new Map<number, TaxSummaryRow>();
+  const add = (taxRate: number, net: number, tax: number, sold: number) => {
+    const row = rows.get(taxRate) || { taxRate, net: 0, tax: 0, gross: 0, sales: 0 };
+    row.net = (toCents(row.net) + toCents(net)) / 100;
+    row.tax = (toCents(row.tax) + toCents(tax)) / 100;
+    row.gross = (toCents(row.net) + toCents(row.tax)) / 100;
+    row.sales += sold;
+    rows.set(taxRate, row);
+  };
+  for (const sale of sales) {
+    if (inPeriod(sale.createdAt)) add(sale.taxRate, sale.netAmount, sale.taxAmount, 1);
+  }
+  for (const saleReturn of returns) {
+    const sale = sales.find(s => s.id === saleReturn.saleId);
+    if (inPeriod(saleReturn.createdAt)) add(sale?.taxRate ?? 0, -(saleReturn.refundAmount - saleReturn.taxAmount), -saleReturn.taxAmount, 0);
+  }
+  return [...rows.values()].sort((a, b) => a.taxRate - b.taxRate);
+};
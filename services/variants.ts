@@ -0,0 +1,37 @@
+import type { Product, ProductVariant } from '../types';
+import type { RecordChange } from './repository';
+
+// e.g. "M / Noir"
+export const variantLabel = (variant: Pick<ProductVariant, 'options'>): string =>
+  variant.options.map(o => o.value).join(' / ');
+
+export const findVariant = (products: Product[], variantId: number): { product: Product; variant: ProductVariant } | null => {
+  for (const product of products) {
+    const variant = product.variants?.find(v => v.id === variantId);
+    if (variant) return { product, variant };
+  }
+  return null;
+};
+
+// Product rows streamed by realtime come without their variants, so the ones already known are kept.
+export const keepVariants = (products: Product[], change: RecordChange<Product>): RecordChange<Product> => {
+  if (change.type === 'delete' || change.record.variants) return change;
+  const variants = products.find(p => p.id === change.record.id)?.variants;
+  return variants ? { ...change, record: { ...change.record, variants } } : change;
+};
+
+// Variants stream in separately from their products, so they are merged into the product that owns them.
+export const applyVariantChange = (products: Product[], change: RecordChange<ProductVariant>): Product[] => {
+  if (change.type === 'delete') {
+    return products.map(p => p.variants?.some(v => v.id === change.id) ? { ...p, variants: p.variants.filter(v => v.id !== change.id) } : p);
+  }
+  const { record } = change;
+  return products.map(p => {
+    if (p.id !== record.productId) return p;
+    const variants = p.variants || [];
+    return {
+      ...p,
+      variants: variants.some(v => v.id === record.id) ? variants.map(v => v.id === record.id ? record : v) : [...variants, record],
+    };
+  });
+};
@@ -18,6 +18,14 @@ export const translations: Record<Language, Record<string, string>> = {
     'sidebar.products': 'Produits',
     'sidebar.delivery': 'Livraison',
     'sidebar.sales': 'Ventes',
+    'sidebar.customers': 'Clients',
+    'sidebar.purchases': 'Achats',
+    'sidebar.suppliers': 'Fournisseurs',
+    'sidebar.inventory_counts': 'Inventaires',
+    'sidebar.locations': 'Emplacements',
+    'sidebar.promotions': 'Promotions',
+    'sidebar.landed_costs': "Frais d'approche",
+    'sidebar.expiry': 'Péremption',
     'sidebar.settings': 'Paramètres',
 
     // Header
@@ -25,6 +33,11 @@ export const translations: Record<Language, Record<string, string>> = {
     'header.products': 'Gestion des Produits',
     'header.delivery': 'Suivi des Livraisons',
     'header.sales': 'Historique des Ventes',
+    'header.checkout': 'Nouvelle vente',
+    'header.customers': 'Clients',
+    'header.purchases': 'Bons de commande',
+    'header.suppliers': 'Fournisseurs',
+    'header.locations': 'Emplacements et transferts',
     'header.settings': 'Paramètres',
     'header.default': 'Manager',
     'header.refresh_data': 'Rafraîchir les données',
@@ -44,6 +57,8 @@ export const translations: Record<Language, Record<string, string>> = {
     'mobile_hub.manage_products_desc': 'Voir, ajouter ou modifier votre inventaire.',
     'mobile_hub.sell_deliver_title': 'Vendre ou Livrer',
     'mobile_hub.sell_deliver_desc': 'Scannez un produit pour le vendre ou le mettre en livraison.',
+    'mobile_hub.count_stock_title': "Faire l'inventaire",
+    'mobile_hub.count_stock_desc': 'Scannez les articles en rayon pour compter le stock.',
     'mobile_hub.enter_platform_title': 'Accès Complet',
     'mobile_hub.enter_platform_desc': 'Accéder à toutes les fonctionnalités du dashboard.',
 
@@ -52,15 +67,21 @@ export const translations: Record<Language, Record<string, string>> = {
     'dashboard.sales_profit': 'Bénéfice des Ventes',
     'dashboard.units_sold': 'Unités Vendues',
     'dashboard.stock_value': 'Valeur du Stock (Investissement)',
+    'dashboard.stock_by_location_title': 'Stock par emplacement',
+    'dashboard.stock_by_location.location': 'Emplacement',
+    'dashboard.stock_by_location.units': 'Unités',
+    'dashboard.stock_by_location.retail_value': 'Valeur de vente',
     'dashboard.potential_stock_profit': 'Bénéfice Potentiel du Stock',
     'dashboard.total_products': 'Total produits',
     'dashboard.out_of_stock': 'Produits en rupture',
-    'dashboard.weekly_profit_chart_title': 'Profit par Période (DA)',
+    'dashboard.weekly_profit_chart_title': 'Profit par Période ({currency})',
     'dashboard.stock_by_category_chart_title': 'Stock par catégorie',
     'dashboard.chart.profit': 'Profit',
     'dashboard.chart.units': 'unités',
     'dashboard.notifications.low_stock': '{productName} est en stock faible ({count} articles restants).',
     'dashboard.notifications.out_of_stock': '{productName} est en rupture de stock.',
+    'dashboard.notifications.lot_expired': 'Le lot {lot} de {productName} ({count} unité(s)) est périmé depuis le {date}.',
+    'dashboard.notifications.lot_expiring': 'Le lot {lot} de {productName} ({count} unité(s)) expire le {date}, dans {days} jour(s).',
     'dashboard.units_in_delivery': 'Unités en livraison',
     'dashboard.this_week': 'cette semaine',
     'dashboard.ai_insights.title': "Synthèse par l'IA",
@@ -115,9 +136,6 @@ export const translations: Record<Language, Record<string, string>> = {
     'products.status.out_of_stock': 'rupture',
     'products.status.delivery': 'en livraison',
     'products.actions.set_delivery': 'Mettre en livraison',
-    'products.actions.set_delivery_confirm_title': 'Confirmer la mise en livraison',
-    'products.actions.set_delivery_confirm_message': 'Êtes-vous sûr de vouloir marquer ce produit comme "en livraison" ? Il ne sera plus disponible à la vente directe.',
-    'products.actions.set_delivery_confirm_message_with_quantity': 'Mettre en livraison {quantity} unité(s) du produit "{productName}" ?',
     'products.pagination': 'Page {currentPage} sur {totalPages}',
     'products.time_ago.now': "à l'instant",
     'products.time_ago.minutes': 'Il y a {count} min',
@@ -152,6 +170,15 @@ export const translations: Record<Language, Record<string, string>> = {
     'product_form.stock_label': 'Stock',
     'product_form.buy_price_label': "Prix d'achat",
     'product_form.sell_price_label': 'Prix de vente',
+    'product_form.variants.option_names_label': 'Options des variantes',
+    'product_form.variants.option_names_placeholder': 'Ex : Taille, Couleur',
+    'product_form.variants.add': 'Ajouter une variante',
+    'product_form.variants.remove': 'Supprimer la variante',
+    'product_form.sku_label': 'SKU',
+    'product_form.barcode_label': 'Code-barres',
+    'product_form.tax_rate_label': 'Taux de TVA (%)',
+    'product_form.tax_rate_placeholder': '{rate} % (celui de la catégorie)',
+    'product_form.price_includes_tax_label': 'Les prix de vente sont TTC (TVA incluse)',
     'product_form.error_add': "Erreur lors de l'ajout du produit : {error}",
     'product_form.error_update': 'Erreur lors de la mise à jour du produit : {error}',
     
@@ -192,6 +219,17 @@ export const translations: Record<Language, Record<string, string>> = {
     'sales.empty.subtitle': 'Lorsqu\'une vente est effectuée, elle apparaîtra ici.',
     'sales.no_results_for_period.title': 'Aucune vente pour cette période',
     'sales.no_results_for_period.subtitle': 'Essayez de sélectionner une autre plage de dates.',
+    'sales.new_order_button': 'Nouvelle vente',
+    'sales.order.chip': 'Commande #{id}',
+    'sales.order.view': 'Voir la commande',
+    'sales.awaiting_cod': 'Versement attendu',
+    'sales.order.title': 'Commande #{id}',
+    'sales.order.discount_share': 'Remise',
+    'sales.order.cancel_line': 'Annuler cette ligne',
+    'sales.order.cancel_order': 'Annuler la commande',
+    'sales.order.has_returns': 'Des articles de cette commande ont été retournés : elle ne peut plus être annulée, seulement retournée.',
+    'sales.order.confirm_cancel_line': 'Annuler cette ligne ? Son stock sera restauré et sa part de la remise retirée de la commande.',
+    'sales.order.confirm_cancel_order': 'Annuler les {count} lignes de cette commande ? Tout le stock sera restauré.',
 
     // History Page
     'history.title': "Journal d'activité",
@@ -204,6 +242,10 @@ export const translations: Record<Language, Record<string, string>> = {
     'history.action.sale_cancelled': 'Vente de {productName} annulée.',
     'history.action.delivery_set': '{productName} a été mis en livraison.',
     'history.action.delivery_cancelled': 'Livraison de {productName} annulée.',
+    'history.action.received': 'Réception de {productName}.',
+    'history.action.returned': 'Retour de {productName}.',
+    'history.action.counted': 'Inventaire de {productName}.',
+    'history.action.costed': 'Coût de revient de {productName} recalculé.',
     'history.action.unknown': 'Action inconnue sur {productName}.',
     'history.empty.title': "Aucune activité récente",
     'history.empty.subtitle': "Les actions sur les produits apparaîtront ici.",
@@ -211,35 +253,112 @@ export const translations: Record<Language, Record<string, string>> = {
     'history.log.units_sold_from_delivery': '{quantity} unité(s) vendue(s) depuis une livraison.',
     'history.log.sale_cancelled': 'Stock restauré (+{quantity}).',
     'history.log.sale_cancelled_deleted_product': "Le produit associé n'existe plus.",
+    'history.log.returned_restocked': '{quantity} unité(s) retournée(s) et remise(s) en stock ({reason}).',
+    'history.log.returned_written_off': '{quantity} unité(s) retournée(s) et sortie(s) du stock ({reason}).',
+    'history.log.counted': 'Compté : {counted} (attendu {expected})',
+    'history.log.costed': "Prix d'achat : {from} → {to} ({amount} de frais sur {quantity} unité(s))",
     'history.log.duplicated': 'Dupliqué depuis "{productName}".',
     'history.log.imported_from_shopify': 'Importé depuis un fichier Shopify.',
     'history.log.image_updated': 'Image mise à jour',
+    'history.log.variants_updated': 'Variantes mises à jour',
     'history.log.bulk_update': 'Modification groupée',
+    'history.log.bulk_price_revert': "Annulation d'une modification groupée des prix",
     'history.log.bulk_delete': 'Suppression groupée.',
-    'history.log.delivery_split': 'Article séparé du stock principal pour la livraison.',
-    'history.log.delivery_merge': 'Article réintégré au stock principal.',
+    'history.log.delivery_created': '{quantity} unité(s) envoyée(s) en livraison.',
+    'history.log.delivery_restocked': '{quantity} unité(s) réintégrée(s) au stock.',
+    'history.log.received': '{quantity} unité(s) reçue(s) de {supplier} à {cost}.',
+    'history.log.customer': 'Client : {name}.',
     
     // Delivery Page
-    'delivery.title': 'Produits en livraison',
+    'delivery.title': 'Livraisons en cours',
     'delivery.confirm_sale': 'Vendu',
     'delivery.cancel_delivery': 'Annuler livraison',
     'delivery.total_items': 'Articles en livraison',
-    'delivery.total_value': 'Valeur en livraison',
-    'delivery.table.delivered_at': 'Mis en livraison le',
+    'delivery.total_cod': 'Montant à encaisser',
+    'delivery.table.delivered_at': 'Envoyé le',
+    'delivery.for_customer': 'Pour {name}',
     'delivery.confirm_sale_title': 'Confirmer la vente',
     'delivery.confirm_sale_message': 'Confirmer la vente de "{productName}" ? Cette action est irréversible.',
     'delivery.confirm_cancel_title': "Annuler la livraison",
-    'delivery.confirm_cancel': 'Voulez-vous annuler cette livraison et réintégrer le produit au stock principal ?',
-    'delivery.empty.title': 'Aucun produit en livraison',
-    'delivery.empty.subtitle': "Utilisez l'option 'Mettre en livraison' sur un produit pour le voir ici.",
+    'delivery.confirm_cancel': 'Voulez-vous annuler cette livraison et remettre ses unités en stock ?',
+    'delivery.empty.title': 'Aucune livraison en cours',
+    'delivery.empty.subtitle': "Utilisez l'option 'Mettre en livraison' sur un produit pour l'envoyer à un client.",
     'delivery.no_results_for_period.title': 'Aucune livraison pour cette période',
     'delivery.no_results_for_period.subtitle': 'Essayez de sélectionner une autre plage de dates.',
+    'deliveries.status.pending': 'En préparation',
+    'deliveries.status.shipped': 'Expédiée',
+    'deliveries.status.delivered': 'Livrée',
+    'deliveries.status.cancelled': 'Annulée',
+    'deliveries.mark_shipped': 'Marquer expédiée',
+    'deliveries.book_with': 'Réserver chez {courier}',
+    'deliveries.refresh_statuses': 'Actualiser les suivis',
+    'deliveries.last_refreshed': 'Dernière actualisation à {time}',
+    'deliveries.sync_error': 'Mise à jour automatique impossible : {message}',
+    'deliveries.error.shipment_failed': 'Impossible de réserver chez {courier} : {message}',
+    'couriers.status.pending': "En attente d'enlèvement",
+    'couriers.status.in_transit': 'En transit',
+    'couriers.status.delivered': 'Livré',
+    'couriers.status.returned': 'Retourné',
+    'deliveries.edit': 'Modifier',
+    'deliveries.from_location': 'Depuis {name}',
+    'deliveries.table.courier': 'Transporteur',
+    'deliveries.table.quantity': 'Qté',
+    'deliveries.table.cod': 'À encaisser',
+    'deliveries.table.status': 'Statut',
+    'deliveries.form.title_new': 'Mettre en livraison',
+    'deliveries.form.title_edit': 'Modifier la livraison',
+    'deliveries.form.from_label': 'Prendre depuis',
+    'deliveries.form.quantity_label': 'Quantité',
+    'deliveries.form.address_label': 'Adresse de livraison',
+    'deliveries.form.courier_label': 'Transporteur',
+    'deliveries.form.tracking_label': 'N° de suivi',
+    'deliveries.form.cod_label': 'Montant à encaisser (contre-remboursement)',
+    'deliveries.form.notes_label': 'Notes',
+    'deliveries.form.send_button': 'Envoyer',
+    'deliveries.form.error.variant_required': 'Choisissez une variante.',
+    'deliveries.form.error.invalid_quantity': 'La quantité doit être au moins 1.',
+    'deliveries.form.error.not_enough': 'Seulement {count} unité(s) disponible(s) ici.',
+    'deliveries.form.error.invalid_cod': 'Le montant à encaisser doit être un nombre positif.',
+    'deliveries.remittance.owed_to_us': 'Dû par les transporteurs',
+    'deliveries.remittance.owed_description': '{count} commande(s) livrée(s) en attente de versement',
+    'deliveries.remittance.record_button': 'Enregistrer un versement',
+    'deliveries.remittance.title': 'Versement du transporteur',
+    'deliveries.remittance.reference_label': 'Référence du versement',
+    'deliveries.remittance.paid_at_label': 'Date du versement',
+    'deliveries.remittance.amount_label': 'Montant reçu',
+    'deliveries.remittance.orders_label': 'Commandes livrées réglées par ce versement',
+    'deliveries.remittance.orders': 'Commandes',
+    'deliveries.remittance.select_all': 'Tout sélectionner',
+    'deliveries.remittance.select_none': 'Tout désélectionner',
+    'deliveries.remittance.no_orders': "Aucune commande livrée par ce transporteur n'attend de versement.",
+    'deliveries.remittance.collected': 'Encaissé sur {count} commande(s)',
+    'deliveries.remittance.fees': 'Frais du transporteur',
+    'deliveries.remittance.fetch_button': 'Importer depuis {courier}',
+    'deliveries.remittance.fetch_none': "{courier} n'a aucun nouveau versement.",
+    'deliveries.remittance.carrier_payout': '{reference} · {date} · {count} colis · {amount}',
+    'deliveries.remittance.unmatched': "{count} colis de ce versement n'attendent pas de paiement ici.",
+    'deliveries.remittance.history_title': 'Versements des transporteurs',
+    'deliveries.remittance.delete': 'Supprimer le versement',
+    'deliveries.remittance.delete_confirm': 'Supprimer ce versement ? Ses commandes seront de nouveau en attente de paiement.',
+    'deliveries.remittance.error.no_courier': 'Choisissez le transporteur.',
+    'deliveries.remittance.error.no_orders': 'Sélectionnez au moins une commande.',
+    'deliveries.remittance.error.invalid_amount': 'Le montant reçu doit être un nombre positif.',
+    'deliveries.remittance.error.amount_too_high': 'Le montant reçu dépasse ce que ces commandes ont encaissé ({amount}).',
+    'deliveries.remittance.error.fetch_failed': 'Impossible de récupérer les versements de {courier} : {message}',
 
     // Settings Page
     'settings.theme_title': 'Thème',
     'settings.theme_select': 'Choisir un thème',
     'settings.language_title': 'Langue',
     'settings.language_select': 'Choisir une langue',
+    'settings.currency_title': 'Devise',
+    'settings.currency_select': 'Devise de la boutique',
+    'settings.currency_hint': 'Tous les montants sont affichés dans cette devise. Ceux déjà enregistrés ne sont pas convertis.',
+    'settings.costing_title': 'Méthode de coût',
+    'settings.costing_select': 'Coût des unités vendues',
+    'settings.costing.fifo': 'Premier entré, premier sorti (FIFO)',
+    'settings.costing.average': 'Coût moyen pondéré',
+    'settings.costing_hint': 'Chaque réception entre en stock comme un lot à son coût. Les marges des ventes et la valeur du stock sont calculées à partir de ces lots. Les ventes déjà enregistrées gardent leur marge.',
     'settings.session_title': 'Session',
     'settings.logout_button': 'Déconnexion',
     'settings.tabs.general': 'Général',
@@ -262,6 +381,14 @@ export const translations: Record<Language, Record<string, string>> = {
     'settings.gemini.description': "Ajoutez votre clé API Google Gemini pour activer les fonctionnalités d'IA (génération de description, analyse, etc.).",
     'settings.gemini.key_label': 'Clé API Gemini',
     'settings.gemini.save_button': 'Sauvegarder la Clé API',
+    'settings.mock_courier.title': 'Transporteur de test',
+    'settings.mock_courier.description': "Les colis réservés chez « {courier} » restent dans ce navigateur. Faites-les avancer ici pour essayer le suivi et l'encaissement sans compte chez un vrai transporteur.",
+    'settings.mock_courier.empty': 'Aucun colis réservé pour le moment.',
+    'settings.mock_courier.paid_over': 'Reversé',
+    'settings.mock_courier.remit_button': 'Reverser les encaissements',
+    'settings.mock_courier.remitted': '{count} colis reversé(s), {amount} après frais.',
+    'settings.mock_courier.nothing_to_remit': 'Aucun colis livré à reverser.',
+    'settings.mock_courier.clear_button': 'Tout effacer',
     'settings.gemini.saved_message': 'Clé API Gemini enregistrée. L\'application va se recharger.',
     'settings.setup.title': 'Assistant de configuration Supabase',
     'settings.setup.description': "Suivez ces étapes pour que votre base de données soit prête pour l'application.",
@@ -295,7 +422,7 @@ export const translations: Record<Language, Record<string, string>> = {
     'search.products': 'Produits',
     'search.sales': 'Ventes',
     'search.history': 'Historique',
-    'search.sale_details': 'Qté: {quantity}, Total: {price} DA',
+    'search.sale_details': 'Qté: {quantity}, Total: {price}',
     
     // Visual Search
     'visual_search.title': 'Recherche par image',
@@ -317,6 +444,14 @@ export const translations: Record<Language, Record<string, string>> = {
     'visual_search.attributes': "Attributs Identifiés",
     'visual_search.matching_products': "Produits Correspondants dans votre Inventaire",
     'visual_search.add_as_new': "Ajouter comme nouveau produit",
+    'visual_search.scan_code_button': 'Code-barres',
+    'visual_search.reading_code': 'Placez le code-barres dans le cadre',
+    'visual_search.code_found': 'Code {code}',
+    'visual_search.code_unknown': 'Aucun produit ne correspond au code {code}.',
+    'visual_search.add_with_code': 'Créer avec ce code',
+    'visual_search.count_one': 'Compter +1',
+    'visual_search.counted_so_far': "Compté dans l'inventaire : {count}",
+    'visual_search.error.barcode_failed': 'Impossible de lire les codes-barres. Vérifiez votre connexion et réessayez.',
     
     // AI Assistant
     'ai_assistant.title': 'Assistant IA',
@@ -340,6 +475,8 @@ export const translations: Record<Language, Record<string, string>> = {
     'error.fetch_data': 'Erreur lors de la récupération des données : {error}',
     'error.bucket_not_found': "Le 'bucket' de stockage 'product-images' est introuvable. Veuillez exécuter le script SQL fourni dans les paramètres pour le créer.",
     'error.schema_mismatch': "Les tables de votre base de données ('products', 'sales', 'activity_log') semblent manquantes ou mal configurées. Veuillez exécuter le script SQL des paramètres pour les créer/mettre à jour.",
+    'error.stale_product': "« {productName} » a été modifié sur un autre appareil. Vos changements n'ont pas été enregistrés : la version la plus récente a été chargée, veuillez réessayer.",
+    'error.product_deleted_elsewhere': '« {productName} » a été supprimé sur un autre appareil.',
     
     // Log details
     'log.name': 'Nom',
@@ -349,6 +486,486 @@ export const translations: Record<Language, Record<string, string>> = {
     'log.buyPrice': "Prix d'achat",
     'log.sellPrice': 'Prix de vente',
     'log.stock': 'Stock',
+    'log.sku': 'SKU',
+    'log.barcode': 'Code-barres',
+    'log.taxRate': 'Taux de TVA',
+
+    // Offline Sync
+    'offline.pending_sync': 'En attente de synchronisation',
+    'offline.sync_conflicts': "Certaines modifications faites hors ligne ont été refusées par le serveur et n'ont pas été appliquées :\n{details}",
+    'offline.operation.products.create': 'Création de produit',
+    'offline.operation.products.update': 'Modification de produit',
+    'offline.operation.products.remove': 'Suppression de produit',
+    'offline.operation.products.removeMany': 'Suppression groupée',
+    'offline.operation.products.saveVariants': 'Modification des variantes',
+    'offline.operation.sales.record': 'Vente',
+    'offline.operation.sales.cancel': 'Annulation de vente',
+    'offline.operation.sales.checkout': 'Commande',
+    'offline.operation.sales.cancelOrder': 'Annulation de commande',
+    'offline.operation.activityLog.create': "Journal d'activité",
+    'offline.operation.customers.create': 'Création de client',
+    'offline.operation.customers.update': 'Modification de client',
+    'offline.operation.customers.remove': 'Suppression de client',
+    'offline.operation.saleReturns.create': 'Retour',
+    'offline.operation.stockMovements.create': 'Mouvement de stock',
+    'offline.operation.priceChanges.create': 'Changement de prix',
+    'offline.operation.deliveries.create': 'Mise en livraison',
+    'offline.operation.deliveries.update': 'Modification de livraison',
+    'offline.operation.deliveries.confirm': 'Livraison vendue',
+    'offline.operation.deliveries.cancel': 'Annulation de livraison',
+
+    // Variants
+    'sale_modal.variant_label': 'Variante',
+    'sale_modal.unit_price_label': 'Prix unitaire',
+    'sale_modal.discount_label': 'Remise',
+    'sale_modal.discount_kind_label': 'Type de remise',
+    'sale_modal.total': 'Total',
+    'sale_modal.error.invalid_price': 'Le prix unitaire ne peut pas être négatif.',
+    'sale_modal.error.invalid_discount': 'La remise ne peut pas être négative ni dépasser le montant.',
+
+    // Purchases
+    'purchases.title': 'Bons de commande',
+    'purchases.new_button': 'Nouvelle commande',
+    'purchases.empty.title': 'Aucune commande fournisseur',
+    'purchases.empty.subtitle': 'Créez un bon de commande pour suivre ce que vous attendez de vos fournisseurs.',
+    'purchases.status.draft': 'Brouillon',
+    'purchases.status.ordered': 'Commandée',
+    'purchases.status.partially_received': 'Reçue en partie',
+    'purchases.status.received': 'Reçue',
+    'purchases.created_on': 'Créée le {date}',
+    'purchases.ordered_on': 'Commandée le {date}',
+    'purchases.total': 'Total',
+    'purchases.landed_total': 'Soit {amount} au taux de 1 {currency} = {rate} {shopCurrency}',
+    'purchases.edit': 'Modifier',
+    'purchases.mark_ordered': 'Marquer comme commandée',
+    'purchases.receive': 'Réceptionner',
+    'purchases.add_landed_cost': "Répartir des frais d'approche",
+    'purchases.table.product': 'Produit',
+    'purchases.table.quantity': 'Commandé',
+    'purchases.table.received': 'Reçu',
+    'purchases.table.unit_cost': 'Coût unitaire',
+    'purchases.table.total': 'Total',
+    'purchases.confirm_order_title': 'Envoyer la commande ?',
+    'purchases.confirm_order': 'Une commande envoyée ne peut plus être modifiée. Vous pourrez ensuite réceptionner la marchandise.',
+    'purchases.confirm_delete_title': 'Supprimer le brouillon ?',
+    'purchases.confirm_delete': 'Ce bon de commande sera définitivement supprimé.',
+    'purchases.form.title_new': 'Nouveau bon de commande',
+    'purchases.form.title_edit': 'Modifier le bon de commande',
+    'purchases.form.supplier_label': 'Fournisseur',
+    'purchases.form.reference_label': 'Référence',
+    'purchases.form.notes_label': 'Notes',
+    'purchases.form.currency_label': 'Devise de la commande',
+    'purchases.form.exchange_rate_label': 'Taux de change ({shopCurrency} pour 1 {currency})',
+    'purchases.form.currency_hint': "Les coûts sont saisis dans la devise du fournisseur et convertis en prix d'achat à la réception.",
+    'purchases.form.lines_label': 'Articles',
+    'purchases.form.add_line': 'Ajouter un article',
+    'purchases.form.product_placeholder': 'Choisir un produit',
+    'purchases.form.error.supplier_required': 'Le fournisseur est obligatoire.',
+    'purchases.form.error.no_lines': 'Ajoutez au moins un article.',
+    'purchases.form.error.invalid_line': "Chaque article doit avoir un produit, une quantité d'au moins 1 et un coût positif.",
+    'purchases.form.error.invalid_rate': 'Indiquez un taux de change supérieur à 0.',
+    'purchases.receive_modal.title': 'Réceptionner la marchandise',
+    'purchases.receive_modal.buy_price': "Prix d'achat : {amount}",
+    'purchases.receive_modal.remaining': 'Attendu',
+    'purchases.receive_modal.quantity_label': 'Reçu',
+    'purchases.receive_modal.lot': 'Lot',
+    'purchases.receive_modal.lot_number': 'N° de lot',
+    'purchases.receive_modal.expires_at': 'Date de péremption',
+    'purchases.receive_modal.confirm_button': 'Ajouter au stock',
+    'purchases.receive_modal.error.too_many': 'Seulement {remaining} unité(s) de {productName} sont encore attendues.',
+    'purchases.receive_modal.error.nothing': 'Indiquez la quantité reçue pour au moins un article.',
+
+    // Suppliers
+    'suppliers.title': 'Fournisseurs',
+    'suppliers.new_button': 'Nouveau fournisseur',
+    'suppliers.empty.title': 'Aucun fournisseur',
+    'suppliers.empty.subtitle': 'Les fournisseurs saisis sur vos produits apparaissent ici. Vous pouvez aussi en ajouter un.',
+    'suppliers.edit': 'Modifier',
+    'suppliers.lead_time_value': '{days} jour(s)',
+    'suppliers.table.name': 'Fournisseur',
+    'suppliers.table.contact': 'Contact',
+    'suppliers.table.lead_time': 'Délai',
+    'suppliers.table.products': 'Produits',
+    'suppliers.table.stock_value': 'Valeur du stock',
+    'suppliers.table.spend': 'Achats reçus',
+    'suppliers.table.revenue': 'Ventes',
+    'suppliers.table.margin': 'Marge',
+    'suppliers.table.actions': 'Actions',
+    'suppliers.confirm_delete_title': 'Supprimer le fournisseur ?',
+    'suppliers.confirm_delete': '{name} sera supprimé. Ses produits et commandes gardent son nom.',
+    'suppliers.form.title_new': 'Nouveau fournisseur',
+    'suppliers.form.title_edit': 'Modifier le fournisseur',
+    'suppliers.form.name_label': 'Nom',
+    'suppliers.form.contactName_label': 'Personne à contacter',
+    'suppliers.form.phone_label': 'Téléphone',
+    'suppliers.form.email_label': 'Email',
+    'suppliers.form.address_label': 'Adresse',
+    'suppliers.form.leadTimeDays_label': 'Délai de livraison (jours)',
+    'suppliers.form.paymentTerms_label': 'Conditions de paiement',
+    'suppliers.form.notes_label': 'Notes',
+    'suppliers.form.rename_hint': 'Le nouveau nom sera aussi appliqué à ses produits et commandes.',
+    'suppliers.form.error.name_required': 'Le nom est obligatoire.',
+    'suppliers.form.error.invalid_lead_time': 'Le délai doit être un nombre de jours positif.',
+
+    // Customers
+    'customers.title': 'Clients',
+    'customers.new_button': 'Nouveau client',
+    'customers.search_placeholder': 'Nom ou téléphone...',
+    'customers.no_results': 'Aucun client ne correspond à votre recherche.',
+    'customers.view': 'Voir la fiche',
+    'customers.edit': 'Modifier le client',
+    'customers.empty.title': 'Aucun client',
+    'customers.empty.subtitle': 'Enregistrez vos clients pour suivre leurs achats et leurs livraisons.',
+    'customers.table.name': 'Nom',
+    'customers.table.phone': 'Téléphone',
+    'customers.table.wilaya': 'Wilaya',
+    'customers.table.purchases': 'Achats',
+    'customers.table.lifetime_value': 'Total dépensé',
+    'customers.table.last_purchase': 'Dernier achat',
+    'customers.table.outstanding': 'En livraison',
+    'customers.table.actions': 'Actions',
+    'customers.confirm_delete_title': 'Supprimer le client',
+    'customers.confirm_delete': 'Supprimer {name} ? Ses ventes et livraisons sont conservées, sans lien vers le client.',
+    'customers.form.title_new': 'Nouveau client',
+    'customers.form.title_edit': 'Modifier le client',
+    'customers.form.name_label': 'Nom',
+    'customers.form.phone_label': 'Téléphone',
+    'customers.form.wilaya_label': 'Wilaya',
+    'customers.form.address_label': 'Adresse',
+    'customers.form.notes_label': 'Notes',
+    'customers.form.error.name_required': 'Le nom du client est obligatoire.',
+    'customers.picker.label': 'Client (facultatif)',
+    'customers.picker.placeholder': 'Rechercher par nom ou téléphone',
+    'customers.picker.clear': 'Retirer le client',
+    'customers.picker.new': 'Nouveau client « {query} »',
+    'customers.picker.create_button': 'Ajouter',
+    'customers.details.lifetime_value': 'Total dépensé',
+    'customers.details.purchase_count': 'Achats',
+    'customers.details.last_purchase': 'Dernier achat',
+    'customers.details.outstanding_value': 'En cours de livraison',
+    'customers.details.outstanding_deliveries': 'Livraisons en cours',
+    'customers.details.no_outstanding': 'Aucune livraison en cours.',
+    'customers.details.purchase_history': 'Historique des achats',
+    'customers.details.no_purchases': 'Aucun achat enregistré.',
+
+    // Checkout
+    'checkout.title': 'Nouvelle vente',
+    'checkout.search_placeholder': 'Nom du produit, SKU ou code-barres...',
+    'checkout.no_results': 'Aucun produit trouvé',
+    'checkout.in_stock': '{stock} en stock',
+    'checkout.empty_cart': 'Recherchez ou scannez des produits pour les ajouter à la vente.',
+    'checkout.remove_line': 'Retirer',
+    'checkout.discount_label': 'Remise sur la commande ({currency})',
+    'checkout.subtotal': 'Sous-total',
+    'checkout.discount': 'Remise',
+    'checkout.total': 'Total',
+    'checkout.confirm_button': 'Valider la vente',
+    'checkout.error.discount_too_high': 'La remise ne peut pas dépasser le sous-total.',
+
+    // Returns
+    'returns.title': 'Enregistrer un retour',
+    'returns.return_button': 'Retour',
+    'returns.chip': '{quantity} retourné(s)',
+    'returns.returnable': 'Unités retournables',
+    'returns.reason_label': 'Motif',
+    'returns.reason.changed_mind': "Le client a changé d'avis",
+    'returns.reason.defective': 'Défectueux',
+    'returns.reason.damaged': 'Endommagé',
+    'returns.reason.wrong_item': 'Mauvais article',
+    'returns.reason.other': 'Autre',
+    'returns.outcome_label': 'Que faire des unités ?',
+    'returns.restock': 'Remettre en stock',
+    'returns.write_off': 'Sortir du stock',
+    'returns.product_deleted': 'Le produit a été supprimé, les unités ne peuvent pas être remises en stock.',
+    'returns.refund_label': 'Montant remboursé ({currency})',
+    'returns.notes_label': 'Notes (optionnel)',
+    'returns.confirm_button': 'Enregistrer le retour',
+    'returns.error.quantity': 'Entre 1 et {remaining} unité(s) peuvent être retournées.',
+    'returns.error.refund': 'Le remboursement ne peut pas dépasser {amount}.',
+
+    // Stock Movements
+    'stock_movements.title': 'Mouvements de stock',
+    'stock_movements.action': 'Historique du stock',
+    'stock_movements.empty': 'Aucun mouvement de stock pour ce produit.',
+    'stock_movements.unrecorded': "Stock non enregistré (antérieur à l'historique)",
+    'stock_movements.current_stock': 'Stock actuel',
+    'stock_movements.reason_label': 'Motif du changement de stock',
+    'stock_movements.reason.sale': 'Vente',
+    'stock_movements.reason.return': 'Retour',
+    'stock_movements.reason.delivery': 'Livraison',
+    'stock_movements.reason.delivery_split': 'Livraison',
+    'stock_movements.reason.loss': 'Perte',
+    'stock_movements.reason.damage': 'Casse',
+    'stock_movements.reason.count_correction': "Correction d'inventaire",
+    'stock_movements.reason.receipt': 'Réception',
+    'stock_movements.table.date': 'Date',
+    'stock_movements.table.reason': 'Motif',
+    'stock_movements.table.quantity': 'Quantité',
+    'stock_movements.table.balance': 'Solde',
+    'stock_movements.note.initial_stock': 'Stock initial',
+    'stock_movements.note.sale_cancelled': 'Vente annulée',
+    'stock_movements.note.delivery_cancelled': 'Livraison annulée',
+
+    // Inventory Counts
+    'inventory_counts.title': 'Inventaires',
+    'inventory_counts.new_button': 'Nouvel inventaire',
+    'inventory_counts.empty.title': 'Aucun inventaire',
+    'inventory_counts.empty.subtitle': 'Lancez un inventaire pour comparer le stock en rayon au stock enregistré.',
+    'inventory_counts.whole_shop': 'Toute la boutique',
+    'inventory_counts.status.in_progress': 'En cours',
+    'inventory_counts.status.posted': 'Validé',
+    'inventory_counts.started_on': 'Commencé le {date}',
+    'inventory_counts.posted_on': 'Validé le {date}',
+    'inventory_counts.progress': '{counted} / {total} compté(s)',
+    'inventory_counts.mismatched_lines': '{count} écart(s)',
+    'inventory_counts.back': 'Retour aux inventaires',
+    'inventory_counts.scan_button': 'Scanner',
+    'inventory_counts.post_button': 'Valider les écarts',
+    'inventory_counts.summary.counted': 'Lignes comptées',
+    'inventory_counts.summary.mismatched': 'Écarts',
+    'inventory_counts.summary.over_short': 'Unités en plus / en moins',
+    'inventory_counts.summary.value': "Valeur de l'écart (au coût)",
+    'inventory_counts.search_placeholder': 'Rechercher un produit...',
+    'inventory_counts.filter.all': 'Toutes les lignes',
+    'inventory_counts.filter.uncounted': 'Non comptées',
+    'inventory_counts.filter.mismatched': 'Avec écart',
+    'inventory_counts.table.product': 'Produit',
+    'inventory_counts.table.on_record': 'Enregistré',
+    'inventory_counts.table.counted': 'Compté',
+    'inventory_counts.table.variance': 'Écart',
+    'inventory_counts.no_lines': 'Aucune ligne à afficher.',
+    'inventory_counts.confirm_post_title': "Valider l'inventaire",
+    'inventory_counts.confirm_post': '{counted} ligne(s) sur {total} ont été comptées. Le stock sera corrigé sur {mismatched} ligne(s) (+{over} / -{short} unités, {value}). Les lignes non comptées ne seront pas modifiées.',
+    'inventory_counts.confirm_delete_title': "Supprimer l'inventaire",
+    'inventory_counts.confirm_delete': 'Supprimer cet inventaire en cours ? Les quantités déjà comptées seront perdues.',
+    'inventory_counts.form.title': 'Nouvel inventaire',
+    'inventory_counts.form.category_label': 'Catégorie',
+    'inventory_counts.form.all_categories': 'Toutes les catégories',
+    'inventory_counts.form.supplier_label': 'Fournisseur',
+    'inventory_counts.form.all_suppliers': 'Tous les fournisseurs',
+    'inventory_counts.form.nothing_to_count': 'Aucun produit en stock ne correspond à cette sélection.',
+    'inventory_counts.form.line_count': '{count} ligne(s) à compter.',
+    'inventory_counts.form.start_button': 'Commencer',
+
+    // Stock Locations
+    'locations.title': 'Emplacements',
+    'locations.new_button': 'Nouvel emplacement',
+    'locations.edit': "Modifier l'emplacement",
+    'locations.empty.title': 'Un seul emplacement : la boutique',
+    'locations.empty.subtitle': 'Ajoutez un dépôt ou un livreur pour suivre où se trouve votre stock et le transférer entre eux.',
+    'locations.main_shop': 'Boutique principale',
+    'locations.in_transit': 'En transit',
+    'locations.units_here': '{count} ici',
+    'locations.kind.shop': 'Boutique',
+    'locations.kind.warehouse': 'Dépôt',
+    'locations.kind.courier': 'Livreur',
+    'locations.filter.label': 'Emplacement',
+    'locations.filter.all': 'Tous les emplacements',
+    'locations.table.name': 'Nom',
+    'locations.table.kind': 'Type',
+    'locations.table.units': 'Unités',
+    'locations.table.stock_value': 'Valeur (achat)',
+    'locations.table.retail_value': 'Valeur (vente)',
+    'locations.table.actions': 'Actions',
+    'locations.confirm_delete_title': "Supprimer l'emplacement",
+    'locations.confirm_delete': 'Supprimer {name} ? Son historique de transferts sera aussi supprimé.',
+    'locations.error.not_empty': 'Cet emplacement contient encore du stock ou attend un transfert. Transférez ou recevez ces unités avant de le supprimer.',
+    'locations.form.title_new': 'Nouvel emplacement',
+    'locations.form.title_edit': "Modifier l'emplacement",
+    'locations.form.name_label': 'Nom',
+    'locations.form.kind_label': 'Type',
+    'locations.form.notes_label': 'Notes',
+    'locations.form.error.name_required': 'Le nom est obligatoire.',
+    'locations.transfer.action': 'Transférer',
+    'locations.transfer.new_button': 'Nouveau transfert',
+    'locations.transfer.title': 'Transférer du stock',
+    'locations.transfer.product_label': 'Produit',
+    'locations.transfer.select_product': 'Choisir un produit',
+    'locations.transfer.variant_label': 'Variante',
+    'locations.transfer.select_variant': 'Choisir une variante',
+    'locations.transfer.from_label': 'Depuis',
+    'locations.transfer.to_label': 'Vers',
+    'locations.transfer.quantity_label': 'Quantité',
+    'locations.transfer.available': "{count} disponible(s) à l'origine",
+    'locations.transfer.notes_label': 'Notes',
+    'locations.transfer.send_button': 'Envoyer',
+    'locations.transfer.error.product_required': 'Choisissez un produit et, le cas échéant, sa variante.',
+    'locations.transfer.error.same_location': "L'origine et la destination doivent être différentes.",
+    'locations.transfer.error.invalid_quantity': "La quantité doit être d'au moins 1.",
+    'locations.transfer.error.not_enough': "Seulement {count} unité(s) disponible(s) à l'origine.",
+    'locations.transfers.in_transit_title': 'Transferts en cours',
+    'locations.transfers.none_in_transit': 'Aucun transfert en cours.',
+    'locations.transfers.history_title': 'Transferts reçus',
+    'locations.transfers.date': 'Date',
+    'locations.transfers.product': 'Produit',
+    'locations.transfers.route': 'Trajet',
+    'locations.transfers.quantity': 'Quantité',
+    'locations.transfers.receive': 'Réceptionner',
+    'locations.transfers.cancel': 'Annuler le transfert',
+    'locations.transfers.confirm_cancel_title': 'Annuler le transfert',
+    'locations.transfers.confirm_cancel': 'Les {quantity} unité(s) retourneront à {name}.',
+
+    // Payment Methods
+    'payments.label': 'Paiement',
+    'payments.method.cash': 'Espèces',
+    'payments.method.card': 'Carte',
+    'payments.method.transfer': 'CCP/BaridiMob',
+    'payments.method.cod': 'Paiement à la livraison',
+    'payments.method.store_credit': 'Avoir client',
+    'payments.split': 'Répartir entre plusieurs moyens',
+    'payments.add_method': 'Ajouter un moyen',
+    'payments.amount_label': 'Montant',
+    'payments.remove': 'Retirer',
+    'payments.remaining': 'Reste à répartir : {amount}',
+    'payments.error.invalid_amount': 'Chaque paiement doit avoir un montant positif.',
+    'payments.error.mismatch': 'Les paiements doivent correspondre au total.',
+    'payments.error.store_credit_customer': "Choisissez le client dont l'avoir est utilisé.",
+    'payments.filter.label': 'Moyen de paiement',
+    'payments.filter.all': 'Tous les moyens',
+    'statistics.revenue_by_payment_method': "Chiffre d'affaires par moyen de paiement",
+    'statistics.no_payment_methods': 'Aucun paiement enregistré sur cette période.',
+
+    // Promotions
+    'promotions.title': 'Promotions',
+    'promotions.new_button': 'Nouvelle promotion',
+    'promotions.edit': 'Modifier la promotion',
+    'promotions.per_unit': '{amount} par unité',
+    'promotions.empty.title': 'Aucune promotion',
+    'promotions.empty.subtitle': "Programmez une remise sur un produit, une catégorie ou toute la boutique ; elle s'applique d'elle-même aux ventes pendant sa période.",
+    'promotions.table.name': 'Nom',
+    'promotions.table.discount': 'Remise',
+    'promotions.table.applies_to': "S'applique à",
+    'promotions.table.period': 'Période',
+    'promotions.table.sales': 'Ventes',
+    'promotions.table.actions': 'Actions',
+    'promotions.status.scheduled': 'Programmée',
+    'promotions.status.running': 'En cours',
+    'promotions.status.ended': 'Terminée',
+    'promotions.scope.all': 'Tous les produits',
+    'promotions.scope.category': 'Une catégorie',
+    'promotions.scope.product': 'Un produit',
+    'promotions.scope.deleted_product': 'Produit supprimé',
+    'promotions.kind.percent': 'Pourcentage',
+    'promotions.kind.fixed': 'Montant fixe ({currency})',
+    'promotions.form.title_new': 'Nouvelle promotion',
+    'promotions.form.title_edit': 'Modifier la promotion',
+    'promotions.form.name_label': 'Nom',
+    'promotions.form.name_placeholder': "ex : Soldes d'été",
+    'promotions.form.kind_label': 'Type',
+    'promotions.form.value_label': 'Valeur',
+    'promotions.form.scope_label': "S'applique à",
+    'promotions.form.start_label': 'Du',
+    'promotions.form.end_label': 'Au',
+    'promotions.form.error.name_required': 'Donnez un nom à la promotion.',
+    'promotions.form.error.invalid_value': 'La remise doit être supérieure à zéro, et au plus 100 %.',
+    'promotions.form.error.invalid_dates': 'La promotion ne peut pas se terminer avant de commencer.',
+    'promotions.confirm_delete_title': 'Supprimer la promotion',
+    'promotions.confirm_delete': "Supprimer « {name} » ? Les ventes qu'elle a déjà remisées gardent leur prix.",
+
+    // Taxes (TVA)
+    'taxes.included': 'Dont TVA ({rate} %)',
+    'taxes.included_total': 'Dont TVA',
+    'taxes.sale_tax': 'Dont TVA {rate} % : {amount}',
+    'taxes.settings.title': 'TVA par catégorie',
+    'taxes.settings.description': "Le taux appliqué aux produits d'une catégorie qui n'ont pas le leur. Laissez vide pour ne pas appliquer de TVA.",
+    'taxes.settings.no_categories': 'Ajoutez des produits pour définir le taux de leurs catégories.',
+    'taxes.settings.rate_label': 'Taux de TVA de {category}',
+    'taxes.error.invalid_rate': 'Le taux doit être compris entre 0 et 100 %.',
+    'taxes.summary.title': 'Récapitulatif TVA',
+    'taxes.summary.subtitle': 'La TVA collectée sur la période, par taux, remboursements déduits.',
+    'taxes.summary.empty': 'Aucune vente sur la période.',
+    'taxes.summary.rate': 'Taux',
+    'taxes.summary.sales': 'Ventes',
+    'taxes.summary.net': 'Montant HT',
+    'taxes.summary.tax': 'TVA',
+    'taxes.summary.gross': 'Montant TTC',
+    'taxes.summary.total': 'Total',
+
+    // Landed costs
+    'landed_costs.title': "Frais d'approche",
+    'landed_costs.new_button': 'Répartir des frais',
+    'landed_costs.empty.title': "Aucun frais d'approche",
+    'landed_costs.empty.subtitle': "Répartissez le transport, la douane ou le transit d'un arrivage sur ses produits : leur prix d'achat en tient compte, et la marge des prochaines ventes aussi.",
+    'landed_costs.applied_on': 'Appliqué le {date}',
+    'landed_costs.total': 'Frais : {amount}',
+    'landed_costs.basis.value': 'Selon la valeur',
+    'landed_costs.basis.quantity': 'Selon la quantité',
+    'landed_costs.basis.weight': 'Selon le poids',
+    'landed_costs.table.product': 'Produit',
+    'landed_costs.table.quantity': 'Quantité',
+    'landed_costs.table.weight': 'Poids unitaire (kg)',
+    'landed_costs.table.unit_cost': 'Coût unitaire',
+    'landed_costs.table.allocated': 'Frais répartis',
+    'landed_costs.table.landed_unit_cost': "Nouveau prix d'achat",
+    'landed_costs.form.title': "Répartir des frais d'approche",
+    'landed_costs.form.order_label': 'Commande fournisseur',
+    'landed_costs.form.order_none': 'Aucune, choisir les produits',
+    'landed_costs.form.reference_label': 'Référence',
+    'landed_costs.form.reference_placeholder': 'ex : Conteneur de mars',
+    'landed_costs.form.charges_label': 'Frais',
+    'landed_costs.form.charge_placeholder': 'ex : Transport, douane',
+    'landed_costs.form.charge_amount': 'Montant',
+    'landed_costs.form.add_charge': 'Ajouter un frais',
+    'landed_costs.form.basis_label': 'Répartition',
+    'landed_costs.form.lines_label': 'Produits',
+    'landed_costs.form.product_placeholder': 'Choisir un produit',
+    'landed_costs.form.add_line': 'Ajouter un produit',
+    'landed_costs.form.order_hint': 'Les quantités reçues et leur coût sont repris de la commande.',
+    'landed_costs.form.apply_hint': "Le prix d'achat de chaque produit sera remplacé par son nouveau coût de revient.",
+    'landed_costs.form.apply_button': 'Appliquer',
+    'landed_costs.form.error.no_charges': 'Ajoutez au moins un frais à répartir.',
+    'landed_costs.form.error.invalid_charge': 'Chaque frais doit avoir un libellé et un montant supérieur à zéro.',
+    'landed_costs.form.error.no_lines': 'Ajoutez au moins un produit.',
+    'landed_costs.form.error.invalid_line': "Chaque produit doit avoir une quantité d'au moins 1, et un coût et un poids positifs.",
+    'landed_costs.form.error.no_basis': 'Les frais ne peuvent pas être répartis ainsi : renseignez les poids ou les coûts.',
+
+    // Price History
+    'price_history.title': 'Historique des prix',
+    'price_history.empty': 'Aucun changement de prix enregistré pour ce produit.',
+    'price_history.table.date': 'Date',
+    'price_history.table.change': 'Changement',
+    'price_history.source.edit': 'Modification du produit',
+    'price_history.source.bulk_update': 'Modification groupée',
+    'price_history.source.bulk_revert': "Annulation d'une modification groupée",
+    'price_history.batch_size': '{count} produit(s)',
+    'price_history.revert': 'Annuler la modification groupée',
+    'price_history.reverted': 'Modification groupée annulée',
+    'price_history.confirm_revert_title': 'Annuler la modification groupée ?',
+    'price_history.confirm_revert': "Les prix des {count} produit(s) de cette modification groupée reviendront à ce qu'ils étaient avant.",
+    'price_history.revert_repriced': "Impossible d'annuler cette modification groupée : les prix de {products} ont changé depuis.",
+    'price_history.revert_error': "Erreur lors de l'annulation : {error}",
+
+    // Stock lots and expiry
+    'stock_lots.title': 'Lots',
+    'stock_lots.empty': 'Aucun lot pour ce produit.',
+    'stock_lots.untracked': '{count} unité(s) hors lot, sans date de péremption.',
+    'stock_lots.no_expiry': 'Sans date',
+    'stock_lots.remove': 'Retirer le lot',
+    'stock_lots.variant': 'Variante',
+    'stock_lots.lot_number': 'N° de lot',
+    'stock_lots.add': 'Ajouter',
+    'stock_lots.table.lot': 'Lot',
+    'stock_lots.table.expires_at': 'Péremption',
+    'stock_lots.table.quantity': 'Quantité',
+    'expiry.title': 'Péremption des lots',
+    'expiry.empty.title': 'Aucun lot daté',
+    'expiry.empty.subtitle': "Ajoutez une date de péremption à la réception ou depuis la fiche d'un produit.",
+    'expiry.filter.all': 'Tous',
+    'expiry.filter.expired': 'Périmés',
+    'expiry.filter.expiring': 'Bientôt périmés',
+    'expiry.expired_stock': 'Stock périmé',
+    'expiry.expiring_stock': 'Périme sous {days} jours',
+    'expiry.units': '{count} unité(s)',
+    'expiry.days.expired': 'Périmé',
+    'expiry.days.expiring': 'Dans {days} jour(s)',
+    'expiry.days.ok': 'Dans {days} jour(s)',
+    'expiry.table.product': 'Produit',
+    'expiry.table.lot': 'Lot',
+    'expiry.table.expires_at': 'Péremption',
+    'expiry.table.status': 'État',
+    'expiry.table.quantity': 'Quantité',
+    'expiry.table.value': 'Valeur',
+    'expiry.none_matching': 'Aucun lot ne correspond à ce filtre.',
 
   },
   en: {
@@ -368,6 +985,14 @@ export const translations: Record<Language, Record<string, string>> = {
     'sidebar.products': 'Products',
     'sidebar.delivery': 'Delivery',
     'sidebar.sales': 'Sales',
+    'sidebar.customers': 'Customers',
+    'sidebar.purchases': 'Purchases',
+    'sidebar.suppliers': 'Suppliers',
+    'sidebar.inventory_counts': 'Stock Counts',
+    'sidebar.locations': 'Locations',
+    'sidebar.promotions': 'Promotions',
+    'sidebar.landed_costs': 'Landed costs',
+    'sidebar.expiry': 'Expiry',
     'sidebar.settings': 'Settings',
 
     // Header
@@ -375,6 +1000,11 @@ export const translations: Record<Language, Record<string, string>> = {
     'header.products': 'Product Management',
     'header.delivery': 'Delivery Tracking',
     'header.sales': 'Sales History',
+    'header.checkout': 'New Sale',
+    'header.customers': 'Customers',
+    'header.purchases': 'Purchase Orders',
+    'header.suppliers': 'Suppliers',
+    'header.locations': 'Locations & Transfers',
     'header.settings': 'Settings',
     'header.default': 'Manager',
     'header.refresh_data': 'Refresh data',
@@ -394,6 +1024,8 @@ export const translations: Record<Language, Record<string, string>> = {
     'mobile_hub.manage_products_desc': 'View, add, or edit your inventory.',
     'mobile_hub.sell_deliver_title': 'Sell or Deliver',
     'mobile_hub.sell_deliver_desc': 'Scan a product to sell it or set it for delivery.',
+    'mobile_hub.count_stock_title': 'Count Stock',
+    'mobile_hub.count_stock_desc': 'Scan the items on the shelf to count your stock.',
     'mobile_hub.enter_platform_title': 'Full Access',
     'mobile_hub.enter_platform_desc': 'Go to the full dashboard for all features.',
 
@@ -402,15 +1034,21 @@ export const translations: Record<Language, Record<string, string>> = {
     'dashboard.sales_profit': 'Sales Profit',
     'dashboard.units_sold': 'Units Sold',
     'dashboard.stock_value': 'Stock Value (Investment)',
+    'dashboard.stock_by_location_title': 'Stock by location',
+    'dashboard.stock_by_location.location': 'Location',
+    'dashboard.stock_by_location.units': 'Units',
+    'dashboard.stock_by_location.retail_value': 'Retail value',
     'dashboard.potential_stock_profit': 'Potential Stock Profit',
     'dashboard.total_products': 'Total Products',
     'dashboard.out_of_stock': 'Out of Stock',
-    'dashboard.weekly_profit_chart_title': 'Profit Over Period (DZD)',
+    'dashboard.weekly_profit_chart_title': 'Profit Over Period ({currency})',
     'dashboard.stock_by_category_chart_title': 'Stock by Category',
     'dashboard.chart.profit': 'Profit',
     'dashboard.chart.units': 'units',
     'dashboard.notifications.low_stock': '{productName} has low stock ({count} items left).',
     'dashboard.notifications.out_of_stock': '{productName} is out of stock.',
+    'dashboard.notifications.lot_expired': 'Lot {lot} of {productName} ({count} units) expired on {date}.',
+    'dashboard.notifications.lot_expiring': 'Lot {lot} of {productName} ({count} units) expires on {date}, in {days} day(s).',
     'dashboard.units_in_delivery': 'Units in Delivery',
     'dashboard.this_week': 'this week',
     'dashboard.ai_insights.title': "AI Insights",
@@ -464,9 +1102,6 @@ export const translations: Record<Language, Record<string, string>> = {
     'products.status.out_of_stock': 'out of stock',
     'products.status.delivery': 'in delivery',
     'products.actions.set_delivery': 'Set to Delivery',
-    'products.actions.set_delivery_confirm_title': 'Confirm Set to Delivery',
-    'products.actions.set_delivery_confirm_message': 'Are you sure you want to mark this product as "in delivery"? It will no longer be available for direct sale.',
-    'products.actions.set_delivery_confirm_message_with_quantity': 'Set {quantity} unit(s) of "{productName}" to delivery?',
     'products.pagination': 'Page {currentPage} of {totalPages}',
     'products.time_ago.now': 'just now',
     'products.time_ago.minutes': '{count} min ago',
@@ -501,6 +1136,15 @@ export const translations: Record<Language, Record<string, string>> = {
     'product_form.stock_label': 'Stock',
     'product_form.buy_price_label': 'Buy Price',
     'product_form.sell_price_label': 'Sell Price',
+    'product_form.variants.option_names_label': 'Variant options',
+    'product_form.variants.option_names_placeholder': 'E.g. Size, Color',
+    'product_form.variants.add': 'Add variant',
+    'product_form.variants.remove': 'Remove variant',
+    'product_form.sku_label': 'SKU',
+    'product_form.barcode_label': 'Barcode',
+    'product_form.tax_rate_label': 'TVA rate (%)',
+    'product_form.tax_rate_placeholder': "{rate}% (the category's)",
+    'product_form.price_includes_tax_label': 'Sell prices include TVA',
     'product_form.error_add': 'Error adding product: {error}',
     'product_form.error_update': 'Error updating product: {error}',
 
@@ -541,6 +1185,17 @@ export const translations: Record<Language, Record<string, string>> = {
     'sales.empty.subtitle': 'When a sale is made, it will appear here.',
     'sales.no_results_for_period.title': 'No sales for this period',
     'sales.no_results_for_period.subtitle': 'Try selecting another date range.',
+    'sales.new_order_button': 'New sale',
+    'sales.order.chip': 'Order #{id}',
+    'sales.order.view': 'View order',
+    'sales.awaiting_cod': 'Awaiting COD',
+    'sales.order.title': 'Order #{id}',
+    'sales.order.discount_share': 'Discount',
+    'sales.order.cancel_line': 'Cancel this line',
+    'sales.order.cancel_order': 'Cancel order',
+    'sales.order.has_returns': 'Items of this order have been returned: it can no longer be cancelled, only returned.',
+    'sales.order.confirm_cancel_line': 'Cancel this line? Its stock will be restored and its share of the discount removed from the order.',
+    'sales.order.confirm_cancel_order': 'Cancel all {count} lines of this order? All of the stock will be restored.',
     
     // History Page
     'history.title': 'Activity Log',
@@ -553,6 +1208,10 @@ export const translations: Record<Language, Record<string, string>> = {
     'history.action.sale_cancelled': 'Sale of {productName} cancelled.',
     'history.action.delivery_set': '{productName} was set to delivery.',
     'history.action.delivery_cancelled': 'Delivery of {productName} cancelled.',
+    'history.action.received': '{productName} was received.',
+    'history.action.returned': '{productName} was returned.',
+    'history.action.counted': 'Stock count of {productName}.',
+    'history.action.costed': 'Landed cost of {productName} worked out.',
     'history.action.unknown': 'Unknown action on {productName}.',
     'history.empty.title': "No Recent Activity",
     'history.empty.subtitle': "Actions on products will appear here.",
@@ -560,35 +1219,112 @@ export const translations: Record<Language, Record<string, string>> = {
     'history.log.units_sold_from_delivery': '{quantity} unit(s) sold from delivery.',
     'history.log.sale_cancelled': 'Stock restored (+{quantity}).',
     'history.log.sale_cancelled_deleted_product': "The associated product no longer exists.",
+    'history.log.returned_restocked': '{quantity} unit(s) returned and put back in stock ({reason}).',
+    'history.log.returned_written_off': '{quantity} unit(s) returned and written off ({reason}).',
+    'history.log.counted': 'Counted: {counted} (expected {expected})',
+    'history.log.costed': 'Buy price: {from} → {to} ({amount} of extra costs over {quantity} unit(s))',
     'history.log.duplicated': 'Duplicated from "{productName}".',
     'history.log.imported_from_shopify': 'Imported from Shopify file.',
     'history.log.image_updated': 'Image updated',
+    'history.log.variants_updated': 'Variants updated',
     'history.log.bulk_update': 'Bulk modification',
+    'history.log.bulk_price_revert': 'Bulk price edit reverted',
     'history.log.bulk_delete': 'Bulk deletion.',
-    'history.log.delivery_split': 'Item split from main stock for delivery.',
-    'history.log.delivery_merge': 'Item merged back into main stock.',
+    'history.log.delivery_created': '{quantity} unit(s) sent out for delivery.',
+    'history.log.delivery_restocked': '{quantity} unit(s) put back in stock.',
+    'history.log.received': '{quantity} unit(s) received from {supplier} at {cost}.',
+    'history.log.customer': 'Customer: {name}.',
     
     // Delivery Page
-    'delivery.title': 'Products in Delivery',
+    'delivery.title': 'Open Deliveries',
     'delivery.confirm_sale': 'Sold',
     'delivery.cancel_delivery': 'Cancel Delivery',
     'delivery.total_items': 'Items in Delivery',
-    'delivery.total_value': 'Value in Delivery',
-    'delivery.table.delivered_at': 'Set to delivery on',
+    'delivery.total_cod': 'To collect',
+    'delivery.table.delivered_at': 'Sent on',
+    'delivery.for_customer': 'For {name}',
     'delivery.confirm_sale_title': 'Confirm Sale',
     'delivery.confirm_sale_message': 'Confirm sale of "{productName}"? This action is irreversible.',
     'delivery.confirm_cancel_title': "Cancel Delivery",
-    'delivery.confirm_cancel': 'Do you want to cancel this delivery and return the product to the main stock?',
-    'delivery.empty.title': 'No Products in Delivery',
-    'delivery.empty.subtitle': "Use the 'Set to Delivery' option on a product to see it here.",
+    'delivery.confirm_cancel': 'Do you want to cancel this delivery and put its units back in stock?',
+    'delivery.empty.title': 'No Open Deliveries',
+    'delivery.empty.subtitle': "Use the 'Set to Delivery' option on a product to send it to a customer.",
     'delivery.no_results_for_period.title': 'No deliveries for this period',
     'delivery.no_results_for_period.subtitle': 'Try selecting another date range.',
+    'deliveries.status.pending': 'Pending',
+    'deliveries.status.shipped': 'Shipped',
+    'deliveries.status.delivered': 'Delivered',
+    'deliveries.status.cancelled': 'Cancelled',
+    'deliveries.mark_shipped': 'Mark shipped',
+    'deliveries.book_with': 'Book with {courier}',
+    'deliveries.refresh_statuses': 'Refresh tracking',
+    'deliveries.last_refreshed': 'Last refreshed at {time}',
+    'deliveries.sync_error': 'Automatic update failed: {message}',
+    'deliveries.error.shipment_failed': 'Could not book with {courier}: {message}',
+    'couriers.status.pending': 'Awaiting pickup',
+    'couriers.status.in_transit': 'In transit',
+    'couriers.status.delivered': 'Delivered',
+    'couriers.status.returned': 'Returned',
+    'deliveries.edit': 'Edit',
+    'deliveries.from_location': 'From {name}',
+    'deliveries.table.courier': 'Courier',
+    'deliveries.table.quantity': 'Qty',
+    'deliveries.table.cod': 'To collect',
+    'deliveries.table.status': 'Status',
+    'deliveries.form.title_new': 'Set to Delivery',
+    'deliveries.form.title_edit': 'Edit Delivery',
+    'deliveries.form.from_label': 'Take from',
+    'deliveries.form.quantity_label': 'Quantity',
+    'deliveries.form.address_label': 'Delivery address',
+    'deliveries.form.courier_label': 'Courier',
+    'deliveries.form.tracking_label': 'Tracking number',
+    'deliveries.form.cod_label': 'Cash on delivery',
+    'deliveries.form.notes_label': 'Notes',
+    'deliveries.form.send_button': 'Send',
+    'deliveries.form.error.variant_required': 'Choose a variant.',
+    'deliveries.form.error.invalid_quantity': 'The quantity must be at least 1.',
+    'deliveries.form.error.not_enough': 'Only {count} unit(s) available here.',
+    'deliveries.form.error.invalid_cod': 'The amount to collect must be a positive number.',
+    'deliveries.remittance.owed_to_us': 'Owed to us',
+    'deliveries.remittance.owed_description': '{count} delivered order(s) awaiting courier payment',
+    'deliveries.remittance.record_button': 'Record payout',
+    'deliveries.remittance.title': 'Courier payout',
+    'deliveries.remittance.reference_label': 'Payout reference',
+    'deliveries.remittance.paid_at_label': 'Paid on',
+    'deliveries.remittance.amount_label': 'Amount received',
+    'deliveries.remittance.orders_label': 'Delivered orders this payout settles',
+    'deliveries.remittance.orders': 'Orders',
+    'deliveries.remittance.select_all': 'Select all',
+    'deliveries.remittance.select_none': 'Select none',
+    'deliveries.remittance.no_orders': 'No delivered orders from this courier are awaiting payment.',
+    'deliveries.remittance.collected': 'Collected on {count} order(s)',
+    'deliveries.remittance.fees': 'Courier fees',
+    'deliveries.remittance.fetch_button': 'Import from {courier}',
+    'deliveries.remittance.fetch_none': '{courier} has no new payouts.',
+    'deliveries.remittance.carrier_payout': '{reference} · {date} · {count} parcel(s) · {amount}',
+    'deliveries.remittance.unmatched': '{count} parcel(s) in this payout are not awaiting payment here.',
+    'deliveries.remittance.history_title': 'Courier payouts',
+    'deliveries.remittance.delete': 'Delete payout',
+    'deliveries.remittance.delete_confirm': 'Delete this payout? Its orders will be awaiting payment again.',
+    'deliveries.remittance.error.no_courier': 'Choose the courier.',
+    'deliveries.remittance.error.no_orders': 'Select at least one order.',
+    'deliveries.remittance.error.invalid_amount': 'The amount received must be a positive number.',
+    'deliveries.remittance.error.amount_too_high': 'The amount received is more than these orders collected ({amount}).',
+    'deliveries.remittance.error.fetch_failed': 'Could not fetch payouts from {courier}: {message}',
 
     // Settings Page
     'settings.theme_title': 'Theme',
     'settings.theme_select': 'Choose a theme',
     'settings.language_title': 'Language',
     'settings.language_select': 'Choose a language',
+    'settings.currency_title': 'Currency',
+    'settings.currency_select': 'Shop currency',
+    'settings.currency_hint': 'Every amount is shown in this currency. Amounts already recorded are not converted.',
+    'settings.costing_title': 'Costing method',
+    'settings.costing_select': 'Cost of units sold',
+    'settings.costing.fifo': 'First in, first out (FIFO)',
+    'settings.costing.average': 'Weighted average cost',
+    'settings.costing_hint': 'Each receipt comes into stock as a layer at its own cost. Sale margins and stock value are worked out from these layers. Sales already recorded keep their margin.',
     'settings.session_title': 'Session',
     'settings.logout_button': 'Log Out',
     'settings.tabs.general': 'General',
@@ -611,6 +1347,14 @@ export const translations: Record<Language, Record<string, string>> = {
     'settings.gemini.description': "Add your Google Gemini API key to enable AI features (description generation, insights, etc.).",
     'settings.gemini.key_label': 'Gemini API Key',
     'settings.gemini.save_button': 'Save API Key',
+    'settings.mock_courier.title': 'Test courier',
+    'settings.mock_courier.description': 'Parcels booked with "{courier}" stay in this browser. Move them along here to try tracking and cash collection without an account with a real carrier.',
+    'settings.mock_courier.empty': 'No parcels booked yet.',
+    'settings.mock_courier.paid_over': 'Paid over',
+    'settings.mock_courier.remit_button': 'Pay over collected cash',
+    'settings.mock_courier.remitted': '{count} parcel(s) paid over, {amount} after fees.',
+    'settings.mock_courier.nothing_to_remit': 'No delivered parcels to pay over.',
+    'settings.mock_courier.clear_button': 'Clear all',
     'settings.gemini.saved_message': 'Gemini API key saved. The app will reload.',
     'settings.setup.title': 'Supabase Setup Helper',
     'settings.setup.description': "Follow these steps to get your database ready for the application.",
@@ -644,7 +1388,7 @@ export const translations: Record<Language, Record<string, string>> = {
     'search.products': 'Products',
     'search.sales': 'Sales',
     'search.history': 'History',
-    'search.sale_details': 'Qty: {quantity}, Total: {price} DZD',
+    'search.sale_details': 'Qty: {quantity}, Total: {price}',
     
     // Visual Search
     'visual_search.title': 'Visual Search',
@@ -666,6 +1410,14 @@ export const translations: Record<Language, Record<string, string>> = {
     'visual_search.attributes': "Identified Attributes",
     'visual_search.matching_products': "Matching Products in your Inventory",
     'visual_search.add_as_new': "Add as New Product",
+    'visual_search.scan_code_button': 'Barcode',
+    'visual_search.reading_code': 'Place the barcode inside the frame',
+    'visual_search.code_found': 'Code {code}',
+    'visual_search.code_unknown': 'No product matches the code {code}.',
+    'visual_search.add_with_code': 'Create with this code',
+    'visual_search.count_one': 'Count +1',
+    'visual_search.counted_so_far': 'Counted so far: {count}',
+    'visual_search.error.barcode_failed': 'Barcodes could not be read. Check your connection and try again.',
     
     // AI Assistant
     'ai_assistant.title': 'AI Assistant',
@@ -689,6 +1441,8 @@ export const translations: Record<Language, Record<string, string>> = {
     'error.fetch_data': 'Error fetching data: {error}',
     'error.bucket_not_found': "Storage bucket 'product-images' not found. Please run the SQL script from Settings to create it.",
     'error.schema_mismatch': "Your database tables ('products', 'sales', 'activity_log') seem to be missing or misconfigured. Please run the SQL script from Settings to create/update them.",
+    'error.stale_product': '"{productName}" was changed on another device. Your changes were not saved: the latest version has been loaded, please try again.',
+    'error.product_deleted_elsewhere': '"{productName}" was deleted on another device.',
 
     // Log details
     'log.name': 'Name',
@@ -698,6 +1452,486 @@ export const translations: Record<Language, Record<string, string>> = {
     'log.buyPrice': 'Buy Price',
     'log.sellPrice': 'Sell Price',
     'log.stock': 'Stock',
+    'log.sku': 'SKU',
+    'log.barcode': 'Barcode',
+    'log.taxRate': 'TVA rate',
+    // Offline Sync
+    'offline.pending_sync': 'Waiting to sync',
+    'offline.sync_conflicts': 'Some changes made offline were rejected by the server and were not applied:\n{details}',
+    'offline.operation.products.create': 'Product creation',
+    'offline.operation.products.update': 'Product update',
+    'offline.operation.products.remove': 'Product deletion',
+    'offline.operation.products.removeMany': 'Bulk deletion',
+    'offline.operation.products.saveVariants': 'Variants update',
+    'offline.operation.sales.record': 'Sale',
+    'offline.operation.sales.cancel': 'Sale cancellation',
+    'offline.operation.sales.checkout': 'Order',
+    'offline.operation.sales.cancelOrder': 'Order cancellation',
+    'offline.operation.activityLog.create': 'Activity log',
+    'offline.operation.customers.create': 'Customer creation',
+    'offline.operation.customers.update': 'Customer update',
+    'offline.operation.customers.remove': 'Customer deletion',
+    'offline.operation.saleReturns.create': 'Return',
+    'offline.operation.stockMovements.create': 'Stock movement',
+    'offline.operation.priceChanges.create': 'Price change',
+    'offline.operation.deliveries.create': 'Sent to delivery',
+    'offline.operation.deliveries.update': 'Delivery edit',
+    'offline.operation.deliveries.confirm': 'Delivery sold',
+    'offline.operation.deliveries.cancel': 'Delivery cancellation',
+
+    // Variants
+    'sale_modal.variant_label': 'Variant',
+    'sale_modal.unit_price_label': 'Unit price',
+    'sale_modal.discount_label': 'Discount',
+    'sale_modal.discount_kind_label': 'Discount type',
+    'sale_modal.total': 'Total',
+    'sale_modal.error.invalid_price': 'The unit price cannot be negative.',
+    'sale_modal.error.invalid_discount': 'The discount cannot be negative or more than the amount.',
+
+    // Purchases
+    'purchases.title': 'Purchase Orders',
+    'purchases.new_button': 'New order',
+    'purchases.empty.title': 'No Purchase Orders',
+    'purchases.empty.subtitle': 'Create a purchase order to track what you are expecting from your suppliers.',
+    'purchases.status.draft': 'Draft',
+    'purchases.status.ordered': 'Ordered',
+    'purchases.status.partially_received': 'Partially received',
+    'purchases.status.received': 'Received',
+    'purchases.created_on': 'Created on {date}',
+    'purchases.ordered_on': 'Ordered on {date}',
+    'purchases.total': 'Total',
+    'purchases.landed_total': 'That is {amount} at 1 {currency} = {rate} {shopCurrency}',
+    'purchases.edit': 'Edit',
+    'purchases.mark_ordered': 'Mark as ordered',
+    'purchases.receive': 'Receive goods',
+    'purchases.add_landed_cost': 'Spread landed costs',
+    'purchases.table.product': 'Product',
+    'purchases.table.quantity': 'Ordered',
+    'purchases.table.received': 'Received',
+    'purchases.table.unit_cost': 'Unit cost',
+    'purchases.table.total': 'Total',
+    'purchases.confirm_order_title': 'Send the order?',
+    'purchases.confirm_order': 'An order that has been sent can no longer be edited. You will then be able to receive the goods.',
+    'purchases.confirm_delete_title': 'Delete the draft?',
+    'purchases.confirm_delete': 'This purchase order will be permanently deleted.',
+    'purchases.form.title_new': 'New Purchase Order',
+    'purchases.form.title_edit': 'Edit Purchase Order',
+    'purchases.form.supplier_label': 'Supplier',
+    'purchases.form.reference_label': 'Reference',
+    'purchases.form.notes_label': 'Notes',
+    'purchases.form.currency_label': 'Order currency',
+    'purchases.form.exchange_rate_label': 'Exchange rate ({shopCurrency} for 1 {currency})',
+    'purchases.form.currency_hint': "Costs are entered in the supplier's currency and turned into buy prices on receipt.",
+    'purchases.form.lines_label': 'Items',
+    'purchases.form.add_line': 'Add an item',
+    'purchases.form.product_placeholder': 'Choose a product',
+    'purchases.form.error.supplier_required': 'The supplier is required.',
+    'purchases.form.error.no_lines': 'Add at least one item.',
+    'purchases.form.error.invalid_line': 'Every item needs a product, a quantity of at least 1 and a positive cost.',
+    'purchases.form.error.invalid_rate': 'Enter an exchange rate above 0.',
+    'purchases.receive_modal.title': 'Receive Goods',
+    'purchases.receive_modal.buy_price': 'Buy price: {amount}',
+    'purchases.receive_modal.remaining': 'Expected',
+    'purchases.receive_modal.quantity_label': 'Received',
+    'purchases.receive_modal.lot': 'Lot',
+    'purchases.receive_modal.lot_number': 'Batch number',
+    'purchases.receive_modal.expires_at': 'Expiry date',
+    'purchases.receive_modal.confirm_button': 'Add to stock',
+    'purchases.receive_modal.error.too_many': 'Only {remaining} unit(s) of {productName} are still expected.',
+    'purchases.receive_modal.error.nothing': 'Enter the quantity received for at least one item.',
+
+    // Suppliers
+    'suppliers.title': 'Suppliers',
+    'suppliers.new_button': 'New supplier',
+    'suppliers.empty.title': 'No Suppliers',
+    'suppliers.empty.subtitle': 'Suppliers entered on your products appear here. You can also add one.',
+    'suppliers.edit': 'Edit',
+    'suppliers.lead_time_value': '{days} day(s)',
+    'suppliers.table.name': 'Supplier',
+    'suppliers.table.contact': 'Contact',
+    'suppliers.table.lead_time': 'Lead time',
+    'suppliers.table.products': 'Products',
+    'suppliers.table.stock_value': 'Stock value',
+    'suppliers.table.spend': 'Goods received',
+    'suppliers.table.revenue': 'Sales',
+    'suppliers.table.margin': 'Margin',
+    'suppliers.table.actions': 'Actions',
+    'suppliers.confirm_delete_title': 'Delete the supplier?',
+    'suppliers.confirm_delete': '{name} will be deleted. Its products and orders keep its name.',
+    'suppliers.form.title_new': 'New Supplier',
+    'suppliers.form.title_edit': 'Edit Supplier',
+    'suppliers.form.name_label': 'Name',
+    'suppliers.form.contactName_label': 'Contact person',
+    'suppliers.form.phone_label': 'Phone',
+    'suppliers.form.email_label': 'Email',
+    'suppliers.form.address_label': 'Address',
+    'suppliers.form.leadTimeDays_label': 'Lead time (days)',
+    'suppliers.form.paymentTerms_label': 'Payment terms',
+    'suppliers.form.notes_label': 'Notes',
+    'suppliers.form.rename_hint': 'The new name will also be applied to its products and orders.',
+    'suppliers.form.error.name_required': 'The name is required.',
+    'suppliers.form.error.invalid_lead_time': 'The lead time must be a positive number of days.',
+
+    // Customers
+    'customers.title': 'Customers',
+    'customers.new_button': 'New customer',
+    'customers.search_placeholder': 'Name or phone...',
+    'customers.no_results': 'No customer matches your search.',
+    'customers.view': 'View details',
+    'customers.edit': 'Edit customer',
+    'customers.empty.title': 'No customers',
+    'customers.empty.subtitle': 'Save your customers to keep track of their purchases and deliveries.',
+    'customers.table.name': 'Name',
+    'customers.table.phone': 'Phone',
+    'customers.table.wilaya': 'Wilaya',
+    'customers.table.purchases': 'Purchases',
+    'customers.table.lifetime_value': 'Lifetime value',
+    'customers.table.last_purchase': 'Last purchase',
+    'customers.table.outstanding': 'Out for delivery',
+    'customers.table.actions': 'Actions',
+    'customers.confirm_delete_title': 'Delete customer',
+    'customers.confirm_delete': 'Delete {name}? Their sales and deliveries are kept, without the link to the customer.',
+    'customers.form.title_new': 'New customer',
+    'customers.form.title_edit': 'Edit customer',
+    'customers.form.name_label': 'Name',
+    'customers.form.phone_label': 'Phone',
+    'customers.form.wilaya_label': 'Wilaya',
+    'customers.form.address_label': 'Address',
+    'customers.form.notes_label': 'Notes',
+    'customers.form.error.name_required': 'The customer name is required.',
+    'customers.picker.label': 'Customer (optional)',
+    'customers.picker.placeholder': 'Search by name or phone',
+    'customers.picker.clear': 'Remove customer',
+    'customers.picker.new': 'New customer "{query}"',
+    'customers.picker.create_button': 'Add',
+    'customers.details.lifetime_value': 'Lifetime value',
+    'customers.details.purchase_count': 'Purchases',
+    'customers.details.last_purchase': 'Last purchase',
+    'customers.details.outstanding_value': 'Out for delivery',
+    'customers.details.outstanding_deliveries': 'Outstanding deliveries',
+    'customers.details.no_outstanding': 'No outstanding deliveries.',
+    'customers.details.purchase_history': 'Purchase history',
+    'customers.details.no_purchases': 'No purchases recorded.',
+
+    // Checkout
+    'checkout.title': 'New Sale',
+    'checkout.search_placeholder': 'Product name, SKU or barcode...',
+    'checkout.no_results': 'No products found',
+    'checkout.in_stock': '{stock} in stock',
+    'checkout.empty_cart': 'Search or scan products to add them to the sale.',
+    'checkout.remove_line': 'Remove',
+    'checkout.discount_label': 'Order discount ({currency})',
+    'checkout.subtotal': 'Subtotal',
+    'checkout.discount': 'Discount',
+    'checkout.total': 'Total',
+    'checkout.confirm_button': 'Complete sale',
+    'checkout.error.discount_too_high': 'The discount cannot exceed the subtotal.',
+
+    // Returns
+    'returns.title': 'Record a return',
+    'returns.return_button': 'Return',
+    'returns.chip': '{quantity} returned',
+    'returns.returnable': 'Returnable units',
+    'returns.reason_label': 'Reason',
+    'returns.reason.changed_mind': 'Customer changed their mind',
+    'returns.reason.defective': 'Defective',
+    'returns.reason.damaged': 'Damaged',
+    'returns.reason.wrong_item': 'Wrong item',
+    'returns.reason.other': 'Other',
+    'returns.outcome_label': 'What happens to the units?',
+    'returns.restock': 'Put back in stock',
+    'returns.write_off': 'Write off',
+    'returns.product_deleted': 'The product has been deleted, so the units cannot be put back in stock.',
+    'returns.refund_label': 'Refund amount ({currency})',
+    'returns.notes_label': 'Notes (optional)',
+    'returns.confirm_button': 'Record return',
+    'returns.error.quantity': 'Between 1 and {remaining} unit(s) can be returned.',
+    'returns.error.refund': 'The refund cannot exceed {amount}.',
+
+    // Stock Movements
+    'stock_movements.title': 'Stock movements',
+    'stock_movements.action': 'Stock history',
+    'stock_movements.empty': 'No stock movements for this product yet.',
+    'stock_movements.unrecorded': 'Unrecorded stock (from before the history)',
+    'stock_movements.current_stock': 'Current stock',
+    'stock_movements.reason_label': 'Reason for the stock change',
+    'stock_movements.reason.sale': 'Sale',
+    'stock_movements.reason.return': 'Return',
+    'stock_movements.reason.delivery': 'Delivery',
+    'stock_movements.reason.delivery_split': 'Delivery',
+    'stock_movements.reason.loss': 'Loss',
+    'stock_movements.reason.damage': 'Damage',
+    'stock_movements.reason.count_correction': 'Count correction',
+    'stock_movements.reason.receipt': 'Receipt',
+    'stock_movements.table.date': 'Date',
+    'stock_movements.table.reason': 'Reason',
+    'stock_movements.table.quantity': 'Quantity',
+    'stock_movements.table.balance': 'Balance',
+    'stock_movements.note.initial_stock': 'Initial stock',
+    'stock_movements.note.sale_cancelled': 'Sale cancelled',
+    'stock_movements.note.delivery_cancelled': 'Delivery cancelled',
+
+    // Inventory Counts
+    'inventory_counts.title': 'Stock Counts',
+    'inventory_counts.new_button': 'New Count',
+    'inventory_counts.empty.title': 'No Stock Counts',
+    'inventory_counts.empty.subtitle': 'Start a count to compare what is on the shelf with the stock on record.',
+    'inventory_counts.whole_shop': 'Whole shop',
+    'inventory_counts.status.in_progress': 'In progress',
+    'inventory_counts.status.posted': 'Posted',
+    'inventory_counts.started_on': 'Started {date}',
+    'inventory_counts.posted_on': 'Posted {date}',
+    'inventory_counts.progress': '{counted} / {total} counted',
+    'inventory_counts.mismatched_lines': '{count} variance(s)',
+    'inventory_counts.back': 'Back to counts',
+    'inventory_counts.scan_button': 'Scan',
+    'inventory_counts.post_button': 'Post Adjustments',
+    'inventory_counts.summary.counted': 'Lines counted',
+    'inventory_counts.summary.mismatched': 'Variances',
+    'inventory_counts.summary.over_short': 'Units over / short',
+    'inventory_counts.summary.value': 'Variance value (at cost)',
+    'inventory_counts.search_placeholder': 'Search for a product...',
+    'inventory_counts.filter.all': 'All lines',
+    'inventory_counts.filter.uncounted': 'Not counted',
+    'inventory_counts.filter.mismatched': 'With variance',
+    'inventory_counts.table.product': 'Product',
+    'inventory_counts.table.on_record': 'On record',
+    'inventory_counts.table.counted': 'Counted',
+    'inventory_counts.table.variance': 'Variance',
+    'inventory_counts.no_lines': 'No lines to show.',
+    'inventory_counts.confirm_post_title': 'Post Stock Count',
+    'inventory_counts.confirm_post': '{counted} of {total} lines were counted. Stock will be corrected on {mismatched} line(s) (+{over} / -{short} units, {value}). Lines not counted are left as they are.',
+    'inventory_counts.confirm_delete_title': 'Delete Stock Count',
+    'inventory_counts.confirm_delete': 'Delete this count in progress? The quantities counted so far will be lost.',
+    'inventory_counts.form.title': 'New Stock Count',
+    'inventory_counts.form.category_label': 'Category',
+    'inventory_counts.form.all_categories': 'All categories',
+    'inventory_counts.form.supplier_label': 'Supplier',
+    'inventory_counts.form.all_suppliers': 'All suppliers',
+    'inventory_counts.form.nothing_to_count': 'No product in stock matches this selection.',
+    'inventory_counts.form.line_count': '{count} line(s) to count.',
+    'inventory_counts.form.start_button': 'Start',
+
+    // Stock Locations
+    'locations.title': 'Locations',
+    'locations.new_button': 'New location',
+    'locations.edit': 'Edit location',
+    'locations.empty.title': 'A single location: the shop',
+    'locations.empty.subtitle': 'Add a warehouse or a courier to track where your stock is and move it between them.',
+    'locations.main_shop': 'Main shop',
+    'locations.in_transit': 'In transit',
+    'locations.units_here': '{count} here',
+    'locations.kind.shop': 'Shop',
+    'locations.kind.warehouse': 'Warehouse',
+    'locations.kind.courier': 'Courier',
+    'locations.filter.label': 'Location',
+    'locations.filter.all': 'All locations',
+    'locations.table.name': 'Name',
+    'locations.table.kind': 'Type',
+    'locations.table.units': 'Units',
+    'locations.table.stock_value': 'Value (cost)',
+    'locations.table.retail_value': 'Value (retail)',
+    'locations.table.actions': 'Actions',
+    'locations.confirm_delete_title': 'Delete location',
+    'locations.confirm_delete': 'Delete {name}? Its transfer history will be deleted too.',
+    'locations.error.not_empty': 'This location still holds stock or is waiting on a transfer. Move or receive those units before deleting it.',
+    'locations.form.title_new': 'New location',
+    'locations.form.title_edit': 'Edit location',
+    'locations.form.name_label': 'Name',
+    'locations.form.kind_label': 'Type',
+    'locations.form.notes_label': 'Notes',
+    'locations.form.error.name_required': 'Name is required.',
+    'locations.transfer.action': 'Transfer',
+    'locations.transfer.new_button': 'New transfer',
+    'locations.transfer.title': 'Transfer stock',
+    'locations.transfer.product_label': 'Product',
+    'locations.transfer.select_product': 'Select a product',
+    'locations.transfer.variant_label': 'Variant',
+    'locations.transfer.select_variant': 'Select a variant',
+    'locations.transfer.from_label': 'From',
+    'locations.transfer.to_label': 'To',
+    'locations.transfer.quantity_label': 'Quantity',
+    'locations.transfer.available': '{count} available at the origin',
+    'locations.transfer.notes_label': 'Notes',
+    'locations.transfer.send_button': 'Send',
+    'locations.transfer.error.product_required': 'Select a product and, if it has any, a variant.',
+    'locations.transfer.error.same_location': 'The origin and the destination must differ.',
+    'locations.transfer.error.invalid_quantity': 'Quantity must be at least 1.',
+    'locations.transfer.error.not_enough': 'Only {count} unit(s) available at the origin.',
+    'locations.transfers.in_transit_title': 'Transfers in transit',
+    'locations.transfers.none_in_transit': 'No transfer in transit.',
+    'locations.transfers.history_title': 'Received transfers',
+    'locations.transfers.date': 'Date',
+    'locations.transfers.product': 'Product',
+    'locations.transfers.route': 'Route',
+    'locations.transfers.quantity': 'Quantity',
+    'locations.transfers.receive': 'Receive',
+    'locations.transfers.cancel': 'Cancel transfer',
+    'locations.transfers.confirm_cancel_title': 'Cancel transfer',
+    'locations.transfers.confirm_cancel': 'The {quantity} unit(s) will go back to {name}.',
+
+    // Payment Methods
+    'payments.label': 'Payment',
+    'payments.method.cash': 'Cash',
+    'payments.method.card': 'Card',
+    'payments.method.transfer': 'CCP/BaridiMob',
+    'payments.method.cod': 'Cash on delivery',
+    'payments.method.store_credit': 'Store credit',
+    'payments.split': 'Split between methods',
+    'payments.add_method': 'Add a method',
+    'payments.amount_label': 'Amount',
+    'payments.remove': 'Remove',
+    'payments.remaining': 'Left to split: {amount}',
+    'payments.error.invalid_amount': 'Every payment needs an amount that is not negative.',
+    'payments.error.mismatch': 'The payments must add up to the total.',
+    'payments.error.store_credit_customer': 'Choose the customer whose store credit is used.',
+    'payments.filter.label': 'Payment method',
+    'payments.filter.all': 'All methods',
+    'statistics.revenue_by_payment_method': 'Revenue by payment method',
+    'statistics.no_payment_methods': 'No payments recorded in this period.',
+
+    // Promotions
+    'promotions.title': 'Promotions',
+    'promotions.new_button': 'New promotion',
+    'promotions.edit': 'Edit promotion',
+    'promotions.per_unit': '{amount} per unit',
+    'promotions.empty.title': 'No promotions',
+    'promotions.empty.subtitle': 'Schedule a discount on a product, a category or the whole shop; sales get it automatically while it runs.',
+    'promotions.table.name': 'Name',
+    'promotions.table.discount': 'Discount',
+    'promotions.table.applies_to': 'Applies to',
+    'promotions.table.period': 'Period',
+    'promotions.table.sales': 'Sales',
+    'promotions.table.actions': 'Actions',
+    'promotions.status.scheduled': 'Scheduled',
+    'promotions.status.running': 'Running',
+    'promotions.status.ended': 'Ended',
+    'promotions.scope.all': 'All products',
+    'promotions.scope.category': 'A category',
+    'promotions.scope.product': 'A product',
+    'promotions.scope.deleted_product': 'Deleted product',
+    'promotions.kind.percent': 'Percentage',
+    'promotions.kind.fixed': 'Fixed amount ({currency})',
+    'promotions.form.title_new': 'New promotion',
+    'promotions.form.title_edit': 'Edit promotion',
+    'promotions.form.name_label': 'Name',
+    'promotions.form.name_placeholder': 'e.g. Summer sale',
+    'promotions.form.kind_label': 'Type',
+    'promotions.form.value_label': 'Value',
+    'promotions.form.scope_label': 'Applies to',
+    'promotions.form.start_label': 'From',
+    'promotions.form.end_label': 'To',
+    'promotions.form.error.name_required': 'Give the promotion a name.',
+    'promotions.form.error.invalid_value': 'The discount must be more than zero, and at most 100%.',
+    'promotions.form.error.invalid_dates': 'The promotion cannot end before it starts.',
+    'promotions.confirm_delete_title': 'Delete promotion',
+    'promotions.confirm_delete': 'Delete "{name}"? Sales it already discounted keep their price.',
+
+    // Taxes (TVA)
+    'taxes.included': 'Incl. TVA ({rate}%)',
+    'taxes.included_total': 'Incl. TVA',
+    'taxes.sale_tax': 'Incl. TVA {rate}%: {amount}',
+    'taxes.settings.title': 'TVA by category',
+    'taxes.settings.description': 'The rate of the products of a category that have none of their own. Leave empty for no TVA.',
+    'taxes.settings.no_categories': 'Add products to set the rate of their categories.',
+    'taxes.settings.rate_label': 'TVA rate of {category}',
+    'taxes.error.invalid_rate': 'The rate must be between 0 and 100%.',
+    'taxes.summary.title': 'TVA summary',
+    'taxes.summary.subtitle': 'The TVA collected over the period, by rate, less refunds.',
+    'taxes.summary.empty': 'No sales over the period.',
+    'taxes.summary.rate': 'Rate',
+    'taxes.summary.sales': 'Sales',
+    'taxes.summary.net': 'Net',
+    'taxes.summary.tax': 'TVA',
+    'taxes.summary.gross': 'Gross',
+    'taxes.summary.total': 'Total',
+
+    // Landed costs
+    'landed_costs.title': 'Landed costs',
+    'landed_costs.new_button': 'Spread costs',
+    'landed_costs.empty.title': 'No landed costs',
+    'landed_costs.empty.subtitle': 'Spread the shipping, customs or transit fees of a shipment over its products: their buy price takes them in, and so does the margin on future sales.',
+    'landed_costs.applied_on': 'Applied on {date}',
+    'landed_costs.total': 'Costs: {amount}',
+    'landed_costs.basis.value': 'By value',
+    'landed_costs.basis.quantity': 'By quantity',
+    'landed_costs.basis.weight': 'By weight',
+    'landed_costs.table.product': 'Product',
+    'landed_costs.table.quantity': 'Quantity',
+    'landed_costs.table.weight': 'Unit weight (kg)',
+    'landed_costs.table.unit_cost': 'Unit cost',
+    'landed_costs.table.allocated': 'Costs spread',
+    'landed_costs.table.landed_unit_cost': 'New buy price',
+    'landed_costs.form.title': 'Spread landed costs',
+    'landed_costs.form.order_label': 'Purchase order',
+    'landed_costs.form.order_none': 'None, pick the products',
+    'landed_costs.form.reference_label': 'Reference',
+    'landed_costs.form.reference_placeholder': 'e.g. March container',
+    'landed_costs.form.charges_label': 'Costs',
+    'landed_costs.form.charge_placeholder': 'e.g. Shipping, customs',
+    'landed_costs.form.charge_amount': 'Amount',
+    'landed_costs.form.add_charge': 'Add a cost',
+    'landed_costs.form.basis_label': 'Spread',
+    'landed_costs.form.lines_label': 'Products',
+    'landed_costs.form.product_placeholder': 'Choose a product',
+    'landed_costs.form.add_line': 'Add a product',
+    'landed_costs.form.order_hint': 'The quantities received and their cost are taken from the order.',
+    'landed_costs.form.apply_hint': "Each product's buy price will be replaced by its new landed cost.",
+    'landed_costs.form.apply_button': 'Apply',
+    'landed_costs.form.error.no_charges': 'Add at least one cost to spread.',
+    'landed_costs.form.error.invalid_charge': 'Every cost needs a label and an amount above zero.',
+    'landed_costs.form.error.no_lines': 'Add at least one product.',
+    'landed_costs.form.error.invalid_line': 'Every product needs a quantity of at least 1, and a cost and weight that are not negative.',
+    'landed_costs.form.error.no_basis': 'The costs cannot be spread this way: fill in the weights or the costs.',
+
+    // Price History
+    'price_history.title': 'Price history',
+    'price_history.empty': 'No price changes recorded for this product yet.',
+    'price_history.table.date': 'Date',
+    'price_history.table.change': 'Change',
+    'price_history.source.edit': 'Product edit',
+    'price_history.source.bulk_update': 'Bulk edit',
+    'price_history.source.bulk_revert': 'Bulk edit reverted',
+    'price_history.batch_size': '{count} product(s)',
+    'price_history.revert': 'Revert bulk edit',
+    'price_history.reverted': 'Bulk edit reverted',
+    'price_history.confirm_revert_title': 'Revert the bulk edit?',
+    'price_history.confirm_revert': 'The prices of the {count} product(s) in this bulk edit will go back to what they were before.',
+    'price_history.revert_repriced': 'This bulk edit cannot be reverted: the prices of {products} have changed since.',
+    'price_history.revert_error': 'Error while reverting: {error}',
+
+    // Stock lots and expiry
+    'stock_lots.title': 'Lots',
+    'stock_lots.empty': 'No lots for this product.',
+    'stock_lots.untracked': '{count} unit(s) in no lot, with no expiry date.',
+    'stock_lots.no_expiry': 'No date',
+    'stock_lots.remove': 'Remove lot',
+    'stock_lots.variant': 'Variant',
+    'stock_lots.lot_number': 'Batch number',
+    'stock_lots.add': 'Add',
+    'stock_lots.table.lot': 'Lot',
+    'stock_lots.table.expires_at': 'Expires',
+    'stock_lots.table.quantity': 'Quantity',
+    'expiry.title': 'Lot expiry',
+    'expiry.empty.title': 'No dated lots',
+    'expiry.empty.subtitle': "Add an expiry date when receiving goods or from a product's details.",
+    'expiry.filter.all': 'All',
+    'expiry.filter.expired': 'Expired',
+    'expiry.filter.expiring': 'Expiring soon',
+    'expiry.expired_stock': 'Expired stock',
+    'expiry.expiring_stock': 'Expiring within {days} days',
+    'expiry.units': '{count} unit(s)',
+    'expiry.days.expired': 'Expired',
+    'expiry.days.expiring': 'In {days} day(s)',
+    'expiry.days.ok': 'In {days} day(s)',
+    'expiry.table.product': 'Product',
+    'expiry.table.lot': 'Lot',
+    'expiry.table.expires_at': 'Expires',
+    'expiry.table.status': 'Status',
+    'expiry.table.quantity': 'Quantity',
+    'expiry.table.value': 'Value',
+    'expiry.none_matching': 'No lots match this filter.',
+
   },
   ar: {
     // General
@@ -716,6 +1950,14 @@ export const translations: Record<Language, Record<string, string>> = {
     'sidebar.products': 'المنتجات',
     'sidebar.delivery': 'التوصيل',
     'sidebar.sales': 'المبيعات',
+    'sidebar.customers': 'العملاء',
+    'sidebar.purchases': 'المشتريات',
+    'sidebar.suppliers': 'الموردون',
+    'sidebar.inventory_counts': 'الجرد',
+    'sidebar.locations': 'المواقع',
+    'sidebar.promotions': 'العروض',
+    'sidebar.landed_costs': 'تكاليف الاستيراد',
+    'sidebar.expiry': 'انتهاء الصلاحية',
     'sidebar.settings': 'الإعدادات',
 
     // Header
@@ -723,6 +1965,11 @@ export const translations: Record<Language, Record<string, string>> = {
     'header.products': 'إدارة المنتجات',
     'header.delivery': 'تتبع التوصيل',
     'header.sales': 'سجل المبيعات',
+    'header.checkout': 'بيع جديد',
+    'header.customers': 'العملاء',
+    'header.purchases': 'أوامر الشراء',
+    'header.suppliers': 'الموردون',
+    'header.locations': 'المواقع والتحويلات',
     'header.settings': 'الإعدادات',
     'header.default': 'المدير',
     'header.refresh_data': 'تحديث البيانات',
@@ -742,6 +1989,8 @@ export const translations: Record<Language, Record<string, string>> = {
     'mobile_hub.manage_products_desc': 'عرض، إضافة أو تعديل مخزونك.',
     'mobile_hub.sell_deliver_title': 'بيع أو توصيل',
     'mobile_hub.sell_deliver_desc': 'امسح منتجاً لبيعه أو إرساله للتوصيل.',
+    'mobile_hub.count_stock_title': 'جرد المخزون',
+    'mobile_hub.count_stock_desc': 'امسح المنتجات على الرفوف لعدّ المخزون.',
     'mobile_hub.enter_platform_title': 'الدخول للمنصة',
     'mobile_hub.enter_platform_desc': 'الوصول إلى كافة ميزات لوحة التحكم.',
 
@@ -750,15 +1999,21 @@ export const translations: Record<Language, Record<string, string>> = {
     'dashboard.sales_profit': 'أرباح المبيعات',
     'dashboard.units_sold': 'الوحدات المباعة',
     'dashboard.stock_value': 'قيمة المخزون (استثمار)',
+    'dashboard.stock_by_location_title': 'المخزون حسب الموقع',
+    'dashboard.stock_by_location.location': 'الموقع',
+    'dashboard.stock_by_location.units': 'الوحدات',
+    'dashboard.stock_by_location.retail_value': 'قيمة البيع',
     'dashboard.potential_stock_profit': 'الربح المحتمل للمخزون',
     'dashboard.total_products': 'إجمالي المنتجات',
     'dashboard.out_of_stock': 'نفد من المخزون',
-    'dashboard.weekly_profit_chart_title': 'الربح خلال الفترة (د.ج)',
+    'dashboard.weekly_profit_chart_title': 'الربح خلال الفترة ({currency})',
     'dashboard.stock_by_category_chart_title': 'المخزون حسب الفئة',
     'dashboard.chart.profit': 'الربح',
     'dashboard.chart.units': 'وحدات',
     'dashboard.notifications.low_stock': '{productName} مخزونه منخفض ({count} عناصر متبقية).',
     'dashboard.notifications.out_of_stock': '{productName} نفد من المخزون.',
+    'dashboard.notifications.lot_expired': 'انتهت صلاحية الدفعة {lot} من {productName} ({count} وحدة) في {date}.',
+    'dashboard.notifications.lot_expiring': 'تنتهي صلاحية الدفعة {lot} من {productName} ({count} وحدة) في {date}، بعد {days} يوم.',
     'dashboard.units_in_delivery': 'وحدات قيد التوصيل',
     'dashboard.this_week': 'هذا الأسبوع',
     'dashboard.ai_insights.title': "رؤى الذكاء الاصطناعي",
@@ -812,9 +2067,6 @@ export const translations: Record<Language, Record<string, string>> = {
     'products.status.out_of_stock': 'نفد',
     'products.status.delivery': 'قيد التوصيل',
     'products.actions.set_delivery': 'إرسال للتوصيل',
-    'products.actions.set_delivery_confirm_title': 'تأكيد الإرسال للتوصيل',
-    'products.actions.set_delivery_confirm_message': 'هل أنت متأكد أنك تريد وضع علامة "قيد التوصيل" على هذا المنتج؟ لن يكون متاحًا للبيع المباشر بعد الآن.',
-    'products.actions.set_delivery_confirm_message_with_quantity': 'إرسال {quantity} وحدة(ات) من المنتج "{productName}" للتوصيل؟',
     'products.pagination': 'صفحة {currentPage} من {totalPages}',
     'products.time_ago.now': 'الآن',
     'products.time_ago.minutes': 'قبل {count} د',
@@ -849,6 +2101,15 @@ export const translations: Record<Language, Record<string, string>> = {
     'product_form.stock_label': 'المخزون',
     'product_form.buy_price_label': 'سعر الشراء',
     'product_form.sell_price_label': 'سعر البيع',
+    'product_form.variants.option_names_label': 'خيارات المتغيرات',
+    'product_form.variants.option_names_placeholder': 'مثال: المقاس، اللون',
+    'product_form.variants.add': 'إضافة متغير',
+    'product_form.variants.remove': 'حذف المتغير',
+    'product_form.sku_label': 'SKU',
+    'product_form.barcode_label': 'الرمز الشريطي',
+    'product_form.tax_rate_label': 'نسبة الرسم على القيمة المضافة (%)',
+    'product_form.tax_rate_placeholder': '{rate}% (نسبة الفئة)',
+    'product_form.price_includes_tax_label': 'أسعار البيع تشمل الرسم على القيمة المضافة',
     'product_form.error_add': 'خطأ في إضافة المنتج: {error}',
     'product_form.error_update': 'خطأ في تحديث المنتج: {error}',
 
@@ -889,6 +2150,17 @@ export const translations: Record<Language, Record<string, string>> = {
     'sales.empty.subtitle': 'عندما تتم عملية بيع، ستظهر هنا.',
     'sales.no_results_for_period.title': 'لا توجد مبيعات لهذه الفترة',
     'sales.no_results_for_period.subtitle': 'حاول تحديد نطاق زمني آخر.',
+    'sales.new_order_button': 'بيع جديد',
+    'sales.order.chip': 'طلب #{id}',
+    'sales.order.view': 'عرض الطلب',
+    'sales.awaiting_cod': 'بانتظار التحصيل',
+    'sales.order.title': 'طلب #{id}',
+    'sales.order.discount_share': 'خصم',
+    'sales.order.cancel_line': 'إلغاء هذا السطر',
+    'sales.order.cancel_order': 'إلغاء الطلب',
+    'sales.order.has_returns': 'تم إرجاع بعض منتجات هذا الطلب: لم يعد بالإمكان إلغاؤه، بل إرجاعه فقط.',
+    'sales.order.confirm_cancel_line': 'إلغاء هذا السطر؟ سيتم استرجاع مخزونه وحذف حصته من خصم الطلب.',
+    'sales.order.confirm_cancel_order': 'إلغاء جميع أسطر هذا الطلب ({count})؟ سيتم استرجاع كل المخزون.',
 
     // History Page
     'history.title': 'سجل النشاط',
@@ -901,6 +2173,10 @@ export const translations: Record<Language, Record<string, string>> = {
     'history.action.sale_cancelled': 'تم إلغاء بيع {productName}.',
     'history.action.delivery_set': 'تم إرسال {productName} للتوصيل.',
     'history.action.delivery_cancelled': 'تم إلغاء توصيل {productName}.',
+    'history.action.received': 'تم استلام {productName}.',
+    'history.action.returned': 'تم إرجاع {productName}.',
+    'history.action.counted': 'جرد {productName}.',
+    'history.action.costed': 'إعادة حساب تكلفة {productName}.',
     'history.action.unknown': 'إجراء غير معروف على {productName}.',
     'history.empty.title': "لا يوجد نشاط حديث",
     'history.empty.subtitle': "الإجراءات على المنتجات ستظهر هنا.",
@@ -908,35 +2184,112 @@ export const translations: Record<Language, Record<string, string>> = {
     'history.log.units_sold_from_delivery': 'تم بيع {quantity} وحدة(ات) من التوصيل.',
     'history.log.sale_cancelled': 'تمت استعادة المخزون (+{quantity}).',
     'history.log.sale_cancelled_deleted_product': "المنتج المرتبط لم يعد موجودًا.",
+    'history.log.returned_restocked': 'تم إرجاع {quantity} وحدة(ات) وإعادتها إلى المخزون ({reason}).',
+    'history.log.returned_written_off': 'تم إرجاع {quantity} وحدة(ات) وشطبها ({reason}).',
+    'history.log.counted': 'المعدود: {counted} (المتوقع {expected})',
+    'history.log.costed': 'سعر الشراء: {from} ← {to} ({amount} من المصاريف على {quantity} وحدة)',
     'history.log.duplicated': 'تم تكراره من "{productName}".',
     'history.log.imported_from_shopify': 'تم الاستيراد من ملف Shopify.',
     'history.log.image_updated': 'تم تحديث الصورة',
+    'history.log.variants_updated': 'تم تحديث المتغيرات',
     'history.log.bulk_update': 'تعديل جماعي',
+    'history.log.bulk_price_revert': 'إلغاء تعديل جماعي للأسعار',
     'history.log.bulk_delete': 'حذف جماعي.',
-    'history.log.delivery_split': 'تم فصل العنصر من المخزون الرئيسي للتوصيل.',
-    'history.log.delivery_merge': 'تم دمج العنصر مرة أخرى في المخزون الرئيسي.',
+    'history.log.delivery_created': 'تم إرسال {quantity} وحدة(ات) للتوصيل.',
+    'history.log.delivery_restocked': 'تمت إعادة {quantity} وحدة(ات) إلى المخزون.',
+    'history.log.received': 'تم استلام {quantity} وحدة من {supplier} بسعر {cost}.',
+    'history.log.customer': 'العميل: {name}.',
     
     // Delivery Page
-    'delivery.title': 'منتجات قيد التوصيل',
+    'delivery.title': 'التوصيلات الجارية',
     'delivery.confirm_sale': 'تم البيع',
     'delivery.cancel_delivery': 'إلغاء التوصيل',
     'delivery.total_items': 'العناصر قيد التوصيل',
-    'delivery.total_value': 'القيمة قيد التوصيل',
-    'delivery.table.delivered_at': 'أُرسل للتوصيل في',
+    'delivery.total_cod': 'المبلغ المراد تحصيله',
+    'delivery.table.delivered_at': 'أُرسل في',
+    'delivery.for_customer': 'إلى {name}',
     'delivery.confirm_sale_title': 'تأكيد البيع',
     'delivery.confirm_sale_message': 'تأكيد بيع "{productName}"؟ هذا الإجراء لا يمكن التراجع عنه.',
     'delivery.confirm_cancel_title': "إلغاء التوصيل",
-    'delivery.confirm_cancel': 'هل تريد إلغاء هذا التوصيل وإعادة المنتج إلى المخزون الرئيسي؟',
-    'delivery.empty.title': 'لا توجد منتجات قيد التوصيل',
-    'delivery.empty.subtitle': "استخدم خيار 'إرسال للتوصيل' على منتج لرؤيته هنا.",
+    'delivery.confirm_cancel': 'هل تريد إلغاء هذا التوصيل وإعادة وحداته إلى المخزون؟',
+    'delivery.empty.title': 'لا توجد توصيلات جارية',
+    'delivery.empty.subtitle': "استخدم خيار 'إرسال للتوصيل' على منتج لإرساله إلى زبون.",
     'delivery.no_results_for_period.title': 'لا توجد توصيلات لهذه الفترة',
     'delivery.no_results_for_period.subtitle': 'حاول تحديد نطاق زمني آخر.',
+    'deliveries.status.pending': 'قيد التحضير',
+    'deliveries.status.shipped': 'تم الشحن',
+    'deliveries.status.delivered': 'تم التسليم',
+    'deliveries.status.cancelled': 'ملغى',
+    'deliveries.mark_shipped': 'تحديد كمشحون',
+    'deliveries.book_with': 'الحجز لدى {courier}',
+    'deliveries.refresh_statuses': 'تحديث التتبع',
+    'deliveries.last_refreshed': 'آخر تحديث في {time}',
+    'deliveries.sync_error': 'تعذر التحديث التلقائي: {message}',
+    'deliveries.error.shipment_failed': 'تعذر الحجز لدى {courier}: {message}',
+    'couriers.status.pending': 'في انتظار الاستلام',
+    'couriers.status.in_transit': 'قيد النقل',
+    'couriers.status.delivered': 'تم التسليم',
+    'couriers.status.returned': 'مرتجع',
+    'deliveries.edit': 'تعديل',
+    'deliveries.from_location': 'من {name}',
+    'deliveries.table.courier': 'شركة التوصيل',
+    'deliveries.table.quantity': 'الكمية',
+    'deliveries.table.cod': 'للتحصيل',
+    'deliveries.table.status': 'الحالة',
+    'deliveries.form.title_new': 'إرسال للتوصيل',
+    'deliveries.form.title_edit': 'تعديل التوصيل',
+    'deliveries.form.from_label': 'الأخذ من',
+    'deliveries.form.quantity_label': 'الكمية',
+    'deliveries.form.address_label': 'عنوان التوصيل',
+    'deliveries.form.courier_label': 'شركة التوصيل',
+    'deliveries.form.tracking_label': 'رقم التتبع',
+    'deliveries.form.cod_label': 'الدفع عند الاستلام',
+    'deliveries.form.notes_label': 'ملاحظات',
+    'deliveries.form.send_button': 'إرسال',
+    'deliveries.form.error.variant_required': 'اختر متغيرًا.',
+    'deliveries.form.error.invalid_quantity': 'يجب أن تكون الكمية 1 على الأقل.',
+    'deliveries.form.error.not_enough': '{count} وحدة(ات) فقط متاحة هنا.',
+    'deliveries.form.error.invalid_cod': 'يجب أن يكون المبلغ المراد تحصيله رقمًا موجبًا.',
+    'deliveries.remittance.owed_to_us': 'مستحق لنا',
+    'deliveries.remittance.owed_description': '{count} طلب(ات) مسلّمة بانتظار دفع شركة التوصيل',
+    'deliveries.remittance.record_button': 'تسجيل دفعة',
+    'deliveries.remittance.title': 'دفعة شركة التوصيل',
+    'deliveries.remittance.reference_label': 'مرجع الدفعة',
+    'deliveries.remittance.paid_at_label': 'تاريخ الدفع',
+    'deliveries.remittance.amount_label': 'المبلغ المستلم',
+    'deliveries.remittance.orders_label': 'الطلبات المسلّمة التي تسددها هذه الدفعة',
+    'deliveries.remittance.orders': 'الطلبات',
+    'deliveries.remittance.select_all': 'تحديد الكل',
+    'deliveries.remittance.select_none': 'إلغاء التحديد',
+    'deliveries.remittance.no_orders': 'لا توجد طلبات مسلّمة من هذه الشركة بانتظار الدفع.',
+    'deliveries.remittance.collected': 'المحصّل من {count} طلب(ات)',
+    'deliveries.remittance.fees': 'رسوم شركة التوصيل',
+    'deliveries.remittance.fetch_button': 'استيراد من {courier}',
+    'deliveries.remittance.fetch_none': 'لا توجد دفعات جديدة من {courier}.',
+    'deliveries.remittance.carrier_payout': '{reference} · {date} · {count} طرد(ات) · {amount}',
+    'deliveries.remittance.unmatched': '{count} طرد(ات) في هذه الدفعة غير منتظرة الدفع هنا.',
+    'deliveries.remittance.history_title': 'دفعات شركات التوصيل',
+    'deliveries.remittance.delete': 'حذف الدفعة',
+    'deliveries.remittance.delete_confirm': 'حذف هذه الدفعة؟ ستعود طلباتها بانتظار الدفع.',
+    'deliveries.remittance.error.no_courier': 'اختر شركة التوصيل.',
+    'deliveries.remittance.error.no_orders': 'حدد طلبًا واحدًا على الأقل.',
+    'deliveries.remittance.error.invalid_amount': 'يجب أن يكون المبلغ المستلم رقمًا موجبًا.',
+    'deliveries.remittance.error.amount_too_high': 'المبلغ المستلم أكبر مما حصّلته هذه الطلبات ({amount}).',
+    'deliveries.remittance.error.fetch_failed': 'تعذر جلب دفعات {courier}: {message}',
 
     // Settings Page
     'settings.theme_title': 'المظهر',
     'settings.theme_select': 'اختر مظهرًا',
     'settings.language_title': 'اللغة',
     'settings.language_select': 'اختر لغة',
+    'settings.currency_title': 'العملة',
+    'settings.currency_select': 'عملة المتجر',
+    'settings.currency_hint': 'تُعرض كل المبالغ بهذه العملة. المبالغ المسجلة مسبقًا لا يتم تحويلها.',
+    'settings.costing_title': 'طريقة حساب التكلفة',
+    'settings.costing_select': 'تكلفة الوحدات المباعة',
+    'settings.costing.fifo': 'الوارد أولًا يصرف أولًا (FIFO)',
+    'settings.costing.average': 'متوسط التكلفة المرجح',
+    'settings.costing_hint': 'كل استلام يدخل المخزون كدفعة بتكلفتها الخاصة. تُحسب هوامش المبيعات وقيمة المخزون من هذه الدفعات. المبيعات المسجلة مسبقًا تحتفظ بهامشها.',
     'settings.session_title': 'الجلسة',
     'settings.logout_button': 'تسجيل الخروج',
     'settings.tabs.general': 'عام',
@@ -959,6 +2312,14 @@ export const translations: Record<Language, Record<string, string>> = {
     'settings.gemini.description': "أضف مفتاح Google Gemini API الخاص بك لتمكين ميزات الذكاء الاصطناعي (إنشاء الوصف، الرؤى، إلخ).",
     'settings.gemini.key_label': 'مفتاح Gemini API',
     'settings.gemini.save_button': 'حفظ مفتاح API',
+    'settings.mock_courier.title': 'شركة توصيل تجريبية',
+    'settings.mock_courier.description': 'الطرود المحجوزة لدى "{courier}" تبقى في هذا المتصفح. حرّكها من هنا لتجربة التتبع والتحصيل دون حساب لدى شركة توصيل حقيقية.',
+    'settings.mock_courier.empty': 'لا توجد طرود محجوزة بعد.',
+    'settings.mock_courier.paid_over': 'تم الدفع',
+    'settings.mock_courier.remit_button': 'دفع المبالغ المحصلة',
+    'settings.mock_courier.remitted': 'تم دفع {count} طرد(ود)، {amount} بعد الرسوم.',
+    'settings.mock_courier.nothing_to_remit': 'لا توجد طرود مسلّمة للدفع.',
+    'settings.mock_courier.clear_button': 'مسح الكل',
     'settings.gemini.saved_message': 'تم حفظ مفتاح Gemini API. سيتم إعادة تحميل التطبيق.',
     'settings.setup.title': 'مساعد إعداد Supabase',
     'settings.setup.description': "اتبع هذه الخطوات لإعداد قاعدة البيانات الخاصة بك للتطبيق.",
@@ -992,7 +2353,7 @@ export const translations: Record<Language, Record<string, string>> = {
     'search.products': 'المنتجات',
     'search.sales': 'المبيعات',
     'search.history': 'السجل',
-    'search.sale_details': 'الكمية: {quantity}، الإجمالي: {price} د.ج',
+    'search.sale_details': 'الكمية: {quantity}، الإجمالي: {price}',
     
     // Visual Search
     'visual_search.title': 'البحث بالصورة',
@@ -1014,6 +2375,14 @@ export const translations: Record<Language, Record<string, string>> = {
     'visual_search.attributes': "السمات المحددة",
     'visual_search.matching_products': "المنتجات المطابقة في مخزونك",
     'visual_search.add_as_new': "إضافة كمنتج جديد",
+    'visual_search.scan_code_button': 'الرمز الشريطي',
+    'visual_search.reading_code': 'ضع الرمز الشريطي داخل الإطار',
+    'visual_search.code_found': 'الرمز {code}',
+    'visual_search.code_unknown': 'لا يوجد منتج يطابق الرمز {code}.',
+    'visual_search.add_with_code': 'إنشاء بهذا الرمز',
+    'visual_search.count_one': 'عدّ +1',
+    'visual_search.counted_so_far': 'المعدود حتى الآن: {count}',
+    'visual_search.error.barcode_failed': 'تعذرت قراءة الرموز الشريطية. تحقق من اتصالك وحاول مرة أخرى.',
     
     // AI Assistant
     'ai_assistant.title': 'مساعد الذكاء الاصطناعي',
@@ -1037,6 +2406,8 @@ export const translations: Record<Language, Record<string, string>> = {
     'error.fetch_data': 'خطأ في جلب البيانات: {error}',
     'error.bucket_not_found': "حاوية التخزين 'product-images' غير موجودة. يرجى تشغيل سكربت SQL من الإعدادات لإنشائها.",
     'error.schema_mismatch': "يبدو أن جداول قاعدة البيانات ('products', 'sales', 'activity_log') مفقودة أو غير مهيأة. يرجى تشغيل سكربت SQL من الإعدادات لإنشائها/تحديثها.",
+    'error.stale_product': 'تم تعديل "{productName}" على جهاز آخر. لم يتم حفظ تغييراتك: تم تحميل أحدث نسخة، يرجى المحاولة مرة أخرى.',
+    'error.product_deleted_elsewhere': 'تم حذف "{productName}" على جهاز آخر.',
     
     // Log details
     'log.name': 'الاسم',
@@ -1046,6 +2417,486 @@ export const translations: Record<Language, Record<string, string>> = {
     'log.buyPrice': 'سعر الشراء',
     'log.sellPrice': 'سعر البيع',
     'log.stock': 'المخزون',
+    'log.sku': 'SKU',
+    'log.barcode': 'الرمز الشريطي',
+    'log.taxRate': 'نسبة الرسم على القيمة المضافة',
+
+    // Offline Sync
+    'offline.pending_sync': 'في انتظار المزامنة',
+    'offline.sync_conflicts': 'رفض الخادم بعض التغييرات التي تمت دون اتصال ولم يتم تطبيقها:\n{details}',
+    'offline.operation.products.create': 'إنشاء منتج',
+    'offline.operation.products.update': 'تعديل منتج',
+    'offline.operation.products.remove': 'حذف منتج',
+    'offline.operation.products.removeMany': 'حذف جماعي',
+    'offline.operation.products.saveVariants': 'تعديل المتغيرات',
+    'offline.operation.sales.record': 'بيع',
+    'offline.operation.sales.cancel': 'إلغاء بيع',
+    'offline.operation.sales.checkout': 'طلب',
+    'offline.operation.sales.cancelOrder': 'إلغاء طلب',
+    'offline.operation.activityLog.create': 'سجل النشاط',
+    'offline.operation.customers.create': 'إنشاء عميل',
+    'offline.operation.customers.update': 'تعديل عميل',
+    'offline.operation.customers.remove': 'حذف عميل',
+    'offline.operation.saleReturns.create': 'إرجاع',
+    'offline.operation.stockMovements.create': 'حركة مخزون',
+    'offline.operation.priceChanges.create': 'تغيير سعر',
+    'offline.operation.deliveries.create': 'إرسال للتوصيل',
+    'offline.operation.deliveries.update': 'تعديل توصيل',
+    'offline.operation.deliveries.confirm': 'بيع توصيل',
+    'offline.operation.deliveries.cancel': 'إلغاء توصيل',
+
+    // Variants
+    'sale_modal.variant_label': 'المتغير',
+    'sale_modal.unit_price_label': 'سعر الوحدة',
+    'sale_modal.discount_label': 'الخصم',
+    'sale_modal.discount_kind_label': 'نوع الخصم',
+    'sale_modal.total': 'المجموع',
+    'sale_modal.error.invalid_price': 'لا يمكن أن يكون سعر الوحدة سالبًا.',
+    'sale_modal.error.invalid_discount': 'لا يمكن أن يكون الخصم سالبًا أو أكبر من المبلغ.',
+
+    // Purchases
+    'purchases.title': 'أوامر الشراء',
+    'purchases.new_button': 'طلب جديد',
+    'purchases.empty.title': 'لا توجد أوامر شراء',
+    'purchases.empty.subtitle': 'أنشئ أمر شراء لمتابعة ما تنتظره من الموردين.',
+    'purchases.status.draft': 'مسودة',
+    'purchases.status.ordered': 'تم الطلب',
+    'purchases.status.partially_received': 'مستلم جزئياً',
+    'purchases.status.received': 'مستلم',
+    'purchases.created_on': 'أُنشئ في {date}',
+    'purchases.ordered_on': 'طُلب في {date}',
+    'purchases.total': 'المجموع',
+    'purchases.landed_total': 'أي {amount} بسعر 1 {currency} = {rate} {shopCurrency}',
+    'purchases.edit': 'تعديل',
+    'purchases.mark_ordered': 'تحديد كمطلوب',
+    'purchases.receive': 'استلام البضاعة',
+    'purchases.add_landed_cost': 'توزيع تكاليف الاستيراد',
+    'purchases.table.product': 'المنتج',
+    'purchases.table.quantity': 'المطلوب',
+    'purchases.table.received': 'المستلم',
+    'purchases.table.unit_cost': 'تكلفة الوحدة',
+    'purchases.table.total': 'المجموع',
+    'purchases.confirm_order_title': 'إرسال الطلب؟',
+    'purchases.confirm_order': 'لا يمكن تعديل الطلب بعد إرساله. ستتمكن بعد ذلك من استلام البضاعة.',
+    'purchases.confirm_delete_title': 'حذف المسودة؟',
+    'purchases.confirm_delete': 'سيتم حذف أمر الشراء هذا نهائياً.',
+    'purchases.form.title_new': 'أمر شراء جديد',
+    'purchases.form.title_edit': 'تعديل أمر الشراء',
+    'purchases.form.supplier_label': 'المورد',
+    'purchases.form.reference_label': 'المرجع',
+    'purchases.form.notes_label': 'ملاحظات',
+    'purchases.form.currency_label': 'عملة الطلب',
+    'purchases.form.exchange_rate_label': 'سعر الصرف ({shopCurrency} مقابل 1 {currency})',
+    'purchases.form.currency_hint': 'تُدخل التكاليف بعملة المورد وتُحوَّل إلى أسعار شراء عند الاستلام.',
+    'purchases.form.lines_label': 'العناصر',
+    'purchases.form.add_line': 'إضافة عنصر',
+    'purchases.form.product_placeholder': 'اختر منتجاً',
+    'purchases.form.error.supplier_required': 'المورد مطلوب.',
+    'purchases.form.error.no_lines': 'أضف عنصراً واحداً على الأقل.',
+    'purchases.form.error.invalid_line': 'يجب أن يكون لكل عنصر منتج وكمية لا تقل عن 1 وتكلفة موجبة.',
+    'purchases.form.error.invalid_rate': 'أدخل سعر صرف أكبر من 0.',
+    'purchases.receive_modal.title': 'استلام البضاعة',
+    'purchases.receive_modal.buy_price': 'سعر الشراء: {amount}',
+    'purchases.receive_modal.remaining': 'المنتظر',
+    'purchases.receive_modal.quantity_label': 'المستلم',
+    'purchases.receive_modal.lot': 'الدفعة',
+    'purchases.receive_modal.lot_number': 'رقم الدفعة',
+    'purchases.receive_modal.expires_at': 'تاريخ انتهاء الصلاحية',
+    'purchases.receive_modal.confirm_button': 'إضافة إلى المخزون',
+    'purchases.receive_modal.error.too_many': 'لا يزال {remaining} وحدة فقط من {productName} منتظرة.',
+    'purchases.receive_modal.error.nothing': 'أدخل الكمية المستلمة لعنصر واحد على الأقل.',
+
+    // Suppliers
+    'suppliers.title': 'الموردون',
+    'suppliers.new_button': 'مورد جديد',
+    'suppliers.empty.title': 'لا يوجد موردون',
+    'suppliers.empty.subtitle': 'يظهر هنا الموردون المدخلون في منتجاتك. يمكنك أيضاً إضافة مورد.',
+    'suppliers.edit': 'تعديل',
+    'suppliers.lead_time_value': '{days} يوم',
+    'suppliers.table.name': 'المورد',
+    'suppliers.table.contact': 'جهة الاتصال',
+    'suppliers.table.lead_time': 'مدة التوريد',
+    'suppliers.table.products': 'المنتجات',
+    'suppliers.table.stock_value': 'قيمة المخزون',
+    'suppliers.table.spend': 'المشتريات المستلمة',
+    'suppliers.table.revenue': 'المبيعات',
+    'suppliers.table.margin': 'الهامش',
+    'suppliers.table.actions': 'الإجراءات',
+    'suppliers.confirm_delete_title': 'حذف المورد؟',
+    'suppliers.confirm_delete': 'سيتم حذف {name}. تحتفظ منتجاته وطلباته باسمه.',
+    'suppliers.form.title_new': 'مورد جديد',
+    'suppliers.form.title_edit': 'تعديل المورد',
+    'suppliers.form.name_label': 'الاسم',
+    'suppliers.form.contactName_label': 'الشخص المسؤول',
+    'suppliers.form.phone_label': 'الهاتف',
+    'suppliers.form.email_label': 'البريد الإلكتروني',
+    'suppliers.form.address_label': 'العنوان',
+    'suppliers.form.leadTimeDays_label': 'مدة التوريد (أيام)',
+    'suppliers.form.paymentTerms_label': 'شروط الدفع',
+    'suppliers.form.notes_label': 'ملاحظات',
+    'suppliers.form.rename_hint': 'سيُطبق الاسم الجديد أيضاً على منتجاته وطلباته.',
+    'suppliers.form.error.name_required': 'الاسم مطلوب.',
+    'suppliers.form.error.invalid_lead_time': 'يجب أن تكون مدة التوريد عدداً موجباً من الأيام.',
+
+    // Customers
+    'customers.title': 'العملاء',
+    'customers.new_button': 'عميل جديد',
+    'customers.search_placeholder': 'الاسم أو الهاتف...',
+    'customers.no_results': 'لا يوجد عميل يطابق بحثك.',
+    'customers.view': 'عرض التفاصيل',
+    'customers.edit': 'تعديل العميل',
+    'customers.empty.title': 'لا يوجد عملاء',
+    'customers.empty.subtitle': 'سجّل عملاءك لمتابعة مشترياتهم وتوصيلاتهم.',
+    'customers.table.name': 'الاسم',
+    'customers.table.phone': 'الهاتف',
+    'customers.table.wilaya': 'الولاية',
+    'customers.table.purchases': 'المشتريات',
+    'customers.table.lifetime_value': 'إجمالي الإنفاق',
+    'customers.table.last_purchase': 'آخر شراء',
+    'customers.table.outstanding': 'قيد التوصيل',
+    'customers.table.actions': 'الإجراءات',
+    'customers.confirm_delete_title': 'حذف العميل',
+    'customers.confirm_delete': 'حذف {name}؟ تبقى مبيعاته وتوصيلاته دون ربطها بالعميل.',
+    'customers.form.title_new': 'عميل جديد',
+    'customers.form.title_edit': 'تعديل العميل',
+    'customers.form.name_label': 'الاسم',
+    'customers.form.phone_label': 'الهاتف',
+    'customers.form.wilaya_label': 'الولاية',
+    'customers.form.address_label': 'العنوان',
+    'customers.form.notes_label': 'ملاحظات',
+    'customers.form.error.name_required': 'اسم العميل مطلوب.',
+    'customers.picker.label': 'العميل (اختياري)',
+    'customers.picker.placeholder': 'ابحث بالاسم أو الهاتف',
+    'customers.picker.clear': 'إزالة العميل',
+    'customers.picker.new': 'عميل جديد «{query}»',
+    'customers.picker.create_button': 'إضافة',
+    'customers.details.lifetime_value': 'إجمالي الإنفاق',
+    'customers.details.purchase_count': 'المشتريات',
+    'customers.details.last_purchase': 'آخر شراء',
+    'customers.details.outstanding_value': 'قيد التوصيل',
+    'customers.details.outstanding_deliveries': 'التوصيلات الجارية',
+    'customers.details.no_outstanding': 'لا توجد توصيلات جارية.',
+    'customers.details.purchase_history': 'سجل المشتريات',
+    'customers.details.no_purchases': 'لا توجد مشتريات مسجلة.',
+
+    // Checkout
+    'checkout.title': 'بيع جديد',
+    'checkout.search_placeholder': 'اسم المنتج أو SKU أو الباركود...',
+    'checkout.no_results': 'لم يتم العثور على منتجات',
+    'checkout.in_stock': '{stock} في المخزون',
+    'checkout.empty_cart': 'ابحث عن المنتجات أو امسحها ضوئيًا لإضافتها إلى البيع.',
+    'checkout.remove_line': 'إزالة',
+    'checkout.discount_label': 'خصم على الطلب ({currency})',
+    'checkout.subtotal': 'المجموع الفرعي',
+    'checkout.discount': 'الخصم',
+    'checkout.total': 'المجموع',
+    'checkout.confirm_button': 'إتمام البيع',
+    'checkout.error.discount_too_high': 'لا يمكن أن يتجاوز الخصم المجموع الفرعي.',
+
+    // Returns
+    'returns.title': 'تسجيل إرجاع',
+    'returns.return_button': 'إرجاع',
+    'returns.chip': '{quantity} مُرجَع',
+    'returns.returnable': 'الوحدات القابلة للإرجاع',
+    'returns.reason_label': 'السبب',
+    'returns.reason.changed_mind': 'غيّر العميل رأيه',
+    'returns.reason.defective': 'معيب',
+    'returns.reason.damaged': 'تالف',
+    'returns.reason.wrong_item': 'منتج خاطئ',
+    'returns.reason.other': 'آخر',
+    'returns.outcome_label': 'ماذا يحدث للوحدات؟',
+    'returns.restock': 'إعادة إلى المخزون',
+    'returns.write_off': 'شطب',
+    'returns.product_deleted': 'تم حذف المنتج، لذا لا يمكن إعادة الوحدات إلى المخزون.',
+    'returns.refund_label': 'المبلغ المسترد ({currency})',
+    'returns.notes_label': 'ملاحظات (اختياري)',
+    'returns.confirm_button': 'تسجيل الإرجاع',
+    'returns.error.quantity': 'يمكن إرجاع ما بين 1 و {remaining} وحدة(ات).',
+    'returns.error.refund': 'لا يمكن أن يتجاوز المبلغ المسترد {amount}.',
+
+    // Stock Movements
+    'stock_movements.title': 'حركات المخزون',
+    'stock_movements.action': 'سجل المخزون',
+    'stock_movements.empty': 'لا توجد حركات مخزون لهذا المنتج بعد.',
+    'stock_movements.unrecorded': 'مخزون غير مسجل (قبل بدء السجل)',
+    'stock_movements.current_stock': 'المخزون الحالي',
+    'stock_movements.reason_label': 'سبب تغيير المخزون',
+    'stock_movements.reason.sale': 'بيع',
+    'stock_movements.reason.return': 'إرجاع',
+    'stock_movements.reason.delivery': 'توصيل',
+    'stock_movements.reason.delivery_split': 'توصيل',
+    'stock_movements.reason.loss': 'فقدان',
+    'stock_movements.reason.damage': 'تلف',
+    'stock_movements.reason.count_correction': 'تصحيح الجرد',
+    'stock_movements.reason.receipt': 'استلام',
+    'stock_movements.table.date': 'التاريخ',
+    'stock_movements.table.reason': 'السبب',
+    'stock_movements.table.quantity': 'الكمية',
+    'stock_movements.table.balance': 'الرصيد',
+    'stock_movements.note.initial_stock': 'المخزون الأولي',
+    'stock_movements.note.sale_cancelled': 'بيع ملغى',
+    'stock_movements.note.delivery_cancelled': 'توصيل ملغى',
+
+    // Inventory Counts
+    'inventory_counts.title': 'الجرد',
+    'inventory_counts.new_button': 'جرد جديد',
+    'inventory_counts.empty.title': 'لا يوجد جرد',
+    'inventory_counts.empty.subtitle': 'ابدأ جردًا لمقارنة ما على الرفوف بالمخزون المسجل.',
+    'inventory_counts.whole_shop': 'المتجر بالكامل',
+    'inventory_counts.status.in_progress': 'قيد الإنجاز',
+    'inventory_counts.status.posted': 'مُعتمد',
+    'inventory_counts.started_on': 'بدأ في {date}',
+    'inventory_counts.posted_on': 'اعتُمد في {date}',
+    'inventory_counts.progress': 'تم عدّ {counted} / {total}',
+    'inventory_counts.mismatched_lines': '{count} فرق',
+    'inventory_counts.back': 'العودة إلى الجرد',
+    'inventory_counts.scan_button': 'مسح',
+    'inventory_counts.post_button': 'اعتماد الفروقات',
+    'inventory_counts.summary.counted': 'الأسطر المعدودة',
+    'inventory_counts.summary.mismatched': 'الفروقات',
+    'inventory_counts.summary.over_short': 'وحدات زائدة / ناقصة',
+    'inventory_counts.summary.value': 'قيمة الفرق (بسعر التكلفة)',
+    'inventory_counts.search_placeholder': 'ابحث عن منتج...',
+    'inventory_counts.filter.all': 'كل الأسطر',
+    'inventory_counts.filter.uncounted': 'غير معدودة',
+    'inventory_counts.filter.mismatched': 'بها فرق',
+    'inventory_counts.table.product': 'المنتج',
+    'inventory_counts.table.on_record': 'المسجل',
+    'inventory_counts.table.counted': 'المعدود',
+    'inventory_counts.table.variance': 'الفرق',
+    'inventory_counts.no_lines': 'لا توجد أسطر لعرضها.',
+    'inventory_counts.confirm_post_title': 'اعتماد الجرد',
+    'inventory_counts.confirm_post': 'تم عدّ {counted} من أصل {total} سطر. سيتم تصحيح المخزون في {mismatched} سطر (+{over} / -{short} وحدة، {value}). الأسطر غير المعدودة تبقى كما هي.',
+    'inventory_counts.confirm_delete_title': 'حذف الجرد',
+    'inventory_counts.confirm_delete': 'حذف هذا الجرد قيد الإنجاز؟ ستُفقد الكميات المعدودة حتى الآن.',
+    'inventory_counts.form.title': 'جرد جديد',
+    'inventory_counts.form.category_label': 'الفئة',
+    'inventory_counts.form.all_categories': 'كل الفئات',
+    'inventory_counts.form.supplier_label': 'المورد',
+    'inventory_counts.form.all_suppliers': 'كل الموردين',
+    'inventory_counts.form.nothing_to_count': 'لا يوجد منتج في المخزون يطابق هذا الاختيار.',
+    'inventory_counts.form.line_count': '{count} سطر للعدّ.',
+    'inventory_counts.form.start_button': 'ابدأ',
+
+    // Stock Locations
+    'locations.title': 'المواقع',
+    'locations.new_button': 'موقع جديد',
+    'locations.edit': 'تعديل الموقع',
+    'locations.empty.title': 'موقع واحد: المتجر',
+    'locations.empty.subtitle': 'أضف مستودعًا أو موزعًا لتتبع مكان مخزونك ونقله بينها.',
+    'locations.main_shop': 'المتجر الرئيسي',
+    'locations.in_transit': 'قيد النقل',
+    'locations.units_here': '{count} هنا',
+    'locations.kind.shop': 'متجر',
+    'locations.kind.warehouse': 'مستودع',
+    'locations.kind.courier': 'موزع',
+    'locations.filter.label': 'الموقع',
+    'locations.filter.all': 'كل المواقع',
+    'locations.table.name': 'الاسم',
+    'locations.table.kind': 'النوع',
+    'locations.table.units': 'الوحدات',
+    'locations.table.stock_value': 'القيمة (الشراء)',
+    'locations.table.retail_value': 'القيمة (البيع)',
+    'locations.table.actions': 'الإجراءات',
+    'locations.confirm_delete_title': 'حذف الموقع',
+    'locations.confirm_delete': 'حذف {name}؟ سيُحذف سجل تحويلاته أيضًا.',
+    'locations.error.not_empty': 'لا يزال هذا الموقع يحتوي على مخزون أو ينتظر تحويلًا. انقل هذه الوحدات أو استلمها قبل حذفه.',
+    'locations.form.title_new': 'موقع جديد',
+    'locations.form.title_edit': 'تعديل الموقع',
+    'locations.form.name_label': 'الاسم',
+    'locations.form.kind_label': 'النوع',
+    'locations.form.notes_label': 'ملاحظات',
+    'locations.form.error.name_required': 'الاسم مطلوب.',
+    'locations.transfer.action': 'تحويل',
+    'locations.transfer.new_button': 'تحويل جديد',
+    'locations.transfer.title': 'تحويل المخزون',
+    'locations.transfer.product_label': 'المنتج',
+    'locations.transfer.select_product': 'اختر منتجًا',
+    'locations.transfer.variant_label': 'المتغير',
+    'locations.transfer.select_variant': 'اختر متغيرًا',
+    'locations.transfer.from_label': 'من',
+    'locations.transfer.to_label': 'إلى',
+    'locations.transfer.quantity_label': 'الكمية',
+    'locations.transfer.available': '{count} متاحة في المصدر',
+    'locations.transfer.notes_label': 'ملاحظات',
+    'locations.transfer.send_button': 'إرسال',
+    'locations.transfer.error.product_required': 'اختر منتجًا ومتغيره إن وُجد.',
+    'locations.transfer.error.same_location': 'يجب أن يختلف المصدر عن الوجهة.',
+    'locations.transfer.error.invalid_quantity': 'يجب أن تكون الكمية 1 على الأقل.',
+    'locations.transfer.error.not_enough': '{count} وحدة فقط متاحة في المصدر.',
+    'locations.transfers.in_transit_title': 'تحويلات قيد النقل',
+    'locations.transfers.none_in_transit': 'لا توجد تحويلات قيد النقل.',
+    'locations.transfers.history_title': 'التحويلات المستلمة',
+    'locations.transfers.date': 'التاريخ',
+    'locations.transfers.product': 'المنتج',
+    'locations.transfers.route': 'المسار',
+    'locations.transfers.quantity': 'الكمية',
+    'locations.transfers.receive': 'استلام',
+    'locations.transfers.cancel': 'إلغاء التحويل',
+    'locations.transfers.confirm_cancel_title': 'إلغاء التحويل',
+    'locations.transfers.confirm_cancel': 'ستعود الوحدات الـ {quantity} إلى {name}.',
+
+    // Payment Methods
+    'payments.label': 'الدفع',
+    'payments.method.cash': 'نقدًا',
+    'payments.method.card': 'بطاقة',
+    'payments.method.transfer': 'CCP/بريدي موب',
+    'payments.method.cod': 'الدفع عند الاستلام',
+    'payments.method.store_credit': 'رصيد المتجر',
+    'payments.split': 'تقسيم بين عدة طرق',
+    'payments.add_method': 'إضافة طريقة',
+    'payments.amount_label': 'المبلغ',
+    'payments.remove': 'إزالة',
+    'payments.remaining': 'المتبقي للتقسيم: {amount}',
+    'payments.error.invalid_amount': 'يجب أن يكون لكل دفعة مبلغ غير سالب.',
+    'payments.error.mismatch': 'يجب أن يساوي مجموع الدفعات الإجمالي.',
+    'payments.error.store_credit_customer': 'اختر العميل الذي يُستخدم رصيده.',
+    'payments.filter.label': 'طريقة الدفع',
+    'payments.filter.all': 'كل الطرق',
+    'statistics.revenue_by_payment_method': 'الإيرادات حسب طريقة الدفع',
+    'statistics.no_payment_methods': 'لا توجد دفعات مسجلة في هذه الفترة.',
+
+    // Promotions
+    'promotions.title': 'العروض',
+    'promotions.new_button': 'عرض جديد',
+    'promotions.edit': 'تعديل العرض',
+    'promotions.per_unit': '{amount} للوحدة',
+    'promotions.empty.title': 'لا توجد عروض',
+    'promotions.empty.subtitle': 'برمج خصمًا على منتج أو فئة أو المتجر كله؛ يطبق تلقائيًا على المبيعات طوال مدته.',
+    'promotions.table.name': 'الاسم',
+    'promotions.table.discount': 'الخصم',
+    'promotions.table.applies_to': 'ينطبق على',
+    'promotions.table.period': 'المدة',
+    'promotions.table.sales': 'المبيعات',
+    'promotions.table.actions': 'الإجراءات',
+    'promotions.status.scheduled': 'مبرمج',
+    'promotions.status.running': 'جارٍ',
+    'promotions.status.ended': 'منتهٍ',
+    'promotions.scope.all': 'كل المنتجات',
+    'promotions.scope.category': 'فئة',
+    'promotions.scope.product': 'منتج',
+    'promotions.scope.deleted_product': 'منتج محذوف',
+    'promotions.kind.percent': 'نسبة مئوية',
+    'promotions.kind.fixed': 'مبلغ ثابت ({currency})',
+    'promotions.form.title_new': 'عرض جديد',
+    'promotions.form.title_edit': 'تعديل العرض',
+    'promotions.form.name_label': 'الاسم',
+    'promotions.form.name_placeholder': 'مثال: تخفيضات الصيف',
+    'promotions.form.kind_label': 'النوع',
+    'promotions.form.value_label': 'القيمة',
+    'promotions.form.scope_label': 'ينطبق على',
+    'promotions.form.start_label': 'من',
+    'promotions.form.end_label': 'إلى',
+    'promotions.form.error.name_required': 'أعط العرض اسمًا.',
+    'promotions.form.error.invalid_value': 'يجب أن يكون الخصم أكبر من صفر، و100% على الأكثر.',
+    'promotions.form.error.invalid_dates': 'لا يمكن أن ينتهي العرض قبل أن يبدأ.',
+    'promotions.confirm_delete_title': 'حذف العرض',
+    'promotions.confirm_delete': 'حذف «{name}»؟ تحتفظ المبيعات التي خفضها بسعرها.',
+
+    // Taxes (TVA)
+    'taxes.included': 'منها الرسم ({rate}%)',
+    'taxes.included_total': 'منها الرسم على القيمة المضافة',
+    'taxes.sale_tax': 'منها الرسم {rate}%: {amount}',
+    'taxes.settings.title': 'الرسم على القيمة المضافة حسب الفئة',
+    'taxes.settings.description': 'النسبة المطبقة على منتجات الفئة التي ليست لها نسبة خاصة. اتركها فارغة لعدم تطبيق الرسم.',
+    'taxes.settings.no_categories': 'أضف منتجات لتحديد نسبة فئاتها.',
+    'taxes.settings.rate_label': 'نسبة الرسم لـ {category}',
+    'taxes.error.invalid_rate': 'يجب أن تكون النسبة بين 0 و100%.',
+    'taxes.summary.title': 'ملخص الرسم على القيمة المضافة',
+    'taxes.summary.subtitle': 'الرسم المحصل خلال الفترة حسب النسبة، بعد خصم المبالغ المستردة.',
+    'taxes.summary.empty': 'لا توجد مبيعات خلال الفترة.',
+    'taxes.summary.rate': 'النسبة',
+    'taxes.summary.sales': 'المبيعات',
+    'taxes.summary.net': 'المبلغ دون رسم',
+    'taxes.summary.tax': 'الرسم',
+    'taxes.summary.gross': 'المبلغ مع الرسم',
+    'taxes.summary.total': 'المجموع',
+
+    // Landed costs
+    'landed_costs.title': 'تكاليف الاستيراد',
+    'landed_costs.new_button': 'توزيع المصاريف',
+    'landed_costs.empty.title': 'لا توجد تكاليف استيراد',
+    'landed_costs.empty.subtitle': 'وزّع مصاريف الشحن أو الجمارك أو العبور لشحنة على منتجاتها: يأخذها سعر الشراء بعين الاعتبار، وكذلك هامش المبيعات القادمة.',
+    'landed_costs.applied_on': 'طُبّق في {date}',
+    'landed_costs.total': 'المصاريف: {amount}',
+    'landed_costs.basis.value': 'حسب القيمة',
+    'landed_costs.basis.quantity': 'حسب الكمية',
+    'landed_costs.basis.weight': 'حسب الوزن',
+    'landed_costs.table.product': 'المنتج',
+    'landed_costs.table.quantity': 'الكمية',
+    'landed_costs.table.weight': 'وزن الوحدة (كغ)',
+    'landed_costs.table.unit_cost': 'تكلفة الوحدة',
+    'landed_costs.table.allocated': 'المصاريف الموزعة',
+    'landed_costs.table.landed_unit_cost': 'سعر الشراء الجديد',
+    'landed_costs.form.title': 'توزيع تكاليف الاستيراد',
+    'landed_costs.form.order_label': 'طلب الشراء',
+    'landed_costs.form.order_none': 'لا شيء، اختر المنتجات',
+    'landed_costs.form.reference_label': 'المرجع',
+    'landed_costs.form.reference_placeholder': 'مثال: حاوية مارس',
+    'landed_costs.form.charges_label': 'المصاريف',
+    'landed_costs.form.charge_placeholder': 'مثال: الشحن، الجمارك',
+    'landed_costs.form.charge_amount': 'المبلغ',
+    'landed_costs.form.add_charge': 'إضافة مصروف',
+    'landed_costs.form.basis_label': 'التوزيع',
+    'landed_costs.form.lines_label': 'المنتجات',
+    'landed_costs.form.product_placeholder': 'اختر منتجًا',
+    'landed_costs.form.add_line': 'إضافة منتج',
+    'landed_costs.form.order_hint': 'تؤخذ الكميات المستلمة وتكلفتها من الطلب.',
+    'landed_costs.form.apply_hint': 'سيُستبدل سعر شراء كل منتج بتكلفته الجديدة.',
+    'landed_costs.form.apply_button': 'تطبيق',
+    'landed_costs.form.error.no_charges': 'أضف مصروفًا واحدًا على الأقل لتوزيعه.',
+    'landed_costs.form.error.invalid_charge': 'يجب أن يكون لكل مصروف اسم ومبلغ أكبر من صفر.',
+    'landed_costs.form.error.no_lines': 'أضف منتجًا واحدًا على الأقل.',
+    'landed_costs.form.error.invalid_line': 'يجب أن تكون كمية كل منتج 1 على الأقل، وتكلفته ووزنه غير سالبين.',
+    'landed_costs.form.error.no_basis': 'لا يمكن توزيع المصاريف بهذه الطريقة: أدخل الأوزان أو التكاليف.',
+
+    // Price History
+    'price_history.title': 'سجل الأسعار',
+    'price_history.empty': 'لا توجد تغييرات أسعار مسجلة لهذا المنتج بعد.',
+    'price_history.table.date': 'التاريخ',
+    'price_history.table.change': 'التغيير',
+    'price_history.source.edit': 'تعديل المنتج',
+    'price_history.source.bulk_update': 'تعديل جماعي',
+    'price_history.source.bulk_revert': 'إلغاء تعديل جماعي',
+    'price_history.batch_size': '{count} منتج(ات)',
+    'price_history.revert': 'إلغاء التعديل الجماعي',
+    'price_history.reverted': 'تم إلغاء التعديل الجماعي',
+    'price_history.confirm_revert_title': 'إلغاء التعديل الجماعي؟',
+    'price_history.confirm_revert': 'ستعود أسعار {count} منتج(ات) في هذا التعديل الجماعي إلى ما كانت عليه من قبل.',
+    'price_history.revert_repriced': 'لا يمكن إلغاء هذا التعديل الجماعي: تغيرت أسعار {products} منذ ذلك الحين.',
+    'price_history.revert_error': 'خطأ أثناء الإلغاء: {error}',
+
+    // Stock lots and expiry
+    'stock_lots.title': 'الدفعات',
+    'stock_lots.empty': 'لا توجد دفعات لهذا المنتج.',
+    'stock_lots.untracked': '{count} وحدة خارج الدفعات، بدون تاريخ انتهاء.',
+    'stock_lots.no_expiry': 'بدون تاريخ',
+    'stock_lots.remove': 'إزالة الدفعة',
+    'stock_lots.variant': 'المتغير',
+    'stock_lots.lot_number': 'رقم الدفعة',
+    'stock_lots.add': 'إضافة',
+    'stock_lots.table.lot': 'الدفعة',
+    'stock_lots.table.expires_at': 'انتهاء الصلاحية',
+    'stock_lots.table.quantity': 'الكمية',
+    'expiry.title': 'صلاحية الدفعات',
+    'expiry.empty.title': 'لا توجد دفعات مؤرخة',
+    'expiry.empty.subtitle': 'أضف تاريخ انتهاء الصلاحية عند الاستلام أو من بطاقة المنتج.',
+    'expiry.filter.all': 'الكل',
+    'expiry.filter.expired': 'منتهية',
+    'expiry.filter.expiring': 'تنتهي قريبًا',
+    'expiry.expired_stock': 'مخزون منتهي الصلاحية',
+    'expiry.expiring_stock': 'تنتهي خلال {days} يومًا',
+    'expiry.units': '{count} وحدة',
+    'expiry.days.expired': 'منتهي الصلاحية',
+    'expiry.days.expiring': 'بعد {days} يوم',
+    'expiry.days.ok': 'بعد {days} يوم',
+    'expiry.table.product': 'المنتج',
+    'expiry.table.lot': 'الدفعة',
+    'expiry.table.expires_at': 'انتهاء الصلاحية',
+    'expiry.table.status': 'الحالة',
+    'expiry.table.quantity': 'الكمية',
+    'expiry.table.value': 'القيمة',
+    'expiry.none_matching': 'لا توجد دفعات مطابقة لهذا الفلتر.',
 
   },
 };
\ No newline at end of file
@@ -12,7 +12,7 @@ export interface ChatMessage {
 
 // FIX: Renamed Notification to AppNotification to avoid conflict with the built-in browser Notification API.
 export interface AppNotification {
-  id: number;
+  id: string; // e.g. "product-12", "variant-34" or "lot-5-expiring", so variant and lot alerts can be dismissed on their own
   type: 'warning' | 'error';
   message: string;
 }
@@ -23,18 +23,87 @@ export interface Product {
   name: string;
   description?: string;
   category: string;
-  supplier: string;
+  supplier: string; // The supplier's name, kept in step with the supplier record
+  supplierId?: number; // Set by the backend from the name
   buyPrice: number;
   sellPrice: number;
   stock: number;
-  status: 'actif' | 'rupture' | 'en livraison';
+  status: 'actif' | 'rupture';
   createdAt: string; // ISO string format
+  updatedAt?: string; // ISO string format, used to detect edits made from another device
   imageUrl?: string;
   ownerId?: string;
+  sku?: string;
+  barcode?: string; // EAN-13 / UPC printed on the packaging
+  taxRate?: number; // TVA in percent. Without it the rate of the category applies, or none.
+  priceIncludesTax?: boolean; // The sell prices, the variants' included, are entered with TVA (TTC) rather than without (HT)
+  // When present, stock is the sum of the variants' stock
+  variants?: ProductVariant[];
+  // What the units in stock cost, the variants' included, by the receipt they came in with
+  costLayers?: CostLayer[];
+  // Units with an expiry date or a supplier batch number, the variants' included
+  lots?: StockLot[];
+}
+
+export interface VariantOption {
+  name: string; // e.g. "Taille"
+  value: string; // e.g. "M"
+}
+
+export interface ProductVariant {
+  id: number;
+  productId: number;
+  options: VariantOption[];
+  sku?: string;
+  barcode?: string;
+  buyPrice: number;
+  sellPrice: number;
+  stock: number;
+}
+
+// How a sale's cost is taken from the cost layers: oldest units first, or at the average of all of them
+export type CostingMethod = 'fifo' | 'average';
+
+// Units that came into stock together at the same unit cost. Layers are removed once all their units have left.
+export interface CostLayer {
+  id: number;
+  productId: number;
+  variantId?: number;
+  purchaseOrderId?: number; // When the units were received on a purchase order
+  quantity: number; // Units that came in
+  remaining: number; // Units still in stock
+  unitCost: number;
+  createdAt: string; // ISO string format
+}
+
+// Units of one product or variant that expire together. Lots are consumed soonest expiring first (FEFO) and removed once empty;
+// units in stock beyond the lots are untracked and taken as never expiring.
+export interface StockLot {
+  id: number;
+  productId: number;
+  variantId?: number;
+  lotNumber?: string; // The supplier's batch number
+  expiresAt?: string; // YYYY-MM-DD
+  quantity: number; // Units left
+  purchaseOrderId?: number; // When the units were received on a purchase order
+  createdAt: string; // ISO string format
+}
+
+export type StockLotFormData = Omit<StockLot, 'id' | 'createdAt' | 'purchaseOrderId'>;
+
+export type ExpiryStatus = 'expired' | 'expiring' | 'ok';
+
+export interface ShopSettings {
+  costingMethod: CostingMethod;
 }
 
-export type ProductFormData = Omit<Product, 'id' | 'status' | 'createdAt'> & {
+// Variants without an id are created when the product is saved.
+export type ProductVariantFormData = Omit<ProductVariant, 'id' | 'productId'> & { id?: number };
+
+export type ProductFormData = Omit<Product, 'id' | 'status' | 'createdAt' | 'updatedAt' | 'variants' | 'supplierId' | 'costLayers' | 'lots'> & {
+  variants?: ProductVariantFormData[];
   imageFile?: File | null;
+  stockReason?: StockAdjustmentReason; // Why the stock was edited by hand
 };
 
 
@@ -42,24 +111,442 @@ export interface ActivityLog {
   id: number;
   productId: number;
   productName: string;
-  action: 'created' | 'updated' | 'deleted' | 'sold' | 'sale_cancelled' | 'delivery_set' | 'delivery_cancelled';
+  action: 'created' | 'updated' | 'deleted' | 'sold' | 'sale_cancelled' | 'delivery_set' | 'delivery_cancelled' | 'received' | 'returned' | 'counted' | 'costed';
   details?: string;
   createdAt: string; // ISO string format
   ownerId?: string;
 }
 
+// Transfers are CCP or BaridiMob payments; store credit is credit the shop gave the customer earlier, such as for a return
+export type PaymentMethod = 'cash' | 'card' | 'transfer' | 'cod' | 'store_credit';
+
+export interface SalePayment {
+  method: PaymentMethod;
+  amount: number;
+}
+
+export type DiscountKind = 'percent' | 'fixed';
+
+// Taken off a price: a percentage of it, or an amount in the shop's currency
+export interface Discount {
+  kind: DiscountKind;
+  value: number;
+}
+
+// How the price of a sale was set at the till. A unit price replaces the list or promotional price,
+// and the discount is then taken off the line's amount.
+export interface SalePricing {
+  unitPrice?: number;
+  discount?: Discount;
+}
+
+// A sale whose cash a courier collected on delivery awaits the courier paying it over
+export type SalePaymentStatus = 'paid' | 'awaiting_cod';
+
 export interface Sale {
   id: number;
   productId: number;
   productName: string;
+  variantId?: number;
+  variantName?: string;
+  customerId?: number;
+  orderId?: number; // Set when the sale is a line of a multi-product order
   quantity: number;
-  sellPrice: number;
-  totalPrice: number;
-  totalMargin: number;
+  listPrice: number; // The product's own price when it was sold, before any promotion or negotiated price
+  sellPrice: number; // The unit price charged
+  promotionId?: number; // The promotion that set the unit price
+  discount?: number; // The sale's own discount, taken off the line's amount at its prices, before TVA when they exclude it
+  orderDiscount?: number; // Its share of the order discount, taken off the gross total, the TVA and the margin
+  totalPrice: number; // Gross: what the customer paid, TVA included
+  totalMargin: number; // Taken on the net amount, the TVA being owed to the state
+  taxRate: number; // The TVA rate of the product when it was sold
+  netAmount: number; // The total without TVA
+  taxAmount: number; // The TVA in the total
+  payments: SalePayment[]; // How the total was paid, split between methods. Empty on sales made before methods were recorded.
+  paymentStatus: SalePaymentStatus;
+  remittanceId?: number; // The courier payout that settled it
+  createdAt: string; // ISO string format
+  ownerId?: string;
+}
+
+export type ReturnReason = 'changed_mind' | 'defective' | 'damaged' | 'wrong_item' | 'other';
+
+// Units of a sale brought back. Unlike a cancellation the sale stays, and the return is netted out of the totals.
+export interface SaleReturn {
+  id: number;
+  saleId: number;
+  productId: number;
+  productName: string;
+  variantId?: number;
+  variantName?: string;
+  quantity: number;
+  reason: ReturnReason;
+  notes?: string;
+  restock: boolean; // Otherwise the units are written off
+  refundAmount: number;
+  taxAmount: number; // The TVA part of the refund, in proportion to that of the sale
+  unitCost: number; // What each unit cost when it was sold
+  createdAt: string; // ISO string format
+  ownerId?: string;
+}
+
+export type SaleReturnFormData = Pick<SaleReturn, 'quantity' | 'reason' | 'notes' | 'restock' | 'refundAmount'>;
+
+// delivery_split is kept for the movements of the time deliveries were product rows of their own
+export type StockMovementReason = 'sale' | 'return' | 'delivery' | 'delivery_split' | 'loss' | 'damage' | 'count_correction' | 'receipt';
+
+// The reasons that can be given when the stock is edited by hand
+export type StockAdjustmentReason = Extract<StockMovementReason, 'loss' | 'damage' | 'count_correction' | 'receipt'>;
+
+// One change to the stock of a product, or of one of its variants. Together they explain its current stock.
+export interface StockMovement {
+  id: number;
+  productId: number;
+  productName: string;
+  variantId?: number;
+  variantName?: string;
+  quantity: number; // Positive when units came in, negative when they went out
+  reason: StockMovementReason;
+  referenceId?: number; // The sale, return, purchase order or delivery behind the movement
+  notes?: string;
+  createdAt: string; // ISO string format
+  ownerId?: string; // The user who made the change
+}
+
+// Where a price change came from: the product's own form, a bulk edit, or the revert of a bulk edit
+export type PriceChangeSource = 'edit' | 'bulk_update' | 'bulk_revert';
+
+// The buy and sell price of a product before and after one change. Together they make its price history.
+export interface PriceChange {
+  id: number;
+  productId: number;
+  productName: string;
+  oldBuyPrice: number;
+  newBuyPrice: number;
+  oldSellPrice: number;
+  newSellPrice: number;
+  source: PriceChangeSource;
+  batchId?: string; // Shared by the changes of one bulk edit and by those of its revert
+  bulkUpdate?: Pick<BulkUpdatePayload, 'buyPrice' | 'sellPrice'>; // What the bulk edit asked for
+  createdAt: string; // ISO string format
+  ownerId?: string; // The user who made the change
+}
+
+export interface CheckoutLine {
+  productId: number;
+  variantId?: number;
+  quantity: number;
+}
+
+// A cart sold in one go. The discount is an amount taken off the order as a whole.
+export interface CheckoutData {
+  lines: CheckoutLine[];
+  discount: number;
+  payments?: SalePayment[]; // Cash for the whole total when not given
+  customerId?: number;
+}
+
+// Takes a discount off every unit sold between two dates, of one product, of a category, or of everything.
+// A fixed discount is an amount off each unit. When several apply the lowest price wins.
+export interface Promotion {
+  id: number;
+  name: string;
+  kind: DiscountKind;
+  value: number;
+  productId?: number;
+  category?: string;
+  startsAt: string; // ISO string format
+  endsAt: string; // ISO string format
+  createdAt: string; // ISO string format
+  ownerId?: string;
+}
+
+export type PromotionFormData = Omit<Promotion, 'id' | 'createdAt' | 'ownerId'>;
+
+// The TVA rate of the products of a category that have none of their own
+export interface TaxRate {
+  id: number;
+  category: string;
+  rate: number; // In percent
+  createdAt: string; // ISO string format
+  ownerId?: string;
+}
+
+// How the extra costs of a shipment are shared between its units: in proportion to what they cost, one share each, or by weight
+export type LandedCostBasis = 'value' | 'quantity' | 'weight';
+
+// Freight, customs duties, transit fees... paid on top of the goods themselves
+export interface LandedCostCharge {
+  label: string;
+  amount: number;
+}
+
+// The units of one product, or one variant of a product with variants, that took a share of the extra costs
+export interface LandedCostLine {
+  productId: number; // The product may have been deleted since
+  variantId?: number;
+  productName: string;
+  variantName?: string;
+  quantity: number;
+  unitCost: number; // What a unit cost before the extra costs
+  weight?: number; // Of one unit, in kg
+  allocated: number; // The share of the extra costs these units took
+  landedUnitCost: number; // unitCost plus its share, which became the buy price
+}
+
+export interface LandedCost {
+  id: number;
+  purchaseOrderId?: number;
+  reference?: string; // e.g. the customs declaration or the forwarder's invoice
+  basis: LandedCostBasis;
+  charges: LandedCostCharge[];
+  total: number; // Of the charges
+  lines: LandedCostLine[];
+  createdAt: string; // ISO string format
+  ownerId?: string;
+}
+
+export interface LandedCostFormData {
+  purchaseOrderId?: number;
+  reference?: string;
+  basis: LandedCostBasis;
+  charges: LandedCostCharge[];
+  lines: Pick<LandedCostLine, 'productId' | 'variantId' | 'quantity' | 'unitCost' | 'weight'>[];
+}
+
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received';
+
+export interface PurchaseOrderLine {
+  id: number;
+  purchaseOrderId: number;
+  productId: number | null; // null once the product is deleted
+  variantId?: number;
+  productName: string;
+  variantName?: string;
+  quantity: number;
+  receivedQuantity: number;
+  unitCost: number;
+}
+
+export interface PurchaseOrder {
+  id: number;
+  supplier: string;
+  supplierId?: number;
+  reference?: string;
+  notes?: string;
+  status: PurchaseOrderStatus;
+  // Set when the supplier is paid in another currency than the shop's: line costs are then in it,
+  // and what one unit of it costs in the shop's currency turns them into buy prices on receipt
+  currency?: string;
+  exchangeRate?: number;
+  lines: PurchaseOrderLine[];
+  orderedAt?: string; // ISO string format
+  createdAt: string; // ISO string format
+  updatedAt?: string; // ISO string format
+  ownerId?: string;
+}
+
+export interface Supplier {
+  id: number;
+  name: string;
+  contactName?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  leadTimeDays?: number; // Usual delay between ordering and receiving
+  paymentTerms?: string; // e.g. "30 jours fin de mois"
+  notes?: string;
+  createdAt: string; // ISO string format
+  updatedAt?: string; // ISO string format
+  ownerId?: string;
+}
+
+export type SupplierFormData = Omit<Supplier, 'id' | 'createdAt' | 'updatedAt' | 'ownerId'>;
+
+export interface Customer {
+  id: number;
+  name: string;
+  phone?: string;
+  address?: string;
+  wilaya?: string;
+  notes?: string;
+  createdAt: string; // ISO string format
+  updatedAt?: string; // ISO string format
+  ownerId?: string;
+}
+
+export type CustomerFormData = Omit<Customer, 'id' | 'createdAt' | 'updatedAt' | 'ownerId'>;
+
+export type PurchaseOrderLineFormData = Pick<PurchaseOrderLine, 'variantId' | 'quantity' | 'unitCost'> & { productId: number };
+
+export interface PurchaseOrderFormData {
+  supplier: string;
+  reference?: string;
+  notes?: string;
+  currency?: string;
+  exchangeRate?: number;
+  lines: PurchaseOrderLineFormData[];
+}
+
+// Units of one line counted in on delivery, at the cost actually invoiced, in the order's currency
+export interface GoodsReceipt {
+  lineId: number;
+  quantity: number;
+  unitCost: number;
+  lotNumber?: string;
+  expiresAt?: string; // YYYY-MM-DD, when the units expire
+}
+
+export type InventoryCountStatus = 'in_progress' | 'posted';
+
+// One product, or one variant of a product with variants, to find on the shelf
+export interface InventoryCountLine {
+  id: number;
+  inventoryCountId: number;
+  productId: number | null; // null once the product is deleted
+  variantId?: number;
+  productName: string;
+  variantName?: string;
+  counted?: number; // Not counted yet when undefined
+  // Filled in when the count is posted: the stock on record it was compared to, and what a unit cost then
+  expected?: number;
+  unitCost?: number;
+}
+
+// A physical count of the products in a category and/or from a supplier. Posting it sets their stock to what was counted.
+export interface InventoryCount {
+  id: number;
+  category?: string;
+  supplierId?: number;
+  status: InventoryCountStatus;
+  lines: InventoryCountLine[];
+  postedAt?: string; // ISO string format
+  createdAt: string; // ISO string format
+  updatedAt?: string; // ISO string format
+  ownerId?: string;
+}
+
+// Which products a count covers. Without either filter it covers the whole shop.
+export type InventoryCountScope = Pick<InventoryCount, 'category' | 'supplierId'>;
+
+export type StockLocationKind = 'shop' | 'warehouse' | 'courier';
+
+// A place other than the main shop where stock is kept: a second shop, a warehouse, or a courier holding parcels
+export interface StockLocation {
+  id: number;
+  name: string;
+  kind: StockLocationKind;
+  notes?: string;
+  createdAt: string; // ISO string format
+  updatedAt?: string; // ISO string format
+  ownerId?: string;
+}
+
+export type StockLocationFormData = Omit<StockLocation, 'id' | 'createdAt' | 'updatedAt' | 'ownerId'>;
+
+// The units of a product, or of one of its variants, kept at a location. Whatever is not at a location or in transit is at the main shop.
+export interface StockLevel {
+  id: number;
+  productId: number;
+  variantId?: number;
+  locationId: number;
+  quantity: number;
+}
+
+export type StockTransferStatus = 'in_transit' | 'received';
+
+// Units moved between two locations. A transfer does not change the product's stock, only where it is.
+export interface StockTransfer {
+  id: number;
+  productId: number;
+  productName: string;
+  variantId?: number;
+  variantName?: string;
+  quantity: number;
+  fromLocationId?: number; // The main shop when undefined
+  toLocationId?: number; // The main shop when undefined
+  status: StockTransferStatus;
+  notes?: string;
+  receivedAt?: string; // ISO string format
+  createdAt: string; // ISO string format
+  ownerId?: string;
+}
+
+export type StockTransferFormData = Pick<StockTransfer, 'productId' | 'variantId' | 'quantity' | 'fromLocationId' | 'toLocationId' | 'notes'>;
+
+// pending until handed to the courier; a cancelled delivery's units are back in stock
+export type DeliveryStatus = 'pending' | 'shipped' | 'delivered' | 'cancelled';
+
+// Units sent to a customer. They leave the stock when the delivery is created and become a sale once delivered.
+export interface Delivery {
+  id: number;
+  productId: number | null; // Null once the product has been deleted
+  productName: string;
+  variantId?: number;
+  variantName?: string;
+  quantity: number;
+  unitPrice: number; // What each unit sells for, and cost, when the delivery was created
+  unitCost: number;
+  locationId?: number; // Where the units were taken from; the main shop when undefined
+  customerId?: number;
+  address?: string;
+  wilaya?: string;
+  courier?: string;
+  trackingNumber?: string;
+  codAmount: number; // Cash the courier collects on delivery
+  status: DeliveryStatus;
+  saleId?: number; // The sale made when it was delivered
+  notes?: string;
+  deliveredAt?: string; // ISO string format
+  createdAt: string; // ISO string format
+  updatedAt?: string; // ISO string format
+  ownerId?: string;
+}
+
+export type DeliveryFormData = Pick<Delivery, 'variantId' | 'quantity' | 'locationId' | 'customerId' | 'address' | 'wilaya' | 'courier' | 'trackingNumber' | 'notes'> & {
+  productId: number;
+  codAmount?: number; // The price of the units when not given
+};
+
+// What can still be changed once the units are out
+export type DeliveryChanges = Partial<Pick<Delivery, 'customerId' | 'address' | 'wilaya' | 'courier' | 'trackingNumber' | 'codAmount' | 'notes'>> & {
+  status?: Extract<DeliveryStatus, 'pending' | 'shipped'>;
+};
+
+// Where a carrier says a parcel is. Returned parcels are on their way back to the shop.
+export type ShipmentStatus = 'pending' | 'in_transit' | 'delivered' | 'returned';
+
+export interface ShipmentStatusReport {
+  trackingNumber: string;
+  status: ShipmentStatus;
+  updatedAt: string; // ISO string format
+}
+
+// Cash a carrier collected on delivery and paid over, less its fees
+export interface CourierRemittance {
+  id: string; // The carrier's reference for the payment
+  courier: string;
+  paidAt: string; // ISO string format
+  lines: { trackingNumber: string; codAmount: number; fee: number }[];
+}
+
+// A courier payout as we entered it, settling the sales of some delivered deliveries
+export interface CodRemittance {
+  id: number;
+  courier: string;
+  reference?: string; // The courier's reference for the payment
+  amount: number; // What we received
+  codTotal: number; // What the settled deliveries collected; the difference went on the courier's fees
+  paidAt: string; // ISO string format
+  notes?: string;
   createdAt: string; // ISO string format
   ownerId?: string;
 }
 
+export type CodRemittanceFormData = Pick<CodRemittance, 'courier' | 'reference' | 'amount' | 'paidAt' | 'notes'> & {
+  deliveryIds: number[];
+};
+
 export type Theme = 'light' | 'dark';
 
 export type Language = 'fr' | 'en' | 'ar';
@@ -71,7 +558,7 @@ export interface BulkUpdatePayload {
   supplier?: string;
   buyPrice?: { mode: BulkUpdateMode; value: number };
   sellPrice?: { mode: BulkUpdateMode; value: number };
-  stock?: { mode: BulkUpdateMode; value: number };
+  stock?: { mode: BulkUpdateMode; value: number; reason: StockAdjustmentReason };
 }
 
 export interface AIInsight {
@@ -80,14 +567,42 @@ export interface AIInsight {
   description: string;
 }
 
+// An action on a product requested from outside the Products page, e.g. after scanning its barcode
+export interface ProductAction {
+  type: 'sell' | 'deliver';
+  productId: number;
+  variantId?: number;
+}
+
 export interface AppContextType {
   products: Product[];
   sales: Sale[];
   activityLog: ActivityLog[];
+  purchaseOrders: PurchaseOrder[];
+  suppliers: Supplier[];
+  customers: Customer[];
+  saleReturns: SaleReturn[];
+  stockMovements: StockMovement[];
+  priceChanges: PriceChange[];
+  inventoryCounts: InventoryCount[];
+  stockLocations: StockLocation[];
+  stockLevels: StockLevel[];
+  stockTransfers: StockTransfer[];
+  deliveries: Delivery[];
+  // Why the last status refresh could not update a delivery, by delivery id
+  deliverySyncErrors: Record<number, string>;
+  isRefreshingDeliveryStatuses: boolean;
+  deliveryStatusesRefreshedAt: Date | null;
+  codRemittances: CodRemittance[];
+  promotions: Promotion[];
+  taxRates: TaxRate[];
+  landedCosts: LandedCost[];
   // FIX: Use the custom AppNotification type to resolve type errors.
   notifications: AppNotification[];
   theme: Theme;
   language: Language;
+  currency: string;
+  costingMethod: CostingMethod;
   isLoading: boolean;
   isConfigured: boolean;
   session: any; // Using `any` for Supabase Session type for simplicity
@@ -95,33 +610,98 @@ export interface AppContextType {
   isVisualSearchOpen: boolean;
   productDataForForm: (ProductFormData & { imageBlob?: Blob }) | null;
   visualSearchQuery: string | null;
+  productAction: ProductAction | null;
+  // Records with changes made offline that have not reached the server yet
+  pendingSync: { productIds: number[]; saleIds: number[] };
   setTheme: (theme: Theme) => void;
   setLanguage: (language: Language) => void;
+  setCurrency: (currency: string) => void;
+  setCostingMethod: (costingMethod: CostingMethod) => Promise<void>;
   t: (key: string, params?: Record<string, string | number>) => string;
+  // An amount in the shop's currency, in the user's language
+  formatCurrency: (amount: number, options?: Intl.NumberFormatOptions) => string;
   login: (email: string, pass: string) => Promise<{ error: Error | null }>;
   logout: () => Promise<void>;
   addProduct: (productData: ProductFormData) => Promise<Product | null>;
-  addMultipleProducts: (productsData: Omit<Product, 'id' | 'status' | 'createdAt'>[]) => Promise<void>;
+  addMultipleProducts: (productsData: Omit<ProductFormData, 'imageFile'>[]) => Promise<void>;
   updateProduct: (product: Product, productData: ProductFormData) => Promise<Product | null>;
   updateMultipleProducts: (productIds: number[], updates: BulkUpdatePayload) => Promise<void>;
+  // Puts back the prices a bulk edit changed, on all its products at once. Refused when one was repriced since.
+  revertBulkPriceChange: (batchId: string) => Promise<boolean>;
   deleteProduct: (productId: number) => Promise<void>;
   deleteMultipleProducts: (productIds: number[]) => Promise<void>;
   duplicateProduct: (productId: number) => Promise<void>;
-  setProductToDelivery: (productId: number) => Promise<void>;
-  confirmSaleFromDelivery: (productId: number) => Promise<void>;
-  cancelDelivery: (productId: number) => Promise<void>;
-  addSale: (productId: number, quantity: number) => Promise<void>;
+  // Takes the units out of stock until the delivery is confirmed as a sale or cancelled
+  createDelivery: (deliveryData: DeliveryFormData) => Promise<Delivery | null>;
+  updateDelivery: (delivery: Delivery, changes: DeliveryChanges) => Promise<Delivery | null>;
+  // The sale goes to the customer the units were sent to unless another one is given
+  confirmSaleFromDelivery: (deliveryId: number, customerId?: number) => Promise<void>;
+  // Puts the units back in stock, where they were taken from
+  cancelDelivery: (deliveryId: number) => Promise<void>;
+  // Books the parcel with the courier when it has an adapter, then marks the delivery shipped
+  shipDelivery: (delivery: Delivery) => Promise<Delivery | null>;
+  // Confirms or cancels tracked deliveries from what their carrier reports. Also runs on its own every few minutes.
+  refreshDeliveryStatuses: () => Promise<void>;
+  // Marks the sales of the given delivered deliveries paid by one courier payout
+  recordCodRemittance: (remittanceData: CodRemittanceFormData) => Promise<CodRemittance | null>;
+  // Undoes a payout entered by mistake; its sales await the courier again
+  deleteCodRemittance: (remittanceId: number) => Promise<void>;
+  // Cash for the whole total when no payments are given, and at the list or promotional price without pricing
+  addSale: (productId: number, quantity: number, variantId?: number, customerId?: number, payments?: SalePayment[], pricing?: SalePricing) => Promise<void>;
   cancelSale: (saleId: number) => Promise<void>;
-  markNotificationAsRead: (productId: number) => void;
+  checkout: (data: CheckoutData) => Promise<boolean>;
+  // Cancels every line of the order, putting all of its units back in stock
+  cancelSaleOrder: (orderId: number) => Promise<void>;
+  returnSale: (saleId: number, returnData: SaleReturnFormData) => Promise<SaleReturn | null>;
+  savePurchaseOrder: (orderId: number | null, orderData: PurchaseOrderFormData) => Promise<PurchaseOrder | null>;
+  markPurchaseOrderOrdered: (orderId: number) => Promise<void>;
+  deletePurchaseOrder: (orderId: number) => Promise<void>;
+  // Only receipts with a positive quantity are applied
+  receivePurchaseOrder: (orderId: number, receipts: GoodsReceipt[]) => Promise<PurchaseOrder | null>;
+  startInventoryCount: (scope: InventoryCountScope) => Promise<InventoryCount | null>;
+  // `counted` is null to clear a line that was counted by mistake
+  recordInventoryCount: (lineId: number, counted: number | null) => Promise<boolean>;
+  // Adjusts the stock of every counted line to what was found, in one go
+  postInventoryCount: (countId: number) => Promise<InventoryCount | null>;
+  deleteInventoryCount: (countId: number) => Promise<void>;
+  addStockLocation: (locationData: StockLocationFormData) => Promise<StockLocation | null>;
+  updateStockLocation: (location: StockLocation, locationData: StockLocationFormData) => Promise<StockLocation | null>;
+  // Only a location holding no stock, with nothing on its way to or from it, can be deleted
+  deleteStockLocation: (locationId: number) => Promise<void>;
+  addPromotion: (promotionData: PromotionFormData) => Promise<Promotion | null>;
+  updatePromotion: (promotion: Promotion, promotionData: PromotionFormData) => Promise<Promotion | null>;
+  // Sales it priced keep their price
+  deletePromotion: (promotionId: number) => Promise<void>;
+  // Sets the rate of a category, replacing the one it had
+  saveTaxRate: (category: string, rate: number) => Promise<TaxRate | null>;
+  // Sales already made keep the rate they were made at
+  deleteTaxRate: (taxRateId: number) => Promise<void>;
+  applyLandedCost: (data: LandedCostFormData) => Promise<LandedCost | null>;
+  addStockLot: (lot: StockLotFormData) => Promise<boolean>;
+  removeStockLot: (lotId: number) => Promise<void>;
+  // Takes the units out of the origin right away, they reach the destination when the transfer is received
+  sendStockTransfer: (transferData: StockTransferFormData) => Promise<StockTransfer | null>;
+  receiveStockTransfer: (transferId: number) => Promise<void>;
+  // Puts the units of a transfer still in transit back where they came from
+  cancelStockTransfer: (transferId: number) => Promise<void>;
+  addSupplier: (supplierData: SupplierFormData) => Promise<Supplier | null>;
+  updateSupplier: (supplier: Supplier, supplierData: SupplierFormData) => Promise<Supplier | null>;
+  deleteSupplier: (supplierId: number) => Promise<void>;
+  addCustomer: (customerData: CustomerFormData) => Promise<Customer | null>;
+  updateCustomer: (customer: Customer, customerData: CustomerFormData) => Promise<Customer | null>;
+  deleteCustomer: (customerId: number) => Promise<void>;
+  markNotificationAsRead: (notificationId: string) => void;
   markAllNotificationsAsRead: () => void;
   saveSupabaseCredentials: (url: string, anonKey: string) => void;
   saveGeminiApiKey: (key: string) => void;
   refetchData: () => Promise<void>;
   findProductByName: (name: string) => Product[];
   findProductsByKeywords: (keywords: string) => Product[];
+  findProductByCode: (code: string) => { product: Product; variant?: ProductVariant } | null;
   testSupabaseConnection: () => Promise<{ success: boolean; error?: string; dbOk?: boolean; storageOk?: boolean; }>;
   openVisualSearch: () => void;
   closeVisualSearch: () => void;
   setProductDataForForm: (data: (ProductFormData & { imageBlob?: Blob }) | null) => void;
   setVisualSearchQuery: (query: string | null) => void;
+  setProductAction: (action: ProductAction | null) => void;
 }
\ No newline at end of file